@@ -50,6 +50,8 @@ interface IRyzerWalletCore {
 
     function toEthSignedMessageHash(bytes32 hash) external pure returns (bytes32);
 
+    function isValidSignature(bytes32 hash, bytes calldata signature) external view returns (bytes4);
+
     // View functions
     function userAddressToId(address user) external view returns (uint64);
 
@@ -23,6 +23,8 @@ contract RyzerWalletCore is Initializable, UUPSUpgradeable, AccessControlUpgrade
     uint64 public constant DEFAULT_ROLE_DURATION = 365 days;
     uint256 public constant MAX_GAS_PER_OP = 1_000_000;
     uint256 public constant RATE_LIMIT_BLOCKS = 10;
+    bytes4 internal constant ERC1271_MAGIC_VALUE = 0x1626ba7e;
+    bytes4 internal constant ERC1271_INVALID = 0xffffffff;
 
     address public entryPoint;
     address public paymaster;
@@ -289,6 +291,15 @@ contract RyzerWalletCore is Initializable, UUPSUpgradeable, AccessControlUpgrade
         return 0;
     }
 
+    /// @notice ERC-1271 signature check. Accepts signatures from the wallet's user or its delegated signer.
+    function isValidSignature(bytes32 hash, bytes calldata signature) external view returns (bytes4) {
+        if (emergencyStopped) return ERC1271_INVALID;
+        (address signer, ECDSA.RecoverError error, ) = ECDSA.tryRecover(hash, signature);
+        if (error != ECDSA.RecoverError.NoError || blacklistedUsers[signer]) return ERC1271_INVALID;
+        if (userAddressToId[signer] != 0 || signer == delegatedSigners[address(this)]) return ERC1271_MAGIC_VALUE;
+        return ERC1271_INVALID;
+    }
+
     function _verifyMultiSignature(address user, bytes32 userOpHash, bytes calldata signature) internal view {
         MultiSignature storage multiSig = multiSigners[user];
         (address[] memory signers, bytes[] memory signatures, bytes32[][] memory proofs) = abi.decode(signature, (address[], bytes[], bytes32[][]));
@@ -1,18 +1,44 @@
 // Type declarations for ethers
 declare module 'ethers' {
   export namespace ethers {
-    export class Wallet {
+    export abstract class Signer {
+      readonly provider?: providers.Provider;
+      getAddress(): Promise<string>;
+      connect(provider: providers.Provider): Signer;
+      signMessage(message: Uint8Array | string): Promise<string>;
+    }
+
+    export class Wallet extends Signer {
       constructor(privateKey: string, provider?: providers.Provider);
       connect(provider: providers.Provider): Wallet;
       signMessage(message: Uint8Array | string): Promise<string>;
+      _signTypedData(domain: TypedDataDomain, types: Record<string, TypedDataField[]>, value: Record<string, any>): Promise<string>;
       address: string;
       provider?: providers.Provider;
     }
 
+    export interface TypedDataDomain {
+      name?: string;
+      version?: string;
+      chainId?: string | number | BigNumber;
+      verifyingContract?: string;
+      salt?: string;
+    }
+
+    export interface TypedDataField {
+      name: string;
+      type: string;
+    }
+
+    export interface TypedDataSigner {
+      _signTypedData(domain: TypedDataDomain, types: Record<string, TypedDataField[]>, value: Record<string, any>): Promise<string>;
+    }
+
     export namespace providers {
       export type BlockTag = string | number;
       export class Provider {
         getBalance(addressOrName: string, blockTag?: BlockTag): Promise<BigNumber>;
+        getNetwork(): Promise<{ name: string; chainId: number }>;
       }
       export class JsonRpcProvider extends Provider {
         constructor(url?: string, network?: any);
@@ -20,13 +46,15 @@ declare module 'ethers' {
     }
 
     export class Contract {
-      constructor(address: string, abi: any, providerOrSigner: providers.Provider | Wallet);
-      connect(signerOrProvider: Wallet | providers.Provider): Contract;
+      constructor(address: string, abi: any, providerOrSigner: providers.Provider | Signer);
+      connect(signerOrProvider: Signer | providers.Provider): Contract;
     }
 
     export class BigNumber {
       toNumber(): number;
       toString(): string;
+      toHexString(): string;
+      lt(other: string | number | BigNumber): boolean;
       static from(value: any): BigNumber;
     }
 
@@ -35,10 +63,18 @@ declare module 'ethers' {
       export function keccak256(value: any): string;
       export function toUtf8Bytes(text: string): Uint8Array;
       export function solidityPack(types: string[], values: any[]): string;
+      export function getAddress(address: string): string;
+      export function hexConcat(items: any[]): string;
+      export function hexZeroPad(value: any, length: number): string;
+      export function hexDataLength(data: any): number;
+      export function hexDataSlice(data: any, offset: number, endOffset?: number): string;
       export const defaultAbiCoder: {
         encode(types: string[], values: any[]): string;
         decode(types: string[], data: string): any[];
       };
+      export class _TypedDataEncoder {
+        static hash(domain: TypedDataDomain, types: Record<string, TypedDataField[]>, value: Record<string, any>): string;
+      }
       export class Interface {
         constructor(fragments: string[]);
         encodeFunctionData(functionName: string, values: any[]): string;
@@ -14,10 +14,17 @@ import {
   RyzerTokenManagement
 } from './modules/index';
 import * as RyzerUtils from './utils';
+import { ExtendedContract } from './types/contract';
 import { 
   RyzerSDKConfig, 
   CreateWalletParams, 
-  UserOperation 
+  EntryPointVersion,
+  UserOperation,
+  UserOperationV07,
+  PackedUserOperation,
+  ForwardRequest,
+  CreateForwardRequestParams,
+  ForwarderConfig
 } from './types';
 
 /**
@@ -30,10 +37,12 @@ export class RyzerSDK {
   public readonly factoryAddress: string;
   /** Address of the EntryPoint contract */
   public readonly entryPointAddress: string;
+  /** Version of the EntryPoint contract */
+  public readonly entryPointVersion: EntryPointVersion;
   /** Address of the RyzerPaymaster contract */
   public readonly paymasterAddress: string;
-  /** Private key for signing transactions */
-  private _privateKey?: string;
+  /** Signer for transactions */
+  private _signer?: ethers.Signer;
 
   /** Core module for interacting with RyzerWalletCore */
   public readonly core: RyzerCore;
@@ -62,8 +71,11 @@ export class RyzerSDK {
     this.provider = config.provider;
     this.factoryAddress = config.factoryAddress;
     this.entryPointAddress = config.entryPointAddress;
+    this.entryPointVersion = config.entryPointVersion || '0.6';
     this.paymasterAddress = config.paymasterAddress;
-    this._privateKey = config.privateKey;
+    if (config.signer || config.privateKey) {
+      this.connect(config.signer || config.privateKey!);
+    }
     
     // Initialize modules
     this.core = new RyzerCore(this);
@@ -76,24 +88,25 @@ export class RyzerSDK {
   }
 
   /**
-   * Get the private key
-   * @returns {string | undefined} - Private key
-   * @throws {Error} If private key is not set
+   * Get the signer, connected to the SDK provider
+   * @returns {ethers.Signer} - Signer
+   * @throws {Error} If no signer is connected
    */
-  get privateKey(): string {
-    if (!this._privateKey) {
-      throw new Error('Private key not set. Use sdk.connect() to set a private key.');
+  get signer(): ethers.Signer {
+    if (!this._signer) {
+      throw new Error('Signer not set. Use sdk.connect() to set a signer.');
     }
-    return this._privateKey;
+    return this._signer;
   }
 
   /**
-   * Connect to a wallet using private key
-   * @param {string} privateKey - Private key for signing transactions
+   * Connect a signer for transactions
+   * @param {ethers.Signer | string} signer - Signer, e.g. an HSM-backed signer, or a private key
    * @returns {RyzerSDK} - Returns the SDK instance for chaining
    */
-  public connect(privateKey: string): RyzerSDK {
-    this._privateKey = privateKey;
+  public connect(signer: ethers.Signer | string): RyzerSDK {
+    const connected = typeof signer === 'string' ? new ethers.Wallet(signer) : signer;
+    this._signer = connected.provider ? connected : connected.connect(this.provider);
     return this;
   }
 
@@ -116,20 +129,54 @@ export class RyzerSDK {
   }
 
   /**
-   * Sign a user operation
-   * @param {UserOperation} userOp - User operation object
+   * Sign a user operation. Packed v0.7 user operations are signed over the
+   * hash the entry point computes, which includes its address and the chain ID.
+   * @param {UserOperation | PackedUserOperation} userOp - User operation object
    * @returns {Promise<string>} - Signature
    */
-  public async signUserOp(userOp: UserOperation): Promise<string> {
-    return this.utils.signUserOp(userOp, this.privateKey);
+  public async signUserOp(userOp: UserOperation | PackedUserOperation): Promise<string> {
+    if (this.utils.isPackedUserOp(userOp)) {
+      const { chainId } = await this.provider.getNetwork();
+      return this.utils.signUserOp(userOp, this.signer, this.entryPointAddress, chainId);
+    }
+    return this.utils.signUserOp(userOp, this.signer);
+  }
+
+  /**
+   * Build a forward request for an ERC-2771 forwarder and sign it with the
+   * connected signer. Without a nonce the forwarder's next nonce for the
+   * sender is used; a relayer that has requests in flight may expect a later
+   * one.
+   * @param {CreateForwardRequestParams} params - Forward request parameters; from defaults to the signer
+   * @param {ForwarderConfig} forwarder - Forwarder address and domain name
+   * @returns {Promise<{ request: ForwardRequest; signature: string }>} - Request and its signature
+   */
+  public async signForwardRequest(
+    params: Omit<CreateForwardRequestParams, 'from'> & { from?: string },
+    forwarder: ForwarderConfig
+  ): Promise<{ request: ForwardRequest; signature: string }> {
+    const from = params.from || (await this.signer.getAddress());
+    let nonce = params.nonce;
+    if (nonce === undefined) {
+      const contract = new ethers.Contract(
+        forwarder.address,
+        ['function nonces(address owner) view returns (uint256)'],
+        this.provider
+      ) as ExtendedContract;
+      nonce = await contract.nonces(from);
+    }
+    const request = this.utils.createForwardRequest({ ...params, from, nonce });
+    const { chainId } = await this.provider.getNetwork();
+    const signature = await this.utils.signForwardRequest(request, this.signer, forwarder, chainId);
+    return { request, signature };
   }
 
   /**
    * Send a user operation through the entry point
-   * @param {UserOperation} userOp - User operation object
+   * @param {UserOperation | UserOperationV07 | PackedUserOperation} userOp - User operation object for the entry point version
    * @returns {Promise<string>} - Transaction hash
    */
-  public async sendUserOperation(userOp: UserOperation): Promise<string> {
+  public async sendUserOperation(userOp: UserOperation | UserOperationV07 | PackedUserOperation): Promise<string> {
     return this.core.sendUserOperation(userOp);
   }
 }
@@ -5,7 +5,8 @@
 
 import { ethers } from 'ethers';
 import { RyzerSDK } from '../index';
-import { UserOperation, MultiSignerConfig } from '../types';
+import { UserOperation, UserOperationV07, PackedUserOperation, MultiSignerConfig } from '../types';
+import { isPackedUserOp, packUserOp } from '../utils';
 import { ExtendedContract } from '../types/contract';
 
 // Import ABI
@@ -41,10 +42,10 @@ export class RyzerCore {
 
   /**
    * Get a signer for transactions
-   * @returns {ethers.Wallet} - Wallet instance with signer
+   * @returns {ethers.Signer} - Signer connected to the SDK provider
    */
-  public getSigner(): ethers.Wallet {
-    return new ethers.Wallet(this.sdk.privateKey, this.provider);
+  public getSigner(): ethers.Signer {
+    return this.sdk.signer;
   }
 
   /**
@@ -265,18 +266,38 @@ export class RyzerCore {
   }
 
   /**
-   * Send a user operation through the entry point
-   * @param {UserOperation} userOp - User operation object
+   * Send a user operation through the entry point. The v0.7 entry point takes
+   * packed user operations; unpacked v0.7 user operations are packed first.
+   * @param {UserOperation | UserOperationV07 | PackedUserOperation} userOp - User operation object for the entry point version
    * @returns {Promise<string>} - Transaction hash
+   * @throws {Error} If the user operation is laid out for another entry point version
    */
-  public async sendUserOperation(userOp: UserOperation): Promise<string> {
+  public async sendUserOperation(userOp: UserOperation | UserOperationV07 | PackedUserOperation): Promise<string> {
+    const v07 = this.sdk.entryPointVersion === '0.7';
+    let op: UserOperation | PackedUserOperation;
+    if (v07) {
+      if (!isPackedUserOp(userOp) && (userOp as UserOperation).initCode !== undefined) {
+        throw new Error('The v0.7 entry point does not take v0.6 user operations; convert with toUserOpV07 and sign again');
+      }
+      op = isPackedUserOp(userOp) ? userOp : packUserOp(userOp as UserOperationV07);
+    } else {
+      if (isPackedUserOp(userOp) || (userOp as UserOperation).initCode === undefined) {
+        throw new Error('The v0.6 entry point does not take v0.7 user operations; convert with toUserOpV06 and sign again');
+      }
+      op = userOp as UserOperation;
+    }
+
     const entryPointContract = new ethers.Contract(
       this.sdk.entryPointAddress,
-      ['function handleOps(tuple(address sender, uint256 nonce, bytes initCode, bytes callData, uint256 callGasLimit, uint256 verificationGasLimit, uint256 preVerificationGas, uint256 maxFeePerGas, uint256 maxPriorityFeePerGas, bytes paymasterAndData, bytes signature)[] ops, address payable beneficiary)'],
+      [
+        v07
+          ? 'function handleOps(tuple(address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature)[] ops, address payable beneficiary)'
+          : 'function handleOps(tuple(address sender, uint256 nonce, bytes initCode, bytes callData, uint256 callGasLimit, uint256 verificationGasLimit, uint256 preVerificationGas, uint256 maxFeePerGas, uint256 maxPriorityFeePerGas, bytes paymasterAndData, bytes signature)[] ops, address payable beneficiary)'
+      ],
       this.getSigner()
     );
     
-    const tx = await (entryPointContract as ExtendedContract).handleOps([userOp], this.getSigner().address);
+    const tx = await (entryPointContract as ExtendedContract).handleOps([op], await this.getSigner().getAddress());
     return tx.hash;
   }
 
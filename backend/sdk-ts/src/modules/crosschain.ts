@@ -46,10 +46,10 @@ export class RyzerCrosschain {
 
   /**
    * Get a signer for transactions
-   * @returns {ethers.Wallet} - Wallet instance with signer
+   * @returns {ethers.Signer} - Signer connected to the SDK provider
    */
-  public getSigner(): ethers.Wallet {
-    return new ethers.Wallet(this.sdk.privateKey, this.provider);
+  public getSigner(): ethers.Signer {
+    return this.sdk.signer;
   }
 
   /**
@@ -10,9 +10,13 @@ export interface RyzerSDKConfig {
   factoryAddress: string;
   /** Address of the EntryPoint contract */
   entryPointAddress: string;
+  /** Version of the EntryPoint contract (optional), defaults to '0.6' */
+  entryPointVersion?: EntryPointVersion;
   /** Address of the RyzerPaymaster contract */
   paymasterAddress: string;
-  /** Private key for signing transactions (optional) */
+  /** Signer for transactions (optional), e.g. an HSM-backed signer */
+  signer?: ethers.Signer;
+  /** Private key for signing transactions (optional), used when no signer is given */
   privateKey?: string;
 }
 
@@ -60,6 +64,71 @@ export interface UserOperation {
   signature: string;
 }
 
+/**
+ * ERC-4337 EntryPoint version
+ */
+export type EntryPointVersion = '0.6' | '0.7';
+
+/**
+ * User operation object of the v0.7 EntryPoint, as bundlers take it over JSON-RPC
+ */
+export interface UserOperationV07 {
+  /** Sender address */
+  sender: string;
+  /** Nonce */
+  nonce: ethers.BigNumberish;
+  /** Factory address, if the account is not deployed yet */
+  factory?: string;
+  /** Factory call data */
+  factoryData?: string;
+  /** Call data */
+  callData: string;
+  /** Call gas limit */
+  callGasLimit: ethers.BigNumberish;
+  /** Verification gas limit */
+  verificationGasLimit: ethers.BigNumberish;
+  /** Pre-verification gas */
+  preVerificationGas: ethers.BigNumberish;
+  /** Maximum fee per gas */
+  maxFeePerGas: ethers.BigNumberish;
+  /** Maximum priority fee per gas */
+  maxPriorityFeePerGas: ethers.BigNumberish;
+  /** Paymaster address */
+  paymaster?: string;
+  /** Paymaster verification gas limit */
+  paymasterVerificationGasLimit?: ethers.BigNumberish;
+  /** Paymaster postOp gas limit */
+  paymasterPostOpGasLimit?: ethers.BigNumberish;
+  /** Paymaster data */
+  paymasterData?: string;
+  /** Signature */
+  signature: string;
+}
+
+/**
+ * Packed user operation object, as the v0.7 EntryPoint takes it
+ */
+export interface PackedUserOperation {
+  /** Sender address */
+  sender: string;
+  /** Nonce */
+  nonce: ethers.BigNumberish;
+  /** Initialization code: factory address and factory call data */
+  initCode: string;
+  /** Call data */
+  callData: string;
+  /** Verification gas limit and call gas limit, as two uint128 */
+  accountGasLimits: string;
+  /** Pre-verification gas */
+  preVerificationGas: ethers.BigNumberish;
+  /** Maximum priority fee per gas and maximum fee per gas, as two uint128 */
+  gasFees: string;
+  /** Paymaster address, verification and postOp gas limits as two uint128, and paymaster data */
+  paymasterAndData: string;
+  /** Signature */
+  signature: string;
+}
+
 /**
  * Parameters for creating a user operation
  */
@@ -86,6 +155,56 @@ export interface CreateUserOpParams {
   paymasterAndData?: string;
 }
 
+/**
+ * ERC-2771 forward request, signed as EIP-712 typed data and executed by a trusted forwarder
+ */
+export interface ForwardRequest {
+  /** Signer, seen by the target as the sender */
+  from: string;
+  /** Target contract */
+  to: string;
+  /** Value in wei */
+  value: ethers.BigNumberish;
+  /** Gas forwarded to the target */
+  gas: ethers.BigNumberish;
+  /** Forwarder nonce of the signer */
+  nonce: ethers.BigNumberish;
+  /** Unix time in seconds after which the forwarder rejects the request */
+  deadline: number;
+  /** Call data */
+  data: string;
+}
+
+/**
+ * Parameters for creating a forward request
+ */
+export interface CreateForwardRequestParams {
+  /** Signer address */
+  from: string;
+  /** Target contract */
+  to: string;
+  /** Call data (optional) */
+  data?: string;
+  /** Value in wei (optional) */
+  value?: ethers.BigNumberish;
+  /** Gas forwarded to the target (optional) */
+  gas?: ethers.BigNumberish;
+  /** Forwarder nonce (optional); read from the forwarder when omitted */
+  nonce?: ethers.BigNumberish;
+  /** Deadline in Unix seconds (optional), defaults to one hour from now */
+  deadline?: number;
+}
+
+/**
+ * ERC-2771 forwarder a forward request is signed for
+ */
+export interface ForwarderConfig {
+  /** Forwarder address */
+  address: string;
+  /** EIP-712 domain name the forwarder was deployed with (optional), defaults to 'ERC2771Forwarder' */
+  name?: string;
+}
+
 /**
  * Parameters for transferring ERC20 tokens
  */
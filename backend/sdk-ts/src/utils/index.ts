@@ -4,7 +4,16 @@
  */
 
 import { ethers } from 'ethers';
-import { UserOperation, CreateUserOpParams, RyzerConstants } from '../types';
+import {
+  UserOperation,
+  UserOperationV07,
+  PackedUserOperation,
+  CreateUserOpParams,
+  ForwardRequest,
+  CreateForwardRequestParams,
+  ForwarderConfig,
+  RyzerConstants
+} from '../types';
 
 // Import merkle tree functions
 import { createMerkleRoot as merkleCreateRoot, generateProof as merkleGenerateProof, verifyProof as merkleVerifyProof, updateMerkleRoot as merkleUpdateRoot } from './merkleTree';
@@ -35,50 +44,373 @@ export function createUserOp(params: CreateUserOpParams): UserOperation {
 
 /**
  * Sign a user operation
- * @param {UserOperation} userOp - User operation object
- * @param {string} privateKey - Private key for signing
+ * @param {UserOperation | PackedUserOperation} userOp - User operation object, v0.6 or packed v0.7
+ * @param {ethers.Signer | string} signer - Signer or private key for signing
+ * @param {string} [entryPoint] - EntryPoint address, hashed in with the chain ID
+ * @param {number} [chainId] - Chain ID
  * @returns {string} - Signature
  */
-export async function signUserOp(userOp: UserOperation, privateKey: string): Promise<string> {
-  const wallet = new ethers.Wallet(privateKey);
-  const userOpHash = getUserOpHash(userOp);
+export async function signUserOp(
+  userOp: UserOperation | PackedUserOperation,
+  signer: ethers.Signer | string,
+  entryPoint?: string,
+  chainId?: number
+): Promise<string> {
+  const wallet = typeof signer === 'string' ? new ethers.Wallet(signer) : signer;
+  const userOpHash = getUserOpHash(userOp, entryPoint, chainId);
   const signature = await wallet.signMessage(ethers.utils.arrayify(userOpHash));
   return signature;
 }
 
 /**
- * Get the hash of a user operation
- * @param {UserOperation} userOp - User operation object
+ * Check whether a user operation is packed for the v0.7 EntryPoint
+ * @param {UserOperation | UserOperationV07 | PackedUserOperation} userOp - User operation object
+ * @returns {boolean} - Whether the user operation is packed
+ */
+export function isPackedUserOp(
+  userOp: UserOperation | UserOperationV07 | PackedUserOperation
+): userOp is PackedUserOperation {
+  return (userOp as PackedUserOperation).accountGasLimits !== undefined;
+}
+
+/**
+ * Get the hash of a user operation. With an EntryPoint and a chain ID the
+ * hash is the one EntryPoint.getUserOpHash returns and accounts verify;
+ * without them it is the hash of the user operation fields alone.
+ * @param {UserOperation | PackedUserOperation} userOp - User operation object, v0.6 or packed v0.7
+ * @param {string} [entryPoint] - EntryPoint address
+ * @param {number} [chainId] - Chain ID
  * @returns {string} - User operation hash
  */
-export function getUserOpHash(userOp: UserOperation): string {
-  const packedUserOp = ethers.utils.defaultAbiCoder.encode(
-    [
-      'address', // sender
-      'uint256', // nonce
-      'bytes32', // initCode hash
-      'bytes32', // callData hash
-      'uint256', // callGasLimit
-      'uint256', // verificationGasLimit
-      'uint256', // preVerificationGas
-      'uint256', // maxFeePerGas
-      'uint256', // maxPriorityFeePerGas
-      'bytes32'  // paymasterAndData hash
-    ],
-    [
-      userOp.sender,
-      userOp.nonce,
-      ethers.utils.keccak256(userOp.initCode),
-      ethers.utils.keccak256(userOp.callData),
-      userOp.callGasLimit,
-      userOp.verificationGasLimit,
-      userOp.preVerificationGas,
-      userOp.maxFeePerGas,
-      userOp.maxPriorityFeePerGas,
-      ethers.utils.keccak256(userOp.paymasterAndData)
-    ]
+export function getUserOpHash(userOp: UserOperation | PackedUserOperation, entryPoint?: string, chainId?: number): string {
+  const packedUserOp = isPackedUserOp(userOp)
+    ? ethers.utils.defaultAbiCoder.encode(
+        [
+          'address', // sender
+          'uint256', // nonce
+          'bytes32', // initCode hash
+          'bytes32', // callData hash
+          'bytes32', // accountGasLimits
+          'uint256', // preVerificationGas
+          'bytes32', // gasFees
+          'bytes32'  // paymasterAndData hash
+        ],
+        [
+          userOp.sender,
+          userOp.nonce,
+          ethers.utils.keccak256(userOp.initCode),
+          ethers.utils.keccak256(userOp.callData),
+          userOp.accountGasLimits,
+          userOp.preVerificationGas,
+          userOp.gasFees,
+          ethers.utils.keccak256(userOp.paymasterAndData)
+        ]
+      )
+    : ethers.utils.defaultAbiCoder.encode(
+        [
+          'address', // sender
+          'uint256', // nonce
+          'bytes32', // initCode hash
+          'bytes32', // callData hash
+          'uint256', // callGasLimit
+          'uint256', // verificationGasLimit
+          'uint256', // preVerificationGas
+          'uint256', // maxFeePerGas
+          'uint256', // maxPriorityFeePerGas
+          'bytes32'  // paymasterAndData hash
+        ],
+        [
+          userOp.sender,
+          userOp.nonce,
+          ethers.utils.keccak256(userOp.initCode),
+          ethers.utils.keccak256(userOp.callData),
+          userOp.callGasLimit,
+          userOp.verificationGasLimit,
+          userOp.preVerificationGas,
+          userOp.maxFeePerGas,
+          userOp.maxPriorityFeePerGas,
+          ethers.utils.keccak256(userOp.paymasterAndData)
+        ]
+      );
+  const hash = ethers.utils.keccak256(packedUserOp);
+  if (entryPoint === undefined || chainId === undefined) {
+    return hash;
+  }
+  return ethers.utils.keccak256(
+    ethers.utils.defaultAbiCoder.encode(['bytes32', 'address', 'uint256'], [hash, entryPoint, chainId])
   );
-  return ethers.utils.keccak256(packedUserOp);
+}
+
+/**
+ * Pack two uint128 values into a bytes32, the first in the high half
+ * @param {ethers.BigNumberish} high - High value
+ * @param {ethers.BigNumberish} low - Low value
+ * @returns {string} - Packed value
+ */
+function packUint128(high: ethers.BigNumberish, low: ethers.BigNumberish): string {
+  return ethers.utils.hexConcat([
+    ethers.utils.hexZeroPad(ethers.BigNumber.from(high).toHexString(), 16),
+    ethers.utils.hexZeroPad(ethers.BigNumber.from(low).toHexString(), 16)
+  ]);
+}
+
+/**
+ * Split a bytes32 into its two uint128 halves
+ * @param {string} packed - Packed value
+ * @returns {[ethers.BigNumber, ethers.BigNumber]} - High and low value
+ */
+function unpackUint128(packed: string): [ethers.BigNumber, ethers.BigNumber] {
+  return [
+    ethers.BigNumber.from(ethers.utils.hexDataSlice(packed, 0, 16)),
+    ethers.BigNumber.from(ethers.utils.hexDataSlice(packed, 16, 32))
+  ];
+}
+
+/**
+ * Pack the account gas limits of a v0.7 user operation
+ * @param {ethers.BigNumberish} verificationGasLimit - Verification gas limit
+ * @param {ethers.BigNumberish} callGasLimit - Call gas limit
+ * @returns {string} - accountGasLimits
+ */
+export function packAccountGasLimits(verificationGasLimit: ethers.BigNumberish, callGasLimit: ethers.BigNumberish): string {
+  return packUint128(verificationGasLimit, callGasLimit);
+}
+
+/**
+ * Pack the gas fees of a v0.7 user operation
+ * @param {ethers.BigNumberish} maxPriorityFeePerGas - Maximum priority fee per gas
+ * @param {ethers.BigNumberish} maxFeePerGas - Maximum fee per gas
+ * @returns {string} - gasFees
+ */
+export function packGasFees(maxPriorityFeePerGas: ethers.BigNumberish, maxFeePerGas: ethers.BigNumberish): string {
+  return packUint128(maxPriorityFeePerGas, maxFeePerGas);
+}
+
+/**
+ * Pack the paymaster fields of a v0.7 user operation
+ * @param {string} [paymaster] - Paymaster address
+ * @param {ethers.BigNumberish} [verificationGasLimit] - Paymaster verification gas limit
+ * @param {ethers.BigNumberish} [postOpGasLimit] - Paymaster postOp gas limit
+ * @param {string} [data] - Paymaster data
+ * @returns {string} - paymasterAndData, empty without a paymaster
+ */
+export function packPaymasterAndData(
+  paymaster?: string,
+  verificationGasLimit: ethers.BigNumberish = 0,
+  postOpGasLimit: ethers.BigNumberish = 0,
+  data: string = '0x'
+): string {
+  if (!paymaster) {
+    return '0x';
+  }
+  return ethers.utils.hexConcat([paymaster, packUint128(verificationGasLimit, postOpGasLimit), data]);
+}
+
+/**
+ * Pack a v0.7 user operation for the EntryPoint
+ * @param {UserOperationV07} userOp - User operation object
+ * @returns {PackedUserOperation} - Packed user operation
+ */
+export function packUserOp(userOp: UserOperationV07): PackedUserOperation {
+  return {
+    sender: userOp.sender,
+    nonce: userOp.nonce,
+    initCode: userOp.factory ? ethers.utils.hexConcat([userOp.factory, userOp.factoryData || '0x']) : '0x',
+    callData: userOp.callData,
+    accountGasLimits: packAccountGasLimits(userOp.verificationGasLimit, userOp.callGasLimit),
+    preVerificationGas: userOp.preVerificationGas,
+    gasFees: packGasFees(userOp.maxPriorityFeePerGas, userOp.maxFeePerGas),
+    paymasterAndData: packPaymasterAndData(
+      userOp.paymaster,
+      userOp.paymasterVerificationGasLimit,
+      userOp.paymasterPostOpGasLimit,
+      userOp.paymasterData
+    ),
+    signature: userOp.signature
+  };
+}
+
+/**
+ * Unpack a packed v0.7 user operation
+ * @param {PackedUserOperation} packed - Packed user operation
+ * @returns {UserOperationV07} - User operation object
+ */
+export function unpackUserOp(packed: PackedUserOperation): UserOperationV07 {
+  const [verificationGasLimit, callGasLimit] = unpackUint128(packed.accountGasLimits);
+  const [maxPriorityFeePerGas, maxFeePerGas] = unpackUint128(packed.gasFees);
+  const userOp: UserOperationV07 = {
+    sender: packed.sender,
+    nonce: packed.nonce,
+    callData: packed.callData,
+    callGasLimit,
+    verificationGasLimit,
+    preVerificationGas: packed.preVerificationGas,
+    maxFeePerGas,
+    maxPriorityFeePerGas,
+    signature: packed.signature
+  };
+
+  if (ethers.utils.hexDataLength(packed.initCode) > 0) {
+    userOp.factory = ethers.utils.getAddress(ethers.utils.hexDataSlice(packed.initCode, 0, 20));
+    userOp.factoryData = ethers.utils.hexDataSlice(packed.initCode, 20);
+  }
+  if (ethers.utils.hexDataLength(packed.paymasterAndData) > 0) {
+    userOp.paymaster = ethers.utils.getAddress(ethers.utils.hexDataSlice(packed.paymasterAndData, 0, 20));
+    [userOp.paymasterVerificationGasLimit, userOp.paymasterPostOpGasLimit] = unpackUint128(
+      ethers.utils.hexDataSlice(packed.paymasterAndData, 20, 52)
+    );
+    userOp.paymasterData = ethers.utils.hexDataSlice(packed.paymasterAndData, 52);
+  }
+  return userOp;
+}
+
+/**
+ * Convert a v0.6 user operation to the v0.7 layout. Both paymaster gas limits
+ * default to the verification gas limit, which covers them in v0.6. The hash
+ * changes, so the user operation must be signed again.
+ * @param {UserOperation} userOp - v0.6 user operation object
+ * @param {ethers.BigNumberish} [paymasterVerificationGasLimit] - Paymaster verification gas limit
+ * @param {ethers.BigNumberish} [paymasterPostOpGasLimit] - Paymaster postOp gas limit
+ * @returns {UserOperationV07} - v0.7 user operation object
+ */
+export function toUserOpV07(
+  userOp: UserOperation,
+  paymasterVerificationGasLimit?: ethers.BigNumberish,
+  paymasterPostOpGasLimit?: ethers.BigNumberish
+): UserOperationV07 {
+  const converted: UserOperationV07 = {
+    sender: userOp.sender,
+    nonce: userOp.nonce,
+    callData: userOp.callData,
+    callGasLimit: userOp.callGasLimit,
+    verificationGasLimit: userOp.verificationGasLimit,
+    preVerificationGas: userOp.preVerificationGas,
+    maxFeePerGas: userOp.maxFeePerGas,
+    maxPriorityFeePerGas: userOp.maxPriorityFeePerGas,
+    signature: userOp.signature
+  };
+
+  if (ethers.utils.hexDataLength(userOp.initCode) > 0) {
+    converted.factory = ethers.utils.getAddress(ethers.utils.hexDataSlice(userOp.initCode, 0, 20));
+    converted.factoryData = ethers.utils.hexDataSlice(userOp.initCode, 20);
+  }
+  if (ethers.utils.hexDataLength(userOp.paymasterAndData) > 0) {
+    converted.paymaster = ethers.utils.getAddress(ethers.utils.hexDataSlice(userOp.paymasterAndData, 0, 20));
+    converted.paymasterVerificationGasLimit = paymasterVerificationGasLimit ?? userOp.verificationGasLimit;
+    converted.paymasterPostOpGasLimit = paymasterPostOpGasLimit ?? userOp.verificationGasLimit;
+    converted.paymasterData = ethers.utils.hexDataSlice(userOp.paymasterAndData, 20);
+  }
+  return converted;
+}
+
+/**
+ * Convert a v0.7 user operation to the v0.6 layout. The paymaster gas limits
+ * fold into the verification gas limit, which v0.6 applies to the account and
+ * the paymaster alike. The hash changes, so the user operation must be signed again.
+ * @param {UserOperationV07} userOp - v0.7 user operation object
+ * @returns {UserOperation} - v0.6 user operation object
+ */
+export function toUserOpV06(userOp: UserOperationV07): UserOperation {
+  let verificationGasLimit = ethers.BigNumber.from(userOp.verificationGasLimit);
+  for (const limit of [userOp.paymasterVerificationGasLimit, userOp.paymasterPostOpGasLimit]) {
+    if (limit !== undefined && verificationGasLimit.lt(limit)) {
+      verificationGasLimit = ethers.BigNumber.from(limit);
+    }
+  }
+
+  return {
+    sender: userOp.sender,
+    nonce: userOp.nonce,
+    initCode: userOp.factory ? ethers.utils.hexConcat([userOp.factory, userOp.factoryData || '0x']) : '0x',
+    callData: userOp.callData,
+    callGasLimit: userOp.callGasLimit,
+    verificationGasLimit,
+    preVerificationGas: userOp.preVerificationGas,
+    maxFeePerGas: userOp.maxFeePerGas,
+    maxPriorityFeePerGas: userOp.maxPriorityFeePerGas,
+    paymasterAndData: userOp.paymaster ? ethers.utils.hexConcat([userOp.paymaster, userOp.paymasterData || '0x']) : '0x',
+    signature: userOp.signature
+  };
+}
+
+/**
+ * EIP-712 types of a forward request, as the ERC2771Forwarder hashes them
+ */
+export const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'gas', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint48' },
+    { name: 'data', type: 'bytes' }
+  ]
+};
+
+/**
+ * Create a forward request. Amounts are decimal strings, so the request can be sent as JSON.
+ * @param {CreateForwardRequestParams} params - Forward request parameters; the nonce defaults to 0
+ * @returns {ForwardRequest} - Forward request object
+ */
+export function createForwardRequest(params: CreateForwardRequestParams): ForwardRequest {
+  return {
+    from: ethers.utils.getAddress(params.from),
+    to: ethers.utils.getAddress(params.to),
+    value: ethers.BigNumber.from(params.value || 0).toString(),
+    gas: ethers.BigNumber.from(params.gas || 200000).toString(),
+    nonce: ethers.BigNumber.from(params.nonce || 0).toString(),
+    deadline: params.deadline || Math.floor(Date.now() / 1000) + 60 * 60,
+    data: params.data || '0x'
+  };
+}
+
+/**
+ * Get the EIP-712 domain of an ERC-2771 forwarder
+ * @param {ForwarderConfig} forwarder - Forwarder address and domain name
+ * @param {number} chainId - Chain ID
+ * @returns {ethers.TypedDataDomain} - Typed data domain
+ */
+export function getForwarderDomain(forwarder: ForwarderConfig, chainId: number): ethers.TypedDataDomain {
+  return {
+    name: forwarder.name || 'ERC2771Forwarder',
+    version: '1',
+    chainId,
+    verifyingContract: forwarder.address
+  };
+}
+
+/**
+ * Get the EIP-712 hash of a forward request, which contract wallets are asked to sign through ERC-1271
+ * @param {ForwardRequest} request - Forward request object
+ * @param {ForwarderConfig} forwarder - Forwarder address and domain name
+ * @param {number} chainId - Chain ID
+ * @returns {string} - Forward request hash
+ */
+export function getForwardRequestHash(request: ForwardRequest, forwarder: ForwarderConfig, chainId: number): string {
+  return ethers.utils._TypedDataEncoder.hash(getForwarderDomain(forwarder, chainId), FORWARD_REQUEST_TYPES, request);
+}
+
+/**
+ * Sign a forward request as EIP-712 typed data
+ * @param {ForwardRequest} request - Forward request object
+ * @param {ethers.Signer | string} signer - Signer or private key of the request's sender
+ * @param {ForwarderConfig} forwarder - Forwarder address and domain name
+ * @param {number} chainId - Chain ID
+ * @returns {Promise<string>} - Signature
+ */
+export async function signForwardRequest(
+  request: ForwardRequest,
+  signer: ethers.Signer | string,
+  forwarder: ForwarderConfig,
+  chainId: number
+): Promise<string> {
+  const wallet = typeof signer === 'string' ? new ethers.Wallet(signer) : signer;
+  if (!('_signTypedData' in wallet)) {
+    throw new Error('Signer cannot sign typed data');
+  }
+  const typedDataSigner = wallet as ethers.Signer & ethers.TypedDataSigner;
+  return typedDataSigner._signTypedData(getForwarderDomain(forwarder, chainId), FORWARD_REQUEST_TYPES, request);
 }
 
 /**
@@ -0,0 +1,324 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ApiError } from '../middlewares/errorHandler';
+import { requirePermission } from '../middlewares/auth';
+import { sensitiveOperationLimiter } from '../middlewares/rateLimit';
+import { getUserPermissions, Permission } from '../services/rbac';
+import apiKeyService, { ApiKey, ApiKeyError } from '../services/api-keys';
+import { DEFAULT_TENANT } from '../services/security/militaryGradeEncryption';
+
+// Create router
+const apiKeysRouter = Router();
+
+// Every route manages keys
+apiKeysRouter.use(requirePermission(Permission.MANAGE_API_KEYS));
+
+/**
+ * Translate API key validation errors into API errors
+ * @param error Error thrown by the API key service
+ * @returns Error to pass on
+ */
+const toApiError = (error: unknown): unknown =>
+  error instanceof ApiKeyError ? new ApiError(error.statusCode, error.message) : error;
+
+/**
+ * Resolve the tenant a request manages keys of. Callers only manage the keys of their own tenant.
+ * @param req Request
+ * @param requested Tenant named in the request
+ */
+const resolveTenant = (req: Request, requested: unknown): string => {
+  const own = req.user!.tenantId || process.env.TENANT_ID || DEFAULT_TENANT;
+  if (requested !== undefined && requested !== '' && requested !== own) {
+    throw new ApiError(403, 'Cannot manage the API keys of another tenant');
+  }
+  return own;
+};
+
+/**
+ * Check the caller holds every scope it grants, so a key never carries more than its creator
+ * @param req Request
+ * @param scopes Scopes of the key being issued
+ */
+const checkScopes = async (req: Request, scopes: unknown): Promise<void> => {
+  if (!Array.isArray(scopes)) {
+    return; // Rejected by the service
+  }
+  const held = req.user!.apiKeyId ? req.user!.scopes || [] : await getUserPermissions(req.user!.walletAddress);
+  const missing = scopes.filter(scope => !held.includes(scope));
+  if (missing.length > 0) {
+    throw new ApiError(403, `Cannot grant scopes the caller does not hold: ${missing.join(', ')}`);
+  }
+};
+
+/**
+ * Check a key issued by an API key expires no later than that key and accepts no
+ * address it refuses, so a key never outlives or outreaches its creator
+ * @param req Request
+ * @param key Expiry and allowlist of the key being issued
+ */
+const checkParentLimits = async (req: Request, key: { expiresAt?: unknown; allowedIps?: unknown }): Promise<void> => {
+  if (!req.user!.apiKeyId) {
+    return;
+  }
+  const parent = await apiKeyService.getKey(req.user!.apiKeyId);
+  if (!parent) {
+    throw new ApiError(401, 'API key not found');
+  }
+
+  if (parent.expiresAt && !(typeof key.expiresAt === 'number' && key.expiresAt <= parent.expiresAt)) {
+    throw new ApiError(403, 'Cannot issue a key that expires after the calling key');
+  }
+  if (!apiKeyService.isAllowlistWithin(parent, Array.isArray(key.allowedIps) ? key.allowedIps : undefined)) {
+    throw new ApiError(403, 'Cannot allow IP addresses the calling key does not allow');
+  }
+};
+
+/**
+ * Get a key of the caller's tenant
+ * @param req Request
+ * @param id Key ID
+ * @throws ApiError 404 if the key does not exist or belongs to another tenant
+ */
+const getTenantKey = async (req: Request, id: string): Promise<ApiKey> => {
+  const apiKey = await apiKeyService.getKey(id);
+  if (!apiKey || apiKey.tenantId !== resolveTenant(req, undefined)) {
+    throw new ApiError(404, 'API key not found');
+  }
+  return apiKey;
+};
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *   get:
+ *     summary: List the API keys of the caller's tenant
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: tenantId
+ *         schema:
+ *           type: string
+ *         description: Must be the caller's tenant if given
+ *     responses:
+ *       200:
+ *         description: API keys without their secrets
+ *       403:
+ *         description: Tenant of another caller
+ */
+apiKeysRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const keys = await apiKeyService.listKeys(resolveTenant(req, req.query.tenantId));
+
+    res.status(200).json({ keys: keys.map(key => apiKeyService.toPublicKey(key)) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *   post:
+ *     summary: Create an API key
+ *     description: The full key is only returned in this response.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *               tenantId:
+ *                 type: string
+ *                 description: Must be the caller's tenant if given
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Permission values, e.g. view_wallet; the caller must hold each
+ *               allowedIps:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: IP addresses or IPv4 CIDR ranges, within the allowlist of a calling API key
+ *               expiresAt:
+ *                 type: number
+ *                 description: No later than the expiry of a calling API key, and required if it expires
+ *               rateLimit:
+ *                 type: object
+ *                 properties:
+ *                   windowMs:
+ *                     type: integer
+ *                   max:
+ *                     type: integer
+ *     responses:
+ *       201:
+ *         description: API key created
+ *       400:
+ *         description: Invalid key parameters
+ *       403:
+ *         description: Scope the caller does not hold, limits beyond the calling key, or tenant of another caller
+ */
+apiKeysRouter.post('/', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { name, tenantId, scopes, allowedIps, expiresAt, rateLimit } = req.body;
+    const tenant = resolveTenant(req, tenantId);
+    await checkScopes(req, scopes);
+    await checkParentLimits(req, { expiresAt, allowedIps });
+
+    let created;
+    try {
+      created = await apiKeyService.createKey(
+        {
+          name,
+          tenantId: tenant,
+          scopes,
+          allowedIps,
+          expiresAt,
+          rateLimit,
+        },
+        req.user!.walletAddress
+      );
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(201).json({ key: created.key, apiKey: apiKeyService.toPublicKey(created.apiKey) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/api-keys/{id}:
+ *   get:
+ *     summary: Get an API key
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key without its secret
+ *       404:
+ *         description: API key not found
+ */
+apiKeysRouter.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const apiKey = await getTenantKey(req, req.params.id);
+
+    res.status(200).json(apiKeyService.toPublicKey(apiKey));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/api-keys/{id}/rotate:
+ *   post:
+ *     summary: Rotate an API key
+ *     description: Issues a new key with the same settings. The old key keeps working for the grace period.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               gracePeriodMs:
+ *                 type: integer
+ *                 default: 0
+ *     responses:
+ *       200:
+ *         description: New API key
+ *       403:
+ *         description: The key has a scope the caller does not hold, or limits beyond the calling key
+ *       404:
+ *         description: API key not found or not active
+ */
+apiKeysRouter.post('/:id/rotate', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const gracePeriodMs = Number(req.body?.gracePeriodMs || 0);
+
+    if (!Number.isFinite(gracePeriodMs) || gracePeriodMs < 0) {
+      throw new ApiError(400, 'Invalid grace period');
+    }
+
+    // A rotated key keeps its scopes, expiry and allowlist, so rotating issues them again
+    const current = await getTenantKey(req, req.params.id);
+    await checkScopes(req, current.scopes);
+    await checkParentLimits(req, current);
+
+    let rotated;
+    try {
+      rotated = await apiKeyService.rotateKey(req.params.id, req.user!.walletAddress, gracePeriodMs);
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(200).json({ key: rotated.key, apiKey: apiKeyService.toPublicKey(rotated.apiKey) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revoked
+ *       404:
+ *         description: API key not found or already revoked
+ */
+apiKeysRouter.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await getTenantKey(req, req.params.id);
+    const revoked = await apiKeyService.revokeKey(req.params.id, req.user!.walletAddress);
+
+    if (!revoked) {
+      throw new ApiError(404, 'API key not found or already revoked');
+    }
+
+    res.status(200).json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { apiKeysRouter };
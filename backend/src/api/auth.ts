@@ -1,20 +1,62 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
 import { ApiError } from '../middlewares/errorHandler';
-import { verifySignature } from '../utils/crypto';
-import { generateToken } from '../middlewares/auth';
+import { ACCESS_TOKEN_EXPIRY, authenticate, generateToken, requirePermission } from '../middlewares/auth';
 import { getDatabase } from '../config/database';
 import { trackEvent, AnalyticsEventType } from '../services/analytics';
-import { standardLimiter } from '../middlewares/rateLimit';
+import { Permission, UserRole } from '../services/rbac';
+import siweService, { SiweError } from '../services/siwe';
+import sessionService, { Session, SessionError, SessionGrant } from '../services/sessions';
+import { sensitiveOperationLimiter, standardLimiter } from '../middlewares/rateLimit';
 
 // Create router
 const authRouter = Router();
 
+/**
+ * Build the token response for a session
+ * @param grant Session and its current refresh token
+ * @param roles Roles of the user
+ * @param ipAddress IP address of the request
+ * @returns Access token, refresh token and session details
+ */
+const issueTokens = (grant: SessionGrant, roles: string[] | undefined, ipAddress?: string) => ({
+  token: generateToken(
+    {
+      walletAddress: grant.session.userId,
+      isAdmin: grant.session.isAdmin || false,
+      roles: (roles || []) as UserRole[],
+      sessionId: grant.session.id,
+    },
+    ipAddress
+  ),
+  expiresIn: ACCESS_TOKEN_EXPIRY,
+  refreshToken: grant.refreshToken,
+  refreshTokenExpiresAt: grant.refreshTokenExpiresAt,
+  sessionId: grant.session.id,
+});
+
+/**
+ * Strip fields that are not shown to users from a session
+ * @param session Session
+ * @param currentSessionId Session of the request
+ * @returns Session summary
+ */
+const toSessionSummary = (session: Session, currentSessionId?: string) => ({
+  id: session.id,
+  device: session.device,
+  userAgent: session.userAgent,
+  ipAddress: session.ipAddress,
+  createdAt: session.createdAt,
+  lastSeenAt: session.lastSeenAt,
+  expiresAt: session.expiresAt,
+  current: session.id === currentSessionId,
+});
+
 /**
  * @swagger
  * /api/auth/nonce/{address}:
  *   get:
- *     summary: Get a nonce for wallet authentication
+ *     summary: Get a Sign-In with Ethereum (EIP-4361) message to sign
  *     tags: [Auth]
  *     parameters:
  *       - in: path
@@ -22,10 +64,16 @@ const authRouter = Router();
  *         required: true
  *         schema:
  *           type: string
- *         description: Wallet address
+ *         description: Wallet address (EOA or smart-contract wallet)
+ *       - in: query
+ *         name: chainId
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Chain the wallet lives on
  *     responses:
  *       200:
- *         description: Nonce for signing
+ *         description: Single-use nonce and the message to sign
  *         content:
  *           application/json:
  *             schema:
@@ -35,46 +83,34 @@ const authRouter = Router();
  *                   type: string
  *                 message:
  *                   type: string
+ *                 expiresAt:
+ *                   type: number
+ *       400:
+ *         description: Invalid address or unsupported chain
  */
 authRouter.get('/nonce/:address', standardLimiter, async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const address = req.params.address.toLowerCase();
-    
+    const address = req.params.address;
+    const chainId = req.query.chainId ? Number(req.query.chainId) : 1;
+
     if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
       throw new ApiError(400, 'Invalid wallet address');
     }
-    
-    const db = getDatabase();
-    
-    // Check if user exists
-    let user = await db.get('users', address);
-    
-    // Generate a new nonce
-    const nonce = Math.floor(Math.random() * 1000000).toString();
-    const timestamp = Date.now();
-    const message = `Sign this message to authenticate with Ryzer Wallet. Nonce: ${nonce}. Timestamp: ${timestamp}`;
-    
-    if (user) {
-      // Update existing user with new nonce
-      user.nonce = nonce;
-      user.nonceTimestamp = timestamp;
-      await db.put('users', user);
-    } else {
-      // Create new user
-      user = {
-        address,
-        nonce,
-        nonceTimestamp: timestamp,
-        createdAt: timestamp,
-        lastLogin: null,
-      };
-      await db.add('users', user);
+    if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+      throw new ApiError(400, 'Invalid chain ID');
     }
-    
-    res.status(200).json({
-      nonce,
-      message,
-    });
+
+    let challenge;
+    try {
+      challenge = await siweService.createChallenge(address.toLowerCase(), chainId, req.get('origin'));
+    } catch (error) {
+      if (error instanceof SiweError) {
+        throw new ApiError(400, error.message);
+      }
+      throw error;
+    }
+
+    res.status(200).json(challenge);
   } catch (error) {
     next(error);
   }
@@ -84,7 +120,7 @@ authRouter.get('/nonce/:address', standardLimiter, async (req: Request, res: Res
  * @swagger
  * /api/auth/login:
  *   post:
- *     summary: Authenticate with wallet signature
+ *     summary: Authenticate with a signed Sign-In with Ethereum message
  *     tags: [Auth]
  *     requestBody:
  *       required: true
@@ -93,13 +129,15 @@ authRouter.get('/nonce/:address', standardLimiter, async (req: Request, res: Res
  *           schema:
  *             type: object
  *             required:
- *               - address
+ *               - message
  *               - signature
  *             properties:
- *               address:
+ *               message:
  *                 type: string
+ *                 description: EIP-4361 message returned by /api/auth/nonce
  *               signature:
  *                 type: string
+ *                 description: personal_sign signature, or an ERC-1271 signature for contract wallets
  *     responses:
  *       200:
  *         description: Authentication successful
@@ -110,65 +148,75 @@ authRouter.get('/nonce/:address', standardLimiter, async (req: Request, res: Res
  *               properties:
  *                 token:
  *                   type: string
+ *                   description: Short-lived access token
+ *                 refreshToken:
+ *                   type: string
+ *                   description: Single-use token for /api/auth/refresh
+ *                 refreshTokenExpiresAt:
+ *                   type: number
+ *                 sessionId:
+ *                   type: string
  *                 user:
  *                   type: object
+ *       401:
+ *         description: Invalid message, nonce or signature
  */
 authRouter.post('/login', standardLimiter, async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { address, signature } = req.body;
-    
-    if (!address || !signature) {
-      throw new ApiError(400, 'Address and signature are required');
-    }
-    
-    const normalizedAddress = address.toLowerCase();
-    const db = getDatabase();
-    
-    // Get user from database
-    const user = await db.get('users', normalizedAddress);
-    
-    if (!user) {
-      throw new ApiError(404, 'User not found');
+    const { message, signature } = req.body;
+
+    if (typeof message !== 'string' || typeof signature !== 'string') {
+      throw new ApiError(400, 'Message and signature are required');
     }
-    
-    // Verify the signature
-    const message = `Sign this message to authenticate with Ryzer Wallet. Nonce: ${user.nonce}. Timestamp: ${user.nonceTimestamp}`;
-    const isValid = await verifySignature(normalizedAddress, signature, message);
-    
-    if (!isValid) {
-      throw new ApiError(401, 'Invalid signature');
+
+    let siweMessage;
+    try {
+      siweMessage = await siweService.verify(message, signature);
+    } catch (error) {
+      if (error instanceof SiweError) {
+        logger.warn(`Sign-in rejected: ${error.message}`);
+        throw new ApiError(401, error.message);
+      }
+      throw error;
     }
-    
-    // Generate a new nonce for next login
-    const newNonce = Math.floor(Math.random() * 1000000).toString();
-    user.nonce = newNonce;
-    user.lastLogin = Date.now();
-    
-    // Update user in database
+
+    const normalizedAddress = siweMessage.address.toLowerCase();
+    const db = await getDatabase();
+    const now = Date.now();
+
+    // Create the user on first login
+    const user = (await db.get('users', normalizedAddress)) || {
+      address: normalizedAddress,
+      createdAt: now,
+    };
+    user.lastLogin = now;
     await db.put('users', user);
-    
-    // Generate JWT token
-    const token = generateToken({
-      walletAddress: normalizedAddress,
-      isAdmin: false, // Set admin status based on your requirements
+
+    // Start a session and issue its first access and refresh tokens
+    const grant = await sessionService.createSession(normalizedAddress, false, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
     });
-    
+    const tokens = issueTokens(grant, user.roles, req.ip);
+
     // Track login event
     trackEvent(
       AnalyticsEventType.SESSION_START,
       {
-        loginMethod: 'wallet_signature',
+        loginMethod: 'siwe',
+        chainId: siweMessage.chainId,
       },
       normalizedAddress
     ).catch(error => {
       logger.error('Error tracking login event:', error);
     });
-    
-    // Return token and user data
+
+    // Return tokens and user data
     res.status(200).json({
-      token,
+      ...tokens,
       user: {
         address: normalizedAddress,
+        chainId: siweMessage.chainId,
         lastLogin: user.lastLogin,
         createdAt: user.createdAt,
       },
@@ -178,6 +226,61 @@ authRouter.post('/login', standardLimiter, async (req: Request, res: Response, n
   }
 });
 
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Exchange a refresh token for new access and refresh tokens
+ *     description: Refresh tokens are single use. Presenting a token that was already exchanged revokes its session.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New access and refresh tokens
+ *       401:
+ *         description: Invalid, expired or reused refresh token
+ */
+authRouter.post('/refresh', standardLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      throw new ApiError(400, 'Refresh token is required');
+    }
+
+    let grant;
+    try {
+      grant = await sessionService.rotateRefreshToken(refreshToken, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+    } catch (error) {
+      if (error instanceof SessionError) {
+        throw new ApiError(401, error.message);
+      }
+      throw error;
+    }
+
+    // Pick up role changes made since the last refresh
+    const db = await getDatabase();
+    const user = await db.get('users', grant.session.userId);
+
+    res.status(200).json(issueTokens(grant, user?.roles, req.ip));
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * @swagger
  * /api/auth/verify:
@@ -199,7 +302,7 @@ authRouter.post('/login', standardLimiter, async (req: Request, res: Response, n
  *                 user:
  *                   type: object
  */
-authRouter.get('/verify', async (req: Request, res: Response, next: NextFunction) => {
+authRouter.get('/verify', authenticate, async (req: Request, res: Response, next: NextFunction) => {
   try {
     // This route uses the authenticate middleware, so if we get here, the token is valid
     res.status(200).json({
@@ -218,7 +321,7 @@ authRouter.get('/verify', async (req: Request, res: Response, next: NextFunction
  * @swagger
  * /api/auth/logout:
  *   post:
- *     summary: Log out (invalidate token on client side)
+ *     summary: Log out and revoke the current session
  *     tags: [Auth]
  *     security:
  *       - bearerAuth: []
@@ -232,31 +335,213 @@ authRouter.get('/verify', async (req: Request, res: Response, next: NextFunction
  *               properties:
  *                 success:
  *                   type: boolean
+ *       400:
+ *         description: Not authenticated with a session, e.g. with an API key
  */
-authRouter.post('/logout', async (req: Request, res: Response, next: NextFunction) => {
+authRouter.post('/logout', authenticate, async (req: Request, res: Response, next: NextFunction) => {
   try {
-    // Track logout event
-    if (req.user) {
-      trackEvent(
-        AnalyticsEventType.SESSION_END,
-        {
-          logoutMethod: 'explicit',
-        },
-        req.user.walletAddress
-      ).catch(error => {
-        logger.error('Error tracking logout event:', error);
-      });
+    const { walletAddress, sessionId } = req.user!;
+
+    // API keys have no session; they are revoked through the API key endpoints
+    if (!sessionId) {
+      throw new ApiError(400, 'Only session logins can log out');
     }
-    
-    // Note: JWT tokens cannot be invalidated on the server side without a token blacklist
-    // The client should remove the token from storage
+
+    await sessionService.revokeSession(sessionId, walletAddress, 'logout');
+
+    // Track logout event
+    trackEvent(
+      AnalyticsEventType.SESSION_END,
+      {
+        logoutMethod: 'explicit',
+      },
+      walletAddress
+    ).catch(error => {
+      logger.error('Error tracking logout event:', error);
+    });
+
     res.status(200).json({
       success: true,
-      message: 'Logout successful. Please remove the token from client storage.',
+      message: 'Logout successful',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List the active sessions of the current user
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions, most recently used first
+ */
+authRouter.get('/sessions', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const sessions = await sessionService.listSessions(req.user!.walletAddress);
+
+    res.status(200).json({
+      sessions: sessions.map(session => toSessionSummary(session, req.user!.sessionId)),
     });
   } catch (error) {
     next(error);
   }
 });
 
+/**
+ * @swagger
+ * /api/auth/sessions/revoke-all:
+ *   post:
+ *     summary: Sign out everywhere
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               keepCurrent:
+ *                 type: boolean
+ *                 description: Keep the session making the request
+ *     responses:
+ *       200:
+ *         description: Number of sessions revoked
+ */
+authRouter.post('/sessions/revoke-all', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { walletAddress, sessionId } = req.user!;
+    const keepCurrent = req.body?.keepCurrent === true;
+
+    const revoked = await sessionService.revokeAllSessions(
+      walletAddress,
+      walletAddress,
+      'sign_out_everywhere',
+      keepCurrent ? sessionId : undefined
+    );
+
+    res.status(200).json({ revoked });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Revoke one of the current user's sessions
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       404:
+ *         description: Session not found
+ */
+authRouter.delete('/sessions/:sessionId', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { walletAddress } = req.user!;
+    const session = await sessionService.getSession(req.params.sessionId);
+
+    if (!session || session.userId !== walletAddress.toLowerCase() || session.status !== 'active') {
+      throw new ApiError(404, 'Session not found');
+    }
+
+    await sessionService.revokeSession(session.id, walletAddress, 'revoked_by_user');
+
+    res.status(200).json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/users/{address}/sessions:
+ *   get:
+ *     summary: List the active sessions of a user
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: address
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Active sessions
+ *       403:
+ *         description: Permission denied
+ */
+authRouter.get(
+  '/users/:address/sessions',
+  authenticate,
+  requirePermission(Permission.UPDATE_USER),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const sessions = await sessionService.listSessions(req.params.address);
+
+      res.status(200).json({ sessions: sessions.map(session => toSessionSummary(session)) });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/auth/users/{address}/sessions:
+ *   delete:
+ *     summary: Revoke every session of a user
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: address
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Number of sessions revoked
+ *       403:
+ *         description: Permission denied
+ */
+authRouter.delete(
+  '/users/:address/sessions',
+  authenticate,
+  sensitiveOperationLimiter,
+  requirePermission(Permission.UPDATE_USER),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const revoked = await sessionService.revokeAllSessions(
+        req.params.address,
+        req.user!.walletAddress,
+        'revoked_by_admin'
+      );
+
+      res.status(200).json({ revoked });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export { authRouter };
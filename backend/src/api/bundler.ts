@@ -0,0 +1,109 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+import { ApiError } from '../middlewares/errorHandler';
+import { bundler, BundlerError, BundlerErrorCode } from '../services/bundler';
+
+// Create router
+const bundlerRouter = Router();
+
+// Most requests a JSON-RPC batch may hold
+const MAX_BATCH_SIZE = 20;
+
+/**
+ * Answer one JSON-RPC request
+ * @param chainId Chain ID
+ * @param request JSON-RPC request
+ * @returns JSON-RPC response
+ */
+const handleRpcRequest = async (chainId: number, request: any): Promise<Record<string, unknown>> => {
+  const id = request?.id ?? null;
+  try {
+    if (request?.jsonrpc !== '2.0' || typeof request.method !== 'string') {
+      throw new BundlerError('Invalid JSON-RPC request', BundlerErrorCode.INVALID_REQUEST);
+    }
+    if (request.params !== undefined && !Array.isArray(request.params)) {
+      throw new BundlerError('params must be an array', BundlerErrorCode.INVALID_FIELDS);
+    }
+    const result = await bundler.handleRequest(chainId, request.method, request.params || []);
+    return { jsonrpc: '2.0', id, result: result ?? null };
+  } catch (error) {
+    if (error instanceof BundlerError) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: { code: error.rpcCode, message: error.message, ...(error.data !== undefined ? { data: error.data } : {}) },
+      };
+    }
+    logger.error(`Bundler request ${request?.method} failed on chain ${chainId}:`, error);
+    return { jsonrpc: '2.0', id, error: { code: BundlerErrorCode.INTERNAL_ERROR, message: (error as Error).message } };
+  }
+};
+
+/**
+ * @swagger
+ * /api/bundler/{chainId}:
+ *   post:
+ *     summary: ERC-4337 bundler JSON-RPC endpoint
+ *     description: >
+ *       Serves eth_sendUserOperation, eth_estimateUserOperationGas,
+ *       eth_getUserOperationReceipt, eth_getUserOperationByHash,
+ *       eth_supportedEntryPoints and eth_chainId for chains with a local bundler.
+ *       Accepts single requests and batches.
+ *     tags: [Bundler]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chainId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               jsonrpc:
+ *                 type: string
+ *               id:
+ *                 oneOf:
+ *                   - type: integer
+ *                   - type: string
+ *               method:
+ *                 type: string
+ *               params:
+ *                 type: array
+ *     responses:
+ *       200:
+ *         description: JSON-RPC response, or an array of responses for a batch
+ *       404:
+ *         description: Chain has no local bundler
+ */
+bundlerRouter.post('/:chainId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const chainId = parseInt(req.params.chainId, 10);
+    if (!Number.isInteger(chainId) || !bundler.isEnabled(chainId)) {
+      throw new ApiError(404, `Chain ${req.params.chainId} has no local bundler`);
+    }
+
+    if (Array.isArray(req.body)) {
+      if (req.body.length === 0 || req.body.length > MAX_BATCH_SIZE) {
+        throw new ApiError(400, `A batch must hold between 1 and ${MAX_BATCH_SIZE} requests`);
+      }
+      const responses = [];
+      for (const request of req.body) {
+        responses.push(await handleRpcRequest(chainId, request));
+      }
+      res.status(200).json(responses);
+      return;
+    }
+
+    res.status(200).json(await handleRpcRequest(chainId, req.body));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { bundlerRouter };
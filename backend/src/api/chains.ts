@@ -0,0 +1,166 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+import { ApiError } from '../middlewares/errorHandler';
+import { requirePermission } from '../middlewares/auth';
+import { sensitiveOperationLimiter } from '../middlewares/rateLimit';
+import { Permission } from '../services/rbac';
+import { createAuditLog } from '../audit';
+import chainRegistry, { ChainConfig } from '../services/chain-registry';
+
+// Create router
+const chainsRouter = Router();
+
+/**
+ * Strip endpoints and keys from a chain before returning it.
+ * RPC, bundler and paymaster URLs usually embed provider API keys, and only
+ * the explorer's page URLs are kept, not its API key.
+ * @param chain Chain configuration
+ * @returns Chain configuration safe to expose
+ */
+const toPublicChain = (chain: ChainConfig): Record<string, any> => {
+  const { rpcUrls, bundlerUrl, paymasterUrl, alchemy, explorer, ...rest } = chain;
+  return {
+    ...rest,
+    explorer: explorer && { url: explorer.url, txUrl: explorer.txUrl, addressUrl: explorer.addressUrl },
+    rpcEndpoints: rpcUrls.length,
+    bundler: !!bundlerUrl,
+    paymaster: !!paymasterUrl,
+    alchemyNetwork: alchemy?.network,
+  };
+};
+
+/**
+ * @swagger
+ * /api/chains:
+ *   get:
+ *     summary: List supported chains
+ *     tags: [Chains]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Supported chains
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 chains:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ */
+chainsRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.status(200).json({ chains: chainRegistry.getChains().map(toPublicChain) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/chains/status:
+ *   get:
+ *     summary: Get chain registry status
+ *     tags: [Chains]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Registry source, load time and chain IDs
+ */
+chainsRouter.get('/status', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.status(200).json(chainRegistry.getStatus());
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/chains/reload:
+ *   post:
+ *     summary: Reload the chain registry from its configuration file
+ *     tags: [Chains]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Added, removed and changed chain IDs
+ *       400:
+ *         description: Invalid registry configuration; current chains are kept
+ *       403:
+ *         description: Insufficient permissions
+ */
+chainsRouter.post(
+  '/reload',
+  sensitiveOperationLimiter,
+  requirePermission(Permission.CONFIGURE_SYSTEM),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      let update;
+      try {
+        update = chainRegistry.reload();
+      } catch (error) {
+        logger.error('Chain registry reload failed:', error);
+        throw new ApiError(400, `Chain registry reload failed: ${(error as Error).message}`);
+      }
+
+      await createAuditLog({
+        action: 'chain_registry_reloaded',
+        performedBy: req.user!.walletAddress,
+        targetId: 'chain_registry',
+        targetType: 'system',
+        metadata: { ...update },
+      });
+
+      res.status(200).json({ ...update, chainIds: chainRegistry.getChainIds() });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/chains/{chainId}:
+ *   get:
+ *     summary: Get a supported chain
+ *     tags: [Chains]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chainId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Chain ID
+ *     responses:
+ *       200:
+ *         description: Chain configuration
+ *       404:
+ *         description: Chain not supported
+ */
+chainsRouter.get('/:chainId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const chainId = parseInt(req.params.chainId);
+
+    if (isNaN(chainId)) {
+      throw new ApiError(400, 'Invalid chain ID');
+    }
+
+    const chain = chainRegistry.getChain(chainId);
+    if (!chain) {
+      throw new ApiError(404, `Chain ${chainId} is not supported`);
+    }
+
+    res.status(200).json(toPublicChain(chain));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { chainsRouter, toPublicChain };
@@ -0,0 +1,196 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ApiError } from '../middlewares/errorHandler';
+import { requirePermission } from '../middlewares/auth';
+import { sensitiveOperationLimiter } from '../middlewares/rateLimit';
+import { Permission } from '../services/rbac';
+import keyRotationService, { KeyRotationError } from '../services/security/keyRotation';
+
+// Create router
+const encryptionRouter = Router();
+
+// Every route manages key material
+encryptionRouter.use(requirePermission(Permission.MANAGE_HSM));
+
+/**
+ * Translate key rotation errors into API errors
+ * @param error Error thrown by the key rotation service
+ * @returns Error to pass on
+ */
+const toApiError = (error: unknown): unknown =>
+  error instanceof KeyRotationError ? new ApiError(error.statusCode, error.message) : error;
+
+/**
+ * @swagger
+ * /api/encryption/status:
+ *   get:
+ *     summary: Report the encryption key hierarchy
+ *     description: Lists the root keys, the data keys with the number of ciphertexts using them, the records still encrypted with old or legacy keys, and recent rotation jobs.
+ *     tags: [Encryption]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Key hierarchy status
+ */
+encryptionRouter.get('/status', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.status(200).json(await keyRotationService.getStatus());
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/encryption/data-keys/rotate:
+ *   post:
+ *     summary: Rotate a data key
+ *     description: Creates a new version of the data key of a tenant and purpose and starts re-encrypting stored data.
+ *     tags: [Encryption]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - purpose
+ *             properties:
+ *               purpose:
+ *                 type: string
+ *                 description: First segment of the encryption context, e.g. totp, biometric or tss
+ *               tenantId:
+ *                 type: string
+ *     responses:
+ *       202:
+ *         description: Key rotated, re-encryption job started
+ *       400:
+ *         description: Invalid purpose
+ */
+encryptionRouter.post('/data-keys/rotate', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { purpose, tenantId } = req.body || {};
+
+    let result;
+    try {
+      result = await keyRotationService.rotateDataKey(purpose, tenantId || undefined, req.user!.walletAddress);
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(202).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/encryption/root-key/rotate:
+ *   post:
+ *     summary: Rotate the root key
+ *     description: Adds a root key version and starts rewrapping data keys with it. Only sealed key files can be rotated here; env and HSM root keys are rotated by configuration followed by a rewrap job.
+ *     tags: [Encryption]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       202:
+ *         description: Root key rotated, rewrap job started
+ *       409:
+ *         description: The root key source is rotated by configuration
+ */
+encryptionRouter.post('/root-key/rotate', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    let result;
+    try {
+      result = await keyRotationService.rotateRootKey(req.user!.walletAddress);
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(202).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/encryption/jobs:
+ *   post:
+ *     summary: Start a key rotation job
+ *     description: rewrap moves data keys onto the current root key; reencrypt moves stored data onto the active data keys. A running job of the same type is returned instead of starting another.
+ *     tags: [Encryption]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [rewrap, reencrypt]
+ *     responses:
+ *       202:
+ *         description: Job started
+ *       400:
+ *         description: Invalid job type
+ */
+encryptionRouter.post('/jobs', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    let job;
+    try {
+      job = await keyRotationService.startJob(req.body?.type, req.user!.walletAddress);
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(202).json({ job });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/encryption/jobs/{id}:
+ *   get:
+ *     summary: Get a key rotation job
+ *     tags: [Encryption]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job progress
+ *       404:
+ *         description: Job not found
+ */
+encryptionRouter.get('/jobs/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    let job;
+    try {
+      job = await keyRotationService.getJob(req.params.id);
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(200).json({ job });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { encryptionRouter };
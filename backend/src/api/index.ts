@@ -6,6 +6,13 @@ import { analyticsRouter } from './analytics';
 import { authRouter } from './auth';
 import { walletRouter } from './wallet';
 import recoveryRouter from './recovery';
+import { chainsRouter } from './chains';
+import { apiKeysRouter } from './apiKeys';
+import { mfaRouter } from './mfa';
+import { encryptionRouter } from './encryption';
+import { teeRouter } from './tee';
+import { securityRouter } from './security';
+import { bundlerRouter } from './bundler';
 import { standardLimiter } from '../middlewares/rateLimit';
 import { authenticate } from '../middlewares/auth';
 
@@ -34,5 +41,12 @@ apiRouter.use('/notification', authenticate, notificationRouter);
 apiRouter.use('/analytics', authenticate, analyticsRouter);
 apiRouter.use('/wallet', authenticate, walletRouter);
 apiRouter.use('/recovery', authenticate, recoveryRouter);
+apiRouter.use('/chains', authenticate, chainsRouter);
+apiRouter.use('/api-keys', authenticate, apiKeysRouter);
+apiRouter.use('/mfa', authenticate, mfaRouter);
+apiRouter.use('/encryption', authenticate, encryptionRouter);
+apiRouter.use('/tee', authenticate, teeRouter);
+apiRouter.use('/security', authenticate, securityRouter);
+apiRouter.use('/bundler', authenticate, bundlerRouter);
 
 export { apiRouter };
@@ -0,0 +1,503 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ApiError } from '../middlewares/errorHandler';
+import { sensitiveOperationLimiter } from '../middlewares/rateLimit';
+import { requireMFA } from '../middlewares/mfa';
+import { mfaService, MFAError } from '../services/security/mfaService';
+import webauthnService, { WebAuthnError } from '../services/webauthn';
+
+// Create router
+const mfaRouter = Router();
+
+/**
+ * Translate MFA and WebAuthn errors into API errors
+ * @param error Error thrown by the MFA or WebAuthn service
+ * @returns Error to pass on
+ */
+const toApiError = (error: unknown): unknown =>
+  error instanceof MFAError || error instanceof WebAuthnError ? new ApiError(error.statusCode, error.message) : error;
+
+/**
+ * Read the code from a request body
+ * @param req Request
+ * @returns Code
+ * @throws ApiError if the code is missing
+ */
+const requireCode = (req: Request): string => {
+  const { code } = req.body || {};
+  if (typeof code !== 'string' || !code.trim()) {
+    throw new ApiError(400, 'Code is required');
+  }
+  return code.trim();
+};
+
+/**
+ * @swagger
+ * /api/mfa/status:
+ *   get:
+ *     summary: Get the MFA methods configured for the current user
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: MFA status
+ */
+mfaRouter.get('/status', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const status = await mfaService.getStatus(req.user!.walletAddress);
+
+    res.status(200).json(status);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/mfa/totp/enroll:
+ *   post:
+ *     summary: Start TOTP enrollment
+ *     description: Returns a new secret and a QR code to scan with an authenticator app. The secret becomes active once a code is confirmed. Users who already have a factor must first complete an MFA session with it.
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret, otpauth URI and QR code data URL
+ *       403:
+ *         description: MFA required; the response then carries an MFA session token and the factors to verify
+ *       409:
+ *         description: TOTP is already enabled
+ */
+mfaRouter.post(
+  '/totp/enroll',
+  sensitiveOperationLimiter,
+  requireMFA('settings_change', () => ({ action: 'totp_enroll' })),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      let enrollment;
+      try {
+        enrollment = await mfaService.enableTOTP(req.user!.walletAddress);
+      } catch (error) {
+        throw toApiError(error);
+      }
+
+      res.status(200).json(enrollment);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mfa/totp/verify:
+ *   post:
+ *     summary: Confirm TOTP enrollment
+ *     description: Enables TOTP and returns one-time recovery codes. The codes are only shown in this response.
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: TOTP enabled
+ *       400:
+ *         description: Invalid code
+ *       404:
+ *         description: No pending enrollment
+ */
+mfaRouter.post('/totp/verify', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const code = requireCode(req);
+
+    let recoveryCodes;
+    try {
+      recoveryCodes = await mfaService.confirmTOTP(req.user!.walletAddress, code);
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(200).json({ enabled: true, recoveryCodes });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/mfa/totp/disable:
+ *   post:
+ *     summary: Disable TOTP
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: Current TOTP code or a recovery code
+ *     responses:
+ *       200:
+ *         description: TOTP disabled
+ *       400:
+ *         description: Invalid code
+ *       404:
+ *         description: TOTP is not enabled
+ */
+mfaRouter.post('/totp/disable', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const code = requireCode(req);
+
+    try {
+      await mfaService.disableTOTP(req.user!.walletAddress, code);
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(200).json({ enabled: false });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/mfa/recovery-codes:
+ *   post:
+ *     summary: Replace the recovery codes
+ *     description: Invalidates all previous recovery codes.
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: Current TOTP code
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *       400:
+ *         description: Invalid code
+ */
+mfaRouter.post('/recovery-codes', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const code = requireCode(req);
+
+    let recoveryCodes;
+    try {
+      recoveryCodes = await mfaService.regenerateRecoveryCodes(req.user!.walletAddress, code);
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(200).json({ recoveryCodes });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/mfa/webauthn/register/options:
+ *   post:
+ *     summary: Start registering a passkey or security key
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Options for navigator.credentials.create()
+ */
+mfaRouter.post('/webauthn/register/options', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    let options;
+    try {
+      options = await webauthnService.createRegistrationOptions(req.user!.walletAddress);
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(200).json(options);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/mfa/webauthn/register/verify:
+ *   post:
+ *     summary: Finish registering a passkey or security key
+ *     description: Accepts none, packed and fido-u2f attestation. Users who already have a factor must first complete an MFA session with it.
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - credential
+ *             properties:
+ *               credential:
+ *                 type: object
+ *                 description: PublicKeyCredential serialized with toJSON()
+ *               name:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Credential registered
+ *       400:
+ *         description: Invalid registration response
+ *       403:
+ *         description: MFA required; the response then carries an MFA session token and the factors to verify
+ */
+mfaRouter.post(
+  '/webauthn/register/verify',
+  sensitiveOperationLimiter,
+  requireMFA('settings_change', req => ({ action: 'webauthn_register', credentialId: req.body?.credential?.id })),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { credential, name } = req.body;
+
+      let registered;
+      try {
+        registered = await webauthnService.verifyRegistration(req.user!.walletAddress, credential, name);
+      } catch (error) {
+        throw toApiError(error);
+      }
+
+      res.status(201).json(webauthnService.toPublicCredential(registered));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mfa/webauthn/credentials:
+ *   get:
+ *     summary: List registered passkeys and security keys
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Credentials, including suspended ones
+ */
+mfaRouter.get('/webauthn/credentials', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const credentials = await webauthnService.listCredentials(req.user!.walletAddress, true);
+
+    res.status(200).json({ credentials: credentials.map(credential => webauthnService.toPublicCredential(credential)) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/mfa/webauthn/credentials/{id}:
+ *   delete:
+ *     summary: Remove a passkey or security key
+ *     description: Requires a completed MFA session.
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Credential removed
+ *       403:
+ *         description: MFA required; the response then carries an MFA session token and the factors to verify
+ *       404:
+ *         description: Credential not found
+ */
+mfaRouter.delete(
+  '/webauthn/credentials/:id',
+  sensitiveOperationLimiter,
+  requireMFA('settings_change', req => ({ action: 'webauthn_remove', credentialId: req.params.id })),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const removed = await webauthnService.removeCredential(req.user!.walletAddress, req.params.id);
+
+      if (!removed) {
+        throw new ApiError(404, 'Credential not found');
+      }
+
+      res.status(200).json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mfa/sessions/webauthn/options:
+ *   post:
+ *     summary: Get a WebAuthn challenge for the hardware key factor of an MFA session
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sessionToken
+ *             properties:
+ *               sessionToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Options for navigator.credentials.get()
+ */
+mfaRouter.post('/sessions/webauthn/options', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { sessionToken } = req.body;
+
+    if (typeof sessionToken !== 'string' || !sessionToken) {
+      throw new ApiError(400, 'Session token is required');
+    }
+
+    let options;
+    try {
+      const session = await mfaService.getSession(sessionToken);
+      if (session.userId !== req.user!.walletAddress) {
+        throw new MFAError('MFA session not found', 404);
+      }
+
+      options = await mfaService.createHardwareKeyChallenge(sessionToken);
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(200).json(options);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/mfa/sessions/verify:
+ *   post:
+ *     summary: Verify a factor of a pending MFA session
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sessionToken
+ *             properties:
+ *               sessionToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 description: TOTP or recovery code
+ *               credential:
+ *                 type: object
+ *                 description: WebAuthn assertion serialized with toJSON()
+ *               method:
+ *                 type: string
+ *                 enum: [totp, recovery_code, webauthn]
+ *                 default: totp
+ *     responses:
+ *       200:
+ *         description: Verification result and remaining factors
+ *       404:
+ *         description: MFA session not found
+ *       429:
+ *         description: Too many failed attempts; the session was cancelled
+ */
+mfaRouter.post('/sessions/verify', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { sessionToken, credential, method = 'totp' } = req.body;
+
+    if (typeof sessionToken !== 'string' || !sessionToken) {
+      throw new ApiError(400, 'Session token is required');
+    }
+    if (!['totp', 'recovery_code', 'webauthn'].includes(method)) {
+      throw new ApiError(400, 'Method must be totp, recovery_code or webauthn');
+    }
+    if (method === 'webauthn' && !credential) {
+      throw new ApiError(400, 'Credential is required');
+    }
+    const code = method === 'webauthn' ? '' : requireCode(req);
+
+    let result;
+    try {
+      const session = await mfaService.getSession(sessionToken);
+      if (session.userId !== req.user!.walletAddress) {
+        throw new MFAError('MFA session not found', 404);
+      }
+
+      let verified: boolean;
+      if (method === 'webauthn') {
+        verified = await mfaService.verifyHardwareKey(sessionToken, credential);
+      } else if (method === 'recovery_code') {
+        verified = await mfaService.verifyRecoveryCode(sessionToken, code);
+      } else {
+        verified = await mfaService.verifyTOTP(sessionToken, code);
+      }
+      const updated = await mfaService.getSession(sessionToken);
+
+      result = {
+        verified,
+        requiredFactors: updated.requiredFactors,
+        completedFactors: updated.completedFactors,
+        complete: updated.requiredFactors.every(factor => updated.completedFactors.includes(factor)),
+      };
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { mfaRouter };
@@ -5,10 +5,61 @@ import relayerService from '../services/relayer';
 import { trackEvent, AnalyticsEventType } from '../services/analytics';
 import { createTransactionNotification } from '../services/notification';
 import { sensitiveOperationLimiter } from '../middlewares/rateLimit';
+import { addressReputation, ReputationError } from '../services/security/reputation';
+import { DEFAULT_TENANT } from '../services/security/militaryGradeEncryption';
+import chainRegistry from '../services/chain-registry';
+import { BundlerError, parseUserOperationFor } from '../services/bundler';
+import { MetaTransactionError, parseForwardRequest, parseForwardSignature } from '../services/relayer/forwarder';
+import { GasFeeEstimate, GasOracleError } from '../services/gas-oracle';
 
 // Create router
 const relayerRouter = Router();
 
+/**
+ * Read the fee caps a transaction may set. Caps above the gas oracle's
+ * instant fees are refused, so a client cannot spend the relayer's funds on
+ * overpriced gas.
+ * @param chainId Chain ID
+ * @param body Request body
+ * @returns Fee caps, or undefined if the transaction sets none
+ * @throws ApiError if the caps are malformed or above the oracle's
+ */
+const parseFeeCaps = async (
+  chainId: number,
+  body: Record<string, unknown>
+): Promise<Pick<GasFeeEstimate, 'maxFeePerGas' | 'maxPriorityFeePerGas'> | undefined> => {
+  const { maxFeePerGas, maxPriorityFeePerGas } = body;
+  if (maxFeePerGas === undefined && maxPriorityFeePerGas === undefined) {
+    return undefined;
+  }
+  if (typeof maxFeePerGas !== 'string' || typeof maxPriorityFeePerGas !== 'string') {
+    throw new ApiError(400, 'maxFeePerGas and maxPriorityFeePerGas must be set together');
+  }
+  if (!/^\d+$/.test(maxFeePerGas) || !/^\d+$/.test(maxPriorityFeePerGas)) {
+    throw new ApiError(400, 'maxFeePerGas and maxPriorityFeePerGas must be decimal wei amounts');
+  }
+  if (BigInt(maxPriorityFeePerGas) > BigInt(maxFeePerGas)) {
+    throw new ApiError(400, 'maxPriorityFeePerGas must not exceed maxFeePerGas');
+  }
+
+  let instant: GasFeeEstimate;
+  try {
+    instant = (await relayerService.getGasPrice(chainId)).speeds.instant;
+  } catch (error) {
+    throw error instanceof GasOracleError ? new ApiError(error.statusCode, error.message) : error;
+  }
+  if (BigInt(maxFeePerGas) > BigInt(instant.maxFeePerGas)) {
+    throw new ApiError(400, `maxFeePerGas exceeds the instant fee of ${instant.maxFeePerGas} wei`);
+  }
+  if (BigInt(maxPriorityFeePerGas) > BigInt(instant.maxPriorityFeePerGas)) {
+    throw new ApiError(
+      400,
+      `maxPriorityFeePerGas exceeds the instant priority fee of ${instant.maxPriorityFeePerGas} wei`
+    );
+  }
+  return { maxFeePerGas, maxPriorityFeePerGas };
+};
+
 /**
  * @swagger
  * /api/relayer/status:
@@ -32,18 +83,69 @@ const relayerRouter = Router();
  */
 relayerRouter.get('/status', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const status = relayerService.getRelayerStatus();
+    const status = await relayerService.getRelayerStatus();
     res.status(200).json(status);
   } catch (error) {
     next(error);
   }
 });
 
+/**
+ * @swagger
+ * /api/relayer/tx/{id}:
+ *   get:
+ *     summary: Get the lifecycle of a relayer transaction
+ *     tags: [Relayer]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Relayer transaction ID, or hash of its latest submission
+ *     responses:
+ *       200:
+ *         description: Relayer transaction, with every submission made to speed it up or cancel it
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                 status:
+ *                   type: string
+ *                   enum: [pending, cancelling, confirmed, failed, cancelled, dropped]
+ *                 hash:
+ *                   type: string
+ *                 nonce:
+ *                   type: integer
+ *                 submissions:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       404:
+ *         description: Transaction not found
+ */
+relayerRouter.get('/tx/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const transaction = await relayerService.getRelayerTransaction(req.params.id);
+    if (!transaction) {
+      throw new ApiError(404, 'Relayer transaction not found');
+    }
+    res.status(200).json(transaction);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * @swagger
  * /api/relayer/gas-price/{chainId}:
  *   get:
- *     summary: Get current gas price for a network
+ *     summary: Get gas prices for a network at each speed, from its fee history
  *     tags: [Relayer]
  *     parameters:
  *       - in: path
@@ -54,7 +156,7 @@ relayerRouter.get('/status', async (req: Request, res: Response, next: NextFunct
  *         description: Chain ID
  *     responses:
  *       200:
- *         description: Gas price in wei
+ *         description: Fees in wei per speed, with the base fee trend of the sampled blocks
  *         content:
  *           application/json:
  *             schema:
@@ -62,8 +164,47 @@ relayerRouter.get('/status', async (req: Request, res: Response, next: NextFunct
  *               properties:
  *                 gasPrice:
  *                   type: string
+ *                   description: Max fee per gas of the standard speed
  *                 chainId:
  *                   type: integer
+ *                 blockNumber:
+ *                   type: integer
+ *                 eip1559:
+ *                   type: boolean
+ *                 baseFeePerGas:
+ *                   type: string
+ *                 speeds:
+ *                   type: object
+ *                   description: slow, standard, fast and instant
+ *                   additionalProperties:
+ *                     type: object
+ *                     properties:
+ *                       maxFeePerGas:
+ *                         type: string
+ *                       maxPriorityFeePerGas:
+ *                         type: string
+ *                       expectedInclusionSeconds:
+ *                         type: number
+ *                 trend:
+ *                   type: object
+ *                   properties:
+ *                     direction:
+ *                       type: string
+ *                       enum: [rising, falling, stable]
+ *                     baseFeeChangePercent:
+ *                       type: number
+ *                     averageGasUsedRatio:
+ *                       type: number
+ *                     blocks:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                 sampledAt:
+ *                   type: integer
+ *       400:
+ *         description: Invalid or unsupported chain ID
+ *       502:
+ *         description: Fees of the network cannot be read
  */
 relayerRouter.get('/gas-price/:chainId', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -73,11 +214,16 @@ relayerRouter.get('/gas-price/:chainId', async (req: Request, res: Response, nex
       throw new ApiError(400, 'Invalid chain ID');
     }
     
-    const gasPrice = await relayerService.getGasPrice(chainId);
+    let recommendation;
+    try {
+      recommendation = await relayerService.getGasPrice(chainId);
+    } catch (error) {
+      throw error instanceof GasOracleError ? new ApiError(error.statusCode, error.message) : error;
+    }
     
     res.status(200).json({
-      gasPrice,
-      chainId,
+      gasPrice: recommendation.speeds.standard.maxFeePerGas,
+      ...recommendation,
     });
   } catch (error) {
     next(error);
@@ -178,9 +324,15 @@ relayerRouter.post('/estimate-gas', async (req: Request, res: Response, next: Ne
  *                 type: string
  *               value:
  *                 type: string
+ *               maxFeePerGas:
+ *                 type: string
+ *                 description: Wei; set with maxPriorityFeePerGas, at most the instant fee of /api/relayer/gas-price
+ *               maxPriorityFeePerGas:
+ *                 type: string
+ *                 description: Wei; at most maxFeePerGas and the instant priority fee
  *     responses:
  *       200:
- *         description: Transaction hash
+ *         description: Transaction hash and the reputation of the destinations
  *         content:
  *           application/json:
  *             schema:
@@ -190,6 +342,12 @@ relayerRouter.post('/estimate-gas', async (req: Request, res: Response, next: Ne
  *                   type: string
  *                 chainId:
  *                   type: integer
+ *                 reputation:
+ *                   type: object
+ *       400:
+ *         description: Missing parameters, or malformed fee caps or ones above the gas oracle's instant fees
+ *       403:
+ *         description: Wallet address mismatch, or the address reputation policy blocks the destination
  */
 relayerRouter.post('/send-gasless-tx', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -205,8 +363,21 @@ relayerRouter.post('/send-gasless-tx', sensitiveOperationLimiter, async (req: Re
       throw new ApiError(403, 'Unauthorized: wallet address mismatch');
     }
     
+    const fees = await parseFeeCaps(chainId, req.body);
+    
+    // Refuse destinations the address reputation policy blocks
+    let reputation;
+    try {
+      reputation = await addressReputation.enforce(
+        { chainId, from: userAddress, to, data, tenantId: req.user.tenantId || DEFAULT_TENANT },
+        userAddress.toLowerCase()
+      );
+    } catch (error) {
+      throw error instanceof ReputationError ? new ApiError(error.statusCode, error.message) : error;
+    }
+    
     // Send gasless transaction
-    const txHash = await relayerService.sendGaslessTransaction(chainId, userAddress, to, data, value);
+    const txHash = await relayerService.sendGaslessTransaction(chainId, userAddress, to, data, value, fees);
     
     // Track analytics event
     trackEvent(
@@ -240,17 +411,79 @@ relayerRouter.post('/send-gasless-tx', sensitiveOperationLimiter, async (req: Re
     res.status(200).json({
       txHash,
       chainId,
+      reputation,
     });
   } catch (error) {
     next(error);
   }
 });
 
+/**
+ * @swagger
+ * /api/relayer/meta-tx/nonce/{chainId}/{address}:
+ *   get:
+ *     summary: Get the nonce and EIP-712 domain for the next forward request of a wallet
+ *     tags: [Relayer]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chainId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: address
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Address signing the forward request
+ *     responses:
+ *       200:
+ *         description: Nonce to sign, with the typed data domain and types of the chain's ERC-2771 forwarder
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 nonce:
+ *                   type: integer
+ *                 domain:
+ *                   type: object
+ *                 types:
+ *                   type: object
+ *       400:
+ *         description: Invalid address, or the chain has no trusted forwarder
+ */
+relayerRouter.get('/meta-tx/nonce/:chainId/:address', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const chainId = parseInt(req.params.chainId);
+    
+    if (isNaN(chainId)) {
+      throw new ApiError(400, 'Invalid chain ID');
+    }
+    
+    try {
+      res.status(200).json(await relayerService.getMetaTransactionNonce(chainId, req.params.address));
+    } catch (error) {
+      throw error instanceof MetaTransactionError ? new ApiError(error.statusCode, error.message) : error;
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * @swagger
  * /api/relayer/send-meta-tx:
  *   post:
- *     summary: Send a meta-transaction
+ *     summary: Relay an EIP-712 forward request through the chain's ERC-2771 forwarder
+ *     description: >
+ *       The request is typed data ForwardRequest(address from, address to,
+ *       uint256 value, uint256 gas, uint256 nonce, uint48 deadline, bytes data)
+ *       in the forwarder's domain, signed by `from`. Its nonce must be the one
+ *       returned by /api/relayer/meta-tx/nonce and its deadline must not be
+ *       about to pass. Contract wallets sign through ERC-1271.
  *     tags: [Relayer]
  *     security:
  *       - bearerAuth: []
@@ -262,29 +495,35 @@ relayerRouter.post('/send-gasless-tx', sensitiveOperationLimiter, async (req: Re
  *             type: object
  *             required:
  *               - chainId
- *               - userAddress
+ *               - request
  *               - signature
- *               - to
- *               - data
- *               - nonce
  *             properties:
  *               chainId:
  *                 type: integer
- *               userAddress:
- *                 type: string
+ *               request:
+ *                 type: object
+ *                 required: [from, to, value, gas, nonce, deadline, data]
+ *                 properties:
+ *                   from:
+ *                     type: string
+ *                   to:
+ *                     type: string
+ *                   value:
+ *                     type: string
+ *                   gas:
+ *                     type: string
+ *                   nonce:
+ *                     type: integer
+ *                   deadline:
+ *                     type: integer
+ *                     description: Unix seconds
+ *                   data:
+ *                     type: string
  *               signature:
  *                 type: string
- *               to:
- *                 type: string
- *               data:
- *                 type: string
- *               nonce:
- *                 type: integer
- *               value:
- *                 type: string
  *     responses:
  *       200:
- *         description: Transaction hash
+ *         description: Transaction hash and the reputation of the destination
  *         content:
  *           application/json:
  *             schema:
@@ -292,36 +531,85 @@ relayerRouter.post('/send-gasless-tx', sensitiveOperationLimiter, async (req: Re
  *               properties:
  *                 txHash:
  *                   type: string
+ *                 relayerTransactionId:
+ *                   type: string
  *                 chainId:
  *                   type: integer
+ *                 reputation:
+ *                   type: object
+ *       400:
+ *         description: Malformed, expired or out-of-order request, or one the forwarder rejects
+ *       401:
+ *         description: The signature is not from the request's sender
+ *       403:
+ *         description: The sender is not a wallet of the user, or the address reputation policy blocks the destination
+ *       409:
+ *         description: The request's nonce was already used
  */
 relayerRouter.post('/send-meta-tx', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { chainId, userAddress, signature, to, data, nonce, value } = req.body;
+    const { chainId, request: rawRequest, signature: rawSignature, ...rest } = req.body;
     
     // Validate request
-    if (!chainId || !userAddress || !signature || !to || !data || nonce === undefined) {
+    if (!Number.isInteger(chainId) || !rawRequest || !rawSignature) {
       throw new ApiError(400, 'Missing required parameters');
     }
+    if (Object.keys(rest).length > 0) {
+      throw new ApiError(400, `Unknown parameters: ${Object.keys(rest).join(', ')}`);
+    }
+    let request;
+    let signature: string;
+    try {
+      request = parseForwardRequest(rawRequest);
+      signature = parseForwardSignature(rawSignature);
+    } catch (error) {
+      throw error instanceof MetaTransactionError ? new ApiError(error.statusCode, error.message) : error;
+    }
     
-    // Verify that the authenticated user is the same as the userAddress
-    if (!req.user || req.user.walletAddress.toLowerCase() !== userAddress.toLowerCase()) {
-      throw new ApiError(403, 'Unauthorized: wallet address mismatch');
+    // The signer must be the authenticated user's wallet or a smart account they own
+    const userAddress = req.user?.walletAddress?.toLowerCase();
+    const from = request.from.toLowerCase();
+    const walletInfo = from === userAddress ? null : await relayerService.getWalletInfo(request.from);
+    if (!userAddress || (from !== userAddress && walletInfo?.owner.toLowerCase() !== userAddress)) {
+      throw new ApiError(403, 'Unauthorized: signer is not a wallet of the user');
     }
     
-    // Send meta-transaction
-    const txHash = await relayerService.sendMetaTransaction(chainId, userAddress, to, data, value, signature);
+    // Refuse destinations the address reputation policy blocks
+    let reputation;
+    try {
+      reputation = await addressReputation.enforce(
+        {
+          chainId,
+          from: request.from,
+          to: request.to,
+          data: request.data,
+          tenantId: req.user?.tenantId || DEFAULT_TENANT,
+        },
+        userAddress
+      );
+    } catch (error) {
+      throw error instanceof ReputationError ? new ApiError(error.statusCode, error.message) : error;
+    }
+    
+    // Relay the forward request
+    let result;
+    try {
+      result = await relayerService.sendMetaTransaction(chainId, request, signature);
+    } catch (error) {
+      throw error instanceof MetaTransactionError ? new ApiError(error.statusCode, error.message) : error;
+    }
+    const { txHash, relayerTransactionId } = result;
     
     // Track analytics event
     trackEvent(
       AnalyticsEventType.TRANSACTION_SENT,
       {
-        to,
-        value,
+        to: request.to,
+        value: request.value,
         meta: true,
         txHash,
       },
-      userAddress,
+      request.from,
       undefined,
       chainId
     ).catch(error => {
@@ -330,20 +618,122 @@ relayerRouter.post('/send-meta-tx', sensitiveOperationLimiter, async (req: Reque
     
     // Create notification
     await createTransactionNotification(
-      userAddress,
+      request.from,
       txHash,
       'sent',
       chainId,
       {
-        to,
-        value: value || '0',
+        to: request.to,
+        value: request.value,
         message: 'Meta-transaction sent'
       }
     );
     
     res.status(200).json({
       txHash,
+      relayerTransactionId,
+      chainId,
+      reputation,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/relayer/send-user-op:
+ *   post:
+ *     summary: Relay a signed user operation to the chain's bundler
+ *     description: >
+ *       Takes a v0.6 user operation, or a v0.7 user operation packed
+ *       (accountGasLimits, gasFees) or in its JSON-RPC form (factory,
+ *       paymaster and separate paymaster gas limits). The layout must match
+ *       the EntryPoint version of the chain.
+ *     tags: [Relayer]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - chainId
+ *               - userOperation
+ *             properties:
+ *               chainId:
+ *                 type: integer
+ *               userOperation:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: User operation hash
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 userOpHash:
+ *                   type: string
+ *                 chainId:
+ *                   type: integer
+ *                 entryPoint:
+ *                   type: object
+ *       400:
+ *         description: Malformed user operation, or one laid out for another EntryPoint version
+ *       403:
+ *         description: The sender is not a wallet of the authenticated user
+ */
+relayerRouter.post('/send-user-op', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { chainId, userOperation } = req.body;
+    
+    // Validate request
+    if (!chainId || !userOperation) {
+      throw new ApiError(400, 'Missing required parameters');
+    }
+    if (!chainRegistry.isSupported(chainId)) {
+      throw new ApiError(400, `Unsupported network: ${chainId}`);
+    }
+    const entryPoint = chainRegistry.getEntryPoint(chainId);
+    let sender: string;
+    try {
+      sender = parseUserOperationFor(userOperation, entryPoint.version).sender;
+    } catch (error) {
+      throw error instanceof BundlerError ? new ApiError(400, error.message) : error;
+    }
+    
+    // The sender must be the authenticated user's wallet or a smart account they own
+    const userAddress = req.user?.walletAddress?.toLowerCase();
+    const walletInfo = await relayerService.getWalletInfo(sender);
+    if (!userAddress || (sender.toLowerCase() !== userAddress && walletInfo?.owner.toLowerCase() !== userAddress)) {
+      throw new ApiError(403, 'Unauthorized: sender is not a wallet of the user');
+    }
+    
+    // Relay user operation
+    const userOpHash = await relayerService.relayUserOperation(chainId, userOperation);
+    
+    // Track analytics event
+    trackEvent(
+      AnalyticsEventType.TRANSACTION_SENT,
+      {
+        userOpHash,
+        entryPointVersion: entryPoint.version,
+        gasless: true,
+      },
+      sender,
+      undefined,
+      chainId
+    ).catch(error => {
+      logger.error('Error tracking transaction event:', error);
+    });
+    
+    res.status(200).json({
+      userOpHash,
       chainId,
+      entryPoint,
     });
   } catch (error) {
     next(error);
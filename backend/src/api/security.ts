@@ -0,0 +1,987 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ApiError } from '../middlewares/errorHandler';
+import { requirePermission } from '../middlewares/auth';
+import { sensitiveOperationLimiter } from '../middlewares/rateLimit';
+import { Permission } from '../services/rbac';
+import { DEFAULT_TENANT } from '../services/security/militaryGradeEncryption';
+import { intrusionDetection, IntrusionDetectionError } from '../services/security/intrusionDetection';
+import {
+  securityIncidents,
+  IncidentError,
+  IncidentSeverity,
+  IncidentStatus,
+} from '../services/security/incidents';
+import { addressReputation, ReputationError } from '../services/security/reputation';
+
+// Create router
+const securityRouter = Router();
+
+// Detection rules, incidents and address lists are administered with the system configuration
+securityRouter.use(requirePermission(Permission.CONFIGURE_SYSTEM));
+
+/**
+ * Translate intrusion detection, incident and reputation errors into API errors
+ * @param error Error thrown by the intrusion detection, incident or reputation service
+ * @returns Error to pass on
+ */
+const toApiError = (error: unknown): unknown =>
+  error instanceof IntrusionDetectionError || error instanceof IncidentError || error instanceof ReputationError
+    ? new ApiError(error.statusCode, error.message)
+    : error;
+
+/**
+ * Resolve the tenant a request acts on. Callers bound to a tenant can only act on their own.
+ * @param req Request
+ * @param requested Tenant named in the request
+ */
+const resolveTenant = (req: Request, requested: unknown): string => {
+  const own = req.user!.tenantId;
+  if (requested === undefined || requested === '') {
+    return own || DEFAULT_TENANT;
+  }
+  if (typeof requested !== 'string') {
+    throw new ApiError(400, 'tenantId must be a string');
+  }
+  if (own && requested !== own) {
+    throw new ApiError(403, 'Cannot access the security data of another tenant');
+  }
+  return requested;
+};
+
+/**
+ * Read a rule set document from a request body
+ * @param body Request body
+ */
+const ruleSetDocument = (body: any): { source: string; format: 'json' | 'yaml' } => {
+  const { source, format } = body || {};
+  if (typeof source !== 'string' || !source.trim()) {
+    throw new ApiError(400, 'source must be a JSON or YAML rule set');
+  }
+  if (format !== 'json' && format !== 'yaml') {
+    throw new ApiError(400, 'format must be json or yaml');
+  }
+  return { source, format };
+};
+
+/**
+ * Read an optional timestamp given in milliseconds or as an ISO 8601 date
+ * @param value Value
+ * @param name Parameter name
+ */
+const optionalTimestamp = (value: unknown, name: string): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const timestamp = typeof value === 'number' ? value : typeof value === 'string' ? Date.parse(value) : NaN;
+  if (!Number.isFinite(timestamp)) {
+    throw new ApiError(400, `${name} must be a timestamp in milliseconds or an ISO 8601 date`);
+  }
+  return timestamp;
+};
+
+/**
+ * Read an optional enum value from a query parameter
+ * @param value Value
+ * @param values Allowed values
+ * @param name Parameter name
+ */
+const optionalEnum = <T extends string>(value: unknown, values: T[], name: string): T | undefined => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (!values.includes(value as T)) {
+    throw new ApiError(400, `${name} must be one of ${values.join(', ')}`);
+  }
+  return value as T;
+};
+
+/**
+ * Read the mandatory justification of an unlock
+ * @param body Request body
+ */
+const justification = (body: any): string => {
+  const value = body?.justification;
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new ApiError(400, 'justification is required to unlock an account');
+  }
+  return value.trim();
+};
+
+/**
+ * @swagger
+ * /api/security/rules:
+ *   get:
+ *     summary: Get the intrusion detection rule set of a tenant
+ *     description: Returns the tenant's rule set, or the default rule set with revision 0 if the tenant has none.
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: tenantId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rule set
+ */
+securityRouter.get('/rules', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = resolveTenant(req, req.query.tenantId);
+    res.status(200).json(await intrusionDetection.getRuleSet(tenantId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/security/rules:
+ *   put:
+ *     summary: Replace the intrusion detection rule set of a tenant
+ *     description: The rule set declares velocity, new-device, new-geo, amount-deviation, destination-reputation and impossible-travel rules, each with a weight and an action (allow, step_up_mfa, block or lock). It applies to events recorded from now on.
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - source
+ *               - format
+ *             properties:
+ *               source:
+ *                 type: string
+ *                 description: Rule set document
+ *               format:
+ *                 type: string
+ *                 enum: [json, yaml]
+ *               tenantId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Rule set stored
+ *       400:
+ *         description: Invalid rule set
+ */
+securityRouter.put('/rules', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = resolveTenant(req, req.body?.tenantId);
+    const { source, format } = ruleSetDocument(req.body);
+
+    let ruleSet;
+    try {
+      ruleSet = await intrusionDetection.updateRuleSet(tenantId, source, format, req.user!.walletAddress);
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(200).json(ruleSet);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/security/rules:
+ *   delete:
+ *     summary: Return a tenant to the default rule set
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: tenantId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Tenant uses the default rule set
+ *       404:
+ *         description: Tenant has no rule set of its own
+ */
+securityRouter.delete('/rules', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = resolveTenant(req, req.query.tenantId);
+    if (!(await intrusionDetection.resetRuleSet(tenantId, req.user!.walletAddress))) {
+      throw new ApiError(404, 'Tenant has no rule set of its own');
+    }
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/security/rules/dry-run:
+ *   post:
+ *     summary: Replay recorded events against a proposed rule set
+ *     description: Reports how the proposed rules would have decided the tenant's recorded events, compared with the decisions taken at the time. Nothing is stored and no account is locked.
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - source
+ *               - format
+ *             properties:
+ *               source:
+ *                 type: string
+ *               format:
+ *                 type: string
+ *                 enum: [json, yaml]
+ *               tenantId:
+ *                 type: string
+ *               userId:
+ *                 type: string
+ *                 description: Replay the events of one user only
+ *               from:
+ *                 type: string
+ *                 description: Start of the replayed range, in milliseconds or ISO 8601; defaults to the retention period
+ *               to:
+ *                 type: string
+ *                 description: End of the replayed range; defaults to now
+ *     responses:
+ *       200:
+ *         description: Dry-run report
+ *       400:
+ *         description: Invalid rule set or too many events in range
+ */
+securityRouter.post('/rules/dry-run', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = resolveTenant(req, req.body?.tenantId);
+    const { source, format } = ruleSetDocument(req.body);
+    const { userId } = req.body;
+    if (userId !== undefined && typeof userId !== 'string') {
+      throw new ApiError(400, 'userId must be a string');
+    }
+
+    let report;
+    try {
+      report = await intrusionDetection.dryRun(tenantId, source, format, {
+        from: optionalTimestamp(req.body.from, 'from'),
+        to: optionalTimestamp(req.body.to, 'to'),
+        userId,
+      });
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(200).json(report);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/security/users/{userId}/events:
+ *   get:
+ *     summary: List the security events of a user
+ *     description: Newest first, with the risk score, action and detections of each.
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: tenantId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *     responses:
+ *       200:
+ *         description: Events
+ */
+securityRouter.get('/users/:userId/events', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = resolveTenant(req, req.query.tenantId);
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '100'), 10) || 100, 1), 1000);
+
+    const events = await intrusionDetection.getUserEvents(req.params.userId, tenantId, limit);
+    res.status(200).json({ events });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/security/users/{userId}/lockout:
+ *   get:
+ *     summary: Get the lockout of a user
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: tenantId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Active lockout
+ *       404:
+ *         description: Account is not locked
+ */
+securityRouter.get('/users/:userId/lockout', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = resolveTenant(req, req.query.tenantId);
+    const lockout = await intrusionDetection.getLockout(req.params.userId, tenantId);
+    if (!lockout) {
+      throw new ApiError(404, 'Account is not locked');
+    }
+    res.status(200).json({ lockout });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/security/users/{userId}/lockout:
+ *   delete:
+ *     summary: Unlock a user account
+ *     description: The justification is audited and noted on the user's active incidents.
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: tenantId
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - justification
+ *             properties:
+ *               justification:
+ *                 type: string
+ *     responses:
+ *       204:
+ *         description: Account unlocked
+ *       400:
+ *         description: Justification missing
+ *       404:
+ *         description: Account is not locked
+ */
+securityRouter.delete('/users/:userId/lockout', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = resolveTenant(req, req.query.tenantId);
+    const reason = justification(req.body);
+
+    let unlocked;
+    try {
+      unlocked = await intrusionDetection.unlockUserAccount(req.params.userId, req.user!.walletAddress, reason, tenantId);
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    if (!unlocked) {
+      throw new ApiError(404, 'Account is not locked');
+    }
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/security/incidents:
+ *   get:
+ *     summary: List security incidents
+ *     description: Newest first. Incidents are opened when intrusion detection blocks an operation or locks an account, and when a wallet is put into emergency lockdown.
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: tenantId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, investigating, resolved, false_positive]
+ *       - in: query
+ *         name: severity
+ *         schema:
+ *           type: string
+ *           enum: [low, medium, high, critical]
+ *       - in: query
+ *         name: assignee
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *     responses:
+ *       200:
+ *         description: Incidents
+ */
+securityRouter.get('/incidents', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = resolveTenant(req, req.query.tenantId);
+    const { assignee, userId } = req.query;
+    const incidents = await securityIncidents.listIncidents(tenantId, {
+      status: optionalEnum(req.query.status, Object.values(IncidentStatus), 'status'),
+      severity: optionalEnum(req.query.severity, Object.values(IncidentSeverity), 'severity'),
+      assignee: typeof assignee === 'string' && assignee ? assignee : undefined,
+      userId: typeof userId === 'string' && userId ? userId : undefined,
+      limit: Math.min(Math.max(parseInt(String(req.query.limit || '100'), 10) || 100, 1), 1000),
+    });
+    res.status(200).json({ incidents });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/security/incidents/{incidentId}:
+ *   get:
+ *     summary: Get a security incident
+ *     description: Returns the incident with its grouped security events, the linked audit logs and the user's active lockout.
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: incidentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: tenantId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Incident
+ *       404:
+ *         description: Incident not found
+ */
+securityRouter.get('/incidents/:incidentId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = resolveTenant(req, req.query.tenantId);
+
+    let incident;
+    try {
+      incident = await securityIncidents.getIncident(req.params.incidentId, tenantId);
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    const { events, auditLogs } = await securityIncidents.getLinkedRecords(incident);
+    const lockout = await intrusionDetection.getLockout(incident.userId, tenantId);
+    res.status(200).json({ incident, events, auditLogs, lockout: lockout || null });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/security/incidents/{incidentId}:
+ *   patch:
+ *     summary: Assign a security incident or change its severity
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: incidentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: tenantId
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               assignee:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Analyst to assign, or null to unassign
+ *               severity:
+ *                 type: string
+ *                 enum: [low, medium, high, critical]
+ *     responses:
+ *       200:
+ *         description: Updated incident
+ *       404:
+ *         description: Incident not found
+ */
+securityRouter.patch('/incidents/:incidentId', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = resolveTenant(req, req.query.tenantId);
+    const { assignee, severity } = req.body || {};
+    if (assignee !== undefined && assignee !== null && typeof assignee !== 'string') {
+      throw new ApiError(400, 'assignee must be a string or null');
+    }
+
+    let incident;
+    try {
+      incident = await securityIncidents.updateIncident(
+        req.params.incidentId,
+        tenantId,
+        { assignee, severity: optionalEnum(severity, Object.values(IncidentSeverity), 'severity') },
+        req.user!.walletAddress
+      );
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(200).json({ incident });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/security/incidents/{incidentId}/status:
+ *   post:
+ *     summary: Move a security incident to another status
+ *     description: Open incidents move to investigating, resolved or false_positive; investigating ones back to open or to a closed status; closed ones can only be reopened.
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: incidentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: tenantId
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [open, investigating, resolved, false_positive]
+ *               comment:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Updated incident
+ *       404:
+ *         description: Incident not found
+ *       409:
+ *         description: Transition not allowed from the current status
+ */
+securityRouter.post('/incidents/:incidentId/status', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = resolveTenant(req, req.query.tenantId);
+    const { status, comment } = req.body || {};
+    const target = optionalEnum(status, Object.values(IncidentStatus), 'status');
+    if (!target) {
+      throw new ApiError(400, 'status is required');
+    }
+    if (comment !== undefined && typeof comment !== 'string') {
+      throw new ApiError(400, 'comment must be a string');
+    }
+
+    let incident;
+    try {
+      incident = await securityIncidents.transitionIncident(
+        req.params.incidentId,
+        tenantId,
+        target,
+        req.user!.walletAddress,
+        comment || undefined
+      );
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(200).json({ incident });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/security/incidents/{incidentId}/notes:
+ *   post:
+ *     summary: Add a note to a security incident
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: incidentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: tenantId
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - body
+ *             properties:
+ *               body:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Updated incident
+ *       404:
+ *         description: Incident not found
+ */
+securityRouter.post('/incidents/:incidentId/notes', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = resolveTenant(req, req.query.tenantId);
+
+    let incident;
+    try {
+      incident = await securityIncidents.addNote(req.params.incidentId, tenantId, req.user!.walletAddress, req.body?.body);
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(201).json({ incident });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/security/incidents/{incidentId}/unlock:
+ *   post:
+ *     summary: Unlock the account an incident is about
+ *     description: The justification is audited and noted on the incident.
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: incidentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: tenantId
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - justification
+ *             properties:
+ *               justification:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Account unlocked; returns the updated incident
+ *       400:
+ *         description: Justification missing
+ *       404:
+ *         description: Incident not found or account is not locked
+ */
+securityRouter.post('/incidents/:incidentId/unlock', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = resolveTenant(req, req.query.tenantId);
+    const reason = justification(req.body);
+
+    let incident;
+    try {
+      const { userId, status } = await securityIncidents.getIncident(req.params.incidentId, tenantId);
+      if (!(await intrusionDetection.unlockUserAccount(userId, req.user!.walletAddress, reason, tenantId))) {
+        throw new ApiError(404, 'Account is not locked');
+      }
+
+      // Only active incidents are noted on unlock, so note a closed one here
+      incident =
+        status === IncidentStatus.OPEN || status === IncidentStatus.INVESTIGATING
+          ? await securityIncidents.getIncident(req.params.incidentId, tenantId)
+          : await securityIncidents.addNote(req.params.incidentId, tenantId, req.user!.walletAddress, `Account unlocked: ${reason}`);
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(200).json({ incident });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/security/address-lists:
+ *   get:
+ *     summary: List the allow and deny list entries of a tenant
+ *     description: Newest first. Destinations on the deny list block gasless and multisig transactions; the allow list waives every reputation signal but sanctions.
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: tenantId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: list
+ *         schema:
+ *           type: string
+ *           enum: [allow, deny]
+ *     responses:
+ *       200:
+ *         description: List entries
+ */
+securityRouter.get('/address-lists', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = resolveTenant(req, req.query.tenantId);
+    const entries = await addressReputation.listEntries(tenantId, optionalEnum(req.query.list, ['allow', 'deny'], 'list'));
+    res.status(200).json({ entries });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/security/address-lists/{address}:
+ *   put:
+ *     summary: Put an address on a tenant's allow or deny list
+ *     description: Replaces any previous entry of the address.
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: address
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: tenantId
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - list
+ *             properties:
+ *               list:
+ *                 type: string
+ *                 enum: [allow, deny]
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: List entry
+ *       400:
+ *         description: Invalid address or list
+ */
+securityRouter.put('/address-lists/:address', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = resolveTenant(req, req.query.tenantId);
+    const { list, reason } = req.body || {};
+    if (reason !== undefined && typeof reason !== 'string') {
+      throw new ApiError(400, 'reason must be a string');
+    }
+
+    let entry;
+    try {
+      entry = await addressReputation.addListEntry(tenantId, req.params.address, list, req.user!.walletAddress, reason);
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(200).json(entry);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/security/address-lists/{address}:
+ *   delete:
+ *     summary: Remove an address from a tenant's allow and deny lists
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: address
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: tenantId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Address removed
+ *       404:
+ *         description: Address is not listed
+ */
+securityRouter.delete('/address-lists/:address', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = resolveTenant(req, req.query.tenantId);
+    if (!(await addressReputation.removeListEntry(tenantId, req.params.address, req.user!.walletAddress))) {
+      throw new ApiError(404, 'Address is not listed');
+    }
+    res.status(200).json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/security/sanctions:
+ *   get:
+ *     summary: Get the sanctions lists loaded
+ *     description: Lists are read from the files in SANCTIONS_LIST_FILES and reloaded when they change.
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of sanctioned addresses and the status of each list
+ */
+securityRouter.get('/sanctions', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.status(200).json(addressReputation.getSanctionsStatus());
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/security/reputation/check:
+ *   post:
+ *     summary: Score the destinations of a transaction
+ *     description: Returns the verdict the address reputation policy would reach, without enforcing it.
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: tenantId
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - chainId
+ *               - to
+ *             properties:
+ *               chainId:
+ *                 type: integer
+ *               from:
+ *                 type: string
+ *               to:
+ *                 type: string
+ *               data:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Risk score, action (allow, warn or block), signals and warnings
+ */
+securityRouter.post('/reputation/check', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = resolveTenant(req, req.query.tenantId);
+    const { chainId, from, to, data } = req.body || {};
+    if (!Number.isInteger(chainId) || typeof to !== 'string') {
+      throw new ApiError(400, 'chainId and to are required');
+    }
+    if ((from !== undefined && typeof from !== 'string') || (data !== undefined && typeof data !== 'string')) {
+      throw new ApiError(400, 'from and data must be strings');
+    }
+
+    let verdict;
+    try {
+      verdict = await addressReputation.evaluate({ chainId, from, to, data, tenantId });
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(200).json(verdict);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { securityRouter };
@@ -0,0 +1,169 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ApiError } from '../middlewares/errorHandler';
+import { requirePermission } from '../middlewares/auth';
+import { sensitiveOperationLimiter } from '../middlewares/rateLimit';
+import { Permission } from '../services/rbac';
+import { teeService } from '../services/tee/teeService';
+import attestationService, { AttestationError } from '../services/tee/attestation';
+
+// Create router
+const teeRouter = Router();
+
+// Attestation decides which enclaves may hold keys
+teeRouter.use(requirePermission(Permission.MANAGE_HSM));
+
+/**
+ * Translate attestation errors into API errors
+ * @param error Error thrown by the attestation service
+ * @returns Error to pass on
+ */
+const toApiError = (error: unknown): unknown =>
+  error instanceof AttestationError ? new ApiError(error.statusCode, error.message) : error;
+
+/**
+ * @swagger
+ * /api/tee/attestation/challenge:
+ *   post:
+ *     summary: Issue an attestation challenge
+ *     description: Returns a single-use nonce the enclave must bind into its evidence; the first 32 bytes of the report data for SGX and SEV-SNP, the nonce field for Nitro.
+ *     tags: [TEE]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Challenge issued
+ */
+teeRouter.post('/attestation/challenge', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.status(201).json({
+      ...(await teeService.createAttestationChallenge()),
+      supportedTypes: attestationService.supportedTypes,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/tee/attestation:
+ *   post:
+ *     summary: Submit attestation evidence
+ *     description: Verifies the evidence against pinned roots, the measurement allowlist and an issued challenge. On success the enclave may hold keys until the attestation expires or is revoked.
+ *     tags: [TEE]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - teeType
+ *               - evidence
+ *             properties:
+ *               teeType:
+ *                 type: string
+ *                 enum: [sgx-dcap, sev-snp, nitro]
+ *               evidence:
+ *                 type: string
+ *                 description: Base64 SGX quote, SEV-SNP report or Nitro attestation document
+ *               certificates:
+ *                 type: string
+ *                 description: PEM VCEK and ASK certificates, for SEV-SNP
+ *     responses:
+ *       201:
+ *         description: Attestation verified
+ *       400:
+ *         description: Evidence is malformed, not genuine or not bound to a challenge
+ *       403:
+ *         description: Measurement is not allowlisted or the enclave runs in debug mode
+ */
+teeRouter.post('/attestation', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { teeType, evidence, certificates } = req.body || {};
+    if (certificates !== undefined && typeof certificates !== 'string') {
+      throw new ApiError(400, 'certificates must be a PEM string');
+    }
+
+    let attestation;
+    try {
+      await teeService.initialize();
+      attestation = await teeService.attest({ teeType, evidence, certificates }, req.user!.walletAddress);
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(201).json({ attestation });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/tee/attestation:
+ *   get:
+ *     summary: Get the attestation the TEE holds keys under
+ *     tags: [TEE]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Current attestation
+ *       403:
+ *         description: The TEE has no valid attestation
+ */
+teeRouter.get('/attestation', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    let attestation;
+    try {
+      await teeService.initialize();
+      attestation = await teeService.getAttestationReport();
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(200).json({ attestation });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/tee/attestation/{id}:
+ *   delete:
+ *     summary: Revoke an attestation
+ *     description: The enclave can no longer generate or use keys until it attests again.
+ *     tags: [TEE]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Attestation revoked
+ *       404:
+ *         description: Attestation not found
+ */
+teeRouter.delete('/attestation/:id', sensitiveOperationLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    try {
+      await attestationService.revoke(req.params.id, req.user!.walletAddress);
+    } catch (error) {
+      throw toApiError(error);
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { teeRouter };
@@ -10,6 +10,7 @@ import { asyncHandler } from '../utils/express-utils';
 import { Permission, UserRole } from '../services/rbac';
 import { requirePermission } from '../middlewares/auth';
 import { AuthUser } from '../middlewares/auth';
+import { requireMFA } from '../middlewares/mfa';
 import { walletSecurityService } from '../services/walletSecurity';
 import { ethers } from 'ethers';
 
@@ -40,6 +41,8 @@ interface Wallet {
     totalShares: number;
     threshold: number;
   };
+  status: 'active' | 'inactive' | 'locked';
+  lastActivity?: number;
 }
 
 interface Token {
@@ -216,7 +219,7 @@ walletRouter.post(
       }
 
       // Store wallet in database
-      const db = getDatabase();
+      const db = await getDatabase();
       const wallet: Wallet = {
         address: walletAddress,
         type: 'smart' as const,
@@ -324,7 +327,7 @@ walletRouter.get(
       const address = req.params.address.toLowerCase();
 
       // Get wallet from database
-      const db = getDatabase();
+      const db = await getDatabase();
       const wallet = await db.get('wallets', address);
 
       if (!wallet) {
@@ -403,7 +406,7 @@ walletRouter.get(
       const chainId = req.query.chainId ? parseInt(req.query.chainId as string, 10) : undefined;
 
       // Get wallet from database
-      const db = getDatabase();
+      const db = await getDatabase();
       const wallet = await db.get('wallets', address);
 
       if (!wallet) {
@@ -528,7 +531,7 @@ walletRouter.post(
       const { tokenAddress, chainId, symbol, name, decimals } = addTokenSchema.parse(req.body);
 
       // Get wallet from database
-      const db = getDatabase();
+      const db = await getDatabase();
       const wallet = await db.get('wallets', walletAddress);
 
       if (!wallet) {
@@ -627,7 +630,7 @@ walletRouter.delete(
       const tokenId = req.params.tokenId;
 
       // Get wallet from database
-      const db = getDatabase();
+      const db = await getDatabase();
       const wallet = await db.get('wallets', walletAddress);
 
       if (!wallet) {
@@ -695,6 +698,11 @@ walletRouter.delete(
  *         schema:
  *           type: string
  *         description: Wallet address
+ *       - in: header
+ *         name: X-MFA-Session
+ *         schema:
+ *           type: string
+ *         description: Token of a completed MFA session for this exact request
  *     requestBody:
  *       required: true
  *       content:
@@ -730,12 +738,20 @@ walletRouter.delete(
  *       400:
  *         description: Invalid input
  *       403:
- *         description: Unauthorized
+ *         description: Unauthorized, or MFA required; the response then carries an MFA session token and the factors to verify
+ *       412:
+ *         description: The operation requires an MFA factor the user has not set up
  */
 walletRouter.post(
   '/:address/sign',
   sensitiveOperationLimiter,
   requirePermission(Permission.SIGN_TRANSACTION),
+  requireMFA('transaction', req => ({
+    walletAddress: req.params.address.toLowerCase(),
+    type: req.body?.type,
+    value: req.body?.data?.value,
+    data: req.body?.data,
+  })),
   asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { address } = req.params;
@@ -750,14 +766,14 @@ walletRouter.post(
         throw new ApiError(400, 'Data is required');
       }
       
-      // Get user ID from authenticated user
-      if (!req.user || !req.user.id) {
+      // Wallets are held for the authenticated wallet address
+      if (!req.user || !req.user.walletAddress) {
         throw new ApiError(403, 'Unauthorized: user not authenticated');
       }
-      const userId = req.user.id;
+      const userId = req.user.walletAddress;
       
       // Get wallet from database
-      const db = getDatabase();
+      const db = await getDatabase();
       const wallet = await db.get('wallets', address);
       
       if (!wallet) {
@@ -864,14 +880,13 @@ walletRouter.get(
     try {
       const { address } = req.params;
       
-      // Get user ID from authenticated user
-      if (!req.user || !req.user.id) {
+      // Require an authenticated user
+      if (!req.user || !req.user.walletAddress) {
         throw new ApiError(403, 'Unauthorized: user not authenticated');
       }
-      const userId = req.user.id;
       
       // Get wallet from database
-      const db = getDatabase();
+      const db = await getDatabase();
       const wallet = await db.get('wallets', address);
       
       if (!wallet) {
@@ -1,5 +1,9 @@
 import { logger } from '../utils/logger';
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { DBSchema } from 'idb';
+import { createStorageAdapter, getStorageConfig, StorageAdapter } from './storage';
+import { Migrator, MIGRATIONS } from './migrations';
+import type { BridgeProvider } from '../services/crosschain';
+import type { HolderSetup } from '../services/tss/holders';
 
 // Define database schema
 export interface RyzerWalletDB extends DBSchema {
@@ -18,8 +22,6 @@ export interface RyzerWalletDB extends DBSchema {
       username?: string;
       createdAt: number;
       lastLogin?: number;
-      nonce: string; // For authentication
-      nonceTimestamp?: number; // Timestamp when nonce was created
       roles?: string[]; // User roles for RBAC
       customPermissions?: string[]; // Custom permissions assigned to user
       restrictions?: string[]; // Restrictions applied to user
@@ -62,17 +64,23 @@ export interface RyzerWalletDB extends DBSchema {
     key: string; // key ID
     value: {
       id: string;
+      name: string; // Key label
+      description?: string;
       provider: string; // HSM provider name
       keyType: string; // Type of key (signing, encryption, etc.)
       publicKey: string;
+      walletAddress: string; // Empty for non-Ethereum keys
+      tenantId?: string;
       metadata?: any;
       createdAt: number;
+      createdBy: string;
       lastUsed?: number;
+      lastRotatedAt?: number;
       status: 'active' | 'inactive' | 'compromised' | 'rotated';
       rotatedFrom?: string; // ID of previous key if rotated
       rotatedTo?: string; // ID of new key if rotated
     };
-    indexes: { 'by-provider': string; 'by-status': string; 'by-type': string };
+    indexes: { 'by-provider': string; 'by-status': string; 'by-type': string; 'by-tenant': string };
   };
   
   multisig_wallets: {
@@ -154,6 +162,10 @@ export interface RyzerWalletDB extends DBSchema {
       implementation?: string; // For upgradeable wallets
       version?: string;
       status: 'active' | 'inactive' | 'locked';
+      securityType?: 'standard' | 'tee' | 'tss'; // How the wallet key is held
+      brokers?: string[];
+      txHash?: string; // Deployment transaction of smart contract wallets
+      tssInfo?: { totalShares: number; threshold: number };
     };
     indexes: { 'by-owner': string; 'by-chainId': number };
   };
@@ -299,10 +311,26 @@ export interface RyzerWalletDB extends DBSchema {
       value: string;
       priority: 'high' | 'medium' | 'low';
       timestamp: number;
-      maxGasPrice?: string;
-      deadline?: number;
+      maxGasPrice?: string; // Wei; stays queued while gas costs more
+      deadline?: number; // Unix milliseconds
+      idempotencyKey?: string; // Queueing again with the same key returns this transaction
+      dependsOn?: string[]; // Transactions that must complete first; batched before this one when batched together
+      allowFailure?: boolean; // A revert fails only this transaction rather than its batch
+      status: 'queued' | 'batched' | 'completed' | 'failed' | 'dead_letter' | 'cancelled';
+      attempts: number; // Batches the transaction was claimed by
+      availableAt: number; // Not batched before this time; set when a failed attempt is retried
+      batchId?: string; // Latest batch
+      lastError?: string;
+      // Outcome of the transaction's call in its batch
+      result?: {
+        success: boolean;
+        returnData?: string;
+        revertReason?: string;
+        gasUsed?: string; // Set when the node can trace the batch
+      };
+      updatedAt: number;
     };
-    indexes: { 'by-wallet': string; 'by-chain': number };
+    indexes: { 'by-wallet': string; 'by-chain': number; 'by-queue': [number, string, number] };
   };
 
   batches: {
@@ -310,16 +338,23 @@ export interface RyzerWalletDB extends DBSchema {
     value: {
       id: string;
       chainId: number;
+      walletAddress: string;
       transactions: string[];
       status: 'pending' | 'simulating' | 'executing' | 'completed' | 'failed';
       createdAt: number;
+      updatedAt: number;
+      leaseOwner?: string; // Worker processing the batch
+      leaseExpiresAt: number; // Other workers take over an unfinished batch after this time
+      broadcastAt?: number;
       executedAt?: number;
       error?: string;
       gasUsed?: string;
+      gasPrice?: string;
       txHash?: string;
       totalValue?: string;
+      aggregator?: string; // Multicall3 contract the calls were simulated with
     };
-    indexes: { 'by-chain': number; 'by-status': string };
+    indexes: { 'by-chain': number; 'by-status': string; 'by-lease': [string, number] };
   };
 
   simulationRequests: {
@@ -387,7 +422,7 @@ export interface RyzerWalletDB extends DBSchema {
       recipient: string;
       token: string;
       amount: string;
-      bridgeProvider: string;
+      bridgeProvider: BridgeProvider;
       status: 'pending' | 'bridging' | 'completed' | 'failed';
       sourceTxHash?: string;
       destinationTxHash?: string;
@@ -396,8 +431,10 @@ export interface RyzerWalletDB extends DBSchema {
       timestamp: number;
       completedAt?: number;
       error?: string;
+      tenantId?: string;
+      tenantIdBackfilled?: boolean; // Set when tenantId was assigned by a migration
     };
-    indexes: { 'by-sender': string; 'by-recipient': string; 'by-status': string };
+    indexes: { 'by-sender': string; 'by-recipient': string; 'by-status': string; 'by-tenantId': string };
   };
 
   recoveryConfigs: {
@@ -446,16 +483,446 @@ export interface RyzerWalletDB extends DBSchema {
     };
     indexes: { 'by-wallet': string };
   };
+
+  auth_nonces: {
+    key: string; // Nonce
+    value: {
+      nonce: string;
+      address: string; // Lowercase address the nonce was issued to
+      chainId: number;
+      issuedAt: number;
+      expiresAt: number;
+    };
+    indexes: { 'by-expiresAt': number };
+  };
+
+  auth_sessions: {
+    key: string; // Session ID
+    value: {
+      id: string;
+      userId: string; // User wallet address
+      isAdmin?: boolean;
+      status: 'active' | 'revoked';
+      createdAt: number;
+      lastSeenAt: number;
+      expiresAt: number; // Absolute session lifetime; refresh tokens cannot extend it
+      ipAddress?: string;
+      userAgent?: string;
+      device?: string; // Short description derived from the user agent
+      revokedAt?: number;
+      revokedBy?: string;
+      revokeReason?: string;
+    };
+    indexes: { 'by-user': string; 'by-expiresAt': number };
+  };
+
+  refresh_tokens: {
+    key: string; // SHA-256 hash of the refresh token
+    value: {
+      tokenHash: string;
+      sessionId: string;
+      userId: string;
+      issuedAt: number;
+      expiresAt: number;
+      usedAt?: number; // Set when the token is rotated; presenting it again revokes the session
+      replacedBy?: string; // Hash of the token issued in its place
+    };
+    indexes: { 'by-session': string; 'by-expiresAt': number };
+  };
+
+  api_keys: {
+    key: string; // Key ID
+    value: {
+      id: string;
+      tenantId: string;
+      name: string;
+      keyHash: string; // HMAC-SHA256 of the secret part of the key
+      scopes: string[]; // Permission values granted to the key
+      allowedIps?: string[]; // IP addresses or IPv4 CIDR ranges; any IP when empty
+      rateLimit?: { windowMs: number; max: number }; // Overrides the default per-key limit
+      status: 'active' | 'rotated' | 'revoked';
+      createdAt: number;
+      createdBy: string;
+      expiresAt?: number;
+      lastUsedAt?: number;
+      lastUsedIp?: string;
+      rotatedFrom?: string; // ID of the key this key replaced
+      rotatedTo?: string; // ID of the key that replaced this key
+      revokedAt?: number;
+      revokedBy?: string;
+    };
+    indexes: { 'by-tenant': string; 'by-status': string };
+  };
+
+  api_key_rate_limits: {
+    key: string; // Key ID
+    value: {
+      apiKeyId: string;
+      windowStartedAt: number;
+      count: number; // Requests counted in the window
+    };
+  };
+
+  mfa_configs: {
+    key: string; // User ID
+    value: {
+      userId: string;
+      totpEnabled: boolean;
+      totpSecret?: string; // Encrypted base32 secret
+      totpLastUsedStep?: number; // Time step of the last accepted code; older and equal steps are rejected
+      pendingTotpSecret?: string; // Encrypted secret awaiting confirmation
+      pendingTotpCreatedAt?: number;
+      recoveryCodes: { hash: string; usedAt?: number }[];
+      lastUpdated: number;
+    };
+  };
+
+  mfa_sessions: {
+    key: string; // SHA-256 of the session token
+    value: {
+      id: string;
+      userId: string;
+      operationType: 'transaction' | 'key_export' | 'settings_change' | 'recovery';
+      operationData: any;
+      requiredFactors: ('totp' | 'hardware_key')[];
+      completedFactors: ('totp' | 'hardware_key')[];
+      failedAttempts: number;
+      createdAt: number;
+      expiresAt: number;
+    };
+    indexes: { 'by-user': string; 'by-expiresAt': number };
+  };
+
+  webauthn_credentials: {
+    key: string; // Base64url credential ID
+    value: {
+      id: string;
+      userId: string;
+      name: string;
+      publicKey: string; // Base64url SPKI DER
+      alg: number; // COSE algorithm
+      signCount: number;
+      transports?: string[];
+      aaguid: string;
+      fmt: 'none' | 'packed' | 'fido-u2f';
+      attestationType: 'none' | 'self' | 'basic';
+      backupEligible: boolean;
+      backedUp: boolean;
+      status: 'active' | 'suspended'; // Suspended when the signature counter indicates a cloned authenticator
+      createdAt: number;
+      lastUsedAt?: number;
+      suspendedAt?: number;
+    };
+    indexes: { 'by-user': string };
+  };
+
+  webauthn_challenges: {
+    key: string; // Base64url challenge
+    value: {
+      challenge: string;
+      userId: string;
+      type: 'registration' | 'authentication';
+      mfaSessionId?: string; // MFA session an authentication challenge was issued for
+      expiresAt: number;
+    };
+    indexes: { 'by-expiresAt': number };
+  };
+
+  tss_keys: {
+    key: string; // Wallet ID
+    value: {
+      walletId: string;
+      address: string;
+      publicKey: string; // Compressed public key, equal to commitments[0]
+      threshold: number;
+      participants: number[]; // Share indexes
+      commitments: string[]; // Feldman commitments to the sharing polynomial
+      epoch: number; // Incremented on every refresh or redistribution
+      createdAt: number;
+      updatedAt: number;
+    };
+  };
+
+  // Shares written before shares moved to the holders' share stores; each node moves its own out on startup
+  tss_key_shares: {
+    key: string; // `${walletId}:${epoch}:${index}`
+    value: {
+      id: string;
+      walletId: string;
+      epoch: number;
+      index: number;
+      share: string; // Encrypted hex scalar
+    };
+    indexes: { 'by-wallet': string };
+  };
+
+  tss_holders: {
+    key: number; // Share index
+    value: HolderSetup;
+  };
+
+  tss_requests: {
+    key: string; // Request ID, also the ID of the session run for it
+    value: {
+      id: string;
+      walletId: string;
+      operation: 'sign' | 'reshare'; // Signing, or key generation, refresh and redistribution
+      payload: Record<string, any>; // Announcement the session must match
+      createdAt: number;
+      expiresAt: number;
+    };
+    indexes: { 'by-expiresAt': number };
+  };
+
+  encryption_keys: {
+    key: string; // Data key ID, referenced by ciphertexts
+    value: {
+      id: string;
+      scope: string; // `${tenantId}:${purpose}`
+      tenantId: string;
+      purpose: string;
+      version: number; // Increases with every rotation of the scope
+      status: 'active' | 'retired'; // Retired keys only decrypt
+      rootKeyId: string; // Root key the data key is wrapped with
+      wrappedKey: string;
+      createdAt: number;
+      retiredAt?: number;
+      rewrappedAt?: number;
+    };
+    indexes: { 'by-scope': string; 'by-root-key': string };
+  };
+
+  encryption_jobs: {
+    key: string; // Job ID
+    value: {
+      id: string;
+      type: 'rewrap' | 'reencrypt';
+      status: 'running' | 'completed' | 'failed';
+      requestedBy: string;
+      createdAt: number;
+      finishedAt?: number;
+      processed: number;
+      updated: number;
+      failed: number;
+      errors: string[];
+    };
+    indexes: { 'by-status': string };
+  };
+
+  attestation_nonces: {
+    key: string; // Hex nonce
+    value: {
+      nonce: string;
+      issuedAt: number;
+      expiresAt: number;
+    };
+    indexes: { 'by-expiresAt': number };
+  };
+
+  tee_attestations: {
+    key: string; // Attestation ID
+    value: {
+      id: string;
+      teeType: 'sgx-dcap' | 'sev-snp' | 'nitro';
+      measurement: string; // Hex MRENCLAVE, launch measurement or PCR0
+      instanceId: string; // Identifies the enclave instance or platform that produced the evidence
+      evidenceHash: string; // SHA-256 of the evidence
+      claims: Record<string, string | number | boolean>;
+      verifiedAt: number;
+      expiresAt: number; // The enclave must attest again after this
+      revokedAt?: number;
+    };
+    indexes: { 'by-measurement': string; 'by-expiresAt': number };
+  };
+
+  security_events: {
+    key: string; // Event ID
+    value: {
+      id: string;
+      tenantId: string;
+      userId: string;
+      eventType: string;
+      timestamp: number;
+      ipAddress?: string;
+      deviceId?: string;
+      location?: { country?: string; latitude?: number; longitude?: number };
+      amount?: number;
+      destination?: string; // Lowercase address
+      operation?: string;
+      data?: Record<string, any>;
+      // Decision taken under the tenant's rule set when the event was recorded
+      riskScore: number;
+      action: 'allow' | 'step_up_mfa' | 'block' | 'lock';
+      detections: { ruleId: string; reason: string }[];
+      ruleSetRevision: number; // 0 for the default rule set
+    };
+    indexes: { 'by-user': [string, string, number]; 'by-tenant': [string, number]; 'by-timestamp': number };
+  };
+
+  security_rule_sets: {
+    key: string; // Tenant ID
+    value: {
+      tenantId: string;
+      revision: number; // Incremented on every update
+      format: 'json' | 'yaml';
+      source: string; // Rule set as submitted
+      updatedBy: string;
+      updatedAt: number;
+    };
+  };
+
+  security_lockouts: {
+    key: string; // `${tenantId}:${userId}`
+    value: {
+      id: string;
+      tenantId: string;
+      userId: string;
+      eventId: string; // Event whose detections locked the account
+      reason: string;
+      lockedAt: number;
+      lockedUntil: number;
+    };
+  };
+
+  security_incidents: {
+    key: string; // Incident ID
+    value: {
+      id: string;
+      tenantId: string;
+      userId: string; // Subject of the incident
+      source: 'intrusion_detection' | 'emergency_lockdown';
+      title: string;
+      severity: 'low' | 'medium' | 'high' | 'critical';
+      status: 'open' | 'investigating' | 'resolved' | 'false_positive';
+      assignee?: string;
+      eventIds: string[]; // Grouped security events
+      ruleIds: string[]; // Rules that matched the grouped events
+      auditLogIds: string[];
+      notes: { id: string; author: string; body: string; createdAt: number }[];
+      transitions: { from: string; to: string; performedBy: string; timestamp: number; comment?: string }[];
+      openedAt: number;
+      lastEventAt: number;
+      updatedAt: number;
+      closedAt?: number; // Set while resolved or a false positive
+    };
+    indexes: { 'by-user': [string, string, number]; 'by-tenant': [string, number] };
+  };
+
+  contract_info: {
+    key: string; // `${chainId}:${address}`
+    value: {
+      id: string;
+      chainId: number;
+      address: string; // Lowercase
+      isContract: boolean;
+      code?: string; // Runtime bytecode
+      codeHash?: string;
+      // From the chain's explorer API; unset when unknown
+      createdAt?: number;
+      creationTxHash?: string;
+      creator?: string;
+      verified?: boolean;
+      fetchedAt: number;
+    };
+  };
+
+  address_lists: {
+    key: string; // `${tenantId}:${address}`
+    value: {
+      id: string;
+      tenantId: string;
+      address: string; // Lowercase
+      list: 'allow' | 'deny';
+      reason?: string;
+      addedBy: string;
+      addedAt: number;
+    };
+    indexes: { 'by-tenant': [string, number] };
+  };
+
+  relayer_nonces: {
+    key: string; // `${chainId}:${address}`
+    value: {
+      id: string;
+      chainId: number;
+      address: string; // Lowercase
+      nextNonce: number; // Next nonce to hand out
+      updatedAt: number;
+    };
+  };
+
+  relayer_transactions: {
+    key: string; // Transaction ID
+    value: {
+      id: string;
+      chainId: number;
+      from: string; // Lowercase relayer address
+      nonce: number;
+      to: string;
+      value: string;
+      data: string;
+      gasLimit: string;
+      label?: string; // What the transaction is for, e.g. 'bundle'
+      tenantId?: string;
+      status: 'pending' | 'cancelling' | 'confirmed' | 'failed' | 'cancelled' | 'dropped';
+      hash: string; // Latest submission
+      submissions: {
+        hash: string;
+        kind: 'original' | 'speed_up' | 'cancel';
+        maxFeePerGas: string;
+        maxPriorityFeePerGas: string;
+        submittedAt: number;
+      }[];
+      blockNumber?: number;
+      gasUsed?: string;
+      effectiveGasPrice?: string;
+      error?: string;
+      createdAt: number;
+      updatedAt: number;
+      finalizedAt?: number;
+    };
+    indexes: { 'by-account': [number, string, number]; 'by-status': [string, number]; 'by-hash': string };
+  };
+
+  meta_transactions: {
+    key: string; // `${chainId}:${forwarder}:${from}:${nonce}`, lowercase
+    value: {
+      id: string;
+      chainId: number;
+      forwarder: string; // Lowercase
+      from: string; // Lowercase signer of the request
+      nonce: number;
+      to: string;
+      value: string;
+      gas: string;
+      deadline: number; // Unix seconds
+      data: string;
+      signature: string;
+      digest: string; // EIP-712 hash of the request
+      relayerTransactionId: string;
+      tenantId?: string;
+      createdAt: number;
+    };
+    indexes: { 'by-signer': [number, string, string, number] };
+  };
+
+  schema_migrations: {
+    key: string; // Migration name
+    value: {
+      name: string;
+      batch: number;
+      appliedAt: number;
+    };
+  };
 }
 
-// Database configuration
-const DB_NAME = 'ryzer-wallet';
-const DB_VERSION = 1;
+// Database instance type returned by getDatabase()
+export type WalletDatabase = StorageAdapter<RyzerWalletDB>;
 
 // Database connection instance and state tracking
-let dbInstance: IDBPDatabase<RyzerWalletDB> | null = null;
+let dbInstance: WalletDatabase | null = null;
 let isInitializing = false;
-let initPromise: Promise<IDBPDatabase<RyzerWalletDB>> | null = null;
+let initPromise: Promise<WalletDatabase> | null = null;
 
 /**
  * Initialize database connection with retry mechanism and proper error handling
@@ -463,82 +930,28 @@ let initPromise: Promise<IDBPDatabase<RyzerWalletDB>> | null = null;
  * @param delay Delay between retries in milliseconds
  * @returns Database instance
  */
-async function initDatabase(retries = 3, delay = 1000): Promise<IDBPDatabase<RyzerWalletDB>> {
+async function initDatabase(retries = 3, delay = 1000): Promise<WalletDatabase> {
   try {
-    logger.info('Initializing IndexedDB database...');
-    
-    const db = await openDB<RyzerWalletDB>(DB_NAME, DB_VERSION, {
-      upgrade(database, oldVersion, newVersion) {
-        logger.info(`Upgrading database from version ${oldVersion} to ${newVersion}`);
-        
-        // Create stores and indexes
-        const stores = [
-          { name: 'users', keyPath: 'address', indexes: [{ name: 'by-email', keyPath: 'email' }] },
-          { name: 'user_roles', keyPath: 'id', indexes: [{ name: 'by-user', keyPath: 'userId' }, { name: 'by-role', keyPath: 'role' }] },
-          { name: 'audit_logs', keyPath: 'id', indexes: [{ name: 'by-user', keyPath: 'userId' }, { name: 'by-timestamp', keyPath: 'timestamp' }] },
-          { name: 'hsm_keys', keyPath: 'id', indexes: [{ name: 'by-provider', keyPath: 'provider' }, { name: 'by-status', keyPath: 'status' }] },
-          { name: 'multisig_wallets', keyPath: 'address', indexes: [{ name: 'by-owner', keyPath: 'owners' }, { name: 'by-chain', keyPath: 'chainId' }] },
-          { name: 'multisig_transactions', keyPath: 'id', indexes: [{ name: 'by-wallet', keyPath: 'walletAddress' }, { name: 'by-status', keyPath: 'status' }] },
-          { name: 'transactions', keyPath: 'hash', indexes: [{ name: 'by-address', keyPath: ['from', 'to'] }, { name: 'by-status', keyPath: 'status' }] },
-          { name: 'wallets', keyPath: 'address', indexes: [{ name: 'by-owner', keyPath: 'owner' }, { name: 'by-chainId', keyPath: 'chainId' }] },
-          { name: 'tokens', keyPath: 'id', indexes: [{ name: 'by-chainId', keyPath: 'chainId' }] },
-          { name: 'settings', keyPath: 'key' },
-          { name: 'events', keyPath: 'id', indexes: [{ name: 'by-wallet', keyPath: 'walletAddress' }, { name: 'by-type', keyPath: 'type' }] },
-          { name: 'sessions', keyPath: 'id', indexes: [{ name: 'by-wallet', keyPath: 'walletAddress' }] },
-          { name: 'analytics_aggregated', keyPath: 'id', indexes: [{ name: 'by-period', keyPath: 'period' }, { name: 'by-timestamp', keyPath: 'timestamp' }] },
-          { name: 'analytics_events', keyPath: 'id', indexes: [{ name: 'by-wallet', keyPath: 'walletAddress' }, { name: 'by-type', keyPath: 'type' }] },
-          { name: 'analytics_sessions', keyPath: 'id', indexes: [{ name: 'by-wallet', keyPath: 'walletAddress' }, { name: 'by-start-time', keyPath: 'startTime' }] },
-          { name: 'pendingTransactions', keyPath: 'id', indexes: [{ name: 'by-wallet', keyPath: 'walletAddress' }, { name: 'by-chain', keyPath: 'chainId' }] },
-          { name: 'batches', keyPath: 'id', indexes: [{ name: 'by-chain', keyPath: 'chainId' }, { name: 'by-status', keyPath: 'status' }] },
-          { name: 'simulationRequests', keyPath: 'id', indexes: [{ name: 'by-from', keyPath: 'from' }, { name: 'by-status', keyPath: 'status' }] },
-          { name: 'simulationResults', keyPath: 'id' },
-          { name: 'crossChainTransactions', keyPath: 'id', indexes: [{ name: 'by-sender', keyPath: 'sender' }, { name: 'by-status', keyPath: 'status' }] },
-          { name: 'recoveryConfigs', keyPath: 'walletAddress' },
-          { name: 'recoveryRequests', keyPath: 'id', indexes: [{ name: 'by-wallet', keyPath: 'walletAddress' }, { name: 'by-status', keyPath: 'status' }] },
-          { name: 'recoveryBackups', keyPath: 'id', indexes: [{ name: 'by-wallet', keyPath: 'walletAddress' }] }
-        ];
-
-        for (const store of stores) {
-          if (!database.objectStoreNames.contains(store.name)) {
-            const objectStore = database.createObjectStore(store.name, { keyPath: store.keyPath });
-            
-            // Create indexes
-            if (store.indexes) {
-              for (const index of store.indexes) {
-                objectStore.createIndex(index.name, index.keyPath);
-              }
-            }
-            
-            logger.info(`Created object store: ${store.name}`);
-          }
-        }
-      },
-      blocked() {
-        logger.warn('Database blocked by another version');
-      },
-      blocking() {
-        logger.warn('Database is blocking a newer version');
-      },
-      terminated() {
-        logger.error('Database connection terminated unexpectedly');
-        dbInstance = null;
-      }
-    });
+    const config = getStorageConfig();
+    logger.info(`Initializing ${config.driver} database...`);
 
-    // Set up error event handler
-    db.addEventListener('error', (event) => {
-      logger.error('Database error:', event);
-    });
-
-    // Set up close event handler
-    db.addEventListener('close', () => {
-      logger.info('Database connection closed');
+    const db = await createStorageAdapter<RyzerWalletDB>(config, () => {
       dbInstance = null;
     });
 
+    // Apply pending schema and data migrations
+    if (process.env.DB_MIGRATE_ON_START !== 'false') {
+      try {
+        await new Migrator(db, MIGRATIONS).migrate();
+      } catch (error) {
+        await db.close().catch(() => undefined);
+        throw error;
+      }
+    }
+
     logger.info('Database initialized successfully');
     return db;
-  } catch (error) {
+  } catch (error: any) {
     logger.error('Database initialization failed:', error);
 
     if (retries > 0) {
@@ -556,7 +969,7 @@ async function initDatabase(retries = 3, delay = 1000): Promise<IDBPDatabase<Ryz
  * Get the database instance with connection pooling and proper synchronization
  * @returns Database instance
  */
-export const getDatabase = async (): Promise<IDBPDatabase<RyzerWalletDB>> => {
+export const getDatabase = async (): Promise<WalletDatabase> => {
   // Return existing instance if available
   if (dbInstance) {
     return dbInstance;
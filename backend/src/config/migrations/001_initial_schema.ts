@@ -0,0 +1,22 @@
+import { STORE_DEFINITIONS } from '../storage';
+import { Migration } from './types';
+
+/**
+ * Creates the baseline object stores and indexes
+ */
+export const initialSchema: Migration = {
+  name: '001_initial_schema',
+  description: 'Create baseline wallet stores and indexes',
+
+  async up({ schema }) {
+    for (const store of STORE_DEFINITIONS) {
+      await schema.createStore(store);
+    }
+  },
+
+  async down({ schema }) {
+    for (const store of [...STORE_DEFINITIONS].reverse()) {
+      await schema.dropStore(store.name);
+    }
+  },
+};
@@ -0,0 +1,39 @@
+import { Migration } from './types';
+
+// Tenant assigned to cross-chain transactions created before tenants were tracked
+const DEFAULT_TENANT_ID = process.env.TENANT_ID || 'default';
+
+/**
+ * Adds the tenant index to cross-chain transactions and backfills `tenantId`
+ */
+export const crossChainTenantId: Migration = {
+  name: '002_cross_chain_tenant_id',
+  description: 'Index crossChainTransactions by tenant and backfill missing tenantId',
+
+  async up({ db, schema }) {
+    await schema.createIndex('crossChainTransactions', { name: 'by-tenantId', keyPath: 'tenantId' });
+
+    const transactions = await db.getAll('crossChainTransactions');
+    for (const transaction of transactions) {
+      if (!transaction.tenantId) {
+        await db.put('crossChainTransactions', {
+          ...transaction,
+          tenantId: DEFAULT_TENANT_ID,
+          tenantIdBackfilled: true,
+        });
+      }
+    }
+  },
+
+  async down({ db, schema }) {
+    const transactions = await db.getAll('crossChainTransactions');
+    for (const transaction of transactions) {
+      if (transaction.tenantIdBackfilled) {
+        const { tenantId, tenantIdBackfilled, ...original } = transaction;
+        await db.put('crossChainTransactions', original);
+      }
+    }
+
+    await schema.dropIndex('crossChainTransactions', 'by-tenantId');
+  },
+};
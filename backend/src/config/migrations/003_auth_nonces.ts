@@ -0,0 +1,21 @@
+import { Migration } from './types';
+
+/**
+ * Adds the store holding single-use Sign-In with Ethereum nonces
+ */
+export const authNonces: Migration = {
+  name: '003_auth_nonces',
+  description: 'Create auth_nonces store for Sign-In with Ethereum',
+
+  async up({ schema }) {
+    await schema.createStore({
+      name: 'auth_nonces',
+      keyPath: 'nonce',
+      indexes: [{ name: 'by-expiresAt', keyPath: 'expiresAt' }],
+    });
+  },
+
+  async down({ schema }) {
+    await schema.dropStore('auth_nonces');
+  },
+};
@@ -0,0 +1,33 @@
+import { Migration } from './types';
+
+/**
+ * Adds the session registry and the rotating refresh tokens issued to each session
+ */
+export const authSessions: Migration = {
+  name: '004_auth_sessions',
+  description: 'Create auth_sessions and refresh_tokens stores',
+
+  async up({ schema }) {
+    await schema.createStore({
+      name: 'auth_sessions',
+      keyPath: 'id',
+      indexes: [
+        { name: 'by-user', keyPath: 'userId' },
+        { name: 'by-expiresAt', keyPath: 'expiresAt' },
+      ],
+    });
+    await schema.createStore({
+      name: 'refresh_tokens',
+      keyPath: 'tokenHash',
+      indexes: [
+        { name: 'by-session', keyPath: 'sessionId' },
+        { name: 'by-expiresAt', keyPath: 'expiresAt' },
+      ],
+    });
+  },
+
+  async down({ schema }) {
+    await schema.dropStore('refresh_tokens');
+    await schema.dropStore('auth_sessions');
+  },
+};
@@ -0,0 +1,24 @@
+import { Migration } from './types';
+
+/**
+ * Adds the store holding hashed, scoped API keys
+ */
+export const apiKeys: Migration = {
+  name: '005_api_keys',
+  description: 'Create api_keys store',
+
+  async up({ schema }) {
+    await schema.createStore({
+      name: 'api_keys',
+      keyPath: 'id',
+      indexes: [
+        { name: 'by-tenant', keyPath: 'tenantId' },
+        { name: 'by-status', keyPath: 'status' },
+      ],
+    });
+  },
+
+  async down({ schema }) {
+    await schema.dropStore('api_keys');
+  },
+};
@@ -0,0 +1,30 @@
+import { Migration } from './types';
+
+/**
+ * Adds the stores holding MFA configurations and pending MFA sessions
+ */
+export const mfa: Migration = {
+  name: '006_mfa',
+  description: 'Create mfa_configs and mfa_sessions stores',
+
+  async up({ schema }) {
+    await schema.createStore({
+      name: 'mfa_configs',
+      keyPath: 'userId',
+    });
+
+    await schema.createStore({
+      name: 'mfa_sessions',
+      keyPath: 'id',
+      indexes: [
+        { name: 'by-user', keyPath: 'userId' },
+        { name: 'by-expiresAt', keyPath: 'expiresAt' },
+      ],
+    });
+  },
+
+  async down({ schema }) {
+    await schema.dropStore('mfa_sessions');
+    await schema.dropStore('mfa_configs');
+  },
+};
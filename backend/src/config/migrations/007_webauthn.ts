@@ -0,0 +1,43 @@
+import { Migration } from './types';
+
+/**
+ * Adds the stores holding WebAuthn credentials and pending ceremony challenges.
+ * Hardware keys registered before this migration carried no verifiable public
+ * key and are removed from MFA configurations.
+ */
+export const webauthn: Migration = {
+  name: '007_webauthn',
+  description: 'Create webauthn_credentials and webauthn_challenges stores',
+
+  async up({ db, schema }) {
+    await schema.createStore({
+      name: 'webauthn_credentials',
+      keyPath: 'id',
+      indexes: [{ name: 'by-user', keyPath: 'userId' }],
+    });
+
+    await schema.createStore({
+      name: 'webauthn_challenges',
+      keyPath: 'challenge',
+      indexes: [{ name: 'by-expiresAt', keyPath: 'expiresAt' }],
+    });
+
+    const configs = await db.getAll('mfa_configs');
+    for (const config of configs) {
+      if ('hardwareKeys' in config) {
+        const { hardwareKeys, ...rest } = config as typeof config & { hardwareKeys: unknown };
+        await db.put('mfa_configs', rest);
+      }
+    }
+  },
+
+  async down({ db, schema }) {
+    const configs = await db.getAll('mfa_configs');
+    for (const config of configs) {
+      await db.put('mfa_configs', { ...config, hardwareKeys: [] } as typeof config);
+    }
+
+    await schema.dropStore('webauthn_challenges');
+    await schema.dropStore('webauthn_credentials');
+  },
+};
@@ -0,0 +1,27 @@
+import { Migration } from './types';
+
+/**
+ * Adds the stores holding threshold keys and their encrypted shares
+ */
+export const tssKeys: Migration = {
+  name: '008_tss_keys',
+  description: 'Create tss_keys and tss_key_shares stores',
+
+  async up({ schema }) {
+    await schema.createStore({
+      name: 'tss_keys',
+      keyPath: 'walletId',
+    });
+
+    await schema.createStore({
+      name: 'tss_key_shares',
+      keyPath: 'id',
+      indexes: [{ name: 'by-wallet', keyPath: 'walletId' }],
+    });
+  },
+
+  async down({ schema }) {
+    await schema.dropStore('tss_key_shares');
+    await schema.dropStore('tss_keys');
+  },
+};
@@ -0,0 +1,33 @@
+import { Migration } from './types';
+
+/**
+ * Adds the stores holding wrapped data encryption keys and key rotation jobs.
+ * Existing ciphertexts keep the legacy format and stay readable with
+ * ENCRYPTION_MASTER_KEY until a re-encryption job moves them to data keys.
+ */
+export const encryptionKeys: Migration = {
+  name: '009_encryption_keys',
+  description: 'Create encryption_keys and encryption_jobs stores',
+
+  async up({ schema }) {
+    await schema.createStore({
+      name: 'encryption_keys',
+      keyPath: 'id',
+      indexes: [
+        { name: 'by-scope', keyPath: 'scope' },
+        { name: 'by-root-key', keyPath: 'rootKeyId' },
+      ],
+    });
+
+    await schema.createStore({
+      name: 'encryption_jobs',
+      keyPath: 'id',
+      indexes: [{ name: 'by-status', keyPath: 'status' }],
+    });
+  },
+
+  async down({ schema }) {
+    await schema.dropStore('encryption_jobs');
+    await schema.dropStore('encryption_keys');
+  },
+};
@@ -0,0 +1,17 @@
+import { Migration } from './types';
+
+/**
+ * Indexes HSM key metadata by tenant
+ */
+export const hsmKeyTenant: Migration = {
+  name: '010_hsm_key_tenant',
+  description: 'Index hsm_keys by tenant',
+
+  async up({ schema }) {
+    await schema.createIndex('hsm_keys', { name: 'by-tenant', keyPath: 'tenantId' });
+  },
+
+  async down({ schema }) {
+    await schema.dropIndex('hsm_keys', 'by-tenant');
+  },
+};
@@ -0,0 +1,32 @@
+import { Migration } from './types';
+
+/**
+ * Adds the stores holding single-use attestation nonces and verified enclave
+ * attestations
+ */
+export const teeAttestation: Migration = {
+  name: '011_tee_attestation',
+  description: 'Create attestation_nonces and tee_attestations stores',
+
+  async up({ schema }) {
+    await schema.createStore({
+      name: 'attestation_nonces',
+      keyPath: 'nonce',
+      indexes: [{ name: 'by-expiresAt', keyPath: 'expiresAt' }],
+    });
+
+    await schema.createStore({
+      name: 'tee_attestations',
+      keyPath: 'id',
+      indexes: [
+        { name: 'by-measurement', keyPath: 'measurement' },
+        { name: 'by-expiresAt', keyPath: 'expiresAt' },
+      ],
+    });
+  },
+
+  async down({ schema }) {
+    await schema.dropStore('tee_attestations');
+    await schema.dropStore('attestation_nonces');
+  },
+};
@@ -0,0 +1,38 @@
+import { Migration } from './types';
+
+/**
+ * Adds the intrusion detection event store, per-tenant rule sets and account
+ * lockouts
+ */
+export const securityEvents: Migration = {
+  name: '012_security_events',
+  description: 'Create security_events, security_rule_sets and security_lockouts stores',
+
+  async up({ schema }) {
+    await schema.createStore({
+      name: 'security_events',
+      keyPath: 'id',
+      indexes: [
+        { name: 'by-user', keyPath: ['tenantId', 'userId', 'timestamp'] },
+        { name: 'by-tenant', keyPath: ['tenantId', 'timestamp'] },
+        { name: 'by-timestamp', keyPath: 'timestamp' },
+      ],
+    });
+
+    await schema.createStore({
+      name: 'security_rule_sets',
+      keyPath: 'tenantId',
+    });
+
+    await schema.createStore({
+      name: 'security_lockouts',
+      keyPath: 'id',
+    });
+  },
+
+  async down({ schema }) {
+    await schema.dropStore('security_lockouts');
+    await schema.dropStore('security_rule_sets');
+    await schema.dropStore('security_events');
+  },
+};
@@ -0,0 +1,25 @@
+import { Migration } from './types';
+
+/**
+ * Adds the security incident store, in which detections and emergency
+ * lockdowns are grouped for analysts to review
+ */
+export const securityIncidents: Migration = {
+  name: '013_security_incidents',
+  description: 'Create security_incidents store',
+
+  async up({ schema }) {
+    await schema.createStore({
+      name: 'security_incidents',
+      keyPath: 'id',
+      indexes: [
+        { name: 'by-user', keyPath: ['tenantId', 'userId', 'lastEventAt'] },
+        { name: 'by-tenant', keyPath: ['tenantId', 'openedAt'] },
+      ],
+    });
+  },
+
+  async down({ schema }) {
+    await schema.dropStore('security_incidents');
+  },
+};
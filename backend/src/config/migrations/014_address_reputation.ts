@@ -0,0 +1,28 @@
+import { Migration } from './types';
+
+/**
+ * Adds the contract metadata cache of the indexer and the per-tenant address
+ * allow and deny lists used to score transaction destinations
+ */
+export const addressReputation: Migration = {
+  name: '014_address_reputation',
+  description: 'Create contract_info and address_lists stores',
+
+  async up({ schema }) {
+    await schema.createStore({
+      name: 'contract_info',
+      keyPath: 'id',
+    });
+
+    await schema.createStore({
+      name: 'address_lists',
+      keyPath: 'id',
+      indexes: [{ name: 'by-tenant', keyPath: ['tenantId', 'addedAt'] }],
+    });
+  },
+
+  async down({ schema }) {
+    await schema.dropStore('address_lists');
+    await schema.dropStore('contract_info');
+  },
+};
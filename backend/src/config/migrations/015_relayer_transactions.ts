@@ -0,0 +1,32 @@
+import { Migration } from './types';
+
+/**
+ * Adds the nonce sequence of each relayer account and the transactions the
+ * relayer has sent, which are watched until mined and replaced when stuck
+ */
+export const relayerTransactions: Migration = {
+  name: '015_relayer_transactions',
+  description: 'Create relayer_nonces and relayer_transactions stores',
+
+  async up({ schema }) {
+    await schema.createStore({
+      name: 'relayer_nonces',
+      keyPath: 'id',
+    });
+
+    await schema.createStore({
+      name: 'relayer_transactions',
+      keyPath: 'id',
+      indexes: [
+        { name: 'by-account', keyPath: ['chainId', 'from', 'nonce'] },
+        { name: 'by-status', keyPath: ['status', 'createdAt'] },
+        { name: 'by-hash', keyPath: 'hash' },
+      ],
+    });
+  },
+
+  async down({ schema }) {
+    await schema.dropStore('relayer_transactions');
+    await schema.dropStore('relayer_nonces');
+  },
+};
@@ -0,0 +1,22 @@
+import { Migration } from './types';
+
+/**
+ * Adds the ERC-2771 forward requests the relayer has accepted, keyed by
+ * forwarder, signer and nonce so a signed request is relayed only once
+ */
+export const metaTransactions: Migration = {
+  name: '016_meta_transactions',
+  description: 'Create meta_transactions store',
+
+  async up({ schema }) {
+    await schema.createStore({
+      name: 'meta_transactions',
+      keyPath: 'id',
+      indexes: [{ name: 'by-signer', keyPath: ['chainId', 'forwarder', 'from', 'nonce'] }],
+    });
+  },
+
+  async down({ schema }) {
+    await schema.dropStore('meta_transactions');
+  },
+};
@@ -0,0 +1,64 @@
+import { Migration } from './types';
+
+/**
+ * Makes queued transactions and batches a durable job queue: transactions get
+ * a status, attempt count and retry time, batches a lease. Unfinished batches
+ * of earlier runs get an expired lease, so the next worker reconciles them;
+ * transactions of failed batches are queued again.
+ */
+export const batchingQueue: Migration = {
+  name: '017_batching_queue',
+  description: 'Index pendingTransactions by queue and batches by lease, and backfill queue fields',
+
+  async up({ db, schema }) {
+    await schema.createIndex('pendingTransactions', { name: 'by-queue', keyPath: ['chainId', 'status', 'availableAt'] });
+    await schema.createIndex('batches', { name: 'by-lease', keyPath: ['status', 'leaseExpiresAt'] });
+
+    const batches = await db.getAll('batches');
+    const batchOf = new Map<string, (typeof batches)[number]>();
+    for (const batch of batches) {
+      batch.transactions.forEach(txId => batchOf.set(txId, batch));
+      if (batch.updatedAt === undefined) {
+        await db.put('batches', {
+          ...batch,
+          walletAddress: batch.walletAddress || '',
+          updatedAt: batch.executedAt || batch.createdAt,
+          leaseExpiresAt: 0,
+        });
+      }
+    }
+
+    const transactions = await db.getAll('pendingTransactions');
+    for (const transaction of transactions) {
+      if (transaction.status === undefined) {
+        const batch = batchOf.get(transaction.id);
+        await db.put('pendingTransactions', {
+          ...transaction,
+          status: !batch || batch.status === 'failed' ? 'queued' : batch.status === 'completed' ? 'completed' : 'batched',
+          attempts: batch ? 1 : 0,
+          availableAt: transaction.timestamp,
+          batchId: batch?.id,
+          lastError: batch?.error,
+          updatedAt: transaction.timestamp,
+        });
+      }
+    }
+  },
+
+  async down({ db, schema }) {
+    const transactions = await db.getAll('pendingTransactions');
+    for (const transaction of transactions) {
+      const { idempotencyKey, status, attempts, availableAt, batchId, lastError, updatedAt, ...original } = transaction;
+      await db.put('pendingTransactions', original as typeof transaction);
+    }
+
+    const batches = await db.getAll('batches');
+    for (const batch of batches) {
+      const { updatedAt, leaseOwner, leaseExpiresAt, broadcastAt, ...original } = batch;
+      await db.put('batches', original as typeof batch);
+    }
+
+    await schema.dropIndex('batches', 'by-lease');
+    await schema.dropIndex('pendingTransactions', 'by-queue');
+  },
+};
@@ -0,0 +1,18 @@
+import { Migration } from './types';
+
+/**
+ * Adds the store holding the rate limit window of each API key, so every
+ * backend replica counts against the same limit
+ */
+export const apiKeyRateLimits: Migration = {
+  name: '018_api_key_rate_limits',
+  description: 'Create api_key_rate_limits store',
+
+  async up({ schema }) {
+    await schema.createStore({ name: 'api_key_rate_limits', keyPath: 'apiKeyId' });
+  },
+
+  async down({ schema }) {
+    await schema.dropStore('api_key_rate_limits');
+  },
+};
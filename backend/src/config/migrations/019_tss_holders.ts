@@ -0,0 +1,18 @@
+import { Migration } from './types';
+
+/**
+ * Adds the store of share holders: which node holds each share index and
+ * the key sub-shares are encrypted to
+ */
+export const tssHolders: Migration = {
+  name: '019_tss_holders',
+  description: 'Create tss_holders store',
+
+  async up({ schema }) {
+    await schema.createStore({ name: 'tss_holders', keyPath: 'index' });
+  },
+
+  async down({ schema }) {
+    await schema.dropStore('tss_holders');
+  },
+};
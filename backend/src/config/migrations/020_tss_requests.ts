@@ -0,0 +1,22 @@
+import { Migration } from './types';
+
+/**
+ * Adds the store of authorized TSS requests: every signing and dealing
+ * session is bound to one, and nodes only take part in sessions that match
+ */
+export const tssRequests: Migration = {
+  name: '020_tss_requests',
+  description: 'Create tss_requests store',
+
+  async up({ schema }) {
+    await schema.createStore({
+      name: 'tss_requests',
+      keyPath: 'id',
+      indexes: [{ name: 'by-expiresAt', keyPath: 'expiresAt' }],
+    });
+  },
+
+  async down({ schema }) {
+    await schema.dropStore('tss_requests');
+  },
+};
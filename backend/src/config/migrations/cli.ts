@@ -0,0 +1,78 @@
+import dotenv from 'dotenv';
+import { logger } from '../../utils/logger';
+import type { WalletDatabase } from '../database';
+import { createStorageAdapter, getStorageConfig } from '../storage';
+import { Migrator, MIGRATIONS } from './index';
+
+dotenv.config();
+
+const USAGE = `Usage: migrate <command> [options]
+
+Commands:
+  up [--to <name>]                  Apply pending migrations (optionally up to <name>)
+  list                              List migrations and their status
+  rollback [--steps <n> | --to <name>]
+                                    Roll back the last batch, <n> migrations, or down to <name>`;
+
+/**
+ * Read the value of a command-line option
+ * @param args Command-line arguments
+ * @param name Option name
+ * @returns Option value or undefined
+ */
+const readOption = (args: string[], name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 ? args[index + 1] : undefined;
+};
+
+/**
+ * Run the migration command line interface
+ * @param args Command-line arguments
+ */
+const run = async (args: string[]): Promise<void> => {
+  const [command, ...options] = args;
+  if (!command || !['up', 'list', 'rollback'].includes(command)) {
+    console.log(USAGE);
+    process.exitCode = command ? 1 : 0;
+    return;
+  }
+
+  const db = (await createStorageAdapter(getStorageConfig())) as WalletDatabase;
+  const migrator = new Migrator(db, MIGRATIONS);
+
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await migrator.migrate({ to: readOption(options, 'to') });
+        console.log(applied.length > 0 ? `Applied: ${applied.join(', ')}` : 'Nothing to migrate');
+        break;
+      }
+      case 'list': {
+        const statuses = await migrator.status();
+        for (const status of statuses) {
+          const state = status.applied
+            ? `applied (batch ${status.batch}, ${new Date(status.appliedAt!).toISOString()})`
+            : 'pending';
+          console.log(`${status.name.padEnd(40)} ${state}  ${status.description}`);
+        }
+        break;
+      }
+      case 'rollback': {
+        const steps = readOption(options, 'steps');
+        const rolledBack = await migrator.rollback({
+          steps: steps !== undefined ? parseInt(steps, 10) : undefined,
+          to: readOption(options, 'to'),
+        });
+        console.log(rolledBack.length > 0 ? `Rolled back: ${rolledBack.join(', ')}` : 'Nothing to roll back');
+        break;
+      }
+    }
+  } finally {
+    await db.close();
+  }
+};
+
+run(process.argv.slice(2)).catch(error => {
+  logger.error('Migration command failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,30 @@
+import { initialSchema } from './001_initial_schema';
+import { crossChainTenantId } from './002_cross_chain_tenant_id';
+import { authNonces } from './003_auth_nonces';
+import { authSessions } from './004_auth_sessions';
+import { apiKeys } from './005_api_keys';
+import { mfa } from './006_mfa';
+import { webauthn } from './007_webauthn';
+import { tssKeys } from './008_tss_keys';
+import { encryptionKeys } from './009_encryption_keys';
+import { hsmKeyTenant } from './010_hsm_key_tenant';
+import { teeAttestation } from './011_tee_attestation';
+import { securityEvents } from './012_security_events';
+import { securityIncidents } from './013_security_incidents';
+import { addressReputation } from './014_address_reputation';
+import { relayerTransactions } from './015_relayer_transactions';
+import { metaTransactions } from './016_meta_transactions';
+import { batchingQueue } from './017_batching_queue';
+import { apiKeyRateLimits } from './018_api_key_rate_limits';
+import { tssHolders } from './019_tss_holders';
+import { tssRequests } from './020_tss_requests';
+import { Migration } from './types';
+
+export * from './types';
+export { Migrator, MIGRATIONS_STORE } from './migrator';
+
+/**
+ * Registered migrations, applied in this order.
+ * Append new migrations to the end; never reorder or rename applied ones.
+ */
+export const MIGRATIONS: Migration[] = [initialSchema, crossChainTenantId, authNonces, authSessions, apiKeys, mfa, webauthn, tssKeys, encryptionKeys, hsmKeyTenant, teeAttestation, securityEvents, securityIncidents, addressReputation, relayerTransactions, metaTransactions, batchingQueue, apiKeyRateLimits, tssHolders, tssRequests];
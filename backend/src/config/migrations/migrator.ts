@@ -0,0 +1,182 @@
+import { logger } from '../../utils/logger';
+import type { WalletDatabase } from '../database';
+import { Migration, MigrationContext, MigrationRecord, MigrationStatus } from './types';
+
+// Store holding applied migrations
+export const MIGRATIONS_STORE = 'schema_migrations';
+
+// Lock held while migrations run so only one replica applies them
+const MIGRATION_LOCK = 'ryzer_wallet_migrations';
+
+/**
+ * Runs ordered schema and data migrations against any storage adapter
+ */
+export class Migrator {
+  private context: MigrationContext;
+
+  constructor(private readonly db: WalletDatabase, private readonly migrations: Migration[]) {
+    this.validateMigrations(migrations);
+    this.context = {
+      db,
+      schema: {
+        createStore: store => db.applySchemaChanges([{ type: 'createStore', store }]),
+        dropStore: name => db.applySchemaChanges([{ type: 'dropStore', name }]),
+        createIndex: (store, index) => db.applySchemaChanges([{ type: 'createIndex', store, index }]),
+        dropIndex: (store, name) => db.applySchemaChanges([{ type: 'dropIndex', store, name }]),
+        hasStore: name => db.hasStore(name),
+      },
+    };
+  }
+
+  /**
+   * Validates that migration names are unique
+   * @param migrations Migrations in order
+   * @throws Error if a name is duplicated
+   */
+  private validateMigrations(migrations: Migration[]): void {
+    const names = new Set<string>();
+    for (const migration of migrations) {
+      if (names.has(migration.name)) {
+        throw new Error(`Duplicate migration name: ${migration.name}`);
+      }
+      names.add(migration.name);
+    }
+  }
+
+  /**
+   * Creates the migrations store if it does not exist yet
+   */
+  private async ensureMigrationsStore(): Promise<void> {
+    if (!this.db.hasStore(MIGRATIONS_STORE)) {
+      await this.db.applySchemaChanges([
+        {
+          type: 'createStore',
+          store: { name: MIGRATIONS_STORE, keyPath: 'name' },
+        },
+      ]);
+    }
+  }
+
+  /**
+   * Gets applied migration records
+   * @returns Applied migrations keyed by name
+   * @throws Error if an applied migration is no longer known
+   */
+  private async getAppliedMigrations(): Promise<Map<string, MigrationRecord>> {
+    const records = (await this.db.getAll(MIGRATIONS_STORE)) as MigrationRecord[];
+    const known = new Set(this.migrations.map(migration => migration.name));
+
+    for (const record of records) {
+      if (!known.has(record.name)) {
+        throw new Error(`Applied migration ${record.name} is missing from the migration list`);
+      }
+    }
+
+    return new Map(records.map(record => [record.name, record]));
+  }
+
+  /**
+   * Lists every known migration and whether it has been applied
+   * @returns Migration statuses in order
+   */
+  public async status(): Promise<MigrationStatus[]> {
+    await this.ensureMigrationsStore();
+    const applied = await this.getAppliedMigrations();
+
+    return this.migrations.map(migration => {
+      const record = applied.get(migration.name);
+      return {
+        name: migration.name,
+        description: migration.description,
+        applied: !!record,
+        batch: record?.batch,
+        appliedAt: record?.appliedAt,
+      };
+    });
+  }
+
+  /**
+   * Applies pending migrations in order
+   * @param options.to Name of the last migration to apply
+   * @returns Names of the applied migrations
+   */
+  public async migrate(options: { to?: string } = {}): Promise<string[]> {
+    if (options.to && !this.migrations.some(migration => migration.name === options.to)) {
+      throw new Error(`Unknown migration: ${options.to}`);
+    }
+
+    return this.db.withExclusiveLock(MIGRATION_LOCK, async () => {
+      // Another replica may have migrated while we waited for the lock
+      await this.db.refreshSchema();
+      await this.ensureMigrationsStore();
+      const applied = await this.getAppliedMigrations();
+      const batch = Math.max(0, ...Array.from(applied.values()).map(record => record.batch)) + 1;
+      const appliedNow: string[] = [];
+
+      for (const migration of this.migrations) {
+        if (!applied.has(migration.name)) {
+          logger.info(`Applying migration ${migration.name}: ${migration.description}`);
+          await migration.up(this.context);
+
+          const record: MigrationRecord = { name: migration.name, batch, appliedAt: Date.now() };
+          await this.db.put(MIGRATIONS_STORE, record);
+          appliedNow.push(migration.name);
+        }
+
+        if (migration.name === options.to) {
+          break;
+        }
+      }
+
+      if (appliedNow.length > 0) {
+        logger.info(`Applied ${appliedNow.length} migration(s) in batch ${batch}`);
+      } else {
+        logger.info('Database schema is up to date');
+      }
+
+      return appliedNow;
+    });
+  }
+
+  /**
+   * Rolls back applied migrations in reverse order.
+   * Without options, the most recent batch is rolled back.
+   * @param options.steps Number of migrations to roll back
+   * @param options.to Name of the migration to roll back to (it stays applied)
+   * @returns Names of the rolled back migrations
+   */
+  public async rollback(options: { steps?: number; to?: string } = {}): Promise<string[]> {
+    if (options.to && !this.migrations.some(migration => migration.name === options.to)) {
+      throw new Error(`Unknown migration: ${options.to}`);
+    }
+
+    return this.db.withExclusiveLock(MIGRATION_LOCK, async () => {
+      await this.db.refreshSchema();
+      await this.ensureMigrationsStore();
+      const applied = await this.getAppliedMigrations();
+      const appliedInOrder = this.migrations.filter(migration => applied.has(migration.name)).reverse();
+
+      let targets: Migration[];
+      if (options.to) {
+        const index = appliedInOrder.findIndex(migration => migration.name === options.to);
+        targets = index === -1 ? [] : appliedInOrder.slice(0, index);
+      } else if (options.steps !== undefined) {
+        targets = appliedInOrder.slice(0, options.steps);
+      } else {
+        const lastBatch = Math.max(0, ...Array.from(applied.values()).map(record => record.batch));
+        targets = appliedInOrder.filter(migration => applied.get(migration.name)!.batch === lastBatch);
+      }
+
+      const rolledBack: string[] = [];
+      for (const migration of targets) {
+        logger.info(`Rolling back migration ${migration.name}`);
+        await migration.down(this.context);
+        await this.db.delete(MIGRATIONS_STORE, migration.name);
+        rolledBack.push(migration.name);
+      }
+
+      logger.info(`Rolled back ${rolledBack.length} migration(s)`);
+      return rolledBack;
+    });
+  }
+}
@@ -0,0 +1,52 @@
+import type { WalletDatabase } from '../database';
+import { IndexDefinition, StoreDefinition } from '../storage';
+
+/**
+ * Schema operations available to migrations
+ */
+export interface SchemaOperations {
+  createStore(store: StoreDefinition): Promise<void>;
+  dropStore(name: string): Promise<void>;
+  createIndex(store: string, index: IndexDefinition): Promise<void>;
+  dropIndex(store: string, name: string): Promise<void>;
+  hasStore(name: string): boolean;
+}
+
+/**
+ * Context passed to migration steps
+ */
+export interface MigrationContext {
+  db: WalletDatabase;
+  schema: SchemaOperations;
+}
+
+/**
+ * Migration definition.
+ * `up` and `down` must be safe to re-run if a previous attempt was interrupted.
+ */
+export interface Migration {
+  name: string;
+  description: string;
+  up(context: MigrationContext): Promise<void>;
+  down(context: MigrationContext): Promise<void>;
+}
+
+/**
+ * Applied migration record stored in the `schema_migrations` store
+ */
+export interface MigrationRecord {
+  name: string;
+  batch: number;
+  appliedAt: number;
+}
+
+/**
+ * Migration status reported by `Migrator.status()`
+ */
+export interface MigrationStatus {
+  name: string;
+  description: string;
+  applied: boolean;
+  batch?: number;
+  appliedAt?: number;
+}
@@ -1,80 +1,189 @@
-// Network configuration
-export interface NetworkConfig {
-  name: string;
-  rpcUrl: string;
+// ERC-4337 EntryPoint versions
+export type EntryPointVersion = '0.6' | '0.7';
+
+// Well-known EntryPoint deployments
+export const ENTRYPOINT_ADDRESSES: Record<EntryPointVersion, string> = {
+  '0.6': '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789',
+  '0.7': '0x0000000071727De22E5E9d8BAf0edAc6f37da032',
+};
+
+// EIP-712 domain name of a trusted forwarder that names none
+export const DEFAULT_FORWARDER_NAME = 'ERC2771Forwarder';
+
+// Well-known Multicall3 deployment, at the same address on most chains
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+// Chain configuration held by the chain registry
+export interface ChainConfig {
   chainId: number;
+  name: string;
+  testnet?: boolean;
   nativeCurrency: {
     name: string;
     symbol: string;
     decimals: number;
   };
-  blockExplorerUrl: string;
-  pimlicoApiKey?: string;
-  entryPoint?: string;
+  rpcUrls: string[]; // In order of preference; later URLs are fallbacks
+  blockTime: number; // Average block time in seconds
+  confirmations: number; // Confirmations until a block is considered final
+  entryPoint?: {
+    address: string;
+    version: EntryPointVersion;
+  };
+  bundlerUrl?: string;
+  paymasterUrl?: string;
+  // Bundle user operations with the built-in bundler instead of bundlerUrl
+  localBundler?: {
+    beneficiary?: string; // Receives the bundle fees; defaults to the relayer address
+    bundleIntervalMs?: number;
+    maxBundleSize?: number;
+    minStake?: string; // Wei a factory or paymaster must stake to count as staked
+    minUnstakeDelay?: number; // Seconds
+    unsafe?: boolean; // Skip the opcode and storage rules, for nodes without debug_traceCall
+  };
+  // ERC-2771 forwarder that meta-transactions are relayed through
+  trustedForwarder?: {
+    address: string;
+    name: string; // EIP-712 domain name the forwarder was deployed with
+  };
+  multicall?: string; // Multicall3 contract batches are simulated with; MULTICALL3_ADDRESS if unset
+  // Balances of the relayer accounts, in wei
+  relayerPool?: {
+    minBalance?: string; // Accounts below it are not selected and are topped up from the treasury
+    topUpAmount?: string; // Defaults to twice minBalance
+  };
+  alchemy?: {
+    network: string; // alchemy-sdk Network value, e.g. 'eth-mainnet'
+    apiKey?: string;
+  };
+  explorer?: {
+    url: string;
+    txUrl: string; // Template with {hash}
+    addressUrl: string; // Template with {address}
+    apiUrl?: string; // Etherscan-compatible API, queried for contract creation and verification
+    apiKey?: string;
+  };
+  tokens?: Record<string, { symbol: string; decimals: number }>;
 }
 
-// Supported networks
-export const SUPPORTED_NETWORKS: Record<string, NetworkConfig> = {
-  '1': {
-    name: 'Ethereum Mainnet',
-    rpcUrl: process.env.ETH_MAINNET_RPC_URL || 'https://eth-mainnet.g.alchemy.com/v2/your-api-key',
+/**
+ * Build explorer URL templates for an Etherscan-style explorer. Contract
+ * metadata comes from the multichain Etherscan API when `ETHERSCAN_API_KEY` is set.
+ * @param url Explorer base URL
+ * @returns Explorer configuration
+ */
+const etherscanExplorer = (url: string): ChainConfig['explorer'] => ({
+  url,
+  txUrl: `${url}/tx/{hash}`,
+  addressUrl: `${url}/address/{address}`,
+  ...(process.env.ETHERSCAN_API_KEY
+    ? { apiUrl: 'https://api.etherscan.io/v2/api', apiKey: process.env.ETHERSCAN_API_KEY }
+    : {}),
+});
+
+/**
+ * Build a Pimlico bundler URL when an API key is configured
+ * @param chainId Chain ID
+ * @param apiKey Pimlico API key
+ * @returns Bundler URL or undefined
+ */
+const pimlicoUrl = (chainId: number, apiKey?: string): string | undefined =>
+  apiKey ? `https://api.pimlico.io/v2/${chainId}/rpc?apikey=${apiKey}` : undefined;
+
+/**
+ * Drop RPC URLs that are not configured
+ * @param urls Candidate URLs
+ * @returns Configured URLs
+ */
+const rpcUrls = (...urls: (string | undefined)[]): string[] => urls.filter((url): url is string => !!url);
+
+/**
+ * Built-in chains, used when no chain registry file is configured
+ * (see `CHAIN_REGISTRY_FILE`)
+ */
+export const DEFAULT_CHAINS: ChainConfig[] = [
+  {
     chainId: 1,
-    nativeCurrency: {
-      name: 'Ether',
-      symbol: 'ETH',
-      decimals: 18,
+    name: 'Ethereum Mainnet',
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: rpcUrls(process.env.ETH_MAINNET_RPC_URL, 'https://eth.llamarpc.com'),
+    blockTime: 12,
+    confirmations: 64,
+    entryPoint: { address: ENTRYPOINT_ADDRESSES['0.6'], version: '0.6' },
+    bundlerUrl: pimlicoUrl(1, process.env.PIMLICO_API_KEY_MAINNET || process.env.PIMLICO_API_KEY),
+    alchemy: { network: 'eth-mainnet', apiKey: process.env.ALCHEMY_ETH_API_KEY },
+    explorer: etherscanExplorer('https://etherscan.io'),
+    tokens: {
+      '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48': { symbol: 'USDC', decimals: 6 },
+      '0xdac17f958d2ee523a2206206994597c13d831ec7': { symbol: 'USDT', decimals: 6 },
     },
-    blockExplorerUrl: 'https://etherscan.io',
-    pimlicoApiKey: process.env.PIMLICO_API_KEY_MAINNET,
-    entryPoint: '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789',
   },
-  '137': {
-    name: 'Polygon Mainnet',
-    rpcUrl: process.env.POLYGON_MAINNET_RPC_URL || 'https://polygon-mainnet.g.alchemy.com/v2/your-api-key',
+  {
     chainId: 137,
-    nativeCurrency: {
-      name: 'MATIC',
-      symbol: 'MATIC',
-      decimals: 18,
-    },
-    blockExplorerUrl: 'https://polygonscan.com',
-    pimlicoApiKey: process.env.PIMLICO_API_KEY_POLYGON,
-    entryPoint: '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789',
+    name: 'Polygon Mainnet',
+    nativeCurrency: { name: 'MATIC', symbol: 'MATIC', decimals: 18 },
+    rpcUrls: rpcUrls(process.env.POLYGON_MAINNET_RPC_URL, 'https://polygon-rpc.com'),
+    blockTime: 2,
+    confirmations: 128,
+    entryPoint: { address: ENTRYPOINT_ADDRESSES['0.6'], version: '0.6' },
+    bundlerUrl: pimlicoUrl(137, process.env.PIMLICO_API_KEY_POLYGON || process.env.PIMLICO_API_KEY),
+    alchemy: { network: 'polygon-mainnet', apiKey: process.env.ALCHEMY_POLYGON_API_KEY },
+    explorer: etherscanExplorer('https://polygonscan.com'),
   },
-  '56': {
-    name: 'Binance Smart Chain',
-    rpcUrl: process.env.BSC_MAINNET_RPC_URL || 'https://bsc-dataseed.binance.org',
+  {
     chainId: 56,
-    nativeCurrency: {
-      name: 'BNB',
-      symbol: 'BNB',
-      decimals: 18,
-    },
-    blockExplorerUrl: 'https://bscscan.com',
-    pimlicoApiKey: process.env.PIMLICO_API_KEY_BSC,
-    entryPoint: '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789',
+    name: 'BNB Smart Chain',
+    nativeCurrency: { name: 'BNB', symbol: 'BNB', decimals: 18 },
+    rpcUrls: rpcUrls(process.env.BSC_MAINNET_RPC_URL, 'https://bsc-dataseed.binance.org'),
+    blockTime: 3,
+    confirmations: 15,
+    entryPoint: { address: ENTRYPOINT_ADDRESSES['0.6'], version: '0.6' },
+    bundlerUrl: pimlicoUrl(56, process.env.PIMLICO_API_KEY_BSC || process.env.PIMLICO_API_KEY),
+    explorer: etherscanExplorer('https://bscscan.com'),
   },
-  '11155111': {
-    name: 'Sepolia Testnet',
-    rpcUrl: process.env.SEPOLIA_RPC_URL || 'https://eth-sepolia.g.alchemy.com/v2/your-api-key',
+  {
+    chainId: 43114,
+    name: 'Avalanche C-Chain',
+    nativeCurrency: { name: 'Avalanche', symbol: 'AVAX', decimals: 18 },
+    rpcUrls: rpcUrls(process.env.AVALANCHE_RPC_URL, 'https://api.avax.network/ext/bc/C/rpc'),
+    blockTime: 2,
+    confirmations: 1,
+    explorer: etherscanExplorer('https://snowtrace.io'),
+  },
+  {
+    chainId: 42161,
+    name: 'Arbitrum One',
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: rpcUrls(process.env.ARBITRUM_RPC_URL, 'https://arb1.arbitrum.io/rpc'),
+    blockTime: 1,
+    confirmations: 20,
+    alchemy: { network: 'arb-mainnet', apiKey: process.env.ALCHEMY_ARBITRUM_API_KEY },
+    explorer: etherscanExplorer('https://arbiscan.io'),
+  },
+  {
+    chainId: 10,
+    name: 'Optimism',
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: rpcUrls(process.env.OPTIMISM_RPC_URL, 'https://mainnet.optimism.io'),
+    blockTime: 2,
+    confirmations: 20,
+    alchemy: { network: 'opt-mainnet', apiKey: process.env.ALCHEMY_OPTIMISM_API_KEY },
+    explorer: etherscanExplorer('https://optimistic.etherscan.io'),
+  },
+  {
     chainId: 11155111,
-    nativeCurrency: {
-      name: 'Sepolia Ether',
-      symbol: 'ETH',
-      decimals: 18,
+    name: 'Sepolia Testnet',
+    testnet: true,
+    nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: rpcUrls(process.env.SEPOLIA_RPC_URL, 'https://rpc.sepolia.org'),
+    blockTime: 12,
+    confirmations: 12,
+    entryPoint: { address: ENTRYPOINT_ADDRESSES['0.6'], version: '0.6' },
+    bundlerUrl: pimlicoUrl(11155111, process.env.PIMLICO_API_KEY_SEPOLIA || process.env.PIMLICO_API_KEY),
+    alchemy: { network: 'eth-sepolia', apiKey: process.env.ALCHEMY_SEPOLIA_API_KEY },
+    explorer: etherscanExplorer('https://sepolia.etherscan.io'),
+    tokens: {
+      '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238': { symbol: 'USDC', decimals: 6 },
     },
-    blockExplorerUrl: 'https://sepolia.etherscan.io',
-    pimlicoApiKey: process.env.PIMLICO_API_KEY_SEPOLIA,
-    entryPoint: '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789',
   },
-};
-
-// Get network by chain ID
-export const getNetworkByChainId = (chainId: number): NetworkConfig | undefined => {
-  return SUPPORTED_NETWORKS[chainId.toString()];
-};
-
-// Get all supported chain IDs
-export const getSupportedChainIds = (): number[] => {
-  return Object.keys(SUPPORTED_NETWORKS).map(Number);
-};
+];
@@ -0,0 +1,73 @@
+import fs from 'fs';
+import { DBSchema } from 'idb';
+import { IndexedDBStorageAdapter } from './indexeddb';
+import { PostgresStorageAdapter } from './postgres';
+import { StorageAdapter, StorageConfig, StorageDriver } from './types';
+
+export * from './types';
+export { STORE_DEFINITIONS, getStoreDefinition } from './stores';
+export { PostgresStorageAdapter } from './postgres';
+export { IndexedDBStorageAdapter } from './indexeddb';
+
+/**
+ * Build the storage configuration from environment variables
+ * @returns Storage configuration
+ */
+export const getStorageConfig = (): StorageConfig => {
+  const driver = (process.env.DB_DRIVER || 'postgres') as StorageDriver;
+  if (driver !== 'postgres' && driver !== 'indexeddb') {
+    throw new Error(`Unsupported storage driver: ${driver}`);
+  }
+
+  return {
+    driver,
+    postgres: {
+      connectionString: process.env.DATABASE_URL,
+      host: process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.DB_PORT || '5432', 10),
+      database: process.env.DB_NAME || 'ryzer',
+      user: process.env.DB_USER || 'postgres',
+      password: process.env.DB_PASSWORD || '',
+      ssl: process.env.DB_SSL === 'true',
+      sslCa: process.env.DB_SSL_CA ? fs.readFileSync(process.env.DB_SSL_CA, 'utf8') : undefined,
+      maxConnections: parseInt(process.env.DB_POOL_MAX || '10', 10),
+      connectionTimeoutMs: parseInt(process.env.DB_CONNECTION_TIMEOUT_MS || '10000', 10),
+      lockTimeoutMs: parseInt(process.env.DB_LOCK_TIMEOUT_MS || '30000', 10),
+      schema: process.env.DB_SCHEMA || 'public',
+    },
+    indexedDB: {
+      name: process.env.IDB_NAME || 'ryzer-wallet',
+    },
+  };
+};
+
+/**
+ * Create and initialize the storage adapter selected by the configuration.
+ * Object stores are created by migrations (see `config/migrations`).
+ * @param config Storage configuration
+ * @param onTerminated Callback invoked when the connection is lost
+ * @returns Initialized storage adapter
+ */
+export const createStorageAdapter = async <T extends DBSchema>(
+  config: StorageConfig,
+  onTerminated?: () => void
+): Promise<StorageAdapter<T>> => {
+  switch (config.driver) {
+    case 'postgres': {
+      const adapter = new PostgresStorageAdapter<T>(config.postgres || {});
+      try {
+        await adapter.initialize();
+      } catch (error) {
+        await adapter.close().catch(() => undefined);
+        throw error;
+      }
+      return adapter;
+    }
+    case 'indexeddb': {
+      const { name } = config.indexedDB || { name: 'ryzer-wallet' };
+      return IndexedDBStorageAdapter.open<T>(name, onTerminated);
+    }
+    default:
+      throw new Error(`Unsupported storage driver: ${config.driver}`);
+  }
+};
@@ -0,0 +1,213 @@
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { logger } from '../../utils/logger';
+import {
+  KeyRangeLike,
+  SchemaChange,
+  StorageAdapter,
+  StorageTransaction,
+  StoreDefinition,
+} from './types';
+
+/**
+ * In-process IndexedDB storage adapter.
+ *
+ * State lives in the current process only, so this adapter is meant for
+ * tests and local development. Use the PostgreSQL adapter for shared state.
+ */
+export class IndexedDBStorageAdapter<T extends DBSchema> implements StorageAdapter<T> {
+  public readonly driver = 'indexeddb' as const;
+  private locks: Map<string, Promise<unknown>> = new Map();
+
+  constructor(
+    private db: IDBPDatabase<T>,
+    private readonly name: string,
+    private readonly onTerminated?: () => void
+  ) {}
+
+  /**
+   * Open the IndexedDB database at its current version
+   * @param name Database name
+   * @param onTerminated Callback invoked when the connection is lost
+   * @returns Storage adapter
+   */
+  public static async open<T extends DBSchema>(
+    name: string,
+    onTerminated?: () => void
+  ): Promise<IndexedDBStorageAdapter<T>> {
+    logger.info('Initializing IndexedDB database...');
+
+    const db = await IndexedDBStorageAdapter.connect<T>(name, undefined, onTerminated);
+    return new IndexedDBStorageAdapter<T>(db, name, onTerminated);
+  }
+
+  /**
+   * Open a connection, optionally upgrading to a new version
+   * @param name Database name
+   * @param version Target version
+   * @param onTerminated Callback invoked when the connection is lost
+   * @param upgrade Upgrade callback
+   * @returns Database connection
+   */
+  private static connect<T extends DBSchema>(
+    name: string,
+    version: number | undefined,
+    onTerminated?: () => void,
+    upgrade?: (database: IDBPDatabase<T>, transaction: any) => void
+  ): Promise<IDBPDatabase<T>> {
+    return openDB<T>(name, version, {
+      upgrade(database, oldVersion, newVersion, transaction) {
+        logger.info(`Upgrading database from version ${oldVersion} to ${newVersion}`);
+        upgrade?.(database, transaction);
+      },
+      blocked() {
+        logger.warn('Database blocked by another version');
+      },
+      blocking() {
+        logger.warn('Database is blocking a newer version');
+      },
+      terminated() {
+        logger.error('Database connection terminated unexpectedly');
+        onTerminated?.();
+      },
+    });
+  }
+
+  public hasStore(name: string): boolean {
+    return Array.from(this.db.objectStoreNames).includes(name);
+  }
+
+  public getStoreDefinition(name: string): StoreDefinition | undefined {
+    if (!this.hasStore(name)) {
+      return undefined;
+    }
+
+    const store = this.db.transaction(name as keyof T, 'readonly').objectStore(name as keyof T);
+    return {
+      name,
+      keyPath: store.keyPath as string,
+      indexes: Array.from(store.indexNames).map(indexName => {
+        const index = store.index(indexName);
+        return { name: indexName, keyPath: index.keyPath, unique: index.unique, multiEntry: index.multiEntry };
+      }),
+    };
+  }
+
+  /**
+   * Apply schema changes through a version upgrade of the database
+   * @param changes Schema changes in order
+   */
+  public async applySchemaChanges(changes: SchemaChange[]): Promise<void> {
+    const nextVersion = this.db.version + 1;
+    this.db.close();
+
+    this.db = await IndexedDBStorageAdapter.connect<T>(this.name, nextVersion, this.onTerminated, (database, transaction) => {
+      for (const change of changes) {
+        const storeNames = Array.from(database.objectStoreNames);
+
+        switch (change.type) {
+          case 'createStore': {
+            if (storeNames.includes(change.store.name)) {
+              break;
+            }
+            const objectStore = database.createObjectStore(change.store.name as keyof T, { keyPath: change.store.keyPath });
+            for (const index of change.store.indexes || []) {
+              objectStore.createIndex(index.name, index.keyPath, { unique: index.unique, multiEntry: index.multiEntry });
+            }
+            logger.info(`Created object store: ${change.store.name}`);
+            break;
+          }
+          case 'dropStore': {
+            if (storeNames.includes(change.name)) {
+              database.deleteObjectStore(change.name as keyof T);
+              logger.info(`Dropped object store: ${change.name}`);
+            }
+            break;
+          }
+          case 'createIndex': {
+            const objectStore = transaction.objectStore(change.store);
+            if (!Array.from(objectStore.indexNames as string[]).includes(change.index.name)) {
+              objectStore.createIndex(change.index.name, change.index.keyPath, {
+                unique: change.index.unique,
+                multiEntry: change.index.multiEntry,
+              });
+              logger.info(`Created index ${change.index.name} on ${change.store}`);
+            }
+            break;
+          }
+          case 'dropIndex': {
+            const objectStore = transaction.objectStore(change.store);
+            if (Array.from(objectStore.indexNames as string[]).includes(change.name)) {
+              objectStore.deleteIndex(change.name);
+              logger.info(`Dropped index ${change.name} on ${change.store}`);
+            }
+            break;
+          }
+        }
+      }
+    });
+  }
+
+  public async refreshSchema(): Promise<void> {
+    // The schema is read from the open connection, so there is nothing to reload
+  }
+
+  public async withExclusiveLock<R>(name: string, fn: () => Promise<R>): Promise<R> {
+    // Only this process can reach the database, so an in-process lock is sufficient
+    const previous = this.locks.get(name) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(fn);
+    this.locks.set(name, current.catch(() => undefined));
+    return current;
+  }
+
+  public transaction<K extends keyof T>(
+    storeNames: K | K[],
+    mode: 'readonly' | 'readwrite' = 'readonly'
+  ): StorageTransaction<T, K> {
+    return this.db.transaction(storeNames, mode) as unknown as StorageTransaction<T, K>;
+  }
+
+  public get<K extends keyof T>(storeName: K, key: T[K]['key']): Promise<T[K]['value'] | undefined> {
+    return this.db.get(storeName, key);
+  }
+
+  public getAll<K extends keyof T>(
+    storeName: K,
+    query?: KeyRangeLike | T[K]['key'],
+    count?: number
+  ): Promise<T[K]['value'][]> {
+    return this.db.getAll(storeName, query as any, count);
+  }
+
+  public getAllFromIndex<K extends keyof T>(
+    storeName: K,
+    indexName: string,
+    query?: KeyRangeLike | any,
+    count?: number
+  ): Promise<T[K]['value'][]> {
+    return this.db.getAllFromIndex(storeName, indexName, query, count);
+  }
+
+  public put<K extends keyof T>(storeName: K, value: T[K]['value'], key?: T[K]['key']): Promise<T[K]['key']> {
+    return this.db.put(storeName, value, key);
+  }
+
+  public add<K extends keyof T>(storeName: K, value: T[K]['value'], key?: T[K]['key']): Promise<T[K]['key']> {
+    return this.db.add(storeName, value, key);
+  }
+
+  public delete<K extends keyof T>(storeName: K, key: T[K]['key']): Promise<void> {
+    return this.db.delete(storeName, key);
+  }
+
+  public clear<K extends keyof T>(storeName: K): Promise<void> {
+    return this.db.clear(storeName);
+  }
+
+  public async count<K extends keyof T>(storeName: K, query?: KeyRangeLike | T[K]['key']): Promise<number> {
+    return (this.db as any).count(storeName, query);
+  }
+
+  public async close(): Promise<void> {
+    this.db.close();
+  }
+}
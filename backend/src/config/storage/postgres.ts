@@ -0,0 +1,816 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Pool, PoolClient, QueryResult } from 'pg';
+import { DBSchema } from 'idb';
+import { logger } from '../../utils/logger';
+import {
+  IndexDefinition,
+  KeyRangeLike,
+  PostgresStorageConfig,
+  SchemaChange,
+  StorageAdapter,
+  StorageIndex,
+  StorageObjectStore,
+  StorageTransaction,
+  StoreDefinition,
+} from './types';
+
+type QueryRunner = (sql: string, params?: any[]) => Promise<QueryResult>;
+
+// Lock key used to serialize schema setup between backend replicas
+const SCHEMA_LOCK_KEY = 'ryzer_wallet_storage';
+
+// Table holding the definition of every object store
+const CATALOG_TABLE = 'storage_catalog';
+
+// PostgreSQL unique violation error code
+const UNIQUE_VIOLATION = '23505';
+
+// PostgreSQL error code of a lock wait that exceeded lock_timeout
+const LOCK_NOT_AVAILABLE = '55P03';
+
+// Client holding the advisory locks of a withExclusiveLock call, and whether the call is still running
+interface LockScope {
+  client: PoolClient;
+  active: boolean;
+  failure?: Error; // Set when a lock could not be released
+}
+
+/**
+ * Quote an SQL identifier after validating it
+ * @param name Identifier
+ * @returns Quoted identifier
+ */
+const quoteIdent = (name: string): string => {
+  if (!/^[A-Za-z0-9_-]+$/.test(name)) {
+    throw new Error(`Invalid identifier: ${name}`);
+  }
+  return `"${name}"`;
+};
+
+/**
+ * Build the JSONB expression for a (possibly nested) key path
+ * @param keyPath Dot-separated key path
+ * @returns SQL expression
+ */
+const jsonPathExpression = (keyPath: string): string => {
+  const segments = keyPath.split('.');
+  for (const segment of segments) {
+    if (!/^[A-Za-z0-9_]+$/.test(segment)) {
+      throw new Error(`Invalid key path: ${keyPath}`);
+    }
+  }
+  return `(value #> '{${segments.join(',')}}')`;
+};
+
+/**
+ * Build the SQL expression that yields the index key of a record
+ * @param index Index definition
+ * @returns SQL expression
+ */
+const indexExpression = (index: IndexDefinition): string => {
+  if (Array.isArray(index.keyPath)) {
+    return `jsonb_build_array(${index.keyPath.map(jsonPathExpression).join(', ')})`;
+  }
+  return jsonPathExpression(index.keyPath);
+};
+
+/**
+ * Check whether a query is a key range rather than a key
+ * @param query Query value
+ * @returns True if the query is a key range
+ */
+const isKeyRange = (query: any): query is KeyRangeLike =>
+  query !== null &&
+  typeof query === 'object' &&
+  !Array.isArray(query) &&
+  ('lower' in query || 'upper' in query || 'value' in query);
+
+/**
+ * Read a value from a record by key path
+ * @param record Record
+ * @param keyPath Dot-separated key path
+ * @returns Value at the key path
+ */
+const readKeyPath = (record: any, keyPath: string): any =>
+  keyPath.split('.').reduce((current, segment) => (current == null ? undefined : current[segment]), record);
+
+/**
+ * Build a WHERE condition matching a key or key range against an expression
+ * @param expression SQL expression to match
+ * @param query Key or key range
+ * @param params Query parameters (appended in place)
+ * @returns SQL condition
+ */
+const buildCondition = (expression: string, query: any, params: any[]): string => {
+  if (query === undefined || query === null) {
+    return `${expression} IS NOT NULL`;
+  }
+
+  if (!isKeyRange(query)) {
+    params.push(JSON.stringify(query));
+    return `${expression} = $${params.length}::jsonb`;
+  }
+
+  if ('value' in query && query.lower === undefined && query.upper === undefined) {
+    params.push(JSON.stringify(query.value));
+    return `${expression} = $${params.length}::jsonb`;
+  }
+
+  const conditions: string[] = [];
+  if (query.lower !== undefined) {
+    params.push(JSON.stringify(query.lower));
+    conditions.push(`${expression} ${query.lowerOpen || query.open ? '>' : '>='} $${params.length}::jsonb`);
+  }
+  if (query.upper !== undefined) {
+    const open = query.upperOpen || (query.open && query.lower === undefined);
+    params.push(JSON.stringify(query.upper));
+    conditions.push(`${expression} ${open ? '<' : '<='} $${params.length}::jsonb`);
+  }
+
+  return conditions.length > 0 ? conditions.join(' AND ') : `${expression} IS NOT NULL`;
+};
+
+/**
+ * Build a WHERE condition for a multi-entry index, matching any element of the array
+ * @param expression SQL expression yielding the array
+ * @param query Key or key range
+ * @param params Query parameters (appended in place)
+ * @returns SQL condition
+ */
+const buildMultiEntryCondition = (expression: string, query: any, params: any[]): string => {
+  if (query !== undefined && query !== null && !isKeyRange(query)) {
+    params.push(JSON.stringify([query]));
+    return `${expression} @> $${params.length}::jsonb`;
+  }
+
+  const elements = `jsonb_array_elements(CASE WHEN jsonb_typeof(${expression}) = 'array' THEN ${expression} ELSE jsonb_build_array(${expression}) END)`;
+  return `EXISTS (SELECT 1 FROM ${elements} AS entry(v) WHERE ${buildCondition('entry.v', query, params)})`;
+};
+
+/**
+ * Index backed by a PostgreSQL expression index
+ */
+class PostgresIndex<T extends DBSchema, K extends keyof T> implements StorageIndex<T, K> {
+  public readonly name: string;
+  public readonly keyPath: string | string[];
+
+  constructor(
+    private readonly table: string,
+    private readonly definition: IndexDefinition,
+    private readonly run: QueryRunner
+  ) {
+    this.name = definition.name;
+    this.keyPath = definition.keyPath;
+  }
+
+  /**
+   * Build the WHERE condition for an index query
+   * @param query Key or key range
+   * @param params Query parameters (appended in place)
+   * @returns SQL condition
+   */
+  private where(query: any, params: any[]): string {
+    const expression = indexExpression(this.definition);
+    return this.definition.multiEntry
+      ? buildMultiEntryCondition(expression, query, params)
+      : buildCondition(expression, query, params);
+  }
+
+  /**
+   * Build the SELECT statement for an index query
+   * @param column Column to select
+   * @param query Key or key range
+   * @param count Maximum number of rows
+   * @returns SQL statement and parameters
+   */
+  private select(column: string, query: any, count?: number): { sql: string; params: any[] } {
+    const params: any[] = [];
+    const condition = this.where(query, params);
+    const order = this.definition.multiEntry ? 'key' : `${indexExpression(this.definition)}, key`;
+    const limit = count ? ` LIMIT ${Math.floor(count)}` : '';
+
+    return { sql: `SELECT ${column} FROM ${this.table} WHERE ${condition} ORDER BY ${order}${limit}`, params };
+  }
+
+  public async get(query: any): Promise<T[K]['value'] | undefined> {
+    const [value] = await this.getAll(query, 1);
+    return value;
+  }
+
+  public async getAll(query?: KeyRangeLike | any, count?: number): Promise<T[K]['value'][]> {
+    const { sql, params } = this.select('value', query, count);
+    const result = await this.run(sql, params);
+    return result.rows.map(row => row.value);
+  }
+
+  public async getKey(query: any): Promise<T[K]['key'] | undefined> {
+    const [key] = await this.getAllKeys(query, 1);
+    return key;
+  }
+
+  public async getAllKeys(query?: KeyRangeLike | any, count?: number): Promise<T[K]['key'][]> {
+    const { sql, params } = this.select('key', query, count);
+    const result = await this.run(sql, params);
+    return result.rows.map(row => row.key);
+  }
+
+  public async count(query?: KeyRangeLike | any): Promise<number> {
+    const params: any[] = [];
+    const condition = this.where(query, params);
+    const result = await this.run(`SELECT COUNT(*) AS total FROM ${this.table} WHERE ${condition}`, params);
+    return parseInt(result.rows[0].total, 10);
+  }
+}
+
+/**
+ * Object store backed by a PostgreSQL table with `key` and `value` JSONB columns
+ */
+class PostgresObjectStore<T extends DBSchema, K extends keyof T> implements StorageObjectStore<T, K> {
+  public readonly name: K;
+  public readonly keyPath: string;
+
+  constructor(
+    private readonly table: string,
+    private readonly definition: StoreDefinition,
+    private readonly run: QueryRunner
+  ) {
+    this.name = definition.name as K;
+    this.keyPath = definition.keyPath;
+  }
+
+  /**
+   * Resolve the primary key of a record
+   * @param value Record
+   * @param key Explicit key
+   * @returns Primary key
+   */
+  private resolveKey(value: T[K]['value'], key?: T[K]['key']): T[K]['key'] {
+    const resolved = key !== undefined ? key : readKeyPath(value, this.keyPath);
+    if (resolved === undefined || resolved === null) {
+      throw new Error(`Record for store ${String(this.name)} is missing key path ${this.keyPath}`);
+    }
+    return resolved;
+  }
+
+  public async get(key: T[K]['key']): Promise<T[K]['value'] | undefined> {
+    const result = await this.run(`SELECT value FROM ${this.table} WHERE key = $1::jsonb`, [JSON.stringify(key)]);
+    return result.rows[0]?.value;
+  }
+
+  public async getAll(query?: KeyRangeLike | T[K]['key'], count?: number): Promise<T[K]['value'][]> {
+    const params: any[] = [];
+    const condition = buildCondition('key', query, params);
+    const limit = count ? ` LIMIT ${Math.floor(count)}` : '';
+    const result = await this.run(`SELECT value FROM ${this.table} WHERE ${condition} ORDER BY key${limit}`, params);
+    return result.rows.map(row => row.value);
+  }
+
+  public async getAllKeys(query?: KeyRangeLike | T[K]['key'], count?: number): Promise<T[K]['key'][]> {
+    const params: any[] = [];
+    const condition = buildCondition('key', query, params);
+    const limit = count ? ` LIMIT ${Math.floor(count)}` : '';
+    const result = await this.run(`SELECT key FROM ${this.table} WHERE ${condition} ORDER BY key${limit}`, params);
+    return result.rows.map(row => row.key);
+  }
+
+  public async put(value: T[K]['value'], key?: T[K]['key']): Promise<T[K]['key']> {
+    const resolvedKey = this.resolveKey(value, key);
+    await this.run(
+      `INSERT INTO ${this.table} (key, value) VALUES ($1::jsonb, $2::jsonb)
+       ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = now()`,
+      [JSON.stringify(resolvedKey), JSON.stringify(value)]
+    );
+    return resolvedKey;
+  }
+
+  public async add(value: T[K]['value'], key?: T[K]['key']): Promise<T[K]['key']> {
+    const resolvedKey = this.resolveKey(value, key);
+    try {
+      await this.run(`INSERT INTO ${this.table} (key, value) VALUES ($1::jsonb, $2::jsonb)`, [
+        JSON.stringify(resolvedKey),
+        JSON.stringify(value),
+      ]);
+    } catch (error: any) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new Error(`ConstraintError: key ${JSON.stringify(resolvedKey)} already exists in ${String(this.name)}`);
+      }
+      throw error;
+    }
+    return resolvedKey;
+  }
+
+  public async delete(key: T[K]['key']): Promise<void> {
+    await this.run(`DELETE FROM ${this.table} WHERE key = $1::jsonb`, [JSON.stringify(key)]);
+  }
+
+  public async clear(): Promise<void> {
+    await this.run(`DELETE FROM ${this.table}`);
+  }
+
+  public async count(query?: KeyRangeLike | T[K]['key']): Promise<number> {
+    const params: any[] = [];
+    const condition = buildCondition('key', query, params);
+    const result = await this.run(`SELECT COUNT(*) AS total FROM ${this.table} WHERE ${condition}`, params);
+    return parseInt(result.rows[0].total, 10);
+  }
+
+  public index(name: string): StorageIndex<T, K> {
+    const definition = this.definition.indexes?.find(index => index.name === name);
+    if (!definition) {
+      throw new Error(`Index ${name} not found on store ${String(this.name)}`);
+    }
+    return new PostgresIndex<T, K>(this.table, definition, this.run);
+  }
+}
+
+/**
+ * Transaction over one or more object stores.
+ *
+ * Read-write transactions run on a dedicated client inside BEGIN/COMMIT and,
+ * like IndexedDB, commit automatically once no requests are pending.
+ */
+class PostgresTransaction<T extends DBSchema, K extends keyof T> implements StorageTransaction<T, K> {
+  public readonly done: Promise<void>;
+  private client: Promise<PoolClient> | null = null;
+  private pending = 0;
+  private chain: Promise<unknown> = Promise.resolve();
+  private finished = false;
+  private resolveDone!: () => void;
+  private rejectDone!: (error: Error) => void;
+
+  constructor(
+    private readonly adapter: PostgresStorageAdapter<T>,
+    private readonly storeNames: K[],
+    public readonly mode: 'readonly' | 'readwrite'
+  ) {
+    this.done = new Promise<void>((resolve, reject) => {
+      this.resolveDone = resolve;
+      this.rejectDone = reject;
+    });
+    // Avoid unhandled rejections for callers that never await `done`
+    this.done.catch(() => undefined);
+    this.scheduleCommit();
+  }
+
+  public objectStore<N extends K>(name: N): StorageObjectStore<T, N> {
+    if (!this.storeNames.includes(name)) {
+      throw new Error(`Store ${String(name)} is not part of this transaction`);
+    }
+    return this.adapter.createObjectStore<N>(name, this.run);
+  }
+
+  public abort(): void {
+    if (this.finished) {
+      return;
+    }
+    this.finish(new Error('Transaction aborted'));
+  }
+
+  /**
+   * Execute a statement within the transaction
+   */
+  private run: QueryRunner = (sql, params) => {
+    if (this.finished) {
+      return Promise.reject(new Error('Transaction has already finished'));
+    }
+
+    this.pending++;
+    const operation = this.chain.then(async () => {
+      if (this.mode === 'readonly') {
+        return this.adapter.query(sql, params);
+      }
+      const client = await this.acquireClient();
+      return client.query(sql, params);
+    });
+    this.chain = operation.catch(() => undefined);
+
+    return operation.then(
+      result => {
+        this.pending--;
+        this.scheduleCommit();
+        return result;
+      },
+      error => {
+        this.pending--;
+        this.finish(error);
+        throw error;
+      }
+    );
+  };
+
+  /**
+   * Acquire the dedicated client and open the database transaction
+   * @returns Pool client
+   */
+  private acquireClient(): Promise<PoolClient> {
+    if (!this.client) {
+      this.client = this.adapter.connect().then(async client => {
+        await client.query('BEGIN');
+        return client;
+      });
+    }
+    return this.client;
+  }
+
+  /**
+   * Commit once the current turn of the event loop has issued no further requests
+   */
+  private scheduleCommit(): void {
+    setImmediate(() => {
+      if (this.pending === 0 && !this.finished) {
+        this.finish();
+      }
+    });
+  }
+
+  /**
+   * Commit or roll back the transaction and release the client
+   * @param error Error that caused the transaction to fail
+   */
+  private finish(error?: Error): void {
+    this.finished = true;
+
+    const settle = async () => {
+      if (!this.client) {
+        return;
+      }
+      const client = await this.client;
+      try {
+        await client.query(error ? 'ROLLBACK' : 'COMMIT');
+      } finally {
+        client.release();
+      }
+    };
+
+    settle().then(
+      () => (error ? this.rejectDone(error) : this.resolveDone()),
+      settleError => {
+        logger.error('Error finishing storage transaction:', settleError);
+        this.rejectDone(error || settleError);
+      }
+    );
+  }
+}
+
+/**
+ * PostgreSQL storage adapter.
+ *
+ * Each object store maps to a table holding the record key and the record
+ * itself as JSONB; indexes map to expression indexes over the record. Store
+ * definitions are kept in a catalog table maintained by schema migrations.
+ */
+export class PostgresStorageAdapter<T extends DBSchema> implements StorageAdapter<T> {
+  public readonly driver = 'postgres' as const;
+  private pool: Pool;
+  private schema: string;
+  private stores: Map<string, StoreDefinition>;
+  private lockTimeoutMs: number;
+  private lockScope = new AsyncLocalStorage<LockScope>();
+
+  constructor(config: PostgresStorageConfig) {
+    this.pool = new Pool({
+      connectionString: config.connectionString,
+      host: config.host,
+      port: config.port,
+      database: config.database,
+      user: config.user,
+      password: config.password,
+      ssl: config.ssl ? { rejectUnauthorized: true, ca: config.sslCa } : undefined,
+      max: config.maxConnections ?? 10,
+      connectionTimeoutMillis: config.connectionTimeoutMs ?? 10000,
+    });
+    this.schema = config.schema || 'public';
+    this.lockTimeoutMs = config.lockTimeoutMs ?? 30000;
+    this.stores = new Map();
+
+    this.pool.on('error', error => {
+      logger.error('PostgreSQL pool error:', error);
+    });
+  }
+
+  /**
+   * Create the storage catalog if needed and load the store definitions from it
+   */
+  public async initialize(): Promise<void> {
+    await this.withExclusiveLock(SCHEMA_LOCK_KEY, async () => {
+      await this.query(`CREATE SCHEMA IF NOT EXISTS ${quoteIdent(this.schema)}`);
+      await this.query(
+        `CREATE TABLE IF NOT EXISTS ${this.tableName(CATALOG_TABLE)} (
+           name TEXT PRIMARY KEY,
+           definition JSONB NOT NULL,
+           updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+         )`
+      );
+    });
+
+    await this.refreshSchema();
+    logger.info(`PostgreSQL storage initialized with ${this.stores.size} stores`);
+  }
+
+  /**
+   * Load store definitions from the catalog table
+   */
+  public async refreshSchema(): Promise<void> {
+    const result = await this.query(`SELECT definition FROM ${this.tableName(CATALOG_TABLE)}`);
+    this.stores = new Map(result.rows.map(row => [row.definition.name, row.definition as StoreDefinition]));
+  }
+
+  public hasStore(name: string): boolean {
+    return this.stores.has(name);
+  }
+
+  public getStoreDefinition(name: string): StoreDefinition | undefined {
+    return this.stores.get(name);
+  }
+
+  public async applySchemaChanges(changes: SchemaChange[]): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      // Re-read the catalog inside the transaction so concurrent changes are not lost
+      const result = await client.query(`SELECT definition FROM ${this.tableName(CATALOG_TABLE)} FOR UPDATE`);
+      const stores = new Map<string, StoreDefinition>(
+        result.rows.map(row => [row.definition.name, row.definition as StoreDefinition])
+      );
+
+      for (const change of changes) {
+        await this.applySchemaChange(client, stores, change);
+      }
+
+      await client.query('COMMIT');
+      this.stores = stores;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Apply a single schema change and update the catalog
+   * @param client Pool client inside a transaction
+   * @param stores Catalog being updated
+   * @param change Schema change
+   */
+  private async applySchemaChange(
+    client: PoolClient,
+    stores: Map<string, StoreDefinition>,
+    change: SchemaChange
+  ): Promise<void> {
+    switch (change.type) {
+      case 'createStore': {
+        const table = this.tableName(change.store.name);
+        await client.query(
+          `CREATE TABLE IF NOT EXISTS ${table} (
+             key JSONB PRIMARY KEY,
+             value JSONB NOT NULL,
+             created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+             updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+           )`
+        );
+        for (const index of change.store.indexes || []) {
+          await this.createIndex(client, change.store.name, index);
+        }
+        stores.set(change.store.name, { ...change.store, indexes: [...(change.store.indexes || [])] });
+        await this.saveCatalogEntry(client, stores.get(change.store.name)!);
+        logger.info(`Created store: ${change.store.name}`);
+        break;
+      }
+      case 'dropStore': {
+        await client.query(`DROP TABLE IF EXISTS ${this.tableName(change.name)}`);
+        await client.query(`DELETE FROM ${this.tableName(CATALOG_TABLE)} WHERE name = $1`, [change.name]);
+        stores.delete(change.name);
+        logger.info(`Dropped store: ${change.name}`);
+        break;
+      }
+      case 'createIndex': {
+        const store = stores.get(change.store);
+        if (!store) {
+          throw new Error(`Object store ${change.store} not found`);
+        }
+        await this.createIndex(client, change.store, change.index);
+        store.indexes = [...(store.indexes || []).filter(index => index.name !== change.index.name), change.index];
+        await this.saveCatalogEntry(client, store);
+        logger.info(`Created index ${change.index.name} on ${change.store}`);
+        break;
+      }
+      case 'dropIndex': {
+        const store = stores.get(change.store);
+        if (!store) {
+          throw new Error(`Object store ${change.store} not found`);
+        }
+        await client.query(`DROP INDEX IF EXISTS ${quoteIdent(this.schema)}.${this.indexName(change.store, change.name)}`);
+        store.indexes = (store.indexes || []).filter(index => index.name !== change.name);
+        await this.saveCatalogEntry(client, store);
+        logger.info(`Dropped index ${change.name} on ${change.store}`);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Create the expression index backing a store index
+   * @param client Pool client
+   * @param storeName Store name
+   * @param index Index definition
+   */
+  private async createIndex(client: PoolClient, storeName: string, index: IndexDefinition): Promise<void> {
+    const table = this.tableName(storeName);
+    const indexName = this.indexName(storeName, index.name);
+    const expression = indexExpression(index);
+
+    if (index.multiEntry) {
+      await client.query(`CREATE INDEX IF NOT EXISTS ${indexName} ON ${table} USING GIN (${expression} jsonb_path_ops)`);
+    } else {
+      await client.query(
+        `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX IF NOT EXISTS ${indexName} ON ${table} (${expression})`
+      );
+    }
+  }
+
+  /**
+   * Persist a store definition in the catalog
+   * @param client Pool client
+   * @param store Store definition
+   */
+  private async saveCatalogEntry(client: PoolClient, store: StoreDefinition): Promise<void> {
+    await client.query(
+      `INSERT INTO ${this.tableName(CATALOG_TABLE)} (name, definition) VALUES ($1, $2::jsonb)
+       ON CONFLICT (name) DO UPDATE SET definition = EXCLUDED.definition, updated_at = now()`,
+      [store.name, JSON.stringify(store)]
+    );
+  }
+
+  /**
+   * Advisory locks are held by a session, so the lock's client also runs
+   * every query `fn` makes through the adapter: a lock holder never waits for
+   * a second client from a pool that lock waiters may have exhausted. Nested
+   * locks are taken on the enclosing lock's client. Read-write transactions
+   * still use a client of their own.
+   */
+  public async withExclusiveLock<R>(name: string, fn: () => Promise<R>): Promise<R> {
+    const enclosing = this.lockScope.getStore();
+    if (enclosing?.active) {
+      await this.acquireAdvisoryLock(enclosing.client, name);
+      try {
+        return await fn();
+      } finally {
+        await enclosing.client.query('SELECT pg_advisory_unlock(hashtext($1))', [name]).catch(error => {
+          enclosing.failure = error;
+        });
+      }
+    }
+
+    const client = await this.pool.connect();
+    const scope: LockScope = { client, active: true };
+    try {
+      await this.acquireAdvisoryLock(client, name);
+      try {
+        return await this.lockScope.run(scope, fn);
+      } finally {
+        // Work fn left running falls back to the pool once the lock is released
+        scope.active = false;
+        await client.query('SELECT pg_advisory_unlock(hashtext($1))', [name]).catch(error => {
+          scope.failure = error;
+        });
+      }
+    } finally {
+      // A client that may still hold a lock is closed rather than returned to the pool
+      client.release(scope.failure);
+    }
+  }
+
+  /**
+   * Wait for an advisory lock on a client, failing after the lock timeout
+   * @param client Client that will hold the lock
+   * @param name Lock name
+   */
+  private async acquireAdvisoryLock(client: PoolClient, name: string): Promise<void> {
+    await client.query(`SELECT set_config('lock_timeout', $1, false)`, [`${this.lockTimeoutMs}ms`]);
+    try {
+      await client.query('SELECT pg_advisory_lock(hashtext($1))', [name]);
+    } catch (error: any) {
+      if (error.code === LOCK_NOT_AVAILABLE) {
+        throw new Error(`Timed out after ${this.lockTimeoutMs}ms waiting for lock ${name}`);
+      }
+      throw error;
+    } finally {
+      await client.query('RESET lock_timeout');
+    }
+  }
+
+  /**
+   * Get the index name for a store index
+   * @param storeName Store name
+   * @param indexName Index name
+   * @returns Quoted index name
+   */
+  private indexName(storeName: string, indexName: string): string {
+    return quoteIdent(`${storeName}__${indexName}`.replace(/-/g, '_'));
+  }
+
+  /**
+   * Get the qualified table name for an object store
+   * @param storeName Store name
+   * @returns Qualified table name
+   */
+  private tableName(storeName: string): string {
+    return `${quoteIdent(this.schema)}.${quoteIdent(storeName)}`;
+  }
+
+  /**
+   * Run a statement on the pool, or on the client of the lock being held
+   * @param sql SQL statement
+   * @param params Query parameters
+   * @returns Query result
+   */
+  public query(sql: string, params?: any[]): Promise<QueryResult> {
+    const scope = this.lockScope.getStore();
+    return scope?.active ? scope.client.query(sql, params) : this.pool.query(sql, params);
+  }
+
+  /**
+   * Check out a dedicated client from the pool
+   * @returns Pool client
+   */
+  public connect(): Promise<PoolClient> {
+    return this.pool.connect();
+  }
+
+  /**
+   * Create an object store handle bound to a query runner
+   * @param storeName Store name
+   * @param run Query runner
+   * @returns Object store handle
+   */
+  public createObjectStore<K extends keyof T>(storeName: K, run: QueryRunner): StorageObjectStore<T, K> {
+    const definition = this.stores.get(String(storeName));
+    if (!definition) {
+      throw new Error(`Object store ${String(storeName)} not found`);
+    }
+    return new PostgresObjectStore<T, K>(this.tableName(definition.name), definition, run);
+  }
+
+  private store<K extends keyof T>(storeName: K): StorageObjectStore<T, K> {
+    return this.createObjectStore(storeName, (sql, params) => this.query(sql, params));
+  }
+
+  public transaction<K extends keyof T>(
+    storeNames: K | K[],
+    mode: 'readonly' | 'readwrite' = 'readonly'
+  ): StorageTransaction<T, K> {
+    const names = Array.isArray(storeNames) ? storeNames : [storeNames];
+    for (const name of names) {
+      if (!this.stores.has(String(name))) {
+        throw new Error(`Object store ${String(name)} not found`);
+      }
+    }
+    return new PostgresTransaction<T, K>(this, names, mode);
+  }
+
+  public get<K extends keyof T>(storeName: K, key: T[K]['key']): Promise<T[K]['value'] | undefined> {
+    return this.store(storeName).get(key);
+  }
+
+  public getAll<K extends keyof T>(
+    storeName: K,
+    query?: KeyRangeLike | T[K]['key'],
+    count?: number
+  ): Promise<T[K]['value'][]> {
+    return this.store(storeName).getAll(query, count);
+  }
+
+  public getAllFromIndex<K extends keyof T>(
+    storeName: K,
+    indexName: string,
+    query?: KeyRangeLike | any,
+    count?: number
+  ): Promise<T[K]['value'][]> {
+    return this.store(storeName).index(indexName).getAll(query, count);
+  }
+
+  public put<K extends keyof T>(storeName: K, value: T[K]['value'], key?: T[K]['key']): Promise<T[K]['key']> {
+    return this.store(storeName).put(value, key);
+  }
+
+  public add<K extends keyof T>(storeName: K, value: T[K]['value'], key?: T[K]['key']): Promise<T[K]['key']> {
+    return this.store(storeName).add(value, key);
+  }
+
+  public delete<K extends keyof T>(storeName: K, key: T[K]['key']): Promise<void> {
+    return this.store(storeName).delete(key);
+  }
+
+  public clear<K extends keyof T>(storeName: K): Promise<void> {
+    return this.store(storeName).clear();
+  }
+
+  public count<K extends keyof T>(storeName: K, query?: KeyRangeLike | T[K]['key']): Promise<number> {
+    return this.store(storeName).count(query);
+  }
+
+  public async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,113 @@
+import { StoreDefinition } from './types';
+
+/**
+ * Baseline object stores and indexes of the wallet database, created by the
+ * initial migration. Later schema changes are made by migrations only.
+ */
+export const STORE_DEFINITIONS: StoreDefinition[] = [
+  { name: 'users', keyPath: 'address', indexes: [{ name: 'by-email', keyPath: 'email' }] },
+  { name: 'user_roles', keyPath: 'id', indexes: [{ name: 'by-user', keyPath: 'userId' }, { name: 'by-role', keyPath: 'role' }] },
+  {
+    name: 'audit_logs',
+    keyPath: 'id',
+    indexes: [
+      { name: 'by-user', keyPath: 'userId' },
+      { name: 'by-category', keyPath: 'category' },
+      { name: 'by-action', keyPath: 'action' },
+      { name: 'by-timestamp', keyPath: 'timestamp' },
+    ],
+  },
+  {
+    name: 'hsm_keys',
+    keyPath: 'id',
+    indexes: [
+      { name: 'by-provider', keyPath: 'provider' },
+      { name: 'by-status', keyPath: 'status' },
+      { name: 'by-type', keyPath: 'keyType' },
+    ],
+  },
+  {
+    name: 'multisig_wallets',
+    keyPath: 'address',
+    indexes: [{ name: 'by-owner', keyPath: 'owners', multiEntry: true }, { name: 'by-chain', keyPath: 'chainId' }],
+  },
+  {
+    name: 'multisig_transactions',
+    keyPath: 'id',
+    indexes: [
+      { name: 'by-wallet', keyPath: 'walletAddress' },
+      { name: 'by-status', keyPath: 'status' },
+      { name: 'by-creator', keyPath: 'createdBy' },
+    ],
+  },
+  { name: 'transactions', keyPath: 'hash', indexes: [{ name: 'by-address', keyPath: ['from', 'to'] }, { name: 'by-status', keyPath: 'status' }] },
+  { name: 'wallets', keyPath: 'address', indexes: [{ name: 'by-owner', keyPath: 'owner' }, { name: 'by-chainId', keyPath: 'chainId' }] },
+  { name: 'tokens', keyPath: 'id', indexes: [{ name: 'by-chainId', keyPath: 'chainId' }] },
+  { name: 'settings', keyPath: 'key' },
+  {
+    name: 'events',
+    keyPath: 'id',
+    indexes: [
+      { name: 'by-wallet', keyPath: 'walletAddress' },
+      { name: 'by-type', keyPath: 'type' },
+      { name: 'by-session', keyPath: 'sessionId' },
+    ],
+  },
+  { name: 'sessions', keyPath: 'id', indexes: [{ name: 'by-wallet', keyPath: 'walletAddress' }] },
+  {
+    name: 'analytics_aggregated',
+    keyPath: 'id',
+    indexes: [{ name: 'by-period', keyPath: 'period' }, { name: 'by-timestamp', keyPath: 'timestamp' }],
+  },
+  {
+    name: 'analytics_events',
+    keyPath: 'id',
+    indexes: [
+      { name: 'by-wallet', keyPath: 'walletAddress' },
+      { name: 'by-type', keyPath: 'type' },
+      { name: 'by-timestamp', keyPath: 'timestamp' },
+      { name: 'by-chain', keyPath: 'chainId' },
+    ],
+  },
+  {
+    name: 'analytics_sessions',
+    keyPath: 'id',
+    indexes: [{ name: 'by-wallet', keyPath: 'walletAddress' }, { name: 'by-start-time', keyPath: 'startTime' }],
+  },
+  {
+    name: 'pendingTransactions',
+    keyPath: 'id',
+    indexes: [{ name: 'by-wallet', keyPath: 'walletAddress' }, { name: 'by-chain', keyPath: 'chainId' }],
+  },
+  { name: 'batches', keyPath: 'id', indexes: [{ name: 'by-chain', keyPath: 'chainId' }, { name: 'by-status', keyPath: 'status' }] },
+  {
+    name: 'simulationRequests',
+    keyPath: 'id',
+    indexes: [{ name: 'by-from', keyPath: 'from' }, { name: 'by-status', keyPath: 'status' }],
+  },
+  { name: 'simulationResults', keyPath: 'id' },
+  {
+    name: 'crossChainTransactions',
+    keyPath: 'id',
+    indexes: [
+      { name: 'by-sender', keyPath: 'sender' },
+      { name: 'by-recipient', keyPath: 'recipient' },
+      { name: 'by-status', keyPath: 'status' },
+    ],
+  },
+  { name: 'recoveryConfigs', keyPath: 'walletAddress' },
+  {
+    name: 'recoveryRequests',
+    keyPath: 'id',
+    indexes: [{ name: 'by-wallet', keyPath: 'walletAddress' }, { name: 'by-status', keyPath: 'status' }],
+  },
+  { name: 'recoveryBackups', keyPath: 'id', indexes: [{ name: 'by-wallet', keyPath: 'walletAddress' }] },
+];
+
+/**
+ * Look up a store definition by name
+ * @param name Store name
+ * @returns Store definition or undefined
+ */
+export const getStoreDefinition = (name: string): StoreDefinition | undefined =>
+  STORE_DEFINITIONS.find(store => store.name === name);
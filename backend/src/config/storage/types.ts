@@ -0,0 +1,178 @@
+import { DBSchema } from 'idb';
+
+/**
+ * Supported storage drivers
+ */
+export type StorageDriver = 'postgres' | 'indexeddb';
+
+/**
+ * Key range accepted by range queries.
+ * Compatible with IDBKeyRange and with the `{ lower, open }` polyfill used by the analytics service.
+ */
+export interface KeyRangeLike {
+  lower?: any;
+  upper?: any;
+  lowerOpen?: boolean;
+  upperOpen?: boolean;
+  open?: boolean;
+  value?: any;
+}
+
+/**
+ * Index definition for an object store
+ */
+export interface IndexDefinition {
+  name: string;
+  keyPath: string | string[];
+  unique?: boolean;
+  multiEntry?: boolean;
+}
+
+/**
+ * Object store definition shared by every storage adapter
+ */
+export interface StoreDefinition {
+  name: string;
+  keyPath: string;
+  indexes?: IndexDefinition[];
+}
+
+/**
+ * Schema change applied by a migration
+ */
+export type SchemaChange =
+  | { type: 'createStore'; store: StoreDefinition }
+  | { type: 'dropStore'; name: string }
+  | { type: 'createIndex'; store: string; index: IndexDefinition }
+  | { type: 'dropIndex'; store: string; name: string };
+
+/**
+ * Index handle returned by `StorageObjectStore.index()`
+ */
+export interface StorageIndex<T extends DBSchema, K extends keyof T> {
+  name: string;
+  keyPath: string | string[];
+  get(query: any): Promise<T[K]['value'] | undefined>;
+  getAll(query?: KeyRangeLike | any, count?: number): Promise<T[K]['value'][]>;
+  getKey(query: any): Promise<T[K]['key'] | undefined>;
+  getAllKeys(query?: KeyRangeLike | any, count?: number): Promise<T[K]['key'][]>;
+  count(query?: KeyRangeLike | any): Promise<number>;
+}
+
+/**
+ * Object store handle returned by `StorageTransaction.objectStore()`
+ */
+export interface StorageObjectStore<T extends DBSchema, K extends keyof T> {
+  name: K;
+  keyPath: string;
+  get(key: T[K]['key']): Promise<T[K]['value'] | undefined>;
+  getAll(query?: KeyRangeLike | T[K]['key'], count?: number): Promise<T[K]['value'][]>;
+  getAllKeys(query?: KeyRangeLike | T[K]['key'], count?: number): Promise<T[K]['key'][]>;
+  put(value: T[K]['value'], key?: T[K]['key']): Promise<T[K]['key']>;
+  add(value: T[K]['value'], key?: T[K]['key']): Promise<T[K]['key']>;
+  delete(key: T[K]['key']): Promise<void>;
+  clear(): Promise<void>;
+  count(query?: KeyRangeLike | T[K]['key']): Promise<number>;
+  index(name: string): StorageIndex<T, K>;
+}
+
+/**
+ * Transaction handle returned by `StorageAdapter.transaction()`
+ */
+export interface StorageTransaction<T extends DBSchema, K extends keyof T> {
+  mode: 'readonly' | 'readwrite';
+  objectStore<N extends K>(name: N): StorageObjectStore<T, N>;
+  done: Promise<void>;
+  abort(): void;
+}
+
+/**
+ * Storage adapter interface.
+ *
+ * Mirrors the subset of the `idb` API used by the services so that every
+ * store can be backed either by PostgreSQL or by the in-process IndexedDB.
+ */
+export interface StorageAdapter<T extends DBSchema> {
+  readonly driver: StorageDriver;
+  transaction<K extends keyof T>(
+    storeNames: K | K[],
+    mode?: 'readonly' | 'readwrite'
+  ): StorageTransaction<T, K>;
+  get<K extends keyof T>(storeName: K, key: T[K]['key']): Promise<T[K]['value'] | undefined>;
+  getAll<K extends keyof T>(
+    storeName: K,
+    query?: KeyRangeLike | T[K]['key'],
+    count?: number
+  ): Promise<T[K]['value'][]>;
+  getAllFromIndex<K extends keyof T>(
+    storeName: K,
+    indexName: string,
+    query?: KeyRangeLike | any,
+    count?: number
+  ): Promise<T[K]['value'][]>;
+  put<K extends keyof T>(storeName: K, value: T[K]['value'], key?: T[K]['key']): Promise<T[K]['key']>;
+  add<K extends keyof T>(storeName: K, value: T[K]['value'], key?: T[K]['key']): Promise<T[K]['key']>;
+  delete<K extends keyof T>(storeName: K, key: T[K]['key']): Promise<void>;
+  clear<K extends keyof T>(storeName: K): Promise<void>;
+  count<K extends keyof T>(storeName: K, query?: KeyRangeLike | T[K]['key']): Promise<number>;
+  close(): Promise<void>;
+
+  /**
+   * Check whether an object store exists
+   * @param name Store name
+   */
+  hasStore(name: string): boolean;
+
+  /**
+   * Get the definition of an existing object store
+   * @param name Store name
+   */
+  getStoreDefinition(name: string): StoreDefinition | undefined;
+
+  /**
+   * Apply schema changes (stores and indexes). Changes are idempotent.
+   * @param changes Schema changes in order
+   */
+  applySchemaChanges(changes: SchemaChange[]): Promise<void>;
+
+  /**
+   * Reload store definitions changed by other processes
+   */
+  refreshSchema(): Promise<void>;
+
+  /**
+   * Run a function while holding a lock shared by every process using the same database
+   * @param name Lock name
+   * @param fn Function to run
+   */
+  withExclusiveLock<R>(name: string, fn: () => Promise<R>): Promise<R>;
+}
+
+/**
+ * PostgreSQL connection settings
+ */
+export interface PostgresStorageConfig {
+  connectionString?: string;
+  host?: string;
+  port?: number;
+  database?: string;
+  user?: string;
+  password?: string;
+  ssl?: boolean; // Server certificates are verified
+  sslCa?: string; // PEM bundle of the CAs to trust instead of the system's
+  maxConnections?: number;
+  connectionTimeoutMs?: number; // How long to wait for a pooled client before failing
+  lockTimeoutMs?: number; // How long withExclusiveLock waits for a lock before failing
+  schema?: string;
+}
+
+/**
+ * Storage configuration used to select and configure an adapter
+ */
+export interface StorageConfig {
+  driver: StorageDriver;
+  postgres?: PostgresStorageConfig;
+  indexedDB?: {
+    name: string;
+  };
+}
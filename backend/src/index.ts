@@ -14,7 +14,10 @@ import { logger } from './utils/logger';
 import { errorHandler } from './middlewares/errorHandler';
 import { apiRouter } from './api';
 import { ServiceManager, ServiceManagerConfig } from './services';
+import { hsmSignerFromEnv } from './services/hsm/signer';
 import { setupWebSocketHandlers } from './api/websocket';
+import { militaryGradeEncryption } from './services/security/militaryGradeEncryption';
+import keyRotationService from './services/security/keyRotation';
 
 // Load environment variables
 dotenv.config();
@@ -124,7 +127,7 @@ const serviceConfig: ServiceManagerConfig = {
     user: process.env.DB_USER || 'postgres',
     password: process.env.DB_PASSWORD || '',
   },
-  relayerPrivateKey: process.env.RELAYER_PRIVATE_KEY || '',
+  relayerSigner: hsmSignerFromEnv('RELAYER_HSM_KEY_ID'),
   socketServer: io,
 };
 
@@ -135,6 +138,10 @@ const startServer = async () => {
   try {
     // Connect to database
     await getDatabase();
+
+    // Load the encryption root key and resume interrupted key rotation jobs
+    await militaryGradeEncryption.initialize();
+    await keyRotationService.initialize();
     
     // Initialize all services
     await serviceManager.initializeServices();
@@ -2,8 +2,10 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { ApiError } from './errorHandler';
 import { logger } from '../utils/logger';
-import { UserRole } from '../services/rbac';
+import { Permission, UserRole } from '../services/rbac';
 import { createAuditLog, AuditLog } from '../services/audit';
+import sessionService from '../services/sessions';
+import { verifyApiKey } from './security';
 
 // Define user interface
 export interface AuthUser {
@@ -13,6 +15,9 @@ export interface AuthUser {
   sessionId?: string;
   ipAddress?: string;
   lastLogin?: number;
+  apiKeyId?: string; // Set when the request is authenticated with an API key
+  tenantId?: string;
+  scopes?: Permission[]; // Permissions granted to the API key
 }
 
 // Extend Express Request interface to include user property
@@ -25,50 +30,32 @@ declare module 'express' {
   }
 }
 
+// Lifetime of access tokens; sessions are extended with refresh tokens
+export const ACCESS_TOKEN_EXPIRY = process.env.JWT_EXPIRY || '15m';
+
 /**
- * Generate a JWT token for a user
- * @param user User data to include in the token
+ * Generate a short-lived JWT access token for a session
+ * @param user User data to include in the token; must carry the session ID
  * @param ipAddress IP address of the user
  * @returns JWT token
  */
 export const generateToken = (user: AuthUser, ipAddress?: string): string => {
   try {
     const secret = process.env.JWT_SECRET || 'ryzer-wallet-secret';
-    
-    // Generate a unique session ID
-    const sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+    if (!user.sessionId) {
+      throw new Error('Access tokens must belong to a session');
+    }
     
     // Create user object with session information
     const userWithSession: AuthUser = {
       ...user,
-      sessionId,
       ipAddress,
       lastLogin: Date.now(),
       roles: user.roles || []
     };
     
-    // Create audit log for login
-    const auditLogData: Omit<AuditLog, "id" | "timestamp"> = {
-      action: 'user_login',
-      userId: user.walletAddress,
-      performedBy: user.walletAddress,
-      category: 'auth',
-      status: 'success',
-      targetId: user.walletAddress,
-      targetType: 'user',
-      sessionId,
-      ipAddress: ipAddress,
-      details: {
-        roles: user.roles,
-        isAdmin: user.isAdmin
-      }
-    };
-    
-    createAuditLog(auditLogData).catch(error => {
-      logger.error('Error creating login audit log:', error);
-    });
-    
-    return jwt.sign(userWithSession, secret, { expiresIn: '24h' });
+    return jwt.sign(userWithSession, secret, { expiresIn: ACCESS_TOKEN_EXPIRY } as jwt.SignOptions);
   } catch (error) {
     logger.error('Error generating token:', error);
     throw new Error('Failed to generate authentication token');
@@ -84,6 +71,11 @@ export const authenticate = async (
   next: NextFunction
 ): Promise<void> => {
   try {
+    // Server-to-server integrations authenticate with an API key instead of a token
+    if (req.headers['x-api-key']) {
+      return verifyApiKey(req, res, next);
+    }
+
     // Get token from header
     const authHeader = req.headers.authorization;
     
@@ -99,6 +91,12 @@ export const authenticate = async (
     
     // Verify token
     const decoded = verifyToken(token, req.ip);
+
+    // Reject tokens whose session was revoked or has expired
+    const session = decoded.sessionId ? await sessionService.touchSession(decoded.sessionId) : undefined;
+    if (!session) {
+      throw new ApiError(401, 'Session has been revoked or has expired');
+    }
     
     // Attach user to request
     req.user = decoded;
@@ -240,8 +238,10 @@ export const requirePermission = (permission: import('../services/rbac').Permiss
       // Get the wallet address from the request if it exists
       const walletAddress = req.params.walletAddress || req.body.walletAddress;
       
-      // Check if user has the required permission
-      const permitted = await hasPermission(req.user.walletAddress, permission, walletAddress);
+      // API keys are limited to their scopes; users go through RBAC
+      const permitted = req.user.apiKeyId
+        ? !!req.user.scopes?.includes(permission)
+        : await hasPermission(req.user.walletAddress, permission, walletAddress);
       
       if (!permitted) {
         // Create audit log for permission denied
@@ -258,7 +258,8 @@ export const requirePermission = (permission: import('../services/rbac').Permiss
           details: {
             requiredPermission: permission,
             method: req.method,
-            walletAddress
+            walletAddress,
+            apiKeyId: req.user.apiKeyId
           }
         };
         
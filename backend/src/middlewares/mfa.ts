@@ -0,0 +1,74 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from './errorHandler';
+import { canonicalJson } from '../utils/crypto';
+import { mfaService, MFAError, MFAOperationType } from '../services/security/mfaService';
+
+// Header carrying the token of a completed MFA session
+export const MFA_SESSION_HEADER = 'x-mfa-session';
+
+/**
+ * Require a completed MFA session for an operation.
+ *
+ * Without the MFA session header the middleware starts a session for the
+ * described operation and answers 403 with the session token and required
+ * factors. Once the factors are verified through /api/mfa, the client repeats
+ * the request with the token; the session is bound to the operation, so it
+ * cannot authorize a different one, and is consumed on use.
+ * @param operationType Type of operation
+ * @param describe Extracts the operation data from the request
+ */
+export const requireMFA = (operationType: MFAOperationType, describe: (req: Request) => Record<string, unknown>) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new ApiError(401, 'Authentication required');
+      }
+
+      const userId = req.user.walletAddress;
+      const operationData = describe(req);
+      const operationHash = crypto.createHash('sha256').update(canonicalJson(operationData)).digest('hex');
+
+      try {
+        const sessionToken = req.header(MFA_SESSION_HEADER);
+
+        if (!sessionToken) {
+          const requiredFactors = await mfaService.getRequiredFactors(userId, operationType, operationData);
+          if (requiredFactors.length === 0) {
+            return next();
+          }
+
+          const token = await mfaService.startMFASession(userId, operationType, { ...operationData, operationHash });
+          const session = await mfaService.getSession(token);
+
+          res.status(403).json({
+            status: 'error',
+            message: 'Multi-factor authentication required',
+            mfaRequired: true,
+            sessionToken: token,
+            requiredFactors: session.requiredFactors,
+            expiresAt: session.expiresAt,
+          });
+          return;
+        }
+
+        const session = await mfaService.getSession(sessionToken);
+        if (
+          session.userId !== userId ||
+          session.operationType !== operationType ||
+          session.operationData?.operationHash !== operationHash
+        ) {
+          throw new MFAError('MFA session was issued for a different operation', 403);
+        }
+
+        await mfaService.completeSession(sessionToken);
+      } catch (error) {
+        throw error instanceof MFAError ? new ApiError(error.statusCode, error.message) : error;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
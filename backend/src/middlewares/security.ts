@@ -8,7 +8,10 @@ import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import cors from 'cors';
 import { logger } from '../utils/logger';
-import { UserRole } from '../services/rbac';
+import { ApiError } from './errorHandler';
+import { Permission, UserRole } from '../services/rbac';
+import { createAuditLog, AuditAction } from '../services/audit';
+import apiKeyService, { ApiKeyError } from '../services/api-keys';
 
 // Rate limiting configuration
 const rateLimiter = rateLimit({
@@ -31,7 +34,7 @@ const rateLimiter = rateLimit({
 const corsOptions = {
   origin: process.env.CORS_ORIGIN || '*',
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-API-Key', 'X-MFA-Session'],
   credentials: true,
   maxAge: 86400, // 24 hours
 };
@@ -151,15 +154,71 @@ export const requireRole = (role: UserRole) => {
 };
 
 // API key verification middleware
-export const verifyApiKey = (req: Request, res: Response, next: NextFunction) => {
-  const apiKey = req.headers['x-api-key'];
-  
-  if (!apiKey) {
-    return res.status(401).json({ error: 'Unauthorized - No API key provided' });
+export const verifyApiKey = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const rawKey = req.headers['x-api-key'];
+
+    if (typeof rawKey !== 'string' || !rawKey) {
+      throw new ApiError(401, 'Unauthorized - No API key provided');
+    }
+
+    let apiKey;
+    try {
+      apiKey = await apiKeyService.authenticate(rawKey, req.ip);
+    } catch (error) {
+      if (error instanceof ApiKeyError) {
+        throw new ApiError(error.statusCode, error.message);
+      }
+      throw error;
+    }
+
+    // Per-key rate limit
+    const rateLimit = await apiKeyService.consumeRateLimit(apiKey);
+    res.setHeader('RateLimit-Limit', rateLimit.limit);
+    res.setHeader('RateLimit-Remaining', rateLimit.remaining);
+    res.setHeader('RateLimit-Reset', Math.ceil((rateLimit.resetAt - Date.now()) / 1000));
+    if (rateLimit.limited) {
+      logger.warn(`Rate limit exceeded for API key: ${apiKey.id}`);
+      throw new ApiError(429, 'API key rate limit exceeded');
+    }
+
+    const principal = `apikey:${apiKey.id}`;
+    req.user = {
+      walletAddress: principal,
+      roles: [],
+      apiKeyId: apiKey.id,
+      tenantId: apiKey.tenantId,
+      scopes: apiKey.scopes as Permission[],
+      ipAddress: req.ip,
+    };
+
+    // Record every API-key-authenticated request once its outcome is known
+    res.on('finish', () => {
+      createAuditLog({
+        action: AuditAction.API_KEY_USED,
+        userId: principal,
+        performedBy: principal,
+        category: 'api',
+        status: res.statusCode < 400 ? 'success' : 'failure',
+        targetId: req.originalUrl,
+        targetType: 'endpoint',
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+        details: {
+          apiKeyId: apiKey.id,
+          tenantId: apiKey.tenantId,
+          method: req.method,
+          path: req.originalUrl,
+          statusCode: res.statusCode,
+          targetType: 'endpoint',
+        },
+      }).catch(error => {
+        logger.error('Error creating API key audit log:', error);
+      });
+    });
+
+    next();
+  } catch (error) {
+    next(error);
   }
-  
-  // API key verification logic will be implemented here
-  // This is a placeholder for the actual API key verification
-  
-  next();
 };
@@ -1,6 +1,6 @@
 import { logger } from '../utils/logger';
 import { getDatabase } from '../config/database';
-import { SUPPORTED_NETWORKS } from '../config/networks';
+import chainRegistry from '../services/chain-registry';
 import relayerService from '../services/relayer';
 
 // Import services
@@ -194,7 +194,9 @@ export class RyzerWalletSDK {
       return cached;
     }
     
-    const networks = { ...SUPPORTED_NETWORKS };
+    const networks = Object.fromEntries(
+      chainRegistry.getChains().map(chain => [chain.chainId.toString(), chain])
+    );
     
     this.setCachedData(cacheKey, networks);
     
@@ -212,7 +214,7 @@ export class RyzerWalletSDK {
       initialized: this.initialized,
       config: this.config,
       services: {
-        batching: batchingService.getBatchingServiceStatus(),
+        batching: await batchingService.getBatchingServiceStatus(),
         simulation: simulationService.getSimulationServiceStatus(),
         crossChain: await crossChainService.getCrossChainServiceStatus(),
         recovery: recoveryService.getRecoveryServiceStatus(),
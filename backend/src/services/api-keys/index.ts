@@ -0,0 +1,437 @@
+import crypto from 'crypto';
+import net from 'net';
+import { logger } from '../../utils/logger';
+import { getDatabase, RyzerWalletDB } from '../../config/database';
+import { createAuditLog, AuditAction, AuditTargetType } from '../audit';
+import { Permission } from '../rbac';
+
+// Prefix identifying Ryzer API keys, e.g. ryz_<id>_<secret>
+const KEY_PREFIX = 'ryz';
+
+// Minimum time between two lastUsedAt updates of a key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export type ApiKey = RyzerWalletDB['api_keys']['value'];
+
+// API key options
+export interface ApiKeyOptions {
+  pepper: string; // Secret mixed into key hashes
+  defaultRateLimit: { windowMs: number; max: number };
+}
+
+// Parameters for creating an API key
+export interface CreateApiKeyParams {
+  tenantId: string;
+  name: string;
+  scopes: Permission[];
+  allowedIps?: string[];
+  expiresAt?: number;
+  rateLimit?: { windowMs: number; max: number };
+}
+
+// Rate limit state of a key after a request
+export interface ApiKeyRateLimitState {
+  limited: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+/**
+ * Error raised when an API key is invalid or cannot be used for a request
+ */
+export class ApiKeyError extends Error {
+  constructor(message: string, public readonly statusCode: number = 401) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+/**
+ * Strip the IPv4-mapped IPv6 prefix from an address
+ * @param ip IP address
+ */
+const normalizeIp = (ip: string): string => (ip.startsWith('::ffff:') && net.isIPv4(ip.slice(7)) ? ip.slice(7) : ip);
+
+/**
+ * Check whether an IP address matches an allowlist entry
+ * @param ip IP address of the request
+ * @param entry IP address or IPv4 CIDR range
+ */
+const ipMatches = (ip: string, entry: string): boolean => {
+  const [range, bits] = entry.split('/');
+  if (bits === undefined) {
+    return normalizeIp(ip) === normalizeIp(range);
+  }
+
+  const address = normalizeIp(ip);
+  if (!net.isIPv4(address) || !net.isIPv4(range)) {
+    return false;
+  }
+
+  const toInt = (value: string) => value.split('.').reduce((acc, octet) => (acc << 8) + parseInt(octet, 10), 0) >>> 0;
+  const prefix = parseInt(bits, 10);
+  const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+  return (toInt(address) & mask) === (toInt(range) & mask);
+};
+
+/**
+ * Check whether every address an allowlist entry admits is admitted by another entry
+ * @param entry IP address or IPv4 CIDR range
+ * @param outer IP address or IPv4 CIDR range
+ */
+const entryWithin = (entry: string, outer: string): boolean => {
+  const [range, bits] = entry.split('/');
+  if (bits === undefined) {
+    return ipMatches(range, outer);
+  }
+
+  const outerBits = outer.split('/')[1];
+  const outerPrefix = outerBits === undefined ? 32 : parseInt(outerBits, 10);
+  return parseInt(bits, 10) >= outerPrefix && ipMatches(range, outer);
+};
+
+/**
+ * Validate an allowlist entry
+ * @param entry IP address or IPv4 CIDR range
+ */
+const isValidIpEntry = (entry: string): boolean => {
+  const [range, bits] = entry.split('/');
+  if (bits === undefined) {
+    return net.isIP(range) !== 0;
+  }
+  return net.isIPv4(range) && /^\d+$/.test(bits) && parseInt(bits, 10) <= 32;
+};
+
+/**
+ * API keys for server-to-server integrations.
+ *
+ * Keys belong to a tenant and carry scopes taken from the RBAC `Permission`
+ * enum. Only an HMAC of the secret is stored; the full key is returned once
+ * when it is created or rotated.
+ */
+export class ApiKeyService {
+  constructor(private readonly options: ApiKeyOptions) {}
+
+  /**
+   * Hash the secret part of a key
+   * @param secret Key secret
+   */
+  private hashSecret(secret: string): string {
+    return crypto.createHmac('sha256', this.options.pepper).update(secret).digest('hex');
+  }
+
+  /**
+   * Validate key parameters
+   * @param params Key parameters
+   * @throws ApiKeyError if a parameter is invalid
+   */
+  private validateParams(params: CreateApiKeyParams): void {
+    const permissions = Object.values(Permission) as string[];
+
+    if (!params.name || typeof params.name !== 'string') {
+      throw new ApiKeyError('Key name is required', 400);
+    }
+    if (!params.tenantId || typeof params.tenantId !== 'string') {
+      throw new ApiKeyError('Tenant ID is required', 400);
+    }
+    if (!Array.isArray(params.scopes) || params.scopes.length === 0) {
+      throw new ApiKeyError('At least one scope is required', 400);
+    }
+    for (const scope of params.scopes) {
+      if (!permissions.includes(scope)) {
+        throw new ApiKeyError(`Unknown scope: ${scope}`, 400);
+      }
+    }
+    for (const entry of params.allowedIps || []) {
+      if (typeof entry !== 'string' || !isValidIpEntry(entry)) {
+        throw new ApiKeyError(`Invalid IP allowlist entry: ${entry}`, 400);
+      }
+    }
+    if (params.expiresAt !== undefined && (!Number.isFinite(params.expiresAt) || params.expiresAt <= Date.now())) {
+      throw new ApiKeyError('Expiry must be in the future', 400);
+    }
+    if (
+      params.rateLimit &&
+      (!Number.isInteger(params.rateLimit.windowMs) ||
+        params.rateLimit.windowMs <= 0 ||
+        !Number.isInteger(params.rateLimit.max) ||
+        params.rateLimit.max <= 0)
+    ) {
+      throw new ApiKeyError('Rate limit requires a positive windowMs and max', 400);
+    }
+  }
+
+  /**
+   * Create an API key
+   * @param params Key parameters
+   * @param createdBy Address of the administrator creating the key
+   * @param rotatedFrom ID of the key being replaced, if rotating
+   * @returns Stored key and the full key value, which is not retrievable later
+   * @throws ApiKeyError if a parameter is invalid
+   */
+  public async createKey(
+    params: CreateApiKeyParams,
+    createdBy: string,
+    rotatedFrom?: string
+  ): Promise<{ apiKey: ApiKey; key: string }> {
+    this.validateParams(params);
+
+    const db = await getDatabase();
+    const id = crypto.randomBytes(8).toString('hex');
+    const secret = crypto.randomBytes(32).toString('base64url');
+
+    const apiKey: ApiKey = {
+      id,
+      tenantId: params.tenantId,
+      name: params.name,
+      keyHash: this.hashSecret(secret),
+      scopes: params.scopes,
+      allowedIps: params.allowedIps?.length ? params.allowedIps : undefined,
+      rateLimit: params.rateLimit,
+      status: 'active',
+      createdAt: Date.now(),
+      createdBy,
+      expiresAt: params.expiresAt,
+      rotatedFrom,
+    };
+    await db.add('api_keys', apiKey);
+
+    if (!rotatedFrom) {
+      await this.audit(AuditAction.API_KEY_CREATED, apiKey, createdBy, { scopes: apiKey.scopes });
+    }
+
+    return { apiKey, key: `${KEY_PREFIX}_${id}_${secret}` };
+  }
+
+  /**
+   * Replace a key with a new one carrying the same settings
+   * @param id Key ID
+   * @param rotatedBy Address of the administrator rotating the key
+   * @param gracePeriodMs Time the old key keeps working
+   * @returns New key and its full value
+   * @throws ApiKeyError if the key is not active
+   */
+  public async rotateKey(
+    id: string,
+    rotatedBy: string,
+    gracePeriodMs: number = 0
+  ): Promise<{ apiKey: ApiKey; key: string }> {
+    const db = await getDatabase();
+    const current = await db.get('api_keys', id);
+
+    if (!current || current.status !== 'active' || current.rotatedTo) {
+      throw new ApiKeyError('API key not found or not active', 404);
+    }
+    if (current.expiresAt && current.expiresAt <= Date.now()) {
+      throw new ApiKeyError('API key has expired', 400);
+    }
+
+    const created = await this.createKey(
+      {
+        tenantId: current.tenantId,
+        name: current.name,
+        scopes: current.scopes as Permission[],
+        allowedIps: current.allowedIps,
+        expiresAt: current.expiresAt,
+        rateLimit: current.rateLimit,
+      },
+      rotatedBy,
+      current.id
+    );
+
+    const graceEndsAt = Date.now() + Math.max(0, gracePeriodMs);
+    await db.put('api_keys', {
+      ...current,
+      status: gracePeriodMs > 0 ? 'active' : 'rotated',
+      expiresAt: gracePeriodMs > 0 ? Math.min(current.expiresAt ?? graceEndsAt, graceEndsAt) : current.expiresAt,
+      rotatedTo: created.apiKey.id,
+    });
+
+    await this.audit(AuditAction.API_KEY_ROTATED, current, rotatedBy, {
+      rotatedTo: created.apiKey.id,
+      gracePeriodMs,
+    });
+
+    return created;
+  }
+
+  /**
+   * Revoke a key
+   * @param id Key ID
+   * @param revokedBy Address of the administrator revoking the key
+   * @returns True if an active key was revoked
+   */
+  public async revokeKey(id: string, revokedBy: string): Promise<boolean> {
+    const db = await getDatabase();
+    const apiKey = await db.get('api_keys', id);
+
+    if (!apiKey || apiKey.status === 'revoked') {
+      return false;
+    }
+
+    await db.put('api_keys', { ...apiKey, status: 'revoked', revokedAt: Date.now(), revokedBy });
+    await db.delete('api_key_rate_limits', id);
+
+    await this.audit(AuditAction.API_KEY_REVOKED, apiKey, revokedBy);
+    return true;
+  }
+
+  /**
+   * Get a key
+   * @param id Key ID
+   * @returns Key or undefined if not found
+   */
+  public async getKey(id: string): Promise<ApiKey | undefined> {
+    const db = await getDatabase();
+    return db.get('api_keys', id);
+  }
+
+  /**
+   * List keys, optionally limited to a tenant
+   * @param tenantId Tenant ID
+   * @returns Keys, newest first
+   */
+  public async listKeys(tenantId?: string): Promise<ApiKey[]> {
+    const db = await getDatabase();
+    const keys = tenantId ? await db.getAllFromIndex('api_keys', 'by-tenant', tenantId) : await db.getAll('api_keys');
+    return keys.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Authenticate a request made with an API key
+   * @param rawKey Full key value from the request
+   * @param ipAddress IP address of the request
+   * @returns Key
+   * @throws ApiKeyError if the key is invalid, expired, revoked or not allowed from the IP
+   */
+  public async authenticate(rawKey: string, ipAddress?: string): Promise<ApiKey> {
+    const match = /^([a-z]+)_([0-9a-f]{16})_([A-Za-z0-9_-]{43})$/.exec(rawKey);
+    if (!match || match[1] !== KEY_PREFIX) {
+      throw new ApiKeyError('Invalid API key');
+    }
+
+    const db = await getDatabase();
+    const apiKey = await db.get('api_keys', match[2]);
+    const now = Date.now();
+
+    const presented = Buffer.from(this.hashSecret(match[3]), 'hex');
+    const stored = Buffer.from(apiKey?.keyHash || '', 'hex');
+    if (!apiKey || stored.length !== presented.length || !crypto.timingSafeEqual(stored, presented)) {
+      throw new ApiKeyError('Invalid API key');
+    }
+
+    if (apiKey.status !== 'active') {
+      throw new ApiKeyError('API key has been revoked');
+    }
+    if (apiKey.expiresAt && apiKey.expiresAt <= now) {
+      throw new ApiKeyError('API key has expired');
+    }
+    if (apiKey.allowedIps?.length && !(ipAddress && apiKey.allowedIps.some(entry => ipMatches(ipAddress, entry)))) {
+      logger.warn(`API key ${apiKey.id} used from IP ${ipAddress} outside its allowlist`);
+      throw new ApiKeyError('API key is not allowed from this IP address', 403);
+    }
+
+    if (!apiKey.lastUsedAt || now - apiKey.lastUsedAt >= LAST_USED_RESOLUTION_MS) {
+      db.put('api_keys', { ...apiKey, lastUsedAt: now, lastUsedIp: ipAddress }).catch(error => {
+        logger.warn(`Failed to update last used time of API key ${apiKey.id}:`, error);
+      });
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Count a request against the key's rate limit. Windows are kept in the
+   * database, so the limit holds across every backend replica.
+   * @param apiKey Key
+   * @returns Rate limit state after the request
+   */
+  public async consumeRateLimit(apiKey: ApiKey): Promise<ApiKeyRateLimitState> {
+    const { windowMs, max } = apiKey.rateLimit || this.options.defaultRateLimit;
+    const db = await getDatabase();
+
+    const window = await db.withExclusiveLock(`api-key-rate-limit:${apiKey.id}`, async () => {
+      const now = Date.now();
+      const current = await db.get('api_key_rate_limits', apiKey.id);
+      const next =
+        !current || now - current.windowStartedAt >= windowMs
+          ? { apiKeyId: apiKey.id, windowStartedAt: now, count: 1 }
+          : { ...current, count: current.count + 1 };
+      await db.put('api_key_rate_limits', next);
+      return next;
+    });
+
+    return {
+      limited: window.count > max,
+      limit: max,
+      remaining: Math.max(0, max - window.count),
+      resetAt: window.windowStartedAt + windowMs,
+    };
+  }
+
+  /**
+   * Check an allowlist admits no address a key's allowlist refuses
+   * @param apiKey Key whose allowlist bounds the other
+   * @param allowedIps Allowlist to check; a missing or empty one admits every address
+   */
+  public isAllowlistWithin(apiKey: ApiKey, allowedIps?: string[]): boolean {
+    if (!apiKey.allowedIps?.length) {
+      return true;
+    }
+    return (
+      !!allowedIps?.length &&
+      allowedIps.every(
+        entry => typeof entry === 'string' && apiKey.allowedIps!.some(outer => entryWithin(entry, outer))
+      )
+    );
+  }
+
+  /**
+   * Remove the secret hash from a key before returning it
+   * @param apiKey Key
+   * @returns Key without its hash
+   */
+  public toPublicKey(apiKey: ApiKey): Omit<ApiKey, 'keyHash'> {
+    const { keyHash, ...rest } = apiKey;
+    return { ...rest };
+  }
+
+  /**
+   * Write an audit log entry for a key management action
+   * @param action Audit action
+   * @param apiKey Key acted on
+   * @param performedBy Address of the administrator
+   * @param details Additional details
+   */
+  private async audit(
+    action: AuditAction,
+    apiKey: ApiKey,
+    performedBy: string,
+    details: Record<string, any> = {}
+  ): Promise<void> {
+    await createAuditLog({
+      action,
+      userId: performedBy,
+      performedBy,
+      category: 'security',
+      status: 'success',
+      targetId: apiKey.id,
+      targetType: AuditTargetType.API_KEY,
+      details: { ...details, apiKeyId: apiKey.id, tenantId: apiKey.tenantId, targetType: AuditTargetType.API_KEY },
+    }).catch(error => {
+      logger.error(`Error creating ${action} audit log:`, error);
+    });
+  }
+}
+
+// Create and export a singleton instance
+const apiKeyService = new ApiKeyService({
+  pepper: process.env.API_KEY_PEPPER || process.env.JWT_SECRET || 'ryzer-wallet-secret',
+  defaultRateLimit: {
+    windowMs: parseInt(process.env.API_KEY_RATE_LIMIT_WINDOW_MS || '60000', 10),
+    max: parseInt(process.env.API_KEY_RATE_LIMIT_MAX || '600', 10),
+  },
+});
+
+export default apiKeyService;
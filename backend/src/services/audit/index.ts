@@ -35,14 +35,42 @@ export enum AuditAction {
   PASSWORD_CHANGED = 'password_changed',
   MFA_ENABLED = 'mfa_enabled',
   MFA_DISABLED = 'mfa_disabled',
+  MFA_RECOVERY_CODE_USED = 'mfa_recovery_code_used',
+  MFA_CREDENTIAL_CLONED = 'mfa_credential_cloned',
   API_KEY_CREATED = 'api_key_created',
   API_KEY_REVOKED = 'api_key_revoked',
+  API_KEY_ROTATED = 'api_key_rotated',
+  API_KEY_USED = 'api_key_used',
+  ENCRYPTION_KEY_ROTATED = 'encryption_key_rotated',
+  ENCRYPTION_JOB_STARTED = 'encryption_job_started',
+  ENCRYPTION_JOB_FINISHED = 'encryption_job_finished',
   
   // HSM actions
   HSM_KEY_CREATED = 'hsm_key_created',
   HSM_KEY_USED = 'hsm_key_used',
   HSM_KEY_ROTATED = 'hsm_key_rotated',
-  HSM_KEY_DELETED = 'hsm_key_deleted'
+  HSM_KEY_DELETED = 'hsm_key_deleted',
+
+  // TEE actions
+  TEE_ATTESTATION_VERIFIED = 'tee_attestation_verified',
+  TEE_ATTESTATION_REJECTED = 'tee_attestation_rejected',
+  TEE_ATTESTATION_REVOKED = 'tee_attestation_revoked',
+
+  // Intrusion detection actions
+  SECURITY_RULES_UPDATED = 'security_rules_updated',
+  SECURITY_EVENT_BLOCKED = 'security_event_blocked',
+  ACCOUNT_LOCKED = 'account_locked',
+  ACCOUNT_UNLOCKED = 'account_unlocked',
+
+  // Security incident actions
+  INCIDENT_OPENED = 'incident_opened',
+  INCIDENT_UPDATED = 'incident_updated',
+  INCIDENT_STATUS_CHANGED = 'incident_status_changed',
+  INCIDENT_NOTE_ADDED = 'incident_note_added',
+
+  // Address reputation actions
+  ADDRESS_LIST_UPDATED = 'address_list_updated',
+  TRANSACTION_BLOCKED_BY_REPUTATION = 'transaction_blocked_by_reputation'
 }
 
 // Target types for audit logs
@@ -54,7 +82,13 @@ export enum AuditTargetType {
   SETTING = 'setting',
   PERMISSION = 'permission',
   API_KEY = 'api_key',
-  HSM_KEY = 'hsm_key'
+  HSM_KEY = 'hsm_key',
+  ENCRYPTION_KEY = 'encryption_key',
+  TEE_ATTESTATION = 'tee_attestation',
+  SECURITY_RULE_SET = 'security_rule_set',
+  SECURITY_EVENT = 'security_event',
+  SECURITY_INCIDENT = 'security_incident',
+  ADDRESS = 'address'
 }
 
 // Audit log interface
@@ -135,7 +169,7 @@ const filterAuditLogs = (logs: AuditLog[], filters: AuditLogFilters): AuditLog[]
  * @param params Audit log parameters
  * @returns Created audit log
  */
-export const createAuditLog = async (logData: Omit<AuditLog, 'id' | 'timestamp'>): Promise<void> => {
+export const createAuditLog = async (logData: Omit<AuditLog, 'id' | 'timestamp'>): Promise<AuditLog> => {
   try {
     const db = await getDatabase();
     if (!db) {
@@ -157,6 +191,7 @@ export const createAuditLog = async (logData: Omit<AuditLog, 'id' | 'timestamp'>
     await tx.done;
 
     logger.debug(`Audit log created: ${auditLog.id}`);
+    return auditLog;
   } catch (error) {
     logger.error('Error creating audit log:', error);
     throw error;
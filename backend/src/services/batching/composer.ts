@@ -0,0 +1,122 @@
+import { RyzerWalletDB } from '../../config/database';
+
+type QueuedTransaction = RyzerWalletDB['pendingTransactions']['value'];
+
+// Transactions of a wallet composed into a batch
+export interface ComposedBatch {
+  transactions: QueuedTransaction[]; // Every dependency before its dependents
+  unsatisfiable: Map<string, string>; // Reasons by transaction ID, for candidates whose dependencies can never complete
+}
+
+const PRIORITY_ORDER: Record<QueuedTransaction['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+// Statuses after which a transaction can never complete
+export const FAILED_STATUSES: QueuedTransaction['status'][] = ['failed', 'dead_letter', 'cancelled'];
+
+/**
+ * Compose a batch out of a wallet's transactions that are due. A candidate is
+ * batched once each dependency has completed or is batched before it; it
+ * waits while a dependency is queued outside the candidates or in another
+ * batch, and can never be batched once a dependency failed. The batch is
+ * ordered topologically, highest priority and then oldest first among the
+ * transactions whose dependencies are placed, and cut at maxTransactions, so
+ * it holds the dependencies of everything in it.
+ * @param candidates Transactions that may be batched
+ * @param dependencies Transactions candidates depend on that are not candidates themselves
+ * @param maxTransactions Largest batch
+ */
+export const composeBatch = (
+  candidates: QueuedTransaction[],
+  dependencies: Map<string, QueuedTransaction>,
+  maxTransactions: number
+): ComposedBatch => {
+  const byId = new Map(candidates.map(tx => [tx.id, tx]));
+  const unsatisfiable = new Map<string, string>();
+  const waiting = new Set<string>();
+
+  // Resolve each candidate after its dependencies
+  const resolved = new Set<string>();
+  const resolve = (tx: QueuedTransaction, path: Set<string>): void => {
+    if (resolved.has(tx.id)) {
+      return;
+    }
+    path.add(tx.id);
+    for (const depId of tx.dependsOn || []) {
+      const candidate = byId.get(depId);
+      if (candidate) {
+        if (path.has(depId)) {
+          unsatisfiable.set(tx.id, `Dependency cycle through ${depId}`);
+          break;
+        }
+        resolve(candidate, path);
+        if (unsatisfiable.has(depId)) {
+          unsatisfiable.set(tx.id, `Dependency ${depId} can never complete`);
+          break;
+        }
+        if (waiting.has(depId)) {
+          waiting.add(tx.id);
+        }
+        continue;
+      }
+
+      const dependency = dependencies.get(depId);
+      if (!dependency) {
+        unsatisfiable.set(tx.id, `Dependency ${depId} not found`);
+        break;
+      }
+      if (FAILED_STATUSES.includes(dependency.status)) {
+        unsatisfiable.set(tx.id, `Dependency ${depId} ${dependency.status.replace('_', '-')}`);
+        break;
+      }
+      if (dependency.status !== 'completed') {
+        waiting.add(tx.id);
+      }
+    }
+    path.delete(tx.id);
+    resolved.add(tx.id);
+  };
+  candidates.forEach(tx => resolve(tx, new Set()));
+
+  // Place transactions whose dependencies are placed, best first
+  const ready = candidates.filter(tx => !unsatisfiable.has(tx.id) && !waiting.has(tx.id));
+  const placed = new Set<string>();
+  const transactions: QueuedTransaction[] = [];
+  while (transactions.length < maxTransactions) {
+    const next = ready
+      .filter(tx => !placed.has(tx.id) && (tx.dependsOn || []).every(depId => !byId.has(depId) || placed.has(depId)))
+      .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.timestamp - b.timestamp)[0];
+    if (!next) {
+      break;
+    }
+    placed.add(next.id);
+    transactions.push(next);
+  }
+
+  return { transactions, unsatisfiable };
+};
+
+/**
+ * Split the reverted transactions of a simulated batch from those that
+ * depend, directly or not, on one of them. A dependent is taken out with its
+ * dependency whether or not it reverted itself, as its revert may only follow
+ * from the dependency's.
+ * @param transactions Batch transactions
+ * @param succeeded Whether each transaction's call succeeded
+ * @returns IDs of the reverted transactions and of their dependents
+ */
+export const isolateReverts = (
+  transactions: QueuedTransaction[],
+  succeeded: boolean[]
+): { reverted: Set<string>; dependents: Set<string> } => {
+  const reverted = new Set<string>();
+  const dependents = new Set<string>();
+  // Batches are in dependency order, so one pass finds indirect dependents
+  for (const [i, tx] of transactions.entries()) {
+    if ((tx.dependsOn || []).some(depId => reverted.has(depId) || dependents.has(depId))) {
+      dependents.add(tx.id);
+    } else if (!succeeded[i]) {
+      reverted.add(tx.id);
+    }
+  }
+  return { reverted, dependents };
+};
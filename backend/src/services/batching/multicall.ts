@@ -0,0 +1,204 @@
+import { ethers } from 'ethers';
+
+// Call a wallet makes in a batch, through its batch call
+export interface BatchCall {
+  to: string;
+  value: string; // Wei
+  data: string;
+  allowFailure: boolean; // Otherwise a revert reverts the whole batch
+}
+
+// Outcome of one call of a batch
+export interface CallResult {
+  success: boolean;
+  returnData: string;
+  revertReason?: string;
+  gasUsed?: string; // Only known from a trace
+}
+
+// The part of Multicall3 batches are simulated with
+export const multicallInterface = new ethers.utils.Interface([
+  'function aggregate3Value(tuple(address target, bool allowFailure, uint256 value, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
+]);
+
+// Selectors of the errors decoded into revert reasons
+const ERROR_SELECTOR = ethers.utils.id('Error(string)').slice(0, 10);
+const PANIC_SELECTOR = ethers.utils.id('Panic(uint256)').slice(0, 10);
+
+// One frame of a debug_traceTransaction callTracer trace
+interface CallFrame {
+  type: string;
+  from?: string;
+  to?: string;
+  input: string;
+  output?: string;
+  gasUsed: string;
+  error?: string;
+  revertReason?: string;
+  calls?: CallFrame[];
+}
+
+/**
+ * Encode an aggregate3Value call letting every call fail
+ * @param calls Calls, in execution order
+ */
+const encodeAggregate = (calls: BatchCall[]): string =>
+  multicallInterface.encodeFunctionData('aggregate3Value', [
+    calls.map(({ to, value, data }) => ({ target: to, allowFailure: true, value, callData: data })),
+  ]);
+
+/**
+ * Decode the revert reason of a call's return data
+ * @param returnData Return data of a reverted call
+ * @returns Error(string) message, Panic code, or custom error selector; undefined for a bare revert
+ */
+export const decodeRevertReason = (returnData: string): string | undefined => {
+  if (!returnData || returnData === '0x') {
+    return undefined;
+  }
+  const selector = returnData.slice(0, 10);
+  const args = ethers.utils.hexDataSlice(returnData, 4);
+  try {
+    if (selector === ERROR_SELECTOR) {
+      return ethers.utils.defaultAbiCoder.decode(['string'], args)[0];
+    }
+    if (selector === PANIC_SELECTOR) {
+      return `Panic(${ethers.utils.defaultAbiCoder.decode(['uint256'], args)[0].toHexString()})`;
+    }
+  } catch {
+    // Malformed; reported by its selector
+  }
+  return `Custom error ${selector}`;
+};
+
+/**
+ * Run calls as a wallet with eth_call, letting every call fail so each one's
+ * outcome is reported. The wallet's code is overridden with Multicall3's for
+ * the call, so its aggregate makes each call from the wallet, as the wallet's
+ * batch call does.
+ * @param provider Provider; the node must support eth_call state overrides
+ * @param multicall Multicall3 address
+ * @param wallet Wallet the calls are made from; pays their value
+ * @param calls Calls
+ * @param blockTag Block whose state the calls run on
+ * @returns Result of each call
+ */
+export const simulateBatch = async (
+  provider: ethers.providers.BaseProvider,
+  multicall: string,
+  wallet: string,
+  calls: BatchCall[],
+  blockTag: ethers.providers.BlockTag = 'latest'
+): Promise<CallResult[]> => {
+  const code = await provider.getCode(multicall, blockTag);
+  if (code === '0x') {
+    throw new Error(`No Multicall3 deployed at ${multicall}`);
+  }
+  const value = calls.reduce((sum, call) => sum.add(call.value), ethers.constants.Zero);
+  const transaction = {
+    from: wallet,
+    to: wallet,
+    value: ethers.utils.hexValue(value),
+    data: encodeAggregate(calls),
+  };
+  const block = typeof blockTag === 'number' ? ethers.utils.hexValue(blockTag) : blockTag;
+
+  let output: string | undefined;
+  let lastError: Error = new Error('No JSON-RPC provider to simulate with');
+  for (const rpc of rpcProviders(provider)) {
+    try {
+      output = await rpc.send('eth_call', [transaction, block, { [wallet]: { code } }]);
+      break;
+    } catch (error) {
+      lastError = error as Error; // A revert or an unsupported override; try the next
+    }
+  }
+  if (output === undefined) {
+    throw lastError;
+  }
+
+  const [results] = multicallInterface.decodeFunctionResult('aggregate3Value', output);
+  return (results as { success: boolean; returnData: string }[]).map(({ success, returnData }) => ({
+    success,
+    returnData,
+    revertReason: success ? undefined : decodeRevertReason(returnData),
+  }));
+};
+
+/**
+ * Result and gas of each call a wallet made in a mined batch, from a
+ * callTracer trace. The calls the wallet made are matched to the batch's in
+ * order by target, so calls it makes of its own, such as paying a prefund,
+ * are passed over.
+ * @param provider Provider; the node must support debug_traceTransaction
+ * @param hash Transaction hash
+ * @param wallet Wallet the batch was sent through
+ * @param calls Calls of the batch, in order
+ * @returns Result of each call up to the last one made, or undefined if the
+ * node cannot trace or the wallet made none of the calls
+ */
+export const traceBatch = async (
+  provider: ethers.providers.BaseProvider,
+  hash: string,
+  wallet: string,
+  calls: BatchCall[]
+): Promise<CallResult[] | undefined> => {
+  let trace: CallFrame | undefined;
+  for (const rpc of rpcProviders(provider)) {
+    try {
+      trace = await rpc.send('debug_traceTransaction', [hash, { tracer: 'callTracer' }]);
+      break;
+    } catch {
+      // Tracing unsupported or the endpoint failed; try the next
+    }
+  }
+  if (!trace) {
+    return undefined;
+  }
+
+  const results: CallResult[] = [];
+  for (const frame of walletCalls(trace, wallet.toLowerCase())) {
+    if (results.length === calls.length) {
+      break;
+    }
+    if (frame.to?.toLowerCase() !== calls[results.length].to.toLowerCase()) {
+      continue;
+    }
+    const returnData = frame.output || '0x';
+    const success = !frame.error;
+    results.push({
+      success,
+      returnData,
+      revertReason: success ? undefined : decodeRevertReason(returnData) || frame.revertReason,
+      gasUsed: ethers.BigNumber.from(frame.gasUsed).toString(),
+    });
+  }
+  return results.length > 0 ? results : undefined;
+};
+
+/**
+ * Calls made by a wallet in a trace, in execution order, without the calls
+ * made within them
+ * @param frame Root frame
+ * @param wallet Lowercase wallet address
+ */
+const walletCalls = (frame: CallFrame, wallet: string): CallFrame[] =>
+  (frame.calls || []).flatMap(call =>
+    call.type === 'CALL' && call.from?.toLowerCase() === wallet ? [call] : walletCalls(call, wallet)
+  );
+
+/**
+ * JSON-RPC providers behind a registry provider, in priority order
+ * @param provider Registry provider
+ */
+const rpcProviders = (provider: ethers.providers.BaseProvider): ethers.providers.JsonRpcProvider[] => {
+  if (provider instanceof ethers.providers.JsonRpcProvider) {
+    return [provider];
+  }
+  if (provider instanceof ethers.providers.FallbackProvider) {
+    return provider.providerConfigs
+      .map(config => config.provider)
+      .filter((rpc): rpc is ethers.providers.JsonRpcProvider => rpc instanceof ethers.providers.JsonRpcProvider);
+  }
+  return [];
+};
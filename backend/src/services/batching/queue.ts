@@ -0,0 +1,1189 @@
+import os from 'os';
+import { ethers } from 'ethers';
+import { logger } from '../../utils/logger';
+import { createAuditLog } from '../../audit';
+import { getDatabase, RyzerWalletDB } from '../../config/database';
+import chainRegistry, { ChainRegistry, MULTICALL3_ADDRESS } from '../chain-registry';
+import { gasOracle, GasOracle } from '../gas-oracle';
+import sdkService from '../sdk-integration';
+import { composeBatch, FAILED_STATUSES, isolateReverts } from './composer';
+import { BatchCall, CallResult, simulateBatch, traceBatch } from './multicall';
+
+export type QueuedTransaction = RyzerWalletDB['pendingTransactions']['value'];
+export type BatchRecord = RyzerWalletDB['batches']['value'];
+export type BatchPriority = QueuedTransaction['priority'];
+
+// A transaction to batch
+export interface BatchTransactionRequest {
+  chainId: number;
+  walletAddress: string;
+  to: string;
+  data: string;
+  value: string; // Wei
+  priority: BatchPriority;
+  maxGasPrice?: string; // Wei
+  deadline?: number; // Unix milliseconds
+  idempotencyKey?: string; // Queueing again with the same key returns the first transaction
+  dependsOn?: string[]; // IDs of transactions on the same chain that must complete first
+  allowFailure?: boolean; // A revert fails only this transaction rather than its batch
+}
+
+// Batch configuration of a chain
+export interface BatchConfig {
+  maxTransactions: number;
+  minTransactions: number;
+  maxTimeInQueue: number; // milliseconds
+  gasThreshold: string; // wei; above it only urgent batches are sent
+  priorityBoost: number; // multiplier for high priority transactions
+}
+
+// Batch queue options
+export interface BatchQueueOptions {
+  workerId: string; // Owner of this process's leases; a restart with the same ID reclaims its batches at once
+  leaseMs: number; // How long a batch stays reserved for its worker without a heartbeat
+  maxAttempts: number; // Batches a transaction may be claimed by before it is dead-lettered
+  retryDelayMs: number; // Wait before the first retry of a failed transaction; doubles with each attempt
+  pollIntervalMs: number; // How often queues are batched and expired leases reconciled
+  receiptTimeoutMs: number; // How long a worker waits for a broadcast batch before leaving it to reconciliation
+}
+
+// Sends batches on chain
+export interface BatchExecutor {
+  execute(batch: BatchRecord, calls: BatchCall[]): Promise<string>; // Broadcasts through the batch wallet's batch call; returns the hash
+}
+
+// Queue sizes and batches in flight, as reported on the batching status
+export interface BatchQueueStatus {
+  status: 'active' | 'stopped';
+  workerId: string;
+  queueSizes: Record<number, number>;
+  deadLetters: Record<number, number>;
+  activeBatches: number;
+  configs: Record<number, BatchConfig>;
+}
+
+export class BatchingError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'BatchingError';
+  }
+}
+
+const DEFAULT_BATCH_CONFIG: BatchConfig = {
+  maxTransactions: 10,
+  minTransactions: 3,
+  maxTimeInQueue: 5 * 60 * 1000, // 5 minutes
+  gasThreshold: '50000000000', // 50 gwei
+  priorityBoost: 1.5,
+};
+
+const PRIORITY_ORDER: Record<BatchPriority, number> = { high: 0, medium: 1, low: 2 };
+
+// Statuses of batches a worker may still be processing
+const ACTIVE_BATCH_STATUSES: BatchRecord['status'][] = ['pending', 'simulating', 'executing'];
+
+// Transactions that may be cancelled
+const CANCELLABLE_STATUSES: QueuedTransaction['status'][] = ['queued', 'dead_letter'];
+
+// Largest value in index ranges
+const MAX_INDEX_VALUE = Number.MAX_SAFE_INTEGER;
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 200;
+
+const MAX_DEPENDENCIES = 20;
+
+/**
+ * Batch configuration of a chain before any update
+ * @param chainId Chain ID
+ */
+const defaultBatchConfig = (chainId: number): BatchConfig => {
+  const config = { ...DEFAULT_BATCH_CONFIG };
+  if (chainId === 1) { // Ethereum Mainnet
+    config.maxTransactions = 5;
+    config.gasThreshold = '80000000000'; // 80 gwei
+  } else if (chainId === 137) { // Polygon
+    config.maxTransactions = 15;
+    config.minTransactions = 5;
+  }
+  return config;
+};
+
+/**
+ * Name of the lock serializing the queue and batches of a chain
+ * @param chainId Chain ID
+ */
+const queueLock = (chainId: number): string => `batching:${chainId}`;
+
+/**
+ * Calls the wallet of a batch makes
+ * @param transactions Batch transactions, in batch order
+ */
+const batchCalls = (transactions: QueuedTransaction[]): BatchCall[] =>
+  transactions.map(tx => ({
+    to: tx.to,
+    value: tx.value,
+    data: tx.data,
+    allowFailure: !!tx.allowFailure,
+  }));
+
+/**
+ * Total value of transactions
+ * @param transactions Transactions
+ * @returns Wei
+ */
+const totalValue = (transactions: QueuedTransaction[]): string =>
+  transactions.reduce((sum, tx) => sum.add(tx.value), ethers.constants.Zero).toString();
+
+/**
+ * Result of a call as recorded on its transaction
+ * @param result Call result
+ */
+const callResult = ({ success, returnData, revertReason, gasUsed }: CallResult): QueuedTransaction['result'] => ({
+  success,
+  returnData,
+  revertReason,
+  gasUsed,
+});
+
+/**
+ * Sends batches through the wallet's batch call in the RyzerWallet SDK
+ */
+export const sdkBatchExecutor: BatchExecutor = {
+  async execute(batch, calls) {
+    const tx = await sdkService.getSDK(batch.chainId).core.batchTransactions(batch.walletAddress, calls);
+    return tx.hash;
+  },
+};
+
+/**
+ * Durable queue of transactions to batch. Queued transactions and batches are
+ * stored, and every change is made under a per-chain database lock, so
+ * replicas share one queue. A worker claims transactions into a batch that it
+ * leases and renews while it simulates, broadcasts and waits for it; a batch
+ * whose lease lapses is reconciled by any worker: settled from its receipt,
+ * watched if still pending, or failed if it never reached the chain. Failed
+ * transactions are queued again with backoff until maxAttempts, then
+ * dead-lettered. Delivery is at least once: a worker stopped between
+ * broadcasting a batch and recording its hash leaves a batch that is retried.
+ *
+ * A batch is sent through its wallet's batch call, so each transaction is
+ * called by the wallet. It is simulated as a Multicall3 aggregate run in
+ * place of the wallet's code. Transactions are ordered after their
+ * dependencies, and the result of each call is recorded on its transaction.
+ */
+export class BatchQueue {
+  private static instance: BatchQueue;
+  private configs = new Map<number, BatchConfig>();
+  private timer?: NodeJS.Timeout;
+  private processing: Promise<void> | null = null;
+
+  constructor(
+    private readonly options: BatchQueueOptions,
+    private readonly executor: BatchExecutor = sdkBatchExecutor,
+    private readonly chains: ChainRegistry = chainRegistry,
+    private readonly oracle: GasOracle = gasOracle
+  ) {}
+
+  /**
+   * Get the singleton instance of BatchQueue
+   */
+  public static getInstance(): BatchQueue {
+    if (!BatchQueue.instance) {
+      BatchQueue.instance = new BatchQueue(batchQueueOptionsFromEnv());
+    }
+    return BatchQueue.instance;
+  }
+
+  /**
+   * Get the batch configuration of a chain
+   * @param chainId Chain ID
+   */
+  public getConfig(chainId: number): BatchConfig {
+    let config = this.configs.get(chainId);
+    if (!config) {
+      config = defaultBatchConfig(chainId);
+      this.configs.set(chainId, config);
+    }
+    return config;
+  }
+
+  /**
+   * Update the batch configuration of a chain
+   * @param chainId Chain ID
+   * @param changes Settings to replace
+   */
+  public updateConfig(chainId: number, changes: Partial<BatchConfig>): BatchConfig {
+    const config = { ...this.getConfig(chainId), ...changes };
+    this.configs.set(chainId, config);
+    return config;
+  }
+
+  /**
+   * Queue a transaction. With an idempotency key, queueing the same
+   * transaction again returns the stored one.
+   * @param request Transaction
+   * @returns Queued transaction
+   * @throws BatchingError if the request is invalid, a dependency can never
+   * complete, or its key was used for another transaction
+   */
+  public async enqueue(request: BatchTransactionRequest): Promise<QueuedTransaction> {
+    this.validate(request);
+    const db = await getDatabase();
+    const now = Date.now();
+    const { chainId, walletAddress, idempotencyKey } = request;
+
+    const transaction: QueuedTransaction = {
+      id: idempotencyKey
+        ? `tx-${chainId}-${walletAddress.toLowerCase()}-${ethers.utils.id(idempotencyKey).slice(2, 18)}`
+        : `tx-${chainId}-${walletAddress}-${now}-${Math.random().toString(36).substring(2, 10)}`,
+      chainId,
+      walletAddress,
+      to: request.to,
+      data: request.data,
+      value: request.value,
+      priority: request.priority,
+      timestamp: now,
+      maxGasPrice: request.maxGasPrice,
+      deadline: request.deadline,
+      idempotencyKey,
+      dependsOn: request.dependsOn?.length ? request.dependsOn : undefined,
+      allowFailure: request.allowFailure || undefined,
+      status: 'queued',
+      attempts: 0,
+      availableAt: now,
+      updatedAt: now,
+    };
+
+    if (!idempotencyKey) {
+      await this.validateDependencies(transaction);
+      await db.add('pendingTransactions', transaction);
+      return transaction;
+    }
+
+    return db.withExclusiveLock(queueLock(chainId), async () => {
+      const existing = await db.get('pendingTransactions', transaction.id);
+      if (existing) {
+        if (requestKey(existing) !== requestKey(transaction)) {
+          throw new BatchingError(`Idempotency key ${idempotencyKey} was used for a different transaction`, 409);
+        }
+        return existing;
+      }
+      await this.validateDependencies(transaction);
+      await db.add('pendingTransactions', transaction);
+      return transaction;
+    });
+  }
+
+  /**
+   * Get a queued transaction
+   * @param txId Transaction ID
+   */
+  public async getTransaction(txId: string): Promise<QueuedTransaction | undefined> {
+    const db = await getDatabase();
+    return db.get('pendingTransactions', txId);
+  }
+
+  /**
+   * Get a batch
+   * @param batchId Batch ID
+   */
+  public async getBatch(batchId: string): Promise<BatchRecord | undefined> {
+    const db = await getDatabase();
+    return db.get('batches', batchId);
+  }
+
+  /**
+   * Cancel a transaction that is queued or dead-lettered
+   * @param txId Transaction ID
+   * @returns Whether the transaction was cancelled
+   */
+  public async cancel(txId: string): Promise<boolean> {
+    return this.updateTransaction(txId, CANCELLABLE_STATUSES, transaction => ({
+      ...transaction,
+      status: 'cancelled',
+      updatedAt: Date.now(),
+    }));
+  }
+
+  /**
+   * Get the dead-lettered transactions of a chain
+   * @param chainId Chain ID
+   */
+  public async getDeadLetters(chainId: number): Promise<QueuedTransaction[]> {
+    return this.getQueue(chainId, 'dead_letter', MAX_INDEX_VALUE);
+  }
+
+  /**
+   * Queue a dead-lettered transaction again with its attempts reset
+   * @param txId Transaction ID
+   * @returns Whether the transaction was queued
+   */
+  public async retryDeadLetter(txId: string): Promise<boolean> {
+    return this.updateTransaction(txId, ['dead_letter'], transaction => ({
+      ...transaction,
+      status: 'queued',
+      attempts: 0,
+      availableAt: Date.now(),
+      updatedAt: Date.now(),
+    }));
+  }
+
+  /**
+   * Get queue sizes and batches in flight
+   */
+  public async getStatus(): Promise<BatchQueueStatus> {
+    const db = await getDatabase();
+    const queueSizes: Record<number, number> = {};
+    const deadLetters: Record<number, number> = {};
+    const configs: Record<number, BatchConfig> = {};
+
+    for (const chainId of this.chains.getChainIds()) {
+      queueSizes[chainId] = (await this.getQueue(chainId, 'queued', MAX_INDEX_VALUE)).length;
+      deadLetters[chainId] = (await this.getDeadLetters(chainId)).length;
+      configs[chainId] = this.getConfig(chainId);
+    }
+
+    let activeBatches = 0;
+    for (const status of ACTIVE_BATCH_STATUSES) {
+      activeBatches += (
+        await db.getAllFromIndex('batches', 'by-lease', { lower: [status, 0], upper: [status, MAX_INDEX_VALUE] })
+      ).length;
+    }
+
+    return {
+      status: this.timer ? 'active' : 'stopped',
+      workerId: this.options.workerId,
+      queueSizes,
+      deadLetters,
+      activeBatches,
+      configs,
+    };
+  }
+
+  /**
+   * Reconcile batches of earlier runs and batch the queues on an interval
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      if (!this.processing) {
+        this.processing = this.processQueues()
+          .catch(error => {
+            logger.error('Error processing batches:', error);
+          })
+          .finally(() => {
+            this.processing = null;
+          });
+      }
+    }, this.options.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the interval started by start()
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Reconcile batches whose lease lapsed, then batch the queue of every chain once
+   */
+  public async processQueues(): Promise<void> {
+    await this.recover();
+    for (const chainId of this.chains.getChainIds()) {
+      try {
+        await this.processChain(chainId);
+      } catch (error) {
+        logger.error(`Error processing batches on chain ${chainId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Batch the queue of a chain and execute the batches
+   * @param chainId Chain ID
+   */
+  public async processChain(chainId: number): Promise<void> {
+    const db = await getDatabase();
+    const fees = await this.currentGasPrice(chainId);
+    const claimed = await db.withExclusiveLock(queueLock(chainId), () => this.claim(chainId, fees));
+    for (const batch of claimed) {
+      await this.run(batch);
+    }
+  }
+
+  /**
+   * Reconcile unfinished batches whose lease lapsed. A batch still pending on
+   * chain is watched in the background by this worker.
+   * @param includeOwn Also reconcile this worker's batches, as after a restart
+   */
+  public async recover(includeOwn = false): Promise<void> {
+    const db = await getDatabase();
+    const now = Date.now();
+    for (const status of ACTIVE_BATCH_STATUSES) {
+      const batches = await db.getAllFromIndex('batches', 'by-lease', {
+        lower: [status, 0],
+        upper: [status, includeOwn ? MAX_INDEX_VALUE : now],
+      });
+      for (const batch of batches) {
+        if (batch.leaseExpiresAt >= now && batch.leaseOwner !== this.options.workerId) {
+          continue; // Another worker holds the lease
+        }
+        try {
+          await this.reconcile(batch);
+        } catch (error) {
+          logger.warn(`Error reconciling batch ${batch.id}: ${(error as Error).message}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Claim the transactions of a chain that are due into leased batches, one
+   * per wallet. Called holding the chain's lock. Transactions whose
+   * maxGasPrice is below the current gas price stay queued. While the price is
+   * above the chain's gasThreshold only urgent batches are claimed: those with
+   * a high priority transaction, one that waited maxTimeInQueue, or one whose
+   * deadline falls before the next run plus the expected inclusion time.
+   * Transactions whose dependencies can never complete are dead-lettered.
+   * @param chainId Chain ID
+   * @param fees Current gas price, if it could be read
+   */
+  private async claim(
+    chainId: number,
+    fees: { gasPrice: ethers.BigNumber; inclusionMs: number } | undefined
+  ): Promise<BatchRecord[]> {
+    const db = await getDatabase();
+    const config = this.getConfig(chainId);
+    const aggregator = this.chains.getChain(chainId)?.multicall || MULTICALL3_ADDRESS;
+    const now = Date.now();
+    const overdue = (tx: QueuedTransaction) =>
+      now - tx.timestamp > config.maxTimeInQueue ||
+      (tx.deadline !== undefined && tx.deadline - now < this.options.pollIntervalMs + (fees?.inclusionMs || 0));
+
+    // Group affordable transactions by wallet address
+    const walletGroups = new Map<string, QueuedTransaction[]>();
+    for (const tx of await this.getQueue(chainId, 'queued', now)) {
+      if (tx.deadline !== undefined && tx.deadline <= now) {
+        await this.deadLetter(tx, 'Deadline passed before the transaction was batched');
+        continue;
+      }
+      if (fees && tx.maxGasPrice && fees.gasPrice.gt(tx.maxGasPrice)) {
+        continue; // Waits for fees to drop
+      }
+      const wallet = tx.walletAddress.toLowerCase();
+      walletGroups.set(wallet, [...(walletGroups.get(wallet) || []), tx]);
+    }
+
+    const aboveThreshold = !!fees && fees.gasPrice.gt(config.gasThreshold);
+    const claimed: BatchRecord[] = [];
+
+    for (const [walletAddress, txs] of walletGroups) {
+      const { transactions: selected, unsatisfiable } = composeBatch(
+        txs,
+        await this.getDependencies(txs),
+        config.maxTransactions
+      );
+      for (const [txId, reason] of unsatisfiable) {
+        await this.deadLetter(txs.find(tx => tx.id === txId) as QueuedTransaction, reason);
+      }
+
+      const due = selected.some(overdue);
+      if (selected.length === 0 || (selected.length < config.minTransactions && !due)) {
+        continue; // Not enough transactions and none waiting too long
+      }
+      if (aboveThreshold && !due && !selected.some(tx => tx.priority === 'high')) {
+        logger.debug(`Deferring batch for wallet ${walletAddress} on chain ${chainId}: gas price ${fees?.gasPrice} above threshold`);
+        continue;
+      }
+
+      const batch: BatchRecord = {
+        id: `batch-${chainId}-${walletAddress}-${now}-${Math.random().toString(36).substring(2, 10)}`,
+        chainId,
+        walletAddress: selected[0].walletAddress,
+        transactions: selected.map(tx => tx.id),
+        status: 'pending',
+        createdAt: now,
+        updatedAt: now,
+        leaseOwner: this.options.workerId,
+        leaseExpiresAt: now + this.options.leaseMs,
+        totalValue: totalValue(selected),
+        aggregator,
+      };
+      await db.put('batches', batch);
+      for (const tx of selected) {
+        await db.put('pendingTransactions', {
+          ...tx,
+          status: 'batched',
+          attempts: tx.attempts + 1,
+          batchId: batch.id,
+          updatedAt: now,
+        });
+      }
+      claimed.push(batch);
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Simulate, broadcast and settle a claimed batch, renewing its lease
+   * throughout. The batch is simulated until every call succeeds:
+   * transactions whose call reverts are taken out of the batch with their
+   * dependents.
+   * @param claimed Batch
+   */
+  private async run(claimed: BatchRecord): Promise<void> {
+    const heartbeat = this.keepLease(claimed.id, claimed.chainId);
+    try {
+      let batch = await this.transition(claimed, { status: 'simulating' });
+      if (!batch) {
+        return;
+      }
+
+      let transactions = await this.getBatchTransactions(batch);
+      for (;;) {
+        let results: CallResult[];
+        try {
+          results = await simulateBatch(
+            this.chains.getProvider(batch.chainId),
+            batch.aggregator as string,
+            batch.walletAddress,
+            batchCalls(transactions)
+          );
+        } catch (error) {
+          await this.fail(batch, `Simulation failed: ${(error as Error).message}`);
+          return;
+        }
+        if (results.every(result => result.success)) {
+          break;
+        }
+        batch = await this.prune(batch, transactions, results);
+        if (!batch) {
+          return;
+        }
+        transactions = await this.getBatchTransactions(batch);
+      }
+
+      batch = await this.transition(batch, { status: 'executing' });
+      if (!batch) {
+        return;
+      }
+      let hash: string;
+      try {
+        hash = await this.executor.execute(batch, batchCalls(transactions));
+      } catch (error) {
+        await this.fail(batch, `Execution failed: ${(error as Error).message}`);
+        return;
+      }
+
+      batch = await this.recordBroadcast(batch, hash);
+      if (batch) {
+        await this.awaitReceipt(batch);
+      }
+    } catch (error) {
+      logger.error(`Error processing batch ${claimed.id}; its lease will lapse and it will be reconciled:`, error);
+    } finally {
+      heartbeat();
+    }
+  }
+
+  /**
+   * Take the transactions whose call reverted in simulation out of a batch
+   * this worker holds the lease of, with the transactions depending on them.
+   * A reverted transaction allowed to fail is failed; others are retried or
+   * dead-lettered. Dependents are queued again without counting the attempt,
+   * to wait for their dependency.
+   * @param batch Batch
+   * @param transactions Batch transactions, in batch order
+   * @param results Simulated result of each transaction
+   * @returns Updated batch, or undefined if the lease was lost or no transaction is left
+   */
+  private async prune(
+    batch: BatchRecord,
+    transactions: QueuedTransaction[],
+    results: CallResult[]
+  ): Promise<BatchRecord | undefined> {
+    const db = await getDatabase();
+    return db.withExclusiveLock(queueLock(batch.chainId), async () => {
+      const current = await db.get('batches', batch.id);
+      if (!current || current.leaseOwner !== this.options.workerId || current.status !== batch.status) {
+        logger.warn(`Lost the lease of batch ${batch.id}; leaving it to its new owner`);
+        return undefined;
+      }
+
+      const now = Date.now();
+      const { reverted, dependents } = isolateReverts(transactions, results.map(result => result.success));
+      for (const [i, tx] of transactions.entries()) {
+        if (reverted.has(tx.id)) {
+          const error = `Simulation reverted: ${results[i].revertReason || 'no reason given'}`;
+          if (tx.allowFailure) {
+            await db.put('pendingTransactions', {
+              ...tx,
+              status: 'failed',
+              result: callResult(results[i]),
+              lastError: error,
+              updatedAt: now,
+            });
+          } else {
+            await this.retryOrDeadLetter(tx, error);
+          }
+        } else if (dependents.has(tx.id)) {
+          await db.put('pendingTransactions', { ...tx, status: 'queued', attempts: tx.attempts - 1, updatedAt: now });
+        }
+      }
+
+      const kept = transactions.filter(tx => !reverted.has(tx.id) && !dependents.has(tx.id));
+      logger.warn(`Took ${transactions.length - kept.length} transactions out of batch ${batch.id} after simulation`);
+      if (kept.length === 0) {
+        await db.put('batches', {
+          ...current,
+          transactions: [],
+          status: 'failed',
+          error: 'Every transaction reverted in simulation',
+          updatedAt: now,
+        });
+        return undefined;
+      }
+
+      const updated = {
+        ...current,
+        transactions: kept.map(tx => tx.id),
+        totalValue: totalValue(kept),
+        leaseExpiresAt: now + this.options.leaseMs,
+        updatedAt: now,
+      };
+      await db.put('batches', updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Settle, watch or fail a batch whose worker stopped
+   * @param initial Batch as listed
+   */
+  private async reconcile(initial: BatchRecord): Promise<void> {
+    const db = await getDatabase();
+    let receipt: ethers.providers.TransactionReceipt | null = null;
+    let results: CallResult[] | undefined;
+    let pending = false;
+    if (initial.txHash) {
+      const provider = this.chains.getProvider(initial.chainId);
+      receipt = await provider.getTransactionReceipt(initial.txHash);
+      pending = !receipt && !!(await provider.getTransaction(initial.txHash));
+      results = receipt ? await this.callResults(initial, receipt) : undefined;
+    }
+
+    const resumed = await db.withExclusiveLock(queueLock(initial.chainId), async () => {
+      const batch = await db.get('batches', initial.id);
+      if (
+        !batch ||
+        batch.status !== initial.status ||
+        batch.txHash !== initial.txHash ||
+        batch.leaseExpiresAt !== initial.leaseExpiresAt
+      ) {
+        return undefined; // Changed since it was listed
+      }
+
+      if (receipt) {
+        await this.settleLocked(batch, receipt, results);
+        return undefined;
+      }
+      if (pending) {
+        const now = Date.now();
+        const taken = { ...batch, leaseOwner: this.options.workerId, leaseExpiresAt: now + this.options.leaseMs, updatedAt: now };
+        await db.put('batches', taken);
+        return taken;
+      }
+      await this.failLocked(
+        batch,
+        batch.txHash
+          ? 'Batch transaction was dropped'
+          : batch.status === 'executing'
+            ? 'Worker stopped while broadcasting the batch'
+            : 'Worker stopped before broadcasting the batch'
+      );
+      return undefined;
+    });
+
+    if (resumed) {
+      logger.info(`Watching batch ${resumed.id} of an earlier worker`, { txHash: resumed.txHash });
+      const heartbeat = this.keepLease(resumed.id, resumed.chainId);
+      this.awaitReceipt(resumed)
+        .catch(error => logger.error(`Error watching batch ${resumed.id}:`, error))
+        .finally(heartbeat);
+    }
+  }
+
+  /**
+   * Wait for a broadcast batch to be mined and settle it. A batch not mined
+   * within receiptTimeoutMs is left to reconciliation.
+   * @param batch Batch
+   */
+  private async awaitReceipt(batch: BatchRecord): Promise<void> {
+    const provider = this.chains.getProvider(batch.chainId);
+    let receipt: ethers.providers.TransactionReceipt;
+    try {
+      receipt = await provider.waitForTransaction(batch.txHash as string, 1, this.options.receiptTimeoutMs);
+    } catch (error) {
+      logger.warn(`Batch ${batch.id} not mined yet, leaving it to reconciliation: ${(error as Error).message}`);
+      return;
+    }
+    const results = await this.callResults(batch, receipt);
+
+    const db = await getDatabase();
+    await db.withExclusiveLock(queueLock(batch.chainId), async () => {
+      const current = await db.get('batches', batch.id);
+      if (current && ACTIVE_BATCH_STATUSES.includes(current.status)) {
+        await this.settleLocked(current, receipt, results);
+      }
+    });
+  }
+
+  /**
+   * Result of each call of a mined batch: traced when the node supports
+   * debug_traceTransaction, else replayed on the state before its block,
+   * without gas, for a batch that succeeded
+   * @param batch Batch
+   * @param receipt Receipt of its transaction
+   * @returns Results in batch order, or undefined if they cannot be read
+   */
+  private async callResults(
+    batch: BatchRecord,
+    receipt: ethers.providers.TransactionReceipt
+  ): Promise<CallResult[] | undefined> {
+    if (!batch.aggregator) {
+      return undefined; // Sent before each call's result was recorded
+    }
+    const provider = this.chains.getProvider(batch.chainId);
+    try {
+      const calls = batchCalls(await this.getBatchTransactions(batch));
+      const traced = await traceBatch(provider, receipt.transactionHash, batch.walletAddress, calls);
+      if (traced || receipt.status !== 1) {
+        return traced;
+      }
+      return await simulateBatch(provider, batch.aggregator, batch.walletAddress, calls, receipt.blockNumber - 1);
+    } catch (error) {
+      logger.warn(`Results of batch ${batch.id} unavailable: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Record the outcome of a mined batch and of each of its transactions.
+   * Called holding the chain's lock.
+   * @param batch Batch
+   * @param receipt Receipt of its transaction
+   * @param results Result of each call, if known
+   */
+  private async settleLocked(
+    batch: BatchRecord,
+    receipt: ethers.providers.TransactionReceipt,
+    results: CallResult[] | undefined
+  ): Promise<void> {
+    const mined = {
+      gasUsed: receipt.gasUsed.toString(),
+      gasPrice: receipt.effectiveGasPrice?.toString(),
+      executedAt: Date.now(),
+    };
+    if (receipt.status !== 1) {
+      // A trace ends at the call that reverted the batch
+      const index = (results?.length || 0) - 1;
+      const last = results?.[index];
+      await this.failLocked(
+        batch,
+        last && !last.success
+          ? `Batch transaction reverted: ${batch.transactions[index]} reverted with ${last.revertReason || 'no reason given'}`
+          : 'Batch transaction reverted',
+        mined
+      );
+      return;
+    }
+
+    const db = await getDatabase();
+    await db.put('batches', { ...batch, ...mined, status: 'completed', updatedAt: mined.executedAt });
+    let failed = 0;
+    for (const tx of await this.getBatchTransactions(batch)) {
+      if (tx.status !== 'batched' || tx.batchId !== batch.id) {
+        continue;
+      }
+      const result = results?.[batch.transactions.indexOf(tx.id)];
+      if (result && !result.success) {
+        failed++;
+        await db.put('pendingTransactions', {
+          ...tx,
+          status: 'failed',
+          result: callResult(result),
+          lastError: `Reverted: ${result.revertReason || 'no reason given'}`,
+          updatedAt: mined.executedAt,
+        });
+      } else {
+        await db.put('pendingTransactions', {
+          ...tx,
+          status: 'completed',
+          result: result && callResult(result),
+          updatedAt: mined.executedAt,
+        });
+      }
+    }
+    logger.info(`Batch ${batch.id} executed successfully with ${batch.transactions.length} transactions`, {
+      txHash: batch.txHash,
+      failed,
+    });
+  }
+
+  /**
+   * Fail a batch this worker holds the lease of
+   * @param batch Batch
+   * @param error Reason
+   */
+  private async fail(batch: BatchRecord, error: string): Promise<void> {
+    const db = await getDatabase();
+    await db.withExclusiveLock(queueLock(batch.chainId), async () => {
+      const current = await db.get('batches', batch.id);
+      if (current && current.leaseOwner === this.options.workerId && ACTIVE_BATCH_STATUSES.includes(current.status)) {
+        await this.failLocked(current, error);
+      }
+    });
+  }
+
+  /**
+   * Mark a batch failed and retry or dead-letter its transactions. Called
+   * holding the chain's lock.
+   * @param batch Batch
+   * @param error Reason
+   * @param changes Other fields to record on the batch
+   */
+  private async failLocked(batch: BatchRecord, error: string, changes: Partial<BatchRecord> = {}): Promise<void> {
+    const db = await getDatabase();
+    await db.put('batches', { ...batch, ...changes, status: 'failed', error, updatedAt: Date.now() });
+    logger.error(`Batch ${batch.id} failed: ${error}`);
+
+    for (const tx of await this.getBatchTransactions(batch)) {
+      if (tx.status === 'batched' && tx.batchId === batch.id) {
+        await this.retryOrDeadLetter(tx, error);
+      }
+    }
+  }
+
+  /**
+   * Queue a failed transaction again with backoff, or dead-letter it once out
+   * of attempts. Called holding the chain's lock.
+   * @param tx Transaction
+   * @param error Reason
+   */
+  private async retryOrDeadLetter(tx: QueuedTransaction, error: string): Promise<void> {
+    if (tx.attempts >= this.options.maxAttempts) {
+      await this.deadLetter(tx, error);
+      return;
+    }
+    const db = await getDatabase();
+    const now = Date.now();
+    await db.put('pendingTransactions', {
+      ...tx,
+      status: 'queued',
+      availableAt: now + this.options.retryDelayMs * 2 ** (tx.attempts - 1),
+      lastError: error,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Move a transaction to the dead letters
+   * @param tx Transaction
+   * @param error Reason
+   */
+  private async deadLetter(tx: QueuedTransaction, error: string): Promise<void> {
+    const db = await getDatabase();
+    await db.put('pendingTransactions', { ...tx, status: 'dead_letter', lastError: error, updatedAt: Date.now() });
+    logger.warn(`Transaction ${tx.id} dead-lettered after ${tx.attempts} attempts: ${error}`);
+
+    await createAuditLog({
+      action: 'batch_transaction_dead_lettered',
+      performedBy: 'system',
+      targetId: tx.id,
+      targetType: 'transaction',
+      walletAddress: tx.walletAddress,
+      metadata: { chainId: tx.chainId, to: tx.to, attempts: tx.attempts, batchId: tx.batchId, error },
+    });
+  }
+
+  /**
+   * Change a batch this worker holds the lease of, renewing the lease
+   * @param batch Batch as this worker last wrote it
+   * @param changes Fields to change
+   * @returns Updated batch, or undefined if the lease was lost
+   */
+  private async transition(batch: BatchRecord, changes: Partial<BatchRecord>): Promise<BatchRecord | undefined> {
+    const db = await getDatabase();
+    return db.withExclusiveLock(queueLock(batch.chainId), async () => {
+      const current = await db.get('batches', batch.id);
+      if (!current || current.leaseOwner !== this.options.workerId || current.status !== batch.status) {
+        logger.warn(`Lost the lease of batch ${batch.id}; leaving it to its new owner`);
+        return undefined;
+      }
+      const now = Date.now();
+      const updated = { ...current, ...changes, leaseExpiresAt: now + this.options.leaseMs, updatedAt: now };
+      await db.put('batches', updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Record the hash of a broadcast batch. Recorded even if the lease lapsed
+   * meanwhile, as long as no worker has failed the batch.
+   * @param batch Batch
+   * @param hash Transaction hash
+   * @returns Updated batch, or undefined if another worker already failed it
+   */
+  private async recordBroadcast(batch: BatchRecord, hash: string): Promise<BatchRecord | undefined> {
+    const db = await getDatabase();
+    return db.withExclusiveLock(queueLock(batch.chainId), async () => {
+      const current = await db.get('batches', batch.id);
+      if (!current || current.status !== 'executing' || current.txHash) {
+        logger.error(`Batch ${batch.id} was taken over while broadcasting; its transactions may execute twice`, {
+          txHash: hash,
+        });
+        return undefined;
+      }
+      const now = Date.now();
+      const updated = {
+        ...current,
+        txHash: hash.toLowerCase(),
+        broadcastAt: now,
+        leaseOwner: this.options.workerId,
+        leaseExpiresAt: now + this.options.leaseMs,
+        updatedAt: now,
+      };
+      await db.put('batches', updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Renew the lease of a batch while this worker processes it
+   * @param batchId Batch ID
+   * @param chainId Chain ID
+   * @returns Stops renewing
+   */
+  private keepLease(batchId: string, chainId: number): () => void {
+    const timer = setInterval(async () => {
+      try {
+        const db = await getDatabase();
+        await db.withExclusiveLock(queueLock(chainId), async () => {
+          const current = await db.get('batches', batchId);
+          if (current && current.leaseOwner === this.options.workerId && ACTIVE_BATCH_STATUSES.includes(current.status)) {
+            await db.put('batches', { ...current, leaseExpiresAt: Date.now() + this.options.leaseMs });
+          }
+        });
+      } catch (error) {
+        logger.warn(`Error renewing the lease of batch ${batchId}: ${(error as Error).message}`);
+      }
+    }, Math.max(Math.floor(this.options.leaseMs / 3), 1));
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Change a transaction in one of some statuses
+   * @param txId Transaction ID
+   * @param statuses Statuses it may be in
+   * @param change Builds the updated transaction
+   * @returns Whether the transaction was changed
+   */
+  private async updateTransaction(
+    txId: string,
+    statuses: QueuedTransaction['status'][],
+    change: (transaction: QueuedTransaction) => QueuedTransaction
+  ): Promise<boolean> {
+    const db = await getDatabase();
+    const initial = await db.get('pendingTransactions', txId);
+    if (!initial) {
+      return false;
+    }
+    return db.withExclusiveLock(queueLock(initial.chainId), async () => {
+      const transaction = await db.get('pendingTransactions', txId);
+      if (!transaction || !statuses.includes(transaction.status)) {
+        return false;
+      }
+      await db.put('pendingTransactions', change(transaction));
+      return true;
+    });
+  }
+
+  /**
+   * Transactions of a chain in a status, available by a time
+   * @param chainId Chain ID
+   * @param status Status
+   * @param availableBy Latest availableAt
+   */
+  private async getQueue(
+    chainId: number,
+    status: QueuedTransaction['status'],
+    availableBy: number
+  ): Promise<QueuedTransaction[]> {
+    const db = await getDatabase();
+    return db.getAllFromIndex('pendingTransactions', 'by-queue', {
+      lower: [chainId, status, 0],
+      upper: [chainId, status, availableBy],
+    });
+  }
+
+  /**
+   * Dependencies of transactions that are not among them
+   * @param transactions Transactions
+   * @returns Dependencies by ID; missing ones are left out
+   */
+  private async getDependencies(transactions: QueuedTransaction[]): Promise<Map<string, QueuedTransaction>> {
+    const db = await getDatabase();
+    const ids = new Set(transactions.map(tx => tx.id));
+    const dependencies = new Map<string, QueuedTransaction>();
+    for (const depId of transactions.flatMap(tx => tx.dependsOn || [])) {
+      if (!ids.has(depId) && !dependencies.has(depId)) {
+        const dependency = await db.get('pendingTransactions', depId);
+        if (dependency) {
+          dependencies.set(depId, dependency);
+        }
+      }
+    }
+    return dependencies;
+  }
+
+  /**
+   * Transactions of a batch, in batch order
+   * @param batch Batch
+   */
+  private async getBatchTransactions(batch: BatchRecord): Promise<QueuedTransaction[]> {
+    const db = await getDatabase();
+    const transactions = await Promise.all(batch.transactions.map(txId => db.get('pendingTransactions', txId)));
+    return transactions.filter((tx): tx is QueuedTransaction => !!tx);
+  }
+
+  /**
+   * Gas price a transaction sent now is expected to pay, from the gas oracle
+   * @param chainId Chain ID
+   * @returns Price in wei and the standard speed's expected inclusion time, or undefined if fees cannot be read
+   */
+  private async currentGasPrice(
+    chainId: number
+  ): Promise<{ gasPrice: ethers.BigNumber; inclusionMs: number } | undefined> {
+    try {
+      const recommendation = await this.oracle.getRecommendation(chainId);
+      const { maxFeePerGas, maxPriorityFeePerGas, expectedInclusionSeconds } = recommendation.speeds.standard;
+      return {
+        gasPrice: recommendation.eip1559
+          ? ethers.BigNumber.from(recommendation.baseFeePerGas).add(maxPriorityFeePerGas)
+          : ethers.BigNumber.from(maxFeePerGas),
+        inclusionMs: expectedInclusionSeconds * 1000,
+      };
+    } catch (error) {
+      logger.warn(`Gas prices of chain ${chainId} unavailable, batching without fee checks:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Validate a transaction to queue
+   * @param request Transaction
+   * @throws BatchingError if a field is invalid
+   */
+  private validate(request: BatchTransactionRequest): void {
+    if (!this.chains.isSupported(request.chainId)) {
+      throw new BatchingError(`Unsupported network: ${request.chainId}`);
+    }
+    if (!ethers.utils.isAddress(request.walletAddress) || !ethers.utils.isAddress(request.to)) {
+      throw new BatchingError('Invalid wallet or recipient address');
+    }
+    if (!ethers.utils.isHexString(request.data) || request.data.length % 2) {
+      throw new BatchingError('Invalid transaction data');
+    }
+    if (!/^\d+$/.test(request.value) || (request.maxGasPrice !== undefined && !/^\d+$/.test(request.maxGasPrice))) {
+      throw new BatchingError('Value and maxGasPrice must be decimal wei amounts');
+    }
+    if (!(request.priority in PRIORITY_ORDER)) {
+      throw new BatchingError(`Invalid priority: ${request.priority}`);
+    }
+    if (request.deadline !== undefined && !Number.isSafeInteger(request.deadline)) {
+      throw new BatchingError('Deadline must be a Unix time in milliseconds');
+    }
+    const { dependsOn } = request;
+    if (
+      dependsOn !== undefined &&
+      (!Array.isArray(dependsOn) ||
+        dependsOn.length > MAX_DEPENDENCIES ||
+        new Set(dependsOn).size !== dependsOn.length ||
+        dependsOn.some(txId => typeof txId !== 'string' || !txId))
+    ) {
+      throw new BatchingError(`dependsOn must list up to ${MAX_DEPENDENCIES} distinct transaction IDs`);
+    }
+    if (
+      request.idempotencyKey !== undefined &&
+      (!request.idempotencyKey || request.idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH)
+    ) {
+      throw new BatchingError(`Idempotency key must be 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`);
+    }
+  }
+
+  /**
+   * Check the dependencies of a transaction to queue exist on its chain and may still complete
+   * @param transaction Transaction
+   * @throws BatchingError if a dependency is missing or can never complete
+   */
+  private async validateDependencies(transaction: QueuedTransaction): Promise<void> {
+    const db = await getDatabase();
+    for (const txId of transaction.dependsOn || []) {
+      const dependency = await db.get('pendingTransactions', txId);
+      if (!dependency || dependency.chainId !== transaction.chainId) {
+        throw new BatchingError(`Dependency ${txId} not found on chain ${transaction.chainId}`);
+      }
+      if (FAILED_STATUSES.includes(dependency.status)) {
+        throw new BatchingError(`Dependency ${txId} is ${dependency.status.replace('_', '-')} and can never complete`);
+      }
+    }
+  }
+}
+
+/**
+ * Fields that make two queued transactions the same request
+ * @param tx Transaction
+ */
+const requestKey = (tx: QueuedTransaction): string =>
+  JSON.stringify([
+    tx.chainId,
+    tx.walletAddress.toLowerCase(),
+    tx.to.toLowerCase(),
+    tx.data.toLowerCase(),
+    tx.value,
+    tx.priority,
+    tx.maxGasPrice ?? null,
+    tx.deadline ?? null,
+    tx.dependsOn || [],
+    !!tx.allowFailure,
+  ]);
+
+/**
+ * Batch queue options from the BATCH_* environment variables
+ */
+export const batchQueueOptionsFromEnv = (): BatchQueueOptions => {
+  const number = (name: string, fallback: number) => {
+    const value = parseInt(process.env[name] || '', 10);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+
+  return {
+    workerId: process.env.BATCH_WORKER_ID || os.hostname(),
+    leaseMs: number('BATCH_LEASE_MS', 2 * 60 * 1000),
+    maxAttempts: number('BATCH_MAX_ATTEMPTS', 3),
+    retryDelayMs: number('BATCH_RETRY_DELAY_MS', 30 * 1000),
+    pollIntervalMs: number('BATCH_POLL_INTERVAL_MS', 30 * 1000),
+    receiptTimeoutMs: number('BATCH_RECEIPT_TIMEOUT_MS', 5 * 60 * 1000),
+  };
+};
+
+export const batchQueue = BatchQueue.getInstance();
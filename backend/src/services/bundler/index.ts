@@ -0,0 +1,701 @@
+import { ethers } from 'ethers';
+import { logger } from '../../utils/logger';
+import chainRegistry, { ChainRegistryUpdate } from '../chain-registry';
+import { relayerTransactions, TransactionTracker } from '../relayer/transactionTracker';
+import { relayerKeyPool } from '../relayer/keyPool';
+import {
+  BundlerError,
+  BundlerErrorCode,
+  calculatePreVerificationGas,
+  callEntryPoint,
+  entryPointInterface,
+  failedOpError,
+  fromStruct,
+  getFactory,
+  getPaymaster,
+  getUserOperationHash,
+  parseUserOperation,
+  revertData,
+  toStruct,
+  UserOperation,
+} from './userOperation';
+import { DEFAULT_REPUTATION_PARAMS, ReputationManager, ReputationParams } from './reputation';
+import { MempoolEntry, UserOperationMempool } from './mempool';
+import { checkValidationTrace, MEMORY_DEPENDENT_RULES, StructLog } from './validation';
+
+export * from './userOperation';
+export * from './packedUserOperation';
+export { ReputationManager, ReputationStatus, DEFAULT_REPUTATION_PARAMS } from './reputation';
+export { UserOperationMempool } from './mempool';
+export { checkValidationTrace } from './validation';
+
+export interface LocalBundlerOptions {
+  chainId: number;
+  entryPoint: string;
+  provider: ethers.providers.JsonRpcProvider; // Must support debug_traceCall unless unsafe
+  signer?: ethers.Signer; // Signs handleOps transactions, unless withSigner is set
+  withSigner?: <R>(fn: (signer: ethers.Signer) => Promise<R>) => Promise<R>; // Picks the relayer account of each bundle
+  beneficiary?: string; // Defaults to the signer address
+  tracker?: TransactionTracker; // Coordinates nonces with other relayer transactions and replaces stuck bundles
+  maxBundleSize?: number;
+  unsafe?: boolean;
+  reputation?: Partial<ReputationParams>;
+}
+
+// Gas limits of a user operation, as returned by eth_estimateUserOperationGas
+export interface UserOperationGasEstimate {
+  preVerificationGas: string;
+  verificationGasLimit: string;
+  callGasLimit: string;
+}
+
+// A user operation and where it was included, as returned by eth_getUserOperationByHash
+export interface UserOperationLookup {
+  userOperation: UserOperation;
+  entryPoint: string;
+  transactionHash: string | null;
+  blockHash: string | null;
+  blockNumber: string | null;
+}
+
+// Log as returned by the node's JSON-RPC API, with hex quantities
+export interface RpcLog {
+  address: string;
+  topics: string[];
+  data: string;
+  logIndex: string;
+  blockNumber: string;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: string;
+}
+
+// Outcome of an included user operation, as returned by eth_getUserOperationReceipt
+export interface UserOperationReceipt {
+  userOpHash: string;
+  entryPoint: string;
+  sender: string;
+  nonce: string;
+  paymaster: string;
+  actualGasCost: string;
+  actualGasUsed: string;
+  success: boolean;
+  reason?: string;
+  logs: RpcLog[];
+  receipt: Record<string, unknown> & { logs: RpcLog[] }; // Transaction receipt as returned by the node
+}
+
+// What simulateValidation reported about a user operation
+interface ValidationOutcome {
+  senderStaked: boolean;
+  stakedEntities: Set<string>;
+}
+
+const DEFAULT_MAX_BUNDLE_SIZE = 10;
+const DEFAULT_BUNDLE_INTERVAL_MS = 10000;
+const REPUTATION_DECAY_INTERVAL_MS = 60 * 60 * 1000;
+const MIN_VALIDITY_SECONDS = 30; // A user operation must stay valid this long to be accepted
+const LOG_LOOKBACK_BLOCKS = 10000; // How far back receipts and user operations are searched
+
+// Limits eth_estimateUserOperationGas simulates with; the account must be able to prefund them at 1 wei
+const ESTIMATION_VERIFICATION_GAS = 5000000;
+const ESTIMATION_CALL_GAS = 10000000;
+const VERIFICATION_GAS_BUFFER = 130; // Percent
+const CALL_GAS_BUFFER = 110; // Percent
+
+const USER_OPERATION_EVENT = entryPointInterface.getEventTopic('UserOperationEvent');
+const USER_OPERATION_REVERT_REASON = entryPointInterface.getEventTopic('UserOperationRevertReason');
+const BEFORE_EXECUTION = entryPointInterface.getEventTopic('BeforeExecution');
+
+/**
+ * ERC-4337 bundler for one chain and v0.6 EntryPoint. Validates user
+ * operations by simulating them and checking the ERC-7562 opcode and storage
+ * rules on a debug_traceCall trace, keeps them in a mempool, and submits
+ * them with handleOps from the relayer key.
+ */
+export class LocalBundler {
+  public readonly mempool: UserOperationMempool;
+  public readonly reputation: ReputationManager;
+  private bundling: Promise<string | undefined> | null = null;
+  private timers: NodeJS.Timeout[] = [];
+
+  constructor(private readonly options: LocalBundlerOptions) {
+    this.reputation = new ReputationManager({ ...DEFAULT_REPUTATION_PARAMS, ...options.reputation });
+    this.mempool = new UserOperationMempool(this.reputation);
+  }
+
+  public get chainId(): number {
+    return this.options.chainId;
+  }
+
+  public get entryPoint(): string {
+    return ethers.utils.getAddress(this.options.entryPoint);
+  }
+
+  /**
+   * Get the EntryPoints this bundler serves
+   */
+  public supportedEntryPoints(): string[] {
+    return [this.entryPoint];
+  }
+
+  /**
+   * Validate a user operation and add it to the mempool
+   * @param raw User operation parameter
+   * @param entryPoint EntryPoint the user operation targets
+   * @returns User operation hash
+   * @throws BundlerError if the user operation is invalid or breaks a validation rule
+   */
+  public async sendUserOperation(raw: unknown, entryPoint: string): Promise<string> {
+    this.requireEntryPoint(entryPoint);
+    const userOp = parseUserOperation(raw);
+
+    const requiredPreVerificationGas = calculatePreVerificationGas(userOp);
+    if (ethers.BigNumber.from(userOp.preVerificationGas).lt(requiredPreVerificationGas)) {
+      throw new BundlerError(`preVerificationGas must be at least ${requiredPreVerificationGas}`);
+    }
+    if (ethers.BigNumber.from(userOp.maxPriorityFeePerGas).gt(userOp.maxFeePerGas)) {
+      throw new BundlerError('maxPriorityFeePerGas must not exceed maxFeePerGas');
+    }
+
+    const outcome = await this.validate(userOp);
+    const userOpHash = getUserOperationHash(toStruct(userOp), this.entryPoint, this.chainId).toLowerCase();
+    const entry: MempoolEntry = { userOp, userOpHash, senderStaked: outcome.senderStaked, addedAt: Date.now() };
+    this.mempool.add(entry, outcome.stakedEntities);
+    this.reputation.updateSeen([getFactory(userOp), getPaymaster(userOp)]);
+
+    logger.info(`Accepted user operation ${userOpHash} from ${userOp.sender} on chain ${this.chainId}`);
+    return userOpHash;
+  }
+
+  /**
+   * Estimate the gas limits of a user operation. The signature must be a
+   * placeholder the account can validate without reverting.
+   * @param raw User operation parameter; the gas fields may be missing
+   * @param entryPoint EntryPoint the user operation targets
+   * @returns Gas limits
+   * @throws BundlerError if the simulation fails
+   */
+  public async estimateUserOperationGas(raw: unknown, entryPoint: string): Promise<UserOperationGasEstimate> {
+    this.requireEntryPoint(entryPoint);
+    const userOp = parseUserOperation(raw, true);
+    const preVerificationGas = calculatePreVerificationGas(userOp);
+
+    // At 1 wei per gas the simulation reports the gas it paid for
+    const simulated: UserOperation = {
+      ...userOp,
+      preVerificationGas: ethers.BigNumber.from(preVerificationGas).toHexString(),
+      verificationGasLimit: ethers.BigNumber.from(ESTIMATION_VERIFICATION_GAS).toHexString(),
+      callGasLimit: ethers.BigNumber.from(ESTIMATION_CALL_GAS).toHexString(),
+      maxFeePerGas: '0x1',
+      maxPriorityFeePerGas: '0x1',
+    };
+    const result = await callEntryPoint(
+      this.options.provider,
+      this.entryPoint,
+      entryPointInterface.encodeFunctionData('simulateHandleOp', [toStruct(simulated), ethers.constants.AddressZero, '0x'])
+    );
+    if (result.name === 'FailedOp') {
+      throw failedOpError(result.args.reason);
+    }
+    if (result.name !== 'ExecutionResult') {
+      throw new BundlerError(`Unexpected EntryPoint error ${result.name}`, BundlerErrorCode.SIMULATE_VALIDATION);
+    }
+
+    const preOpGas: ethers.BigNumber = result.args.preOpGas;
+    const paid: ethers.BigNumber = result.args.paid;
+    return {
+      preVerificationGas: ethers.BigNumber.from(preVerificationGas).toHexString(),
+      verificationGasLimit: preOpGas.sub(preVerificationGas).mul(VERIFICATION_GAS_BUFFER).div(100).toHexString(),
+      callGasLimit: paid.sub(preOpGas).mul(CALL_GAS_BUFFER).div(100).toHexString(),
+    };
+  }
+
+  /**
+   * Find a user operation in the mempool or on chain
+   * @param userOpHash User operation hash
+   * @returns User operation, or null if unknown
+   */
+  public async getUserOperationByHash(userOpHash: string): Promise<UserOperationLookup | null> {
+    const pending = this.mempool.get(userOpHash);
+    if (pending) {
+      return {
+        userOperation: pending.userOp,
+        entryPoint: this.entryPoint,
+        transactionHash: null,
+        blockHash: null,
+        blockNumber: null,
+      };
+    }
+
+    const log = await this.findUserOperationEvent(userOpHash);
+    if (!log) {
+      return null;
+    }
+    const transaction = await this.options.provider.getTransaction(log.transactionHash);
+    const { ops } = entryPointInterface.decodeFunctionData('handleOps', transaction.data);
+    const userOperation = (ops as Record<string, any>[])
+      .map(fromStruct)
+      .find(op => getUserOperationHash(toStruct(op), this.entryPoint, this.chainId).toLowerCase() === userOpHash.toLowerCase());
+    if (!userOperation) {
+      return null;
+    }
+
+    return {
+      userOperation,
+      entryPoint: this.entryPoint,
+      transactionHash: log.transactionHash,
+      blockHash: log.blockHash,
+      blockNumber: ethers.BigNumber.from(log.blockNumber).toHexString(),
+    };
+  }
+
+  /**
+   * Get the outcome of an included user operation
+   * @param userOpHash User operation hash
+   * @returns Receipt, or null if not included yet
+   */
+  public async getUserOperationReceipt(userOpHash: string): Promise<UserOperationReceipt | null> {
+    const log = await this.findUserOperationEvent(userOpHash);
+    if (!log) {
+      return null;
+    }
+    // Raw receipt, so it serializes the way JSON-RPC clients expect
+    const receipt: UserOperationReceipt['receipt'] = await this.options.provider.send('eth_getTransactionReceipt', [
+      log.transactionHash,
+    ]);
+    const event = entryPointInterface.parseLog(log);
+
+    // The logs a user operation emitted follow the previous UserOperationEvent, or BeforeExecution for the first
+    const earlier = receipt.logs.filter(
+      entry =>
+        Number(entry.logIndex) < log.logIndex &&
+        entry.address.toLowerCase() === this.entryPoint.toLowerCase() &&
+        (entry.topics[0] === USER_OPERATION_EVENT || entry.topics[0] === BEFORE_EXECUTION)
+    );
+    const start = earlier.length > 0 ? Number(earlier[earlier.length - 1].logIndex) : -1;
+    const logs = receipt.logs.filter(entry => Number(entry.logIndex) > start && Number(entry.logIndex) < log.logIndex);
+
+    const revert = logs.find(
+      entry => entry.topics[0] === USER_OPERATION_REVERT_REASON && entry.topics[1] === userOpHash.toLowerCase()
+    );
+    return {
+      userOpHash: userOpHash.toLowerCase(),
+      entryPoint: this.entryPoint,
+      sender: event.args.sender,
+      nonce: event.args.nonce.toHexString(),
+      paymaster: event.args.paymaster,
+      actualGasCost: event.args.actualGasCost.toHexString(),
+      actualGasUsed: event.args.actualGasUsed.toHexString(),
+      success: event.args.success,
+      ...(revert ? { reason: entryPointInterface.parseLog(revert).args.revertReason } : {}),
+      logs: logs.filter(entry => entry !== revert),
+      receipt,
+    };
+  }
+
+  /**
+   * Bundle pending user operations into a handleOps transaction and wait for
+   * it to be mined. User operations that no longer validate are dropped; one
+   * that fails in handleOps is dropped and the rest are bundled without it.
+   * Concurrent calls share the same bundle.
+   * @returns Transaction hash, or undefined if there was nothing to bundle
+   */
+  public bundleNow(): Promise<string | undefined> {
+    if (!this.bundling) {
+      this.bundling = this.bundle().finally(() => {
+        this.bundling = null;
+      });
+    }
+    return this.bundling;
+  }
+
+  /**
+   * Bundle on a timer and decay reputation hourly
+   * @param intervalMs Bundle interval
+   */
+  public start(intervalMs = DEFAULT_BUNDLE_INTERVAL_MS): void {
+    this.stop();
+    const bundleTimer = setInterval(() => {
+      if (this.mempool.size > 0) {
+        this.bundleNow().catch(error => logger.error(`Error bundling user operations on chain ${this.chainId}:`, error));
+      }
+    }, intervalMs);
+    const decayTimer = setInterval(() => this.reputation.decay(), REPUTATION_DECAY_INTERVAL_MS);
+    this.timers = [bundleTimer, decayTimer];
+    this.timers.forEach(timer => timer.unref());
+  }
+
+  /**
+   * Stop the timers started by start()
+   */
+  public stop(): void {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+  }
+
+  private async bundle(): Promise<string | undefined> {
+    const senders = new Set<string>();
+    let entries: MempoolEntry[] = [];
+
+    // One user operation per sender; the EntryPoint rejects a later nonce until the earlier one is included
+    for (const entry of this.mempool.getBatch(this.mempool.size)) {
+      const sender = entry.userOp.sender.toLowerCase();
+      if (senders.has(sender)) {
+        continue;
+      }
+      try {
+        await this.validate(entry.userOp);
+      } catch (error) {
+        logger.warn(`Dropping user operation ${entry.userOpHash} that no longer validates: ${(error as Error).message}`);
+        this.mempool.remove(entry.userOpHash);
+        continue;
+      }
+      senders.add(sender);
+      entries.push(entry);
+      if (entries.length >= (this.options.maxBundleSize || DEFAULT_MAX_BUNDLE_SIZE)) {
+        break;
+      }
+    }
+
+    if (entries.length === 0) {
+      return undefined;
+    }
+    return this.withSigner(signer => this.submitEntries(signer, entries));
+  }
+
+  /**
+   * Submit user operations in a handleOps transaction, dropping those that fail in it
+   * @param signer Relayer account
+   * @param entries Mempool entries, one per sender
+   * @returns Transaction hash, or undefined if every user operation was dropped
+   */
+  private async submitEntries(signer: ethers.Signer, entries: MempoolEntry[]): Promise<string | undefined> {
+    const beneficiary = this.options.beneficiary || (await signer.getAddress());
+    while (entries.length > 0) {
+      const data = entryPointInterface.encodeFunctionData('handleOps', [
+        entries.map(entry => toStruct(entry.userOp)),
+        beneficiary,
+      ]);
+
+      let gasLimit: ethers.BigNumber;
+      try {
+        gasLimit = await signer.estimateGas({ to: this.entryPoint, data });
+      } catch (error) {
+        const failed = this.parseFailedOp(error);
+        if (!failed || failed.opIndex >= entries.length) {
+          throw error;
+        }
+        const entry = entries[failed.opIndex];
+        logger.warn(`Dropping user operation ${entry.userOpHash} that failed in handleOps: ${failed.reason}`);
+        this.blameEntity(entry.userOp, failed.reason);
+        this.mempool.remove(entry.userOpHash);
+        entries = entries.filter(current => current !== entry);
+        continue;
+      }
+
+      const receipt = await this.submitBundle(signer, data, gasLimit, entries.length);
+
+      const included = new Set(
+        receipt.logs
+          .filter(log => log.topics[0] === USER_OPERATION_EVENT)
+          .map(log => log.topics[1].toLowerCase())
+      );
+      for (const entry of entries) {
+        this.mempool.remove(entry.userOpHash);
+        if (included.has(entry.userOpHash)) {
+          this.reputation.updateIncluded([getFactory(entry.userOp), getPaymaster(entry.userOp)]);
+        }
+      }
+      return receipt.transactionHash;
+    }
+    return undefined;
+  }
+
+  /**
+   * Send a handleOps transaction and wait until it is mined
+   * @throws Error if the tracker cancelled or lost the transaction; its user operations stay in the mempool
+   */
+  private async submitBundle(
+    signer: ethers.Signer,
+    data: string,
+    gasLimit: ethers.BigNumber,
+    size: number
+  ): Promise<ethers.providers.TransactionReceipt> {
+    const { tracker } = this.options;
+    if (!tracker) {
+      const transaction = await signer.sendTransaction({ to: this.entryPoint, data, gasLimit });
+      logger.info(`Submitted bundle ${transaction.hash} of ${size} user operations on chain ${this.chainId}`);
+      return transaction.wait();
+    }
+
+    const submitted = await tracker.submit(signer, { chainId: this.chainId, to: this.entryPoint, data, gasLimit, label: 'bundle' });
+    logger.info(`Submitted bundle ${submitted.hash} of ${size} user operations on chain ${this.chainId}`);
+    const transaction = await tracker.waitForTransaction(submitted.id);
+    if (transaction.status !== 'confirmed' && transaction.status !== 'failed') {
+      throw new Error(`Bundle ${transaction.id} was ${transaction.status}`);
+    }
+    return this.options.provider.getTransactionReceipt(transaction.hash);
+  }
+
+  private withSigner<R>(fn: (signer: ethers.Signer) => Promise<R>): Promise<R> {
+    if (this.options.withSigner) {
+      return this.options.withSigner(fn);
+    }
+    if (!this.options.signer) {
+      throw new Error('The bundler needs a signer');
+    }
+    return fn(this.options.signer);
+  }
+
+  /**
+   * Simulate validation of a user operation and check the validation rules
+   * @param userOp User operation
+   * @throws BundlerError if the user operation is rejected
+   */
+  private async validate(userOp: UserOperation): Promise<ValidationOutcome> {
+    const data = entryPointInterface.encodeFunctionData('simulateValidation', [toStruct(userOp)]);
+    const result = await callEntryPoint(this.options.provider, this.entryPoint, data);
+
+    if (result.name === 'FailedOp') {
+      throw failedOpError(result.args.reason);
+    }
+    if (result.name === 'ValidationResultWithAggregation') {
+      throw new BundlerError('Signature aggregators are not supported', BundlerErrorCode.UNSUPPORTED_AGGREGATOR);
+    }
+    if (result.name !== 'ValidationResult') {
+      throw new BundlerError(`Unexpected EntryPoint error ${result.name}`, BundlerErrorCode.SIMULATE_VALIDATION);
+    }
+
+    const { returnInfo, senderInfo, factoryInfo, paymasterInfo } = result.args;
+    if (returnInfo.sigFailed) {
+      throw new BundlerError('Invalid user operation signature', BundlerErrorCode.INVALID_SIGNATURE);
+    }
+    const now = Math.floor(Date.now() / 1000);
+    if (returnInfo.validAfter > now) {
+      throw new BundlerError(`User operation is not valid until ${returnInfo.validAfter}`, BundlerErrorCode.EXPIRES_SHORTLY);
+    }
+    if (returnInfo.validUntil !== 0 && returnInfo.validUntil < now + MIN_VALIDITY_SECONDS) {
+      throw new BundlerError('User operation expires too soon', BundlerErrorCode.EXPIRES_SHORTLY);
+    }
+
+    const factory = getFactory(userOp);
+    const paymaster = getPaymaster(userOp);
+    const isStaked = (info: { stake: ethers.BigNumber; unstakeDelaySec: ethers.BigNumber }) =>
+      this.reputation.isStaked(info.stake, info.unstakeDelaySec.toNumber());
+    const staked = { account: isStaked(senderInfo), factory: isStaked(factoryInfo), paymaster: isStaked(paymasterInfo) };
+    const stakedEntities = new Set<string>();
+    if (factory && staked.factory) stakedEntities.add(factory);
+    if (paymaster && staked.paymaster) stakedEntities.add(paymaster);
+
+    if (!this.options.unsafe) {
+      const context = { entryPoint: this.entryPoint, sender: userOp.sender, factory, paymaster, staked };
+      let violations = checkValidationTrace(await this.traceValidation(data, false), context);
+      // Memory makes traces an order of magnitude larger, so it is only traced when a rule depends on it
+      if (violations.some(violation => MEMORY_DEPENDENT_RULES.has(violation.rule))) {
+        violations = checkValidationTrace(await this.traceValidation(data, true), context);
+      }
+      if (violations.length > 0) {
+        throw new BundlerError(violations[0].message, BundlerErrorCode.OPCODE_VALIDATION, violations);
+      }
+    }
+
+    return { senderStaked: staked.account, stakedEntities };
+  }
+
+  /**
+   * Trace a simulateValidation call
+   * @param data Calldata
+   * @param withMemory Include memory in the trace
+   * @returns Struct log
+   */
+  private async traceValidation(data: string, withMemory: boolean): Promise<StructLog[]> {
+    try {
+      // geth and Anvil read enableMemory, Hardhat reads disableMemory
+      const trace = await this.options.provider.send('debug_traceCall', [
+        { to: this.entryPoint, data },
+        'latest',
+        { enableMemory: withMemory, disableMemory: !withMemory, disableStorage: true },
+      ]);
+      return trace?.structLogs || [];
+    } catch (error) {
+      throw new BundlerError(
+        `Could not trace validation; the node must support debug_traceCall: ${(error as Error).message}`,
+        BundlerErrorCode.INTERNAL_ERROR
+      );
+    }
+  }
+
+  /**
+   * Find the UserOperationEvent of a user operation in recent blocks
+   * @param userOpHash User operation hash
+   */
+  private async findUserOperationEvent(userOpHash: string): Promise<ethers.providers.Log | undefined> {
+    if (!ethers.utils.isHexString(userOpHash, 32)) {
+      throw new BundlerError('User operation hash must be 32 bytes');
+    }
+    const latest = await this.options.provider.getBlockNumber();
+    const logs = await this.options.provider.getLogs({
+      address: this.entryPoint,
+      topics: [USER_OPERATION_EVENT, userOpHash.toLowerCase()],
+      fromBlock: Math.max(latest - LOG_LOOKBACK_BLOCKS, 0),
+      toBlock: latest,
+    });
+    return logs[logs.length - 1];
+  }
+
+  /**
+   * Decode a FailedOp error from a failed handleOps estimate
+   * @param error Error
+   */
+  private parseFailedOp(error: unknown): { opIndex: number; reason: string } | undefined {
+    const data = revertData(error);
+    if (!data) {
+      return undefined;
+    }
+    try {
+      const parsed = entryPointInterface.parseError(data);
+      return parsed.name === 'FailedOp' ? { opIndex: parsed.args.opIndex.toNumber(), reason: parsed.args.reason } : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Penalize the entity responsible for a user operation that passed validation but failed in handleOps
+   * @param userOp User operation
+   * @param reason FailedOp reason
+   */
+  private blameEntity(userOp: UserOperation, reason: string): void {
+    const entity = reason.startsWith('AA3') ? getPaymaster(userOp) : reason.startsWith('AA1') ? getFactory(userOp) : undefined;
+    if (entity) {
+      this.reputation.crashedHandleOps(entity);
+    }
+  }
+
+  private requireEntryPoint(entryPoint: string): void {
+    if (typeof entryPoint !== 'string' || entryPoint.toLowerCase() !== this.entryPoint.toLowerCase()) {
+      throw new BundlerError(`Unsupported EntryPoint ${entryPoint}; supported: ${this.entryPoint}`);
+    }
+  }
+}
+
+/**
+ * Local bundlers of the chains whose registry entry enables `localBundler`,
+ * created on first use and dropped when the chain changes in the registry.
+ * Each bundle is sent from an account of the relayer key pool.
+ */
+export class BundlerService {
+  private static instance: BundlerService;
+  private bundlers = new Map<number, LocalBundler>();
+
+  private constructor() {
+    chainRegistry.on('updated', (update: ChainRegistryUpdate) => {
+      for (const chainId of [...update.changed, ...update.removed]) {
+        this.bundlers.get(chainId)?.stop();
+        this.bundlers.delete(chainId);
+      }
+    });
+  }
+
+  /**
+   * Get the singleton instance of BundlerService
+   */
+  public static getInstance(): BundlerService {
+    if (!BundlerService.instance) {
+      BundlerService.instance = new BundlerService();
+    }
+    return BundlerService.instance;
+  }
+
+  /**
+   * Whether a chain is bundled by the local bundler
+   * @param chainId Chain ID
+   */
+  public isEnabled(chainId: number): boolean {
+    return !!chainRegistry.getChain(chainId)?.localBundler;
+  }
+
+  /**
+   * Get the bundler of a chain, starting it on first use
+   * @param chainId Chain ID
+   * @throws BundlerError if the chain has no local bundler
+   */
+  public getBundler(chainId: number): LocalBundler {
+    let bundler = this.bundlers.get(chainId);
+    if (bundler) {
+      return bundler;
+    }
+
+    const chain = chainRegistry.getChain(chainId);
+    if (!chain?.localBundler || !chain.entryPoint) {
+      throw new BundlerError(`Chain ${chainId} has no local bundler`, BundlerErrorCode.INVALID_REQUEST);
+    }
+    const registryProvider = chainRegistry.getProvider(chainId);
+    // Tracing needs a plain JSON-RPC provider rather than a fallback provider
+    const provider =
+      registryProvider instanceof ethers.providers.JsonRpcProvider
+        ? registryProvider
+        : new ethers.providers.StaticJsonRpcProvider(chain.rpcUrls[0], chainId);
+    const config = chain.localBundler;
+
+    bundler = new LocalBundler({
+      chainId,
+      entryPoint: chain.entryPoint.address,
+      provider,
+      withSigner: fn => relayerKeyPool.withSigner(chainId, fn),
+      beneficiary: config.beneficiary,
+      tracker: relayerTransactions,
+      maxBundleSize: config.maxBundleSize,
+      unsafe: config.unsafe,
+      reputation: {
+        ...(config.minStake ? { minStake: ethers.BigNumber.from(config.minStake) } : {}),
+        ...(config.minUnstakeDelay !== undefined ? { minUnstakeDelay: config.minUnstakeDelay } : {}),
+      },
+    });
+    bundler.start(config.bundleIntervalMs || DEFAULT_BUNDLE_INTERVAL_MS);
+    this.bundlers.set(chainId, bundler);
+    logger.info(`Started local bundler for chain ${chainId} with EntryPoint ${chain.entryPoint.address}`);
+    return bundler;
+  }
+
+  /**
+   * Handle an ERC-4337 JSON-RPC request
+   * @param chainId Chain ID
+   * @param method Method
+   * @param params Parameters
+   * @returns Result
+   * @throws BundlerError if the method is unknown or fails
+   */
+  public async handleRequest(chainId: number, method: string, params: unknown[]): Promise<unknown> {
+    const bundler = this.getBundler(chainId);
+    switch (method) {
+      case 'eth_chainId':
+        return ethers.BigNumber.from(chainId).toHexString();
+      case 'eth_supportedEntryPoints':
+        return bundler.supportedEntryPoints();
+      case 'eth_sendUserOperation':
+        return bundler.sendUserOperation(params[0], params[1] as string);
+      case 'eth_estimateUserOperationGas':
+        return bundler.estimateUserOperationGas(params[0], params[1] as string);
+      case 'eth_getUserOperationByHash':
+        return bundler.getUserOperationByHash(params[0] as string);
+      case 'eth_getUserOperationReceipt':
+        return bundler.getUserOperationReceipt(params[0] as string);
+      default:
+        throw new BundlerError(`Method ${method} is not supported`, BundlerErrorCode.METHOD_NOT_FOUND);
+    }
+  }
+
+  /**
+   * Stop every bundler
+   */
+  public stop(): void {
+    for (const bundler of this.bundlers.values()) {
+      bundler.stop();
+    }
+    this.bundlers.clear();
+  }
+}
+
+export const bundler = BundlerService.getInstance();
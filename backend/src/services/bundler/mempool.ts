@@ -0,0 +1,146 @@
+import { ethers } from 'ethers';
+import { BundlerError, BundlerErrorCode, getFactory, getPaymaster, UserOperation } from './userOperation';
+import { ReputationManager, ReputationStatus } from './reputation';
+
+// A user operation waiting to be bundled
+export interface MempoolEntry {
+  userOp: UserOperation;
+  userOpHash: string;
+  senderStaked: boolean;
+  addedAt: number;
+}
+
+// Mempool limits of ERC-7562
+const SAME_SENDER_MEMPOOL_COUNT = 4; // Per unstaked sender
+const SAME_UNSTAKED_ENTITY_MEMPOOL_COUNT = 10; // Per unstaked factory or paymaster
+const THROTTLED_ENTITY_MEMPOOL_COUNT = 4;
+const REPLACEMENT_FEE_INCREASE = 10; // Percent
+
+/**
+ * Pending user operations of one EntryPoint. Holds one user operation per
+ * sender and nonce; a replacement must raise both fees by 10%. Limits how
+ * many user operations unstaked senders and entities, and throttled
+ * entities, may have pending, and refuses those of banned entities.
+ */
+export class UserOperationMempool {
+  private entries: MempoolEntry[] = [];
+
+  constructor(private readonly reputation: ReputationManager) {}
+
+  /**
+   * Add a validated user operation, replacing the one with the same sender and nonce
+   * @param entry Mempool entry
+   * @param stakedEntities Factory and paymaster addresses that are staked
+   * @throws BundlerError if a limit is exceeded or the replacement fee is too low
+   */
+  public add(entry: MempoolEntry, stakedEntities: Set<string>): void {
+    const { userOp } = entry;
+    const sender = userOp.sender.toLowerCase();
+    const existing = this.entries.findIndex(
+      current =>
+        current.userOp.sender.toLowerCase() === sender &&
+        ethers.BigNumber.from(current.userOp.nonce).eq(userOp.nonce)
+    );
+
+    if (existing >= 0) {
+      const old = this.entries[existing].userOp;
+      if (
+        !this.raisesFee(old.maxFeePerGas, userOp.maxFeePerGas) ||
+        !this.raisesFee(old.maxPriorityFeePerGas, userOp.maxPriorityFeePerGas)
+      ) {
+        throw new BundlerError(
+          `Replacement user operation must raise maxFeePerGas and maxPriorityFeePerGas by ${REPLACEMENT_FEE_INCREASE}%`
+        );
+      }
+    } else if (!entry.senderStaked && this.countBySender(sender) >= SAME_SENDER_MEMPOOL_COUNT) {
+      throw new BundlerError(
+        `Sender ${userOp.sender} already has ${SAME_SENDER_MEMPOOL_COUNT} pending user operations`,
+        BundlerErrorCode.REPUTATION
+      );
+    }
+
+    for (const entity of [getFactory(userOp), getPaymaster(userOp)]) {
+      if (!entity) {
+        continue;
+      }
+      const status = this.reputation.getStatus(entity);
+      if (status === ReputationStatus.BANNED) {
+        throw new BundlerError(`Entity ${entity} is banned`, BundlerErrorCode.REPUTATION);
+      }
+      // A replacement frees the slot of the user operation it replaces
+      const replaced = existing >= 0 && this.usesEntity(this.entries[existing].userOp, entity);
+      const pending = this.countByEntity(entity) - (replaced ? 1 : 0);
+      if (status === ReputationStatus.THROTTLED && pending >= THROTTLED_ENTITY_MEMPOOL_COUNT) {
+        throw new BundlerError(`Entity ${entity} is throttled`, BundlerErrorCode.REPUTATION);
+      }
+      if (!stakedEntities.has(entity) && pending >= SAME_UNSTAKED_ENTITY_MEMPOOL_COUNT) {
+        throw new BundlerError(
+          `Unstaked entity ${entity} already has ${SAME_UNSTAKED_ENTITY_MEMPOOL_COUNT} pending user operations`,
+          BundlerErrorCode.INSUFFICIENT_STAKE
+        );
+      }
+    }
+
+    if (existing >= 0) {
+      this.entries[existing] = entry;
+    } else {
+      this.entries.push(entry);
+    }
+  }
+
+  /**
+   * Get pending user operations, highest priority fee first, oldest first among equals
+   * @param limit Maximum count
+   */
+  public getBatch(limit: number): MempoolEntry[] {
+    return [...this.entries]
+      .sort((a, b) => {
+        const fee = ethers.BigNumber.from(b.userOp.maxPriorityFeePerGas).sub(a.userOp.maxPriorityFeePerGas);
+        return fee.isZero() ? a.addedAt - b.addedAt : fee.gt(0) ? 1 : -1;
+      })
+      .slice(0, limit);
+  }
+
+  /**
+   * Find a pending user operation
+   * @param userOpHash User operation hash
+   */
+  public get(userOpHash: string): MempoolEntry | undefined {
+    return this.entries.find(entry => entry.userOpHash === userOpHash.toLowerCase());
+  }
+
+  /**
+   * Remove a user operation
+   * @param userOpHash User operation hash
+   */
+  public remove(userOpHash: string): void {
+    this.entries = this.entries.filter(entry => entry.userOpHash !== userOpHash.toLowerCase());
+  }
+
+  /**
+   * Get every pending user operation
+   */
+  public dump(): MempoolEntry[] {
+    return [...this.entries];
+  }
+
+  public get size(): number {
+    return this.entries.length;
+  }
+
+  private raisesFee(oldFee: string, newFee: string): boolean {
+    return ethers.BigNumber.from(newFee).mul(100).gte(ethers.BigNumber.from(oldFee).mul(100 + REPLACEMENT_FEE_INCREASE));
+  }
+
+  private countBySender(sender: string): number {
+    return this.entries.filter(entry => entry.userOp.sender.toLowerCase() === sender).length;
+  }
+
+  private countByEntity(entity: string): number {
+    return this.entries.filter(entry => this.usesEntity(entry.userOp, entity)).length;
+  }
+
+  private usesEntity(userOp: UserOperation, entity: string): boolean {
+    return getFactory(userOp) === entity || getPaymaster(userOp) === entity;
+  }
+}
@@ -0,0 +1,399 @@
+import { ethers } from 'ethers';
+import { EntryPointVersion } from '../../config/networks';
+import { getPackedUserOperationHash, getUserOperationHash } from '../hsm/signer';
+import { BundlerError, parseUserOperation, UserOperation } from './userOperation';
+
+export { getPackedUserOperationHash };
+
+// ERC-4337 v0.7 user operation as exchanged over JSON-RPC; every field is a hex string
+export interface UserOperationV07 {
+  sender: string;
+  nonce: string;
+  factory?: string;
+  factoryData?: string;
+  callData: string;
+  callGasLimit: string;
+  verificationGasLimit: string;
+  preVerificationGas: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  paymaster?: string;
+  paymasterVerificationGasLimit?: string;
+  paymasterPostOpGasLimit?: string;
+  paymasterData?: string;
+  signature: string;
+}
+
+// ERC-4337 v0.7 user operation as the EntryPoint takes it; every field is a hex string
+export interface PackedUserOperation {
+  sender: string;
+  nonce: string;
+  initCode: string;
+  callData: string;
+  accountGasLimits: string;
+  preVerificationGas: string;
+  gasFees: string;
+  paymasterAndData: string;
+  signature: string;
+}
+
+// A user operation in any of the formats the relayer accepts
+export type AnyUserOperation = UserOperation | UserOperationV07 | PackedUserOperation;
+
+const UINT128_MAX = ethers.BigNumber.from(2).pow(128).sub(1);
+
+// Bytes of paymasterAndData before the paymaster data: address and two uint128 gas limits
+const PAYMASTER_DATA_OFFSET = 20 + 16 + 16;
+
+const V07_FIELDS: (keyof UserOperationV07)[] = [
+  'sender',
+  'nonce',
+  'factory',
+  'factoryData',
+  'callData',
+  'callGasLimit',
+  'verificationGasLimit',
+  'preVerificationGas',
+  'maxFeePerGas',
+  'maxPriorityFeePerGas',
+  'paymaster',
+  'paymasterVerificationGasLimit',
+  'paymasterPostOpGasLimit',
+  'paymasterData',
+  'signature',
+];
+const V07_OPTIONAL_FIELDS: (keyof UserOperationV07)[] = [
+  'factory',
+  'factoryData',
+  'paymaster',
+  'paymasterVerificationGasLimit',
+  'paymasterPostOpGasLimit',
+  'paymasterData',
+];
+const V07_BYTES_FIELDS: (keyof UserOperationV07)[] = ['factoryData', 'callData', 'paymasterData', 'signature'];
+const PACKED_FIELDS: (keyof PackedUserOperation)[] = [
+  'sender',
+  'nonce',
+  'initCode',
+  'callData',
+  'accountGasLimits',
+  'preVerificationGas',
+  'gasFees',
+  'paymasterAndData',
+  'signature',
+];
+
+/**
+ * Pack two uint128 values into one bytes32, the first in the high half
+ * @param high High value
+ * @param low Low value
+ * @throws BundlerError if a value does not fit in 128 bits
+ */
+export const packUint128Pair = (high: ethers.BigNumberish, low: ethers.BigNumberish): string => {
+  const values = [ethers.BigNumber.from(high), ethers.BigNumber.from(low)];
+  if (values.some(value => value.isNegative() || value.gt(UINT128_MAX))) {
+    throw new BundlerError('Packed gas values must fit in 128 bits');
+  }
+  return ethers.utils.hexConcat(values.map(value => ethers.utils.hexZeroPad(value.toHexString(), 16)));
+};
+
+/**
+ * Split a bytes32 into its two uint128 halves
+ * @param packed Packed value
+ * @returns High and low value as hex quantities
+ */
+export const unpackUint128Pair = (packed: string): [string, string] => {
+  const bytes = ethers.utils.hexZeroPad(packed, 32);
+  return [
+    ethers.BigNumber.from(ethers.utils.hexDataSlice(bytes, 0, 16)).toHexString(),
+    ethers.BigNumber.from(ethers.utils.hexDataSlice(bytes, 16, 32)).toHexString(),
+  ];
+};
+
+/**
+ * Pack the account gas limits of a v0.7 user operation
+ * @param verificationGasLimit Verification gas limit
+ * @param callGasLimit Call gas limit
+ */
+export const packAccountGasLimits = (verificationGasLimit: ethers.BigNumberish, callGasLimit: ethers.BigNumberish): string =>
+  packUint128Pair(verificationGasLimit, callGasLimit);
+
+/**
+ * Pack the gas fees of a v0.7 user operation
+ * @param maxPriorityFeePerGas Maximum priority fee per gas
+ * @param maxFeePerGas Maximum fee per gas
+ */
+export const packGasFees = (maxPriorityFeePerGas: ethers.BigNumberish, maxFeePerGas: ethers.BigNumberish): string =>
+  packUint128Pair(maxPriorityFeePerGas, maxFeePerGas);
+
+/**
+ * Pack the paymaster fields of a v0.7 user operation
+ * @param paymaster Paymaster address, or undefined for none
+ * @param verificationGasLimit Paymaster verification gas limit
+ * @param postOpGasLimit Paymaster postOp gas limit
+ * @param data Paymaster data
+ * @returns paymasterAndData, empty without a paymaster
+ */
+export const packPaymasterAndData = (
+  paymaster: string | undefined,
+  verificationGasLimit: ethers.BigNumberish = 0,
+  postOpGasLimit: ethers.BigNumberish = 0,
+  data: string = '0x'
+): string =>
+  paymaster
+    ? ethers.utils.hexConcat([paymaster, packUint128Pair(verificationGasLimit, postOpGasLimit), data]).toLowerCase()
+    : '0x';
+
+/**
+ * Pack a v0.7 user operation into the layout the EntryPoint takes
+ * @param userOp User operation
+ */
+export const packUserOperation = (userOp: UserOperationV07): PackedUserOperation => ({
+  sender: userOp.sender,
+  nonce: userOp.nonce,
+  initCode: userOp.factory ? ethers.utils.hexConcat([userOp.factory, userOp.factoryData || '0x']).toLowerCase() : '0x',
+  callData: userOp.callData,
+  accountGasLimits: packAccountGasLimits(userOp.verificationGasLimit, userOp.callGasLimit),
+  preVerificationGas: userOp.preVerificationGas,
+  gasFees: packGasFees(userOp.maxPriorityFeePerGas, userOp.maxFeePerGas),
+  paymasterAndData: packPaymasterAndData(
+    userOp.paymaster,
+    userOp.paymasterVerificationGasLimit,
+    userOp.paymasterPostOpGasLimit,
+    userOp.paymasterData
+  ),
+  signature: userOp.signature,
+});
+
+/**
+ * Unpack a packed v0.7 user operation into its JSON-RPC form
+ * @param packed Packed user operation
+ * @throws BundlerError if initCode or paymasterAndData is too short for the fields it packs
+ */
+export const unpackUserOperation = (packed: PackedUserOperation): UserOperationV07 => {
+  const [verificationGasLimit, callGasLimit] = unpackUint128Pair(packed.accountGasLimits);
+  const [maxPriorityFeePerGas, maxFeePerGas] = unpackUint128Pair(packed.gasFees);
+  const userOp: UserOperationV07 = {
+    sender: packed.sender,
+    nonce: packed.nonce,
+    callData: packed.callData,
+    callGasLimit,
+    verificationGasLimit,
+    preVerificationGas: packed.preVerificationGas,
+    maxFeePerGas,
+    maxPriorityFeePerGas,
+    signature: packed.signature,
+  };
+
+  if (ethers.utils.hexDataLength(packed.initCode) > 0) {
+    if (ethers.utils.hexDataLength(packed.initCode) < 20) {
+      throw new BundlerError('initCode must start with a factory address');
+    }
+    userOp.factory = ethers.utils.getAddress(ethers.utils.hexDataSlice(packed.initCode, 0, 20));
+    userOp.factoryData = ethers.utils.hexDataSlice(packed.initCode, 20);
+  }
+  if (ethers.utils.hexDataLength(packed.paymasterAndData) > 0) {
+    if (ethers.utils.hexDataLength(packed.paymasterAndData) < PAYMASTER_DATA_OFFSET) {
+      throw new BundlerError('paymasterAndData must hold a paymaster address and its gas limits');
+    }
+    userOp.paymaster = ethers.utils.getAddress(ethers.utils.hexDataSlice(packed.paymasterAndData, 0, 20));
+    [userOp.paymasterVerificationGasLimit, userOp.paymasterPostOpGasLimit] = unpackUint128Pair(
+      ethers.utils.hexDataSlice(packed.paymasterAndData, 20, PAYMASTER_DATA_OFFSET)
+    );
+    userOp.paymasterData = ethers.utils.hexDataSlice(packed.paymasterAndData, PAYMASTER_DATA_OFFSET);
+  }
+  return userOp;
+};
+
+/**
+ * Convert a v0.6 user operation to the v0.7 layout. v0.6 charges paymaster
+ * validation and postOp to verificationGasLimit, so both paymaster gas limits
+ * default to it. The hash changes, so the operation must be signed again.
+ * @param userOp v0.6 user operation
+ * @param paymasterGasLimits Paymaster gas limits to use instead
+ */
+export const toUserOperationV07 = (
+  userOp: UserOperation,
+  paymasterGasLimits: { verificationGasLimit?: string; postOpGasLimit?: string } = {}
+): UserOperationV07 => {
+  const converted: UserOperationV07 = {
+    sender: userOp.sender,
+    nonce: userOp.nonce,
+    callData: userOp.callData,
+    callGasLimit: userOp.callGasLimit,
+    verificationGasLimit: userOp.verificationGasLimit,
+    preVerificationGas: userOp.preVerificationGas,
+    maxFeePerGas: userOp.maxFeePerGas,
+    maxPriorityFeePerGas: userOp.maxPriorityFeePerGas,
+    signature: userOp.signature,
+  };
+
+  if (userOp.initCode.length > 2) {
+    converted.factory = ethers.utils.getAddress(userOp.initCode.slice(0, 42));
+    converted.factoryData = `0x${userOp.initCode.slice(42)}`;
+  }
+  if (userOp.paymasterAndData.length > 2) {
+    converted.paymaster = ethers.utils.getAddress(userOp.paymasterAndData.slice(0, 42));
+    converted.paymasterVerificationGasLimit = paymasterGasLimits.verificationGasLimit || userOp.verificationGasLimit;
+    converted.paymasterPostOpGasLimit = paymasterGasLimits.postOpGasLimit || userOp.verificationGasLimit;
+    converted.paymasterData = `0x${userOp.paymasterAndData.slice(42)}`;
+  }
+  return converted;
+};
+
+/**
+ * Convert a v0.7 user operation to the v0.6 layout. The paymaster gas limits
+ * fold into verificationGasLimit, which v0.6 applies to the account and the
+ * paymaster alike. The hash changes, so the operation must be signed again.
+ * @param userOp v0.7 user operation
+ */
+export const toUserOperationV06 = (userOp: UserOperationV07): UserOperation => {
+  const verificationGasLimit = [userOp.paymasterVerificationGasLimit, userOp.paymasterPostOpGasLimit].reduce(
+    (max: ethers.BigNumber, limit) => (limit && max.lt(limit) ? ethers.BigNumber.from(limit) : max),
+    ethers.BigNumber.from(userOp.verificationGasLimit)
+  );
+
+  return {
+    sender: userOp.sender,
+    nonce: userOp.nonce,
+    initCode: userOp.factory ? ethers.utils.hexConcat([userOp.factory, userOp.factoryData || '0x']).toLowerCase() : '0x',
+    callData: userOp.callData,
+    callGasLimit: userOp.callGasLimit,
+    verificationGasLimit: verificationGasLimit.toHexString(),
+    preVerificationGas: userOp.preVerificationGas,
+    maxFeePerGas: userOp.maxFeePerGas,
+    maxPriorityFeePerGas: userOp.maxPriorityFeePerGas,
+    paymasterAndData: userOp.paymaster
+      ? ethers.utils.hexConcat([userOp.paymaster, userOp.paymasterData || '0x']).toLowerCase()
+      : '0x',
+    signature: userOp.signature,
+  };
+};
+
+/**
+ * Read a v0.7 user operation from a JSON-RPC parameter
+ * @param raw Parameter
+ * @returns User operation with normalized hex fields
+ * @throws BundlerError if a field is missing or malformed
+ */
+export const parseUserOperationV07 = (raw: any): UserOperationV07 => {
+  if (!raw || typeof raw !== 'object') {
+    throw new BundlerError('User operation must be an object');
+  }
+
+  const userOp = {} as UserOperationV07;
+  for (const field of V07_FIELDS) {
+    const value = raw[field];
+    if (value === undefined || value === null) {
+      if (!V07_OPTIONAL_FIELDS.includes(field)) {
+        throw new BundlerError(`Missing user operation field ${field}`);
+      }
+      continue;
+    }
+    if (typeof value !== 'string' || !ethers.utils.isHexString(value)) {
+      throw new BundlerError(`User operation field ${field} must be a hex string`);
+    }
+
+    if (field === 'sender' || field === 'factory' || field === 'paymaster') {
+      if (!ethers.utils.isAddress(value)) {
+        throw new BundlerError(`User operation ${field} must be an address`);
+      }
+      userOp[field] = ethers.utils.getAddress(value);
+    } else if (V07_BYTES_FIELDS.includes(field)) {
+      if (value.length % 2 !== 0) {
+        throw new BundlerError(`User operation field ${field} must have an even length`);
+      }
+      userOp[field] = value.toLowerCase();
+    } else {
+      userOp[field] = ethers.BigNumber.from(value).toHexString();
+    }
+  }
+
+  if (userOp.factoryData && !userOp.factory) {
+    throw new BundlerError('factoryData requires a factory');
+  }
+  if (userOp.paymaster && (!userOp.paymasterVerificationGasLimit || !userOp.paymasterPostOpGasLimit)) {
+    throw new BundlerError('A paymaster requires paymasterVerificationGasLimit and paymasterPostOpGasLimit');
+  }
+  if (!userOp.paymaster && (userOp.paymasterVerificationGasLimit || userOp.paymasterPostOpGasLimit || userOp.paymasterData)) {
+    throw new BundlerError('Paymaster gas limits and data require a paymaster');
+  }
+  // Gas fields are packed into uint128 halves
+  packUserOperation(userOp);
+  return userOp;
+};
+
+/**
+ * Read a packed v0.7 user operation
+ * @param raw Parameter
+ * @returns Packed user operation with normalized hex fields
+ * @throws BundlerError if a field is missing or malformed
+ */
+export const parsePackedUserOperation = (raw: any): PackedUserOperation => {
+  if (!raw || typeof raw !== 'object') {
+    throw new BundlerError('User operation must be an object');
+  }
+  for (const field of PACKED_FIELDS) {
+    if (typeof raw[field] !== 'string' || !ethers.utils.isHexString(raw[field])) {
+      throw new BundlerError(`User operation field ${field} must be a hex string`);
+    }
+  }
+  for (const field of ['accountGasLimits', 'gasFees'] as const) {
+    if (ethers.utils.hexDataLength(raw[field]) !== 32) {
+      throw new BundlerError(`User operation field ${field} must be 32 bytes`);
+    }
+  }
+  // Unpacking validates the embedded addresses and gas limits
+  return packUserOperation(parseUserOperationV07(unpackUserOperation(raw)));
+};
+
+/**
+ * Tell the EntryPoint version a user operation is laid out for
+ * @param raw User operation in any format
+ * @returns '0.6' for initCode with unpacked gas fields, '0.7' for the packed and the JSON-RPC v0.7 layouts
+ */
+export const getUserOperationVersion = (raw: any): EntryPointVersion =>
+  raw && typeof raw === 'object' && raw.accountGasLimits === undefined && raw.initCode !== undefined ? '0.6' : '0.7';
+
+/**
+ * Check a user operation is a packed v0.7 user operation
+ * @param userOp User operation in any format
+ */
+export const isPackedUserOperation = (userOp: AnyUserOperation): userOp is PackedUserOperation =>
+  (userOp as PackedUserOperation).accountGasLimits !== undefined;
+
+/**
+ * Read a user operation in any format for an EntryPoint version. v0.7
+ * operations are returned in their JSON-RPC form, as bundlers take them.
+ * Operations laid out for the other version are refused rather than
+ * converted, as conversion changes the hash the signature covers.
+ * @param raw User operation
+ * @param version EntryPoint version of the chain
+ * @throws BundlerError if the layout does not match the version or a field is malformed
+ */
+export const parseUserOperationFor = (raw: any, version: EntryPointVersion): UserOperation | UserOperationV07 => {
+  const layout = getUserOperationVersion(raw);
+  if (layout !== version) {
+    throw new BundlerError(`User operation is laid out for EntryPoint v${layout}, but the chain uses v${version}`);
+  }
+  if (version === '0.6') {
+    return parseUserOperation(raw);
+  }
+  return raw.accountGasLimits !== undefined ? unpackUserOperation(parsePackedUserOperation(raw)) : parseUserOperationV07(raw);
+};
+
+/**
+ * Hash a user operation in any format the way its EntryPoint does
+ * @param userOp User operation
+ * @param entryPoint EntryPoint address
+ * @param chainId Chain ID
+ */
+export const hashUserOperation = (userOp: AnyUserOperation, entryPoint: string, chainId: number): string => {
+  if (isPackedUserOperation(userOp)) {
+    return getPackedUserOperationHash(userOp, entryPoint, chainId);
+  }
+  if ((userOp as UserOperation).initCode !== undefined) {
+    return getUserOperationHash(userOp as UserOperation, entryPoint, chainId);
+  }
+  return getPackedUserOperationHash(packUserOperation(userOp as UserOperationV07), entryPoint, chainId);
+};
@@ -0,0 +1,137 @@
+import { ethers } from 'ethers';
+
+export enum ReputationStatus {
+  OK = 'ok',
+  THROTTLED = 'throttled',
+  BANNED = 'banned',
+}
+
+// How often an entity's user operations were seen and included
+export interface EntityReputation {
+  address: string;
+  opsSeen: number;
+  opsIncluded: number;
+  status: ReputationStatus;
+}
+
+// Reputation parameters of ERC-7562
+export interface ReputationParams {
+  minInclusionDenominator: number;
+  throttlingSlack: number;
+  banSlack: number;
+  minStake: ethers.BigNumber; // Wei an entity must stake to count as staked
+  minUnstakeDelay: number; // Seconds
+}
+
+export const DEFAULT_REPUTATION_PARAMS: ReputationParams = {
+  minInclusionDenominator: 10,
+  throttlingSlack: 10,
+  banSlack: 50,
+  minStake: ethers.utils.parseEther('1'),
+  minUnstakeDelay: 86400,
+};
+
+/**
+ * Reputation of the factories, paymasters and aggregators whose user
+ * operations the bundler accepts. Every user operation that passes validation
+ * counts as seen for its entities, and every one included in a bundle as
+ * included. An entity that is seen far more often than included is throttled
+ * and then banned. The counters decay by a 24th every hour.
+ */
+export class ReputationManager {
+  private entries = new Map<string, { opsSeen: number; opsIncluded: number }>();
+
+  constructor(public readonly params: ReputationParams = DEFAULT_REPUTATION_PARAMS) {}
+
+  /**
+   * Count a validated user operation for its entities
+   * @param addresses Entity addresses
+   */
+  public updateSeen(addresses: (string | undefined)[]): void {
+    for (const address of addresses) {
+      if (address) {
+        this.entry(address).opsSeen++;
+      }
+    }
+  }
+
+  /**
+   * Count a user operation included in a bundle for its entities
+   * @param addresses Entity addresses
+   */
+  public updateIncluded(addresses: (string | undefined)[]): void {
+    for (const address of addresses) {
+      if (address) {
+        this.entry(address).opsIncluded++;
+      }
+    }
+  }
+
+  /**
+   * Ban an entity whose user operation made a bundle revert after passing validation
+   * @param address Entity address
+   */
+  public crashedHandleOps(address: string): void {
+    const entry = this.entry(address);
+    entry.opsSeen = Math.max(entry.opsSeen, (entry.opsIncluded + this.params.banSlack + 1) * this.params.minInclusionDenominator);
+  }
+
+  /**
+   * Get the status of an entity
+   * @param address Entity address
+   */
+  public getStatus(address: string): ReputationStatus {
+    const entry = this.entries.get(address.toLowerCase());
+    if (!entry) {
+      return ReputationStatus.OK;
+    }
+    const maxSeen = entry.opsSeen / this.params.minInclusionDenominator;
+    if (maxSeen <= entry.opsIncluded + this.params.throttlingSlack) {
+      return ReputationStatus.OK;
+    }
+    return maxSeen <= entry.opsIncluded + this.params.banSlack ? ReputationStatus.THROTTLED : ReputationStatus.BANNED;
+  }
+
+  /**
+   * Whether a stake meets the minimum stake and unstake delay
+   * @param stake Stake in wei
+   * @param unstakeDelaySec Unstake delay in seconds
+   */
+  public isStaked(stake: ethers.BigNumberish, unstakeDelaySec: number): boolean {
+    return ethers.BigNumber.from(stake).gte(this.params.minStake) && unstakeDelaySec >= this.params.minUnstakeDelay;
+  }
+
+  /**
+   * Decay the counters; call hourly
+   */
+  public decay(): void {
+    for (const [address, entry] of this.entries) {
+      entry.opsSeen = Math.floor((entry.opsSeen * 23) / 24);
+      entry.opsIncluded = Math.floor((entry.opsIncluded * 23) / 24);
+      if (entry.opsSeen === 0 && entry.opsIncluded === 0) {
+        this.entries.delete(address);
+      }
+    }
+  }
+
+  /**
+   * Get every tracked entity
+   */
+  public dump(): EntityReputation[] {
+    return Array.from(this.entries, ([address, entry]) => ({ address, ...entry, status: this.getStatus(address) }));
+  }
+
+  /**
+   * Get the counters of an entity, creating them if needed
+   * @param address Entity address
+   */
+  private entry(address: string): { opsSeen: number; opsIncluded: number } {
+    const key = address.toLowerCase();
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { opsSeen: 0, opsIncluded: 0 };
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+}
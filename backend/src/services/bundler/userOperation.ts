@@ -0,0 +1,276 @@
+import { ethers } from 'ethers';
+import { getUserOperationHash, UserOperationStruct } from '../hsm/signer';
+
+export { getUserOperationHash };
+
+// ERC-4337 v0.6 user operation as exchanged over JSON-RPC; every field is a hex string
+export interface UserOperation {
+  sender: string;
+  nonce: string;
+  initCode: string;
+  callData: string;
+  callGasLimit: string;
+  verificationGasLimit: string;
+  preVerificationGas: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  paymasterAndData: string;
+  signature: string;
+}
+
+/**
+ * JSON-RPC error codes of ERC-4337 bundlers
+ */
+export enum BundlerErrorCode {
+  INVALID_REQUEST = -32600,
+  METHOD_NOT_FOUND = -32601,
+  INVALID_FIELDS = -32602,
+  INTERNAL_ERROR = -32603,
+  SIMULATE_VALIDATION = -32500, // Rejected by the EntryPoint or the account
+  SIMULATE_PAYMASTER_VALIDATION = -32501,
+  OPCODE_VALIDATION = -32502, // Banned opcode or storage access
+  EXPIRES_SHORTLY = -32503,
+  REPUTATION = -32504, // Throttled or banned entity
+  INSUFFICIENT_STAKE = -32505,
+  UNSUPPORTED_AGGREGATOR = -32506,
+  INVALID_SIGNATURE = -32507,
+}
+
+/**
+ * Bundler error, reported to JSON-RPC clients with its code
+ */
+export class BundlerError extends Error {
+  constructor(message: string, public readonly rpcCode: number = BundlerErrorCode.INVALID_FIELDS, public readonly data?: unknown) {
+    super(message);
+    this.name = 'BundlerError';
+  }
+}
+
+const USER_OP_TUPLE =
+  'tuple(address sender, uint256 nonce, bytes initCode, bytes callData, uint256 callGasLimit, uint256 verificationGasLimit, uint256 preVerificationGas, uint256 maxFeePerGas, uint256 maxPriorityFeePerGas, bytes paymasterAndData, bytes signature)';
+const STAKE_INFO_TUPLE = 'tuple(uint256 stake, uint256 unstakeDelaySec)';
+const RETURN_INFO_TUPLE =
+  'tuple(uint256 preOpGas, uint256 prefund, bool sigFailed, uint48 validAfter, uint48 validUntil, bytes paymasterContext)';
+
+// The parts of the v0.6 EntryPoint the bundler calls, and the errors and events it decodes
+export const entryPointInterface = new ethers.utils.Interface([
+  `function handleOps(${USER_OP_TUPLE}[] ops, address beneficiary)`,
+  `function simulateValidation(${USER_OP_TUPLE} userOp)`,
+  `function simulateHandleOp(${USER_OP_TUPLE} op, address target, bytes targetCallData)`,
+  'function depositTo(address account) payable',
+  `error ValidationResult(${RETURN_INFO_TUPLE} returnInfo, ${STAKE_INFO_TUPLE} senderInfo, ${STAKE_INFO_TUPLE} factoryInfo, ${STAKE_INFO_TUPLE} paymasterInfo)`,
+  `error ValidationResultWithAggregation(${RETURN_INFO_TUPLE} returnInfo, ${STAKE_INFO_TUPLE} senderInfo, ${STAKE_INFO_TUPLE} factoryInfo, ${STAKE_INFO_TUPLE} paymasterInfo, tuple(address aggregator, ${STAKE_INFO_TUPLE} stakeInfo) aggregatorInfo)`,
+  'error ExecutionResult(uint256 preOpGas, uint256 paid, uint48 validAfter, uint48 validUntil, bool targetSuccess, bytes targetResult)',
+  'error FailedOp(uint256 opIndex, string reason)',
+  'error SignatureValidationFailed(address aggregator)',
+  'event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)',
+  'event UserOperationRevertReason(bytes32 indexed userOpHash, address indexed sender, uint256 nonce, bytes revertReason)',
+  'event BeforeExecution()',
+]);
+
+// Calldata overheads a bundle transaction spends on each user operation
+const GAS_OVERHEADS = {
+  fixed: 21000, // Transaction base cost, shared by the bundle
+  perUserOp: 18300,
+  perUserOpWord: 4,
+  zeroByte: 4,
+  nonZeroByte: 16,
+  bundleSize: 1, // Assumed bundle size when sharing the fixed cost
+  signatureSize: 65, // Assumed signature length when the signature is a placeholder
+};
+
+const FIELDS: (keyof UserOperation)[] = [
+  'sender',
+  'nonce',
+  'initCode',
+  'callData',
+  'callGasLimit',
+  'verificationGasLimit',
+  'preVerificationGas',
+  'maxFeePerGas',
+  'maxPriorityFeePerGas',
+  'paymasterAndData',
+  'signature',
+];
+const BYTES_FIELDS: (keyof UserOperation)[] = ['initCode', 'callData', 'paymasterAndData', 'signature'];
+
+/**
+ * Read a user operation from a JSON-RPC parameter
+ * @param raw Parameter
+ * @param partial Allow the gas fields and the signature to be missing, as gas estimation does
+ * @returns User operation with normalized hex fields
+ * @throws BundlerError if a field is missing or malformed
+ */
+export const parseUserOperation = (raw: any, partial = false): UserOperation => {
+  if (!raw || typeof raw !== 'object') {
+    throw new BundlerError('User operation must be an object');
+  }
+
+  const userOp = {} as UserOperation;
+  for (const field of FIELDS) {
+    let value = raw[field];
+    if (value === undefined || value === null) {
+      if (!partial || field === 'sender' || field === 'nonce' || field === 'callData') {
+        throw new BundlerError(`Missing user operation field ${field}`);
+      }
+      value = BYTES_FIELDS.includes(field) ? '0x' : '0x0';
+    }
+    if (typeof value !== 'string' || !ethers.utils.isHexString(value)) {
+      throw new BundlerError(`User operation field ${field} must be a hex string`);
+    }
+
+    if (field === 'sender') {
+      if (!ethers.utils.isAddress(value)) {
+        throw new BundlerError('User operation sender must be an address');
+      }
+      userOp.sender = ethers.utils.getAddress(value);
+    } else if (BYTES_FIELDS.includes(field)) {
+      if (value.length % 2 !== 0) {
+        throw new BundlerError(`User operation field ${field} must have an even length`);
+      }
+      userOp[field] = value.toLowerCase();
+    } else {
+      userOp[field] = ethers.BigNumber.from(value).toHexString();
+    }
+  }
+
+  const initCode = userOp.initCode;
+  if (initCode.length > 2 && initCode.length < 42) {
+    throw new BundlerError('initCode must start with a factory address');
+  }
+  const paymasterAndData = userOp.paymasterAndData;
+  if (paymasterAndData.length > 2 && paymasterAndData.length < 42) {
+    throw new BundlerError('paymasterAndData must start with a paymaster address');
+  }
+  return userOp;
+};
+
+/**
+ * Convert a user operation to the struct ethers encodes and hashes
+ * @param userOp User operation
+ */
+export const toStruct = (userOp: UserOperation): Required<UserOperationStruct> => ({ ...userOp });
+
+/**
+ * Convert a user operation decoded from handleOps calldata back to its JSON-RPC form
+ * @param struct Decoded user operation
+ */
+export const fromStruct = (struct: Record<string, any>): UserOperation =>
+  parseUserOperation(
+    Object.fromEntries(
+      FIELDS.map(field => [field, ethers.BigNumber.isBigNumber(struct[field]) ? struct[field].toHexString() : struct[field]])
+    )
+  );
+
+/**
+ * Get the factory of a user operation that deploys its account
+ * @param userOp User operation
+ * @returns Lowercase factory address, or undefined
+ */
+export const getFactory = (userOp: UserOperation): string | undefined =>
+  userOp.initCode.length >= 42 ? userOp.initCode.slice(0, 42).toLowerCase() : undefined;
+
+/**
+ * Get the paymaster of a user operation
+ * @param userOp User operation
+ * @returns Lowercase paymaster address, or undefined
+ */
+export const getPaymaster = (userOp: UserOperation): string | undefined =>
+  userOp.paymasterAndData.length >= 42 ? userOp.paymasterAndData.slice(0, 42).toLowerCase() : undefined;
+
+/**
+ * Calculate the preVerificationGas a user operation must pay for the calldata it adds to a bundle
+ * @param userOp User operation
+ * @returns Gas
+ */
+export const calculatePreVerificationGas = (userOp: UserOperation): number => {
+  // Gas fields left empty for estimation are costed at an upper bound, so the estimate covers the final values
+  const bound = (value: string, bytes: number) => (ethers.BigNumber.from(value).isZero() ? '0x' + 'ff'.repeat(bytes) : value);
+  const filled = {
+    ...userOp,
+    callGasLimit: bound(userOp.callGasLimit, 4),
+    verificationGasLimit: bound(userOp.verificationGasLimit, 4),
+    preVerificationGas: '0x' + 'ff'.repeat(4), // Upper bound of the field's own cost
+    maxFeePerGas: bound(userOp.maxFeePerGas, 8),
+    maxPriorityFeePerGas: bound(userOp.maxPriorityFeePerGas, 8),
+    signature:
+      userOp.signature.length > 2 ? userOp.signature : ethers.utils.hexlify(Buffer.alloc(GAS_OVERHEADS.signatureSize, 1)),
+  };
+  // The op as it appears in the handleOps calldata, without its offset word
+  const packed = ethers.utils.arrayify(ethers.utils.defaultAbiCoder.encode([USER_OP_TUPLE], [toStruct(filled)])).slice(32);
+  const callDataCost = packed.reduce(
+    (sum, byte) => sum + (byte === 0 ? GAS_OVERHEADS.zeroByte : GAS_OVERHEADS.nonZeroByte),
+    0
+  );
+  const words = Math.ceil(packed.length / 32);
+  return Math.round(
+    callDataCost +
+      GAS_OVERHEADS.fixed / GAS_OVERHEADS.bundleSize +
+      GAS_OVERHEADS.perUserOp +
+      GAS_OVERHEADS.perUserOpWord * words
+  );
+};
+
+/**
+ * Find the revert data in an error thrown by a JSON-RPC call
+ * @param error Error
+ * @returns Revert data, or undefined if the error carries none
+ */
+export const revertData = (error: any): string | undefined => {
+  for (let current = error, depth = 0; current && depth < 5; current = current.error, depth++) {
+    const data = typeof current.data === 'object' ? current.data?.data : current.data;
+    if (typeof data === 'string' && ethers.utils.isHexString(data)) {
+      return data;
+    }
+    if (typeof current.body === 'string') {
+      try {
+        return revertData(JSON.parse(current.body));
+      } catch {
+        // Not a JSON-RPC response body
+      }
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Call the EntryPoint and decode the custom error its simulation functions revert with
+ * @param provider Provider
+ * @param entryPoint EntryPoint address
+ * @param data Calldata
+ * @returns Decoded error
+ * @throws BundlerError if the call fails without an EntryPoint error
+ */
+export const callEntryPoint = async (
+  provider: ethers.providers.JsonRpcProvider,
+  entryPoint: string,
+  data: string
+): Promise<ReturnType<ethers.utils.Interface['parseError']>> => {
+  let result: string | undefined;
+  try {
+    // ethers returns revert data as the result of a failed call when the node includes it
+    result = await provider.call({ to: entryPoint, data });
+  } catch (error) {
+    result = revertData(error);
+    if (!result) {
+      throw new BundlerError(`EntryPoint simulation failed: ${(error as Error).message}`, BundlerErrorCode.SIMULATE_VALIDATION);
+    }
+  }
+
+  try {
+    return entryPointInterface.parseError(result);
+  } catch {
+    throw new BundlerError(`Unexpected EntryPoint simulation result: ${result}`, BundlerErrorCode.SIMULATE_VALIDATION);
+  }
+};
+
+/**
+ * Turn a FailedOp error of the EntryPoint into a bundler error. AA3x codes
+ * blame the paymaster; the rest blame the factory or the account.
+ * @param reason FailedOp reason, e.g. "AA23 reverted"
+ */
+export const failedOpError = (reason: string): BundlerError =>
+  new BundlerError(
+    reason,
+    reason.startsWith('AA3') ? BundlerErrorCode.SIMULATE_PAYMASTER_VALIDATION : BundlerErrorCode.SIMULATE_VALIDATION
+  );
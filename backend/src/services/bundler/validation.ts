@@ -0,0 +1,211 @@
+import { ethers } from 'ethers';
+
+// One step of a debug_traceCall struct log
+export interface StructLog {
+  pc: number;
+  op: string;
+  depth: number;
+  gas?: number;
+  stack?: string[]; // Bottom first
+  memory?: string[] | string; // 32-byte words, or one hex string
+}
+
+// Entities validated in a simulateValidation trace
+export type ValidationEntity = 'factory' | 'account' | 'paymaster';
+
+// What a trace is checked against
+export interface TraceContext {
+  entryPoint: string;
+  sender: string;
+  factory?: string;
+  paymaster?: string;
+  staked: Record<ValidationEntity, boolean>;
+}
+
+// A broken validation rule
+export interface RuleViolation {
+  entity: ValidationEntity;
+  rule: string; // ERC-7562 rule ID
+  message: string;
+}
+
+// Opcodes whose result differs between validation and execution (OP-011)
+const FORBIDDEN_OPCODES = new Set([
+  'GASPRICE',
+  'GASLIMIT',
+  'DIFFICULTY',
+  'PREVRANDAO',
+  'TIMESTAMP',
+  'BASEFEE',
+  'BLOCKHASH',
+  'NUMBER',
+  'SELFBALANCE',
+  'BALANCE',
+  'ORIGIN',
+  'COINBASE',
+  'BLOBHASH',
+  'BLOBBASEFEE',
+  'SELFDESTRUCT',
+  'SUICIDE',
+]);
+
+const CALL_OPCODES = new Set(['CALL', 'CALLCODE', 'DELEGATECALL', 'STATICCALL']);
+
+// EntryPoint functions entities may call during validation (OP-053)
+const DEPOSIT_TO_SELECTOR = '0xb760faf9';
+
+// Rules a trace without memory may report falsely, as keccak preimages and call selectors are unknown
+export const MEMORY_DEPENDENT_RULES = new Set(['STO-021', 'STO-031', 'OP-053']);
+
+// Slots within this distance of a keccak of the sender count as the sender's (STO-021)
+const ASSOCIATED_SLOT_RANGE = 128;
+
+// Entities in the order the v0.6 EntryPoint validates them, separated by NUMBER markers
+const SEGMENTS: ValidationEntity[] = ['factory', 'account', 'paymaster'];
+
+// Frame of a contract being created; its storage is the new account's
+const CREATED = 'created';
+
+/**
+ * Read a stack item of a step
+ * @param log Step
+ * @param index Position from the top, 0 being the top
+ */
+const stackItem = (log: StructLog, index: number): ethers.BigNumber => {
+  const stack = log.stack || [];
+  const value = stack[stack.length - 1 - index];
+  if (value === undefined) {
+    return ethers.constants.Zero;
+  }
+  return ethers.BigNumber.from(value.startsWith('0x') ? value : `0x${value}`);
+};
+
+/**
+ * Read a stack item of a step as an address
+ * @param log Step
+ * @param index Position from the top
+ */
+const stackAddress = (log: StructLog, index: number): string =>
+  `0x${ethers.utils.hexZeroPad(stackItem(log, index).toHexString(), 32).slice(-40)}`;
+
+/**
+ * Read memory of a step
+ * @param log Step
+ * @param offset Byte offset
+ * @param size Byte count
+ * @returns Hex string, zero-filled past the end of memory
+ */
+const readMemory = (log: StructLog, offset: number, size: number): string => {
+  const words = Array.isArray(log.memory) ? log.memory : [log.memory || ''];
+  const memory = words.map(word => word.replace(/^0x/, '')).join('');
+  const data = memory.slice(offset * 2, (offset + size) * 2);
+  return `0x${data.padEnd(size * 2, '0')}`;
+};
+
+/**
+ * Check the struct log of a traced simulateValidation call against the
+ * ERC-7562 validation rules. Enforced: forbidden opcodes (OP-011), GAS only
+ * before a call (OP-012), CREATE2 only to deploy the account (OP-031), no
+ * value transfers except to the EntryPoint (OP-061), only depositTo calls
+ * into the EntryPoint (OP-053), and storage access limited to the account's
+ * own and associated storage, except for staked entities (STO-021, STO-031,
+ * STO-033). Code run by the EntryPoint itself is not checked. Without memory
+ * in the trace, storage associations and EntryPoint calls cannot be
+ * recognized and MEMORY_DEPENDENT_RULES are reported conservatively.
+ * @param logs Struct log
+ * @param context Entities of the user operation
+ * @returns Violations, empty if the trace obeys the rules
+ */
+export const checkValidationTrace = (logs: StructLog[], context: TraceContext): RuleViolation[] => {
+  if (logs.length === 0) {
+    return [];
+  }
+
+  const entryPoint = context.entryPoint.toLowerCase();
+  const sender = context.sender.toLowerCase();
+  const entityAddresses: Record<ValidationEntity, string | undefined> = {
+    factory: context.factory?.toLowerCase(),
+    account: sender,
+    paymaster: context.paymaster?.toLowerCase(),
+  };
+  const senderWord = ethers.utils.hexZeroPad(sender, 32).toLowerCase();
+
+  const violations: RuleViolation[] = [];
+  const associatedSlots: ethers.BigNumber[] = [];
+  const topDepth = logs[0].depth;
+  const contexts: Record<number, string> = { [topDepth]: entryPoint };
+  let segment = 0;
+  let creations = 0;
+
+  for (let i = 0; i < logs.length; i++) {
+    const log = logs[i];
+    const op = log.op;
+    const next = logs[i + 1];
+    const current = contexts[log.depth];
+
+    // Note the storage context of the frame a call or create opens
+    if (next && next.depth === log.depth + 1) {
+      if (op === 'CALL' || op === 'STATICCALL') {
+        contexts[next.depth] = stackAddress(log, 1);
+      } else if (op === 'DELEGATECALL' || op === 'CALLCODE') {
+        contexts[next.depth] = current;
+      } else if (op === 'CREATE' || op === 'CREATE2') {
+        contexts[next.depth] = CREATED;
+      }
+    }
+
+    if (log.depth === topDepth) {
+      if (op === 'NUMBER') {
+        segment++;
+      }
+      continue;
+    }
+    const entity = SEGMENTS[segment];
+    if (!entity || current === entryPoint) {
+      continue;
+    }
+    const violation = (rule: string, message: string) =>
+      violations.push({ entity, rule, message: `${entity} ${entityAddresses[entity] || ''} ${message}`.replace(/\s+/g, ' ') });
+
+    if (FORBIDDEN_OPCODES.has(op)) {
+      violation('OP-011', `uses the forbidden opcode ${op}`);
+    } else if (op === 'GAS' && !(next && next.depth === log.depth && CALL_OPCODES.has(next.op))) {
+      violation('OP-012', 'uses GAS other than to make a call');
+    } else if (op === 'CREATE' || (op === 'CREATE2' && (entity !== 'factory' || ++creations > 1))) {
+      violation('OP-031', `uses ${op} other than to deploy the account`);
+    } else if (op === 'SHA3' || op === 'KECCAK256') {
+      const size = stackItem(log, 1).toNumber();
+      const data = readMemory(log, stackItem(log, 0).toNumber(), size);
+      if (size >= 32 && data.slice(0, 66).toLowerCase() === senderWord) {
+        associatedSlots.push(ethers.BigNumber.from(ethers.utils.keccak256(data)));
+      }
+    } else if (op === 'SLOAD' || op === 'SSTORE') {
+      const address = current === CREATED ? sender : current;
+      const slot = stackItem(log, 0);
+      const associated = associatedSlots.some(base => slot.gte(base) && slot.sub(base).lte(ASSOCIATED_SLOT_RANGE));
+      if (address === sender || associated || context.staked[entity]) {
+        continue;
+      }
+      if (address === entityAddresses[entity]) {
+        violation('STO-031', `is unstaked and accesses its own storage (slot ${slot.toHexString()})`);
+      } else {
+        violation('STO-021', `is unstaked and accesses storage of ${address} (slot ${slot.toHexString()})`);
+      }
+    } else if (CALL_OPCODES.has(op)) {
+      const target = stackAddress(log, 1);
+      if (op === 'CALL' && !stackItem(log, 2).isZero() && target !== entryPoint) {
+        violation('OP-061', `sends value to ${target}`);
+      }
+      if (target === entryPoint) {
+        const argsIndex = op === 'CALL' || op === 'CALLCODE' ? 3 : 2;
+        const argsSize = stackItem(log, argsIndex + 1).toNumber();
+        const selector = argsSize >= 4 ? readMemory(log, stackItem(log, argsIndex).toNumber(), 4) : '0x';
+        if (selector !== '0x' && selector !== DEPOSIT_TO_SELECTOR) {
+          violation('OP-053', `calls the EntryPoint function ${selector}`);
+        }
+      }
+    }
+  }
+
+  return violations;
+};
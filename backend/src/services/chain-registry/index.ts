@@ -0,0 +1,491 @@
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { ethers } from 'ethers';
+import YAML from 'yaml';
+import { logger } from '../../utils/logger';
+import {
+  ChainConfig,
+  DEFAULT_CHAINS,
+  DEFAULT_FORWARDER_NAME,
+  ENTRYPOINT_ADDRESSES,
+  EntryPointVersion,
+} from '../../config/networks';
+
+export * from '../../config/networks';
+
+// Interval used to poll the registry file for changes
+const WATCH_INTERVAL_MS = 5000;
+
+// Time a fallback RPC endpoint waits before the next one is tried
+const FALLBACK_STALL_TIMEOUT_MS = 2000;
+
+// Chain registry options
+export interface ChainRegistryOptions {
+  filePath?: string; // JSON or YAML file; built-in chains are used when omitted
+  watch?: boolean; // Reload automatically when the file changes
+}
+
+// Summary of a registry reload
+export interface ChainRegistryUpdate {
+  added: number[];
+  removed: number[];
+  changed: number[];
+}
+
+/**
+ * Replace `${VAR}` and `${VAR:-default}` references with environment variables
+ * @param value Parsed configuration value
+ * @returns Value with references substituted
+ */
+const substituteEnv = (value: any): any => {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Z0-9_]+)(?::-([^}]*))?\}/gi, (_, name: string, fallback?: string) =>
+      process.env[name] ?? fallback ?? ''
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map(substituteEnv);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, substituteEnv(entry)]));
+  }
+  return value;
+};
+
+/**
+ * Validate and normalize a chain definition
+ * @param raw Chain definition read from configuration
+ * @returns Chain configuration
+ * @throws Error if the definition is invalid
+ */
+const validateChain = (raw: any): ChainConfig => {
+  const label = `Chain ${raw?.chainId ?? raw?.name ?? '<unknown>'}`;
+
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Chain definition must be an object');
+  }
+  if (!Number.isInteger(raw.chainId) || raw.chainId <= 0) {
+    throw new Error(`${label}: chainId must be a positive integer`);
+  }
+  if (typeof raw.name !== 'string' || !raw.name) {
+    throw new Error(`${label}: name is required`);
+  }
+  if (
+    !raw.nativeCurrency ||
+    typeof raw.nativeCurrency.symbol !== 'string' ||
+    !Number.isInteger(raw.nativeCurrency.decimals)
+  ) {
+    throw new Error(`${label}: nativeCurrency requires a symbol and integer decimals`);
+  }
+
+  // Unset environment variables leave empty entries behind
+  const rpcUrls: string[] = Array.isArray(raw.rpcUrls) ? raw.rpcUrls.filter((url: unknown) => !!url) : [];
+  if (rpcUrls.length === 0) {
+    throw new Error(`${label}: at least one RPC URL is required`);
+  }
+  for (const url of rpcUrls) {
+    if (typeof url !== 'string' || !/^(https?|wss?):\/\//.test(url)) {
+      throw new Error(`${label}: invalid RPC URL`);
+    }
+  }
+
+  if (typeof raw.blockTime !== 'number' || raw.blockTime <= 0) {
+    throw new Error(`${label}: blockTime must be a positive number of seconds`);
+  }
+  if (!Number.isInteger(raw.confirmations) || raw.confirmations < 0) {
+    throw new Error(`${label}: confirmations must be a non-negative integer`);
+  }
+
+  if (raw.entryPoint) {
+    if (!Object.keys(ENTRYPOINT_ADDRESSES).includes(raw.entryPoint.version)) {
+      throw new Error(`${label}: unsupported EntryPoint version ${raw.entryPoint.version}`);
+    }
+    // Without an address the well-known deployment of the version is used
+    if (raw.entryPoint.address && !ethers.utils.isAddress(raw.entryPoint.address)) {
+      throw new Error(`${label}: invalid EntryPoint address`);
+    }
+  }
+
+  if (raw.localBundler) {
+    if (raw.entryPoint?.version !== '0.6') {
+      throw new Error(`${label}: the local bundler requires an EntryPoint v0.6`);
+    }
+    if (raw.localBundler.beneficiary && !ethers.utils.isAddress(raw.localBundler.beneficiary)) {
+      throw new Error(`${label}: invalid local bundler beneficiary`);
+    }
+    for (const field of ['bundleIntervalMs', 'maxBundleSize', 'minUnstakeDelay']) {
+      const value = raw.localBundler[field];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        throw new Error(`${label}: local bundler ${field} must be a non-negative integer`);
+      }
+    }
+    if (raw.localBundler.minStake !== undefined && !/^\d+$/.test(String(raw.localBundler.minStake))) {
+      throw new Error(`${label}: local bundler minStake must be an amount in wei`);
+    }
+  }
+
+  if (raw.trustedForwarder) {
+    if (!ethers.utils.isAddress(raw.trustedForwarder.address)) {
+      throw new Error(`${label}: invalid trusted forwarder address`);
+    }
+    const name = raw.trustedForwarder.name;
+    if (name !== undefined && (typeof name !== 'string' || !name)) {
+      throw new Error(`${label}: trusted forwarder name must be a non-empty string`);
+    }
+  }
+
+  if (raw.multicall && !ethers.utils.isAddress(raw.multicall)) {
+    throw new Error(`${label}: invalid Multicall3 address`);
+  }
+
+  if (raw.relayerPool) {
+    for (const field of ['minBalance', 'topUpAmount']) {
+      const value = raw.relayerPool[field];
+      if (value !== undefined && !/^\d+$/.test(String(value))) {
+        throw new Error(`${label}: relayer pool ${field} must be an amount in wei`);
+      }
+    }
+  }
+
+  if (raw.explorer) {
+    if (!raw.explorer.txUrl?.includes('{hash}') || !raw.explorer.addressUrl?.includes('{address}')) {
+      throw new Error(`${label}: explorer txUrl and addressUrl must contain {hash} and {address}`);
+    }
+    if (raw.explorer.apiUrl && !/^https?:\/\//.test(raw.explorer.apiUrl)) {
+      throw new Error(`${label}: invalid explorer API URL`);
+    }
+  }
+
+  return {
+    ...raw,
+    nativeCurrency: { name: raw.nativeCurrency.name || raw.nativeCurrency.symbol, ...raw.nativeCurrency },
+    rpcUrls,
+    ...(raw.entryPoint
+      ? {
+          entryPoint: {
+            version: raw.entryPoint.version,
+            address: raw.entryPoint.address || ENTRYPOINT_ADDRESSES[raw.entryPoint.version as EntryPointVersion],
+          },
+        }
+      : {}),
+    bundlerUrl: raw.bundlerUrl || undefined,
+    paymasterUrl: raw.paymasterUrl || undefined,
+    ...(raw.localBundler
+      ? {
+          localBundler: {
+            ...raw.localBundler,
+            beneficiary: raw.localBundler.beneficiary || undefined,
+            minStake: raw.localBundler.minStake === undefined ? undefined : String(raw.localBundler.minStake),
+          },
+        }
+      : {}),
+    ...(raw.trustedForwarder
+      ? {
+          trustedForwarder: {
+            address: ethers.utils.getAddress(raw.trustedForwarder.address),
+            name: raw.trustedForwarder.name || DEFAULT_FORWARDER_NAME,
+          },
+        }
+      : {}),
+    multicall: raw.multicall ? ethers.utils.getAddress(raw.multicall) : undefined,
+    ...(raw.relayerPool
+      ? {
+          relayerPool: {
+            minBalance: raw.relayerPool.minBalance === undefined ? undefined : String(raw.relayerPool.minBalance),
+            topUpAmount: raw.relayerPool.topUpAmount === undefined ? undefined : String(raw.relayerPool.topUpAmount),
+          },
+        }
+      : {}),
+    // An explorer API without a key is not queried
+    ...(raw.explorer
+      ? { explorer: { ...raw.explorer, apiUrl: raw.explorer.apiUrl || undefined, apiKey: raw.explorer.apiKey || undefined } }
+      : {}),
+  };
+};
+
+/**
+ * Registry of supported chains shared by every service.
+ *
+ * Chains are read from `CHAIN_REGISTRY_FILE` (JSON or YAML) or fall back to
+ * the built-in defaults. The registry emits `updated` with a
+ * `ChainRegistryUpdate` after a successful reload.
+ */
+export class ChainRegistry extends EventEmitter {
+  private chains: Map<number, ChainConfig> | null = null;
+  private providers: Map<number, ethers.providers.BaseProvider> = new Map();
+  private loadedAt = 0;
+  private watching = false;
+
+  constructor(private readonly options: ChainRegistryOptions = {}) {
+    super();
+  }
+
+  /**
+   * Read chain definitions from the configured source
+   * @returns Validated chains keyed by chain ID
+   * @throws Error if the source cannot be read or is invalid
+   */
+  private readChains(): Map<number, ChainConfig> {
+    let definitions: any[] = DEFAULT_CHAINS;
+
+    if (this.options.filePath) {
+      const filePath = path.resolve(this.options.filePath);
+      const content = fs.readFileSync(filePath, 'utf8');
+      const parsed = /\.ya?ml$/i.test(filePath) ? YAML.parse(content) : JSON.parse(content);
+      const chains = Array.isArray(parsed) ? parsed : parsed?.chains;
+
+      if (!Array.isArray(chains)) {
+        throw new Error(`Chain registry file ${filePath} must contain a list of chains`);
+      }
+      definitions = substituteEnv(chains);
+    }
+
+    const chains = new Map<number, ChainConfig>();
+    for (const definition of definitions) {
+      const chain = validateChain(definition);
+      if (chains.has(chain.chainId)) {
+        throw new Error(`Duplicate chain ID in chain registry: ${chain.chainId}`);
+      }
+      chains.set(chain.chainId, chain);
+    }
+
+    return chains;
+  }
+
+  /**
+   * Get the loaded chains, loading them on first use
+   */
+  private get registry(): Map<number, ChainConfig> {
+    if (!this.chains) {
+      this.chains = this.readChains();
+      this.loadedAt = Date.now();
+      logger.info(`Chain registry loaded ${this.chains.size} chains from ${this.options.filePath || 'built-in defaults'}`);
+
+      if (this.options.watch) {
+        this.watch();
+      }
+    }
+    return this.chains;
+  }
+
+  /**
+   * Get a chain by ID
+   * @param chainId Chain ID
+   * @returns Chain configuration or undefined if not supported
+   */
+  public getChain(chainId: number | string): ChainConfig | undefined {
+    return this.registry.get(Number(chainId));
+  }
+
+  /**
+   * Get a chain by ID, failing if it is not supported
+   * @param chainId Chain ID
+   * @returns Chain configuration
+   * @throws Error if the chain is not supported
+   */
+  public requireChain(chainId: number | string): ChainConfig {
+    const chain = this.getChain(chainId);
+    if (!chain) {
+      throw new Error(`Unsupported network: ${chainId}`);
+    }
+    return chain;
+  }
+
+  /**
+   * Check whether a chain is supported
+   * @param chainId Chain ID
+   */
+  public isSupported(chainId: number | string): boolean {
+    return this.registry.has(Number(chainId));
+  }
+
+  /**
+   * Get the EntryPoint of a chain. Chains that name none use the v0.6 deployment.
+   * @param chainId Chain ID
+   * @returns EntryPoint address and version
+   * @throws Error if the chain is not supported
+   */
+  public getEntryPoint(chainId: number | string): { address: string; version: EntryPointVersion } {
+    return this.requireChain(chainId).entryPoint || { address: ENTRYPOINT_ADDRESSES['0.6'], version: '0.6' };
+  }
+
+  /**
+   * Get the ERC-2771 forwarder of a chain
+   * @param chainId Chain ID
+   * @returns Forwarder address and EIP-712 domain name, or undefined if the chain has none
+   * @throws Error if the chain is not supported
+   */
+  public getTrustedForwarder(chainId: number | string): { address: string; name: string } | undefined {
+    return this.requireChain(chainId).trustedForwarder;
+  }
+
+  /**
+   * Get every supported chain
+   */
+  public getChains(): ChainConfig[] {
+    return Array.from(this.registry.values());
+  }
+
+  /**
+   * Get every supported chain ID
+   */
+  public getChainIds(): number[] {
+    return Array.from(this.registry.keys());
+  }
+
+  /**
+   * Get a provider for a chain. With several RPC endpoints the provider
+   * falls back to the next endpoint when one fails or stalls.
+   * @param chainId Chain ID
+   * @returns Provider
+   * @throws Error if the chain is not supported
+   */
+  public getProvider(chainId: number | string): ethers.providers.BaseProvider {
+    const chain = this.requireChain(chainId);
+    let provider = this.providers.get(chain.chainId);
+
+    if (!provider) {
+      const rpcProviders = chain.rpcUrls.map(url =>
+        /^wss?:/.test(url)
+          ? new ethers.providers.WebSocketProvider(url, chain.chainId)
+          : new ethers.providers.StaticJsonRpcProvider(url, chain.chainId)
+      );
+
+      provider =
+        rpcProviders.length === 1
+          ? rpcProviders[0]
+          : new ethers.providers.FallbackProvider(
+              rpcProviders.map((rpcProvider, index) => ({
+                provider: rpcProvider,
+                priority: index + 1,
+                stallTimeout: FALLBACK_STALL_TIMEOUT_MS,
+                weight: 1,
+              })),
+              1
+            );
+      this.providers.set(chain.chainId, provider);
+    }
+
+    return provider;
+  }
+
+  /**
+   * Get the explorer URL of a transaction
+   * @param chainId Chain ID
+   * @param hash Transaction hash
+   * @returns Explorer URL or undefined if the chain has no explorer
+   */
+  public getTransactionUrl(chainId: number | string, hash: string): string | undefined {
+    return this.getChain(chainId)?.explorer?.txUrl.replace('{hash}', hash);
+  }
+
+  /**
+   * Get the explorer URL of an address
+   * @param chainId Chain ID
+   * @param address Address
+   * @returns Explorer URL or undefined if the chain has no explorer
+   */
+  public getAddressUrl(chainId: number | string, address: string): string | undefined {
+    return this.getChain(chainId)?.explorer?.addressUrl.replace('{address}', address);
+  }
+
+  /**
+   * Reload chains from the configured source. The current chains stay in
+   * place if the new configuration is invalid.
+   * @returns Added, removed and changed chain IDs
+   * @throws Error if the configuration cannot be loaded
+   */
+  public reload(): ChainRegistryUpdate {
+    const previous = this.chains || new Map<number, ChainConfig>();
+    const next = this.readChains();
+
+    const update: ChainRegistryUpdate = { added: [], removed: [], changed: [] };
+    for (const [chainId, chain] of next) {
+      if (!previous.has(chainId)) {
+        update.added.push(chainId);
+      } else if (JSON.stringify(previous.get(chainId)) !== JSON.stringify(chain)) {
+        update.changed.push(chainId);
+      }
+    }
+    for (const chainId of previous.keys()) {
+      if (!next.has(chainId)) {
+        update.removed.push(chainId);
+      }
+    }
+
+    this.chains = next;
+    this.loadedAt = Date.now();
+    for (const chainId of [...update.removed, ...update.changed]) {
+      this.dropProvider(chainId);
+    }
+
+    logger.info('Chain registry reloaded', update);
+    this.emit('updated', update);
+    return update;
+  }
+
+  /**
+   * Discard the cached provider of a chain
+   * @param chainId Chain ID
+   */
+  private dropProvider(chainId: number): void {
+    const provider = this.providers.get(chainId);
+    if (provider instanceof ethers.providers.WebSocketProvider) {
+      provider.destroy().catch(() => undefined);
+    }
+    this.providers.delete(chainId);
+  }
+
+  /**
+   * Reload automatically whenever the registry file changes
+   */
+  public watch(): void {
+    if (!this.options.filePath || this.watching) {
+      return;
+    }
+
+    this.watching = true;
+    fs.watchFile(path.resolve(this.options.filePath), { interval: WATCH_INTERVAL_MS }, (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs) {
+        return;
+      }
+      try {
+        this.reload();
+      } catch (error) {
+        logger.error('Failed to reload chain registry, keeping current chains:', error);
+      }
+    });
+  }
+
+  /**
+   * Stop watching the registry file
+   */
+  public unwatch(): void {
+    if (this.options.filePath && this.watching) {
+      fs.unwatchFile(path.resolve(this.options.filePath));
+      this.watching = false;
+    }
+  }
+
+  /**
+   * Get the registry status
+   * @returns Registry status
+   */
+  public getStatus(): Record<string, any> {
+    return {
+      source: this.options.filePath || 'built-in',
+      watching: this.watching,
+      loadedAt: this.loadedAt,
+      chainIds: this.getChainIds(),
+    };
+  }
+}
+
+// Create and export a singleton instance
+const chainRegistry = new ChainRegistry({
+  filePath: process.env.CHAIN_REGISTRY_FILE || undefined,
+  watch: process.env.CHAIN_REGISTRY_WATCH === 'true',
+});
+
+export default chainRegistry;
@@ -1,11 +1,10 @@
 import { providers, ethers } from 'ethers';
 import { getDatabase } from '../../config/database';
 import { logger } from '../../utils/logger';
-import { NetworkConfig as ImportedNetworkConfig } from '../../config/networks';
-import { createHSMProvider, HSMProviderType, HSMProvider } from '../hsm';
+import chainRegistry from '../chain-registry';
+import { createHSMProvider, hsmConfigFromEnv, HSMConfig, HSMProvider } from '../hsm';
 import { createAuditLog } from '../../audit';
 import { RetryUtility } from '../../utils/retry';
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
 import { v4 as uuidv4 } from 'uuid';
 import sdkService from '../sdk-integration';
 import { simulateTransaction } from '../simulation';
@@ -42,6 +41,7 @@ export interface CrossChainTransaction {
   completedAt?: number;
   error?: string;
   tenantId?: string;
+  tenantIdBackfilled?: boolean; // Set when tenantId was assigned by a migration
 }
 
 // Interface for bridge fee
@@ -52,89 +52,6 @@ export interface BridgeFee {
   estimatedTime: number;
 }
 
-// Network configuration
-interface NetworkConfig {
-  name: string;
-  rpcUrl: string;
-  chainId: number;
-  nativeCurrency: {
-    name: string;
-    symbol: string;
-    decimals: number;
-  };
-  blockExplorerUrl: string;
-}
-
-// Supported networks
-const NETWORK_CONFIG: Record<string, NetworkConfig> = {
-  1: {
-    name: 'Ethereum Mainnet',
-    rpcUrl: process.env.ETH_MAINNET_RPC_URL || 'https://eth.llamarpc.com',
-    chainId: 1,
-    nativeCurrency: {
-      name: 'Ethereum',
-      symbol: 'ETH',
-      decimals: 18,
-    },
-    blockExplorerUrl: 'https://etherscan.io',
-  },
-  137: {
-    name: 'Polygon Mainnet',
-    rpcUrl: process.env.POLYGON_RPC_URL || 'https://polygon-rpc.com',
-    chainId: 137,
-    nativeCurrency: {
-      name: 'Polygon',
-      symbol: 'MATIC',
-      decimals: 18,
-    },
-    blockExplorerUrl: 'https://polygonscan.com',
-  },
-  56: {
-    name: 'BNB Chain',
-    rpcUrl: process.env.BSC_RPC_URL || 'https://bsc-dataseed.binance.org',
-    chainId: 56,
-    nativeCurrency: {
-      name: 'BNB',
-      symbol: 'BNB',
-      decimals: 18,
-    },
-    blockExplorerUrl: 'https://bscscan.com',
-  },
-  43114: {
-    name: 'Avalanche C-Chain',
-    rpcUrl: process.env.AVALANCHE_RPC_URL || 'https://api.avax.network/ext/bc/C/rpc',
-    chainId: 43114,
-    nativeCurrency: {
-      name: 'Avalanche',
-      symbol: 'AVAX',
-      decimals: 18,
-    },
-    blockExplorerUrl: 'https://snowtrace.io',
-  },
-  42161: {
-    name: 'Arbitrum One',
-    rpcUrl: process.env.ARBITRUM_RPC_URL || 'https://arb1.arbitrum.io/rpc',
-    chainId: 42161,
-    nativeCurrency: {
-      name: 'Ethereum',
-      symbol: 'ETH',
-      decimals: 18,
-    },
-    blockExplorerUrl: 'https://arbiscan.io',
-  },
-  10: {
-    name: 'Optimism',
-    rpcUrl: process.env.OPTIMISM_RPC_URL || 'https://mainnet.optimism.io',
-    chainId: 10,
-    nativeCurrency: {
-      name: 'Ethereum',
-      symbol: 'ETH',
-      decimals: 18,
-    },
-    blockExplorerUrl: 'https://optimistic.etherscan.io',
-  },
-};
-
 // Bridge configuration
 interface BridgeConfig {
   provider: BridgeProvider;
@@ -259,43 +176,19 @@ const bridgeConfigs: BridgeConfig[] = [
   },
 ];
 
-// IndexedDB schema
-interface CrossChainDB extends DBSchema {
-  crossChainTransactions: {
-    key: string;
-    value: CrossChainTransaction;
-    indexes: { 'by-sender': string; 'by-recipient': string; 'by-tenantId': string };
-  };
-}
-
 /**
  * CrossChainService class to handle cross-chain transactions
  */
 export class CrossChainService {
-  private dbPromise: Promise<IDBPDatabase<CrossChainDB>>;
   private hsmProvider: HSMProvider;
   private retryUtility: RetryUtility;
   private operationId: string = uuidv4();
   private tenantId?: string;
-  private providers: Record<number, providers.JsonRpcProvider> = {};
 
   constructor(config: {
-    databaseName: string;
-    hsmConfig: {
-      provider: HSMProviderType;
-      credentials: { pin: string; libraryPath: string; slotId?: number };
-      options?: { fipsCompliance?: boolean; maxRetries?: number; timeoutMs?: number };
-    };
+    hsmConfig: HSMConfig;
     tenantId?: string;
   }) {
-    this.dbPromise = openDB<CrossChainDB>(config.databaseName, 1, {
-      upgrade(db) {
-        const txStore = db.createObjectStore('crossChainTransactions', { keyPath: 'id' });
-        txStore.createIndex('by-sender', 'sender');
-        txStore.createIndex('by-recipient', 'recipient');
-        txStore.createIndex('by-tenantId', 'tenantId');
-      },
-    });
     this.hsmProvider = createHSMProvider(config.hsmConfig);
     this.retryUtility = new RetryUtility({ maxRetries: 3, baseDelayMs: 100, maxDelayMs: 1000 });
     this.tenantId = config.tenantId;
@@ -307,7 +200,7 @@ export class CrossChainService {
    */
   public async initialize(): Promise<void> {
     try {
-      const db = await this.dbPromise;
+      const db = await getDatabase();
       if (!db) {
         throw new Error('Failed to initialize database');
       }
@@ -317,12 +210,6 @@ export class CrossChainService {
       // Validate HSM configuration
       await this.retryUtility.retry(() => this.hsmProvider.validateConfig());
 
-      // Initialize providers
-      for (const [chainIdStr, network] of Object.entries(NETWORK_CONFIG)) {
-        const chainId = parseInt(chainIdStr);
-        this.providers[chainId] = new providers.JsonRpcProvider(network.rpcUrl);
-      }
-
       // Ensure IndexedDB is accessible and resume monitoring
       const pendingTxs = await db.getAll('crossChainTransactions');
       for (const tx of pendingTxs) {
@@ -474,14 +361,13 @@ export class CrossChainService {
     hsmKeyId: string
   ): Promise<string> {
     try {
-      const networkConfig = NETWORK_CONFIG[chainId.toString()];
-      if (!networkConfig) throw new Error(`Network with chain ID ${chainId} is not supported`);
+      if (!chainRegistry.isSupported(chainId)) throw new Error(`Network with chain ID ${chainId} is not supported`);
       if (!ethers.utils.isAddress(from) || !ethers.utils.isAddress(to))
         throw new Error('Invalid from or to address');
       if (!ethers.utils.isHexString(data)) throw new Error('Invalid transaction data');
       if (!/^\d+$/.test(value)) throw new Error('Invalid transaction value');
 
-      const provider = this.providers[chainId];
+      const provider = chainRegistry.getProvider(chainId);
       const nonce = await this.retryUtility.retry(() => provider.getTransactionCount(from, 'pending'));
       const gasPrice = await this.retryUtility.retry(() => provider.getGasPrice());
       const gasLimit = await this.retryUtility.retry(() =>
@@ -503,7 +389,7 @@ export class CrossChainService {
         chainId,
         tx,
         from,
-        this.providers[chainId],
+        provider,
         { maxFeePerGas: gasPrice }
       );
 
@@ -552,7 +438,7 @@ export class CrossChainService {
     hsmKeyId: string
   ): Promise<string> {
     try {
-      const db = await this.dbPromise;
+      const db = await getDatabase();
       if (!db) {
         throw new Error('Database not initialized');
       }
@@ -568,9 +454,9 @@ export class CrossChainService {
       });
 
       // Validate inputs
-      if (!NETWORK_CONFIG[sourceChainId.toString()])
+      if (!chainRegistry.isSupported(sourceChainId))
         throw new Error(`Source chain ${sourceChainId} not supported`);
-      if (!NETWORK_CONFIG[destinationChainId.toString()])
+      if (!chainRegistry.isSupported(destinationChainId))
         throw new Error(`Destination chain ${destinationChainId} not supported`);
       if (!ethers.utils.isAddress(sender) || !ethers.utils.isAddress(recipient))
         throw new Error('Invalid sender or recipient address');
@@ -675,7 +561,7 @@ export class CrossChainService {
    */
   private async monitorCrossChainTransaction(transactionId: string): Promise<void> {
     try {
-      const db = await this.dbPromise;
+      const db = await getDatabase();
       if (!db) {
         throw new Error('Database not initialized');
       }
@@ -751,7 +637,7 @@ export class CrossChainService {
     try {
       logger.debug('Getting cross-chain transaction', { transactionId, tenantId: this.tenantId });
 
-      const db = await this.dbPromise;
+      const db = await getDatabase();
       if (!db) {
         throw new Error('Database not initialized');
       }
@@ -776,7 +662,7 @@ export class CrossChainService {
 
       if (!ethers.utils.isAddress(address)) throw new Error('Invalid address');
 
-      const db = await this.dbPromise;
+      const db = await getDatabase();
       if (!db) {
         throw new Error('Database not initialized');
       }
@@ -842,7 +728,7 @@ export class CrossChainService {
     try {
       logger.debug('Getting cross-chain service status', { tenantId: this.tenantId });
 
-      const db = await this.dbPromise;
+      const db = await getDatabase();
       if (!db) {
         throw new Error('Database not initialized');
       }
@@ -898,11 +784,11 @@ export class CrossChainService {
     try {
       logger.debug('Getting cross-chain transaction status', { txHash, sourceChainId, destinationChainId, tenantId: this.tenantId });
 
-      if (!NETWORK_CONFIG[sourceChainId.toString()])
+      if (!chainRegistry.isSupported(sourceChainId))
         throw new Error(`Source chain ${sourceChainId} not supported`);
       if (!ethers.utils.isHexString(txHash, 32)) throw new Error('Invalid transaction hash');
 
-      const db = await this.dbPromise;
+      const db = await getDatabase();
       if (!db) {
         throw new Error('Database not initialized');
       }
@@ -916,7 +802,7 @@ export class CrossChainService {
         return transaction.status as 'pending' | 'bridging' | 'completed' | 'failed';
       }
 
-      const provider = this.providers[sourceChainId];
+      const provider = chainRegistry.getProvider(sourceChainId);
       const receipt = await this.retryUtility.retry(() => provider.getTransactionReceipt(txHash));
 
       if (!receipt) return 'pending';
@@ -931,24 +817,16 @@ export class CrossChainService {
 
 // Create and export a singleton instance
 const crossChainService = new CrossChainService({
-  databaseName: 'ryzer-crosschain-db',
-  hsmConfig: {
-    provider: 'aws',
-    credentials: {
-      pin: process.env.HSM_PIN || '',
-      libraryPath: process.env.HSM_LIBRARY_PATH || '',
-    }
-  }
+  hsmConfig: hsmConfigFromEnv(),
 });
 
 export default crossChainService;
 
-const getProvider = (chainId: number): providers.JsonRpcProvider => {
-  const network = NETWORK_CONFIG[chainId.toString()];
-  if (!network) {
+const getProvider = (chainId: number): providers.BaseProvider => {
+  if (!chainRegistry.isSupported(chainId)) {
     throw new Error(`Unsupported chain ID: ${chainId}`);
   }
-  return new providers.JsonRpcProvider(network.rpcUrl);
+  return chainRegistry.getProvider(chainId);
 };
 
 const handleError = (error: unknown): string => {
@@ -0,0 +1,409 @@
+import { ethers } from 'ethers';
+import { logger } from '../../utils/logger';
+import chainRegistry, { ChainRegistry, ChainRegistryUpdate } from '../chain-registry';
+
+export type GasSpeed = 'slow' | 'standard' | 'fast' | 'instant';
+
+export const GAS_SPEEDS: GasSpeed[] = ['slow', 'standard', 'fast', 'instant'];
+
+// How a speed is priced
+export interface GasSpeedConfig {
+  percentile: number; // Priority fee percentile of recent blocks paid by the speed
+  blocks: number; // Blocks until inclusion the speed targets; the max fee covers base fee growth over them
+}
+
+// Gas oracle options
+export interface GasOracleOptions {
+  blockCount: number; // Blocks sampled by eth_feeHistory
+  speeds: Record<GasSpeed, GasSpeedConfig>;
+  cacheTtlMs?: number; // How long a sample is served; defaults to the chain's block time
+  minPriorityFeePerGas: string; // Wei; floor of every priority fee
+}
+
+// eth_feeHistory result
+export interface FeeHistory {
+  oldestBlock: string;
+  baseFeePerGas: string[]; // One more than the sampled blocks; the last is the next block's
+  gasUsedRatio: number[];
+  reward?: string[][]; // Priority fee at each requested percentile, per block
+}
+
+// Fees of one speed, in wei
+export interface GasFeeEstimate {
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  expectedInclusionSeconds: number;
+}
+
+// A sampled block, as reported on the trend
+export interface GasTrendBlock {
+  number: number;
+  baseFeePerGas: string;
+  gasUsedRatio: number;
+  priorityFeePerGas: string; // Priority fee at the standard percentile
+}
+
+// Direction of the base fee over the sampled blocks
+export interface GasTrend {
+  direction: 'rising' | 'falling' | 'stable';
+  baseFeeChangePercent: number; // Next block's base fee against the oldest sampled block's
+  averageGasUsedRatio: number;
+  blocks: GasTrendBlock[];
+}
+
+// Fee recommendations of a chain
+export interface GasRecommendation {
+  chainId: number;
+  blockNumber: number; // Newest sampled block
+  eip1559: boolean;
+  baseFeePerGas: string; // Of the next block; '0' on legacy chains
+  speeds: Record<GasSpeed, GasFeeEstimate>;
+  trend?: GasTrend; // EIP-1559 chains only
+  sampledAt: number;
+}
+
+export class GasOracleError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'GasOracleError';
+  }
+}
+
+export const DEFAULT_GAS_SPEEDS: Record<GasSpeed, GasSpeedConfig> = {
+  slow: { percentile: 10, blocks: 6 },
+  standard: { percentile: 50, blocks: 3 },
+  fast: { percentile: 75, blocks: 2 },
+  instant: { percentile: 95, blocks: 1 },
+};
+
+// Gas price of each speed on legacy chains, in percent of eth_gasPrice
+const LEGACY_FEE_PERCENT: Record<GasSpeed, number> = {
+  slow: 100,
+  standard: 100,
+  fast: 110,
+  instant: 125,
+};
+
+// Largest base fee change per block under EIP-1559, in per mille
+const BASE_FEE_MAX_CHANGE = 1125;
+
+// Base fee change over the sampled blocks below which the trend is stable, in percent
+const TREND_THRESHOLD_PERCENT = 5;
+
+// Shortest cache lifetime, for chains with sub-second blocks
+const MIN_CACHE_TTL_MS = 1000;
+
+// A sample and when it stops being served
+interface CacheEntry {
+  recommendation: GasRecommendation;
+  expiresAt: number;
+}
+
+/**
+ * Median of a list of amounts
+ * @param values Amounts
+ */
+const median = (values: ethers.BigNumber[]): ethers.BigNumber => {
+  const sorted = [...values].sort((a, b) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0));
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : sorted[middle - 1].add(sorted[middle]).div(2);
+};
+
+/**
+ * Recommend fees from a fee history. The priority fee of a speed is the
+ * median, over the sampled blocks that carried transactions, of the reward at
+ * the speed's percentile; no speed pays less than a slower one. The max fee
+ * adds the priority fee to the next block's base fee grown by the most
+ * EIP-1559 allows over the speed's target blocks.
+ * @param chainId Chain ID
+ * @param history eth_feeHistory result, sampled at the speeds' percentiles in GAS_SPEEDS order
+ * @param blockTime Average block time in seconds
+ * @param options Oracle options
+ */
+export const recommendFees = (
+  chainId: number,
+  history: FeeHistory,
+  blockTime: number,
+  options: Pick<GasOracleOptions, 'speeds' | 'minPriorityFeePerGas'>
+): GasRecommendation => {
+  const blockCount = history.gasUsedRatio.length;
+  if (!blockCount || history.baseFeePerGas.length !== blockCount + 1) {
+    throw new GasOracleError(`Malformed fee history of chain ${chainId}`, 502);
+  }
+
+  const oldestBlock = ethers.BigNumber.from(history.oldestBlock).toNumber();
+  const baseFees = history.baseFeePerGas.map(fee => ethers.BigNumber.from(fee));
+  const nextBaseFee = baseFees[blockCount];
+  const minPriorityFee = ethers.BigNumber.from(options.minPriorityFeePerGas);
+  const rewards = (history.reward || []).map(block => block.map(reward => ethers.BigNumber.from(reward)));
+  const busyRewards = rewards.filter((_, index) => history.gasUsedRatio[index] > 0);
+
+  const speeds = {} as Record<GasSpeed, GasFeeEstimate>;
+  let floor = minPriorityFee;
+  GAS_SPEEDS.forEach((speed, index) => {
+    const { blocks } = options.speeds[speed];
+    const sampled = busyRewards.map(block => block[index]).filter(reward => !!reward);
+    const priorityFee = sampled.length ? median(sampled) : ethers.constants.Zero;
+    floor = priorityFee.gt(floor) ? priorityFee : floor;
+
+    const baseFeeCap = nextBaseFee
+      .mul(ethers.BigNumber.from(BASE_FEE_MAX_CHANGE).pow(blocks))
+      .div(ethers.BigNumber.from(1000).pow(blocks));
+    speeds[speed] = {
+      maxFeePerGas: baseFeeCap.add(floor).toString(),
+      maxPriorityFeePerGas: floor.toString(),
+      expectedInclusionSeconds: blocks * blockTime,
+    };
+  });
+
+  const standardIndex = GAS_SPEEDS.indexOf('standard');
+  const oldestBaseFee = baseFees[0];
+  const baseFeeChangePercent = oldestBaseFee.isZero()
+    ? 0
+    : nextBaseFee.sub(oldestBaseFee).mul(10000).div(oldestBaseFee).toNumber() / 100;
+
+  return {
+    chainId,
+    blockNumber: oldestBlock + blockCount - 1,
+    eip1559: true,
+    baseFeePerGas: nextBaseFee.toString(),
+    speeds,
+    trend: {
+      direction:
+        baseFeeChangePercent > TREND_THRESHOLD_PERCENT
+          ? 'rising'
+          : baseFeeChangePercent < -TREND_THRESHOLD_PERCENT
+            ? 'falling'
+            : 'stable',
+      baseFeeChangePercent,
+      averageGasUsedRatio: history.gasUsedRatio.reduce((sum, ratio) => sum + ratio, 0) / blockCount,
+      blocks: history.gasUsedRatio.map((gasUsedRatio, index) => ({
+        number: oldestBlock + index,
+        baseFeePerGas: baseFees[index].toString(),
+        gasUsedRatio,
+        priorityFeePerGas: (rewards[index]?.[standardIndex] || ethers.constants.Zero).toString(),
+      })),
+    },
+    sampledAt: Date.now(),
+  };
+};
+
+/**
+ * Recommend fees on a chain without EIP-1559 from its gas price
+ * @param chainId Chain ID
+ * @param gasPrice eth_gasPrice
+ * @param blockNumber Latest block
+ * @param blockTime Average block time in seconds
+ * @param speeds Speed configuration
+ */
+export const recommendLegacyFees = (
+  chainId: number,
+  gasPrice: ethers.BigNumber,
+  blockNumber: number,
+  blockTime: number,
+  speeds: Record<GasSpeed, GasSpeedConfig>
+): GasRecommendation => {
+  const estimates = {} as Record<GasSpeed, GasFeeEstimate>;
+  for (const speed of GAS_SPEEDS) {
+    const price = gasPrice.mul(LEGACY_FEE_PERCENT[speed]).div(100).toString();
+    estimates[speed] = {
+      maxFeePerGas: price,
+      maxPriorityFeePerGas: price,
+      expectedInclusionSeconds: speeds[speed].blocks * blockTime,
+    };
+  }
+
+  return {
+    chainId,
+    blockNumber,
+    eip1559: false,
+    baseFeePerGas: '0',
+    speeds: estimates,
+    sampledAt: Date.now(),
+  };
+};
+
+/**
+ * Gas prices of every chain in the registry, from eth_feeHistory. Samples
+ * are cached per chain for a block time and shared by concurrent callers; a
+ * failed sample falls back to the last one.
+ */
+export class GasOracle {
+  private static instance: GasOracle;
+  private cache = new Map<number, CacheEntry>();
+  private sampling = new Map<number, Promise<GasRecommendation>>();
+
+  constructor(
+    private readonly options: GasOracleOptions,
+    private readonly chains: ChainRegistry = chainRegistry
+  ) {
+    chains.on('updated', (update: ChainRegistryUpdate) => {
+      for (const chainId of [...update.changed, ...update.removed]) {
+        this.cache.delete(chainId);
+      }
+    });
+  }
+
+  /**
+   * Get the singleton instance of GasOracle
+   */
+  public static getInstance(): GasOracle {
+    if (!GasOracle.instance) {
+      GasOracle.instance = new GasOracle(gasOracleOptionsFromEnv());
+    }
+    return GasOracle.instance;
+  }
+
+  /**
+   * Get the fee recommendations of a chain
+   * @param chainId Chain ID
+   * @throws GasOracleError if the chain is unsupported or its fees cannot be read
+   */
+  public async getRecommendation(chainId: number): Promise<GasRecommendation> {
+    const chain = this.chains.getChain(chainId);
+    if (!chain) {
+      throw new GasOracleError(`Unsupported network: ${chainId}`);
+    }
+
+    const cached = this.cache.get(chain.chainId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.recommendation;
+    }
+
+    let sampling = this.sampling.get(chain.chainId);
+    if (!sampling) {
+      sampling = this.sample(chain.chainId, chain.blockTime).finally(() => this.sampling.delete(chain.chainId));
+      this.sampling.set(chain.chainId, sampling);
+    }
+
+    try {
+      const recommendation = await sampling;
+      this.cache.set(chain.chainId, {
+        recommendation,
+        expiresAt: Date.now() + (this.options.cacheTtlMs ?? Math.max(chain.blockTime * 1000, MIN_CACHE_TTL_MS)),
+      });
+      return recommendation;
+    } catch (error) {
+      if (cached) {
+        logger.warn(`Serving gas prices of chain ${chainId} sampled at block ${cached.recommendation.blockNumber}`, {
+          error,
+        });
+        return cached.recommendation;
+      }
+      throw error instanceof GasOracleError
+        ? error
+        : new GasOracleError(`Failed to read gas prices of chain ${chainId}: ${String(error)}`, 502);
+    }
+  }
+
+  /**
+   * Get the fees of one speed on a chain
+   * @param chainId Chain ID
+   * @param speed Speed
+   */
+  public async getFees(chainId: number, speed: GasSpeed = 'standard'): Promise<GasFeeEstimate> {
+    return (await this.getRecommendation(chainId)).speeds[speed];
+  }
+
+  /**
+   * Drop cached samples, so the next request reads the chain
+   * @param chainId Chain ID; all chains if omitted
+   */
+  public clearCache(chainId?: number): void {
+    if (chainId === undefined) {
+      this.cache.clear();
+    } else {
+      this.cache.delete(chainId);
+    }
+  }
+
+  /**
+   * Sample the fee history of a chain, or its gas price if it has no base fee
+   * @param chainId Chain ID
+   * @param blockTime Average block time in seconds
+   */
+  private async sample(chainId: number, blockTime: number): Promise<GasRecommendation> {
+    const providers = rpcProviders(this.chains.getProvider(chainId));
+    const percentiles = GAS_SPEEDS.map(speed => this.options.speeds[speed].percentile);
+
+    let history: FeeHistory | undefined;
+    try {
+      history = await send<FeeHistory>(providers, 'eth_feeHistory', [
+        ethers.utils.hexValue(this.options.blockCount),
+        'latest',
+        percentiles,
+      ]);
+    } catch (error) {
+      logger.debug(`eth_feeHistory failed on chain ${chainId}, using the gas price`, { error });
+    }
+
+    if (history && history.baseFeePerGas.some(fee => !ethers.BigNumber.from(fee).isZero())) {
+      return recommendFees(chainId, history, blockTime, this.options);
+    }
+
+    const [gasPrice, blockNumber] = await Promise.all([
+      send<string>(providers, 'eth_gasPrice', []),
+      send<string>(providers, 'eth_blockNumber', []),
+    ]);
+    return recommendLegacyFees(
+      chainId,
+      ethers.BigNumber.from(gasPrice),
+      ethers.BigNumber.from(blockNumber).toNumber(),
+      blockTime,
+      this.options.speeds
+    );
+  }
+}
+
+/**
+ * JSON-RPC providers behind a registry provider, in priority order
+ * @param provider Registry provider
+ */
+const rpcProviders = (provider: ethers.providers.BaseProvider): ethers.providers.JsonRpcProvider[] => {
+  if (provider instanceof ethers.providers.JsonRpcProvider) {
+    return [provider];
+  }
+  if (provider instanceof ethers.providers.FallbackProvider) {
+    return provider.providerConfigs
+      .map(config => config.provider)
+      .filter((rpc): rpc is ethers.providers.JsonRpcProvider => rpc instanceof ethers.providers.JsonRpcProvider);
+  }
+  return [];
+};
+
+/**
+ * Send a JSON-RPC request to the first provider that answers
+ * @param providers Providers
+ * @param method Method
+ * @param params Parameters
+ */
+const send = async <T>(providers: ethers.providers.JsonRpcProvider[], method: string, params: unknown[]): Promise<T> => {
+  let lastError: unknown = new Error('No JSON-RPC provider');
+  for (const provider of providers) {
+    try {
+      return await provider.send(method, params);
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
+
+/**
+ * Gas oracle options from the GAS_ORACLE_* environment variables
+ */
+export const gasOracleOptionsFromEnv = (): GasOracleOptions => {
+  const number = (name: string) => {
+    const value = parseInt(process.env[name] || '', 10);
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  };
+
+  return {
+    blockCount: number('GAS_ORACLE_BLOCK_COUNT') || 20,
+    speeds: DEFAULT_GAS_SPEEDS,
+    cacheTtlMs: number('GAS_ORACLE_CACHE_TTL_MS'),
+    minPriorityFeePerGas: process.env.GAS_ORACLE_MIN_PRIORITY_FEE_PER_GAS || '0',
+  };
+};
+
+export const gasOracle = GasOracle.getInstance();
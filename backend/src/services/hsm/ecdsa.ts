@@ -0,0 +1,131 @@
+import { ethers } from 'ethers';
+
+/**
+ * secp256k1 helpers shared by the HSM providers: curve parameters, public key
+ * decoding and conversion of raw HSM signatures into Ethereum (r, s, v) form.
+ */
+
+// DER encoding of the secp256k1 curve OID (1.3.132.0.10), used as CKA_EC_PARAMS
+export const SECP256K1_EC_PARAMS = Buffer.from('06052b8104000a', 'hex');
+
+// Curve order and half order for low-s normalization
+const CURVE_ORDER = ethers.BigNumber.from('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+const HALF_CURVE_ORDER = CURVE_ORDER.shr(1);
+
+/**
+ * Read a DER length at an offset
+ * @param der DER-encoded data
+ * @param offset Offset of the length byte
+ * @returns Length and offset of the value
+ */
+const readDerLength = (der: Buffer, offset: number): { length: number; offset: number } => {
+  const first = der[offset];
+  if (first === undefined) {
+    throw new Error('Truncated DER data');
+  }
+  if (first < 0x80) {
+    return { length: first, offset: offset + 1 };
+  }
+
+  const bytes = first & 0x7f;
+  if (bytes === 0 || bytes > 2 || offset + 1 + bytes > der.length) {
+    throw new Error('Invalid DER length');
+  }
+  return { length: der.readUIntBE(offset + 1, bytes), offset: offset + 1 + bytes };
+};
+
+/**
+ * Decode a CKA_EC_POINT value into an uncompressed public key.
+ * PKCS#11 wraps the point in a DER OCTET STRING; some tokens return it bare.
+ * @param ecPoint CKA_EC_POINT value
+ * @returns Uncompressed public key (0x04...)
+ */
+export const decodeECPoint = (ecPoint: Buffer): string => {
+  let point = ecPoint;
+
+  if (!(point.length === 65 && point[0] === 0x04)) {
+    if (point[0] !== 0x04) {
+      throw new Error('EC point is not an OCTET STRING');
+    }
+    const { length, offset } = readDerLength(point, 1);
+    point = point.subarray(offset, offset + length);
+  }
+
+  if (point.length !== 65 || point[0] !== 0x04) {
+    throw new Error('EC point is not an uncompressed secp256k1 point');
+  }
+  return ethers.utils.hexlify(point);
+};
+
+/**
+ * Split a signature returned by an HSM into r and s. CKM_ECDSA yields r || s;
+ * tokens and KMS APIs that return a DER SEQUENCE of two INTEGERs are accepted too.
+ * @param signature Raw signature
+ */
+export const parseECDSASignature = (signature: Buffer): { r: ethers.BigNumber; s: ethers.BigNumber } => {
+  if (signature.length === 64) {
+    return {
+      r: ethers.BigNumber.from(signature.subarray(0, 32)),
+      s: ethers.BigNumber.from(signature.subarray(32)),
+    };
+  }
+
+  if (signature[0] !== 0x30) {
+    throw new Error('Signature is neither r || s nor a DER SEQUENCE');
+  }
+  const sequence = readDerLength(signature, 1);
+  if (sequence.offset + sequence.length !== signature.length) {
+    throw new Error('Invalid DER signature length');
+  }
+
+  const integers: ethers.BigNumber[] = [];
+  let offset = sequence.offset;
+  for (let i = 0; i < 2; i++) {
+    if (signature[offset] !== 0x02) {
+      throw new Error('Invalid DER signature: expected INTEGER');
+    }
+    const { length, offset: valueOffset } = readDerLength(signature, offset + 1);
+    if (length === 0 || length > 33 || valueOffset + length > signature.length) {
+      throw new Error('Invalid DER signature: bad INTEGER length');
+    }
+    integers.push(ethers.BigNumber.from(signature.subarray(valueOffset, valueOffset + length)));
+    offset = valueOffset + length;
+  }
+  if (offset !== signature.length) {
+    throw new Error('Invalid DER signature: trailing data');
+  }
+
+  return { r: integers[0], s: integers[1] };
+};
+
+/**
+ * Normalize an HSM signature over a digest into a 65-byte Ethereum signature:
+ * s is moved to the lower half of the curve order and the recovery id is
+ * found by recovering the signer's address.
+ * @param digest 32-byte digest that was signed
+ * @param signature Raw or DER signature from the HSM
+ * @param address Address of the signing key
+ * @returns Joined signature (r || s || v, v = 27 or 28)
+ */
+export const toEthereumSignature = (digest: ethers.utils.BytesLike, signature: Buffer, address: string): string => {
+  const { r, s } = parseECDSASignature(signature);
+  if (r.isZero() || s.isZero() || r.gte(CURVE_ORDER) || s.gte(CURVE_ORDER)) {
+    throw new Error('Signature values out of range');
+  }
+
+  const lowS = s.gt(HALF_CURVE_ORDER) ? CURVE_ORDER.sub(s) : s;
+  const expected = ethers.utils.getAddress(address);
+
+  for (const v of [27, 28]) {
+    const joined = ethers.utils.joinSignature({
+      r: ethers.utils.hexZeroPad(r.toHexString(), 32),
+      s: ethers.utils.hexZeroPad(lowS.toHexString(), 32),
+      v,
+    });
+    if (ethers.utils.recoverAddress(digest, joined) === expected) {
+      return joined;
+    }
+  }
+
+  throw new Error('Signature does not recover to the key address');
+};
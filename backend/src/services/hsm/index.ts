@@ -1,13 +1,19 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
 import { ethers } from 'ethers';
+import * as pkcs11js from 'pkcs11js';
 import { logger } from '../../utils/logger';
-import { createAuditLog } from '../audit';
+import { getDatabase, RyzerWalletDB } from '../../config/database';
+import { createAuditLog, AuditAction, AuditTargetType } from '../audit';
 import { v4 as uuidv4 } from 'uuid';
 import { RetryUtility } from '../../utils/retry';
-import * as pkcs11 from 'node-pkcs11'; // Hypothetical PKCS#11 library for Node.js
+import { SECP256K1_EC_PARAMS, decodeECPoint, toEthereumSignature } from './ecdsa';
 
 // Enum for HSM provider types
 export enum HSMProviderType {
-  CUSTOM = 'custom',
+  CUSTOM = 'custom', // PKCS#11 token (SoftHSMv2, network HSMs)
+  FILE = 'file', // Software keystore for development
 }
 
 // Enum for HSM key types
@@ -16,6 +22,9 @@ export enum HSMKeyType {
   RSA_2048 = 'rsa_2048',
 }
 
+// Lifecycle status of an HSM key
+export type HSMKeyStatus = RyzerWalletDB['hsm_keys']['value']['status'];
+
 // Interface for HSM key information
 export interface HSMKeyInfo {
   id: string;
@@ -23,10 +32,13 @@ export interface HSMKeyInfo {
   description?: string;
   provider: HSMProviderType;
   keyType: HSMKeyType;
+  status: HSMKeyStatus;
   createdAt: number;
   createdBy: string;
   lastUsedAt?: number;
   lastRotatedAt?: number;
+  rotatedFrom?: string; // Key this one replaced
+  rotatedTo?: string; // Key that replaced this one; the old key is retained
   publicKey: string;
   walletAddress: string;
   metadata?: Record<string, any>;
@@ -38,9 +50,11 @@ export interface HSMConfig {
   provider: HSMProviderType;
   credentials: {
     userId?: string;
-    pin: string;
-    libraryPath: string; // Path to PKCS#11 library
+    pin?: string; // Token PIN, or passphrase of the file keystore
+    libraryPath?: string; // Path to PKCS#11 library
     slotId?: number; // HSM slot ID
+    tokenLabel?: string; // Token label, takes precedence over slotId
+    keystorePath?: string; // Directory of the file keystore
     [key: string]: any;
   };
   options?: {
@@ -58,12 +72,22 @@ export interface HSMProvider {
   generateKey(keyType: HSMKeyType, name: string, description?: string, tenantId?: string): Promise<HSMKeyInfo>;
   getKey(keyId: string, tenantId?: string): Promise<HSMKeyInfo>;
   listKeys(tenantId?: string): Promise<HSMKeyInfo[]>;
+  // Sign keccak256 of a UTF-8 message; returns a 65-byte r || s || v signature
   sign(keyId: string, message: string, tenantId?: string): Promise<string>;
+  // Sign a 32-byte digest; returns a 65-byte r || s || v signature with low s
+  signDigest(keyId: string, digest: string, tenantId?: string): Promise<string>;
   rotateKey(keyId: string, tenantId?: string): Promise<HSMKeyInfo>;
   deleteKey(keyId: string, tenantId?: string): Promise<boolean>;
   validateConfig(): Promise<void>;
+  // Release sessions and library handles
+  close?(): Promise<void>;
+  // Key wrapping with a secret key held in the HSM; optional, used for the encryption root key
+  wrapKey?(keyId: string, key: Buffer): Promise<Buffer>;
+  unwrapKey?(keyId: string, wrappedKey: Buffer): Promise<Buffer>;
 }
 
+type HSMKeyRecord = RyzerWalletDB['hsm_keys']['value'];
+
 /**
  * Utility to derive Ethereum wallet address from public key
  * @param publicKey Public key in hex format
@@ -76,7 +100,9 @@ function deriveWalletAddress(publicKey: string): string {
 }
 
 /**
- * Abstract base class for HSM providers
+ * Abstract base class for HSM providers. Key metadata, signature
+ * normalization, rotation and auditing live here; providers implement the
+ * operations on key material.
  */
 abstract class BaseHSMProvider implements HSMProvider {
   protected config: HSMConfig;
@@ -105,9 +131,6 @@ abstract class BaseHSMProvider implements HSMProvider {
     if (!this.config.credentials || typeof this.config.credentials !== 'object') {
       throw new Error('Valid credentials are required');
     }
-    if (!this.config.credentials.pin || !this.config.credentials.libraryPath) {
-      throw new Error('PIN and library path are required for custom HSM');
-    }
   }
 
   /**
@@ -116,456 +139,814 @@ abstract class BaseHSMProvider implements HSMProvider {
    */
   public abstract validateConfig(): Promise<void>;
 
-  abstract generateKey(keyType: HSMKeyType, name: string, description?: string, tenantId?: string): Promise<HSMKeyInfo>;
-  abstract getKey(keyId: string, tenantId?: string): Promise<HSMKeyInfo>;
-  abstract listKeys(tenantId?: string): Promise<HSMKeyInfo[]>;
-  abstract sign(keyId: string, message: string, tenantId?: string): Promise<string>;
-  abstract rotateKey(keyId: string, tenantId?: string): Promise<HSMKeyInfo>;
-  abstract deleteKey(keyId: string, tenantId?: string): Promise<boolean>;
+  /**
+   * Create a key pair in the provider
+   * @param keyType Key type
+   * @param keyId ID to store the key under
+   * @param label Sanitized key name
+   * @returns Public key: uncompressed EC point or RSA modulus, hex
+   */
+  protected abstract createKeyPair(keyType: HSMKeyType, keyId: string, label: string): Promise<string>;
 
   /**
-   * Sanitizes input strings to prevent injection
-   * @param input Input string
-   * @returns Sanitized string
+   * Sign a digest with a secp256k1 key
+   * @param keyId Key ID
+   * @param digest 32-byte digest
+   * @returns Raw (r || s) or DER signature
    */
-  protected sanitizeInput(input: string): string {
-    return input.replace(/[^a-zA-Z0-9-_]/g, '');
+  protected abstract signWithKey(keyId: string, digest: Buffer): Promise<Buffer>;
+
+  /**
+   * Destroy the key material of a key
+   * @param keyId Key ID
+   */
+  protected abstract destroyKeyPair(keyId: string): Promise<void>;
+
+  async generateKey(keyType: HSMKeyType, name: string, description?: string, tenantId?: string): Promise<HSMKeyInfo> {
+    return this.createKey(keyType, name, description, tenantId);
   }
-}
 
-/**
- * Custom HSM provider implementation using PKCS#11
- */
-class CustomHSMProvider extends BaseHSMProvider {
-  private pkcs11Client: pkcs11.PKCS11;
-  private session: pkcs11.Session | null = null;
+  async getKey(keyId: string, tenantId?: string): Promise<HSMKeyInfo> {
+    try {
+      if (!keyId || typeof keyId !== 'string') {
+        throw new Error('Invalid key ID');
+      }
 
-  constructor(config: HSMConfig) {
-    super(config);
-    this.pkcs11Client = new pkcs11.PKCS11();
-    this.pkcs11Client.load(config.credentials.libraryPath);
-    logger.info('Initialized Custom HSM provider', { libraryPath: config.credentials.libraryPath });
+      const keyInfo = await this.loadKey(keyId, tenantId);
+      if (!keyInfo) {
+        throw new Error(`Key not found: ${keyId}`);
+      }
+      return keyInfo;
+    } catch (error) {
+      logger.error('Error retrieving HSM key', { provider: this.type, keyId, tenantId, error });
+      if (error instanceof Error) {
+        throw new Error(`Failed to retrieve key: ${error.message}`);
+      }
+      throw new Error('Failed to retrieve key: Unknown error');
+    }
   }
 
-  /**
-   * Initializes a PKCS#11 session
-   * @throws Error if session initialization fails
-   */
-  private async initializeSession(): Promise<void> {
+  async listKeys(tenantId?: string): Promise<HSMKeyInfo[]> {
     try {
-      if (!this.session) {
-        this.pkcs11Client.C_Initialize();
-        const slots = this.pkcs11Client.C_GetSlotList(true);
-        const slotId = this.config.credentials.slotId ?? slots[0];
-        this.session = this.pkcs11Client.C_OpenSession(slotId, pkcs11.CKF_RW_SESSION | pkcs11.CKF_SERIAL_SESSION);
-        this.pkcs11Client.C_Login(this.session, pkcs11.CKU_USER, this.config.credentials.pin);
-        logger.debug('PKCS#11 session initialized', { slotId });
+      const db = await getDatabase();
+      const records: HSMKeyRecord[] = tenantId
+        ? await db.getAllFromIndex('hsm_keys', 'by-tenant', tenantId)
+        : await db.getAllFromIndex('hsm_keys', 'by-provider', this.type);
+
+      const keys = records.filter(record => record.provider === this.type).map(record => this.fromRecord(record));
+      logger.debug('Keys listed successfully', { provider: this.type, count: keys.length, tenantId });
+      return keys;
+    } catch (error) {
+      logger.error('Error listing HSM keys', { provider: this.type, tenantId, error });
+      if (error instanceof Error) {
+        throw new Error(`Failed to list keys: ${error.message}`);
+      }
+      throw new Error('Failed to list keys: Unknown error');
+    }
+  }
+
+  async sign(keyId: string, message: string, tenantId?: string): Promise<string> {
+    if (!message || typeof message !== 'string') {
+      throw new Error('Failed to sign message: Invalid message');
+    }
+    return this.signDigest(keyId, ethers.utils.keccak256(ethers.utils.toUtf8Bytes(message)), tenantId);
+  }
+
+  async signDigest(keyId: string, digest: string, tenantId?: string): Promise<string> {
+    try {
+      logger.info('Signing digest with HSM key', { provider: this.type, keyId, tenantId });
+
+      if (!ethers.utils.isHexString(digest, 32)) {
+        throw new Error('Digest must be 32 bytes of hex');
+      }
+
+      const keyInfo = await this.getKey(keyId, tenantId);
+      if (keyInfo.keyType !== HSMKeyType.ECDSA_SECP256K1) {
+        throw new Error(`Key ${keyId} is not a secp256k1 key`);
       }
-    } catch (error: unknown) {
-      logger.error('Failed to initialize PKCS#11 session', { error });
+      if (keyInfo.status === 'compromised' || keyInfo.status === 'inactive') {
+        throw new Error(`Key ${keyId} is ${keyInfo.status}`);
+      }
+      if (keyInfo.status === 'rotated') {
+        logger.warn('Signing with a rotated HSM key', { keyId, rotatedTo: keyInfo.rotatedTo });
+      }
+
+      const rawSignature = await this.retryUtility.retry(() => this.signWithKey(keyId, Buffer.from(digest.slice(2), 'hex')));
+      const signature = toEthereumSignature(digest, rawSignature, keyInfo.walletAddress);
+
+      await this.saveKey({ ...keyInfo, lastUsedAt: Date.now() });
+      await this.audit(AuditAction.HSM_KEY_USED, keyInfo);
+
+      logger.debug('Digest signed successfully', { keyId, digest });
+      return signature;
+    } catch (error) {
+      logger.error('Error signing with HSM key', { provider: this.type, keyId, tenantId, error });
       if (error instanceof Error) {
-        throw new Error(`Session initialization failed: ${error.message}`);
-      } else {
-        throw new Error('Session initialization failed: Unknown error');
+        throw new Error(`Failed to sign message: ${error.message}`);
       }
+      throw new Error('Failed to sign message: Unknown error');
     }
   }
 
-  /**
-   * Closes the PKCS#11 session
-   */
-  private async closeSession(): Promise<void> {
-    if (this.session) {
-      this.pkcs11Client.C_Logout(this.session);
-      this.pkcs11Client.C_CloseSession(this.session);
-      this.session = null;
-      logger.debug('PKCS#11 session closed');
+  async rotateKey(keyId: string, tenantId?: string): Promise<HSMKeyInfo> {
+    try {
+      logger.info('Rotating HSM key', { provider: this.type, keyId, tenantId });
+
+      const db = await getDatabase();
+      return await db.withExclusiveLock(`hsm_key:${keyId}`, async () => {
+        const keyInfo = await this.getKey(keyId, tenantId);
+        if (keyInfo.status !== 'active') {
+          throw new Error(`Only active keys can be rotated; ${keyId} is ${keyInfo.status}`);
+        }
+
+        const now = Date.now();
+        const newKeyInfo = await this.createKey(
+          keyInfo.keyType,
+          `${keyInfo.name}-rotated-${now}`,
+          keyInfo.description,
+          keyInfo.tenantId,
+          { rotatedFrom: keyId, metadata: { rotatedFrom: keyId, rotatedAt: now } }
+        );
+
+        // The old key stays in the provider so that it can still sign and verify
+        await this.saveKey({ ...keyInfo, status: 'rotated', rotatedTo: newKeyInfo.id, lastRotatedAt: now });
+        await this.audit(AuditAction.HSM_KEY_ROTATED, keyInfo, { rotatedTo: newKeyInfo.id, newWalletAddress: newKeyInfo.walletAddress });
+
+        logger.debug('Key rotated successfully', { oldKeyId: keyId, newKeyId: newKeyInfo.id });
+        return newKeyInfo;
+      });
+    } catch (error) {
+      logger.error('Error rotating HSM key', { provider: this.type, keyId, tenantId, error });
+      if (error instanceof Error) {
+        throw new Error(`Failed to rotate key: ${error.message}`);
+      }
+      throw new Error('Failed to rotate key: Unknown error');
     }
   }
 
-  async validateConfig(): Promise<void> {
+  async deleteKey(keyId: string, tenantId?: string): Promise<boolean> {
     try {
-      logger.debug('Validating Custom HSM configuration');
-      await this.initializeSession();
-      await this.closeSession();
-      logger.debug('Custom HSM configuration validated');
+      logger.info('Deleting HSM key', { provider: this.type, keyId, tenantId });
+
+      const keyInfo = await this.getKey(keyId, tenantId);
+      await this.retryUtility.retry(() => this.destroyKeyPair(keyId));
+
+      const db = await getDatabase();
+      await db.delete('hsm_keys', keyId);
+      await this.audit(AuditAction.HSM_KEY_DELETED, keyInfo);
+
+      logger.debug('Key deleted successfully', { keyId });
+      return true;
     } catch (error) {
-      logger.error('Custom HSM configuration validation failed', { error });
+      logger.error('Error deleting HSM key', { provider: this.type, keyId, tenantId, error });
       if (error instanceof Error) {
-        throw new Error(`Failed to validate Custom HSM configuration: ${error.message}`);
+        throw new Error(`Failed to delete key: ${error.message}`);
       }
-      throw new Error('Failed to validate Custom HSM configuration: Unknown error');
+      throw new Error('Failed to delete key: Unknown error');
     }
   }
 
-  async generateKey(keyType: HSMKeyType, name: string, description?: string, tenantId?: string): Promise<HSMKeyInfo> {
+  /**
+   * Sanitizes input strings to prevent injection
+   * @param input Input string
+   * @returns Sanitized string
+   */
+  protected sanitizeInput(input: string): string {
+    return input.replace(/[^a-zA-Z0-9-_]/g, '');
+  }
+
+  /**
+   * Generate a key pair and persist its metadata
+   * @param keyType Key type
+   * @param name Key name
+   * @param description Key description
+   * @param tenantId Tenant ID
+   * @param extra Rotation link and metadata of a replacement key
+   */
+  private async createKey(
+    keyType: HSMKeyType,
+    name: string,
+    description?: string,
+    tenantId?: string,
+    extra: { rotatedFrom?: string; metadata?: Record<string, any> } = {}
+  ): Promise<HSMKeyInfo> {
     try {
-      logger.info(`Generating ${keyType} key in Custom HSM`, { name, tenantId });
+      logger.info(`Generating ${keyType} key`, { provider: this.type, name, tenantId });
       const sanitizedName = this.sanitizeInput(name);
 
       if (!sanitizedName || sanitizedName.length > 100) {
         throw new Error('Invalid key name: must be a non-empty string up to 100 characters');
       }
+      if (!Object.values(HSMKeyType).includes(keyType)) {
+        throw new Error(`Unsupported key type: ${keyType}`);
+      }
 
-      await this.initializeSession();
-      if (!this.session) throw new Error('Session not initialized');
-
-      const keyId = `custom-hsm-${uuidv4()}`;
-      const keyTemplate = keyType === HSMKeyType.ECDSA_SECP256K1
-        ? [
-            { type: pkcs11.CKA_CLASS, value: pkcs11.CKO_PRIVATE_KEY },
-            { type: pkcs11.CKA_KEY_TYPE, value: pkcs11.CKK_EC },
-            { type: pkcs11.CKA_EC_PARAMS, value: Buffer.from('06082a8648ce3d030107', 'hex') }, // secp256k1
-            { type: pkcs11.CKA_LABEL, value: sanitizedName },
-            { type: pkcs11.CKA_ID, value: Buffer.from(keyId) },
-            { type: pkcs11.CKA_TOKEN, value: true },
-            { type: pkcs11.CKA_PRIVATE, value: true },
-            { type: pkcs11.CKA_SIGN, value: true },
-          ]
-        : [
-            { type: pkcs11.CKA_CLASS, value: pkcs11.CKO_PRIVATE_KEY },
-            { type: pkcs11.CKA_KEY_TYPE, value: pkcs11.CKK_RSA },
-            { type: pkcs11.CKA_MODULUS_BITS, value: 2048 },
-            { type: pkcs11.CKA_LABEL, value: sanitizedName },
-            { type: pkcs11.CKA_ID, value: Buffer.from(keyId) },
-            { type: pkcs11.CKA_TOKEN, value: true },
-            { type: pkcs11.CKA_PRIVATE, value: true },
-            { type: pkcs11.CKA_SIGN, value: true },
-          ];
-
-      const publicKeyTemplate = [
-        { type: pkcs11.CKA_CLASS, value: pkcs11.CKO_PUBLIC_KEY },
-        { type: pkcs11.CKA_KEY_TYPE, value: keyType === HSMKeyType.ECDSA_SECP256K1 ? pkcs11.CKK_EC : pkcs11.CKK_RSA },
-        { type: pkcs11.CKA_LABEL, value: sanitizedName },
-        { type: pkcs11.CKA_ID, value: Buffer.from(keyId) },
-        { type: pkcs11.CKA_TOKEN, value: true },
-        { type: pkcs11.CKA_VERIFY, value: true },
-      ];
-
-      const [publicKeyHandle, privateKeyHandle] = await this.retryUtility.retry(() =>
-        this.pkcs11Client.C_GenerateKeyPair(
-          this.session!,
-          { mechanism: keyType === HSMKeyType.ECDSA_SECP256K1 ? pkcs11.CKM_EC_KEY_PAIR_GEN : pkcs11.CKM_RSA_PKCS_KEY_PAIR_GEN },
-          publicKeyTemplate,
-          keyTemplate
-        )
-      );
-
-      // Retrieve public key
-      const publicKeyAttr = this.pkcs11Client.C_GetAttributeValue(this.session!, publicKeyHandle, [
-        { type: keyType === HSMKeyType.ECDSA_SECP256K1 ? pkcs11.CKA_EC_POINT : pkcs11.CKA_MODULUS },
-      ]);
-      const publicKey = `0x${Buffer.from(publicKeyAttr[0].value).toString('hex')}`;
-      const walletAddress = deriveWalletAddress(publicKey);
+      const keyId = `${this.type}-hsm-${uuidv4()}`;
+      const publicKey = await this.retryUtility.retry(() => this.createKeyPair(keyType, keyId, sanitizedName));
 
       const keyInfo: HSMKeyInfo = {
         id: keyId,
         name: sanitizedName,
         description,
-        provider: HSMProviderType.CUSTOM,
+        provider: this.type,
         keyType,
+        status: 'active',
         createdAt: Date.now(),
         createdBy: this.config.credentials.userId || 'system',
+        rotatedFrom: extra.rotatedFrom,
         publicKey,
-        walletAddress,
+        walletAddress: keyType === HSMKeyType.ECDSA_SECP256K1 ? deriveWalletAddress(publicKey) : '',
         tenantId,
-        metadata: {
-          slotId: this.config.credentials.slotId,
-          fipsCompliant: this.config.options?.fipsCompliance ?? true,
-          pkcs11Library: this.config.credentials.libraryPath,
-        },
+        metadata: { ...this.keyMetadata(), ...extra.metadata },
       };
 
-      await createAuditLog({
-        userId: this.config.credentials.userId || 'system',
-        action: 'hsm_key_created',
-        performedBy: this.config.credentials.userId || 'system',
-        category: 'hsm',
-        timestamp: Date.now(),
-        status: 'success',
-        targetId: keyId,
-        targetType: 'hsm_key',
-        details: { chainId: tenantId, walletAddress }
-      });
+      try {
+        await this.saveKey(keyInfo);
+      } catch (error) {
+        // Do not leave key material without metadata behind
+        await this.destroyKeyPair(keyId).catch(destroyError => {
+          logger.error('Failed to destroy key after metadata was not saved', { keyId, error: destroyError });
+        });
+        throw error;
+      }
+
+      await this.audit(AuditAction.HSM_KEY_CREATED, keyInfo);
 
-      logger.debug('Key generated successfully', { keyId, walletAddress });
+      logger.debug('Key generated successfully', { keyId, walletAddress: keyInfo.walletAddress });
       return keyInfo;
     } catch (error) {
-      logger.error('Error generating key in Custom HSM', { keyType, name, tenantId, error });
+      logger.error('Error generating HSM key', { provider: this.type, keyType, name, tenantId, error });
       if (error instanceof Error) {
         throw new Error(`Failed to generate key: ${error.message}`);
       }
       throw new Error('Failed to generate key: Unknown error');
-    } finally {
-      await this.closeSession();
     }
   }
 
-  async getKey(keyId: string, tenantId?: string): Promise<HSMKeyInfo> {
-    try {
-      logger.info(`Retrieving key from Custom HSM`, { keyId, tenantId });
+  /**
+   * Provider details recorded with each key
+   */
+  protected keyMetadata(): Record<string, any> {
+    return {};
+  }
 
-      if (!keyId || typeof keyId !== 'string') {
-        throw new Error('Invalid key ID');
-      }
+  /**
+   * Load the metadata of a key of this provider
+   * @param keyId Key ID
+   * @param tenantId Tenant the key must belong to
+   */
+  private async loadKey(keyId: string, tenantId?: string): Promise<HSMKeyInfo | undefined> {
+    const db = await getDatabase();
+    const record: HSMKeyRecord | undefined = await db.get('hsm_keys', keyId);
+    if (!record || record.provider !== this.type || (tenantId && record.tenantId !== tenantId)) {
+      return undefined;
+    }
+    return this.fromRecord(record);
+  }
 
-      await this.initializeSession();
-      if (!this.session) throw new Error('Session not initialized');
+  /**
+   * Persist the metadata of a key
+   * @param keyInfo Key information
+   */
+  private async saveKey(keyInfo: HSMKeyInfo): Promise<void> {
+    const { lastUsedAt, ...rest } = keyInfo;
+    const db = await getDatabase();
+    await db.put('hsm_keys', { ...rest, lastUsed: lastUsedAt });
+  }
 
-      const objects = this.pkcs11Client.C_FindObjectsInit(this.session!, [
-        { type: pkcs11.CKA_ID, value: Buffer.from(keyId) },
-        { type: pkcs11.CKA_CLASS, value: pkcs11.CKO_PUBLIC_KEY },
-      ]);
+  /**
+   * Convert a stored key record
+   * @param record Stored record
+   */
+  private fromRecord(record: HSMKeyRecord): HSMKeyInfo {
+    const { lastUsed, ...rest } = record;
+    return {
+      ...rest,
+      provider: record.provider as HSMProviderType,
+      keyType: record.keyType as HSMKeyType,
+      lastUsedAt: lastUsed,
+    };
+  }
 
-      const objectHandle = this.pkcs11Client.C_FindObjects(this.session!);
-      if (!objectHandle) {
-        throw new Error(`Key not found: ${keyId}`);
-      }
+  /**
+   * Record an audit log entry for a key
+   * @param action Audit action
+   * @param keyInfo Key the action applies to
+   * @param details Additional details
+   */
+  private async audit(action: AuditAction, keyInfo: HSMKeyInfo, details: Record<string, any> = {}): Promise<void> {
+    await createAuditLog({
+      userId: this.config.credentials.userId || 'system',
+      action,
+      performedBy: this.config.credentials.userId || 'system',
+      category: 'hsm',
+      status: 'success',
+      targetId: keyInfo.id,
+      targetType: AuditTargetType.HSM_KEY,
+      details: { provider: this.type, chainId: keyInfo.tenantId, walletAddress: keyInfo.walletAddress, ...details },
+    });
+  }
+}
 
-      const attributes = this.pkcs11Client.C_GetAttributeValue(this.session!, objectHandle, [
-        { type: pkcs11.CKA_LABEL },
-        { type: pkcs11.CKA_KEY_TYPE },
-        { type: pkcs11.CKA_EC_POINT },
-        { type: pkcs11.CKA_MODULUS },
-      ]);
+// PKCS#11 return values after which the session must be reopened
+const STALE_SESSION_ERRORS = [
+  pkcs11js.CKR_SESSION_HANDLE_INVALID,
+  pkcs11js.CKR_SESSION_CLOSED,
+  pkcs11js.CKR_USER_NOT_LOGGED_IN,
+  pkcs11js.CKR_DEVICE_REMOVED,
+  pkcs11js.CKR_TOKEN_NOT_PRESENT,
+];
 
-      const publicKey = attributes.find(attr => attr.type === pkcs11.CKA_EC_POINT || attr.type === pkcs11.CKA_MODULUS)
-        ? `0x${Buffer.from(attributes.find(attr => attr.type === pkcs11.CKA_EC_POINT || attr.type === pkcs11.CKA_MODULUS)!.value).toString('hex')}`
-        : '';
-      const walletAddress = publicKey ? deriveWalletAddress(publicKey) : '';
+/**
+ * Custom HSM provider implementation using PKCS#11. One logged-in session is
+ * kept open; every operation on it runs synchronously, so operations never
+ * interleave.
+ */
+class CustomHSMProvider extends BaseHSMProvider {
+  private pkcs11Client: pkcs11js.PKCS11;
+  private initialized = false;
+  private session: pkcs11js.Handle | null = null;
 
-      return {
-        id: keyId,
-        name: attributes.find(attr => attr.type === pkcs11.CKA_LABEL)?.value.toString() || keyId,
-        description: undefined,
-        provider: HSMProviderType.CUSTOM,
-        keyType: attributes.find(attr => attr.type === pkcs11.CKA_KEY_TYPE)?.value === pkcs11.CKK_EC
-          ? HSMKeyType.ECDSA_SECP256K1
-          : HSMKeyType.RSA_2048,
-        createdAt: Date.now(), // Placeholder, actual timestamp requires HSM metadata
-        createdBy: this.config.credentials.userId || 'system',
-        publicKey,
-        walletAddress,
-        tenantId,
-        metadata: {
-          slotId: this.config.credentials.slotId,
-          fipsCompliant: this.config.options?.fipsCompliance ?? true,
-        },
-      };
-    } catch (error) {
-      logger.error('Error retrieving key from Custom HSM', { keyId, tenantId, error });
-      if (error instanceof Error) {
-        throw new Error(`Failed to retrieve key: ${error.message}`);
-      }
-      throw new Error('Failed to retrieve key: Unknown error');
-    } finally {
-      await this.closeSession();
+  constructor(config: HSMConfig) {
+    super(config);
+    this.pkcs11Client = new pkcs11js.PKCS11();
+    this.pkcs11Client.load(config.credentials.libraryPath!);
+    logger.info('Initialized Custom HSM provider', { libraryPath: config.credentials.libraryPath });
+  }
+
+  protected validateConfigSync(): void {
+    super.validateConfigSync();
+    if (!this.config.credentials.pin || !this.config.credentials.libraryPath) {
+      throw new Error('PIN and library path are required for custom HSM');
     }
   }
 
-  async listKeys(tenantId?: string): Promise<HSMKeyInfo[]> {
+  async validateConfig(): Promise<void> {
     try {
-      logger.info('Listing keys from Custom HSM', { tenantId });
-
-      await this.initializeSession();
-      if (!this.session) throw new Error('Session not initialized');
-
-      const keys: HSMKeyInfo[] = [];
-      this.pkcs11Client.C_FindObjectsInit(this.session!, [{ type: pkcs11.CKA_CLASS, value: pkcs11.CKO_PUBLIC_KEY }]);
-
-      let objectHandle;
-      while ((objectHandle = this.pkcs11Client.C_FindObjects(this.session!))) {
-        const attributes = this.pkcs11Client.C_GetAttributeValue(this.session!, objectHandle, [
-          { type: pkcs11.CKA_ID },
-        ]);
-        const keyId = attributes.find(attr => attr.type === pkcs11.CKA_ID)?.value.toString();
-        if (keyId) {
-          const keyInfo = await this.getKey(keyId, tenantId);
-          if (!tenantId || keyInfo.tenantId === tenantId) {
-            keys.push(keyInfo);
-          }
-        }
-      }
-
-      this.pkcs11Client.C_FindObjectsFinal(this.session!);
-      logger.debug('Keys listed successfully', { count: keys.length, tenantId });
-      return keys;
+      logger.debug('Validating Custom HSM configuration');
+      this.withSession(session => this.pkcs11Client.C_GetSessionInfo(session));
+      logger.debug('Custom HSM configuration validated');
     } catch (error) {
-      logger.error('Error listing keys from Custom HSM', { tenantId, error });
+      logger.error('Custom HSM configuration validation failed', { error });
       if (error instanceof Error) {
-        throw new Error(`Failed to list keys: ${error.message}`);
+        throw new Error(`Failed to validate Custom HSM configuration: ${error.message}`);
       }
-      throw new Error('Failed to list keys: Unknown error');
-    } finally {
-      await this.closeSession();
+      throw new Error('Failed to validate Custom HSM configuration: Unknown error');
     }
   }
 
-  async sign(keyId: string, message: string, tenantId?: string): Promise<string> {
-    try {
-      logger.info(`Signing message with Custom HSM key`, { keyId, tenantId });
+  async close(): Promise<void> {
+    this.closeSession();
+    if (this.initialized) {
+      this.pkcs11Client.C_Finalize();
+      this.initialized = false;
+    }
+  }
 
-      if (!keyId || !message || typeof message !== 'string') {
-        throw new Error('Invalid key ID or message');
-      }
+  protected async createKeyPair(keyType: HSMKeyType, keyId: string, label: string): Promise<string> {
+    return this.withSession(session => {
+      const id = Buffer.from(keyId);
+      const isEC = keyType === HSMKeyType.ECDSA_SECP256K1;
+
+      const publicKeyTemplate: pkcs11js.Template = [
+        { type: pkcs11js.CKA_CLASS, value: pkcs11js.CKO_PUBLIC_KEY },
+        { type: pkcs11js.CKA_KEY_TYPE, value: isEC ? pkcs11js.CKK_EC : pkcs11js.CKK_RSA },
+        { type: pkcs11js.CKA_LABEL, value: label },
+        { type: pkcs11js.CKA_ID, value: id },
+        { type: pkcs11js.CKA_TOKEN, value: true },
+        { type: pkcs11js.CKA_VERIFY, value: true },
+        ...(isEC
+          ? [{ type: pkcs11js.CKA_EC_PARAMS, value: SECP256K1_EC_PARAMS }]
+          : [
+              { type: pkcs11js.CKA_MODULUS_BITS, value: 2048 },
+              { type: pkcs11js.CKA_PUBLIC_EXPONENT, value: Buffer.from([0x01, 0x00, 0x01]) },
+            ]),
+      ];
 
-      await this.initializeSession();
-      if (!this.session) throw new Error('Session not initialized');
+      const privateKeyTemplate: pkcs11js.Template = [
+        { type: pkcs11js.CKA_CLASS, value: pkcs11js.CKO_PRIVATE_KEY },
+        { type: pkcs11js.CKA_KEY_TYPE, value: isEC ? pkcs11js.CKK_EC : pkcs11js.CKK_RSA },
+        { type: pkcs11js.CKA_LABEL, value: label },
+        { type: pkcs11js.CKA_ID, value: id },
+        { type: pkcs11js.CKA_TOKEN, value: true },
+        { type: pkcs11js.CKA_PRIVATE, value: true },
+        { type: pkcs11js.CKA_SENSITIVE, value: true },
+        { type: pkcs11js.CKA_EXTRACTABLE, value: false },
+        { type: pkcs11js.CKA_SIGN, value: true },
+      ];
 
-      const messageHash = ethers.utils.keccak256(ethers.utils.toUtf8Bytes(message));
-      const privateKeyHandle = this.pkcs11Client.C_FindObjectsInit(this.session!, [
-        { type: pkcs11.CKA_ID, value: Buffer.from(keyId) },
-        { type: pkcs11.CKA_CLASS, value: pkcs11.CKO_PRIVATE_KEY },
+      const { publicKey } = this.pkcs11Client.C_GenerateKeyPair(
+        session,
+        { mechanism: isEC ? pkcs11js.CKM_EC_KEY_PAIR_GEN : pkcs11js.CKM_RSA_PKCS_KEY_PAIR_GEN },
+        publicKeyTemplate,
+        privateKeyTemplate
+      );
+
+      const [attribute] = this.pkcs11Client.C_GetAttributeValue(session, publicKey, [
+        { type: isEC ? pkcs11js.CKA_EC_POINT : pkcs11js.CKA_MODULUS },
       ]);
+      const value = attribute.value as Buffer;
+      return isEC ? decodeECPoint(value) : `0x${value.toString('hex')}`;
+    });
+  }
 
-      const keyHandle = this.pkcs11Client.C_FindObjects(this.session!);
+  protected async signWithKey(keyId: string, digest: Buffer): Promise<Buffer> {
+    return this.withSession(session => {
+      const keyHandle = this.findObject(session, keyId, pkcs11js.CKO_PRIVATE_KEY);
       if (!keyHandle) {
         throw new Error(`Private key not found: ${keyId}`);
       }
 
-      const signature = await this.retryUtility.retry(() =>
-        this.pkcs11Client.C_Sign(
-          this.session!,
-          keyHandle,
-          { mechanism: pkcs11.CKM_ECDSA },
-          Buffer.from(messageHash.slice(2), 'hex')
-        )
-      );
+      this.pkcs11Client.C_SignInit(session, { mechanism: pkcs11js.CKM_ECDSA }, keyHandle);
+      return Buffer.from(this.pkcs11Client.C_Sign(session, digest, Buffer.alloc(128)));
+    });
+  }
 
-      const keyInfo = await this.getKey(keyId, tenantId);
+  protected async destroyKeyPair(keyId: string): Promise<void> {
+    this.withSession(session => {
+      for (const objectClass of [pkcs11js.CKO_PRIVATE_KEY, pkcs11js.CKO_PUBLIC_KEY]) {
+        const handle = this.findObject(session, keyId, objectClass);
+        if (handle) {
+          this.pkcs11Client.C_DestroyObject(session, handle);
+        }
+      }
+    });
+  }
 
-      await createAuditLog({
-        userId: this.config.credentials.userId || 'system',
-        action: 'hsm_key_used',
-        performedBy: this.config.credentials.userId || 'system',
-        category: 'hsm',
-        timestamp: Date.now(),
-        status: 'success',
-        targetId: keyId,
-        targetType: 'hsm_key',
-        details: { chainId: tenantId, walletAddress: keyInfo.walletAddress }
-      });
+  protected keyMetadata(): Record<string, any> {
+    return {
+      slotId: this.config.credentials.slotId,
+      tokenLabel: this.config.credentials.tokenLabel,
+      fipsCompliant: this.config.options?.fipsCompliance ?? true,
+      pkcs11Library: this.config.credentials.libraryPath,
+    };
+  }
+
+  async wrapKey(keyId: string, key: Buffer): Promise<Buffer> {
+    return this.withWrappingKey(keyId, 'wrap', (session, handle, mechanism) => {
+      this.pkcs11Client.C_EncryptInit(session, mechanism, handle);
+      return this.pkcs11Client.C_Encrypt(session, key, Buffer.alloc(key.length + 16));
+    });
+  }
+
+  async unwrapKey(keyId: string, wrappedKey: Buffer): Promise<Buffer> {
+    return this.withWrappingKey(keyId, 'unwrap', (session, handle, mechanism) => {
+      this.pkcs11Client.C_DecryptInit(session, mechanism, handle);
+      return this.pkcs11Client.C_Decrypt(session, wrappedKey, Buffer.alloc(wrappedKey.length));
+    });
+  }
 
-      const signatureHex = `0x${Buffer.from(signature).toString('hex')}`;
-      logger.debug('Message signed successfully', { keyId, messageHash });
-      return signatureHex;
+  /**
+   * Run a wrapping operation with an AES secret key (RFC 5649 key wrap with padding)
+   * @param keyId ID of the secret key
+   * @param operation Operation name for logging
+   * @param fn Operation on the key handle
+   */
+  private async withWrappingKey(
+    keyId: string,
+    operation: 'wrap' | 'unwrap',
+    fn: (session: pkcs11js.Handle, handle: pkcs11js.Handle, mechanism: pkcs11js.Mechanism) => Buffer
+  ): Promise<Buffer> {
+    try {
+      const result = await this.retryUtility.retry(async () =>
+        this.withSession(session => {
+          const keyHandle = this.findObject(session, keyId, pkcs11js.CKO_SECRET_KEY);
+          if (!keyHandle) {
+            throw new Error(`Secret key not found: ${keyId}`);
+          }
+          return fn(session, keyHandle, { mechanism: pkcs11js.CKM_AES_KEY_WRAP_PAD });
+        })
+      );
+      return Buffer.from(result);
     } catch (error) {
-      logger.error('Error signing message with Custom HSM key', { keyId, tenantId, error });
+      logger.error(`Error during key ${operation} with Custom HSM key`, { keyId, error });
       if (error instanceof Error) {
-        throw new Error(`Failed to sign message: ${error.message}`);
+        throw new Error(`Failed to ${operation} key: ${error.message}`);
       }
-      throw new Error('Failed to sign message: Unknown error');
-    } finally {
-      await this.closeSession();
+      throw new Error(`Failed to ${operation} key: Unknown error`);
     }
   }
 
-  async rotateKey(keyId: string, tenantId?: string): Promise<HSMKeyInfo> {
+  /**
+   * Run an operation on the logged-in session, opening it if needed.
+   * The session is dropped when the token reports it stale so that the next
+   * attempt reopens it.
+   * @param fn Synchronous operation
+   */
+  private withSession<T>(fn: (session: pkcs11js.Handle) => T): T {
+    const session = this.openSession();
     try {
-      logger.info(`Rotating Custom HSM key`, { keyId, tenantId });
+      return fn(session);
+    } catch (error) {
+      if (error instanceof pkcs11js.Pkcs11Error && STALE_SESSION_ERRORS.includes(error.code)) {
+        logger.warn('PKCS#11 session is stale, it will be reopened', { code: error.code });
+        this.session = null;
+      }
+      throw error;
+    }
+  }
 
-      if (!keyId || typeof keyId !== 'string') {
-        throw new Error('Invalid key ID');
+  /**
+   * Initialize the library and open a logged-in session
+   */
+  private openSession(): pkcs11js.Handle {
+    if (!this.initialized) {
+      try {
+        this.pkcs11Client.C_Initialize();
+      } catch (error) {
+        if (!(error instanceof pkcs11js.Pkcs11Error && error.code === pkcs11js.CKR_CRYPTOKI_ALREADY_INITIALIZED)) {
+          throw error;
+        }
       }
+      this.initialized = true;
+    }
 
-      const keyInfo = await this.getKey(keyId, tenantId);
-      const newKeyInfo = await this.generateKey(
-        keyInfo.keyType,
-        `${keyInfo.name}-rotated-${Date.now()}`,
-        keyInfo.description,
-        tenantId
-      );
+    if (!this.session) {
+      const slot = this.findSlot();
+      const session = this.pkcs11Client.C_OpenSession(slot, pkcs11js.CKF_RW_SESSION | pkcs11js.CKF_SERIAL_SESSION);
+      try {
+        this.pkcs11Client.C_Login(session, pkcs11js.CKU_USER, this.config.credentials.pin);
+      } catch (error) {
+        // Login state is shared by all sessions of the application
+        if (!(error instanceof pkcs11js.Pkcs11Error && error.code === pkcs11js.CKR_USER_ALREADY_LOGGED_IN)) {
+          this.pkcs11Client.C_CloseSession(session);
+          throw error;
+        }
+      }
+      this.session = session;
+      logger.debug('PKCS#11 session opened');
+    }
 
-      newKeyInfo.metadata = {
-        ...newKeyInfo.metadata,
-        rotatedFrom: keyId,
-        rotatedAt: Date.now(),
-        tenantId,
-      };
+    return this.session;
+  }
 
-      await createAuditLog({
-        userId: this.config.credentials.userId || 'system',
-        action: 'hsm_key_rotated',
-        performedBy: this.config.credentials.userId || 'system',
-        category: 'hsm',
-        timestamp: Date.now(),
-        status: 'success',
-        targetId: keyId,
-        targetType: 'hsm_key',
-        details: { chainId: tenantId, walletAddress: newKeyInfo.walletAddress }
-      });
+  /**
+   * Close the session
+   */
+  private closeSession(): void {
+    if (this.session) {
+      try {
+        this.pkcs11Client.C_Logout(this.session);
+        this.pkcs11Client.C_CloseSession(this.session);
+      } catch (error) {
+        logger.warn('Error closing PKCS#11 session', { error });
+      }
+      this.session = null;
+      logger.debug('PKCS#11 session closed');
+    }
+  }
+
+  /**
+   * Find the configured slot: by token label, by slot ID, or the first slot with a token
+   */
+  private findSlot(): pkcs11js.Handle {
+    const slots = this.pkcs11Client.C_GetSlotList(true);
+    const { tokenLabel, slotId } = this.config.credentials;
+
+    const slot = slots.find(candidate => {
+      if (tokenLabel) {
+        return this.pkcs11Client.C_GetTokenInfo(candidate).label.trim() === tokenLabel;
+      }
+      if (slotId !== undefined) {
+        return this.slotNumber(candidate) === slotId;
+      }
+      return true;
+    });
+
+    if (!slot) {
+      throw new Error(tokenLabel ? `No token labelled ${tokenLabel}` : `No token in slot ${slotId ?? 'list'}`);
+    }
+    return slot;
+  }
+
+  /**
+   * Read a slot handle (a native CK_ULONG) as a number
+   * @param slot Slot handle
+   */
+  private slotNumber(slot: pkcs11js.Handle): number {
+    return slot.length >= 8 ? Number(slot.readBigUInt64LE(0)) : slot.readUInt32LE(0);
+  }
+
+  /**
+   * Find an object by CKA_ID and class
+   * @param session Session
+   * @param keyId Key ID
+   * @param objectClass Object class
+   */
+  private findObject(session: pkcs11js.Handle, keyId: string, objectClass: number): pkcs11js.Handle | null {
+    this.pkcs11Client.C_FindObjectsInit(session, [
+      { type: pkcs11js.CKA_ID, value: Buffer.from(keyId) },
+      { type: pkcs11js.CKA_CLASS, value: objectClass },
+    ]);
+    try {
+      return this.pkcs11Client.C_FindObjects(session);
+    } finally {
+      this.pkcs11Client.C_FindObjectsFinal(session);
+    }
+  }
+}
+
+// Contents of a file keystore entry
+interface SealedKeyEntry {
+  version: 1;
+  keyId: string;
+  keyType: HSMKeyType;
+  kdf: { algorithm: 'scrypt'; salt: string; N: number; r: number; p: number };
+  iv: string;
+  authTag: string;
+  ciphertext: string; // Sealed private key: secp256k1 scalar or PKCS#8 DER
+}
+
+// scrypt cost of the file keystore
+const KEYSTORE_SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+/**
+ * Software keystore for development: one file per key, sealed with the
+ * configured passphrase (scrypt + AES-256-GCM). Private keys exist in memory
+ * only while signing. Not a substitute for an HSM.
+ */
+class FileHSMProvider extends BaseHSMProvider {
+  private readonly directory: string;
+  private sealingKeys = new Map<string, Buffer>(); // By salt
+
+  constructor(config: HSMConfig) {
+    super(config);
+    this.directory = path.resolve(config.credentials.keystorePath!);
+    logger.info('Initialized file keystore HSM provider', { directory: this.directory });
+  }
 
-      logger.debug('Key rotated successfully', { oldKeyId: keyId, newKeyId: newKeyInfo.id });
-      return newKeyInfo;
+  protected validateConfigSync(): void {
+    super.validateConfigSync();
+    if (!this.config.credentials.pin || !this.config.credentials.keystorePath) {
+      throw new Error('Passphrase (pin) and keystore path are required for the file keystore');
+    }
+  }
+
+  async validateConfig(): Promise<void> {
+    try {
+      await fs.promises.mkdir(this.directory, { recursive: true, mode: 0o700 });
+      await fs.promises.access(this.directory, fs.constants.R_OK | fs.constants.W_OK);
     } catch (error) {
-      logger.error('Error rotating Custom HSM key', { keyId, tenantId, error });
+      logger.error('File keystore configuration validation failed', { error });
       if (error instanceof Error) {
-        throw new Error(`Failed to rotate key: ${error.message}`);
+        throw new Error(`Failed to validate file keystore configuration: ${error.message}`);
       }
-      throw new Error('Failed to rotate key: Unknown error');
+      throw new Error('Failed to validate file keystore configuration: Unknown error');
+    }
+  }
+
+  protected async createKeyPair(keyType: HSMKeyType, keyId: string): Promise<string> {
+    let privateKey: Buffer;
+    let publicKey: string;
+
+    if (keyType === HSMKeyType.ECDSA_SECP256K1) {
+      const signingKey = new ethers.utils.SigningKey(crypto.randomBytes(32));
+      privateKey = Buffer.from(signingKey.privateKey.slice(2), 'hex');
+      publicKey = signingKey.publicKey;
+    } else {
+      const pair = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      privateKey = pair.privateKey.export({ format: 'der', type: 'pkcs8' });
+      publicKey = `0x${Buffer.from(pair.publicKey.export({ format: 'jwk' }).n!, 'base64url').toString('hex')}`;
+    }
+
+    await fs.promises.mkdir(this.directory, { recursive: true, mode: 0o700 });
+    try {
+      await fs.promises.writeFile(this.entryPath(keyId), JSON.stringify(this.seal(keyId, keyType, privateKey)), {
+        mode: 0o600,
+        flag: 'wx',
+      });
     } finally {
-      await this.closeSession();
+      privateKey.fill(0);
     }
+
+    return publicKey;
   }
 
-  async deleteKey(keyId: string, tenantId?: string): Promise<boolean> {
+  protected async signWithKey(keyId: string, digest: Buffer): Promise<Buffer> {
+    const privateKey = await this.unseal(keyId);
     try {
-      logger.info(`Deleting Custom HSM key`, { keyId, tenantId });
+      const signature = new ethers.utils.SigningKey(privateKey).signDigest(digest);
+      return Buffer.concat([Buffer.from(signature.r.slice(2), 'hex'), Buffer.from(signature.s.slice(2), 'hex')]);
+    } finally {
+      privateKey.fill(0);
+    }
+  }
 
-      if (!keyId || typeof keyId !== 'string') {
-        throw new Error('Invalid key ID');
+  protected async destroyKeyPair(keyId: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.entryPath(keyId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
       }
+    }
+  }
 
-      await this.initializeSession();
-      if (!this.session) throw new Error('Session not initialized');
+  protected keyMetadata(): Record<string, any> {
+    return { keystore: this.directory, fipsCompliant: false };
+  }
 
-      const keyInfo = await this.getKey(keyId, tenantId);
-      const privateKeyHandle = this.pkcs11Client.C_FindObjectsInit(this.session!, [
-        { type: pkcs11.CKA_ID, value: Buffer.from(keyId) },
-        { type: pkcs11.CKA_CLASS, value: pkcs11.CKO_PRIVATE_KEY },
-      ]);
+  /**
+   * Path of a key's entry
+   * @param keyId Key ID
+   */
+  private entryPath(keyId: string): string {
+    return path.join(this.directory, `${this.sanitizeInput(keyId)}.json`);
+  }
+
+  /**
+   * Seal a private key; the key ID is bound as additional data
+   * @param keyId Key ID
+   * @param keyType Key type
+   * @param privateKey Private key
+   */
+  private seal(keyId: string, keyType: HSMKeyType, privateKey: Buffer): SealedKeyEntry {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.sealingKey(salt), iv);
+    cipher.setAAD(Buffer.from(keyId, 'utf8'));
+    const ciphertext = Buffer.concat([cipher.update(privateKey), cipher.final()]);
+
+    return {
+      version: 1,
+      keyId,
+      keyType,
+      kdf: { algorithm: 'scrypt', salt, ...KEYSTORE_SCRYPT_PARAMS },
+      iv: iv.toString('hex'),
+      authTag: cipher.getAuthTag().toString('hex'),
+      ciphertext: ciphertext.toString('base64'),
+    };
+  }
 
-      const keyHandle = this.pkcs11Client.C_FindObjects(this.session!);
-      if (keyHandle) {
-        await this.retryUtility.retry(() => this.pkcs11Client.C_DestroyObject(this.session!, keyHandle));
+  /**
+   * Read and unseal a private key
+   * @param keyId Key ID
+   */
+  private async unseal(keyId: string): Promise<Buffer> {
+    let entry: SealedKeyEntry;
+    try {
+      entry = JSON.parse(await fs.promises.readFile(this.entryPath(keyId), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`Private key not found: ${keyId}`);
       }
+      throw error;
+    }
 
-      const publicKeyHandle = this.pkcs11Client.C_FindObjectsInit(this.session!, [
-        { type: pkcs11.CKA_ID, value: Buffer.from(keyId) },
-        { type: pkcs11.CKA_CLASS, value: pkcs11.CKO_PUBLIC_KEY },
-      ]);
+    if (entry.version !== 1 || entry.keyId !== keyId || entry.kdf?.algorithm !== 'scrypt') {
+      throw new Error(`Unsupported keystore entry for ${keyId}`);
+    }
 
-      const pubKeyHandle = this.pkcs11Client.C_FindObjects(this.session!);
-      if (pubKeyHandle) {
-        await this.retryUtility.retry(() => this.pkcs11Client.C_DestroyObject(this.session!, pubKeyHandle));
-      }
+    const { salt, N, r, p } = entry.kdf;
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.sealingKey(salt, { N, r, p }), Buffer.from(entry.iv, 'hex'));
+    decipher.setAAD(Buffer.from(keyId, 'utf8'));
+    decipher.setAuthTag(Buffer.from(entry.authTag, 'hex'));
 
-      await createAuditLog({
-        userId: this.config.credentials.userId || 'system',
-        action: 'hsm_key_deleted',
-        performedBy: this.config.credentials.userId || 'system',
-        category: 'hsm',
-        timestamp: Date.now(),
-        status: 'success',
-        targetId: keyId,
-        targetType: 'hsm_key',
-        details: { chainId: tenantId, walletAddress: keyInfo.walletAddress }
-      });
+    try {
+      return Buffer.concat([decipher.update(Buffer.from(entry.ciphertext, 'base64')), decipher.final()]);
+    } catch {
+      throw new Error(`Cannot unseal key ${keyId}: wrong passphrase or corrupted entry`);
+    }
+  }
 
-      logger.debug('Key deleted successfully', { keyId });
-      return true;
-    } catch (error) {
-      logger.error('Error deleting Custom HSM key', { keyId, tenantId, error });
-      if (error instanceof Error) {
-        throw new Error(`Failed to delete key: ${error.message}`);
-      }
-      throw new Error('Failed to delete key: Unknown error');
-    } finally {
-      await this.closeSession();
+  /**
+   * Derive the sealing key for a salt, caching it for the process
+   * @param salt Hex salt
+   * @param params scrypt parameters of the entry
+   */
+  private sealingKey(salt: string, params: { N: number; r: number; p: number } = KEYSTORE_SCRYPT_PARAMS): Buffer {
+    const cacheKey = `${salt}:${params.N}:${params.r}:${params.p}`;
+    let key = this.sealingKeys.get(cacheKey);
+    if (!key) {
+      key = crypto.scryptSync(this.config.credentials.pin!, Buffer.from(salt, 'hex'), 32, {
+        ...params,
+        maxmem: 256 * params.N * params.r,
+      });
+      this.sealingKeys.set(cacheKey, key);
     }
+    return key;
   }
 }
 
+/**
+ * HSM configuration from the environment: HSM_PROVIDER (custom or file),
+ * HSM_PIN, HSM_LIBRARY_PATH, HSM_SLOT_ID or HSM_TOKEN_LABEL for PKCS#11
+ * tokens, and HSM_KEYSTORE_PATH for the file keystore
+ */
+export function hsmConfigFromEnv(): HSMConfig {
+  return {
+    provider: (process.env.HSM_PROVIDER as HSMProviderType) || HSMProviderType.CUSTOM,
+    credentials: {
+      pin: process.env.HSM_PIN || '1234',
+      libraryPath: process.env.HSM_LIBRARY_PATH || '/usr/lib/softhsm/libsofthsm2.so',
+      slotId: process.env.HSM_SLOT_ID ? parseInt(process.env.HSM_SLOT_ID, 10) : undefined,
+      tokenLabel: process.env.HSM_TOKEN_LABEL || undefined,
+      keystorePath: process.env.HSM_KEYSTORE_PATH || './data/hsm-keystore',
+    },
+    tenantId: process.env.TENANT_ID,
+  };
+}
+
 /**
  * HSM provider factory
  * @param config HSM configuration
@@ -576,10 +957,14 @@ export function createHSMProvider(config: HSMConfig): HSMProvider {
   try {
     logger.debug('Creating HSM provider', { provider: config.provider });
 
-    if (config.provider === HSMProviderType.CUSTOM) {
-      return new CustomHSMProvider(config);
+    switch (config.provider) {
+      case HSMProviderType.CUSTOM:
+        return new CustomHSMProvider(config);
+      case HSMProviderType.FILE:
+        return new FileHSMProvider(config);
+      default:
+        throw new Error(`Unsupported HSM provider: ${config.provider}`);
     }
-    throw new Error(`Unsupported HSM provider: ${config.provider}`);
   } catch (error) {
     logger.error('Error creating HSM provider', { provider: config.provider, error });
     if (error instanceof Error) {
@@ -589,9 +974,12 @@ export function createHSMProvider(config: HSMConfig): HSMProvider {
   }
 }
 
+export { decodeECPoint, parseECDSASignature, toEthereumSignature } from './ecdsa';
+
 // Export enums and factory
 export default {
   createHSMProvider,
+  hsmConfigFromEnv,
   HSMProviderType,
   HSMKeyType,
-};
\ No newline at end of file
+};
@@ -0,0 +1,252 @@
+import { ethers } from 'ethers';
+import { hashMessage, hashTypedData, keccak256, serializeTransaction } from 'viem';
+import type { Hex, LocalAccount } from 'viem';
+import { toAccount } from 'viem/accounts';
+import { createHSMProvider, hsmConfigFromEnv, HSMProvider } from './index';
+
+/**
+ * ethers Signer backed by an HSM key. Every signature is produced by the HSM
+ * over a digest; the private key never leaves it.
+ */
+
+// ERC-4337 v0.6 user operation
+export interface UserOperationStruct {
+  sender: string;
+  nonce: ethers.BigNumberish;
+  initCode: ethers.BytesLike;
+  callData: ethers.BytesLike;
+  callGasLimit: ethers.BigNumberish;
+  verificationGasLimit: ethers.BigNumberish;
+  preVerificationGas: ethers.BigNumberish;
+  maxFeePerGas: ethers.BigNumberish;
+  maxPriorityFeePerGas: ethers.BigNumberish;
+  paymasterAndData: ethers.BytesLike;
+  signature?: ethers.BytesLike;
+}
+
+/**
+ * Hash of a v0.6 user operation, as computed by EntryPoint.getUserOpHash
+ * @param userOp User operation
+ * @param entryPoint EntryPoint address
+ * @param chainId Chain ID
+ */
+export const getUserOperationHash = (userOp: UserOperationStruct, entryPoint: string, chainId: number): string => {
+  const packed = ethers.utils.defaultAbiCoder.encode(
+    ['address', 'uint256', 'bytes32', 'bytes32', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'bytes32'],
+    [
+      userOp.sender,
+      userOp.nonce,
+      ethers.utils.keccak256(userOp.initCode),
+      ethers.utils.keccak256(userOp.callData),
+      userOp.callGasLimit,
+      userOp.verificationGasLimit,
+      userOp.preVerificationGas,
+      userOp.maxFeePerGas,
+      userOp.maxPriorityFeePerGas,
+      ethers.utils.keccak256(userOp.paymasterAndData),
+    ]
+  );
+
+  return ethers.utils.keccak256(
+    ethers.utils.defaultAbiCoder.encode(['bytes32', 'address', 'uint256'], [ethers.utils.keccak256(packed), entryPoint, chainId])
+  );
+};
+
+// ERC-4337 v0.7 user operation, with gas limits and fees packed in pairs of uint128
+export interface PackedUserOperationStruct {
+  sender: string;
+  nonce: ethers.BigNumberish;
+  initCode: ethers.BytesLike;
+  callData: ethers.BytesLike;
+  accountGasLimits: ethers.BytesLike; // verificationGasLimit, callGasLimit
+  preVerificationGas: ethers.BigNumberish;
+  gasFees: ethers.BytesLike; // maxPriorityFeePerGas, maxFeePerGas
+  paymasterAndData: ethers.BytesLike;
+  signature?: ethers.BytesLike;
+}
+
+/**
+ * Hash of a v0.7 user operation, as computed by EntryPoint.getUserOpHash
+ * @param userOp Packed user operation
+ * @param entryPoint EntryPoint address
+ * @param chainId Chain ID
+ */
+export const getPackedUserOperationHash = (userOp: PackedUserOperationStruct, entryPoint: string, chainId: number): string => {
+  const packed = ethers.utils.defaultAbiCoder.encode(
+    ['address', 'uint256', 'bytes32', 'bytes32', 'bytes32', 'uint256', 'bytes32', 'bytes32'],
+    [
+      userOp.sender,
+      userOp.nonce,
+      ethers.utils.keccak256(userOp.initCode),
+      ethers.utils.keccak256(userOp.callData),
+      userOp.accountGasLimits,
+      userOp.preVerificationGas,
+      userOp.gasFees,
+      ethers.utils.keccak256(userOp.paymasterAndData),
+    ]
+  );
+
+  return ethers.utils.keccak256(
+    ethers.utils.defaultAbiCoder.encode(['bytes32', 'address', 'uint256'], [ethers.utils.keccak256(packed), entryPoint, chainId])
+  );
+};
+
+export class HSMSigner extends ethers.Signer {
+  public readonly provider?: ethers.providers.Provider;
+  private address?: Promise<string>;
+
+  /**
+   * @param hsmProvider HSM holding the key
+   * @param keyId HSM key ID of a secp256k1 key
+   * @param provider Provider to send transactions with
+   * @param tenantId Tenant the key belongs to
+   */
+  constructor(
+    public readonly hsmProvider: HSMProvider,
+    public readonly keyId: string,
+    provider?: ethers.providers.Provider,
+    public readonly tenantId?: string
+  ) {
+    super();
+    if (!keyId) {
+      throw new Error('HSM key ID is required');
+    }
+    ethers.utils.defineReadOnly(this, 'provider', provider);
+  }
+
+  public async getAddress(): Promise<string> {
+    if (!this.address) {
+      this.address = this.hsmProvider.getKey(this.keyId, this.tenantId).then(keyInfo => keyInfo.walletAddress);
+      // Retry the lookup on the next call if it failed
+      this.address.catch(() => {
+        this.address = undefined;
+      });
+    }
+    return this.address;
+  }
+
+  public connect(provider: ethers.providers.Provider): HSMSigner {
+    return new HSMSigner(this.hsmProvider, this.keyId, provider, this.tenantId);
+  }
+
+  /**
+   * Sign a 32-byte digest
+   * @param digest Digest
+   * @returns 65-byte signature
+   */
+  public async signDigest(digest: ethers.BytesLike): Promise<string> {
+    return this.hsmProvider.signDigest(this.keyId, ethers.utils.hexlify(digest), this.tenantId);
+  }
+
+  /**
+   * EIP-191 personal message signature
+   */
+  public async signMessage(message: ethers.Bytes | string): Promise<string> {
+    return this.signDigest(ethers.utils.hashMessage(message));
+  }
+
+  /**
+   * Sign a legacy, EIP-2930 or EIP-1559 transaction
+   */
+  public async signTransaction(transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>): Promise<string> {
+    const tx = await ethers.utils.resolveProperties(transaction);
+
+    if (tx.from != null) {
+      if (ethers.utils.getAddress(tx.from) !== (await this.getAddress())) {
+        throw new Error(`Transaction from address mismatch: ${tx.from}`);
+      }
+      delete tx.from;
+    }
+
+    const unsigned = tx as ethers.utils.UnsignedTransaction;
+    const signature = await this.signDigest(ethers.utils.keccak256(ethers.utils.serializeTransaction(unsigned)));
+    return ethers.utils.serializeTransaction(unsigned, signature);
+  }
+
+  /**
+   * EIP-712 typed data signature
+   */
+  public async _signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    const populated = await ethers.utils._TypedDataEncoder.resolveNames(domain, types, value, (name: string) => {
+      if (!this.provider) {
+        throw new Error(`Cannot resolve ENS name ${name} without a provider`);
+      }
+      return this.provider.resolveName(name) as Promise<string>;
+    });
+
+    return this.signDigest(ethers.utils._TypedDataEncoder.hash(populated.domain, types, populated.value));
+  }
+
+  /**
+   * Sign a user operation hash the way ERC-4337 accounts verify it (EIP-191 over the hash)
+   * @param userOpHash User operation hash
+   */
+  public async signUserOperationHash(userOpHash: ethers.BytesLike): Promise<string> {
+    return this.signMessage(ethers.utils.arrayify(userOpHash));
+  }
+
+  /**
+   * Sign a v0.6 user operation
+   * @param userOp User operation
+   * @param entryPoint EntryPoint address
+   * @param chainId Chain ID
+   */
+  public async signUserOperation(userOp: UserOperationStruct, entryPoint: string, chainId: number): Promise<string> {
+    return this.signUserOperationHash(getUserOperationHash(userOp, entryPoint, chainId));
+  }
+
+  /**
+   * Sign a v0.7 packed user operation
+   * @param userOp Packed user operation
+   * @param entryPoint EntryPoint address
+   * @param chainId Chain ID
+   */
+  public async signPackedUserOperation(userOp: PackedUserOperationStruct, entryPoint: string, chainId: number): Promise<string> {
+    return this.signUserOperationHash(getPackedUserOperationHash(userOp, entryPoint, chainId));
+  }
+
+  /**
+   * viem account backed by the same key, for viem and permissionless clients
+   */
+  public async toViemAccount(): Promise<LocalAccount> {
+    const address = (await this.getAddress()) as Hex;
+    const { publicKey } = await this.hsmProvider.getKey(this.keyId, this.tenantId);
+    const signHash = async (hash: Hex): Promise<Hex> => (await this.signDigest(hash)) as Hex;
+
+    const account = toAccount({
+      address,
+      sign: ({ hash }) => signHash(hash),
+      signMessage: ({ message }) => signHash(hashMessage(message)),
+      signTypedData: typedData => signHash(hashTypedData(typedData)),
+      signTransaction: async (transaction, options) => {
+        const serializer = options?.serializer ?? serializeTransaction;
+        const signature = ethers.utils.splitSignature(await signHash(keccak256(await serializer(transaction))));
+        return serializer(transaction, {
+          r: signature.r as Hex,
+          s: signature.s as Hex,
+          yParity: signature.recoveryParam,
+        } as Parameters<typeof serializeTransaction>[1]) as Hex;
+      },
+    });
+
+    return { ...account, publicKey: publicKey as Hex };
+  }
+}
+
+/**
+ * Signer for an HSM key named by an environment variable, using the HSM
+ * configured by the HSM_* variables
+ * @param keyIdVariable Variable holding the HSM key ID
+ * @param provider Provider to send transactions with
+ */
+export const hsmSignerFromEnv = (keyIdVariable: string, provider?: ethers.providers.Provider): HSMSigner => {
+  const keyId = process.env[keyIdVariable];
+  if (!keyId) {
+    throw new Error(`${keyIdVariable} must name an HSM key`);
+  }
+  return new HSMSigner(createHSMProvider(hsmConfigFromEnv()), keyId, provider);
+};
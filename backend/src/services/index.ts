@@ -5,6 +5,7 @@ import { RetryUtility } from '../utils/retry';
 import { Server, Socket } from 'socket.io';
 import { ethers } from 'ethers';
 import { Pool, PoolClient } from 'pg'; // PostgreSQL client for indexer and analytics
+import { hsmSignerFromEnv } from './hsm/signer';
 
 // Enum for service names
 export enum ServiceName {
@@ -41,7 +42,7 @@ export interface ServiceManagerConfig {
     user: string;
     password: string;
   };
-  relayerPrivateKey: string; // Securely managed private key for relayer
+  relayerSigner: ethers.Signer; // Relayer signer; an HSMSigner keeps the key in the HSM
 }
 
 // Interface for transaction data
@@ -82,7 +83,8 @@ export class ServiceManager {
   private operationId: string = uuidv4();
   private blockchainProvider: ethers.JsonRpcProvider | null = null;
   private dbPool: Pool | null = null;
-  private relayerWallet: ethers.Wallet | null = null;
+  private relayerSigner: ethers.Signer | null = null;
+  private relayerAddress: string | null = null;
   private socketServer: Server | null = null;
 
   constructor(config: ServiceManagerConfig) {
@@ -93,7 +95,7 @@ export class ServiceManager {
       socketServer: config.socketServer,
       blockchainProviderUrl: config.blockchainProviderUrl,
       databaseConfig: config.databaseConfig,
-      relayerPrivateKey: config.relayerPrivateKey,
+      relayerSigner: config.relayerSigner,
     };
     this.retryUtility = new RetryUtility(this.config.retryConfig);
     this.socketServer = config.socketServer || null;
@@ -112,8 +114,8 @@ export class ServiceManager {
     if (!config.databaseConfig || !Object.values(config.databaseConfig).every(val => val)) {
       throw new Error('Complete database configuration is required');
     }
-    if (!config.relayerPrivateKey || !ethers.isHexString(config.relayerPrivateKey)) {
-      throw new Error('Valid relayer private key is required');
+    if (!config.relayerSigner || !ethers.Signer.isSigner(config.relayerSigner)) {
+      throw new Error('Relayer signer is required');
     }
   }
 
@@ -132,7 +134,8 @@ export class ServiceManager {
 
       // Initialize blockchain provider
       this.blockchainProvider = new ethers.JsonRpcProvider(this.config.blockchainProviderUrl);
-      this.relayerWallet = new ethers.Wallet(this.config.relayerPrivateKey, this.blockchainProvider);
+      this.relayerSigner = this.config.relayerSigner.connect(this.blockchainProvider);
+      this.relayerAddress = await this.relayerSigner.getAddress();
 
       // Initialize database pool
       this.dbPool = new Pool(this.config.databaseConfig);
@@ -187,7 +190,8 @@ export class ServiceManager {
       // Shutdown services concurrently
       await Promise.all([
         this.shutdownService(ServiceName.RELAYER, async () => {
-          this.relayerWallet = null;
+          this.relayerSigner = null;
+          this.relayerAddress = null;
           this.serviceStatuses[ServiceName.RELAYER] = {
             ...this.serviceStatuses[ServiceName.RELAYER],
             initialized: false,
@@ -284,8 +288,8 @@ export class ServiceManager {
 
       const healthChecks = await Promise.all([
         this.checkServiceHealth(ServiceName.RELAYER, async () => {
-          if (!this.relayerWallet) return false;
-          const balance = await this.blockchainProvider!.getBalance(this.relayerWallet.address);
+          if (!this.relayerAddress) return false;
+          const balance = await this.blockchainProvider!.getBalance(this.relayerAddress);
           return balance > 0n; // Compare with BigInt zero
         }),
         this.checkServiceHealth(ServiceName.INDEXER, async () => {
@@ -339,8 +343,8 @@ export class ServiceManager {
    */
   private async initializeRelayerService(): Promise<void> {
     await this.initializeService(ServiceName.RELAYER, async () => {
-      if (!this.blockchainProvider || !this.relayerWallet) {
-        throw new Error('Blockchain provider or relayer wallet not initialized');
+      if (!this.blockchainProvider || !this.relayerSigner) {
+        throw new Error('Blockchain provider or relayer signer not initialized');
       }
 
       // Business logic: Relay a gasless transaction
@@ -357,7 +361,7 @@ export class ServiceManager {
             gasLimit: BigInt(txData.gasLimit || '100000'),
           };
 
-          const signedTx = await this.relayerWallet!.signTransaction(tx);
+          const signedTx = await this.relayerSigner!.signTransaction(tx);
           const txResponse = await this.blockchainProvider!.broadcastTransaction(signedTx);
 
           await createAuditLog({
@@ -369,7 +373,7 @@ export class ServiceManager {
             tenantId: txData.tenantId,
             metadata: {
               txHash: txResponse.hash,
-              relayerAddress: this.relayerWallet!.address,
+              relayerAddress: this.relayerAddress,
             },
           });
 
@@ -386,7 +390,7 @@ export class ServiceManager {
         initialized: true,
         healthy: true,
         lastChecked: Date.now(),
-        metadata: { relayerAddress: this.relayerWallet.address },
+        metadata: { relayerAddress: this.relayerAddress },
       };
 
       // Expose relayTransaction for external use (e.g., API endpoints)
@@ -693,5 +697,5 @@ export default new ServiceManager({
     user: process.env.DB_USER || 'postgres',
     password: process.env.DB_PASSWORD || 'password',
   },
-  relayerPrivateKey: process.env.RELAYER_PRIVATE_KEY || '0xYOUR_PRIVATE_KEY',
+  relayerSigner: hsmSignerFromEnv('RELAYER_HSM_KEY_ID'),
 });
\ No newline at end of file
@@ -1,43 +1,13 @@
+import axios from 'axios';
 import { ethers } from 'ethers';
 import { logger } from '../../utils/logger';
-import { getDatabase } from '../../config/database';
+import { getDatabase, RyzerWalletDB } from '../../config/database';
 import { Alchemy, Network } from 'alchemy-sdk';
 import { Transaction } from '../../types';
-
-// Configuration for supported networks
-const SUPPORTED_NETWORKS: Record<number, {
-  name: string;
-  rpcUrl: string;
-  alchemyApiKey: string;
-  alchemyNetwork: any;
-  blockTime: number;
-}> = {
-  1: {
-    name: 'Ethereum Mainnet',
-    rpcUrl: process.env.ETH_MAINNET_RPC_URL || 'https://mainnet.infura.io/v3/your-api-key',
-    alchemyApiKey: process.env.ALCHEMY_ETH_API_KEY || '',
-    alchemyNetwork: Network.ETH_MAINNET,
-    blockTime: 12, // Average block time in seconds
-  },
-  137: {
-    name: 'Polygon Mainnet',
-    rpcUrl: process.env.POLYGON_MAINNET_RPC_URL || 'https://polygon-rpc.com',
-    alchemyApiKey: process.env.ALCHEMY_POLYGON_API_KEY || '',
-    alchemyNetwork: Network.MATIC_MAINNET,
-    blockTime: 2,
-  },
-  56: {
-    name: 'Binance Smart Chain',
-    rpcUrl: process.env.BSC_MAINNET_RPC_URL || 'https://bsc-dataseed.binance.org/',
-    alchemyApiKey: '', // Alchemy doesn't support BSC
-    alchemyNetwork: null,
-    blockTime: 3,
-  },
-  // Add more networks as needed
-};
+import chainRegistry, { ChainConfig, ChainRegistryUpdate } from '../chain-registry';
 
 // Provider instances for each network
-const providers: Record<number, ethers.providers.JsonRpcProvider> = {};
+const providers: Record<number, ethers.providers.BaseProvider> = {};
 
 // Alchemy instances for each network
 const alchemyInstances: Record<number, Alchemy> = {};
@@ -48,6 +18,97 @@ const latestProcessedBlocks: Record<number, number> = {};
 // Polling intervals for each network
 const pollingIntervals: Record<number, NodeJS.Timeout> = {};
 
+// Contract metadata of an address, as cached by the indexer
+export type ContractInfo = RyzerWalletDB['contract_info']['value'];
+
+// How long contract metadata is reused; addresses without code are rechecked sooner
+const CONTRACT_INFO_TTL_MS = 24 * 60 * 60 * 1000;
+const ACCOUNT_INFO_TTL_MS = 60 * 60 * 1000;
+
+const EXPLORER_TIMEOUT_MS = 10000;
+
+/**
+ * Start indexing a chain
+ * @param chain Chain configuration
+ */
+const startChainIndexer = async (chain: ChainConfig): Promise<void> => {
+  const { chainId } = chain;
+
+  // Get provider
+  const provider = chainRegistry.getProvider(chainId);
+  providers[chainId] = provider;
+  
+  // Get latest block number
+  const latestBlock = await provider.getBlockNumber();
+  latestProcessedBlocks[chainId] = latestBlock;
+  
+  logger.info(`Indexer initialized for ${chain.name} at block ${latestBlock}`);
+  
+  // Initialize Alchemy if API key is provided
+  if (chain.alchemy?.apiKey) {
+    const alchemy = new Alchemy({
+      apiKey: chain.alchemy.apiKey,
+      network: chain.alchemy.network as Network,
+    });
+    
+    alchemyInstances[chainId] = alchemy;
+    logger.info(`Alchemy initialized for ${chain.name}`);
+  }
+  
+  // Start polling for new blocks
+  const pollingInterval = Math.max(chain.blockTime * 1000, 5000); // At least 5 seconds
+  pollingIntervals[chainId] = setInterval(() => {
+    pollNewBlocks(chainId).catch(error => {
+      logger.error(`Error polling blocks for chain ${chainId}:`, error);
+    });
+  }, pollingInterval);
+};
+
+/**
+ * Stop indexing a chain
+ * @param chainId Chain ID
+ */
+const stopChainIndexer = (chainId: number): void => {
+  clearInterval(pollingIntervals[chainId]);
+  delete pollingIntervals[chainId];
+  delete providers[chainId];
+  delete alchemyInstances[chainId];
+};
+
+/**
+ * Apply chain registry changes to the running indexer
+ * @param update Registry update
+ */
+const handleChainRegistryUpdate = async (update: ChainRegistryUpdate): Promise<void> => {
+  for (const chainId of [...update.removed, ...update.changed]) {
+    stopChainIndexer(chainId);
+  }
+
+  for (const chainId of [...update.added, ...update.changed]) {
+    const chain = chainRegistry.getChain(chainId);
+    if (chain) {
+      // Keep the indexed position when only the chain settings changed
+      const lastProcessedBlock = latestProcessedBlocks[chainId];
+      await startChainIndexer(chain).catch(error => {
+        logger.error(`Failed to start indexer for chain ${chainId}:`, error);
+      });
+      if (lastProcessedBlock !== undefined && update.changed.includes(chainId)) {
+        latestProcessedBlocks[chainId] = lastProcessedBlock;
+      }
+    }
+  }
+};
+
+/**
+ * Listener for chain registry reloads
+ * @param update Registry update
+ */
+const onChainRegistryUpdated = (update: ChainRegistryUpdate): void => {
+  handleChainRegistryUpdate(update).catch(error => {
+    logger.error('Error applying chain registry update to indexer:', error);
+  });
+};
+
 /**
  * Initialize the indexer service
  */
@@ -56,38 +117,11 @@ export const initializeIndexerService = async (): Promise<void> => {
     logger.info('Initializing indexer service...');
     
     // Initialize providers and Alchemy instances for each supported network
-    for (const [chainIdStr, network] of Object.entries(SUPPORTED_NETWORKS)) {
-      const chainId = parseInt(chainIdStr);
-      
-      // Create provider
-      const provider = new ethers.providers.JsonRpcProvider(network.rpcUrl);
-      providers[chainId] = provider;
-      
-      // Get latest block number
-      const latestBlock = await provider.getBlockNumber();
-      latestProcessedBlocks[chainId] = latestBlock;
-      
-      logger.info(`Indexer initialized for ${network.name} at block ${latestBlock}`);
-      
-      // Initialize Alchemy if API key is provided
-      if (network.alchemyApiKey && network.alchemyNetwork) {
-        const alchemy = new Alchemy({
-          apiKey: network.alchemyApiKey,
-          network: network.alchemyNetwork,
-        });
-        
-        alchemyInstances[chainId] = alchemy;
-        logger.info(`Alchemy initialized for ${network.name}`);
-      }
-      
-      // Start polling for new blocks
-      const pollingInterval = Math.max(network.blockTime * 1000, 5000); // At least 5 seconds
-      pollingIntervals[chainId] = setInterval(() => {
-        pollNewBlocks(chainId).catch(error => {
-          logger.error(`Error polling blocks for chain ${chainId}:`, error);
-        });
-      }, pollingInterval);
+    for (const chain of chainRegistry.getChains()) {
+      await startChainIndexer(chain);
     }
+
+    chainRegistry.on('updated', onChainRegistryUpdated);
     
     logger.info('Indexer service initialized successfully');
   } catch (error) {
@@ -103,7 +137,7 @@ export const initializeIndexerService = async (): Promise<void> => {
 const pollNewBlocks = async (chainId: number): Promise<void> => {
   try {
     const provider = providers[chainId];
-    const network = SUPPORTED_NETWORKS[chainId];
+    const network = chainRegistry.requireChain(chainId);
     
     // Get latest block number
     const latestBlock = await provider.getBlockNumber();
@@ -386,6 +420,117 @@ export const getTransactionDetails = async (txHash: string): Promise<any> => {
   }
 };
 
+/**
+ * Get the contract metadata of an address: its code, and from the chain's
+ * explorer API when configured, when and by whom it was created and whether
+ * its source is verified. Metadata the explorer cannot provide is left unset.
+ * @param chainId Chain ID
+ * @param address Address
+ * @returns Contract metadata
+ */
+export const getContractInfo = async (chainId: number, address: string): Promise<ContractInfo> => {
+  const normalizedAddress = address.toLowerCase();
+  const id = `${chainId}:${normalizedAddress}`;
+  const db = await getDatabase();
+
+  const cached = await db.get('contract_info', id);
+  if (cached && Date.now() - cached.fetchedAt < (cached.isContract ? CONTRACT_INFO_TTL_MS : ACCOUNT_INFO_TTL_MS)) {
+    return cached;
+  }
+
+  const provider = chainRegistry.getProvider(chainId);
+  const code = await provider.getCode(normalizedAddress);
+  const info: ContractInfo = {
+    id,
+    chainId,
+    address: normalizedAddress,
+    isContract: code !== '0x',
+    fetchedAt: Date.now(),
+  };
+
+  if (info.isContract) {
+    info.code = code;
+    info.codeHash = ethers.utils.keccak256(code);
+    Object.assign(info, await fetchExplorerContractInfo(chainId, normalizedAddress, provider));
+  }
+
+  await db.put('contract_info', info);
+  return info;
+};
+
+/**
+ * Query the chain's Etherscan-compatible API for the creation and verification of a contract
+ * @param chainId Chain ID
+ * @param address Lowercase contract address
+ * @param provider Provider used to date the creation transaction
+ * @returns The metadata the explorer provided
+ */
+const fetchExplorerContractInfo = async (
+  chainId: number,
+  address: string,
+  provider: ethers.providers.BaseProvider
+): Promise<Partial<ContractInfo>> => {
+  const explorer = chainRegistry.getChain(chainId)?.explorer;
+  if (!explorer?.apiUrl || !explorer.apiKey) {
+    return {};
+  }
+
+  const query = async (params: Record<string, string>): Promise<any[] | undefined> => {
+    const response = await axios.get(explorer.apiUrl!, {
+      params: { chainid: chainId, module: 'contract', apikey: explorer.apiKey, ...params },
+      timeout: EXPLORER_TIMEOUT_MS,
+    });
+    return response.data?.status === '1' && Array.isArray(response.data.result) ? response.data.result : undefined;
+  };
+
+  const info: Partial<ContractInfo> = {};
+  try {
+    const [creation] = (await query({ action: 'getcontractcreation', contractaddresses: address })) || [];
+    if (creation?.txHash) {
+      info.creationTxHash = creation.txHash;
+      info.creator = creation.contractCreator?.toLowerCase();
+      if (creation.timestamp) {
+        info.createdAt = Number(creation.timestamp) * 1000;
+      } else {
+        const tx = await provider.getTransaction(creation.txHash);
+        const block = tx?.blockNumber !== undefined ? await provider.getBlock(tx.blockNumber) : null;
+        info.createdAt = block ? block.timestamp * 1000 : undefined;
+      }
+    }
+
+    const [source] = (await query({ action: 'getsourcecode', address })) || [];
+    if (source) {
+      info.verified = typeof source.SourceCode === 'string' && source.SourceCode.length > 0;
+    }
+  } catch (error) {
+    logger.warn(`Explorer lookup of contract ${address} on chain ${chainId} failed:`, error);
+  }
+  return info;
+};
+
+/**
+ * Check whether indexed transactions show an address has sent to another before
+ * @param from Sender
+ * @param to Recipient
+ * @param chainId Optional chain ID to filter by
+ * @returns Whether an indexed transaction from the sender to the recipient exists
+ */
+export const hasTransactedWith = async (from: string, to: string, chainId?: number): Promise<boolean> => {
+  const db = await getDatabase();
+
+  // Transactions are stored with the addresses as the provider or Alchemy returned them
+  const forms = (address: string) => Array.from(new Set([address.toLowerCase(), ethers.utils.getAddress(address)]));
+  for (const sender of forms(from)) {
+    for (const recipient of forms(to)) {
+      const transactions = await db.getAllFromIndex('transactions', 'by-address', [sender, recipient]);
+      if (transactions.some(tx => chainId === undefined || tx.chainId === chainId)) {
+        return true;
+      }
+    }
+  }
+  return false;
+};
+
 /**
  * Get the indexer status
  * @returns Indexer status
@@ -393,8 +538,8 @@ export const getTransactionDetails = async (txHash: string): Promise<any> => {
 export const getIndexerStatus = (): Record<string, any> => {
   const networks: Record<string, any> = {};
   
-  for (const [chainIdStr, network] of Object.entries(SUPPORTED_NETWORKS)) {
-    const chainId = parseInt(chainIdStr);
+  for (const network of chainRegistry.getChains()) {
+    const chainId = network.chainId;
     
     networks[chainId] = {
       name: network.name,
@@ -413,10 +558,11 @@ export const getIndexerStatus = (): Record<string, any> => {
  * Clean up resources when shutting down
  */
 export const shutdownIndexerService = (): void => {
+  chainRegistry.off('updated', onChainRegistryUpdated);
+
   // Clear all polling intervals
   for (const chainId of Object.keys(pollingIntervals).map(Number)) {
-    clearInterval(pollingIntervals[chainId]);
-    delete pollingIntervals[chainId];
+    stopChainIndexer(chainId);
   }
   
   logger.info('Indexer service shut down');
@@ -1,10 +1,12 @@
 import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
 import { teeService } from './tee/teeService';
+import { AttestationEvidence } from './tee/attestation';
 import { tssService } from './tss/tssService';
-import { militaryGradeEncryption } from './security/militaryGradeEncryption';
+import { militaryGradeEncryption, DEFAULT_TENANT } from './security/militaryGradeEncryption';
 import { mfaService } from './security/mfaService';
-import { intrusionDetectionService } from './security/intrusionDetection';
+import { intrusionDetection, eventTypeForOperation, SecurityEventType } from './security/intrusionDetection';
+import { securityIncidents, IncidentSeverity } from './security/incidents';
 
 // Contract ABIs and addresses
 import RyzerWalletMilitaryGradeImplABI from '../../contracts/abis/RyzerWalletMilitaryGradeImpl.json';
@@ -151,11 +153,15 @@ export class MilitaryGradeSecurityService {
       logger.info(`Creating military-grade wallet for user ${userId} with security level ${securityLevel}`);
       
       // Check if operation is allowed by intrusion detection
-      const operationAllowed = intrusionDetectionService.isOperationAllowed(
+      const operationAllowed = await intrusionDetection.recordEvent({
         userId,
-        'create_military_wallet',
-        { securityLevel, ipAddress, deviceId, geoLocation }
-      );
+        eventType: SecurityEventType.WALLET_CREATION,
+        ipAddress,
+        deviceId,
+        location: geoLocation,
+        operation: 'create_military_wallet',
+        data: { securityLevel },
+      });
       
       if (!operationAllowed.allowed) {
         logger.error(`Operation not allowed: ${operationAllowed.reason}`);
@@ -199,7 +205,14 @@ export class MilitaryGradeSecurityService {
       const securityConfig = await this.getWalletSecurityConfig(walletAddress);
       
       // Record successful operation
-      intrusionDetectionService.recordSuccessfulAuthentication(userId, ipAddress, deviceId, geoLocation);
+      await intrusionDetection.recordEvent({
+        userId,
+        eventType: SecurityEventType.SUCCESSFUL_AUTH,
+        ipAddress,
+        deviceId,
+        location: geoLocation,
+        operation: 'create_military_wallet',
+      });
       
       logger.info(`Military-grade wallet created successfully: ${walletAddress}`);
       return { address: walletAddress, securityConfig };
@@ -207,7 +220,14 @@ export class MilitaryGradeSecurityService {
       logger.error('Failed to create military-grade wallet:', error);
       
       // Record failed operation
-      intrusionDetectionService.recordFailedAuthentication(userId, ipAddress, deviceId, geoLocation);
+      await intrusionDetection.recordEvent({
+        userId,
+        eventType: SecurityEventType.FAILED_AUTH,
+        ipAddress,
+        deviceId,
+        location: geoLocation,
+        operation: 'create_military_wallet',
+      });
       
       throw error;
     }
@@ -240,12 +260,17 @@ export class MilitaryGradeSecurityService {
     try {
       logger.info(`Verifying security operation ${operationType} for wallet ${walletAddress}`);
       
-      // Check if operation is allowed by intrusion detection
-      const operationAllowed = intrusionDetectionService.isOperationAllowed(
+      // Check if operation is allowed by intrusion detection; MFA satisfies a step-up
+      const operationAllowed = await intrusionDetection.recordEvent({
         userId,
-        operationType,
-        { walletAddress, ipAddress, deviceId, geoLocation }
-      );
+        eventType: eventTypeForOperation(operationType),
+        ipAddress,
+        deviceId,
+        location: geoLocation,
+        operation: operationType,
+        mfaVerified,
+        data: { walletAddress },
+      });
       
       if (!operationAllowed.allowed) {
         logger.error(`Operation not allowed: ${operationAllowed.reason}`);
@@ -273,7 +298,14 @@ export class MilitaryGradeSecurityService {
       
       if (isAllowed) {
         // Record successful operation
-        intrusionDetectionService.recordSuccessfulAuthentication(userId, ipAddress, deviceId, geoLocation);
+        await intrusionDetection.recordEvent({
+          userId,
+          eventType: SecurityEventType.SUCCESSFUL_AUTH,
+          ipAddress,
+          deviceId,
+          location: geoLocation,
+          operation: operationType,
+        });
         
         // Record security audit
         await this.recordSecurityAudit(
@@ -283,14 +315,21 @@ export class MilitaryGradeSecurityService {
           ipAddress,
           deviceId,
           true,
-          operationAllowed.anomalyScore,
+          Math.round(operationAllowed.riskScore * 10000),
           JSON.stringify({ mfaVerified, biometricVerified, hardwareKeyVerified })
         );
         
         logger.info(`Security operation ${operationType} verified successfully for wallet ${walletAddress}`);
       } else {
         // Record failed operation
-        intrusionDetectionService.recordFailedAuthentication(userId, ipAddress, deviceId, geoLocation);
+        await intrusionDetection.recordEvent({
+          userId,
+          eventType: SecurityEventType.FAILED_AUTH,
+          ipAddress,
+          deviceId,
+          location: geoLocation,
+          operation: operationType,
+        });
         
         // Record security audit
         await this.recordSecurityAudit(
@@ -300,7 +339,7 @@ export class MilitaryGradeSecurityService {
           ipAddress,
           deviceId,
           false,
-          operationAllowed.anomalyScore,
+          Math.round(operationAllowed.riskScore * 10000),
           JSON.stringify({ mfaVerified, biometricVerified, hardwareKeyVerified })
         );
         
@@ -312,7 +351,14 @@ export class MilitaryGradeSecurityService {
       logger.error(`Failed to verify security operation ${operationType}:`, error);
       
       // Record failed operation
-      intrusionDetectionService.recordFailedAuthentication(userId, ipAddress, deviceId, geoLocation);
+      await intrusionDetection.recordEvent({
+        userId,
+        eventType: SecurityEventType.FAILED_AUTH,
+        ipAddress,
+        deviceId,
+        location: geoLocation,
+        operation: operationType,
+      });
       
       throw error;
     }
@@ -424,11 +470,13 @@ export class MilitaryGradeSecurityService {
   }
   
   /**
-   * Set emergency lockdown status for a wallet
+   * Set emergency lockdown status for a wallet. A lockdown opens a critical
+   * security incident for the wallet; its release is noted on the incident.
    * @param walletAddress The wallet address
    * @param enabled Whether to enable or disable emergency lockdown
+   * @param performedBy Who set the lockdown
    */
-  public async setEmergencyLockdown(walletAddress: string, enabled: boolean): Promise<void> {
+  public async setEmergencyLockdown(walletAddress: string, enabled: boolean, performedBy: string = 'system'): Promise<void> {
     try {
       logger.info(`Setting emergency lockdown for wallet ${walletAddress}: ${enabled}`);
       
@@ -439,12 +487,50 @@ export class MilitaryGradeSecurityService {
       await tx.wait();
       
       logger.info(`Emergency lockdown set successfully for wallet ${walletAddress}: ${enabled}`);
+
+      // The lockdown is in force even if the incident cannot be recorded
+      await this.recordLockdownIncident(walletAddress, enabled, performedBy, tx.hash).catch(incidentError => {
+        logger.error(`Failed to record the emergency lockdown of wallet ${walletAddress} as an incident:`, incidentError);
+      });
     } catch (error) {
       logger.error('Failed to set emergency lockdown:', error);
       throw error;
     }
   }
   
+  /**
+   * Open a critical incident for an emergency lockdown, or note its release on the wallet's active incidents
+   * @param walletAddress The wallet address
+   * @param enabled Whether the lockdown was enabled
+   * @param performedBy Who set the lockdown
+   * @param txHash Transaction that set the lockdown
+   */
+  private async recordLockdownIncident(
+    walletAddress: string,
+    enabled: boolean,
+    performedBy: string,
+    txHash: string
+  ): Promise<void> {
+    const userId = walletAddress.toLowerCase();
+    if (enabled) {
+      await securityIncidents.recordDetection({
+        tenantId: DEFAULT_TENANT,
+        userId,
+        source: 'emergency_lockdown',
+        severity: IncidentSeverity.CRITICAL,
+        title: `Emergency lockdown of wallet ${walletAddress}`,
+        note: `Emergency lockdown initiated by ${performedBy} in transaction ${txHash}`,
+      });
+    } else {
+      await securityIncidents.noteActiveIncidents(
+        DEFAULT_TENANT,
+        userId,
+        performedBy,
+        `Emergency lockdown released in transaction ${txHash}`
+      );
+    }
+  }
+  
   /**
    * Update the military-grade security configuration for a wallet
    * @param walletAddress The wallet address
@@ -498,30 +584,29 @@ export class MilitaryGradeSecurityService {
   /**
    * Register TEE attestation for a wallet
    * @param walletAddress The wallet address
-   * @param attestationData Attestation data from the TEE
+   * @param evidence Attestation evidence from the TEE, bound to a challenge from teeService
+   * @throws AttestationError if the evidence is rejected
    */
   public async registerTEEAttestation(
     walletAddress: string,
-    attestationData: string
+    evidence: AttestationEvidence
   ): Promise<void> {
     try {
       logger.info(`Registering TEE attestation for wallet ${walletAddress}`);
       
-      // Generate attestation hash
-      const attestationHash = ethers.utils.keccak256(ethers.utils.toUtf8Bytes(attestationData));
+      // Verify the evidence; only verified attestations are registered
+      const attestation = await teeService.attest(evidence, walletAddress);
+      const attestationHash = `0x${attestation.evidenceHash}`;
       
       // Sign the attestation hash with the TEE
       const signature = await teeService.signMessage(walletAddress, attestationHash);
       
-      // Verify the attestation
-      const verified = await teeService.verifyAttestation(walletAddress, attestationHash, signature);
-      
       // Call the contract to register the attestation
       const tx = await this.contract.registerTEEAttestation(
         walletAddress,
         attestationHash,
         signature,
-        verified
+        true
       );
       
       // Wait for transaction to be mined
@@ -4,6 +4,8 @@ import { getDatabase } from '../../config/database';
 // Remove assertStoreExists import
 import { WalletInfo } from '../../types';
 import { createAuditLog } from '../../audit';
+import { addressReputation } from '../security/reputation';
+import { DEFAULT_TENANT } from '../security/militaryGradeEncryption';
 
 // Multi-signature wallet configuration
 export interface MultisigConfig {
@@ -265,7 +267,23 @@ export const approveTransaction = async (
     
     // Update transaction status if threshold is reached
     const updatedTx = { ...transaction };
-    if (updatedTx.approvals.length >= wallet.threshold) {
+    const thresholdReached = updatedTx.approvals.length >= wallet.threshold;
+    
+    // Hold back transactions to destinations the address reputation policy blocks
+    const reputation = thresholdReached
+      ? await addressReputation.evaluate({
+          chainId: transaction.chainId,
+          from: wallet.address,
+          to: transaction.to,
+          data: transaction.data,
+          tenantId: DEFAULT_TENANT
+        })
+      : undefined;
+    if (reputation) {
+      updatedTx.metadata = { ...updatedTx.metadata, reputation };
+    }
+    
+    if (thresholdReached && reputation?.action !== 'block') {
       updatedTx.status = MultisigTxStatus.EXECUTED;
       updatedTx.executedAt = Date.now();
       updatedTx.executedBy = approverAddress.toLowerCase();
@@ -289,6 +307,9 @@ export const approveTransaction = async (
     } else {
       // If not executed but approved, update status to approved
       updatedTx.status = MultisigTxStatus.APPROVED;
+      if (reputation?.action === 'block') {
+        logger.warn(`Multisig transaction ${txId} reached its threshold but its destination is blocked: ${reputation.warnings.join('; ')}`);
+      }
     }
     
     // Update transaction in database
@@ -453,6 +474,18 @@ export const executeTransaction = async (
       throw new Error(`Executor is not an owner of the wallet: ${executorAddress}`);
     }
     
+    // Refuse destinations the address reputation policy blocks
+    await addressReputation.enforce(
+      {
+        chainId: transaction.chainId,
+        from: wallet.address,
+        to: transaction.to,
+        data: transaction.data,
+        tenantId: DEFAULT_TENANT
+      },
+      executorAddress.toLowerCase()
+    );
+    
     // Execute transaction on-chain (this would be implemented based on your blockchain integration)
     // For now, we just simulate a transaction hash
     const txHash = `0x${Date.now().toString(16)}${Math.random().toString(16).substring(2)}`;
@@ -23,6 +23,7 @@ export enum Permission {
   // Transaction permissions
   VIEW_TRANSACTION = 'view_transaction',
   CREATE_TRANSACTION = 'create_transaction',
+  SIGN_TRANSACTION = 'sign_transaction',
   APPROVE_TRANSACTION = 'approve_transaction',
   REJECT_TRANSACTION = 'reject_transaction',
   EXECUTE_TRANSACTION = 'execute_transaction',
@@ -56,6 +57,7 @@ const rolePermissions: Record<UserRole, Permission[]> = {
     Permission.CREATE_WALLET,
     Permission.VIEW_TRANSACTION,
     Permission.CREATE_TRANSACTION,
+    Permission.SIGN_TRANSACTION,
     Permission.VIEW_USER
   ],
   [UserRole.APPROVER]: [
@@ -63,6 +65,7 @@ const rolePermissions: Record<UserRole, Permission[]> = {
     Permission.CREATE_WALLET,
     Permission.VIEW_TRANSACTION,
     Permission.CREATE_TRANSACTION,
+    Permission.SIGN_TRANSACTION,
     Permission.APPROVE_TRANSACTION,
     Permission.REJECT_TRANSACTION,
     Permission.VIEW_USER,
@@ -75,6 +78,7 @@ const rolePermissions: Record<UserRole, Permission[]> = {
     Permission.DELETE_WALLET,
     Permission.VIEW_TRANSACTION,
     Permission.CREATE_TRANSACTION,
+    Permission.SIGN_TRANSACTION,
     Permission.APPROVE_TRANSACTION,
     Permission.REJECT_TRANSACTION,
     Permission.EXECUTE_TRANSACTION,
@@ -93,6 +97,7 @@ const rolePermissions: Record<UserRole, Permission[]> = {
     Permission.DELETE_WALLET,
     Permission.VIEW_TRANSACTION,
     Permission.CREATE_TRANSACTION,
+    Permission.SIGN_TRANSACTION,
     Permission.APPROVE_TRANSACTION,
     Permission.REJECT_TRANSACTION,
     Permission.EXECUTE_TRANSACTION,
@@ -1,7 +1,7 @@
 import { logger } from '../../utils/logger';
 import { getDatabase } from '../../config/database';
-import { SUPPORTED_NETWORKS } from '../../config/networks';
-import { RelayerService } from '../relayer';
+import chainRegistry from '../chain-registry';
+import relayerService from '../relayer';
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
 import crypto from 'crypto';
 import { ethers } from 'ethers';
@@ -288,14 +288,8 @@ const executeRecovery = async (requestId: string): Promise<void> => {
       throw new Error('Recovery configuration not found');
     }
 
-    // Initialize relayer service with network configuration
-    const relayer = new RelayerService({
-      networkId: config.networkId || 1, // Default to mainnet if not specified
-      provider: getProvider(config.networkId || 1)
-    });
-    
     // Execute recovery transaction
-    const tx = await relayer.executeRecovery({
+    const tx = await relayerService.executeRecovery({
       walletAddress: request.walletAddress,
       newOwner: request.newOwner,
       guardianSignatures: request.guardianApprovals,
@@ -947,24 +941,20 @@ export const executeRecoveryOperation = async (
       throw new Error('Invalid wallet address');
     }
     
-    // Get provider with retry mechanism
-    const provider = await getProviderWithRetry(config.chainId);
-    const relayerService = new RelayerService(provider);
+    // Check the chain is reachable, with retry mechanism
+    await getProviderWithRetry(config.chainId);
     
     // Verify transaction data
     if (!recoveryData.startsWith('0x')) {
       throw new Error('Invalid recovery data format');
     }
     
-    // Execute recovery transaction with gas estimation
-    const tx = await relayerService.sendTransaction({
+    // Execute recovery transaction from a relayer account; gas is estimated on submission
+    const tx = await relayerService.sendRelayerTransaction({
+      chainId: config.chainId,
       to: walletAddress,
       data: recoveryData,
-      chainId: config.chainId,
-      gasLimit: await relayerService.estimateGas({
-        to: walletAddress,
-        data: recoveryData
-      })
+      label: 'recovery',
     });
 
     logger.info(`Recovery operation executed successfully for wallet ${walletAddress}`);
@@ -980,12 +970,11 @@ async function getProviderWithRetry(chainId: number): Promise<ethers.providers.P
   let retries = 0;
   while (retries < MAX_RETRIES) {
     try {
-      const network = SUPPORTED_NETWORKS[chainId.toString()];
-      if (!network?.rpcUrl) {
+      if (!chainRegistry.isSupported(chainId)) {
         throw new Error(`Unsupported chain ID: ${chainId}`);
       }
       
-      const provider = new ethers.providers.JsonRpcProvider(network.rpcUrl);
+      const provider = chainRegistry.getProvider(chainId);
       await provider.getNetwork(); // Test the connection
       return provider;
     } catch (error) {
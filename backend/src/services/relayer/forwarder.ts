@@ -0,0 +1,426 @@
+import { ethers } from 'ethers';
+import { logger } from '../../utils/logger';
+import { createAuditLog } from '../../audit';
+import { getDatabase, RyzerWalletDB } from '../../config/database';
+import chainRegistry, { ChainRegistry } from '../chain-registry';
+import { IN_FLIGHT_STATUSES, RelayerTransactionStatus } from './nonceManager';
+import { relayerTransactions, TransactionTracker } from './transactionTracker';
+import { relayerKeyPool, RelayerKeyPool } from './keyPool';
+
+export type MetaTransaction = RyzerWalletDB['meta_transactions']['value'];
+
+// ERC-2771 forward request, signed by `from` as EIP-712 typed data
+export interface ForwardRequest {
+  from: string;
+  to: string;
+  value: string; // Wei
+  gas: string; // Gas forwarded to the target
+  nonce: number;
+  deadline: number; // Unix seconds
+  data: string;
+}
+
+// Trusted forwarder options
+export interface TrustedForwarderOptions {
+  maxGas: number; // Largest gas a request may forward
+  minDeadlineSeconds: number; // Requests must stay valid at least this long after they are received
+}
+
+// EIP-712 types of a forward request, as the OpenZeppelin ERC2771Forwarder hashes them
+export const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'gas', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint48' },
+    { name: 'data', type: 'bytes' },
+  ],
+};
+
+// EIP-712 domain version of the forwarder
+const FORWARDER_VERSION = '1';
+
+const FORWARDER_ABI = [
+  'function nonces(address owner) view returns (uint256)',
+  'function execute((address from, address to, uint256 value, uint256 gas, uint48 deadline, bytes data, bytes signature) request) payable',
+];
+
+// ERC-1271 magic value returned by isValidSignature(bytes32,bytes)
+const ERC1271_MAGIC_VALUE = '0x1626ba7e';
+
+const ERC1271_ABI = ['function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)'];
+
+// Fields of a forward request; no others are accepted
+const REQUEST_FIELDS = ['from', 'to', 'value', 'gas', 'nonce', 'deadline', 'data'];
+
+// Largest uint48, the deadline type
+const MAX_DEADLINE = 2 ** 48 - 1;
+
+// Gas the forwarder spends around the call it forwards: signature recovery, nonce and calldata
+const FORWARDER_OVERHEAD_GAS = 100000;
+
+// Largest value in index ranges
+const MAX_INDEX_VALUE = Number.MAX_SAFE_INTEGER;
+
+// Relayer transaction statuses that still hold the request's nonce
+const NONCE_HOLDING_STATUSES: RelayerTransactionStatus[] = [...IN_FLIGHT_STATUSES, 'confirmed'];
+
+const forwarderInterface = new ethers.utils.Interface(FORWARDER_ABI);
+
+/**
+ * Error raised when a forward request is rejected
+ */
+export class MetaTransactionError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'MetaTransactionError';
+  }
+}
+
+/**
+ * Parse a non-negative integer sent as a decimal string or a safe integer
+ * @param value Raw value
+ * @param field Field name used in errors
+ */
+const parseUint = (value: unknown, field: string): string => {
+  if (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0) {
+    return String(value);
+  }
+  if (typeof value === 'string' && /^(0|[1-9]\d{0,77})$/.test(value)) {
+    return value;
+  }
+  throw new MetaTransactionError(`Invalid forward request ${field}: expected a non-negative integer`);
+};
+
+/**
+ * Parse a forward request received from a client. Every field is required
+ * and unknown fields are rejected.
+ * @param raw Request body
+ * @returns Forward request with checksummed addresses and lowercase data
+ * @throws MetaTransactionError if the request is malformed
+ */
+export const parseForwardRequest = (raw: unknown): ForwardRequest => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new MetaTransactionError('Forward request must be an object');
+  }
+  const request = raw as Record<string, unknown>;
+  const unknown = Object.keys(request).filter(field => !REQUEST_FIELDS.includes(field));
+  if (unknown.length > 0) {
+    throw new MetaTransactionError(`Unknown forward request fields: ${unknown.join(', ')}`);
+  }
+  const missing = REQUEST_FIELDS.filter(field => request[field] === undefined || request[field] === null);
+  if (missing.length > 0) {
+    throw new MetaTransactionError(`Missing forward request fields: ${missing.join(', ')}`);
+  }
+
+  for (const field of ['from', 'to']) {
+    if (typeof request[field] !== 'string' || !ethers.utils.isAddress(request[field] as string)) {
+      throw new MetaTransactionError(`Invalid forward request ${field}: expected an address`);
+    }
+  }
+  if (typeof request.data !== 'string' || !ethers.utils.isHexString(request.data) || request.data.length % 2 !== 0) {
+    throw new MetaTransactionError('Invalid forward request data: expected hex bytes');
+  }
+
+  const nonce = Number(parseUint(request.nonce, 'nonce'));
+  if (!Number.isSafeInteger(nonce)) {
+    throw new MetaTransactionError('Invalid forward request nonce: too large');
+  }
+  const deadline = Number(parseUint(request.deadline, 'deadline'));
+  if (deadline > MAX_DEADLINE) {
+    throw new MetaTransactionError('Invalid forward request deadline: exceeds uint48');
+  }
+
+  return {
+    from: ethers.utils.getAddress(request.from as string),
+    to: ethers.utils.getAddress(request.to as string),
+    value: parseUint(request.value, 'value'),
+    gas: parseUint(request.gas, 'gas'),
+    nonce,
+    deadline,
+    data: (request.data as string).toLowerCase(),
+  };
+};
+
+/**
+ * Parse the signature of a forward request
+ * @param signature Raw signature
+ * @throws MetaTransactionError if it is not hex bytes
+ */
+export const parseForwardSignature = (signature: unknown): string => {
+  if (typeof signature !== 'string' || !ethers.utils.isHexString(signature) || signature.length % 2 !== 0) {
+    throw new MetaTransactionError('Invalid signature: expected hex bytes');
+  }
+  if (signature === '0x') {
+    throw new MetaTransactionError('Invalid signature: empty');
+  }
+  return signature.toLowerCase();
+};
+
+/**
+ * Relays EIP-712 forward requests through the ERC-2771 forwarder of a chain.
+ *
+ * A request is accepted once: the forwarder's on-chain nonce of the signer
+ * and the requests already relayed give the only nonce accepted next, and a
+ * request whose nonce is taken by a relayed request still pending or mined is
+ * a replay. The signature is verified against the signer, through ERC-1271
+ * when the signer is a contract, and the forwarder must accept the request in
+ * a gas estimate before a relayer account sends it, unless the request waits
+ * on earlier ones still pending. The relayer does not front ether, so
+ * requests carry no value.
+ */
+export class TrustedForwarder {
+  private static instance: TrustedForwarder;
+
+  constructor(
+    private readonly options: TrustedForwarderOptions,
+    private readonly tracker: TransactionTracker = relayerTransactions,
+    private readonly pool: RelayerKeyPool = relayerKeyPool,
+    private readonly chains: ChainRegistry = chainRegistry
+  ) {}
+
+  public static getInstance(): TrustedForwarder {
+    if (!TrustedForwarder.instance) {
+      TrustedForwarder.instance = new TrustedForwarder(forwarderOptionsFromEnv());
+    }
+    return TrustedForwarder.instance;
+  }
+
+  /**
+   * Get the EIP-712 domain of a chain's forwarder
+   * @param chainId Chain ID
+   * @throws MetaTransactionError if the chain has no trusted forwarder
+   */
+  public getDomain(chainId: number): ethers.TypedDataDomain {
+    if (!this.chains.isSupported(chainId)) {
+      throw new MetaTransactionError(`Unsupported network: ${chainId}`);
+    }
+    const forwarder = this.chains.getTrustedForwarder(chainId);
+    if (!forwarder) {
+      throw new MetaTransactionError(`No trusted forwarder configured on chain ${chainId}`);
+    }
+    return { name: forwarder.name, version: FORWARDER_VERSION, chainId, verifyingContract: forwarder.address };
+  }
+
+  /**
+   * Get the nonce the next forward request of a signer must use
+   * @param chainId Chain ID
+   * @param from Signer address
+   */
+  public async getNonce(chainId: number, from: string): Promise<number> {
+    const domain = this.getDomain(chainId);
+    return (await this.getNonces(chainId, domain.verifyingContract as string, from)).next;
+  }
+
+  /**
+   * Encode the forwarder call executing a signed request
+   * @param request Forward request
+   * @param signature Signature over the request
+   */
+  public encodeExecute(request: ForwardRequest, signature: string): string {
+    return forwarderInterface.encodeFunctionData('execute', [this.toRequestData(request, signature)]);
+  }
+
+  /**
+   * Verify the signature of a forward request. Externally owned accounts are
+   * checked by recovering the signer; contract accounts through ERC-1271.
+   * @param chainId Chain ID
+   * @param request Forward request
+   * @param signature Signature over the request
+   * @returns True if the signature is valid
+   */
+  public async verifySignature(chainId: number, request: ForwardRequest, signature: string): Promise<boolean> {
+    const domain = this.getDomain(chainId);
+    try {
+      if (ethers.utils.verifyTypedData(domain, FORWARD_REQUEST_TYPES, request, signature) === request.from) {
+        return true;
+      }
+    } catch {
+      // Not an ECDSA signature; contract wallets may still accept it
+    }
+
+    try {
+      const provider = this.chains.getProvider(chainId);
+      if ((await provider.getCode(request.from)) === '0x') {
+        return false;
+      }
+      const wallet = new ethers.Contract(request.from, ERC1271_ABI, provider);
+      const digest = ethers.utils._TypedDataEncoder.hash(domain, FORWARD_REQUEST_TYPES, request);
+      const result: string = await wallet.isValidSignature(digest, signature);
+      return result.toLowerCase() === ERC1271_MAGIC_VALUE;
+    } catch (error) {
+      logger.warn(`ERC-1271 verification failed for ${request.from} on chain ${chainId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Relay a signed forward request
+   * @param chainId Chain ID
+   * @param request Forward request
+   * @param signature Signature over the request
+   * @param tenantId Tenant of the request
+   * @returns Stored meta-transaction and the relayer transaction carrying it
+   * @throws MetaTransactionError if the request is expired, replayed, out of order, badly signed or rejected by the forwarder
+   */
+  public async relay(
+    chainId: number,
+    request: ForwardRequest,
+    signature: string,
+    tenantId?: string
+  ): Promise<{ metaTransaction: MetaTransaction; hash: string }> {
+    const domain = this.getDomain(chainId);
+    const forwarder = domain.verifyingContract as string;
+
+    if (request.deadline < Math.floor(Date.now() / 1000) + this.options.minDeadlineSeconds) {
+      throw new MetaTransactionError('Forward request is expired or expires too soon');
+    }
+    if (ethers.BigNumber.from(request.gas).gt(this.options.maxGas)) {
+      throw new MetaTransactionError(`Forward request gas exceeds ${this.options.maxGas}`);
+    }
+    if (!ethers.BigNumber.from(request.value).isZero()) {
+      throw new MetaTransactionError('Forward requests relayed here must not carry value');
+    }
+
+    const db = await getDatabase();
+    const from = request.from.toLowerCase();
+    return db.withExclusiveLock(`meta_tx:${chainId}:${from}`, async () => {
+      const nonces = await this.getNonces(chainId, forwarder, from);
+      if (request.nonce < nonces.onChain || nonces.held.has(request.nonce)) {
+        throw new MetaTransactionError(`Forward request nonce ${request.nonce} was already used`, 409);
+      }
+      if (request.nonce !== nonces.next) {
+        throw new MetaTransactionError(`Invalid forward request nonce ${request.nonce}; expected ${nonces.next}`);
+      }
+      if (!(await this.verifySignature(chainId, request, signature))) {
+        throw new MetaTransactionError('Invalid signature: signer does not match the request', 401);
+      }
+
+      // Simulated before an account is chosen, so a bad request is not held against a relayer key.
+      // A request queued behind pending ones only passes once they are mined, so it is not simulated.
+      const data = this.encodeExecute(request, signature);
+      let gasLimit: ethers.BigNumber;
+      if (request.nonce === nonces.onChain) {
+        try {
+          gasLimit = (await this.chains.getProvider(chainId).estimateGas({ to: forwarder, data })).mul(110).div(100);
+        } catch (error) {
+          throw new MetaTransactionError(`Forwarder rejected the request: ${error instanceof Error ? error.message : error}`);
+        }
+      } else {
+        gasLimit = ethers.BigNumber.from(request.gas)
+          .mul(64)
+          .div(63)
+          .add(FORWARDER_OVERHEAD_GAS + 16 * ethers.utils.hexDataLength(data));
+      }
+
+      const transaction = await this.pool.withSigner(chainId, signer =>
+        this.tracker.submit(signer, { chainId, to: forwarder, data, gasLimit, label: 'meta_tx', tenantId })
+      );
+
+      const metaTransaction: MetaTransaction = {
+        id: `${chainId}:${forwarder.toLowerCase()}:${from}:${request.nonce}`,
+        chainId,
+        forwarder: forwarder.toLowerCase(),
+        from,
+        nonce: request.nonce,
+        to: request.to.toLowerCase(),
+        value: request.value,
+        gas: request.gas,
+        deadline: request.deadline,
+        data: request.data,
+        signature,
+        digest: ethers.utils._TypedDataEncoder.hash(domain, FORWARD_REQUEST_TYPES, request),
+        relayerTransactionId: transaction.id,
+        tenantId,
+        createdAt: Date.now(),
+      };
+      await db.put('meta_transactions', metaTransaction);
+
+      await createAuditLog({
+        action: 'meta_transaction_relayed',
+        performedBy: from,
+        targetId: transaction.hash,
+        targetType: 'transaction',
+        walletAddress: from,
+        tenantId,
+        metadata: { chainId, forwarder, to: request.to, nonce: request.nonce, relayerTransactionId: transaction.id },
+      });
+
+      logger.info(`Relayed forward request ${request.nonce} of ${from} on chain ${chainId}`, { hash: transaction.hash });
+      return { metaTransaction, hash: transaction.hash };
+    });
+  }
+
+  /**
+   * Get the forwarder nonce of a signer and the nonces its relayed requests hold
+   * @param chainId Chain ID
+   * @param forwarder Forwarder address
+   * @param from Signer address
+   */
+  private async getNonces(
+    chainId: number,
+    forwarder: string,
+    from: string
+  ): Promise<{ onChain: number; held: Set<number>; next: number }> {
+    const contract = new ethers.Contract(forwarder, FORWARDER_ABI, this.chains.getProvider(chainId));
+    const onChain = (await contract.nonces(from)).toNumber();
+
+    const db = await getDatabase();
+    const signer = from.toLowerCase();
+    const records = await db.getAllFromIndex('meta_transactions', 'by-signer', {
+      lower: [chainId, forwarder.toLowerCase(), signer, onChain],
+      upper: [chainId, forwarder.toLowerCase(), signer, MAX_INDEX_VALUE],
+    });
+
+    // A request whose relayer transaction failed or was dropped leaves its nonce unused
+    const held = new Set<number>();
+    for (const record of records) {
+      const transaction = await this.tracker.get(record.relayerTransactionId);
+      if (transaction && NONCE_HOLDING_STATUSES.includes(transaction.status)) {
+        held.add(record.nonce);
+      }
+    }
+
+    let next = onChain;
+    while (held.has(next)) {
+      next++;
+    }
+    return { onChain, held, next };
+  }
+
+  /**
+   * Build the ForwardRequestData tuple the forwarder executes
+   * @param request Forward request
+   * @param signature Signature over the request
+   */
+  private toRequestData(request: ForwardRequest, signature: string) {
+    return {
+      from: request.from,
+      to: request.to,
+      value: request.value,
+      gas: request.gas,
+      deadline: request.deadline,
+      data: request.data,
+      signature,
+    };
+  }
+}
+
+/**
+ * Read trusted forwarder options from the environment
+ */
+export const forwarderOptionsFromEnv = (): TrustedForwarderOptions => {
+  const number = (name: string, fallback: number) => {
+    const value = parseInt(process.env[name] || '', 10);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+
+  return {
+    maxGas: number('META_TX_MAX_GAS', 3000000),
+    minDeadlineSeconds: number('META_TX_MIN_DEADLINE_SECONDS', 60),
+  };
+};
+
+export const trustedForwarder = TrustedForwarder.getInstance();
@@ -3,16 +3,26 @@ import { logger } from '../../utils/logger';
 import { createAuditLog } from '../../audit';
 import { RetryUtility } from '../../utils/retry';
 import { Pool } from 'pg';
-import { createPublicClient, http, parseEther } from 'viem';
+import { createPublicClient, custom, fallback, http, parseEther } from 'viem';
 import { createSmartAccountClient } from 'permissionless';
-// Define ENTRYPOINT_ADDRESS directly
-const ENTRYPOINT_ADDRESS = '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789';
-import { privateKeyToAccount } from 'viem/accounts';
-import { generatePrivateKey } from 'viem/accounts';
 import { toSafeSmartAccount } from 'permissionless/accounts';
 import { erc20Abi } from 'viem';
 import { v4 as uuidv4 } from 'uuid';
-import { createHSMProvider, HSMProvider, HSMProviderType, HSMKeyType } from '../hsm';
+import { createHSMProvider, hsmConfigFromEnv, HSMConfig, HSMProvider, HSMKeyType } from '../hsm';
+import { HSMSigner } from '../hsm/signer';
+import chainRegistry, { ChainConfig } from '../chain-registry';
+import { bundler, parseUserOperationFor } from '../bundler';
+import { relayerTransactions, RelayerTransaction, RelayerTransactionRequest } from './transactionTracker';
+import { relayerKeyPool } from './keyPool';
+import { gasOracle, GasFeeEstimate, GasRecommendation } from '../gas-oracle';
+import { FORWARD_REQUEST_TYPES, ForwardRequest, MetaTransactionError, trustedForwarder } from './forwarder';
+
+/**
+ * Create a viem transport that falls back across the RPC endpoints of a chain
+ * @param chain Chain configuration
+ * @returns viem transport
+ */
+const rpcTransport = (chain: ChainConfig) => fallback(chain.rpcUrls.map(url => http(url)));
 
 // Helper function to get error message
 const getErrorMessage = (error: unknown): string => {
@@ -52,39 +62,8 @@ export interface TokenBalance {
   decimals: number;
 }
 
-// Network configuration
-export type NetworkConfig = {
-  name: string;
-  rpcUrl: string;
-  pimlicoApiKey: string;
-  chainId: number;
-  tokens: Record<string, { symbol: string; decimals: number }>;
-};
-
-export const SUPPORTED_NETWORKS: Record<string, NetworkConfig> = {
-  1: {
-    name: 'Ethereum Mainnet',
-    rpcUrl: process.env.ETH_MAINNET_RPC_URL || 'https://eth.llamarpc.com',
-    pimlicoApiKey: process.env.PIMLICO_API_KEY || '',
-    chainId: 1,
-    tokens: {
-      '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48': { symbol: 'USDC', decimals: 6 },
-      '0xdac17f958d2ee523a2206206994597c13d831ec7': { symbol: 'USDT', decimals: 6 },
-    },
-  },
-  11155111: {
-    name: 'Sepolia Testnet',
-    rpcUrl: process.env.SEPOLIA_RPC_URL || 'https://rpc.sepolia.org',
-    pimlicoApiKey: process.env.PIMLICO_API_KEY || '',
-    chainId: 11155111,
-    tokens: {
-      '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238': { symbol: 'USDC', decimals: 6 },
-    },
-  },
-};
-
 // Store providers, clients, and smart accounts
-const providers: Record<number, ethers.providers.JsonRpcProvider> = {};
+const providers: Record<number, ethers.providers.BaseProvider> = {};
 const pimlicoClients: Record<number, any> = {};
 const smartAccountClients: Record<string, any> = {};
 let dbPool: Pool | null = null;
@@ -106,11 +85,7 @@ export class RelayerService {
       user: string;
       password: string;
     };
-    hsmConfig: {
-      provider: HSMProviderType;
-      credentials: { pin: string; libraryPath: string; slotId?: number };
-      options?: { fipsCompliance?: boolean; maxRetries?: number; timeoutMs?: number };
-    };
+    hsmConfig: HSMConfig;
     tenantId?: string;
   }) {
     this.retryUtility = new RetryUtility({ maxRetries: 3, baseDelayMs: 100, maxDelayMs: 1000 });
@@ -162,23 +137,12 @@ export class RelayerService {
       });
 
       // Initialize providers for each supported network
-      for (const [chainIdStr, networkConfig] of Object.entries(SUPPORTED_NETWORKS)) {
-        const chainId = parseInt(chainIdStr);
-        const provider = new ethers.providers.JsonRpcProvider(networkConfig.rpcUrl);
-        providers[chainId] = provider;
-        if (networkConfig.pimlicoApiKey) {
-          pimlicoClients[chainId] = {
-            sendUserOperation: async (op: any) => ({
-              hash: `0x${Buffer.from(uuidv4()).toString('hex').slice(0, 64)}`,
-            }),
-            getUserOperationGasPrice: async () => ({
-              fast: { maxFeePerGas: parseEther('0.0001'), maxPriorityFeePerGas: parseEther('0.00005') },
-            }),
-            waitForUserOperationReceipt: async () => ({ success: true }),
-          };
-          logger.info(`Initialized Pimlico client for chain ID ${chainId}`);
-        }
-      }
+      this.syncNetworks();
+      chainRegistry.on('updated', () => this.syncNetworks());
+
+      // Load the relayer accounts, then resume watching transactions sent before a restart
+      await relayerKeyPool.start();
+      relayerTransactions.start();
 
       await createAuditLog({
         action: 'relayer_initialized',
@@ -195,6 +159,54 @@ export class RelayerService {
     }
   }
 
+  /**
+   * Creates providers and bundler clients for the chains in the registry
+   * and drops those of chains that were removed. Chains with a local bundler
+   * get no Pimlico client.
+   */
+  private syncNetworks(): void {
+    for (const chainId of Object.keys(providers).map(Number)) {
+      if (!chainRegistry.isSupported(chainId)) {
+        delete providers[chainId];
+        delete pimlicoClients[chainId];
+      }
+    }
+
+    for (const chain of chainRegistry.getChains()) {
+      const chainId = chain.chainId;
+      providers[chainId] = chainRegistry.getProvider(chainId);
+      if (chain.bundlerUrl && !chain.localBundler) {
+        if (!pimlicoClients[chainId]) {
+          pimlicoClients[chainId] = {
+            sendUserOperation: async (op: any) => ({
+              hash: `0x${Buffer.from(uuidv4()).toString('hex').slice(0, 64)}`,
+            }),
+            getUserOperationGasPrice: async () => ({
+              fast: { maxFeePerGas: parseEther('0.0001'), maxPriorityFeePerGas: parseEther('0.00005') },
+            }),
+            waitForUserOperationReceipt: async () => ({ success: true }),
+          };
+          logger.info(`Initialized Pimlico client for chain ID ${chainId}`);
+        }
+      } else {
+        delete pimlicoClients[chainId];
+      }
+    }
+  }
+
+  /**
+   * Gets a signer for an HSM key of this relayer
+   * @param hsmKeyId HSM key ID
+   * @param chainId Chain whose provider the signer sends transactions with
+   * @returns Signer whose key stays in the HSM
+   */
+  public getSigner(hsmKeyId: string, chainId?: number): HSMSigner {
+    if (!hsmProvider) {
+      throw new Error('HSM provider not initialized');
+    }
+    return new HSMSigner(hsmProvider, hsmKeyId, chainId === undefined ? undefined : providers[chainId], this.tenantId);
+  }
+
   /**
    * Creates a smart account wallet
    * @param ownerAddress EOA owner address
@@ -205,18 +217,17 @@ export class RelayerService {
     try {
       logger.info('Creating smart account wallet', { ownerAddress, chainId, tenantId: this.tenantId });
 
-      if (!SUPPORTED_NETWORKS[chainId]) {
-        throw new Error(`Unsupported network: ${chainId}`);
-      }
+      const network = chainRegistry.requireChain(chainId);
       if (!ethers.utils.isAddress(ownerAddress)) {
         throw new Error('Invalid owner address');
       }
-      if (!pimlicoClients[chainId]) {
-        throw new Error(`Pimlico not initialized for network: ${chainId}`);
+      const localBundler = bundler.isEnabled(chainId);
+      if (!localBundler && !pimlicoClients[chainId]) {
+        throw new Error(`No bundler configured for network: ${chainId}`);
       }
 
       const publicClient = createPublicClient({
-        transport: http(SUPPORTED_NETWORKS[chainId].rpcUrl),
+        transport: rpcTransport(network),
       });
 
       // Generate HSM-backed key for owner
@@ -227,36 +238,52 @@ export class RelayerService {
         this.tenantId
       );
 
+      const owner = await this.getSigner(hsmKeyInfo.id).toViemAccount();
+
       const account = await toSafeSmartAccount({
         client: publicClient,
-        owners: [privateKeyToAccount(generatePrivateKey())], // Placeholder; HSM integration below
-        entryPoint: ENTRYPOINT_ADDRESS,
+        owners: [owner],
+        entryPoint: chainRegistry.getEntryPoint(chainId),
         version: '1.4.1',
       });
 
       const chain: any = {
         id: chainId,
-        name: SUPPORTED_NETWORKS[chainId].name,
-        nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+        name: network.name,
+        nativeCurrency: network.nativeCurrency,
         rpcUrls: {
-          default: { http: [SUPPORTED_NETWORKS[chainId].rpcUrl] },
-          public: { http: [SUPPORTED_NETWORKS[chainId].rpcUrl] },
+          default: { http: network.rpcUrls },
+          public: { http: network.rpcUrls },
         },
       };
 
-      const smartAccountClient = createSmartAccountClient({
-        account,
-        chain,
-        bundlerTransport: http(
-          `https://api.pimlico.io/v2/${SUPPORTED_NETWORKS[chainId].name.toLowerCase().replace(' ', '-')}/rpc?apikey=${
-            SUPPORTED_NETWORKS[chainId].pimlicoApiKey
-          }`
-        ),
-        paymaster: pimlicoClients[chainId],
-        userOperation: {
-          estimateFeesPerGas: async () => (await pimlicoClients[chainId].getUserOperationGasPrice()).fast,
-        },
-      });
+      // The local bundler is called in process; the account pays its own gas as there is no paymaster
+      const smartAccountClient = localBundler
+        ? createSmartAccountClient({
+            account,
+            chain,
+            bundlerTransport: custom({
+              request: ({ method, params }) => bundler.handleRequest(chainId, method, params || []),
+            }),
+            userOperation: {
+              estimateFeesPerGas: async () => {
+                const feeData = await providers[chainId].getFeeData();
+                return {
+                  maxFeePerGas: feeData.maxFeePerGas!.toBigInt(),
+                  maxPriorityFeePerGas: feeData.maxPriorityFeePerGas!.toBigInt(),
+                };
+              },
+            },
+          })
+        : createSmartAccountClient({
+            account,
+            chain,
+            bundlerTransport: http(network.bundlerUrl),
+            paymaster: pimlicoClients[chainId],
+            userOperation: {
+              estimateFeesPerGas: async () => (await pimlicoClients[chainId].getUserOperationGasPrice()).fast,
+            },
+          });
 
       smartAccountClients[account.address] = smartAccountClient;
 
@@ -314,6 +341,7 @@ export class RelayerService {
    * @param to Target contract address
    * @param data Transaction data
    * @param value Transaction value (in wei)
+   * @param fees Fee caps of the user operation (in wei); the bundler's estimate if omitted
    * @returns Transaction hash
    */
   public async sendGaslessTransaction(
@@ -321,12 +349,13 @@ export class RelayerService {
     walletAddress: string,
     to: string,
     data: string,
-    value: string = '0'
+    value: string = '0',
+    fees?: Pick<GasFeeEstimate, 'maxFeePerGas' | 'maxPriorityFeePerGas'>
   ): Promise<string> {
     try {
       logger.info('Sending gasless transaction', { walletAddress, to, chainId, tenantId: this.tenantId });
 
-      if (!SUPPORTED_NETWORKS[chainId]) {
+      if (!chainRegistry.isSupported(chainId)) {
         throw new Error(`Unsupported network: ${chainId}`);
       }
       if (!ethers.utils.isAddress(walletAddress) || !ethers.utils.isAddress(to)) {
@@ -341,6 +370,10 @@ export class RelayerService {
           to,
           value: BigInt(value),
           data,
+          ...(fees && {
+            maxFeePerGas: BigInt(fees.maxFeePerGas),
+            maxPriorityFeePerGas: BigInt(fees.maxPriorityFeePerGas),
+          }),
         })
       );
 
@@ -362,7 +395,7 @@ export class RelayerService {
         targetType: 'transaction',
         walletAddress,
         tenantId: this.tenantId,
-        metadata: { chainId, to, value },
+        metadata: { chainId, to, value, ...fees },
       });
 
       logger.info('Gasless transaction sent', { txHash, walletAddress });
@@ -374,40 +407,34 @@ export class RelayerService {
   }
 
   /**
-   * Sends a meta-transaction (placeholder for legacy support)
+   * Relays an EIP-712 forward request through the chain's ERC-2771 forwarder
    * @param chainId Chain ID
-   * @param walletAddress Wallet address
-   * @param to Target contract address
-   * @param data Transaction data
-   * @param value Transaction value (in wei)
-   * @returns Transaction hash
+   * @param request Forward request signed by its sender
+   * @param signature Signature over the request
+   * @returns Hash and relayer transaction ID of the transaction carrying the request
+   * @throws MetaTransactionError if the request is rejected
    */
   public async sendMetaTransaction(
     chainId: number,
-    walletAddress: string,
-    to: string,
-    data: string,
-    value: string = '0'
-  ): Promise<string> {
+    request: ForwardRequest,
+    signature: string
+  ): Promise<{ txHash: string; relayerTransactionId: string }> {
+    const walletAddress = request.from;
     try {
-      logger.info('Sending meta-transaction', { walletAddress, to, chainId, tenantId: this.tenantId });
+      logger.info('Sending meta-transaction', { walletAddress, to: request.to, chainId, tenantId: this.tenantId });
 
-      if (!SUPPORTED_NETWORKS[chainId]) {
-        throw new Error(`Unsupported network: ${chainId}`);
-      }
-      if (!ethers.utils.isAddress(walletAddress) || !ethers.utils.isAddress(to)) {
-        throw new Error('Invalid wallet or target address');
+      if (!chainRegistry.isSupported(chainId)) {
+        throw new MetaTransactionError(`Unsupported network: ${chainId}`);
       }
 
-      // Placeholder: Implement meta-transaction logic (e.g., EIP-712 signatures)
-      const txHash = `0x${Buffer.from(uuidv4()).toString('hex').slice(0, 64)}`;
+      const { metaTransaction, hash: txHash } = await trustedForwarder.relay(chainId, request, signature, this.tenantId);
 
       const client = await dbPool!.connect();
       try {
         await client.query(
           `INSERT INTO transactions (hash, from_address, to_address, value, data, timestamp, status, chain_id, tenant_id)
            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-          [txHash, walletAddress, to, value, data, Date.now(), 'pending', chainId, this.tenantId]
+          [txHash, walletAddress, request.to, request.value, request.data, Date.now(), 'pending', chainId, this.tenantId]
         );
       } finally {
         client.release();
@@ -420,17 +447,38 @@ export class RelayerService {
         targetType: 'transaction',
         walletAddress,
         tenantId: this.tenantId,
-        metadata: { chainId, to, value },
+        metadata: { chainId, to: request.to, value: request.value, nonce: request.nonce, forwarder: metaTransaction.forwarder },
       });
 
       logger.info('Meta-transaction sent', { txHash, walletAddress });
-      return txHash;
+      return { txHash, relayerTransactionId: metaTransaction.relayerTransactionId };
     } catch (error: unknown) {
-      logger.error('Error sending meta-transaction', { walletAddress, to, chainId, error });
+      logger.error('Error sending meta-transaction', { walletAddress, to: request.to, chainId, error });
+      if (error instanceof MetaTransactionError) {
+        throw error;
+      }
       throw new Error(`Meta-transaction failed: ${getErrorMessage(error)}`);
     }
   }
 
+  /**
+   * Gets what a wallet needs to sign its next forward request
+   * @param chainId Chain ID
+   * @param walletAddress Signer address
+   * @returns Nonce to sign, EIP-712 domain of the forwarder and request types
+   * @throws MetaTransactionError if the chain has no trusted forwarder
+   */
+  public async getMetaTransactionNonce(
+    chainId: number,
+    walletAddress: string
+  ): Promise<{ nonce: number; domain: ethers.TypedDataDomain; types: typeof FORWARD_REQUEST_TYPES }> {
+    if (!ethers.utils.isAddress(walletAddress)) {
+      throw new MetaTransactionError('Invalid wallet address');
+    }
+    const nonce = await trustedForwarder.getNonce(chainId, walletAddress);
+    return { nonce, domain: trustedForwarder.getDomain(chainId), types: FORWARD_REQUEST_TYPES };
+  }
+
   /**
    * Gets wallet information
    * @param walletAddress Wallet address
@@ -470,19 +518,20 @@ export class RelayerService {
     try {
       logger.debug('Getting token balances', { walletAddress, chainId, tenantId: this.tenantId });
 
-      if (!SUPPORTED_NETWORKS[chainId]) {
+      if (!chainRegistry.isSupported(chainId)) {
         throw new Error(`Unsupported network: ${chainId}`);
       }
       if (!ethers.utils.isAddress(walletAddress)) {
         throw new Error('Invalid wallet address');
       }
 
+      const network = chainRegistry.requireChain(chainId);
       const publicClient = createPublicClient({
-        transport: http(SUPPORTED_NETWORKS[chainId].rpcUrl),
+        transport: rpcTransport(network),
       });
 
       const balances: TokenBalance[] = [];
-      for (const [tokenAddress, { symbol, decimals }] of Object.entries(SUPPORTED_NETWORKS[chainId].tokens)) {
+      for (const [tokenAddress, { symbol, decimals }] of Object.entries(network.tokens || {})) {
         const balance = await publicClient.readContract({
           address: tokenAddress as `0x${string}`,
           abi: erc20Abi,
@@ -517,7 +566,7 @@ export class RelayerService {
   }
 
   /**
-   * Sends a user operation via Pimlico
+   * Sends a user operation via Pimlico, or the local bundler on chains that have one
    * @param chainId Chain ID
    * @param walletAddress Smart account wallet address
    * @param to Target contract address
@@ -535,14 +584,18 @@ export class RelayerService {
     try {
       logger.info('Sending user operation', { walletAddress, to, chainId, tenantId: this.tenantId });
 
-      if (!SUPPORTED_NETWORKS[chainId]) {
+      if (!chainRegistry.isSupported(chainId)) {
         throw new Error(`Unsupported network: ${chainId}`);
       }
       if (!ethers.utils.isAddress(walletAddress) || !ethers.utils.isAddress(to)) {
         throw new Error('Invalid wallet or target address');
       }
-      if (!pimlicoClients[chainId]) {
-        throw new Error(`Pimlico client not found for network: ${chainId}`);
+      const localBundler = bundler.isEnabled(chainId);
+      if (!localBundler && !pimlicoClients[chainId]) {
+        throw new Error(`No bundler configured for network: ${chainId}`);
+      }
+      if (localBundler && !smartAccountClients[walletAddress]) {
+        throw new Error(`Smart account client not found for wallet: ${walletAddress}`);
       }
 
       const walletInfo = await this.getWalletInfo(walletAddress);
@@ -551,12 +604,14 @@ export class RelayerService {
       }
 
       const userOpHash = await this.retryUtility.retry(() =>
-        pimlicoClients[chainId].sendUserOperation({
-          target: to,
-          data,
-          value,
-          sender: walletAddress,
-        })
+        localBundler
+          ? smartAccountClients[walletAddress].sendUserOperation({ calls: [{ to, value: BigInt(value), data }] })
+          : pimlicoClients[chainId].sendUserOperation({
+              target: to,
+              data,
+              value,
+              sender: walletAddress,
+            })
       );
 
       const client = await dbPool!.connect();
@@ -589,33 +644,73 @@ export class RelayerService {
   }
 
   /**
-   * Gets the current gas price for a network
+   * Relays a user operation signed by the client to the chain's bundler.
+   * Takes v0.6 user operations, and v0.7 user operations packed or in their
+   * JSON-RPC form; the layout must match the chain's EntryPoint version.
    * @param chainId Chain ID
-   * @returns Gas price in wei
+   * @param userOp Signed user operation
+   * @returns User operation hash
    */
-  public async getGasPrice(chainId: number): Promise<string> {
+  public async relayUserOperation(chainId: number, userOp: unknown): Promise<string> {
     try {
-      logger.debug('Getting gas price', { chainId, tenantId: this.tenantId });
-
-      if (!SUPPORTED_NETWORKS[chainId]) {
-        throw new Error(`Unsupported network: ${chainId}`);
+      logger.info('Relaying user operation', { sender: (userOp as any)?.sender, chainId, tenantId: this.tenantId });
+
+      const network = chainRegistry.requireChain(chainId);
+      const entryPoint = chainRegistry.getEntryPoint(chainId);
+      const parsed = parseUserOperationFor(userOp, entryPoint.version);
+
+      let userOpHash: string;
+      if (bundler.isEnabled(chainId)) {
+        userOpHash = (await bundler.handleRequest(chainId, 'eth_sendUserOperation', [parsed, entryPoint.address])) as string;
+      } else if (network.bundlerUrl) {
+        const bundlerProvider = new ethers.providers.StaticJsonRpcProvider(network.bundlerUrl, chainId);
+        userOpHash = await this.retryUtility.retry(() =>
+          bundlerProvider.send('eth_sendUserOperation', [parsed, entryPoint.address])
+        );
+      } else {
+        throw new Error(`No bundler configured for network: ${chainId}`);
       }
 
-      if (pimlicoClients[chainId]) {
-        const gasPriceData = await this.retryUtility.retry(() =>
-          pimlicoClients[chainId].getUserOperationGasPrice()
+      const client = await dbPool!.connect();
+      try {
+        await client.query(
+          `INSERT INTO transactions (hash, from_address, to_address, value, data, timestamp, status, chain_id, tenant_id)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+          [userOpHash, parsed.sender, entryPoint.address, '0', parsed.callData, Date.now(), 'pending', chainId, this.tenantId]
         );
-        return gasPriceData.fast.maxFeePerGas.toString();
+      } finally {
+        client.release();
       }
 
-      const gasPrice = await this.retryUtility.retry(() => providers[chainId].getGasPrice());
-      return gasPrice.toString();
+      await createAuditLog({
+        action: 'user_operation_relayed',
+        performedBy: parsed.sender,
+        targetId: userOpHash,
+        targetType: 'transaction',
+        walletAddress: parsed.sender,
+        tenantId: this.tenantId,
+        metadata: { chainId, entryPoint: entryPoint.address, entryPointVersion: entryPoint.version },
+      });
+
+      logger.info('User operation relayed', { userOpHash, sender: parsed.sender, entryPointVersion: entryPoint.version });
+      return userOpHash;
     } catch (error: unknown) {
-      logger.error('Error getting gas price', { chainId, error });
-      throw new Error(`Failed to get gas price: ${getErrorMessage(error)}`);
+      logger.error('Error relaying user operation', { chainId, error });
+      throw new Error(`User operation failed: ${getErrorMessage(error)}`);
     }
   }
 
+  /**
+   * Gets the gas prices of a network at each speed
+   * @param chainId Chain ID
+   * @returns Fee recommendations and the base fee trend
+   * @throws GasOracleError if the network is unsupported or its fees cannot be read
+   */
+  public async getGasPrice(chainId: number): Promise<GasRecommendation> {
+    logger.debug('Getting gas price', { chainId, tenantId: this.tenantId });
+    return gasOracle.getRecommendation(chainId);
+  }
+
   /**
    * Estimates gas for a transaction
    * @param chainId Chain ID
@@ -635,7 +730,7 @@ export class RelayerService {
     try {
       logger.debug('Estimating gas', { from, to, chainId, tenantId: this.tenantId });
 
-      if (!SUPPORTED_NETWORKS[chainId]) {
+      if (!chainRegistry.isSupported(chainId)) {
         throw new Error(`Unsupported network: ${chainId}`);
       }
       if (!ethers.utils.isAddress(from) || !ethers.utils.isAddress(to)) {
@@ -674,6 +769,57 @@ export class RelayerService {
     }
   }
 
+  /**
+   * Sends a transaction from a relayer account of the chain's key pool. The
+   * transaction is sped up or cancelled if it gets stuck.
+   * @param request Transaction; its gas limit is estimated when unset
+   * @returns Relayer transaction
+   */
+  public async sendRelayerTransaction(request: RelayerTransactionRequest): Promise<RelayerTransaction> {
+    try {
+      logger.info('Sending relayer transaction', { to: request.to, chainId: request.chainId, tenantId: this.tenantId });
+
+      if (!chainRegistry.isSupported(request.chainId)) {
+        throw new Error(`Unsupported network: ${request.chainId}`);
+      }
+      if (!ethers.utils.isAddress(request.to)) {
+        throw new Error('Invalid target address');
+      }
+
+      const transaction = await relayerKeyPool.withSigner(request.chainId, signer =>
+        relayerTransactions.submit(signer, { ...request, tenantId: request.tenantId || this.tenantId })
+      );
+
+      await createAuditLog({
+        action: 'relayer_transaction_sent',
+        performedBy: 'system',
+        targetId: transaction.id,
+        targetType: 'transaction',
+        tenantId: this.tenantId,
+        metadata: { chainId: request.chainId, to: request.to, label: request.label, hash: transaction.hash },
+      });
+
+      return transaction;
+    } catch (error: unknown) {
+      logger.error('Error sending relayer transaction', { to: request.to, chainId: request.chainId, error });
+      throw new Error(`Relayer transaction failed: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Gets a transaction sent from a relayer account, with every submission
+   * made to speed it up or cancel it
+   * @param idOrHash Relayer transaction ID, or hash of its latest submission
+   * @returns Relayer transaction or null
+   */
+  public async getRelayerTransaction(idOrHash: string): Promise<RelayerTransaction | null> {
+    const transaction = await relayerTransactions.get(idOrHash);
+    if (!transaction || (transaction.tenantId && this.tenantId && transaction.tenantId !== this.tenantId)) {
+      return null;
+    }
+    return transaction;
+  }
+
   /**
    * Gets the relayer status
    * @returns Relayer status
@@ -683,8 +829,8 @@ export class RelayerService {
       logger.debug('Getting relayer status', { tenantId: this.tenantId });
 
       const networks: Record<string, any> = {};
-      for (const [chainIdStr, network] of Object.entries(SUPPORTED_NETWORKS)) {
-        const chainId = parseInt(chainIdStr);
+      for (const network of chainRegistry.getChains()) {
+        const chainId = network.chainId;
         const providerHealthy = await this.retryUtility.retry(async () => {
           await providers[chainId].getBlockNumber();
           return true;
@@ -697,11 +843,23 @@ export class RelayerService {
         );
         client.release();
 
+        const transactions = await relayerTransactions.getStatus(chainId).catch(error => {
+          logger.warn('Error getting relayer transaction status', { chainId, error });
+          return null;
+        });
+        const relayerPool = await relayerKeyPool.getStatus(chainId).catch(error => {
+          logger.warn('Error getting relayer pool status', { chainId, error });
+          return null;
+        });
+
         networks[chainId] = {
           name: network.name,
           provider: providerHealthy,
           pimlico: !!pimlicoClients[chainId],
+          localBundler: bundler.isEnabled(chainId),
           smartAccountsCount: parseInt(walletCount.rows[0].count, 10),
+          transactions,
+          relayerPool,
         };
       }
 
@@ -735,12 +893,7 @@ export default new RelayerService({
     password: process.env.DB_PASSWORD || 'password',
   },
   hsmConfig: {
-    provider: HSMProviderType.CUSTOM,
-    credentials: {
-      pin: process.env.HSM_PIN || '1234',
-      libraryPath: process.env.HSM_LIBRARY_PATH || '/usr/lib/softhsm/libsofthsm2.so',
-      slotId: process.env.HSM_SLOT_ID ? parseInt(process.env.HSM_SLOT_ID) : 0,
-    },
+    ...hsmConfigFromEnv(),
     options: {
       maxRetries: 3,
       timeoutMs: 5000,
@@ -0,0 +1,469 @@
+import { ethers } from 'ethers';
+import { logger } from '../../utils/logger';
+import { createAuditLog } from '../../audit';
+import { getDatabase } from '../../config/database';
+import chainRegistry, { ChainRegistry, ChainRegistryUpdate } from '../chain-registry';
+import { createHSMProvider, hsmConfigFromEnv } from '../hsm';
+import { HSMSigner } from '../hsm/signer';
+import { relayerTransactions, TransactionTracker } from './transactionTracker';
+
+export type RelayerSelectionStrategy = 'round_robin' | 'least_pending';
+
+// Relayer key pool options
+export interface RelayerKeyPoolOptions {
+  keyIds: string[]; // Relayer keys; each is an account on every chain
+  treasuryKeyId?: string; // Funds accounts that run low; no top-ups without it
+  strategy: RelayerSelectionStrategy;
+  checkIntervalMs: number; // How often balances are read and unhealthy keys retried
+  maxFailures: number; // Consecutive failures after which a key leaves the rotation
+  createSigner?: (keyId: string, provider: ethers.providers.Provider) => ethers.Signer; // Defaults to an HSM signer
+}
+
+// A relayer account on one chain
+interface PoolAccount {
+  keyId: string;
+  signer: ethers.Signer;
+  address?: string; // Lowercase; unset until the key answers
+  balance?: ethers.BigNumber;
+  healthy: boolean;
+  failures: number;
+  lastError?: string;
+  sent: number;
+  topUps: number;
+  topUpId?: string; // Relayer transaction of the top-up in flight, as last found
+  lastTopUpAt?: number;
+  checkedAt?: number;
+}
+
+// Accounts of one chain
+interface ChainPool {
+  accounts: PoolAccount[];
+  treasury?: ethers.Signer;
+  cursor: number;
+  ready: Promise<void>;
+}
+
+// A relayer account as reported on the relayer status
+export interface PoolAccountStatus {
+  address?: string;
+  healthy: boolean;
+  balance?: string;
+  inFlight: number;
+  sent: number;
+  failures: number;
+  lastError?: string;
+  topUps: number;
+  topUpPending: boolean;
+  lastTopUpAt?: number;
+  checkedAt?: number;
+}
+
+// Relayer accounts of one chain, as reported on the relayer status
+export interface RelayerPoolStatus {
+  strategy: RelayerSelectionStrategy;
+  size: number;
+  available: number; // Healthy accounts with enough balance
+  minBalance: string;
+  accounts: PoolAccountStatus[];
+  treasury?: { address: string; balance: string };
+}
+
+// Label of top-up relayer transactions
+const TOP_UP_LABEL = 'top_up';
+
+/**
+ * Name of the lock serializing the top-ups of a relayer account
+ * @param chainId Chain ID
+ * @param address Lowercase relayer address
+ */
+const topUpLock = (chainId: number, address: string): string => `relayer_top_up:${chainId}:${address}`;
+
+/**
+ * Relayer accounts of every chain in the registry. Each transaction is sent
+ * from an account chosen round-robin or by fewest in-flight transactions
+ * among the healthy accounts whose balance is at least the chain's
+ * relayerPool.minBalance. Balances are read on an interval; an account below
+ * the minimum is funded from the treasury key. A top-up is a relayer
+ * transaction, sent holding the account's database lock only when no top-up
+ * of the account is in flight, so replicas and pools rebuilt after a registry
+ * reload do not fund it twice. A key that fails maxFailures
+ * times in a row leaves the rotation until a later check finds it answering
+ * and funded.
+ */
+export class RelayerKeyPool {
+  private static instance: RelayerKeyPool;
+  private pools = new Map<number, ChainPool>();
+  private timer?: NodeJS.Timeout;
+  private checking: Promise<void> | null = null;
+
+  constructor(
+    private readonly options: RelayerKeyPoolOptions,
+    private readonly tracker: TransactionTracker = relayerTransactions,
+    private readonly chains: ChainRegistry = chainRegistry
+  ) {
+    chains.on('updated', (update: ChainRegistryUpdate) => {
+      for (const chainId of [...update.changed, ...update.removed]) {
+        this.pools.delete(chainId);
+      }
+    });
+  }
+
+  /**
+   * Get the singleton instance of RelayerKeyPool
+   */
+  public static getInstance(): RelayerKeyPool {
+    if (!RelayerKeyPool.instance) {
+      RelayerKeyPool.instance = new RelayerKeyPool(keyPoolOptionsFromEnv());
+    }
+    return RelayerKeyPool.instance;
+  }
+
+  /**
+   * Run a function with a relayer account of a chain. A failure counts
+   * against the account's key.
+   * @param chainId Chain ID
+   * @param fn Sends with the account
+   */
+  public async withSigner<R>(chainId: number, fn: (signer: ethers.Signer) => Promise<R>): Promise<R> {
+    const account = await this.select(chainId);
+    try {
+      const result = await fn(account.signer);
+      account.failures = 0;
+      account.sent++;
+      return result;
+    } catch (error) {
+      this.recordFailure(chainId, account, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Read balances, top up accounts that run low and retry unhealthy keys, on
+   * an interval. Loads the accounts of every chain, so transactions of
+   * earlier runs can be replaced.
+   */
+  public async start(): Promise<void> {
+    await Promise.all(this.chains.getChains().map(chain => this.getPool(chain.chainId).ready));
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      if (!this.checking) {
+        this.checking = this.checkAccounts()
+          .catch(error => {
+            logger.error('Error checking relayer accounts', { error });
+          })
+          .finally(() => {
+            this.checking = null;
+          });
+      }
+    }, this.options.checkIntervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the interval started by start()
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Check the accounts of every chain in the registry once
+   */
+  public async checkAccounts(): Promise<void> {
+    for (const chain of this.chains.getChains()) {
+      try {
+        await this.checkChain(chain.chainId);
+      } catch (error) {
+        logger.warn(`Error checking relayer accounts on chain ${chain.chainId}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Check the accounts of a chain: read balances, top up those below the
+   * minimum and restore keys that answer again
+   * @param chainId Chain ID
+   */
+  public async checkChain(chainId: number): Promise<void> {
+    const pool = this.getPool(chainId);
+    await pool.ready;
+    const { minBalance, topUpAmount } = this.getThresholds(chainId);
+    if (pool.treasury) {
+      await this.tracker.registerSigner(chainId, pool.treasury).catch(error => {
+        logger.warn(`Relayer treasury key of chain ${chainId} does not answer: ${(error as Error).message}`);
+      });
+    }
+
+    for (const account of pool.accounts) {
+      try {
+        if (!account.address) {
+          account.address = (await account.signer.getAddress()).toLowerCase();
+          await this.tracker.registerSigner(chainId, account.signer);
+        }
+        account.balance = await account.signer.provider!.getBalance(account.address);
+        account.checkedAt = Date.now();
+      } catch (error) {
+        this.recordFailure(chainId, account, error);
+        continue;
+      }
+
+      await this.checkTopUp(chainId, account);
+      const funded = account.balance.gte(minBalance) && !account.balance.isZero();
+      if (!funded && pool.treasury && !account.topUpId && topUpAmount.gt(0)) {
+        await this.topUp(chainId, pool.treasury, account, minBalance, topUpAmount);
+      }
+      if (!account.healthy && funded) {
+        account.healthy = true;
+        account.failures = 0;
+        account.lastError = undefined;
+        logger.info(`Relayer account ${account.address} is back in the pool of chain ${chainId}`);
+      }
+    }
+  }
+
+  /**
+   * Get the pool metrics of a chain
+   * @param chainId Chain ID
+   */
+  public async getStatus(chainId: number): Promise<RelayerPoolStatus> {
+    const pool = this.getPool(chainId);
+    await pool.ready;
+    const { minBalance } = this.getThresholds(chainId);
+    const inFlight = await this.tracker.getInFlightCounts(chainId);
+
+    let treasury: RelayerPoolStatus['treasury'];
+    if (pool.treasury) {
+      const address = await pool.treasury.getAddress();
+      treasury = { address, balance: (await pool.treasury.provider!.getBalance(address)).toString() };
+    }
+
+    return {
+      strategy: this.options.strategy,
+      size: pool.accounts.length,
+      available: pool.accounts.filter(account => this.isAvailable(account, minBalance)).length,
+      minBalance: minBalance.toString(),
+      accounts: pool.accounts.map(account => ({
+        address: account.address,
+        healthy: account.healthy,
+        balance: account.balance?.toString(),
+        inFlight: (account.address && inFlight.get(account.address)) || 0,
+        sent: account.sent,
+        failures: account.failures,
+        lastError: account.lastError,
+        topUps: account.topUps,
+        topUpPending: !!account.topUpId,
+        lastTopUpAt: account.lastTopUpAt,
+        checkedAt: account.checkedAt,
+      })),
+      treasury,
+    };
+  }
+
+  /**
+   * Choose the account to send from
+   * @throws Error if no account is healthy and funded
+   */
+  private async select(chainId: number): Promise<PoolAccount> {
+    const pool = this.getPool(chainId);
+    await pool.ready;
+    const { minBalance } = this.getThresholds(chainId);
+
+    // Round-robin order starting after the account chosen last
+    const ordered = [...pool.accounts.slice(pool.cursor), ...pool.accounts.slice(0, pool.cursor)];
+    const available = ordered.filter(account => this.isAvailable(account, minBalance));
+    if (pool.accounts.length === 0) {
+      throw new Error('No relayer keys configured; set RELAYER_HSM_KEY_IDS');
+    }
+    if (available.length === 0) {
+      throw new Error(`No healthy relayer account with enough balance on chain ${chainId}`);
+    }
+
+    let selected = available[0];
+    if (this.options.strategy === 'least_pending') {
+      const inFlight = await this.tracker.getInFlightCounts(chainId);
+      const pending = (account: PoolAccount) => inFlight.get(account.address!) || 0;
+      selected = available.reduce((best, account) => (pending(account) < pending(best) ? account : best));
+    }
+    pool.cursor = (pool.accounts.indexOf(selected) + 1) % pool.accounts.length;
+    return selected;
+  }
+
+  private isAvailable(account: PoolAccount, minBalance: ethers.BigNumber): boolean {
+    return (
+      account.healthy &&
+      !!account.address &&
+      !!account.balance &&
+      account.balance.gte(minBalance) &&
+      !account.balance.isZero()
+    );
+  }
+
+  private recordFailure(chainId: number, account: PoolAccount, error: unknown): void {
+    account.failures++;
+    account.lastError = error instanceof Error ? error.message : String(error);
+    if (account.healthy && account.failures >= this.options.maxFailures) {
+      account.healthy = false;
+      logger.warn(`Removed relayer account ${account.address || account.keyId} from the pool of chain ${chainId}`, {
+        failures: account.failures,
+        error: account.lastError,
+      });
+      createAuditLog({
+        action: 'relayer_account_removed',
+        performedBy: 'system',
+        targetId: account.address || account.keyId,
+        targetType: 'relayer_account',
+        metadata: { chainId, failures: account.failures, error: account.lastError },
+      }).catch(auditError => logger.error('Error auditing relayer account removal', { error: auditError }));
+    }
+  }
+
+  /**
+   * Clear a finished top-up of an account
+   */
+  private async checkTopUp(chainId: number, account: PoolAccount): Promise<void> {
+    if (!account.topUpId) {
+      return;
+    }
+    const transaction = await this.tracker.get(account.topUpId);
+    if (transaction && ['pending', 'cancelling'].includes(transaction.status)) {
+      return;
+    }
+    if (transaction?.status === 'confirmed') {
+      account.topUps++;
+      account.balance = await account.signer.provider!.getBalance(account.address!);
+    } else {
+      logger.warn(`Top-up of relayer account ${account.address} on chain ${chainId} was ${transaction?.status || 'lost'}`);
+    }
+    account.topUpId = undefined;
+  }
+
+  /**
+   * Fund an account from the treasury, unless a top-up of it is in flight or
+   * it was funded since its balance was read
+   */
+  private async topUp(
+    chainId: number,
+    treasury: ethers.Signer,
+    account: PoolAccount,
+    minBalance: ethers.BigNumber,
+    amount: ethers.BigNumber
+  ): Promise<void> {
+    const address = account.address!;
+    try {
+      const db = await getDatabase();
+      const transaction = await db.withExclusiveLock(topUpLock(chainId, address), async () => {
+        const [inFlight] = await this.tracker.getInFlightTo(chainId, address, TOP_UP_LABEL);
+        if (inFlight) {
+          account.topUpId = inFlight.id;
+          return undefined;
+        }
+        account.balance = await account.signer.provider!.getBalance(address);
+        if (account.balance.gte(minBalance) && !account.balance.isZero()) {
+          return undefined;
+        }
+        return this.tracker.submit(treasury, {
+          chainId,
+          to: address,
+          value: amount,
+          gasLimit: 21000,
+          label: TOP_UP_LABEL,
+        });
+      });
+      if (!transaction) {
+        return;
+      }
+
+      account.topUpId = transaction.id;
+      account.lastTopUpAt = Date.now();
+      logger.info(`Topping up relayer account ${account.address} on chain ${chainId} with ${amount.toString()} wei`, {
+        hash: transaction.hash,
+      });
+      await createAuditLog({
+        action: 'relayer_account_topped_up',
+        performedBy: 'system',
+        targetId: account.address!,
+        targetType: 'relayer_account',
+        metadata: { chainId, amount: amount.toString(), txHash: transaction.hash, balance: account.balance?.toString() },
+      });
+    } catch (error) {
+      logger.error(`Error topping up relayer account ${account.address} on chain ${chainId}`, { error });
+    }
+  }
+
+  private getThresholds(chainId: number): { minBalance: ethers.BigNumber; topUpAmount: ethers.BigNumber } {
+    const config = this.chains.getChain(chainId)?.relayerPool;
+    const minBalance = ethers.BigNumber.from(config?.minBalance || 0);
+    return { minBalance, topUpAmount: ethers.BigNumber.from(config?.topUpAmount || minBalance.mul(2)) };
+  }
+
+  /**
+   * Get the accounts of a chain, creating them on first use. They are ready
+   * once their addresses and balances are read.
+   */
+  private getPool(chainId: number): ChainPool {
+    let pool = this.pools.get(chainId);
+    if (pool) {
+      return pool;
+    }
+
+    const provider = this.chains.getProvider(chainId);
+    const createSigner =
+      this.options.createSigner || ((keyId: string, chainProvider: ethers.providers.Provider) => defaultSigner(keyId, chainProvider));
+    const accounts: PoolAccount[] = this.options.keyIds.map(keyId => ({
+      keyId,
+      signer: createSigner(keyId, provider),
+      healthy: true,
+      failures: 0,
+      sent: 0,
+      topUps: 0,
+    }));
+    const treasuryKeyId = this.options.treasuryKeyId;
+
+    pool = { accounts, treasury: treasuryKeyId ? createSigner(treasuryKeyId, provider) : undefined, cursor: 0, ready: Promise.resolve() };
+    this.pools.set(chainId, pool);
+    pool.ready = this.checkChain(chainId).catch(error => {
+      logger.warn(`Error loading relayer accounts of chain ${chainId}: ${(error as Error).message}`);
+    });
+    return pool;
+  }
+}
+
+let hsmProvider: ReturnType<typeof createHSMProvider> | undefined;
+
+/**
+ * Signer for a relayer key in the HSM configured by the HSM_* variables
+ */
+const defaultSigner = (keyId: string, provider: ethers.providers.Provider): HSMSigner => {
+  hsmProvider = hsmProvider || createHSMProvider(hsmConfigFromEnv());
+  return new HSMSigner(hsmProvider, keyId, provider);
+};
+
+/**
+ * Key pool options from the RELAYER_* environment variables. RELAYER_HSM_KEY_IDS
+ * lists the pool's keys; RELAYER_HSM_KEY_ID alone makes a pool of one.
+ */
+export const keyPoolOptionsFromEnv = (): RelayerKeyPoolOptions => {
+  const number = (name: string, fallback: number) => {
+    const value = parseInt(process.env[name] || '', 10);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+  const keyIds = (process.env.RELAYER_HSM_KEY_IDS || process.env.RELAYER_HSM_KEY_ID || '')
+    .split(',')
+    .map(keyId => keyId.trim())
+    .filter(keyId => !!keyId);
+
+  return {
+    keyIds,
+    treasuryKeyId: process.env.RELAYER_TREASURY_HSM_KEY_ID || undefined,
+    strategy: process.env.RELAYER_POOL_STRATEGY === 'round_robin' ? 'round_robin' : 'least_pending',
+    checkIntervalMs: number('RELAYER_POOL_CHECK_INTERVAL_MS', 60000),
+    maxFailures: number('RELAYER_POOL_MAX_FAILURES', 3),
+  };
+};
+
+export const relayerKeyPool = RelayerKeyPool.getInstance();
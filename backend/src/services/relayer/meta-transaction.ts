@@ -4,8 +4,9 @@ import { createAuditLog } from '../../audit';
 import { RetryUtility } from '../../utils/retry';
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
 import { smartAccountClients, WalletInfo } from '../relayerService';
-import { SUPPORTED_NETWORKS } from '../../config/networks';
-import { createHSMProvider, HSMProvider, HSMProviderType, HSMKeyType } from '../hsm';
+import chainRegistry from '../chain-registry';
+import { createHSMProvider, hsmConfigFromEnv, HSMConfig, HSMProvider } from '../hsm';
+import { HSMSigner } from '../hsm/signer';
 import { v4 as uuidv4 } from 'uuid';
 
 // Interface for meta-transaction data
@@ -58,11 +59,7 @@ export class MetaTransactionService {
 
   constructor(config: {
     databaseName: string;
-    hsmConfig: {
-      provider: HSMProviderType;
-      credentials: { pin: string; libraryPath: string; slotId?: number };
-      options?: { fipsCompliance?: boolean; maxRetries?: number; timeoutMs?: number };
-    };
+    hsmConfig: HSMConfig;
     tenantId?: string;
   }) {
     this.dbPromise = openDB<WalletDB>(config.databaseName, 1, {
@@ -135,6 +132,85 @@ export class MetaTransactionService {
     }
   }
 
+  /**
+   * Gets a signer for an HSM key
+   * @param hsmKeyId HSM key ID
+   * @returns Signer whose key stays in the HSM
+   */
+  public getSigner(hsmKeyId: string): HSMSigner {
+    return new HSMSigner(this.hsmProvider, hsmKeyId, undefined, this.tenantId);
+  }
+
+  /**
+   * Signs a meta-transaction with the HSM key of its wallet
+   * @param metaTx Meta-transaction data without signature
+   * @returns EIP-712 signature for the wallet's next nonce
+   */
+  public async signMetaTransaction(metaTx: Omit<MetaTransactionData, 'signature'>): Promise<string> {
+    try {
+      logger.info('Signing meta-transaction', { walletAddress: metaTx.walletAddress, to: metaTx.to, chainId: metaTx.chainId });
+
+      const walletInfo = await this.getWalletInfo(metaTx.walletAddress);
+      if (!walletInfo?.hsmKeyId) {
+        throw new Error(`HSM key ID not found for wallet: ${metaTx.walletAddress}`);
+      }
+
+      const nonce = await this.getNonce(metaTx.walletAddress);
+      const { domain, types, message } = this.buildTypedData(metaTx, nonce);
+      return await this.getSigner(walletInfo.hsmKeyId)._signTypedData(domain, types, message);
+    } catch (error) {
+      logger.error('Error signing meta-transaction', { walletAddress: metaTx.walletAddress, error });
+      throw new Error(`Failed to sign meta-transaction: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Gets the next meta-transaction nonce of a wallet
+   * @param walletAddress Wallet address
+   * @returns Number of meta-transactions sent by the wallet
+   */
+  private async getNonce(walletAddress: string): Promise<number> {
+    return this.retryUtility.retry(async () => {
+      const db = await this.dbPromise;
+      const txs = await db.getAllFromIndex('transactions', 'by-fromAddress', walletAddress);
+      const tenantTxs = txs.filter((tx) => !this.tenantId || tx.tenantId === this.tenantId);
+      return tenantTxs.length;
+    });
+  }
+
+  /**
+   * Builds the EIP-712 typed data of a meta-transaction
+   * @param metaTx Meta-transaction data
+   * @param nonce Wallet nonce
+   * @returns Domain, types and message
+   */
+  private buildTypedData(metaTx: Omit<MetaTransactionData, 'signature'>, nonce: number) {
+    const domain = {
+      name: 'Wallet',
+      version: '1',
+      chainId: metaTx.chainId,
+      verifyingContract: metaTx.walletAddress,
+    };
+
+    const types = {
+      Transaction: [
+        { name: 'to', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'data', type: 'bytes' },
+        { name: 'nonce', type: 'uint256' },
+      ],
+    };
+
+    const message = {
+      to: metaTx.to,
+      value: metaTx.value,
+      data: metaTx.data,
+      nonce,
+    };
+
+    return { domain, types, message };
+  }
+
   /**
    * Sends an EIP-712 meta-transaction
    * @param metaTx Meta-transaction data
@@ -150,7 +226,7 @@ export class MetaTransactionService {
       });
 
       // Validate inputs
-      if (!SUPPORTED_NETWORKS[metaTx.chainId]) {
+      if (!chainRegistry.isSupported(metaTx.chainId)) {
         throw new Error(`Unsupported network: ${metaTx.chainId}`);
       }
       if (!ethers.utils.isAddress(metaTx.walletAddress) || !ethers.utils.isAddress(metaTx.to)) {
@@ -177,50 +253,19 @@ export class MetaTransactionService {
         throw new Error(`Wallet info not found or missing owner: ${metaTx.walletAddress}`);
       }
 
-      // Construct EIP-712 typed data
-      const domain = {
-        name: 'Wallet',
-        version: '1',
-        chainId: metaTx.chainId,
-        verifyingContract: metaTx.walletAddress,
-      };
-
-      const types = {
-        Transaction: [
-          { name: 'to', type: 'address' },
-          { name: 'value', type: 'uint256' },
-          { name: 'data', type: 'bytes' },
-          { name: 'nonce', type: 'uint256' },
-        ],
-      };
+      if (!walletInfo.hsmKeyId) {
+        throw new Error('HSM key ID not found for wallet');
+      }
 
-      // Fetch nonce from IndexedDB
-      const nonce = await this.retryUtility.retry(async () => {
-        const db = await this.dbPromise;
-        const txs = await db.getAllFromIndex('transactions', 'by-fromAddress', metaTx.walletAddress);
-        const tenantTxs = txs.filter((tx) => !this.tenantId || tx.tenantId === this.tenantId);
-        return tenantTxs.length;
-      });
+      const nonce = await this.getNonce(metaTx.walletAddress);
+      const { domain, types, message } = this.buildTypedData(metaTx, nonce);
 
-      const message = {
-        to: metaTx.to,
-        value: metaTx.value,
-        data: metaTx.data,
-        nonce,
-      };
-
-      // Verify signature using HSM
-      const typedDataHash = ethers.utils._TypedDataEncoder.hash(domain, types, message);
-      const signatureValid = await this.retryUtility.retry(async () => {
-        if (!walletInfo.hsmKeyId) {
-          throw new Error('HSM key ID not found for wallet');
-        }
-        const publicKey = (await this.hsmProvider.getKey(walletInfo.hsmKeyId, this.tenantId)).publicKey;
-        const signer = ethers.utils.recoverAddress(typedDataHash, metaTx.signature);
-        return signer.toLowerCase() === ethers.utils.computeAddress(publicKey).toLowerCase();
-      });
+      // Verify the signature was made by the wallet's HSM key
+      const signer = this.getSigner(walletInfo.hsmKeyId);
+      const expected = await this.retryUtility.retry(() => signer.getAddress());
+      const recovered = ethers.utils.verifyTypedData(domain, types, message, metaTx.signature);
 
-      if (!signatureValid) {
+      if (recovered !== expected) {
         throw new Error('Invalid signature: signer does not match wallet owner');
       }
 
@@ -283,13 +328,6 @@ export class MetaTransactionService {
 // Export singleton instance
 export default new MetaTransactionService({
   databaseName: process.env.DB_NAME || 'wallet_db',
-  hsmConfig: {
-    provider: HSMProviderType.CUSTOM,
-    credentials: {
-      pin: process.env.HSM_PIN || '123456',
-      libraryPath: process.env.HSM_LIBRARY_PATH || '/usr/lib/pkcs11.so',
-    },
-    options: { fipsCompliance: true },
-  },
+  hsmConfig: { ...hsmConfigFromEnv(), options: { fipsCompliance: true } },
   tenantId: process.env.TENANT_ID,
 });
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { ethers } from 'ethers';
+import { logger } from '../../utils/logger';
+import { getDatabase, RyzerWalletDB } from '../../config/database';
+
+export type RelayerTransactionStatus = RyzerWalletDB['relayer_transactions']['value']['status'];
+
+// Statuses of transactions whose nonce is not yet mined
+export const IN_FLIGHT_STATUSES: RelayerTransactionStatus[] = ['pending', 'cancelling'];
+
+// Largest value in index ranges
+const MAX_INDEX_VALUE = Number.MAX_SAFE_INTEGER;
+
+// Nonces of a relayer account
+export interface NonceState {
+  address: string;
+  nextNonce: number; // Next nonce to hand out
+  confirmedNonce: number; // Transactions mined from the account
+  pendingNonce: number; // Including those in the node's mempool
+  inFlight: number[]; // Nonces held by tracked transactions that are not mined
+  gaps: number[]; // Nonces below nextNonce that nothing holds
+}
+
+/**
+ * Hands out the nonces of relayer accounts. The next nonce of each chain and
+ * account is stored, so replicas and restarts continue one sequence, and an
+ * allocation holds a database lock until its transaction is broadcast. A nonce
+ * between the mined one and the next one that neither the node's mempool nor
+ * a tracked transaction holds is a gap; every later transaction waits on it,
+ * so gaps are handed out before new nonces.
+ */
+export class NonceManager {
+  /**
+   * Run a function holding the lock of a relayer account
+   * @param chainId Chain ID
+   * @param address Relayer address
+   * @param fn Function
+   */
+  public async withLock<R>(chainId: number, address: string, fn: () => Promise<R>): Promise<R> {
+    const db = await getDatabase();
+    return db.withExclusiveLock(`relayer_nonce:${chainId}:${address.toLowerCase()}`, fn);
+  }
+
+  /**
+   * Allocate a nonce and send a transaction with it. The nonce is only taken
+   * if the function resolves, so it should resolve once the transaction is
+   * broadcast and recorded.
+   * @param chainId Chain ID
+   * @param provider Provider of the chain
+   * @param address Relayer address
+   * @param fn Sends the transaction with the nonce
+   */
+  public async withNonce<R>(
+    chainId: number,
+    provider: ethers.providers.Provider,
+    address: string,
+    fn: (nonce: number) => Promise<R>
+  ): Promise<R> {
+    return this.withLock(chainId, address, async () => {
+      const state = await this.getState(chainId, provider, address);
+      const nonce = state.gaps.length > 0 ? state.gaps[0] : state.nextNonce;
+      if (state.gaps.length > 0) {
+        logger.warn(`Filling nonce gap ${nonce} of relayer ${state.address} on chain ${chainId}`, { gaps: state.gaps });
+      }
+
+      const result = await fn(nonce);
+
+      if (nonce >= state.nextNonce) {
+        const db = await getDatabase();
+        await db.put('relayer_nonces', {
+          id: `${chainId}:${state.address}`,
+          chainId,
+          address: state.address,
+          nextNonce: nonce + 1,
+          updatedAt: Date.now(),
+        });
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Get the nonces of a relayer account, comparing the stored sequence with the chain
+   * @param chainId Chain ID
+   * @param provider Provider of the chain
+   * @param address Relayer address
+   */
+  public async getState(chainId: number, provider: ethers.providers.Provider, address: string): Promise<NonceState> {
+    const db = await getDatabase();
+    const account = address.toLowerCase();
+    const [stored, confirmedNonce, pendingNonce] = await Promise.all([
+      db.get('relayer_nonces', `${chainId}:${account}`),
+      provider.getTransactionCount(address, 'latest'),
+      provider.getTransactionCount(address, 'pending'),
+    ]);
+
+    const tracked = await db.getAllFromIndex('relayer_transactions', 'by-account', {
+      lower: [chainId, account, confirmedNonce],
+      upper: [chainId, account, MAX_INDEX_VALUE],
+    });
+    const inFlight = tracked.filter(tx => IN_FLIGHT_STATUSES.includes(tx.status)).map(tx => tx.nonce);
+
+    // Transactions sent from the key outside the relayer move the sequence forward
+    const nextNonce = Math.max(stored?.nextNonce || 0, confirmedNonce, pendingNonce);
+    const held = new Set(inFlight);
+    const gaps: number[] = [];
+    for (let nonce = Math.max(confirmedNonce, pendingNonce); nonce < nextNonce; nonce++) {
+      if (!held.has(nonce)) {
+        gaps.push(nonce);
+      }
+    }
+
+    return { address: account, nextNonce, confirmedNonce, pendingNonce, inFlight, gaps };
+  }
+}
@@ -0,0 +1,509 @@
+import { ethers } from 'ethers';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../utils/logger';
+import { getDatabase, RyzerWalletDB } from '../../config/database';
+import chainRegistry from '../chain-registry';
+import { IN_FLIGHT_STATUSES, NonceManager, NonceState, RelayerTransactionStatus } from './nonceManager';
+
+export type RelayerTransaction = RyzerWalletDB['relayer_transactions']['value'];
+export type RelayerTransactionSubmission = RelayerTransaction['submissions'][number];
+export { RelayerTransactionStatus };
+
+// A transaction for the relayer to send
+export interface RelayerTransactionRequest {
+  chainId: number;
+  to: string;
+  data?: string;
+  value?: ethers.BigNumberish;
+  gasLimit?: ethers.BigNumberish; // Estimated when unset
+  label?: string;
+  tenantId?: string;
+}
+
+// When and how stuck transactions are replaced
+export interface TransactionLifecycleOptions {
+  pollIntervalMs: number;
+  speedUpAfterMs: number; // Resubmit with higher fees when the latest submission is not mined this long
+  cancelAfterMs: number; // Replace with an empty transaction when not mined this long after the first submission
+  feeBumpPercent: number; // Fee increase of a replacement; nodes require at least 10
+  maxFeePerGas?: ethers.BigNumber; // Replacements never bid more
+}
+
+// Lifecycle of the relayer transactions of one chain, as reported on the relayer status
+export interface TransactionLifecycleStatus {
+  pending: number;
+  cancelling: number;
+  oldestPendingAt?: number;
+  accounts: NonceState[];
+}
+
+const FINAL_STATUSES: RelayerTransactionStatus[] = ['confirmed', 'failed', 'cancelled', 'dropped'];
+
+// Gas of a plain transfer, which cancellations are
+const CANCEL_GAS_LIMIT = 21000;
+const MIN_FEE_BUMP_PERCENT = 10;
+
+const MAX_TIMESTAMP = Number.MAX_SAFE_INTEGER;
+
+interface Fees {
+  maxFeePerGas: ethers.BigNumber;
+  maxPriorityFeePerGas: ethers.BigNumber;
+}
+
+/**
+ * Sends transactions from relayer accounts and watches them until they are
+ * mined. Nonces come from the NonceManager. A transaction whose latest
+ * submission is not mined within speedUpAfterMs is resubmitted with the same
+ * nonce and higher fees; one not mined within cancelAfterMs of its first
+ * submission is replaced by an empty self-transfer, which frees the nonce for
+ * the transactions behind it. Every submission is kept, so the lifecycle can
+ * be followed by ID or by the hash of the latest submission.
+ */
+export class TransactionTracker {
+  private static instance: TransactionTracker;
+  public readonly nonces = new NonceManager();
+  private signers = new Map<string, ethers.Signer>();
+  private timer?: NodeJS.Timeout;
+  private checking: Promise<void> | null = null;
+
+  constructor(private readonly options: TransactionLifecycleOptions) {
+    if (options.feeBumpPercent < MIN_FEE_BUMP_PERCENT) {
+      throw new Error(`Fee bump must be at least ${MIN_FEE_BUMP_PERCENT}%`);
+    }
+  }
+
+  /**
+   * Get the singleton instance of TransactionTracker
+   */
+  public static getInstance(): TransactionTracker {
+    if (!TransactionTracker.instance) {
+      TransactionTracker.instance = new TransactionTracker(lifecycleOptionsFromEnv());
+    }
+    return TransactionTracker.instance;
+  }
+
+  /**
+   * Send a transaction from a relayer account and track it
+   * @param signer Relayer account, connected to the chain's provider; kept to replace the transaction
+   * @param request Transaction
+   * @returns Tracked transaction
+   */
+  public async submit(signer: ethers.Signer, request: RelayerTransactionRequest): Promise<RelayerTransaction> {
+    const provider = signer.provider;
+    if (!provider) {
+      throw new Error('Relayer signer must be connected to a provider');
+    }
+    const from = (await signer.getAddress()).toLowerCase();
+    this.signers.set(`${request.chainId}:${from}`, signer);
+
+    const to = ethers.utils.getAddress(request.to);
+    const data = request.data || '0x';
+    const value = ethers.BigNumber.from(request.value || 0);
+    const gasLimit = ethers.BigNumber.from(request.gasLimit || (await signer.estimateGas({ to, data, value })));
+    const fees = this.capFees(await this.getFees(provider));
+
+    const transaction = await this.nonces.withNonce(request.chainId, provider, from, async nonce => {
+      const response = await signer.sendTransaction({
+        type: 2,
+        chainId: request.chainId,
+        to,
+        data,
+        value,
+        gasLimit,
+        nonce,
+        ...fees,
+      });
+
+      const now = Date.now();
+      const record: RelayerTransaction = {
+        id: uuidv4(),
+        chainId: request.chainId,
+        from,
+        nonce,
+        to,
+        value: value.toString(),
+        data,
+        gasLimit: gasLimit.toString(),
+        label: request.label,
+        tenantId: request.tenantId,
+        status: 'pending',
+        hash: response.hash.toLowerCase(),
+        submissions: [submission(response.hash, 'original', fees, now)],
+        createdAt: now,
+        updatedAt: now,
+      };
+      const db = await getDatabase();
+      await db.put('relayer_transactions', record);
+      return record;
+    });
+
+    logger.info(`Relayer transaction ${transaction.id} sent as ${transaction.hash} with nonce ${transaction.nonce}`, {
+      chainId: request.chainId,
+      from,
+      label: request.label,
+    });
+    this.start();
+    return transaction;
+  }
+
+  /**
+   * Make a relayer account known, so transactions of earlier runs sent from it can be replaced
+   * @param chainId Chain ID
+   * @param signer Relayer account, connected to the chain's provider
+   */
+  public async registerSigner(chainId: number, signer: ethers.Signer): Promise<void> {
+    this.signers.set(`${chainId}:${(await signer.getAddress()).toLowerCase()}`, signer);
+  }
+
+  /**
+   * Get a tracked transaction
+   * @param idOrHash Transaction ID, or hash of its latest submission
+   */
+  public async get(idOrHash: string): Promise<RelayerTransaction | undefined> {
+    const db = await getDatabase();
+    if (ethers.utils.isHexString(idOrHash, 32)) {
+      const [transaction] = await db.getAllFromIndex('relayer_transactions', 'by-hash', idOrHash.toLowerCase());
+      return transaction;
+    }
+    return db.get('relayer_transactions', idOrHash);
+  }
+
+  /**
+   * Wait until a tracked transaction is final
+   * @param id Transaction ID
+   * @param timeoutMs Give up after this long
+   * @returns Final transaction
+   */
+  public async waitForTransaction(id: string, timeoutMs?: number): Promise<RelayerTransaction> {
+    const deadline = timeoutMs === undefined ? undefined : Date.now() + timeoutMs;
+    for (;;) {
+      const transaction = await this.get(id);
+      if (!transaction) {
+        throw new Error(`Relayer transaction ${id} not found`);
+      }
+      if (FINAL_STATUSES.includes(transaction.status)) {
+        return transaction;
+      }
+      if (deadline !== undefined && Date.now() >= deadline) {
+        throw new Error(`Relayer transaction ${id} is still ${transaction.status}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, this.options.pollIntervalMs));
+    }
+  }
+
+  /**
+   * Get the lifecycle status of the relayer transactions of a chain
+   * @param chainId Chain ID
+   */
+  public async getStatus(chainId: number): Promise<TransactionLifecycleStatus> {
+    const inFlight = (await this.getInFlight()).filter(transaction => transaction.chainId === chainId);
+    const addresses = new Set(inFlight.map(transaction => transaction.from));
+    for (const key of this.signers.keys()) {
+      const [signerChainId, address] = key.split(':');
+      if (Number(signerChainId) === chainId) {
+        addresses.add(address);
+      }
+    }
+
+    const provider = this.getProvider(chainId);
+    const accounts = await Promise.all([...addresses].map(address => this.nonces.getState(chainId, provider, address)));
+    return {
+      pending: inFlight.filter(transaction => transaction.status === 'pending').length,
+      cancelling: inFlight.filter(transaction => transaction.status === 'cancelling').length,
+      oldestPendingAt: inFlight.length > 0 ? Math.min(...inFlight.map(transaction => transaction.createdAt)) : undefined,
+      accounts,
+    };
+  }
+
+  /**
+   * Count the transactions of a chain that are not final, by relayer address
+   * @param chainId Chain ID
+   */
+  public async getInFlightCounts(chainId: number): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    for (const transaction of await this.getInFlight()) {
+      if (transaction.chainId === chainId) {
+        counts.set(transaction.from, (counts.get(transaction.from) || 0) + 1);
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Get the transactions of a chain that are not final, sent to an address for a purpose
+   * @param chainId Chain ID
+   * @param to Recipient
+   * @param label What the transactions are for
+   */
+  public async getInFlightTo(chainId: number, to: string, label: string): Promise<RelayerTransaction[]> {
+    const recipient = to.toLowerCase();
+    return (await this.getInFlight()).filter(
+      transaction =>
+        transaction.chainId === chainId && transaction.label === label && transaction.to.toLowerCase() === recipient
+    );
+  }
+
+  /**
+   * Check every transaction that is not final, on an interval. Resumes the
+   * transactions of earlier runs; called by submit().
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      if (!this.checking) {
+        this.checking = this.checkTransactions()
+          .catch(error => {
+            logger.error('Error checking relayer transactions', { error });
+          })
+          .finally(() => {
+            this.checking = null;
+          });
+      }
+    }, this.options.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the interval started by start()
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Check every transaction that is not final once: record those mined, and
+   * speed up or cancel those stuck
+   */
+  public async checkTransactions(): Promise<void> {
+    for (const transaction of await this.getInFlight()) {
+      try {
+        await this.checkTransaction(transaction.id);
+      } catch (error) {
+        logger.warn(`Error checking relayer transaction ${transaction.id}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  private async getInFlight(): Promise<RelayerTransaction[]> {
+    const db = await getDatabase();
+    const transactions = await Promise.all(
+      IN_FLIGHT_STATUSES.map(status =>
+        db.getAllFromIndex('relayer_transactions', 'by-status', { lower: [status, 0], upper: [status, MAX_TIMESTAMP] })
+      )
+    );
+    return transactions.flat();
+  }
+
+  private async checkTransaction(id: string): Promise<void> {
+    const db = await getDatabase();
+    const initial = await db.get('relayer_transactions', id);
+    if (!initial) {
+      return;
+    }
+
+    // Replicas check the same transactions; the account lock keeps them from replacing one twice
+    await this.nonces.withLock(initial.chainId, initial.from, async () => {
+      const transaction = await db.get('relayer_transactions', id);
+      if (!transaction || FINAL_STATUSES.includes(transaction.status)) {
+        return;
+      }
+      const provider = this.getProvider(transaction.chainId);
+
+      // Read the nonce before the receipts, so a submission mined in between is not taken for another transaction
+      const confirmedNonce = await provider.getTransactionCount(transaction.from, 'latest');
+      for (const { hash, kind } of [...transaction.submissions].reverse()) {
+        const receipt = await provider.getTransactionReceipt(hash);
+        if (receipt) {
+          await this.finalize(transaction, receipt, kind);
+          return;
+        }
+      }
+      if (confirmedNonce > transaction.nonce) {
+        await this.update(transaction, {
+          status: 'dropped',
+          error: 'Nonce was used by another transaction',
+          finalizedAt: Date.now(),
+        });
+        logger.warn(`Relayer transaction ${transaction.id} was dropped; nonce ${transaction.nonce} was used by another transaction`);
+        return;
+      }
+
+      const now = Date.now();
+      const latest = transaction.submissions[transaction.submissions.length - 1];
+      if (transaction.status === 'pending' && now - transaction.createdAt >= this.options.cancelAfterMs) {
+        await this.replace(transaction, 'cancel');
+      } else if (now - latest.submittedAt >= this.options.speedUpAfterMs) {
+        await this.replace(transaction, transaction.status === 'cancelling' ? 'cancel' : 'speed_up');
+      }
+    });
+  }
+
+  private async finalize(
+    transaction: RelayerTransaction,
+    receipt: ethers.providers.TransactionReceipt,
+    kind: RelayerTransactionSubmission['kind']
+  ): Promise<void> {
+    const status: RelayerTransactionStatus = kind === 'cancel' ? 'cancelled' : receipt.status === 1 ? 'confirmed' : 'failed';
+    await this.update(transaction, {
+      status,
+      hash: receipt.transactionHash.toLowerCase(),
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      effectiveGasPrice: receipt.effectiveGasPrice?.toString(),
+      error: status === 'failed' ? 'Transaction reverted' : undefined,
+      finalizedAt: Date.now(),
+    });
+    logger.info(`Relayer transaction ${transaction.id} ${status} in block ${receipt.blockNumber}`, {
+      hash: receipt.transactionHash,
+      submissions: transaction.submissions.length,
+    });
+  }
+
+  /**
+   * Resubmit a transaction with the same nonce and higher fees
+   * @param transaction Transaction
+   * @param kind Speed up the transaction, or replace it with an empty self-transfer
+   */
+  private async replace(transaction: RelayerTransaction, kind: 'speed_up' | 'cancel'): Promise<void> {
+    const signer = this.getSigner(transaction.chainId, transaction.from);
+    if (!signer) {
+      logger.warn(`Cannot replace relayer transaction ${transaction.id}: no signer for ${transaction.from}`);
+      return;
+    }
+
+    const latest = transaction.submissions[transaction.submissions.length - 1];
+    const fees = await this.getReplacementFees(signer.provider!, latest);
+    if (!fees) {
+      logger.warn(`Cannot replace relayer transaction ${transaction.id}: fees are at the configured maximum`);
+      return;
+    }
+
+    const cancel = kind === 'cancel';
+    let response: ethers.providers.TransactionResponse;
+    try {
+      response = await signer.sendTransaction({
+        type: 2,
+        chainId: transaction.chainId,
+        to: cancel ? ethers.utils.getAddress(transaction.from) : transaction.to,
+        data: cancel ? '0x' : transaction.data,
+        value: cancel ? 0 : transaction.value,
+        gasLimit: cancel ? CANCEL_GAS_LIMIT : transaction.gasLimit,
+        nonce: transaction.nonce,
+        ...fees,
+      });
+    } catch (error) {
+      // Most likely mined meanwhile or still underpriced; the next check sorts it out
+      logger.warn(`Error replacing relayer transaction ${transaction.id}: ${(error as Error).message}`);
+      return;
+    }
+
+    const now = Date.now();
+    await this.update(transaction, {
+      status: cancel ? 'cancelling' : transaction.status,
+      hash: response.hash.toLowerCase(),
+      submissions: [...transaction.submissions, submission(response.hash, kind, fees, now)],
+    });
+    logger.info(`${cancel ? 'Cancelling' : 'Sped up'} relayer transaction ${transaction.id} with ${response.hash}`, {
+      nonce: transaction.nonce,
+      maxFeePerGas: fees.maxFeePerGas.toString(),
+    });
+  }
+
+  private async update(transaction: RelayerTransaction, changes: Partial<RelayerTransaction>): Promise<void> {
+    const db = await getDatabase();
+    await db.put('relayer_transactions', { ...transaction, ...changes, updatedAt: Date.now() });
+  }
+
+  /**
+   * Fees of a replacement: the previous fees raised by the fee bump, or the
+   * current network fees if higher
+   * @returns Fees, or undefined if the maximum fee does not allow a replacement
+   */
+  private async getReplacementFees(
+    provider: ethers.providers.Provider,
+    previous: RelayerTransactionSubmission
+  ): Promise<Fees | undefined> {
+    const bump = (fee: string) => ethers.BigNumber.from(fee).mul(100 + this.options.feeBumpPercent).add(99).div(100);
+    const network = await this.getFees(provider);
+    const maxFeePerGas = max(bump(previous.maxFeePerGas), network.maxFeePerGas);
+    const maxPriorityFeePerGas = max(bump(previous.maxPriorityFeePerGas), network.maxPriorityFeePerGas);
+
+    const cap = this.options.maxFeePerGas;
+    if (cap && maxFeePerGas.gt(cap)) {
+      return undefined;
+    }
+    return { maxFeePerGas, maxPriorityFeePerGas: min(maxPriorityFeePerGas, maxFeePerGas) };
+  }
+
+  private async getFees(provider: ethers.providers.Provider): Promise<Fees> {
+    const feeData = await provider.getFeeData();
+    if (feeData.maxFeePerGas && feeData.maxPriorityFeePerGas) {
+      return { maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas };
+    }
+    const gasPrice = feeData.gasPrice || (await provider.getGasPrice());
+    return { maxFeePerGas: gasPrice, maxPriorityFeePerGas: gasPrice };
+  }
+
+  private capFees(fees: Fees): Fees {
+    const cap = this.options.maxFeePerGas;
+    if (!cap || fees.maxFeePerGas.lte(cap)) {
+      return fees;
+    }
+    return { maxFeePerGas: cap, maxPriorityFeePerGas: min(fees.maxPriorityFeePerGas, cap) };
+  }
+
+  private getProvider(chainId: number): ethers.providers.Provider {
+    for (const [key, signer] of this.signers) {
+      if (key.startsWith(`${chainId}:`) && signer.provider) {
+        return signer.provider;
+      }
+    }
+    return chainRegistry.getProvider(chainId);
+  }
+
+  private getSigner(chainId: number, address: string): ethers.Signer | undefined {
+    return this.signers.get(`${chainId}:${address}`);
+  }
+}
+
+const submission = (
+  hash: string,
+  kind: RelayerTransactionSubmission['kind'],
+  fees: Fees,
+  submittedAt: number
+): RelayerTransactionSubmission => ({
+  hash: hash.toLowerCase(),
+  kind,
+  maxFeePerGas: fees.maxFeePerGas.toString(),
+  maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+  submittedAt,
+});
+
+const max = (a: ethers.BigNumber, b: ethers.BigNumber) => (a.gt(b) ? a : b);
+const min = (a: ethers.BigNumber, b: ethers.BigNumber) => (a.lt(b) ? a : b);
+
+/**
+ * Lifecycle options from the RELAYER_TX_* environment variables
+ */
+export const lifecycleOptionsFromEnv = (): TransactionLifecycleOptions => {
+  const number = (name: string, fallback: number) => {
+    const value = parseInt(process.env[name] || '', 10);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+  const maxFeeGwei = process.env.RELAYER_TX_MAX_FEE_GWEI;
+
+  return {
+    pollIntervalMs: number('RELAYER_TX_POLL_INTERVAL_MS', 5000),
+    speedUpAfterMs: number('RELAYER_TX_SPEED_UP_AFTER_MS', 60000),
+    cancelAfterMs: number('RELAYER_TX_CANCEL_AFTER_MS', 600000),
+    feeBumpPercent: number('RELAYER_TX_FEE_BUMP_PERCENT', 15),
+    maxFeePerGas: maxFeeGwei ? ethers.utils.parseUnits(maxFeeGwei, 'gwei') : undefined,
+  };
+};
+
+export const relayerTransactions = TransactionTracker.getInstance();
@@ -7,11 +7,11 @@ import { ethers } from 'ethers';
 import { RyzerSDK } from 'ryzer-sdk';
 import { getDatabase, RyzerWalletDB } from '../../config/database';
 import { logger } from '../../utils/logger';
-import { SUPPORTED_NETWORKS } from '../../config/networks';
 import { smartAccountClients, pimlicoClients, providers, NetworkConfig } from '../relayerService';
 import { createAuditLog } from '../../audit';
 import { v4 as uuidv4 } from 'uuid';
 import CrossChainService from '../crosschain';
+import chainRegistry from '../chain-registry';
 
 // Contract addresses from environment variables or defaults
 const FACTORY_ADDRESS = process.env.RYZER_FACTORY_ADDRESS || '0x1234567890123456789012345678901234567890';
@@ -21,6 +21,34 @@ const PAYMASTER_ADDRESS = process.env.RYZER_PAYMASTER_ADDRESS || '0x123456789012
 // SDK instances for each network
 const sdkInstances: Record<string, RyzerSDK> = {};
 
+/**
+ * Create SDK instances for every chain in the registry
+ */
+const createSDKInstances = (): void => {
+  for (const chainId of Object.keys(sdkInstances)) {
+    if (!chainRegistry.isSupported(chainId)) {
+      delete sdkInstances[chainId];
+    }
+  }
+
+  for (const networkConfig of chainRegistry.getChains()) {
+    const chainId = networkConfig.chainId;
+    const provider = chainRegistry.getProvider(chainId);
+    
+    // Create SDK instance for this network
+    const sdk = new RyzerSDK({
+      provider,
+      factoryAddress: FACTORY_ADDRESS,
+      entryPointAddress: ENTRY_POINT_ADDRESS,
+      paymasterAddress: PAYMASTER_ADDRESS
+    });
+    
+    // Store the SDK instance
+    sdkInstances[chainId] = sdk;
+    logger.info(`SDK initialized for network: ${networkConfig.name} (${chainId})`);
+  }
+};
+
 /**
  * Initialize SDK instances for all supported networks
  */
@@ -28,21 +56,8 @@ export const initializeSDK = async (): Promise<void> => {
   try {
     logger.info('Initializing RyzerWallet SDK for all supported networks');
     
-    for (const [chainId, networkConfig] of Object.entries(SUPPORTED_NETWORKS)) {
-      const provider = new ethers.providers.JsonRpcProvider(networkConfig.rpcUrl);
-      
-      // Create SDK instance for this network
-      const sdk = new RyzerSDK({
-        provider,
-        factoryAddress: FACTORY_ADDRESS,
-        entryPointAddress: ENTRY_POINT_ADDRESS,
-        paymasterAddress: PAYMASTER_ADDRESS
-      });
-      
-      // Store the SDK instance
-      sdkInstances[chainId] = sdk;
-      logger.info(`SDK initialized for network: ${networkConfig.name} (${chainId})`);
-    }
+    createSDKInstances();
+    chainRegistry.on('updated', createSDKInstances);
     
     logger.info('SDK initialization completed successfully');
   } catch (error) {
@@ -65,14 +80,14 @@ export const getSDK = (chainId: string | number): RyzerSDK => {
 };
 
 /**
- * Connect SDK to a wallet using private key
+ * Connect SDK to a signer
  * @param chainId - Chain ID of the network
- * @param privateKey - Private key for signing transactions
+ * @param signer - Signer for transactions, e.g. an HSMSigner, or a private key
  * @returns Connected SDK instance
  */
-export const connectSDK = (chainId: string | number, privateKey: string): RyzerSDK => {
+export const connectSDK = (chainId: string | number, signer: ethers.Signer | string): RyzerSDK => {
   const sdk = getSDK(chainId);
-  return sdk.connect(privateKey);
+  return sdk.connect(signer);
 };
 
 /**
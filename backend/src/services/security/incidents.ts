@@ -0,0 +1,456 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../utils/logger';
+import { getDatabase, RyzerWalletDB } from '../../config/database';
+import { createAuditLog, AuditAction, AuditLog, AuditTargetType } from '../audit';
+
+export type SecurityIncident = RyzerWalletDB['security_incidents']['value'];
+export type IncidentNote = SecurityIncident['notes'][number];
+export type IncidentSource = SecurityIncident['source'];
+
+export enum IncidentSeverity {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+  CRITICAL = 'critical',
+}
+
+export enum IncidentStatus {
+  OPEN = 'open',
+  INVESTIGATING = 'investigating',
+  RESOLVED = 'resolved',
+  FALSE_POSITIVE = 'false_positive',
+}
+
+// Status changes an analyst may make; closed incidents can only be reopened
+const TRANSITIONS: Record<IncidentStatus, IncidentStatus[]> = {
+  [IncidentStatus.OPEN]: [IncidentStatus.INVESTIGATING, IncidentStatus.RESOLVED, IncidentStatus.FALSE_POSITIVE],
+  [IncidentStatus.INVESTIGATING]: [IncidentStatus.OPEN, IncidentStatus.RESOLVED, IncidentStatus.FALSE_POSITIVE],
+  [IncidentStatus.RESOLVED]: [IncidentStatus.OPEN],
+  [IncidentStatus.FALSE_POSITIVE]: [IncidentStatus.OPEN],
+};
+
+const ACTIVE_STATUSES: string[] = [IncidentStatus.OPEN, IncidentStatus.INVESTIGATING];
+
+const SEVERITY_ORDER: IncidentSeverity[] = [
+  IncidentSeverity.LOW,
+  IncidentSeverity.MEDIUM,
+  IncidentSeverity.HIGH,
+  IncidentSeverity.CRITICAL,
+];
+
+const HOUR = 60 * 60 * 1000;
+
+// Largest timestamp in index ranges
+const MAX_TIMESTAMP = Number.MAX_SAFE_INTEGER;
+
+const MAX_NOTE_LENGTH = 4000;
+
+// Who opens incidents on behalf of the detectors
+const SYSTEM_ACTOR = 'incident-response';
+
+/**
+ * Incident error
+ */
+export class IncidentError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'IncidentError';
+  }
+}
+
+// A detection to open an incident for, or to group into an active one
+export interface IncidentDetection {
+  tenantId: string;
+  userId: string;
+  source: IncidentSource;
+  severity: IncidentSeverity;
+  title: string;
+  eventId?: string;
+  ruleIds?: string[];
+  auditLogId?: string; // Audit log of the action the detection caused
+  note?: string;
+}
+
+// Incidents listed in the queue
+export interface IncidentFilters {
+  status?: IncidentStatus;
+  severity?: IncidentSeverity;
+  assignee?: string;
+  userId?: string;
+  limit?: number;
+}
+
+// Changes an analyst may make to an incident
+export interface IncidentUpdate {
+  assignee?: string | null; // null unassigns the incident
+  severity?: IncidentSeverity;
+}
+
+// Security incident options
+export interface SecurityIncidentOptions {
+  groupWindowMs: number; // Detections this close to an active incident's last event join it
+}
+
+/**
+ * Security Incident Service
+ *
+ * Opens an incident when intrusion detection blocks an operation or locks an
+ * account, or when a wallet is put into emergency lockdown. Detections for a
+ * user with an active incident whose last event is within the grouping
+ * window join that incident, raising its severity if needed. Analysts assign
+ * incidents, move them through open, investigating, resolved and
+ * false-positive, and leave notes; every change is audited and the audit
+ * logs are linked to the incident.
+ */
+export class SecurityIncidentService {
+  private static instance: SecurityIncidentService;
+
+  private constructor(private readonly options: SecurityIncidentOptions) {}
+
+  /**
+   * Get the singleton instance of SecurityIncidentService
+   */
+  public static getInstance(): SecurityIncidentService {
+    if (!SecurityIncidentService.instance) {
+      const hours = parseInt(process.env.INCIDENT_GROUP_WINDOW_HOURS || '', 10);
+      SecurityIncidentService.instance = new SecurityIncidentService({
+        groupWindowMs: (Number.isFinite(hours) && hours > 0 ? hours : 24) * HOUR,
+      });
+    }
+    return SecurityIncidentService.instance;
+  }
+
+  /**
+   * Open an incident for a detection, or group it into the user's active incident
+   * @param detection Detection
+   * @returns The incident the detection belongs to
+   */
+  public async recordDetection(detection: IncidentDetection): Promise<SecurityIncident> {
+    const db = await getDatabase();
+    const { tenantId, userId } = detection;
+
+    return db.withExclusiveLock(`security_incidents:${tenantId}:${userId}`, async () => {
+      const now = Date.now();
+      const active = await db.getAllFromIndex('security_incidents', 'by-user', {
+        lower: [tenantId, userId, now - this.options.groupWindowMs],
+        upper: [tenantId, userId, MAX_TIMESTAMP],
+      });
+      const current = active.filter(incident => ACTIVE_STATUSES.includes(incident.status)).pop();
+
+      if (current) {
+        if (detection.eventId && !current.eventIds.includes(detection.eventId)) {
+          current.eventIds.push(detection.eventId);
+        }
+        current.ruleIds = union(current.ruleIds, detection.ruleIds || []);
+        if (detection.auditLogId) {
+          current.auditLogIds.push(detection.auditLogId);
+        }
+        if (detection.note) {
+          current.notes.push(note(SYSTEM_ACTOR, detection.note, now));
+        }
+        current.severity = moreSevere(current.severity as IncidentSeverity, detection.severity);
+        current.lastEventAt = now;
+        current.updatedAt = now;
+        await db.put('security_incidents', current);
+        return current;
+      }
+
+      const incident: SecurityIncident = {
+        id: uuidv4(),
+        tenantId,
+        userId,
+        source: detection.source,
+        title: detection.title,
+        severity: detection.severity,
+        status: IncidentStatus.OPEN,
+        eventIds: detection.eventId ? [detection.eventId] : [],
+        ruleIds: union([], detection.ruleIds || []),
+        auditLogIds: detection.auditLogId ? [detection.auditLogId] : [],
+        notes: detection.note ? [note(SYSTEM_ACTOR, detection.note, now)] : [],
+        transitions: [],
+        openedAt: now,
+        lastEventAt: now,
+        updatedAt: now,
+      };
+      await this.save(incident, AuditAction.INCIDENT_OPENED, SYSTEM_ACTOR, {
+        userId,
+        source: incident.source,
+        severity: incident.severity,
+      });
+      logger.warn(`Security incident ${incident.id} opened for user ${userId} in tenant ${tenantId}: ${incident.title}`);
+      return incident;
+    });
+  }
+
+  /**
+   * Get an incident of a tenant
+   * @param incidentId Incident ID
+   * @param tenantId Tenant
+   * @throws IncidentError if the tenant has no such incident
+   */
+  public async getIncident(incidentId: string, tenantId: string): Promise<SecurityIncident> {
+    const db = await getDatabase();
+    const incident = await db.get('security_incidents', incidentId);
+    if (!incident || incident.tenantId !== tenantId) {
+      throw new IncidentError('Incident not found', 404);
+    }
+    return incident;
+  }
+
+  /**
+   * List the incidents of a tenant, newest first
+   * @param tenantId Tenant
+   * @param filters Filters
+   */
+  public async listIncidents(tenantId: string, filters: IncidentFilters = {}): Promise<SecurityIncident[]> {
+    const db = await getDatabase();
+    const incidents = filters.userId
+      ? await db.getAllFromIndex('security_incidents', 'by-user', {
+          lower: [tenantId, filters.userId, 0],
+          upper: [tenantId, filters.userId, MAX_TIMESTAMP],
+        })
+      : await db.getAllFromIndex('security_incidents', 'by-tenant', {
+          lower: [tenantId, 0],
+          upper: [tenantId, MAX_TIMESTAMP],
+        });
+
+    return incidents
+      .filter(
+        incident =>
+          (!filters.status || incident.status === filters.status) &&
+          (!filters.severity || incident.severity === filters.severity) &&
+          (!filters.assignee || incident.assignee === filters.assignee)
+      )
+      .sort((a, b) => b.openedAt - a.openedAt)
+      .slice(0, filters.limit ?? 100);
+  }
+
+  /**
+   * Get the security events and audit logs linked to an incident, oldest first
+   * @param incident Incident
+   */
+  public async getLinkedRecords(
+    incident: SecurityIncident
+  ): Promise<{ events: RyzerWalletDB['security_events']['value'][]; auditLogs: AuditLog[] }> {
+    const db = await getDatabase();
+    const events = await Promise.all(incident.eventIds.map(id => db.get('security_events', id)));
+    const auditLogs = await Promise.all(incident.auditLogIds.map(id => db.get('audit_logs', id)));
+
+    return {
+      events: events.filter(isDefined).sort((a, b) => a.timestamp - b.timestamp),
+      auditLogs: (auditLogs.filter(isDefined) as AuditLog[]).sort((a, b) => a.timestamp - b.timestamp),
+    };
+  }
+
+  /**
+   * Assign an incident or change its severity
+   * @param incidentId Incident ID
+   * @param tenantId Tenant
+   * @param update Changes
+   * @param performedBy Who changed the incident
+   * @returns The updated incident
+   */
+  public async updateIncident(
+    incidentId: string,
+    tenantId: string,
+    update: IncidentUpdate,
+    performedBy: string
+  ): Promise<SecurityIncident> {
+    if (update.severity !== undefined && !SEVERITY_ORDER.includes(update.severity)) {
+      throw new IncidentError(`severity must be one of ${SEVERITY_ORDER.join(', ')}`);
+    }
+
+    return this.modify(incidentId, tenantId, async incident => {
+      const changes: Record<string, unknown> = {};
+      if (update.assignee !== undefined && (update.assignee || undefined) !== incident.assignee) {
+        changes.assignee = { from: incident.assignee ?? null, to: update.assignee || null };
+        incident.assignee = update.assignee || undefined;
+      }
+      if (update.severity !== undefined && update.severity !== incident.severity) {
+        changes.severity = { from: incident.severity, to: update.severity };
+        incident.severity = update.severity;
+      }
+      if (Object.keys(changes).length > 0) {
+        await this.save(incident, AuditAction.INCIDENT_UPDATED, performedBy, changes);
+      }
+    });
+  }
+
+  /**
+   * Move an incident to another status
+   * @param incidentId Incident ID
+   * @param tenantId Tenant
+   * @param status New status
+   * @param performedBy Who changed the status
+   * @param comment Why, kept with the transition
+   * @returns The updated incident
+   * @throws IncidentError if the incident cannot move to the status
+   */
+  public async transitionIncident(
+    incidentId: string,
+    tenantId: string,
+    status: IncidentStatus,
+    performedBy: string,
+    comment?: string
+  ): Promise<SecurityIncident> {
+    if (!Object.values(IncidentStatus).includes(status)) {
+      throw new IncidentError(`status must be one of ${Object.values(IncidentStatus).join(', ')}`);
+    }
+    const text = comment === undefined ? undefined : noteBody(comment);
+
+    return this.modify(incidentId, tenantId, async incident => {
+      const from = incident.status as IncidentStatus;
+      if (!TRANSITIONS[from].includes(status)) {
+        throw new IncidentError(`Incident cannot move from ${from} to ${status}`, 409);
+      }
+
+      const now = Date.now();
+      incident.status = status;
+      incident.closedAt = ACTIVE_STATUSES.includes(status) ? undefined : now;
+      incident.transitions.push({ from, to: status, performedBy, timestamp: now, ...(text ? { comment: text } : {}) });
+
+      await this.save(incident, AuditAction.INCIDENT_STATUS_CHANGED, performedBy, { from, to: status, comment: text });
+      logger.info(`Security incident ${incident.id} moved from ${from} to ${status} by ${performedBy}`);
+    });
+  }
+
+  /**
+   * Add a note to an incident
+   * @param incidentId Incident ID
+   * @param tenantId Tenant
+   * @param author Who wrote the note
+   * @param body Note
+   * @returns The updated incident
+   */
+  public async addNote(incidentId: string, tenantId: string, author: string, body: string): Promise<SecurityIncident> {
+    const text = noteBody(body);
+    return this.modify(incidentId, tenantId, async incident => {
+      const added = note(author, text, Date.now());
+      incident.notes.push(added);
+      await this.save(incident, AuditAction.INCIDENT_NOTE_ADDED, author, { noteId: added.id });
+    });
+  }
+
+  /**
+   * Add a note to the active incidents of a user, such as the justification of an unlock
+   * @param tenantId Tenant
+   * @param userId User the incidents are about
+   * @param author Who wrote the note
+   * @param body Note
+   * @param auditLogId Audit log of the action the note records
+   * @returns The incidents noted
+   */
+  public async noteActiveIncidents(
+    tenantId: string,
+    userId: string,
+    author: string,
+    body: string,
+    auditLogId?: string
+  ): Promise<SecurityIncident[]> {
+    const db = await getDatabase();
+    return db.withExclusiveLock(`security_incidents:${tenantId}:${userId}`, async () => {
+      const incidents = (await this.listIncidents(tenantId, { userId })).filter(incident =>
+        ACTIVE_STATUSES.includes(incident.status)
+      );
+
+      const now = Date.now();
+      for (const incident of incidents) {
+        incident.notes.push(note(author, body, now));
+        if (auditLogId) {
+          incident.auditLogIds.push(auditLogId);
+        }
+        incident.updatedAt = now;
+        await db.put('security_incidents', incident);
+      }
+      return incidents;
+    });
+  }
+
+  /**
+   * Change an incident while holding the lock of its user
+   * @param incidentId Incident ID
+   * @param tenantId Tenant
+   * @param change Change, which saves the incident if it modified it
+   */
+  private async modify(
+    incidentId: string,
+    tenantId: string,
+    change: (incident: SecurityIncident) => Promise<void>
+  ): Promise<SecurityIncident> {
+    const db = await getDatabase();
+    const { userId } = await this.getIncident(incidentId, tenantId);
+
+    return db.withExclusiveLock(`security_incidents:${tenantId}:${userId}`, async () => {
+      const incident = await this.getIncident(incidentId, tenantId);
+      await change(incident);
+      return incident;
+    });
+  }
+
+  /**
+   * Audit a change to an incident, link the audit log and store the incident
+   * @param incident Changed incident
+   * @param action Audit action
+   * @param performedBy Who changed the incident
+   * @param details Additional details
+   */
+  private async save(
+    incident: SecurityIncident,
+    action: AuditAction,
+    performedBy: string,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    incident.updatedAt = Date.now();
+    try {
+      const auditLog = await createAuditLog({
+        action,
+        userId: performedBy,
+        performedBy,
+        category: 'security',
+        status: 'success',
+        targetId: incident.id,
+        targetType: AuditTargetType.SECURITY_INCIDENT,
+        details: { tenantId: incident.tenantId, ...details },
+      });
+      incident.auditLogIds.push(auditLog.id);
+    } catch (error) {
+      logger.error(`Error creating ${action} audit log:`, error);
+    }
+
+    const db = await getDatabase();
+    await db.put('security_incidents', incident);
+  }
+}
+
+/**
+ * Validate the text of a note
+ * @param body Text
+ * @throws IncidentError if it is empty or too long
+ */
+const noteBody = (body: string): string => {
+  const text = typeof body === 'string' ? body.trim() : '';
+  if (!text) {
+    throw new IncidentError('Note must not be empty');
+  }
+  if (text.length > MAX_NOTE_LENGTH) {
+    throw new IncidentError(`Note must be at most ${MAX_NOTE_LENGTH} characters`);
+  }
+  return text;
+};
+
+const note = (author: string, body: string, createdAt: number): IncidentNote => ({
+  id: uuidv4(),
+  author,
+  body,
+  createdAt,
+});
+
+const moreSevere = (a: IncidentSeverity, b: IncidentSeverity): IncidentSeverity =>
+  SEVERITY_ORDER.indexOf(b) > SEVERITY_ORDER.indexOf(a) ? b : a;
+
+const union = (a: string[], b: string[]): string[] => Array.from(new Set([...a, ...b]));
+
+const isDefined = <T>(value: T | undefined): value is T => value !== undefined;
+
+// Export singleton instance
+export const securityIncidents = SecurityIncidentService.getInstance();
@@ -1,774 +1,770 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import YAML from 'yaml';
 import { logger } from '../../utils/logger';
-import { militaryGradeEncryption } from './militaryGradeEncryption';
+import { getDatabase, RyzerWalletDB } from '../../config/database';
+import { createAuditLog, AuditAction, AuditTargetType } from '../audit';
+import { DEFAULT_TENANT } from './militaryGradeEncryption';
+import { IncidentSeverity, securityIncidents } from './incidents';
+import {
+  AddressReputationProvider,
+  DEFAULT_RULES,
+  Detection,
+  GeoLocation,
+  IntrusionDetectionError,
+  RuleAction,
+  RuleDecision,
+  RuleEvent,
+  RuleSet,
+  SecurityEventType,
+  evaluateRules,
+  historyWindow,
+  parseGeoLocation,
+  parseRuleSet,
+  validateRuleSet,
+} from './intrusionRules';
 
-/**
- * Security event types for intrusion detection
- */
-export enum SecurityEventType {
-  LOGIN_ATTEMPT = 'login_attempt',
-  SUCCESSFUL_AUTH = 'successful_auth',
-  FAILED_AUTH = 'failed_auth',
-  KEY_GENERATION = 'key_generation',
-  KEY_EXPORT = 'key_export',
-  TRANSACTION_SIGNED = 'transaction_signed',
-  MESSAGE_SIGNED = 'message_signed',
-  SETTINGS_CHANGE = 'settings_change',
-  RECOVERY_ATTEMPT = 'recovery_attempt',
-  SUSPICIOUS_ACTIVITY = 'suspicious_activity',
-  LOCKDOWN_INITIATED = 'lockdown_initiated',
-  LOCKDOWN_RELEASED = 'lockdown_released'
-}
+export * from './intrusionRules';
 
-/**
- * Security event data structure
- */
-export interface SecurityEvent {
-  eventId: string;
+export type SecurityEvent = RyzerWalletDB['security_events']['value'];
+export type AccountLockout = RyzerWalletDB['security_lockouts']['value'];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Largest timestamp in index ranges
+const MAX_TIMESTAMP = Number.MAX_SAFE_INTEGER;
+
+// Changed decisions listed in a dry-run report
+const DRY_RUN_SAMPLE_SIZE = 100;
+
+// Who locks accounts on behalf of the rules
+const SYSTEM_ACTOR = 'intrusion-detection';
+
+// An event to record and decide
+export interface SecurityEventInput {
   userId: string;
   eventType: SecurityEventType;
-  eventData: any;
-  ipAddress: string;
-  timestamp: number;
+  tenantId?: string;
+  ipAddress?: string;
+  deviceId?: string;
+  location?: GeoLocation | string; // Strings as accepted by parseGeoLocation
+  amount?: number | string;
+  destination?: string;
+  operation?: string;
+  mfaVerified?: boolean; // Satisfies a step-up MFA decision
+  data?: Record<string, any>;
 }
 
 /**
  * Result of intrusion analysis
  */
 export interface IntrusionAnalysisResult {
+  eventId?: string; // Unset when the event could not be recorded
   allowed: boolean;
+  action: RuleAction;
   reason: string;
   riskScore: number;
-  actionTaken: 'allowed' | 'additional_verification' | 'account_locked' | 'blocked';
+  detections: Detection[];
+}
+
+// A tenant's rule set as stored
+export interface RuleSetInfo {
+  tenantId: string;
+  revision: number; // 0 for the default rule set
+  format: 'json' | 'yaml';
+  source: string;
+  ruleSet: RuleSet;
+  updatedBy?: string;
+  updatedAt?: number;
+}
+
+// Events replayed by a dry run
+export interface DryRunOptions {
+  from?: number; // Defaults to the retention period
+  to?: number; // Defaults to now
+  userId?: string;
+}
+
+// A decision a proposed rule set would change
+export interface DryRunChange {
+  eventId: string;
+  userId: string;
+  eventType: string;
+  timestamp: number;
+  recorded: { action: RuleAction; riskScore: number };
+  proposed: RuleDecision;
+}
+
+// Outcome of replaying recorded events against a proposed rule set
+export interface DryRunReport {
+  tenantId: string;
+  ruleSet: string;
+  from: number;
+  to: number;
+  evaluated: number;
+  actions: Record<RuleAction, number>; // Decisions under the proposed rules
+  recordedActions: Record<RuleAction, number>; // Decisions taken when the events were recorded
+  ruleMatches: Record<string, number>;
+  changed: number;
+  changes: DryRunChange[]; // The first DRY_RUN_SAMPLE_SIZE changes
+}
+
+// Intrusion detection options
+export interface IntrusionDetectionOptions {
+  defaultRulesFile?: string; // JSON or YAML rule set for tenants without their own
+  retentionMs: number;
+  dryRunMaxEvents: number;
 }
 
 /**
  * Intrusion Detection and Prevention Service
- * 
- * Provides military-grade security through advanced intrusion detection
- * and prevention mechanisms for wallet operations.
+ *
+ * Records security events and decides them with rules that security teams
+ * declare in JSON or YAML: velocity limits, new devices and places, amount
+ * deviation, destination reputation and impossible travel. Every matched
+ * rule adds its weight to the risk score and demands at least its action;
+ * the rule set's thresholds escalate the action as the score grows. Each
+ * tenant has its own rule set, falling back to the default one, and a
+ * proposed rule set can be dry-run against the recorded events before it is
+ * applied. Events, rule sets and lockouts are persisted in the database;
+ * blocking and locking decisions open security incidents for analysts.
  */
 export class IntrusionDetectionService {
   private static instance: IntrusionDetectionService;
-  
-  // Maps to store security events and anomaly scores
-  private securityEvents: Map<string, SecurityEvent[]> = new Map();
-  private userAnomalyScores: Map<string, number> = new Map();
-  private ipBlacklist: Set<string> = new Set();
-  private userLockouts: Map<string, number> = new Map();
-  
-  // Constants
-  private readonly ANOMALY_THRESHOLD = 0.7; // 0.0 to 1.0
-  private readonly EVENT_RETENTION_DAYS = 90;
-  private readonly LOCKOUT_DURATION = 30 * 60 * 1000; // 30 minutes
-  
-  private constructor() {
-    // Start periodic cleanup of old events
-    setInterval(() => this.cleanupOldEvents(), 24 * 60 * 60 * 1000); // Daily
+
+  private defaultRuleSet: RuleSetInfo | null = null;
+  private ruleSets: Map<string, RuleSetInfo> = new Map();
+  private reputation?: AddressReputationProvider;
+
+  private constructor(private readonly options: IntrusionDetectionOptions) {
+    // Drop events past the retention period daily
+    setInterval(() => {
+      this.pruneEvents().catch(error => logger.error('Failed to prune security events:', error));
+    }, DAY).unref();
   }
-  
+
   /**
    * Get the singleton instance of IntrusionDetectionService
    */
   public static getInstance(): IntrusionDetectionService {
     if (!IntrusionDetectionService.instance) {
-      IntrusionDetectionService.instance = new IntrusionDetectionService();
+      IntrusionDetectionService.instance = new IntrusionDetectionService({
+        defaultRulesFile: process.env.IDS_DEFAULT_RULES_FILE || undefined,
+        retentionMs: envInt('IDS_EVENT_RETENTION_DAYS', 90) * DAY,
+        dryRunMaxEvents: envInt('IDS_DRY_RUN_MAX_EVENTS', 10000),
+      });
     }
     return IntrusionDetectionService.instance;
   }
-  
+
   /**
-   * Reset anomaly score for a user
-   * @param userId User identifier
+   * Set the provider `destination-reputation` rules with a `minRisk` consult
+   * @param provider Reputation provider
    */
-  public resetAnomalyScore(userId: string): void {
-    this.userAnomalyScores.set(userId, 0);
-    logger.info(`Reset anomaly score for user: ${userId}`);
-    
-    // Also clear any lockouts for this user
-    if (this.userLockouts.has(userId)) {
-      this.userLockouts.delete(userId);
-      logger.info(`Cleared lockout for user: ${userId}`);
-    }
+  public setReputationProvider(provider: AddressReputationProvider): void {
+    this.reputation = provider;
   }
 
   /**
-   * Check if an operation is allowed based on security policies
-   * @param userId User identifier
-   * @param operationType Type of operation being performed
-   * @param operationData Additional data about the operation
-   * @returns Analysis result indicating if operation is allowed
+   * Record a security event and decide it under the tenant's rule set.
+   * Fails closed: an event that cannot be evaluated is blocked.
+   * @param input Event
+   * @returns Decision; the operation may proceed only if `allowed`
    */
-  public isOperationAllowed(
-    userId: string,
-    operationType: string,
-    operationData: any
-  ): IntrusionAnalysisResult {
+  public async recordEvent(input: SecurityEventInput): Promise<IntrusionAnalysisResult> {
     try {
-      // Get current anomaly score for user
-      const anomalyScore = this.userAnomalyScores.get(userId) || 0;
-      
-      // Check if user is locked out
-      const lockoutTime = this.userLockouts.get(userId);
-      if (lockoutTime && Date.now() < lockoutTime) {
-        const remainingMinutes = Math.ceil((lockoutTime - Date.now()) / (60 * 1000));
-        logger.warn(`Operation blocked for locked out user: ${userId}`);
-        return {
-          allowed: false,
-          reason: `Account is temporarily locked. Try again in ${remainingMinutes} minutes.`,
-          riskScore: 1.0,
-          actionTaken: 'blocked'
-        };
+      const db = await getDatabase();
+      const event = normalizeEvent(input);
+      const lockout = await this.getLockout(event.userId, event.tenantId);
+
+      // Events of a locked account are recorded without evaluating rules
+      let decision: RuleDecision = { riskScore: 1, action: RuleAction.LOCK, detections: [] };
+      let revision = 0;
+      let auditLogId: string | undefined;
+      if (!lockout) {
+        const { ruleSet, revision: current } = await this.loadRuleSet(event.tenantId);
+        const history = await this.loadHistory(event.tenantId, event.userId, event.timestamp - historyWindow(ruleSet));
+        decision = await evaluateRules(ruleSet, event, history, {
+          tenantId: event.tenantId,
+          reputation: this.reputation,
+        });
+        revision = current;
+
+        if (decision.action === RuleAction.LOCK) {
+          auditLogId = await this.lock(event, decision, ruleSet.lockDuration);
+        } else if (decision.action === RuleAction.BLOCK) {
+          auditLogId = await this.audit(
+            AuditAction.SECURITY_EVENT_BLOCKED,
+            event.id,
+            AuditTargetType.SECURITY_EVENT,
+            SYSTEM_ACTOR,
+            { tenantId: event.tenantId, userId: event.userId, eventType: event.eventType, detections: decision.detections }
+          );
+        }
       }
-      
-      // Check anomaly score against threshold
-      if (anomalyScore >= this.ANOMALY_THRESHOLD) {
-        logger.warn(`Operation blocked due to high risk score (${anomalyScore}) for user: ${userId}`);
-        return {
-          allowed: false,
-          reason: 'Security risk score exceeds threshold',
-          riskScore: anomalyScore,
-          actionTaken: 'additional_verification'
-        };
+
+      await db.put('security_events', {
+        ...event,
+        riskScore: decision.riskScore,
+        action: decision.action,
+        detections: decision.detections,
+        ruleSetRevision: revision,
+      });
+
+      const allowed =
+        decision.action === RuleAction.ALLOW || (decision.action === RuleAction.STEP_UP_MFA && !!input.mfaVerified);
+      const reason = lockout
+        ? `Account is locked until ${new Date(lockout.lockedUntil).toISOString()}`
+        : describeDecision(decision, allowed);
+
+      // Blocked operations, lockouts and attempts while locked are grouped into the user's incident
+      if (decision.action === RuleAction.LOCK || decision.action === RuleAction.BLOCK) {
+        await this.openIncident(event, decision, reason, auditLogId);
       }
-      
-      // Check operation-specific rules
-      if (operationType === 'key_export' || operationType === 'high_value_transaction') {
-        // These operations require additional scrutiny
-        if (anomalyScore >= this.ANOMALY_THRESHOLD * 0.7) {
-          logger.warn(`Sensitive operation ${operationType} requires additional verification for user: ${userId}`);
-          return {
-            allowed: false,
-            reason: 'Sensitive operation requires additional verification',
-            riskScore: anomalyScore,
-            actionTaken: 'additional_verification'
-          };
-        }
+
+      if (!allowed) {
+        logger.warn(`Security event ${event.eventType} for user ${event.userId}: ${reason}`, {
+          tenantId: event.tenantId,
+          riskScore: decision.riskScore,
+        });
       }
-      
-      // Operation is allowed
+
       return {
-        allowed: true,
-        reason: 'Operation allowed',
-        riskScore: anomalyScore,
-        actionTaken: 'allowed'
+        eventId: event.id,
+        allowed,
+        action: decision.action,
+        reason,
+        riskScore: decision.riskScore,
+        detections: decision.detections,
       };
     } catch (error) {
-      logger.error('Error checking operation permission:', error);
-      // Default to blocking on error
+      logger.error('Failed to record security event:', error);
       return {
         allowed: false,
+        action: RuleAction.BLOCK,
         reason: 'Security check failed',
-        riskScore: 1.0,
-        actionTaken: 'blocked'
+        riskScore: 1,
+        detections: [],
       };
     }
   }
-  
+
   /**
-   * Record a security event and analyze for potential intrusions
+   * Get recorded events of a user, newest first
    * @param userId User identifier
-   * @param eventType Type of security event
-   * @param eventData Event data
-   * @returns Analysis result
+   * @param tenantId Tenant
+   * @param limit Maximum number of events
    */
-  public recordEvent(
+  public async getUserEvents(
     userId: string,
-    eventType: SecurityEventType,
-    eventData: any
-  ): IntrusionAnalysisResult {
-    try {
-      // Create security event
-      const event: SecurityEvent = {
-        userId,
-        eventType,
-        eventData,
-        ipAddress: eventData?.ipAddress || '0.0.0.0',
-        timestamp: Date.now(),
-        eventId: militaryGradeEncryption.generateNonce(16)
-      };
-      
-      // Store event
-      const userEvents = this.securityEvents.get(userId) || [];
-      userEvents.push(event);
-      this.securityEvents.set(userId, userEvents);
-      
-      // Analyze event for anomalies
-      const anomalyScore = this.analyzeEvent(event, userEvents);
-      
-      // Update user anomaly score (weighted average)
-      const currentScore = this.userAnomalyScores.get(userId) || 0;
-      const newScore = (currentScore * 0.7) + (anomalyScore * 0.3);
-      this.userAnomalyScores.set(userId, newScore);
-      
-      // Determine action based on anomaly score
-      let actionTaken: 'allowed' | 'additional_verification' | 'account_locked' | 'blocked' = 'allowed';
-      let reason = 'Event recorded';
-      
-      if (newScore >= this.ANOMALY_THRESHOLD) {
-        // Lock the account if score is too high
-        this.userLockouts.set(userId, Date.now() + this.LOCKOUT_DURATION);
-        actionTaken = 'account_locked';
-        reason = 'Account locked due to suspicious activity';
-        logger.warn(`Account locked for user ${userId} due to high risk score: ${newScore}`);
-      } else if (newScore >= this.ANOMALY_THRESHOLD * 0.7) {
-        actionTaken = 'additional_verification';
-        reason = 'Additional verification required due to elevated risk';
-        logger.info(`Additional verification required for user ${userId}, risk score: ${newScore}`);
-      }
-      
-      return {
-        allowed: actionTaken === 'allowed',
-        reason,
-        riskScore: newScore,
-        actionTaken
-      };
-    } catch (error) {
-      logger.error('Error recording security event:', error);
-      return {
-        allowed: false,
-        reason: 'Error processing security event',
-        riskScore: 1.0,
-        actionTaken: 'blocked'
-      };
-    }
+    tenantId: string = DEFAULT_TENANT,
+    limit: number = 100
+  ): Promise<SecurityEvent[]> {
+    const events = await this.loadHistory(tenantId, userId, 0);
+    return events.reverse().slice(0, limit);
   }
-  
+
   /**
-   * Analyze a security event for anomalies
-   * @param event Current event to analyze
-   * @param userEvents Previous events for the user
-   * @returns Anomaly score between 0.0 and 1.0
+   * Get the active lockout of a user
+   * @param userId User identifier
+   * @param tenantId Tenant
+   * @returns Lockout, or undefined if the account is not locked
    */
-  private analyzeEvent(event: SecurityEvent, userEvents: SecurityEvent[]): number {
-    // Base risk score
-    let riskScore = 0.1;
-    
-    // Analyze based on event type
-    switch (event.eventType) {
-      case SecurityEventType.FAILED_AUTH:
-        // Count recent failed auth attempts
-        const recentFailedAttempts = userEvents
-          .filter(e => e.eventType === SecurityEventType.FAILED_AUTH)
-          .filter(e => e.timestamp > Date.now() - 30 * 60 * 1000) // Last 30 minutes
-          .length;
-        
-        // Increase risk score based on number of failed attempts
-        riskScore += Math.min(recentFailedAttempts * 0.1, 0.5);
-        break;
-        
-      case SecurityEventType.KEY_EXPORT:
-        // Key exports are sensitive operations
-        riskScore += 0.3;
-        
-        // Check if this is an unusual time for this user
-        const userActiveHours = this.getUserActiveHours(userEvents);
-        const currentHour = new Date().getHours();
-        if (!userActiveHours.includes(currentHour)) {
-          riskScore += 0.2;
-        }
-        break;
-        
-      case SecurityEventType.TRANSACTION_SIGNED:
-        // Check transaction amount if available
-        const amount = parseFloat(event.eventData?.amount || '0');
-        if (amount > 0) {
-          // Get user's average transaction amount
-          const avgAmount = this.getUserAverageTransactionAmount(userEvents);
-          if (amount > avgAmount * 5) {
-            // Transaction amount is significantly higher than average
-            riskScore += 0.3;
-          }
-        }
-        break;
+  public async getLockout(userId: string, tenantId: string = DEFAULT_TENANT): Promise<AccountLockout | undefined> {
+    const db = await getDatabase();
+    const lockout = await db.get('security_lockouts', lockoutId(tenantId, userId));
+    if (!lockout) {
+      return undefined;
+    }
+    if (lockout.lockedUntil <= Date.now()) {
+      await db.delete('security_lockouts', lockout.id);
+      return undefined;
     }
-    
-    return Math.min(riskScore, 1.0);
+    return lockout;
   }
-  
+
   /**
-   * Get the hours during which a user is typically active
-   * @param userEvents User's event history
-   * @returns Array of hours (0-23) when the user is typically active
+   * Unlock a user account before its lockout expires. The justification is
+   * audited and noted on the user's active incidents.
+   * @param userId User identifier
+   * @param performedBy Who unlocked the account
+   * @param justification Why the account may be unlocked
+   * @param tenantId Tenant
+   * @returns Whether the account was locked
+   * @throws IntrusionDetectionError if the justification is missing
    */
-  private getUserActiveHours(userEvents: SecurityEvent[]): number[] {
-    // Get events from the last 30 days
-    const recentEvents = userEvents.filter(e => e.timestamp > Date.now() - 30 * 24 * 60 * 60 * 1000);
-    
-    // Count events by hour
-    const hourCounts = new Array(24).fill(0);
-    recentEvents.forEach(event => {
-      const hour = new Date(event.timestamp).getHours();
-      hourCounts[hour]++;
+  public async unlockUserAccount(
+    userId: string,
+    performedBy: string,
+    justification: string,
+    tenantId: string = DEFAULT_TENANT
+  ): Promise<boolean> {
+    const reason = typeof justification === 'string' ? justification.trim() : '';
+    if (!reason) {
+      throw new IntrusionDetectionError('A justification is required to unlock an account');
+    }
+
+    const lockout = await this.getLockout(userId, tenantId);
+    if (!lockout) {
+      return false;
+    }
+
+    const db = await getDatabase();
+    await db.delete('security_lockouts', lockout.id);
+
+    const auditLogId = await this.audit(AuditAction.ACCOUNT_UNLOCKED, userId, AuditTargetType.USER, performedBy, {
+      tenantId,
+      justification: reason,
+      lockedAt: lockout.lockedAt,
+      lockedUntil: lockout.lockedUntil,
+      eventId: lockout.eventId,
     });
-    
-    // Consider hours with at least 5% of total activity as "active hours"
-    const totalEvents = recentEvents.length;
-    const threshold = Math.max(1, totalEvents * 0.05);
-    
-    return hourCounts
-      .map((count, hour) => ({ hour, count }))
-      .filter(({ count }) => count >= threshold)
-      .map(({ hour }) => hour);
+    await securityIncidents
+      .noteActiveIncidents(tenantId, userId, performedBy, `Account unlocked: ${reason}`, auditLogId)
+      .catch(error => logger.error(`Failed to note the unlock of user ${userId} on their incidents:`, error));
+    logger.info(`Unlocked account of user ${userId} in tenant ${tenantId}`);
+    return true;
   }
-  
+
   /**
-   * Calculate the user's average transaction amount
-   * @param userEvents User's event history
-   * @returns Average transaction amount
+   * Get the rule set a tenant's events are decided with
+   * @param tenantId Tenant
+   * @returns The tenant's rule set, or the default one with revision 0
    */
-  private getUserAverageTransactionAmount(userEvents: SecurityEvent[]): number {
-    const transactions = userEvents
-      .filter(e => e.eventType === SecurityEventType.TRANSACTION_SIGNED)
-      .filter(e => e.eventData?.amount)
-      .map(e => parseFloat(e.eventData.amount));
-    
-    if (transactions.length === 0) {
-      return 0;
-    }
-    
-    const sum = transactions.reduce((total, amount) => total + amount, 0);
-    return sum / transactions.length;
+  public async getRuleSet(tenantId: string = DEFAULT_TENANT): Promise<RuleSetInfo> {
+    const info = await this.loadRuleSet(tenantId);
+    return { ...info, tenantId };
   }
-  
+
   /**
-   * Clean up old security events to manage memory usage
+   * Replace a tenant's rule set
+   * @param tenantId Tenant
+   * @param source Rule set document
+   * @param format Document format
+   * @param performedBy Who changed the rules
+   * @returns The stored rule set
+   * @throws IntrusionDetectionError if the rule set is invalid
    */
-  private cleanupOldEvents(): void {
-    const cutoffTime = Date.now() - (this.EVENT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
-    
-    // Iterate through all users and their events
-    for (const [userId, events] of this.securityEvents.entries()) {
-      // Filter out old events
-      const filteredEvents = events.filter(e => e.timestamp >= cutoffTime);
-      
-      if (filteredEvents.length === 0) {
-        // Remove empty event arrays
-        this.securityEvents.delete(userId);
-      } else if (filteredEvents.length !== events.length) {
-        // Update with filtered events
-        this.securityEvents.set(userId, filteredEvents);
-        logger.debug(`Cleaned up ${events.length - filteredEvents.length} old events for user ${userId}`);
-      }
-    }
-  }
-      
-      // Check if user is locked out
-      const lockoutTime = this.userLockouts.get(userId);
-      if (lockoutTime && Date.now() < lockoutTime) {
-        const remainingMinutes = Math.ceil((lockoutTime - Date.now()) / (60 * 1000));
-        logger.warn(`Operation blocked for locked out user: ${userId}`);
-        return {
-          allowed: false,
-          reason: `Account is temporarily locked. Try again in ${remainingMinutes} minutes.`,
-          riskScore: 1.0,
-          actionTaken: 'blocked'
-        };
-      }
-      
-      // Check anomaly score against threshold
-      if (anomalyScore >= this.ANOMALY_THRESHOLD) {
-        logger.warn(`Operation blocked due to high risk score (${anomalyScore}) for user: ${userId}`);
-        return {
-          allowed: false,
-          reason: 'Security risk score exceeds threshold',
-          riskScore: anomalyScore,
-          actionTaken: 'additional_verification'
-        };
-      }
-      
-      // Check operation-specific rules
-      if (operationType === 'key_export' || operationType === 'high_value_transaction') {
-        // These operations require additional scrutiny
-        if (anomalyScore >= this.ANOMALY_THRESHOLD * 0.7) {
-          logger.warn(`Sensitive operation ${operationType} requires additional verification for user: ${userId}`);
-          return {
-            allowed: false,
-            reason: 'Sensitive operation requires additional verification',
-            riskScore: anomalyScore,
-            actionTaken: 'additional_verification'
-          };
-        }
-      }
-      
-      // Operation is allowed
-      return {
-        allowed: true,
-        reason: 'Operation allowed',
-        riskScore: anomalyScore,
-        actionTaken: 'allowed'
-      };
-    } catch (error) {
-      logger.error('Error checking operation permission:', error);
-      // Default to blocking on error
-      return {
-        allowed: false,
-        reason: 'Security check failed',
-        riskScore: 1.0,
-        actionTaken: 'blocked'
+  public async updateRuleSet(
+    tenantId: string,
+    source: string,
+    format: 'json' | 'yaml',
+    performedBy: string
+  ): Promise<RuleSetInfo> {
+    const ruleSet = parseRuleSet(source, format);
+    const db = await getDatabase();
+
+    const record = await db.withExclusiveLock(`security_rule_sets:${tenantId}`, async () => {
+      const current = await db.get('security_rule_sets', tenantId);
+      const updated = {
+        tenantId,
+        revision: (current?.revision ?? 0) + 1,
+        format,
+        source,
+        updatedBy: performedBy,
+        updatedAt: Date.now(),
       };
+      await db.put('security_rule_sets', updated);
+      return updated;
+    });
+
+    const info: RuleSetInfo = { ...record, ruleSet };
+    this.ruleSets.set(tenantId, info);
+
+    this.audit(AuditAction.SECURITY_RULES_UPDATED, tenantId, AuditTargetType.SECURITY_RULE_SET, performedBy, {
+      name: ruleSet.name,
+      revision: record.revision,
+      rules: ruleSet.rules.map(rule => rule.id),
+    });
+    logger.info(`Security rule set of tenant ${tenantId} updated to revision ${record.revision}`);
+    return info;
+  }
+
+  /**
+   * Return a tenant to the default rule set
+   * @param tenantId Tenant
+   * @param performedBy Who changed the rules
+   * @returns Whether the tenant had its own rule set
+   */
+  public async resetRuleSet(tenantId: string, performedBy: string): Promise<boolean> {
+    const db = await getDatabase();
+    const current = await db.get('security_rule_sets', tenantId);
+    if (!current) {
+      return false;
     }
+
+    await db.delete('security_rule_sets', tenantId);
+    this.ruleSets.delete(tenantId);
+
+    this.audit(AuditAction.SECURITY_RULES_UPDATED, tenantId, AuditTargetType.SECURITY_RULE_SET, performedBy, {
+      name: 'default',
+      revision: 0,
+      previousRevision: current.revision,
+    });
+    return true;
   }
-  
+
   /**
-   * Record a security event and analyze for potential intrusions
-   * @param userId User identifier
-   * @param eventType Type of security event
-   * @param eventData Event data
-   * @param ipAddress IP address associated with the event
-   * @returns Analysis result
+   * Replay a tenant's recorded events against a proposed rule set without
+   * acting on the outcome. Events before `from` only serve as history.
+   * @param tenantId Tenant
+   * @param source Proposed rule set document
+   * @param format Document format
+   * @param options Events to replay
+   * @returns How the proposed rules would have decided the events
+   * @throws IntrusionDetectionError if the rule set is invalid or too many events match
    */
-  public recordEvent(
-    userId: string,
-    eventType: SecurityEventType,
-    eventData: any,
-    ipAddress: string
-  ): IntrusionAnalysisResult {
-    try {
-      // Check if IP is blacklisted
-      if (this.ipBlacklist.has(ipAddress)) {
-        logger.warn(`Blocked request from blacklisted IP: ${ipAddress}`);
-        return {
-          allowed: false,
-          reason: 'IP address is blacklisted',
-          riskScore: 1.0,
-          actionTaken: 'blocked'
-        };
-      }
-      
-      // Check if user is locked out
-      const lockoutTime = this.userLockouts.get(userId);
-      if (lockoutTime && Date.now() < lockoutTime) {
-        const remainingMinutes = Math.ceil((lockoutTime - Date.now()) / (60 * 1000));
-        logger.warn(`Blocked request from locked out user: ${userId}`);
-        return {
-          allowed: false,
-          reason: `Account is temporarily locked. Try again in ${remainingMinutes} minutes.`,
-          riskScore: 1.0,
-          actionTaken: 'blocked'
-        };
-      }
-      
-      // Create security event
-      const event: SecurityEvent = {
-        userId,
-        eventType,
-        eventData,
-        ipAddress,
-        timestamp: Date.now(),
-        eventId: militaryGradeEncryption.generateNonce(16)
-      };
-      
-      // Store event
-      const userEvents = this.securityEvents.get(userId) || [];
-      userEvents.push(event);
-      this.securityEvents.set(userId, userEvents);
-      
-      // Analyze event for anomalies
-      const anomalyScore = this.analyzeEvent(event, userEvents);
-      
-      // Update user anomaly score (weighted average)
-      const currentScore = this.userAnomalyScores.get(userId) || 0;
-      const newScore = (currentScore * 0.7) + (anomalyScore * 0.3);
-      this.userAnomalyScores.set(userId, newScore);
-      
-      // Determine action based on anomaly score
-      let actionTaken = 'allowed';
-      let allowed = true;
-      let reason = 'Operation allowed';
-      
-      if (newScore >= this.ANOMALY_THRESHOLD) {
-        if (newScore >= 0.9) {
-          // High risk - lock account
-          this.userLockouts.set(userId, Date.now() + this.LOCKOUT_DURATION);
-          actionTaken = 'account_locked';
-          allowed = false;
-          reason = 'Suspicious activity detected. Account temporarily locked.';
-          
-          // If multiple high-risk events from same IP, blacklist it
-          const highRiskEventsFromIP = userEvents.filter(e => 
-            e.ipAddress === ipAddress && 
-            Date.now() - e.timestamp < 24 * 60 * 60 * 1000
-          ).length;
-          
-          if (highRiskEventsFromIP >= 3) {
-            this.ipBlacklist.add(ipAddress);
-            logger.warn(`IP address ${ipAddress} blacklisted due to multiple high-risk events`);
-          }
+  public async dryRun(
+    tenantId: string,
+    source: string,
+    format: 'json' | 'yaml',
+    options: DryRunOptions = {}
+  ): Promise<DryRunReport> {
+    const ruleSet = parseRuleSet(source, format);
+    const to = options.to ?? Date.now();
+    const from = options.from ?? to - this.options.retentionMs;
+    if (from > to) {
+      throw new IntrusionDetectionError('from must not be later than to');
+    }
+
+    const db = await getDatabase();
+    const since = Math.max(0, from - historyWindow(ruleSet));
+    const events = options.userId
+      ? await db.getAllFromIndex(
+          'security_events',
+          'by-user',
+          { lower: [tenantId, options.userId, since], upper: [tenantId, options.userId, to] },
+          this.options.dryRunMaxEvents + 1
+        )
+      : await db.getAllFromIndex(
+          'security_events',
+          'by-tenant',
+          { lower: [tenantId, since], upper: [tenantId, to] },
+          this.options.dryRunMaxEvents + 1
+        );
+    if (events.length > this.options.dryRunMaxEvents) {
+      throw new IntrusionDetectionError(
+        `More than ${this.options.dryRunMaxEvents} events in range; narrow the time range or select a user`
+      );
+    }
+
+    const report: DryRunReport = {
+      tenantId,
+      ruleSet: ruleSet.name,
+      from,
+      to,
+      evaluated: 0,
+      actions: countByAction(),
+      recordedActions: countByAction(),
+      ruleMatches: Object.fromEntries(ruleSet.rules.map(rule => [rule.id, 0])),
+      changed: 0,
+      changes: [],
+    };
+
+    // Lockouts the proposed rules would have imposed
+    const histories = new Map<string, RuleEvent[]>();
+    const lockedUntil = new Map<string, number>();
+
+    for (const event of events.sort((a, b) => a.timestamp - b.timestamp)) {
+      const history = histories.get(event.userId) || [];
+      histories.set(event.userId, history);
+
+      if (event.timestamp >= from) {
+        let proposed: RuleDecision;
+        if ((lockedUntil.get(event.userId) ?? 0) > event.timestamp) {
+          proposed = { riskScore: 1, action: RuleAction.LOCK, detections: [] };
         } else {
-          // Medium risk - require additional verification
-          actionTaken = 'additional_verification';
-          allowed = true;
-          reason = 'Additional verification required due to unusual activity';
+          proposed = await evaluateRules(ruleSet, event, history, { tenantId, reputation: this.reputation });
+          if (proposed.action === RuleAction.LOCK) {
+            lockedUntil.set(event.userId, event.timestamp + ruleSet.lockDuration);
+          }
+        }
+
+        report.evaluated++;
+        report.actions[proposed.action]++;
+        report.recordedActions[event.action as RuleAction]++;
+        for (const detection of proposed.detections) {
+          report.ruleMatches[detection.ruleId]++;
+        }
+
+        if (proposed.action !== event.action) {
+          report.changed++;
+          if (report.changes.length < DRY_RUN_SAMPLE_SIZE) {
+            report.changes.push({
+              eventId: event.id,
+              userId: event.userId,
+              eventType: event.eventType,
+              timestamp: event.timestamp,
+              recorded: { action: event.action as RuleAction, riskScore: event.riskScore },
+              proposed,
+            });
+          }
         }
       }
-      
-      // Log the security event
-      if (newScore > 0.5) {
-        logger.warn(`Security event: ${eventType} for user ${userId}, risk score: ${newScore.toFixed(2)}`);
-      } else {
-        logger.info(`Security event: ${eventType} for user ${userId}, risk score: ${newScore.toFixed(2)}`);
-      }
-      
-      return {
-        allowed,
-        reason,
-        riskScore: newScore,
-        actionTaken: actionTaken as 'allowed' | 'additional_verification' | 'account_locked' | 'blocked'
-      };
-    } catch (error) {
-      logger.error(`Failed to record security event:`, error);
-      // Default to secure behavior on error
-      return {
-        allowed: false,
-        reason: 'Security system error',
-        riskScore: 1.0,
-        actionTaken: 'blocked'
-      };
+
+      history.push(event);
     }
+
+    return report;
   }
-  
+
   /**
-   * Check if an operation is allowed based on security rules
-   * @param userId User identifier
-   * @param operationType Type of operation
-   * @param operationData Operation data
-   * @param ipAddress IP address
-   * @returns Whether the operation is allowed
+   * Delete events past the retention period
+   * @returns Number of events deleted
    */
-  public isOperationAllowed(
-    userId: string,
-    operationType: 'transaction' | 'key_export' | 'settings_change' | 'recovery',
-    operationData: any,
-    ipAddress: string
-  ): IntrusionAnalysisResult {
-    // Map operation type to security event type
-    let eventType: SecurityEventType;
-    switch (operationType) {
-      case 'transaction':
-        eventType = SecurityEventType.TRANSACTION_ATTEMPT;
-        break;
-      case 'key_export':
-        eventType = SecurityEventType.KEY_EXPORT_ATTEMPT;
-        break;
-      case 'settings_change':
-        eventType = SecurityEventType.SETTINGS_CHANGE;
-        break;
-      case 'recovery':
-        eventType = SecurityEventType.RECOVERY_ATTEMPT;
-        break;
-      default:
-        eventType = SecurityEventType.OTHER;
+  public async pruneEvents(): Promise<number> {
+    const db = await getDatabase();
+    const expired = await db.getAllFromIndex('security_events', 'by-timestamp', {
+      upper: Date.now() - this.options.retentionMs,
+    });
+    for (const event of expired) {
+      await db.delete('security_events', event.id);
     }
-    
-    // Record and analyze the event
-    return this.recordEvent(userId, eventType, operationData, ipAddress);
-  }
-  
-  /**
-   * Record a failed authentication attempt
-   * @param userId User identifier
-   * @param authMethod Authentication method that failed
-   * @param ipAddress IP address
-   */
-  public recordFailedAuth(userId: string, authMethod: string, ipAddress: string): void {
-    this.recordEvent(
-      userId,
-      SecurityEventType.FAILED_AUTH,
-      { authMethod },
-      ipAddress
-    );
-  }
-  
-  /**
-   * Record a successful authentication
-   * @param userId User identifier
-   * @param authMethod Authentication method used
-   * @param ipAddress IP address
-   */
-  public recordSuccessfulAuth(userId: string, authMethod: string, ipAddress: string): void {
-    this.recordEvent(
-      userId,
-      SecurityEventType.SUCCESSFUL_AUTH,
-      { authMethod },
-      ipAddress
-    );
+    if (expired.length > 0) {
+      logger.info(`Pruned ${expired.length} security events past the retention period`);
+    }
+    return expired.length;
   }
-  
+
   /**
-   * Analyze a security event for anomalies
-   * @param event Security event to analyze
-   * @param userEvents Previous events for the user
-   * @returns Anomaly score (0.0 to 1.0)
+   * Load the rule set of a tenant, reusing the parsed rules while the revision is unchanged
+   * @param tenantId Tenant
    */
-  private analyzeEvent(event: SecurityEvent, userEvents: SecurityEvent[]): number {
-    // Get recent events (last 30 days)
-    const recentEvents = userEvents.filter(e => 
-      Date.now() - e.timestamp < 30 * 24 * 60 * 60 * 1000
-    );
-    
-    let anomalyScore = 0;
-    
-    // Check for unusual IP address
-    const userIPs = new Set(recentEvents.map(e => e.ipAddress));
-    if (!userIPs.has(event.ipAddress) && userIPs.size > 0) {
-      // New IP address
-      anomalyScore += 0.3;
-    }
-    
-    // Check for unusual time pattern
-    const eventHour = new Date(event.timestamp).getHours();
-    const userActivityHours = recentEvents.map(e => new Date(e.timestamp).getHours());
-    const isUnusualHour = !userActivityHours.includes(eventHour);
-    if (isUnusualHour && userActivityHours.length > 5) {
-      anomalyScore += 0.2;
-    }
-    
-    // Check for high-frequency events
-    const last10MinEvents = recentEvents.filter(e => 
-      Date.now() - e.timestamp < 10 * 60 * 1000
-    );
-    if (last10MinEvents.length > 10) {
-      anomalyScore += 0.3;
-    }
-    
-    // Check for failed authentication patterns
-    if (event.eventType === SecurityEventType.FAILED_AUTH) {
-      const recentFailedAuths = recentEvents.filter(e => 
-        e.eventType === SecurityEventType.FAILED_AUTH &&
-        Date.now() - e.timestamp < 30 * 60 * 1000
-      );
-      
-      if (recentFailedAuths.length >= 3) {
-        anomalyScore += 0.4;
-      }
+  private async loadRuleSet(tenantId: string): Promise<RuleSetInfo> {
+    const db = await getDatabase();
+    const record = await db.get('security_rule_sets', tenantId);
+    if (!record) {
+      this.ruleSets.delete(tenantId);
+      return this.loadDefaultRuleSet();
     }
-    
-    // Check for unusual transaction patterns
-    if (event.eventType === SecurityEventType.TRANSACTION_ATTEMPT) {
-      const userTransactions = recentEvents.filter(e => 
-        e.eventType === SecurityEventType.TRANSACTION_ATTEMPT ||
-        e.eventType === SecurityEventType.TRANSACTION_EXECUTED
-      );
-      
-      // Check for unusual transaction amount
-      const transactionAmounts = userTransactions.map(e => parseFloat(e.eventData?.value || '0'));
-      const avgAmount = transactionAmounts.reduce((sum, val) => sum + val, 0) / 
-                      (transactionAmounts.length || 1);
-      
-      const currentAmount = parseFloat(event.eventData?.value || '0');
-      if (currentAmount > avgAmount * 3 && userTransactions.length > 3) {
-        anomalyScore += 0.3;
-      }
-      
-      // Check for unusual recipient
-      const knownRecipients = new Set(userTransactions.map(e => e.eventData?.to));
-      if (!knownRecipients.has(event.eventData?.to) && knownRecipients.size > 3) {
-        anomalyScore += 0.2;
-      }
+
+    const cached = this.ruleSets.get(tenantId);
+    if (cached && cached.revision === record.revision) {
+      return cached;
     }
-    
-    // Cap anomaly score at 1.0
-    return Math.min(anomalyScore, 1.0);
+    const info: RuleSetInfo = { ...record, ruleSet: parseRuleSet(record.source, record.format) };
+    this.ruleSets.set(tenantId, info);
+    return info;
   }
-  
+
   /**
-   * Clean up old security events
+   * Load the rule set of tenants without their own, from `IDS_DEFAULT_RULES_FILE` or the built-in rules
    */
-  private cleanupOldEvents(): void {
-    const cutoffTime = Date.now() - (this.EVENT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
-    
-    // Clean up old events for each user
-    for (const [userId, events] of this.securityEvents.entries()) {
-      const filteredEvents = events.filter(e => e.timestamp >= cutoffTime);
-      if (filteredEvents.length !== events.length) {
-        this.securityEvents.set(userId, filteredEvents);
-        logger.info(`Cleaned up ${events.length - filteredEvents.length} old security events for user ${userId}`);
-      }
+  private loadDefaultRuleSet(): RuleSetInfo {
+    if (!this.defaultRuleSet) {
+      const filePath = this.options.defaultRulesFile && path.resolve(this.options.defaultRulesFile);
+      const format = filePath && !/\.ya?ml$/i.test(filePath) ? 'json' : 'yaml';
+      const source = filePath ? fs.readFileSync(filePath, 'utf8') : YAML.stringify(DEFAULT_RULES);
+
+      this.defaultRuleSet = {
+        tenantId: DEFAULT_TENANT,
+        revision: 0,
+        format,
+        source,
+        ruleSet: filePath ? parseRuleSet(source, format) : validateRuleSet(DEFAULT_RULES),
+      };
+      logger.info(`Default security rule set loaded from ${filePath || 'built-in rules'}`);
     }
+    return this.defaultRuleSet;
   }
-  
+
   /**
-   * Reset anomaly score for a user (after verified legitimate activity)
+   * Load a user's events since a time, oldest first
+   * @param tenantId Tenant
    * @param userId User identifier
+   * @param since Earliest timestamp
    */
-  public resetAnomalyScore(userId: string): void {
-    this.userAnomalyScores.set(userId, 0);
-    logger.info(`Reset anomaly score for user ${userId}`);
+  private async loadHistory(tenantId: string, userId: string, since: number): Promise<SecurityEvent[]> {
+    const db = await getDatabase();
+    return db.getAllFromIndex('security_events', 'by-user', {
+      lower: [tenantId, userId, since],
+      upper: [tenantId, userId, MAX_TIMESTAMP],
+    });
   }
-  
+
   /**
-   * Unlock a user account
-   * @param userId User identifier
-   * @param adminOverride Whether this is an admin override
+   * Lock an account after a detection demanding it
+   * @param event Event that matched
+   * @param decision Decision taken
+   * @param duration Lock duration in milliseconds
+   * @returns ID of the audit log of the lockout
    */
-  public unlockUserAccount(userId: string, adminOverride: boolean = false): void {
-    if (this.userLockouts.has(userId)) {
-      this.userLockouts.delete(userId);
-      
-      if (adminOverride) {
-        // If admin override, also reset anomaly score
-        this.resetAnomalyScore(userId);
-      }
-      
-      logger.info(`Unlocked account for user ${userId}${adminOverride ? ' (admin override)' : ''}`);
-    }
+  private async lock(
+    event: RuleEvent & { tenantId: string },
+    decision: RuleDecision,
+    duration: number
+  ): Promise<string | undefined> {
+    const db = await getDatabase();
+    const reason = decision.detections.map(detection => detection.reason).join('; ') || 'Risk score threshold exceeded';
+    const lockout: AccountLockout = {
+      id: lockoutId(event.tenantId, event.userId),
+      tenantId: event.tenantId,
+      userId: event.userId,
+      eventId: event.id,
+      reason,
+      lockedAt: event.timestamp,
+      lockedUntil: event.timestamp + duration,
+    };
+    await db.put('security_lockouts', lockout);
+
+    const auditLogId = await this.audit(AuditAction.ACCOUNT_LOCKED, event.userId, AuditTargetType.USER, SYSTEM_ACTOR, {
+      tenantId: event.tenantId,
+      eventId: event.id,
+      lockedUntil: lockout.lockedUntil,
+      riskScore: decision.riskScore,
+      detections: decision.detections,
+    });
+    logger.warn(`Account of user ${event.userId} locked until ${new Date(lockout.lockedUntil).toISOString()}: ${reason}`);
+    return auditLogId;
   }
-  
+
   /**
-   * Get security events for a user
-   * @param userId User identifier
-   * @param limit Maximum number of events to return
-   * @returns Array of security events
+   * Open an incident for a blocking or locking decision, or add the event to the user's active one.
+   * The decision stands even if the incident cannot be recorded.
+   * @param event Event that matched
+   * @param decision Decision taken
+   * @param reason Explanation of the decision
+   * @param auditLogId Audit log of the block or lockout, if the event caused one
    */
-  public getUserEvents(userId: string, limit: number = 100): SecurityEvent[] {
-    const events = this.securityEvents.get(userId) || [];
-    
-    // Sort by timestamp (newest first) and limit
-    return events
-      .sort((a, b) => b.timestamp - a.timestamp)
-      .slice(0, limit);
+  private async openIncident(
+    event: RuleEvent & { tenantId: string },
+    decision: RuleDecision,
+    reason: string,
+    auditLogId?: string
+  ): Promise<void> {
+    try {
+      await securityIncidents.recordDetection({
+        tenantId: event.tenantId,
+        userId: event.userId,
+        source: 'intrusion_detection',
+        severity: decision.action === RuleAction.LOCK ? IncidentSeverity.HIGH : IncidentSeverity.MEDIUM,
+        title: reason,
+        eventId: event.id,
+        ruleIds: decision.detections.map(detection => detection.ruleId),
+        auditLogId,
+      });
+    } catch (error) {
+      logger.error(`Failed to record incident for security event ${event.id}:`, error);
+    }
   }
-  
+
   /**
-   * Get current risk score for a user
-   * @param userId User identifier
-   * @returns Risk score (0.0 to 1.0)
+   * Record an intrusion detection event in the audit log
+   * @param action Audit action
+   * @param targetId Target ID
+   * @param targetType Target type
+   * @param performedBy Who caused the event
+   * @param details Additional details
+   * @returns ID of the audit log, or undefined if it could not be created
    */
-  public getUserRiskScore(userId: string): number {
-    return this.userAnomalyScores.get(userId) || 0;
+  private async audit(
+    action: AuditAction,
+    targetId: string,
+    targetType: AuditTargetType,
+    performedBy: string,
+    details: Record<string, unknown>
+  ): Promise<string | undefined> {
+    return createAuditLog({
+      action,
+      userId: performedBy,
+      performedBy,
+      category: 'security',
+      status: 'success',
+      targetId,
+      targetType,
+      details,
+    }).then(
+      auditLog => auditLog.id,
+      error => {
+        logger.error(`Error creating ${action} audit log:`, error);
+        return undefined;
+      }
+    );
   }
 }
 
-// Types
-export enum SecurityEventType {
-  LOGIN_ATTEMPT = 'login_attempt',
-  SUCCESSFUL_AUTH = 'successful_auth',
-  FAILED_AUTH = 'failed_auth',
-  TRANSACTION_ATTEMPT = 'transaction_attempt',
-  TRANSACTION_EXECUTED = 'transaction_executed',
-  KEY_EXPORT_ATTEMPT = 'key_export_attempt',
-  SETTINGS_CHANGE = 'settings_change',
-  PASSWORD_CHANGE = 'password_change',
-  RECOVERY_ATTEMPT = 'recovery_attempt',
-  SUSPICIOUS_ACTIVITY = 'suspicious_activity',
-  OTHER = 'other'
-}
+/**
+ * Turn an event input into the record stored for it, without its decision
+ * @param input Event
+ */
+const normalizeEvent = (input: SecurityEventInput): Omit<SecurityEvent, 'riskScore' | 'action' | 'detections' | 'ruleSetRevision'> => {
+  const amount = input.amount === undefined ? undefined : Number(input.amount);
+  const location = typeof input.location === 'string' ? parseGeoLocation(input.location) : input.location;
 
-export interface SecurityEvent {
-  eventId: string;
-  userId: string;
-  eventType: SecurityEventType;
-  eventData: any;
-  ipAddress: string;
-  timestamp: number;
-}
+  return {
+    id: uuidv4(),
+    tenantId: input.tenantId || DEFAULT_TENANT,
+    userId: input.userId,
+    eventType: input.eventType,
+    timestamp: Date.now(),
+    ...(input.ipAddress ? { ipAddress: input.ipAddress } : {}),
+    ...(input.deviceId ? { deviceId: input.deviceId } : {}),
+    ...(location ? { location } : {}),
+    ...(amount !== undefined && Number.isFinite(amount) ? { amount } : {}),
+    ...(input.destination ? { destination: input.destination.toLowerCase() } : {}),
+    ...(input.operation ? { operation: input.operation } : {}),
+    ...(input.data ? { data: input.data } : {}),
+  };
+};
 
-export interface IntrusionAnalysisResult {
-  allowed: boolean;
-  reason: string;
-  riskScore: number;
-  actionTaken: 'allowed' | 'additional_verification' | 'account_locked' | 'blocked';
-}
+/**
+ * Explain a decision
+ * @param decision Decision
+ * @param allowed Whether the operation may proceed
+ */
+const describeDecision = (decision: RuleDecision, allowed: boolean): string => {
+  const reasons = decision.detections.map(detection => detection.reason).join('; ');
+  if (allowed) {
+    return 'Operation allowed';
+  }
+  switch (decision.action) {
+    case RuleAction.STEP_UP_MFA:
+      return `Additional verification required: ${reasons || 'elevated risk'}`;
+    case RuleAction.LOCK:
+      return `Account locked: ${reasons || 'risk score threshold exceeded'}`;
+    default:
+      return `Operation blocked: ${reasons || 'risk score threshold exceeded'}`;
+  }
+};
+
+/**
+ * Event type recorded for a wallet operation
+ * @param operationType Operation such as `transaction`, `key_export`, `settings_change` or `recovery`
+ */
+export const eventTypeForOperation = (operationType: string): SecurityEventType => {
+  switch (operationType) {
+    case 'transaction':
+      return SecurityEventType.TRANSACTION_ATTEMPT;
+    case 'key_export':
+      return SecurityEventType.KEY_EXPORT_ATTEMPT;
+    case 'settings_change':
+      return SecurityEventType.SETTINGS_CHANGE;
+    case 'recovery':
+      return SecurityEventType.RECOVERY_ATTEMPT;
+    default:
+      return SecurityEventType.OTHER;
+  }
+};
+
+const lockoutId = (tenantId: string, userId: string): string => `${tenantId}:${userId}`;
+
+const countByAction = (): Record<RuleAction, number> => ({
+  [RuleAction.ALLOW]: 0,
+  [RuleAction.STEP_UP_MFA]: 0,
+  [RuleAction.BLOCK]: 0,
+  [RuleAction.LOCK]: 0,
+});
+
+/**
+ * Read a positive integer from the environment
+ * @param name Variable name
+ * @param fallback Value used when the variable is unset or invalid
+ */
+const envInt = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
 
 // Export singleton instance
 export const intrusionDetection = IntrusionDetectionService.getInstance();
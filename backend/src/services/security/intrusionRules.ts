@@ -0,0 +1,726 @@
+import YAML from 'yaml';
+
+/**
+ * Security event types recorded by intrusion detection
+ */
+export enum SecurityEventType {
+  LOGIN_ATTEMPT = 'login_attempt',
+  SUCCESSFUL_AUTH = 'successful_auth',
+  FAILED_AUTH = 'failed_auth',
+  WALLET_CREATION = 'wallet_creation',
+  KEY_GENERATION = 'key_generation',
+  KEY_EXPORT_ATTEMPT = 'key_export_attempt',
+  TRANSACTION_ATTEMPT = 'transaction_attempt',
+  TRANSACTION_EXECUTED = 'transaction_executed',
+  MESSAGE_SIGNED = 'message_signed',
+  SETTINGS_CHANGE = 'settings_change',
+  PASSWORD_CHANGE = 'password_change',
+  RECOVERY_ATTEMPT = 'recovery_attempt',
+  SUSPICIOUS_ACTIVITY = 'suspicious_activity',
+  LOCKDOWN_INITIATED = 'lockdown_initiated',
+  LOCKDOWN_RELEASED = 'lockdown_released',
+  OTHER = 'other',
+}
+
+/**
+ * Actions a detection can demand, from least to most severe
+ */
+export enum RuleAction {
+  ALLOW = 'allow',
+  STEP_UP_MFA = 'step_up_mfa',
+  BLOCK = 'block',
+  LOCK = 'lock',
+}
+
+const ACTION_SEVERITY: RuleAction[] = [RuleAction.ALLOW, RuleAction.STEP_UP_MFA, RuleAction.BLOCK, RuleAction.LOCK];
+
+// Where an event came from
+export interface GeoLocation {
+  country?: string; // ISO 3166-1 alpha-2
+  latitude?: number;
+  longitude?: number;
+}
+
+// Facts about an event the rules look at
+export interface RuleEvent {
+  id: string;
+  userId: string;
+  eventType: string;
+  timestamp: number;
+  ipAddress?: string;
+  deviceId?: string;
+  location?: GeoLocation;
+  amount?: number;
+  destination?: string; // Lowercase address
+}
+
+interface RuleBase {
+  id: string;
+  description?: string;
+  events?: SecurityEventType[]; // Event types the rule applies to; all when omitted
+  weight: number; // Added to the risk score when the rule matches
+  action: RuleAction; // Least severe action taken when the rule matches
+}
+
+// Too many events, or too much value moved, within a window
+export interface VelocityRule extends RuleBase {
+  type: 'velocity';
+  window: number; // Milliseconds
+  count?: SecurityEventType[]; // Event types counted; defaults to `events`
+  limit?: number; // Events allowed in the window
+  maxAmount?: number; // Total amount allowed in the window
+}
+
+// A device the user has not used before
+export interface NewDeviceRule extends RuleBase {
+  type: 'new-device';
+  lookback: number;
+  minHistory: number; // Events with a device the user needs before devices are compared
+}
+
+// A country, or a place further than `radiusKm` from known places, the user has not acted from before
+export interface NewGeoRule extends RuleBase {
+  type: 'new-geo';
+  lookback: number;
+  minHistory: number;
+  radiusKm?: number;
+}
+
+// An amount far above the user's usual amounts
+export interface AmountDeviationRule extends RuleBase {
+  type: 'amount-deviation';
+  lookback: number;
+  minSamples: number;
+  factor?: number; // Matches amounts above factor × mean
+  stdDevs?: number; // Matches amounts more than this many standard deviations above the mean
+}
+
+// A destination on a deny list, reported as risky, or never used before
+export interface DestinationReputationRule extends RuleBase {
+  type: 'destination-reputation';
+  lookback: number;
+  denylist: string[];
+  allowlist: string[]; // Destinations never matched
+  minRisk?: number; // Matches destinations the reputation provider rates at least this risky
+  firstTime: boolean;
+}
+
+// Two places further apart than the user could have travelled in between
+export interface ImpossibleTravelRule extends RuleBase {
+  type: 'impossible-travel';
+  lookback: number;
+  maxSpeedKmh: number;
+  minDistanceKm: number; // Ignores jumps within IP geolocation accuracy
+}
+
+export type Rule =
+  | VelocityRule
+  | NewDeviceRule
+  | NewGeoRule
+  | AmountDeviationRule
+  | DestinationReputationRule
+  | ImpossibleTravelRule;
+
+export type RuleType = Rule['type'];
+
+// A tenant's detections
+export interface RuleSet {
+  name: string;
+  thresholds: Partial<Record<Exclude<RuleAction, RuleAction.ALLOW>, number>>; // Risk scores escalating the action
+  lockDuration: number;
+  rules: Rule[];
+}
+
+// A rule that matched an event
+export interface Detection {
+  ruleId: string;
+  reason: string;
+}
+
+// Outcome of evaluating an event
+export interface RuleDecision {
+  riskScore: number; // 0.0 to 1.0
+  action: RuleAction;
+  detections: Detection[];
+}
+
+/**
+ * Rates destination addresses for `destination-reputation` rules
+ */
+export interface AddressReputationProvider {
+  /**
+   * @param address Lowercase address
+   * @param tenantId Tenant the event belongs to
+   * @returns Risk from 0 (trusted) to 1 (known malicious), or undefined if unknown
+   */
+  getRisk(address: string, tenantId: string): Promise<{ risk: number; reason?: string } | undefined>;
+}
+
+// Context of an evaluation
+export interface RuleContext {
+  tenantId: string;
+  reputation?: AddressReputationProvider;
+}
+
+/**
+ * Error raised for invalid rule sets and intrusion detection requests
+ */
+export class IntrusionDetectionError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'IntrusionDetectionError';
+  }
+}
+
+// Default rule set, replacing the scoring that used to be hard-coded
+export const DEFAULT_RULES = {
+  name: 'default',
+  thresholds: { step_up_mfa: 0.5, block: 0.7, lock: 0.9 },
+  lockDuration: '30m',
+  rules: [
+    {
+      id: 'failed-auth-burst',
+      type: 'velocity',
+      events: [SecurityEventType.FAILED_AUTH],
+      window: '30m',
+      limit: 3,
+      weight: 0.4,
+      action: RuleAction.STEP_UP_MFA,
+    },
+    {
+      id: 'failed-auth-flood',
+      type: 'velocity',
+      events: [SecurityEventType.FAILED_AUTH],
+      window: '30m',
+      limit: 10,
+      weight: 1,
+      action: RuleAction.LOCK,
+    },
+    {
+      id: 'high-frequency',
+      type: 'velocity',
+      window: '10m',
+      limit: 10,
+      weight: 0.3,
+      action: RuleAction.ALLOW,
+    },
+    {
+      id: 'new-device',
+      type: 'new-device',
+      events: [SecurityEventType.TRANSACTION_ATTEMPT, SecurityEventType.KEY_EXPORT_ATTEMPT, SecurityEventType.RECOVERY_ATTEMPT],
+      lookback: '30d',
+      weight: 0.3,
+      action: RuleAction.STEP_UP_MFA,
+    },
+    {
+      id: 'new-geo',
+      type: 'new-geo',
+      lookback: '30d',
+      weight: 0.3,
+      action: RuleAction.ALLOW,
+    },
+    {
+      id: 'amount-deviation',
+      type: 'amount-deviation',
+      events: [SecurityEventType.TRANSACTION_ATTEMPT],
+      lookback: '30d',
+      minSamples: 3,
+      factor: 3,
+      weight: 0.3,
+      action: RuleAction.STEP_UP_MFA,
+    },
+    {
+      id: 'first-time-recipient',
+      type: 'destination-reputation',
+      events: [SecurityEventType.TRANSACTION_ATTEMPT],
+      lookback: '30d',
+      firstTime: true,
+      weight: 0.2,
+      action: RuleAction.ALLOW,
+    },
+    {
+      id: 'impossible-travel',
+      type: 'impossible-travel',
+      lookback: '24h',
+      maxSpeedKmh: 1000,
+      weight: 0.6,
+      action: RuleAction.BLOCK,
+    },
+  ],
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+const EVENT_TYPES = Object.values(SecurityEventType) as string[];
+const ACTIONS = Object.values(RuleAction) as string[];
+const RULE_TYPES: RuleType[] = [
+  'velocity',
+  'new-device',
+  'new-geo',
+  'amount-deviation',
+  'destination-reputation',
+  'impossible-travel',
+];
+
+/**
+ * Parse a rule set written in JSON or YAML
+ * @param source Rule set document
+ * @param format Document format
+ * @returns Validated rule set
+ * @throws IntrusionDetectionError if the document is not a valid rule set
+ */
+export const parseRuleSet = (source: string, format: 'json' | 'yaml'): RuleSet => {
+  let document: unknown;
+  try {
+    document = format === 'yaml' ? YAML.parse(source) : JSON.parse(source);
+  } catch (error) {
+    throw new IntrusionDetectionError(`Rule set is not valid ${format.toUpperCase()}: ${(error as Error).message}`);
+  }
+  return validateRuleSet(document);
+};
+
+/**
+ * Validate a parsed rule set document
+ * @param raw Parsed document
+ * @returns Rule set with durations in milliseconds and defaults applied
+ * @throws IntrusionDetectionError if the document is not a valid rule set
+ */
+export const validateRuleSet = (raw: any): RuleSet => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new IntrusionDetectionError('Rule set must be an object');
+  }
+  if (!Array.isArray(raw.rules)) {
+    throw new IntrusionDetectionError('Rule set must contain a list of rules');
+  }
+
+  const thresholds: RuleSet['thresholds'] = {};
+  for (const [action, score] of Object.entries(raw.thresholds ?? {})) {
+    if (!ACTIONS.includes(action) || action === RuleAction.ALLOW) {
+      throw new IntrusionDetectionError(`thresholds: unknown action ${action}`);
+    }
+    thresholds[action as keyof RuleSet['thresholds']] = score01(score, `thresholds.${action}`);
+  }
+
+  const ids = new Set<string>();
+  const rules = raw.rules.map((rule: any, i: number) => {
+    const validated = validateRule(rule, i);
+    if (ids.has(validated.id)) {
+      throw new IntrusionDetectionError(`Duplicate rule ID: ${validated.id}`);
+    }
+    ids.add(validated.id);
+    return validated;
+  });
+
+  return {
+    name: raw.name === undefined ? 'unnamed' : nonEmptyString(raw.name, 'name'),
+    thresholds,
+    lockDuration: raw.lockDuration === undefined ? DURATION_UNITS.m * 30 : duration(raw.lockDuration, 'lockDuration'),
+    rules,
+  };
+};
+
+/**
+ * Validate one rule
+ * @param raw Rule definition
+ * @param index Position of the rule, for messages
+ */
+const validateRule = (raw: any, index: number): Rule => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new IntrusionDetectionError(`Rule ${index} must be an object`);
+  }
+  const id = nonEmptyString(raw.id, `Rule ${index}: id`);
+  const label = `Rule ${id}`;
+
+  if (!RULE_TYPES.includes(raw.type)) {
+    throw new IntrusionDetectionError(`${label}: type must be one of ${RULE_TYPES.join(', ')}`);
+  }
+  if (!ACTIONS.includes(raw.action)) {
+    throw new IntrusionDetectionError(`${label}: action must be one of ${ACTIONS.join(', ')}`);
+  }
+
+  const base: RuleBase = {
+    id,
+    ...(raw.description !== undefined ? { description: String(raw.description) } : {}),
+    ...(raw.events !== undefined ? { events: eventTypes(raw.events, `${label}: events`) } : {}),
+    weight: score01(raw.weight, `${label}: weight`),
+    action: raw.action,
+  };
+  const lookback = () => duration(raw.lookback ?? '30d', `${label}: lookback`);
+  const minHistory = () => (raw.minHistory === undefined ? 1 : nonNegativeInteger(raw.minHistory, `${label}: minHistory`));
+
+  switch (raw.type as RuleType) {
+    case 'velocity': {
+      if (raw.limit === undefined && raw.maxAmount === undefined) {
+        throw new IntrusionDetectionError(`${label}: velocity rules need a limit or maxAmount`);
+      }
+      return {
+        ...base,
+        type: 'velocity',
+        window: duration(raw.window, `${label}: window`),
+        ...(raw.count !== undefined ? { count: eventTypes(raw.count, `${label}: count`) } : {}),
+        ...(raw.limit !== undefined ? { limit: nonNegativeInteger(raw.limit, `${label}: limit`) } : {}),
+        ...(raw.maxAmount !== undefined ? { maxAmount: positiveNumber(raw.maxAmount, `${label}: maxAmount`) } : {}),
+      };
+    }
+
+    case 'new-device':
+      return { ...base, type: 'new-device', lookback: lookback(), minHistory: minHistory() };
+
+    case 'new-geo':
+      return {
+        ...base,
+        type: 'new-geo',
+        lookback: lookback(),
+        minHistory: minHistory(),
+        ...(raw.radiusKm !== undefined ? { radiusKm: positiveNumber(raw.radiusKm, `${label}: radiusKm`) } : {}),
+      };
+
+    case 'amount-deviation': {
+      if (raw.factor === undefined && raw.stdDevs === undefined) {
+        throw new IntrusionDetectionError(`${label}: amount-deviation rules need a factor or stdDevs`);
+      }
+      return {
+        ...base,
+        type: 'amount-deviation',
+        lookback: lookback(),
+        minSamples: raw.minSamples === undefined ? 3 : nonNegativeInteger(raw.minSamples, `${label}: minSamples`),
+        ...(raw.factor !== undefined ? { factor: positiveNumber(raw.factor, `${label}: factor`) } : {}),
+        ...(raw.stdDevs !== undefined ? { stdDevs: positiveNumber(raw.stdDevs, `${label}: stdDevs`) } : {}),
+      };
+    }
+
+    case 'destination-reputation': {
+      const rule: DestinationReputationRule = {
+        ...base,
+        type: 'destination-reputation',
+        lookback: lookback(),
+        denylist: addresses(raw.denylist, `${label}: denylist`),
+        allowlist: addresses(raw.allowlist, `${label}: allowlist`),
+        ...(raw.minRisk !== undefined ? { minRisk: score01(raw.minRisk, `${label}: minRisk`) } : {}),
+        firstTime: raw.firstTime === true,
+      };
+      if (rule.denylist.length === 0 && rule.minRisk === undefined && !rule.firstTime) {
+        throw new IntrusionDetectionError(`${label}: destination-reputation rules need a denylist, minRisk or firstTime`);
+      }
+      return rule;
+    }
+
+    case 'impossible-travel':
+      return {
+        ...base,
+        type: 'impossible-travel',
+        lookback: duration(raw.lookback ?? '24h', `${label}: lookback`),
+        maxSpeedKmh: positiveNumber(raw.maxSpeedKmh, `${label}: maxSpeedKmh`),
+        minDistanceKm: raw.minDistanceKm === undefined ? 100 : positiveNumber(raw.minDistanceKm, `${label}: minDistanceKm`),
+      };
+  }
+};
+
+/**
+ * Parse a duration such as `90s`, `15m`, `24h` or `30d`, or a number of milliseconds
+ */
+const duration = (value: unknown, label: string): number => {
+  if (typeof value === 'number' && Number.isInteger(value) && value > 0) {
+    return value;
+  }
+  const match = typeof value === 'string' ? /^(\d+)\s*(ms|s|m|h|d)$/.exec(value.trim()) : null;
+  if (!match || Number(match[1]) <= 0) {
+    throw new IntrusionDetectionError(`${label} must be a duration such as 15m, 24h or 30d`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2]];
+};
+
+const nonEmptyString = (value: unknown, label: string): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new IntrusionDetectionError(`${label} must be a non-empty string`);
+  }
+  return value.trim();
+};
+
+const score01 = (value: unknown, label: string): number => {
+  if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+    throw new IntrusionDetectionError(`${label} must be a number between 0 and 1`);
+  }
+  return value;
+};
+
+const positiveNumber = (value: unknown, label: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new IntrusionDetectionError(`${label} must be a positive number`);
+  }
+  return value;
+};
+
+const nonNegativeInteger = (value: unknown, label: string): number => {
+  if (!Number.isInteger(value) || (value as number) < 0) {
+    throw new IntrusionDetectionError(`${label} must be a non-negative integer`);
+  }
+  return value as number;
+};
+
+const eventTypes = (value: unknown, label: string): SecurityEventType[] => {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(type => EVENT_TYPES.includes(type))) {
+    throw new IntrusionDetectionError(`${label} must list event types from ${EVENT_TYPES.join(', ')}`);
+  }
+  return value as SecurityEventType[];
+};
+
+const addresses = (value: unknown, label: string): string[] => {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || !value.every(address => typeof address === 'string' && /^0x[0-9a-fA-F]{40}$/.test(address))) {
+    throw new IntrusionDetectionError(`${label} must be a list of addresses`);
+  }
+  return value.map(address => address.toLowerCase());
+};
+
+/**
+ * Longest lookback of a rule set, bounding the history an evaluation needs
+ * @param ruleSet Rule set
+ */
+export const historyWindow = (ruleSet: RuleSet): number =>
+  Math.max(0, ...ruleSet.rules.map(rule => (rule.type === 'velocity' ? rule.window : rule.lookback)));
+
+/**
+ * The more severe of two actions
+ */
+export const mostSevere = (a: RuleAction, b: RuleAction): RuleAction =>
+  ACTION_SEVERITY.indexOf(a) >= ACTION_SEVERITY.indexOf(b) ? a : b;
+
+/**
+ * Evaluate an event against a rule set
+ * @param ruleSet Rule set
+ * @param event Event being decided
+ * @param history Earlier events of the same user, oldest first
+ * @param context Evaluation context
+ * @returns Risk score, action and the rules that matched
+ */
+export const evaluateRules = async (
+  ruleSet: RuleSet,
+  event: RuleEvent,
+  history: RuleEvent[],
+  context: RuleContext
+): Promise<RuleDecision> => {
+  const detections: Detection[] = [];
+  let score = 0;
+  let action = RuleAction.ALLOW;
+
+  for (const rule of ruleSet.rules) {
+    if (rule.events && !rule.events.includes(event.eventType as SecurityEventType)) {
+      continue;
+    }
+    const since = event.timestamp - (rule.type === 'velocity' ? rule.window : rule.lookback);
+    const recent = history.filter(previous => previous.timestamp >= since && previous.timestamp <= event.timestamp);
+
+    const reason = await RULE_EVALUATORS[rule.type](rule as never, event, recent, context);
+    if (reason) {
+      detections.push({ ruleId: rule.id, reason });
+      score += rule.weight;
+      action = mostSevere(action, rule.action);
+    }
+  }
+
+  const riskScore = Math.min(1, Math.round(score * 1000) / 1000);
+  for (const [thresholdAction, threshold] of Object.entries(ruleSet.thresholds)) {
+    if (threshold !== undefined && riskScore >= threshold) {
+      action = mostSevere(action, thresholdAction as RuleAction);
+    }
+  }
+
+  return { riskScore, action, detections };
+};
+
+type RuleEvaluator<R extends Rule> = (
+  rule: R,
+  event: RuleEvent,
+  history: RuleEvent[],
+  context: RuleContext
+) => string | undefined | Promise<string | undefined>;
+
+// Evaluators return the reason a rule matched, or undefined
+const RULE_EVALUATORS: { [T in RuleType]: RuleEvaluator<Extract<Rule, { type: T }>> } = {
+  velocity: (rule, event, history) => {
+    const counted = rule.count ?? rule.events;
+    const events = [...history, event].filter(
+      candidate => !counted || counted.includes(candidate.eventType as SecurityEventType)
+    );
+    const window = formatDuration(rule.window);
+
+    if (rule.limit !== undefined && events.length > rule.limit) {
+      return `${events.length} events in ${window} exceed the limit of ${rule.limit}`;
+    }
+    if (rule.maxAmount !== undefined) {
+      const total = events.reduce((sum, candidate) => sum + (candidate.amount ?? 0), 0);
+      if (total > rule.maxAmount) {
+        return `${total} moved in ${window} exceeds the limit of ${rule.maxAmount}`;
+      }
+    }
+    return undefined;
+  },
+
+  'new-device': (rule, event, history) => {
+    if (!event.deviceId) {
+      return undefined;
+    }
+    const known = history.filter(previous => previous.deviceId);
+    if (known.length < rule.minHistory || known.some(previous => previous.deviceId === event.deviceId)) {
+      return undefined;
+    }
+    return `Device ${event.deviceId} not seen in the last ${formatDuration(rule.lookback)}`;
+  },
+
+  'new-geo': (rule, event, history) => {
+    const location = event.location;
+    if (!location) {
+      return undefined;
+    }
+
+    if (rule.radiusKm !== undefined) {
+      if (!hasCoordinates(location)) {
+        return undefined;
+      }
+      const known = history.filter(previous => previous.location && hasCoordinates(previous.location));
+      if (
+        known.length < rule.minHistory ||
+        known.some(previous => distanceKm(previous.location!, location) <= rule.radiusKm!)
+      ) {
+        return undefined;
+      }
+      return `Location more than ${rule.radiusKm} km from any seen in the last ${formatDuration(rule.lookback)}`;
+    }
+
+    if (!location.country) {
+      return undefined;
+    }
+    const known = history.filter(previous => previous.location?.country);
+    if (known.length < rule.minHistory || known.some(previous => previous.location!.country === location.country)) {
+      return undefined;
+    }
+    return `Country ${location.country} not seen in the last ${formatDuration(rule.lookback)}`;
+  },
+
+  'amount-deviation': (rule, event, history) => {
+    if (event.amount === undefined) {
+      return undefined;
+    }
+    const samples = history
+      .filter(previous => !rule.events || rule.events.includes(previous.eventType as SecurityEventType))
+      .map(previous => previous.amount)
+      .filter((amount): amount is number => amount !== undefined);
+    if (samples.length < rule.minSamples || samples.length === 0) {
+      return undefined;
+    }
+
+    const mean = samples.reduce((sum, amount) => sum + amount, 0) / samples.length;
+    if (rule.factor !== undefined && event.amount > mean * rule.factor) {
+      return `Amount ${event.amount} is more than ${rule.factor}x the mean of ${round(mean)}`;
+    }
+    if (rule.stdDevs !== undefined) {
+      const deviation = Math.sqrt(samples.reduce((sum, amount) => sum + (amount - mean) ** 2, 0) / samples.length);
+      if (deviation > 0 && (event.amount - mean) / deviation > rule.stdDevs) {
+        return `Amount ${event.amount} is more than ${rule.stdDevs} standard deviations above the mean of ${round(mean)}`;
+      }
+    }
+    return undefined;
+  },
+
+  'destination-reputation': async (rule, event, history, context) => {
+    const destination = event.destination;
+    if (!destination || rule.allowlist.includes(destination)) {
+      return undefined;
+    }
+    if (rule.denylist.includes(destination)) {
+      return `Destination ${destination} is on the deny list`;
+    }
+    if (rule.minRisk !== undefined && context.reputation) {
+      const reputation = await context.reputation.getRisk(destination, context.tenantId);
+      if (reputation && reputation.risk >= rule.minRisk) {
+        return `Destination ${destination} has risk ${reputation.risk}${reputation.reason ? `: ${reputation.reason}` : ''}`;
+      }
+    }
+    if (rule.firstTime && !history.some(previous => previous.destination === destination)) {
+      return `First transfer to ${destination} in the last ${formatDuration(rule.lookback)}`;
+    }
+    return undefined;
+  },
+
+  'impossible-travel': (rule, event, history) => {
+    if (!event.location || !hasCoordinates(event.location)) {
+      return undefined;
+    }
+    const previous = [...history].reverse().find(candidate => candidate.location && hasCoordinates(candidate.location));
+    if (!previous) {
+      return undefined;
+    }
+
+    const distance = distanceKm(previous.location!, event.location);
+    if (distance < rule.minDistanceKm) {
+      return undefined;
+    }
+    const hours = (event.timestamp - previous.timestamp) / DURATION_UNITS.h;
+    const speed = hours > 0 ? distance / hours : Infinity;
+    if (speed <= rule.maxSpeedKmh) {
+      return undefined;
+    }
+    return `Travelled ${Math.round(distance)} km in ${formatDuration(event.timestamp - previous.timestamp)}`;
+  },
+};
+
+const hasCoordinates = (location: GeoLocation): boolean =>
+  typeof location.latitude === 'number' && typeof location.longitude === 'number';
+
+/**
+ * Great-circle distance between two locations with coordinates
+ */
+const distanceKm = (a: GeoLocation, b: GeoLocation): number => {
+  const radians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = radians(b.latitude! - a.latitude!);
+  const dLon = radians(b.longitude! - a.longitude!);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(radians(a.latitude!)) * Math.cos(radians(b.latitude!)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+const round = (value: number): number => Math.round(value * 1e6) / 1e6;
+
+const formatDuration = (ms: number): string => {
+  for (const unit of ['d', 'h', 'm', 's']) {
+    if (ms >= DURATION_UNITS[unit] && ms % DURATION_UNITS[unit] === 0) {
+      return `${ms / DURATION_UNITS[unit]}${unit}`;
+    }
+  }
+  return `${ms}ms`;
+};
+
+/**
+ * Parse a location given as `CC`, `latitude,longitude` or `CC:latitude,longitude`
+ * @param value Location string
+ * @returns Location, or undefined if the string is not one
+ */
+export const parseGeoLocation = (value: string): GeoLocation | undefined => {
+  const match = /^(?:([A-Za-z]{2})(?::|$))?(?:(-?\d+(?:\.\d+)?),\s*(-?\d+(?:\.\d+)?))?$/.exec(value.trim());
+  if (!match || (!match[1] && match[2] === undefined)) {
+    return undefined;
+  }
+  const location: GeoLocation = {};
+  if (match[1]) {
+    location.country = match[1].toUpperCase();
+  }
+  if (match[2] !== undefined) {
+    const latitude = Number(match[2]);
+    const longitude = Number(match[3]);
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      return undefined;
+    }
+    location.latitude = latitude;
+    location.longitude = longitude;
+  }
+  return location;
+};
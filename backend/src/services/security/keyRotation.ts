@@ -0,0 +1,412 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../utils/logger';
+import { getDatabase, RyzerWalletDB } from '../../config/database';
+import { createAuditLog, AuditAction, AuditTargetType } from '../audit';
+import { militaryGradeEncryption, DataKey, RootKeyInfo, DEFAULT_TENANT } from './militaryGradeEncryption';
+
+export type KeyRotationJob = RyzerWalletDB['encryption_jobs']['value'];
+export type KeyRotationJobType = KeyRotationJob['type'];
+
+// A ciphertext inside a stored record
+interface EncryptedField {
+  path: string;
+  context: string;
+  value: string;
+  set(value: string): void;
+}
+
+// A store holding ciphertexts
+interface EncryptedStore {
+  store: string;
+  key(record: any): string;
+  // Lock the owning service takes when updating a record
+  lockName(record: any): string;
+  fields(record: any): EncryptedField[];
+}
+
+/**
+ * Stores with encrypted fields. Contexts must match the ones the owning
+ * services encrypt with.
+ */
+const ENCRYPTED_STORES: EncryptedStore[] = [
+  {
+    store: 'mfa_configs',
+    key: record => record.userId,
+    lockName: () => 'mfa_configs',
+    fields: record => {
+      const fields: EncryptedField[] = [];
+      for (const name of ['totpSecret', 'pendingTotpSecret']) {
+        if (record[name]) {
+          fields.push({
+            path: name,
+            context: `totp:${record.userId}`,
+            value: record[name],
+            set: value => (record[name] = value),
+          });
+        }
+      }
+      (record.biometrics || []).forEach((biometric: { template: string }, i: number) => {
+        fields.push({
+          path: `biometrics.${i}.template`,
+          context: `biometric:${record.userId}`,
+          value: biometric.template,
+          set: value => (biometric.template = value),
+        });
+      });
+      return fields;
+    },
+  },
+  {
+    store: 'tss_key_shares',
+    key: record => record.id,
+    lockName: record => `tss:${record.walletId}`,
+    fields: record => [
+      {
+        path: 'share',
+        context: `tss:${record.walletId}:${record.index}`,
+        value: record.share,
+        set: value => (record.share = value),
+      },
+    ],
+  },
+];
+
+// Jobs kept in the status report
+const RECENT_JOBS = 10;
+
+// Errors kept per job
+const MAX_JOB_ERRORS = 20;
+
+// Stale records listed per store in the status report
+const MAX_STALE_RECORDS = 100;
+
+// A record with ciphertexts that are not under the active data key
+export interface StaleRecord {
+  store: string;
+  key: string;
+  field: string;
+  dataKeyId: string | 'legacy';
+}
+
+// Key hierarchy status
+export interface EncryptionStatus {
+  rootKey: RootKeyInfo;
+  dataKeys: (Omit<DataKey, 'wrappedKey'> & { onCurrentRootKey: boolean; ciphertexts: number })[];
+  staleRecords: Record<string, { count: number; records: StaleRecord[] }>;
+  jobs: KeyRotationJob[];
+}
+
+/**
+ * Error raised for invalid key rotation requests
+ */
+export class KeyRotationError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'KeyRotationError';
+  }
+}
+
+/**
+ * Key Rotation Service
+ *
+ * Rotates root keys and data keys of the encryption key hierarchy and runs
+ * the online jobs that move existing data onto the new keys: `rewrap`
+ * re-wraps data keys with the current root key, `reencrypt` re-encrypts
+ * stored ciphertexts with the active data key of their scope. Jobs process
+ * one record at a time under the owning service's lock, so they run while
+ * the wallet is in use, and are resumed after a restart.
+ */
+export class KeyRotationService {
+  private running = new Set<string>();
+
+  /**
+   * Resume jobs interrupted by a restart
+   */
+  public async initialize(): Promise<void> {
+    const db = await getDatabase();
+    const jobs = await db.getAllFromIndex('encryption_jobs', 'by-status', 'running');
+    for (const job of jobs) {
+      logger.info(`Resuming ${job.type} job ${job.id}`);
+      this.run(job);
+    }
+  }
+
+  /**
+   * Report the key hierarchy and the records still on old keys
+   */
+  public async getStatus(): Promise<EncryptionStatus> {
+    const db = await getDatabase();
+    const rootKey = await militaryGradeEncryption.getRootKeyInfo();
+    const dataKeys = await militaryGradeEncryption.listDataKeys();
+
+    const usage = new Map<string, number>();
+    const staleRecords: EncryptionStatus['staleRecords'] = {};
+
+    for (const spec of ENCRYPTED_STORES) {
+      const stale = { count: 0, records: [] as StaleRecord[] };
+
+      for (const record of await db.getAll(spec.store)) {
+        for (const field of spec.fields(record)) {
+          const { legacy, dataKeyId } = militaryGradeEncryption.describeCiphertext(field.value);
+          if (dataKeyId) {
+            usage.set(dataKeyId, (usage.get(dataKeyId) || 0) + 1);
+          }
+
+          if (legacy || !(await militaryGradeEncryption.isCurrent(field.value, field.context))) {
+            stale.count++;
+            if (stale.records.length < MAX_STALE_RECORDS) {
+              stale.records.push({ store: spec.store, key: spec.key(record), field: field.path, dataKeyId: dataKeyId || 'legacy' });
+            }
+          }
+        }
+      }
+
+      staleRecords[spec.store] = stale;
+    }
+
+    const jobs = (await db.getAll('encryption_jobs')).sort((a, b) => b.createdAt - a.createdAt).slice(0, RECENT_JOBS);
+
+    return {
+      rootKey,
+      dataKeys: dataKeys.map(({ wrappedKey, ...key }) => ({
+        ...key,
+        onCurrentRootKey: key.rootKeyId === rootKey.currentKeyId,
+        ciphertexts: usage.get(key.id) || 0,
+      })),
+      staleRecords,
+      jobs,
+    };
+  }
+
+  /**
+   * Rotate the data key of a scope and start re-encrypting its data
+   * @param purpose Purpose of the key, e.g. `totp`
+   * @param tenantId Tenant of the key
+   * @param requestedBy Admin performing the rotation
+   * @returns New data key and the re-encryption job
+   */
+  public async rotateDataKey(
+    purpose: string,
+    tenantId: string = DEFAULT_TENANT,
+    requestedBy: string
+  ): Promise<{ dataKey: Omit<DataKey, 'wrappedKey'>; job: KeyRotationJob }> {
+    if (!purpose || !/^[a-z0-9_-]+$/i.test(purpose)) {
+      throw new KeyRotationError('Invalid key purpose');
+    }
+
+    const { wrappedKey, ...dataKey } = await militaryGradeEncryption.rotateDataKey(purpose, tenantId);
+    this.audit(AuditAction.ENCRYPTION_KEY_ROTATED, requestedBy, dataKey.id, { level: 'data', scope: dataKey.scope, version: dataKey.version });
+
+    return { dataKey, job: await this.startJob('reencrypt', requestedBy) };
+  }
+
+  /**
+   * Rotate the root key and start rewrapping data keys with it
+   * @param requestedBy Admin performing the rotation
+   * @returns New root key ID and the rewrap job
+   */
+  public async rotateRootKey(requestedBy: string): Promise<{ rootKeyId: string; job: KeyRotationJob }> {
+    let rootKeyId: string;
+    try {
+      rootKeyId = await militaryGradeEncryption.rotateRootKey();
+    } catch (error) {
+      throw new KeyRotationError(error instanceof Error ? error.message : 'Failed to rotate root key', 409);
+    }
+    this.audit(AuditAction.ENCRYPTION_KEY_ROTATED, requestedBy, rootKeyId, { level: 'root' });
+
+    return { rootKeyId, job: await this.startJob('rewrap', requestedBy) };
+  }
+
+  /**
+   * Start a job, or return the one of the same type that is already running
+   * @param type Job type
+   * @param requestedBy Admin starting the job
+   */
+  public async startJob(type: KeyRotationJobType, requestedBy: string): Promise<KeyRotationJob> {
+    if (type !== 'rewrap' && type !== 'reencrypt') {
+      throw new KeyRotationError('Job type must be rewrap or reencrypt');
+    }
+
+    const db = await getDatabase();
+    const job = await db.withExclusiveLock('encryption_jobs', async () => {
+      const running = await db.getAllFromIndex('encryption_jobs', 'by-status', 'running');
+      const existing = running.find(candidate => candidate.type === type);
+      if (existing) {
+        return { job: existing, created: false };
+      }
+
+      const created: KeyRotationJob = {
+        id: uuidv4(),
+        type,
+        status: 'running',
+        requestedBy,
+        createdAt: Date.now(),
+        processed: 0,
+        updated: 0,
+        failed: 0,
+        errors: [],
+      };
+      await db.put('encryption_jobs', created);
+      return { job: created, created: true };
+    });
+
+    if (job.created) {
+      this.audit(AuditAction.ENCRYPTION_JOB_STARTED, requestedBy, job.job.id, { type });
+      this.run(job.job);
+    }
+    return job.job;
+  }
+
+  /**
+   * Get a job
+   * @param id Job ID
+   */
+  public async getJob(id: string): Promise<KeyRotationJob> {
+    const db = await getDatabase();
+    const job = await db.get('encryption_jobs', id);
+    if (!job) {
+      throw new KeyRotationError('Job not found', 404);
+    }
+    return job;
+  }
+
+  /**
+   * Run a job in the background
+   * @param job Job to run
+   */
+  private run(job: KeyRotationJob): void {
+    if (this.running.has(job.id)) {
+      return;
+    }
+    this.running.add(job.id);
+
+    const work = job.type === 'rewrap' ? this.rewrap(job) : this.reencrypt(job);
+    work
+      .then(() => this.finish(job, job.failed > 0 ? 'failed' : 'completed'))
+      .catch(error => {
+        logger.error(`Key rotation job ${job.id} failed:`, error);
+        this.recordError(job, error);
+        return this.finish(job, 'failed');
+      })
+      .catch(error => logger.error(`Failed to record the end of key rotation job ${job.id}:`, error))
+      .finally(() => this.running.delete(job.id));
+  }
+
+  /**
+   * Rewrap every data key that is not on the current root key
+   * @param job Job being run
+   */
+  private async rewrap(job: KeyRotationJob): Promise<void> {
+    for (const key of await militaryGradeEncryption.listDataKeys()) {
+      try {
+        if (await militaryGradeEncryption.rewrapDataKey(key.id)) {
+          job.updated++;
+        }
+      } catch (error) {
+        job.failed++;
+        this.recordError(job, error, key.id);
+      }
+      job.processed++;
+      await this.save(job);
+    }
+  }
+
+  /**
+   * Re-encrypt every stored ciphertext that is not under the active data key of its scope
+   * @param job Job being run
+   */
+  private async reencrypt(job: KeyRotationJob): Promise<void> {
+    const db = await getDatabase();
+
+    for (const spec of ENCRYPTED_STORES) {
+      const keys = (await db.getAll(spec.store)).map(record => ({ key: spec.key(record), lock: spec.lockName(record) }));
+
+      for (const { key, lock } of keys) {
+        try {
+          const changed = await db.withExclusiveLock(lock, async () => {
+            // Re-read under the lock so concurrent updates are not overwritten
+            const record = await db.get(spec.store, key);
+            if (!record) {
+              return false;
+            }
+
+            let updated = false;
+            for (const field of spec.fields(record)) {
+              if (!(await militaryGradeEncryption.isCurrent(field.value, field.context))) {
+                field.set(await militaryGradeEncryption.reencrypt(field.value, field.context));
+                updated = true;
+              }
+            }
+
+            if (updated) {
+              await db.put(spec.store, record);
+            }
+            return updated;
+          });
+
+          if (changed) {
+            job.updated++;
+          }
+        } catch (error) {
+          job.failed++;
+          this.recordError(job, error, `${spec.store}/${key}`);
+        }
+        job.processed++;
+        await this.save(job);
+      }
+    }
+  }
+
+  /**
+   * Mark a job as finished
+   */
+  private async finish(job: KeyRotationJob, status: KeyRotationJob['status']): Promise<void> {
+    job.status = status;
+    job.finishedAt = Date.now();
+    await this.save(job);
+
+    logger.info(`Key rotation job ${job.id} ${status}: ${job.updated} of ${job.processed} updated, ${job.failed} failed`);
+    this.audit(AuditAction.ENCRYPTION_JOB_FINISHED, job.requestedBy, job.id, {
+      type: job.type,
+      status,
+      processed: job.processed,
+      updated: job.updated,
+      failed: job.failed,
+    });
+  }
+
+  private async save(job: KeyRotationJob): Promise<void> {
+    const db = await getDatabase();
+    await db.put('encryption_jobs', { ...job, errors: [...job.errors] });
+  }
+
+  private recordError(job: KeyRotationJob, error: unknown, item?: string): void {
+    if (job.errors.length < MAX_JOB_ERRORS) {
+      const message = error instanceof Error ? error.message : String(error);
+      job.errors.push(item ? `${item}: ${message}` : message);
+    }
+  }
+
+  /**
+   * Record a key management action in the audit log
+   */
+  private audit(action: AuditAction, performedBy: string, targetId: string, details: Record<string, unknown>): void {
+    createAuditLog({
+      action,
+      userId: performedBy,
+      performedBy,
+      category: 'security',
+      status: 'success',
+      targetId,
+      targetType: AuditTargetType.ENCRYPTION_KEY,
+      details,
+    }).catch(error => {
+      logger.error(`Error creating ${action} audit log:`, error);
+    });
+  }
+}
+
+// Create and export a singleton instance
+const keyRotationService = new KeyRotationService();
+
+export default keyRotationService;
@@ -1,27 +1,61 @@
 import crypto from 'crypto';
+import QRCode from 'qrcode';
 import { logger } from '../../utils/logger';
+import { getDatabase, RyzerWalletDB } from '../../config/database';
+import { AuditAction, createAuditLog } from '../audit';
+import webauthnService, { AuthenticationResponseJSON, WebAuthnError } from '../webauthn';
 import { militaryGradeEncryption } from './militaryGradeEncryption';
 
+// RFC 4648 base32 alphabet
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Lock serializing updates of MFA configurations across processes
+const MFA_LOCK = 'mfa_configs';
+
+/**
+ * Lock serializing the attempts on and the use of one MFA session across processes
+ * @param sessionId Session ID
+ */
+const sessionLock = (sessionId: string): string => `mfa_session:${sessionId}`;
+
+/**
+ * Error raised when an MFA operation cannot be performed
+ */
+export class MFAError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'MFAError';
+  }
+}
+
 /**
  * Multi-Factor Authentication Service
- * 
+ *
  * Provides military-grade multi-factor authentication for wallet operations.
- * Supports TOTP, hardware security keys, biometrics, and behavioral analysis.
+ * Supports TOTP (RFC 6238) with one-time recovery codes, and WebAuthn passkeys
+ * and security keys (the hardware_key factor); platform biometrics are used
+ * through passkeys. Configurations and sessions are persisted in the database.
  */
 export class MFAService {
   private static instance: MFAService;
-  
-  // Maps to store MFA configurations and sessions
-  private userMfaConfigs: Map<string, UserMFAConfig> = new Map();
-  private mfaSessions: Map<string, MFASession> = new Map();
-  
+
   // Constants
   private readonly SESSION_EXPIRY = 5 * 60 * 1000; // 5 minutes
+  private readonly ENROLLMENT_EXPIRY = 10 * 60 * 1000; // 10 minutes to confirm a new TOTP secret
   private readonly MAX_FAILED_ATTEMPTS = 3;
   private readonly TOTP_WINDOW = 1; // Allow 1 step before/after current time
-  
+  private readonly TOTP_PERIOD = 30; // Seconds per time step
+  private readonly TOTP_DIGITS = 6;
+  private readonly TOTP_SECRET_LENGTH = 20; // 160 bits, as recommended by RFC 4226
+  private readonly RECOVERY_CODE_COUNT = 10;
+
+  private readonly issuer = process.env.MFA_ISSUER || 'RyzerWallet';
+
+  // Transactions above this value (in ETH) demand a passkey assertion
+  private readonly highValueThreshold = parseFloat(process.env.MFA_HIGH_VALUE_THRESHOLD || '1.0');
+
   private constructor() {}
-  
+
   /**
    * Get the singleton instance of MFAService
    */
@@ -31,625 +65,814 @@ export class MFAService {
     }
     return MFAService.instance;
   }
-  
+
   /**
-   * Enable TOTP (Time-based One-Time Password) for a user
+   * Get a summary of the MFA methods a user has configured
    * @param userId User identifier
-   * @returns TOTP secret and QR code URL
+   * @returns Enabled methods and remaining recovery codes
    */
-  public enableTOTP(userId: string): { secret: string; qrCodeUrl: string } {
-    try {
-      // Generate a secure random secret
-      const secret = this.generateTOTPSecret();
-      
-      // Create or update user MFA config
-      const userConfig = this.getUserConfig(userId);
+  public async getStatus(userId: string): Promise<MFAStatus> {
+    const config = await this.getUserConfig(userId);
+    const credentials = await webauthnService.listCredentials(userId);
+
+    return {
+      totpEnabled: config.totpEnabled,
+      totpEnrollmentPending: !!config.pendingTotpSecret && !this.isEnrollmentExpired(config),
+      recoveryCodesRemaining: config.recoveryCodes.filter(code => !code.usedAt).length,
+      hardwareKeys: credentials.length
+    };
+  }
+
+  /**
+   * Start TOTP enrollment for a user. The secret only becomes active once a
+   * code generated from it is confirmed with confirmTOTP.
+   * @param userId User identifier
+   * @returns TOTP secret, otpauth URI and a QR code image of the URI
+   * @throws MFAError if TOTP is already enabled
+   */
+  public async enableTOTP(userId: string): Promise<TOTPEnrollment> {
+    const db = await getDatabase();
+    const secret = this.generateTOTPSecret();
+
+    await db.withExclusiveLock(MFA_LOCK, async () => {
+      const userConfig = await this.getUserConfig(userId);
+      if (userConfig.totpEnabled) {
+        throw new MFAError('TOTP is already enabled', 409);
+      }
+
+      userConfig.pendingTotpSecret = await militaryGradeEncryption.encrypt(secret, `totp:${userId}`);
+      userConfig.pendingTotpCreatedAt = Date.now();
+      userConfig.lastUpdated = Date.now();
+      await db.put('mfa_configs', userConfig);
+    });
+
+    const otpauthUrl = this.buildOtpauthUrl(userId, secret);
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+    logger.info(`TOTP enrollment started for user ${userId}`);
+    return { secret, otpauthUrl, qrCode };
+  }
+
+  /**
+   * Confirm TOTP enrollment with a code from the authenticator app
+   * @param userId User identifier
+   * @param code TOTP code generated from the pending secret
+   * @returns One-time recovery codes; they are only returned here
+   * @throws MFAError if there is no pending enrollment or the code is wrong
+   */
+  public async confirmTOTP(userId: string, code: string): Promise<string[]> {
+    const db = await getDatabase();
+
+    const recoveryCodes = await db.withExclusiveLock(MFA_LOCK, async () => {
+      const userConfig = await this.getUserConfig(userId);
+      if (userConfig.totpEnabled) {
+        throw new MFAError('TOTP is already enabled', 409);
+      }
+      if (!userConfig.pendingTotpSecret || this.isEnrollmentExpired(userConfig)) {
+        throw new MFAError('No pending TOTP enrollment; start enrollment again', 404);
+      }
+
+      const secret = await militaryGradeEncryption.decrypt(userConfig.pendingTotpSecret, `totp:${userId}`);
+      const step = this.verifyTOTPCode(code, secret);
+      if (step === undefined) {
+        throw new MFAError('Invalid TOTP code');
+      }
+
+      const codes = this.generateRecoveryCodes();
       userConfig.totpEnabled = true;
-      userConfig.totpSecret = militaryGradeEncryption.encrypt(secret, `totp:${userId}`);
-      this.userMfaConfigs.set(userId, userConfig);
-      
-      // Generate QR code URL (in a real implementation, this would generate an actual QR code)
-      const qrCodeUrl = `otpauth://totp/RyzerWallet:${userId}?secret=${secret}&issuer=RyzerWallet`;
-      
-      logger.info(`TOTP enabled for user ${userId}`);
-      return { secret, qrCodeUrl };
-    } catch (error) {
-      logger.error(`Failed to enable TOTP for user ${userId}:`, error);
-      throw new Error('Failed to enable TOTP');
-    }
+      userConfig.totpSecret = userConfig.pendingTotpSecret;
+      userConfig.totpLastUsedStep = step;
+      userConfig.recoveryCodes = codes.map(recoveryCode => ({ hash: this.hashRecoveryCode(userId, recoveryCode) }));
+      delete userConfig.pendingTotpSecret;
+      delete userConfig.pendingTotpCreatedAt;
+      userConfig.lastUpdated = Date.now();
+      await db.put('mfa_configs', userConfig);
+
+      return codes;
+    });
+
+    this.audit(AuditAction.MFA_ENABLED, userId, { factor: 'totp' });
+    logger.info(`TOTP enabled for user ${userId}`);
+    return recoveryCodes;
   }
-  
+
   /**
-   * Enable hardware security key for a user
+   * Disable TOTP for a user. Unused recovery codes are discarded.
    * @param userId User identifier
-   * @param keyId Hardware key identifier
-   * @param publicKey Public key from the hardware security key
+   * @param code Current TOTP code or a recovery code
+   * @throws MFAError if TOTP is not enabled or the code is wrong
    */
-  public enableHardwareKey(userId: string, keyId: string, publicKey: string): void {
-    try {
-      // Create or update user MFA config
-      const userConfig = this.getUserConfig(userId);
-      
-      // Store hardware key info
-      userConfig.hardwareKeys = userConfig.hardwareKeys || [];
-      userConfig.hardwareKeys.push({
-        keyId,
-        publicKey,
-        registeredAt: Date.now()
-      });
-      
-      this.userMfaConfigs.set(userId, userConfig);
-      logger.info(`Hardware security key enabled for user ${userId}`);
-    } catch (error) {
-      logger.error(`Failed to enable hardware key for user ${userId}:`, error);
-      throw new Error('Failed to enable hardware security key');
-    }
+  public async disableTOTP(userId: string, code: string): Promise<void> {
+    const db = await getDatabase();
+
+    await db.withExclusiveLock(MFA_LOCK, async () => {
+      const userConfig = await this.getUserConfig(userId);
+      if (!userConfig.totpEnabled) {
+        throw new MFAError('TOTP is not enabled', 404);
+      }
+
+      if (!(await this.consumeCode(userConfig, code))) {
+        throw new MFAError('Invalid TOTP or recovery code');
+      }
+
+      userConfig.totpEnabled = false;
+      delete userConfig.totpSecret;
+      delete userConfig.totpLastUsedStep;
+      userConfig.recoveryCodes = [];
+      userConfig.lastUpdated = Date.now();
+      await db.put('mfa_configs', userConfig);
+    });
+
+    this.audit(AuditAction.MFA_DISABLED, userId, { factor: 'totp' });
+    logger.info(`TOTP disabled for user ${userId}`);
   }
-  
+
   /**
-   * Enable biometric authentication for a user
+   * Replace a user's recovery codes with a fresh set
    * @param userId User identifier
-   * @param biometricId Biometric identifier
-   * @param biometricTemplate Encrypted biometric template
+   * @param code Current TOTP code
+   * @returns New recovery codes
+   * @throws MFAError if TOTP is not enabled or the code is wrong
    */
-  public enableBiometrics(userId: string, biometricId: string, biometricTemplate: string): void {
-    try {
-      // Create or update user MFA config
-      const userConfig = this.getUserConfig(userId);
-      
-      // Store biometric info
-      userConfig.biometrics = userConfig.biometrics || [];
-      userConfig.biometrics.push({
-        biometricId,
-        template: militaryGradeEncryption.encrypt(biometricTemplate, `biometric:${userId}`),
-        registeredAt: Date.now()
-      });
-      
-      this.userMfaConfigs.set(userId, userConfig);
-      logger.info(`Biometric authentication enabled for user ${userId}`);
-    } catch (error) {
-      logger.error(`Failed to enable biometrics for user ${userId}:`, error);
-      throw new Error('Failed to enable biometric authentication');
+  public async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    const db = await getDatabase();
+
+    const recoveryCodes = await db.withExclusiveLock(MFA_LOCK, async () => {
+      const userConfig = await this.getUserConfig(userId);
+      if (!userConfig.totpEnabled) {
+        throw new MFAError('TOTP is not enabled', 404);
+      }
+
+      if (!(await this.consumeTOTPCode(userConfig, code))) {
+        throw new MFAError('Invalid TOTP code');
+      }
+
+      const codes = this.generateRecoveryCodes();
+      userConfig.recoveryCodes = codes.map(recoveryCode => ({ hash: this.hashRecoveryCode(userId, recoveryCode) }));
+      userConfig.lastUpdated = Date.now();
+      await db.put('mfa_configs', userConfig);
+
+      return codes;
+    });
+
+    logger.info(`Recovery codes regenerated for user ${userId}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Determine which factors an operation requires from a user
+   * @param userId User identifier
+   * @param operationType Type of operation
+   * @param operationData Data related to the operation
+   * @returns Required factors; empty if the operation needs no MFA
+   * @throws MFAError if the operation demands a factor the user has not configured
+   */
+  public async getRequiredFactors(
+    userId: string,
+    operationType: MFAOperationType,
+    operationData: any
+  ): Promise<MFAFactor[]> {
+    const available = await this.getAvailableFactors(userId);
+    const factors = this.determineRequiredFactors(operationType, operationData, available);
+
+    const missing = factors.filter(factor => !available.includes(factor));
+    if (missing.length > 0) {
+      throw new MFAError(`This operation requires ${missing.join(', ')}; set it up first`, 412);
     }
+
+    return factors;
   }
-  
+
   /**
    * Start an MFA session for a high-security operation
    * @param userId User identifier
    * @param operationType Type of operation requiring MFA
    * @param operationData Data related to the operation
    * @returns Session token
+   * @throws MFAError if the user lacks the factors the operation requires
    */
-  public startMFASession(
+  public async startMFASession(
     userId: string,
-    operationType: 'transaction' | 'key_export' | 'settings_change' | 'recovery',
+    operationType: MFAOperationType,
     operationData: any
-  ): string {
-    try {
-      // Check if user has MFA configured
-      const userConfig = this.getUserConfig(userId);
-      if (!this.hasMFAConfigured(userConfig)) {
-        throw new Error('User has no MFA methods configured');
-      }
-      
-      // Generate session token
-      const sessionToken = militaryGradeEncryption.generateNonce(32);
-      
-      // Create MFA session
-      const session: MFASession = {
-        userId,
-        operationType,
-        operationData,
-        requiredFactors: this.determineRequiredFactors(operationType, operationData),
-        completedFactors: [],
-        failedAttempts: 0,
-        createdAt: Date.now(),
-        expiresAt: Date.now() + this.SESSION_EXPIRY
-      };
-      
-      // Store session
-      this.mfaSessions.set(sessionToken, session);
-      
-      logger.info(`MFA session started for user ${userId}, operation: ${operationType}`);
-      return sessionToken;
-    } catch (error) {
-      logger.error(`Failed to start MFA session for user ${userId}:`, error);
-      throw new Error('Failed to start MFA session');
+  ): Promise<string> {
+    const db = await getDatabase();
+
+    const requiredFactors = await this.getRequiredFactors(userId, operationType, operationData);
+    if (requiredFactors.length === 0) {
+      throw new MFAError('User has no MFA methods configured', 412);
+    }
+
+    // Generate session token; only its hash is stored
+    const sessionToken = militaryGradeEncryption.generateNonce(32);
+    const now = Date.now();
+
+    const session: MFASession = {
+      id: this.hashToken(sessionToken),
+      userId,
+      operationType,
+      operationData,
+      requiredFactors,
+      completedFactors: [],
+      failedAttempts: 0,
+      createdAt: now,
+      expiresAt: now + this.SESSION_EXPIRY
+    };
+    await db.add('mfa_sessions', session);
+
+    this.pruneExpiredSessions().catch(error => {
+      logger.warn('Failed to prune expired MFA sessions:', error);
+    });
+
+    logger.info(`MFA session started for user ${userId}, operation: ${operationType}`);
+    return sessionToken;
+  }
+
+  /**
+   * Get an active MFA session
+   * @param sessionToken MFA session token
+   * @returns MFA session
+   * @throws MFAError if the session is unknown or has expired
+   */
+  public async getSession(sessionToken: string): Promise<MFASession> {
+    const db = await getDatabase();
+    const id = this.hashToken(sessionToken);
+    const session = await db.get('mfa_sessions', id);
+    if (!session) {
+      throw new MFAError('MFA session not found', 404);
+    }
+
+    // Check if session has expired
+    if (Date.now() > session.expiresAt) {
+      await db.delete('mfa_sessions', id);
+      throw new MFAError('MFA session has expired', 410);
     }
+
+    return session;
   }
-  
+
   /**
    * Verify a TOTP code for an MFA session
    * @param sessionToken MFA session token
    * @param totpCode TOTP code
    * @returns Whether verification was successful
+   * @throws MFAError if the session cannot be used or too many attempts failed
    */
-  public verifyTOTP(sessionToken: string, totpCode: string): boolean {
-    try {
-      // Get session
-      const session = this.getSession(sessionToken);
-      
-      // Check if TOTP is a required factor
-      if (!session.requiredFactors.includes('totp')) {
-        throw new Error('TOTP is not required for this session');
-      }
-      
-      // Check if TOTP is already completed
-      if (session.completedFactors.includes('totp')) {
-        throw new Error('TOTP verification already completed');
-      }
-      
-      // Get user config
-      const userConfig = this.getUserConfig(session.userId);
-      if (!userConfig.totpEnabled || !userConfig.totpSecret) {
-        throw new Error('TOTP not configured for user');
-      }
-      
-      // Decrypt TOTP secret
-      const totpSecret = militaryGradeEncryption.decrypt(
-        userConfig.totpSecret,
-        `totp:${session.userId}`
-      );
-      
-      // Verify TOTP code
-      const isValid = this.verifyTOTPCode(totpCode, totpSecret);
-      
-      if (isValid) {
-        // Mark TOTP as completed
-        session.completedFactors.push('totp');
-        this.mfaSessions.set(sessionToken, session);
-        logger.info(`TOTP verified for user ${session.userId}`);
-      } else {
-        // Increment failed attempts
-        session.failedAttempts++;
-        this.mfaSessions.set(sessionToken, session);
-        
-        // Check if max attempts exceeded
-        if (session.failedAttempts >= this.MAX_FAILED_ATTEMPTS) {
-          this.mfaSessions.delete(sessionToken);
-          logger.warn(`Max failed MFA attempts exceeded for user ${session.userId}`);
-          throw new Error('Max failed attempts exceeded');
+  public async verifyTOTP(sessionToken: string, totpCode: string): Promise<boolean> {
+    return this.verifySessionFactor(sessionToken, 'totp', async session => {
+      const db = await getDatabase();
+
+      return db.withExclusiveLock(MFA_LOCK, async () => {
+        const userConfig = await this.getUserConfig(session.userId);
+        if (!userConfig.totpEnabled || !userConfig.totpSecret) {
+          throw new MFAError('TOTP not configured for user', 412);
         }
-        
-        logger.warn(`Invalid TOTP code for user ${session.userId}`);
-      }
-      
-      return isValid;
-    } catch (error) {
-      logger.error(`TOTP verification failed:`, error);
-      throw new Error('TOTP verification failed');
-    }
+
+        const isValid = await this.consumeTOTPCode(userConfig, totpCode);
+        if (isValid) {
+          await db.put('mfa_configs', userConfig);
+        }
+        return isValid;
+      });
+    });
   }
-  
+
   /**
-   * Verify a hardware security key signature for an MFA session
+   * Satisfy the TOTP factor of an MFA session with a recovery code.
+   * Each recovery code can only be used once.
    * @param sessionToken MFA session token
-   * @param keyId Hardware key identifier
-   * @param signature Signature from the hardware key
+   * @param recoveryCode Recovery code
    * @returns Whether verification was successful
+   * @throws MFAError if the session cannot be used or too many attempts failed
    */
-  public verifyHardwareKey(sessionToken: string, keyId: string, signature: string): boolean {
-    try {
-      // Get session
-      const session = this.getSession(sessionToken);
-      
-      // Check if hardware key is a required factor
-      if (!session.requiredFactors.includes('hardware_key')) {
-        throw new Error('Hardware key is not required for this session');
-      }
-      
-      // Check if hardware key is already completed
-      if (session.completedFactors.includes('hardware_key')) {
-        throw new Error('Hardware key verification already completed');
-      }
-      
-      // Get user config
-      const userConfig = this.getUserConfig(session.userId);
-      if (!userConfig.hardwareKeys || userConfig.hardwareKeys.length === 0) {
-        throw new Error('Hardware keys not configured for user');
-      }
-      
-      // Find the specified key
-      const key = userConfig.hardwareKeys.find(k => k.keyId === keyId);
-      if (!key) {
-        throw new Error('Hardware key not found');
-      }
-      
-      // In a real implementation, this would verify the signature using the public key
-      // For this simulation, we'll just assume it's valid
-      const isValid = true;
-      
-      if (isValid) {
-        // Mark hardware key as completed
-        session.completedFactors.push('hardware_key');
-        this.mfaSessions.set(sessionToken, session);
-        logger.info(`Hardware key verified for user ${session.userId}`);
-      } else {
-        // Increment failed attempts
-        session.failedAttempts++;
-        this.mfaSessions.set(sessionToken, session);
-        
-        // Check if max attempts exceeded
-        if (session.failedAttempts >= this.MAX_FAILED_ATTEMPTS) {
-          this.mfaSessions.delete(sessionToken);
-          logger.warn(`Max failed MFA attempts exceeded for user ${session.userId}`);
-          throw new Error('Max failed attempts exceeded');
+  public async verifyRecoveryCode(sessionToken: string, recoveryCode: string): Promise<boolean> {
+    return this.verifySessionFactor(sessionToken, 'totp', async session => {
+      const db = await getDatabase();
+
+      const isValid = await db.withExclusiveLock(MFA_LOCK, async () => {
+        const userConfig = await this.getUserConfig(session.userId);
+        if (!userConfig.totpEnabled) {
+          throw new MFAError('TOTP not configured for user', 412);
         }
-        
-        logger.warn(`Invalid hardware key signature for user ${session.userId}`);
+
+        const consumed = this.consumeRecoveryCode(userConfig, recoveryCode);
+        if (consumed) {
+          await db.put('mfa_configs', userConfig);
+        }
+        return consumed;
+      });
+
+      if (isValid) {
+        this.audit(AuditAction.MFA_RECOVERY_CODE_USED, session.userId, { operationType: session.operationType });
       }
-      
       return isValid;
-    } catch (error) {
-      logger.error(`Hardware key verification failed:`, error);
-      throw new Error('Hardware key verification failed');
+    });
+  }
+
+  /**
+   * Issue a WebAuthn challenge for the hardware key factor of an MFA session
+   * @param sessionToken MFA session token
+   * @returns Options for navigator.credentials.get()
+   * @throws MFAError if the session does not require a hardware key
+   */
+  public async createHardwareKeyChallenge(sessionToken: string) {
+    const session = await this.getSession(sessionToken);
+    if (!session.requiredFactors.includes('hardware_key')) {
+      throw new MFAError('hardware_key is not required for this session');
     }
+
+    return webauthnService.createAuthenticationOptions(session.userId, session.id);
   }
-  
+
   /**
-   * Verify biometric data for an MFA session
+   * Verify a WebAuthn assertion for an MFA session. The assertion must answer
+   * a challenge issued for this session by createHardwareKeyChallenge.
    * @param sessionToken MFA session token
-   * @param biometricId Biometric identifier
-   * @param biometricData Biometric data for verification
+   * @param assertion Response of navigator.credentials.get()
    * @returns Whether verification was successful
+   * @throws WebAuthnError if the credential is unknown or suspended
    */
-  public verifyBiometrics(sessionToken: string, biometricId: string, biometricData: string): boolean {
-    try {
-      // Get session
-      const session = this.getSession(sessionToken);
-      
-      // Check if biometrics is a required factor
-      if (!session.requiredFactors.includes('biometrics')) {
-        throw new Error('Biometrics is not required for this session');
-      }
-      
-      // Check if biometrics is already completed
-      if (session.completedFactors.includes('biometrics')) {
-        throw new Error('Biometric verification already completed');
-      }
-      
-      // Get user config
-      const userConfig = this.getUserConfig(session.userId);
-      if (!userConfig.biometrics || userConfig.biometrics.length === 0) {
-        throw new Error('Biometrics not configured for user');
-      }
-      
-      // Find the specified biometric
-      const biometric = userConfig.biometrics.find(b => b.biometricId === biometricId);
-      if (!biometric) {
-        throw new Error('Biometric not found');
-      }
-      
-      // In a real implementation, this would verify the biometric data against the template
-      // For this simulation, we'll just assume it's valid
-      const isValid = true;
-      
-      if (isValid) {
-        // Mark biometrics as completed
-        session.completedFactors.push('biometrics');
-        this.mfaSessions.set(sessionToken, session);
-        logger.info(`Biometrics verified for user ${session.userId}`);
-      } else {
-        // Increment failed attempts
-        session.failedAttempts++;
-        this.mfaSessions.set(sessionToken, session);
-        
-        // Check if max attempts exceeded
-        if (session.failedAttempts >= this.MAX_FAILED_ATTEMPTS) {
-          this.mfaSessions.delete(sessionToken);
-          logger.warn(`Max failed MFA attempts exceeded for user ${session.userId}`);
-          throw new Error('Max failed attempts exceeded');
+  public async verifyHardwareKey(sessionToken: string, assertion: AuthenticationResponseJSON): Promise<boolean> {
+    return this.verifySessionFactor(sessionToken, 'hardware_key', async session => {
+      try {
+        await webauthnService.verifyAuthentication(session.userId, assertion, session.id);
+        return true;
+      } catch (error) {
+        // Rejected assertions count as failed attempts; suspended or unknown credentials end here
+        if (error instanceof WebAuthnError && error.statusCode === 400) {
+          logger.warn(`WebAuthn assertion rejected for user ${session.userId}: ${error.message}`);
+          return false;
         }
-        
-        logger.warn(`Invalid biometric data for user ${session.userId}`);
+        throw error;
       }
-      
-      return isValid;
-    } catch (error) {
-      logger.error(`Biometric verification failed:`, error);
-      throw new Error('Biometric verification failed');
-    }
+    });
   }
-  
+
   /**
    * Check if an MFA session is complete (all required factors verified)
    * @param sessionToken MFA session token
    * @returns Whether the session is complete
    */
-  public isSessionComplete(sessionToken: string): boolean {
+  public async isSessionComplete(sessionToken: string): Promise<boolean> {
     try {
-      // Get session
-      const session = this.getSession(sessionToken);
-      
+      const session = await this.getSession(sessionToken);
+
       // Check if all required factors are completed
-      const isComplete = session.requiredFactors.every(factor => 
+      const isComplete = session.requiredFactors.every(factor =>
         session.completedFactors.includes(factor)
       );
-      
+
       if (isComplete) {
         logger.info(`MFA session complete for user ${session.userId}`);
       }
-      
+
       return isComplete;
     } catch (error) {
       logger.error(`Failed to check MFA session:`, error);
       return false;
     }
   }
-  
+
   /**
-   * Complete an MFA session and clean up
+   * Consume a complete MFA session. Sessions are consumed under a lock, so
+   * one session authorizes a single operation even when used concurrently.
    * @param sessionToken MFA session token
+   * @throws MFAError if the session is unknown, already used or not complete
    */
-  public completeSession(sessionToken: string): void {
-    try {
-      // Get session
-      const session = this.getSession(sessionToken);
-      
-      // Check if session is complete
-      if (!this.isSessionComplete(sessionToken)) {
-        throw new Error('MFA session is not complete');
+  public async completeSession(sessionToken: string): Promise<void> {
+    const db = await getDatabase();
+    const id = this.hashToken(sessionToken);
+
+    const session = await db.withExclusiveLock(sessionLock(id), async () => {
+      const current = await this.getSession(sessionToken);
+      if (!current.requiredFactors.every(factor => current.completedFactors.includes(factor))) {
+        throw new MFAError('MFA session is not complete', 403);
       }
-      
-      // Delete session
-      this.mfaSessions.delete(sessionToken);
-      
-      logger.info(`MFA session completed and cleaned up for user ${session.userId}`);
-    } catch (error) {
-      logger.error(`Failed to complete MFA session:`, error);
-      throw new Error('Failed to complete MFA session');
+
+      await db.delete('mfa_sessions', id);
+      return current;
+    });
+
+    logger.info(`MFA session completed and cleaned up for user ${session.userId}`);
+  }
+
+  /**
+   * Run a factor check for an MFA session and record the outcome. The session
+   * is deleted once too many attempts have failed. Checks of one session run
+   * one at a time, so concurrent guesses all count towards the limit.
+   * @param sessionToken MFA session token
+   * @param factor Factor being verified
+   * @param check Performs the verification
+   * @returns Whether verification was successful
+   */
+  private async verifySessionFactor(
+    sessionToken: string,
+    factor: MFAFactor,
+    check: (session: MFASession) => Promise<boolean>
+  ): Promise<boolean> {
+    const db = await getDatabase();
+
+    return db.withExclusiveLock(sessionLock(this.hashToken(sessionToken)), async () => {
+      const session = await this.getSession(sessionToken);
+
+      if (!session.requiredFactors.includes(factor)) {
+        throw new MFAError(`${factor} is not required for this session`);
+      }
+      if (session.completedFactors.includes(factor)) {
+        throw new MFAError(`${factor} verification already completed`, 409);
+      }
+
+      const isValid = await check(session);
+
+      if (isValid) {
+        session.completedFactors.push(factor);
+        await db.put('mfa_sessions', session);
+        logger.info(`${factor} verified for user ${session.userId}`);
+        return true;
+      }
+
+      session.failedAttempts++;
+      if (session.failedAttempts >= this.MAX_FAILED_ATTEMPTS) {
+        await db.delete('mfa_sessions', session.id);
+        logger.warn(`Max failed MFA attempts exceeded for user ${session.userId}`);
+        throw new MFAError('Max failed attempts exceeded', 429);
+      }
+      await db.put('mfa_sessions', session);
+
+      logger.warn(`Invalid ${factor} for user ${session.userId}`);
+      return false;
+    });
+  }
+
+  /**
+   * Accept a TOTP code or, failing that, a recovery code
+   * @param config User MFA configuration, updated in place
+   * @param code Code to check
+   * @returns Whether a code was accepted
+   */
+  private async consumeCode(config: UserMFAConfig, code: string): Promise<boolean> {
+    return (await this.consumeTOTPCode(config, code)) || this.consumeRecoveryCode(config, code);
+  }
+
+  /**
+   * Accept a TOTP code unless its time step was already used
+   * @param config User MFA configuration, updated in place
+   * @param code TOTP code
+   * @returns Whether the code was accepted
+   */
+  private async consumeTOTPCode(config: UserMFAConfig, code: string): Promise<boolean> {
+    if (!config.totpSecret) {
+      return false;
     }
+
+    const secret = await militaryGradeEncryption.decrypt(config.totpSecret, `totp:${config.userId}`);
+    const step = this.verifyTOTPCode(code, secret, config.totpLastUsedStep);
+    if (step === undefined) {
+      return false;
+    }
+
+    config.totpLastUsedStep = step;
+    config.lastUpdated = Date.now();
+    return true;
   }
-  
+
+  /**
+   * Accept an unused recovery code and mark it as used
+   * @param config User MFA configuration, updated in place
+   * @param code Recovery code
+   * @returns Whether the code was accepted
+   */
+  private consumeRecoveryCode(config: UserMFAConfig, code: string): boolean {
+    const hash = Buffer.from(this.hashRecoveryCode(config.userId, code), 'hex');
+    const match = config.recoveryCodes.find(
+      recoveryCode => !recoveryCode.usedAt && crypto.timingSafeEqual(Buffer.from(recoveryCode.hash, 'hex'), hash)
+    );
+    if (!match) {
+      return false;
+    }
+
+    match.usedAt = Date.now();
+    config.lastUpdated = Date.now();
+    return true;
+  }
+
   /**
    * Generate a TOTP secret
-   * @returns TOTP secret
+   * @returns Base32 encoded TOTP secret
    */
   private generateTOTPSecret(): string {
-    // Generate a secure random secret (32 bytes, base32 encoded)
-    const buffer = crypto.randomBytes(32);
-    return this.base32Encode(buffer);
+    return this.base32Encode(crypto.randomBytes(this.TOTP_SECRET_LENGTH));
   }
-  
+
   /**
-   * Verify a TOTP code
+   * Build the otpauth URI understood by authenticator apps
+   * @param userId User identifier, used as account name
+   * @param secret Base32 encoded TOTP secret
+   * @returns otpauth:// URI
+   */
+  private buildOtpauthUrl(userId: string, secret: string): string {
+    const label = `${encodeURIComponent(this.issuer)}:${encodeURIComponent(userId)}`;
+    const params = new URLSearchParams({
+      secret,
+      issuer: this.issuer,
+      algorithm: 'SHA1',
+      digits: String(this.TOTP_DIGITS),
+      period: String(this.TOTP_PERIOD)
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  /**
+   * Verify a TOTP code against the current time step and the allowed window
    * @param code TOTP code
-   * @param secret TOTP secret
-   * @returns Whether the code is valid
+   * @param secret Base32 encoded TOTP secret
+   * @param lastUsedStep Time step of the last accepted code; it and earlier steps are rejected
+   * @returns Matching time step, or undefined if the code is not valid
    */
-  private verifyTOTPCode(code: string, secret: string): boolean {
-    // Get current time step (30-second window)
-    const timeStep = Math.floor(Date.now() / 30000);
-    
+  private verifyTOTPCode(code: string, secret: string, lastUsedStep?: number): number | undefined {
+    const normalized = String(code).replace(/\s/g, '');
+    if (!new RegExp(`^\\d{${this.TOTP_DIGITS}}$`).test(normalized)) {
+      return undefined;
+    }
+
+    const key = this.base32Decode(secret);
+    const timeStep = Math.floor(Date.now() / 1000 / this.TOTP_PERIOD);
+
     // Check current time step and window
     for (let i = -this.TOTP_WINDOW; i <= this.TOTP_WINDOW; i++) {
-      const expectedCode = this.generateTOTPCode(secret, timeStep + i);
-      if (code === expectedCode) {
-        return true;
+      const step = timeStep + i;
+      if (lastUsedStep !== undefined && step <= lastUsedStep) {
+        continue;
+      }
+
+      const expectedCode = this.generateHOTPCode(key, step);
+      if (crypto.timingSafeEqual(Buffer.from(normalized), Buffer.from(expectedCode))) {
+        return step;
       }
     }
-    
-    return false;
+
+    return undefined;
   }
-  
+
   /**
-   * Generate a TOTP code for a specific time step
-   * @param secret TOTP secret
-   * @param timeStep Time step
-   * @returns TOTP code
+   * Generate an HOTP code (RFC 4226) for a counter; TOTP uses the time step as counter
+   * @param key Shared secret
+   * @param counter Moving factor
+   * @returns HOTP code
    */
-  private generateTOTPCode(secret: string, timeStep: number): string {
-    // Convert time step to buffer
+  private generateHOTPCode(key: Buffer, counter: number): string {
     const buffer = Buffer.alloc(8);
-    buffer.writeBigUInt64BE(BigInt(timeStep), 0);
-    
-    // Convert secret from base32 to buffer
-    const secretBuffer = this.base32Decode(secret);
-    
-    // Generate HMAC-SHA1
-    const hmac = crypto.createHmac('sha1', secretBuffer);
-    hmac.update(buffer);
-    const hash = hmac.digest();
-    
+    buffer.writeBigUInt64BE(BigInt(counter), 0);
+
+    const hash = crypto.createHmac('sha1', key).update(buffer).digest();
+
     // Dynamic truncation
     const offset = hash[hash.length - 1] & 0xf;
     const binary = ((hash[offset] & 0x7f) << 24) |
                   ((hash[offset + 1] & 0xff) << 16) |
                   ((hash[offset + 2] & 0xff) << 8) |
                   (hash[offset + 3] & 0xff);
-    
-    // Generate 6-digit code
-    const code = binary % 1000000;
-    return code.toString().padStart(6, '0');
+
+    const code = binary % 10 ** this.TOTP_DIGITS;
+    return code.toString().padStart(this.TOTP_DIGITS, '0');
+  }
+
+  /**
+   * Generate a set of recovery codes formatted as XXXX-XXXX
+   * @returns Recovery codes
+   */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+      const code = this.base32Encode(crypto.randomBytes(5));
+      return `${code.slice(0, 4)}-${code.slice(4)}`;
+    });
+  }
+
+  /**
+   * Hash a recovery code for storage. Codes are compared case-insensitively
+   * and without separators.
+   * @param userId User identifier
+   * @param code Recovery code
+   * @returns Hex-encoded SHA-256 hash
+   */
+  private hashRecoveryCode(userId: string, code: string): string {
+    const normalized = String(code).toUpperCase().replace(/[^A-Z2-7]/g, '');
+    return crypto.createHash('sha256').update(`${userId}:${normalized}`).digest('hex');
   }
-  
+
   /**
-   * Base32 encode a buffer
+   * Hash an MFA session token for storage
+   * @param token Session token
+   * @returns Hex-encoded SHA-256 hash
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(String(token)).digest('hex');
+  }
+
+  /**
+   * Base32 encode a buffer (RFC 4648, without padding)
    * @param buffer Buffer to encode
    * @returns Base32 encoded string
    */
   private base32Encode(buffer: Buffer): string {
-    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
     let result = '';
     let bits = 0;
     let value = 0;
-    
+
     for (let i = 0; i < buffer.length; i++) {
-      value = (value << 8) | buffer[i];
+      value = ((value << 8) | buffer[i]) & 0xffff;
       bits += 8;
-      
+
       while (bits >= 5) {
-        result += alphabet[(value >>> (bits - 5)) & 31];
+        result += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
         bits -= 5;
       }
     }
-    
+
     if (bits > 0) {
-      result += alphabet[(value << (5 - bits)) & 31];
+      result += BASE32_ALPHABET[(value << (5 - bits)) & 31];
     }
-    
+
     return result;
   }
-  
+
   /**
-   * Base32 decode a string
+   * Base32 decode a string (RFC 4648). Padding, spaces and case are ignored.
    * @param str Base32 encoded string
    * @returns Decoded buffer
+   * @throws MFAError if the string contains characters outside the alphabet
    */
   private base32Decode(str: string): Buffer {
-    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
     const result: number[] = [];
     let bits = 0;
     let value = 0;
-    
-    for (let i = 0; i < str.length; i++) {
-      const char = str[i].toUpperCase();
-      const index = alphabet.indexOf(char);
-      if (index === -1) continue;
-      
-      value = (value << 5) | index;
+
+    for (const char of str.toUpperCase().replace(/[\s=]/g, '')) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new MFAError('Invalid base32 secret');
+      }
+
+      value = ((value << 5) | index) & 0xffff;
       bits += 5;
-      
+
       if (bits >= 8) {
         result.push((value >>> (bits - 8)) & 255);
         bits -= 8;
       }
     }
-    
+
     return Buffer.from(result);
   }
-  
+
+  /**
+   * Check whether a pending TOTP enrollment is too old to be confirmed
+   * @param config User MFA configuration
+   */
+  private isEnrollmentExpired(config: UserMFAConfig): boolean {
+    return !config.pendingTotpCreatedAt || Date.now() - config.pendingTotpCreatedAt > this.ENROLLMENT_EXPIRY;
+  }
+
   /**
-   * Get user MFA configuration, creating it if it doesn't exist
+   * Get user MFA configuration, or an empty one if the user has none yet
    * @param userId User identifier
    * @returns User MFA configuration
    */
-  private getUserConfig(userId: string): UserMFAConfig {
-    const config = this.userMfaConfigs.get(userId);
+  private async getUserConfig(userId: string): Promise<UserMFAConfig> {
+    const db = await getDatabase();
+    const config = await db.get('mfa_configs', userId);
     if (config) {
       return config;
     }
-    
-    // Create new config
-    const newConfig: UserMFAConfig = {
+
+    return {
       userId,
       totpEnabled: false,
-      hardwareKeys: [],
-      biometrics: [],
+      recoveryCodes: [],
       lastUpdated: Date.now()
     };
-    
-    this.userMfaConfigs.set(userId, newConfig);
-    return newConfig;
   }
-  
+
   /**
-   * Get an MFA session
-   * @param sessionToken MFA session token
-   * @returns MFA session
+   * Delete MFA sessions that expired without being completed
    */
-  private getSession(sessionToken: string): MFASession {
-    const session = this.mfaSessions.get(sessionToken);
-    if (!session) {
-      throw new Error('MFA session not found');
+  private async pruneExpiredSessions(): Promise<void> {
+    const db = await getDatabase();
+    const expired = await db.getAllFromIndex('mfa_sessions', 'by-expiresAt', { upper: Date.now() });
+    for (const session of expired) {
+      await db.delete('mfa_sessions', session.id);
     }
-    
-    // Check if session has expired
-    if (Date.now() > session.expiresAt) {
-      this.mfaSessions.delete(sessionToken);
-      throw new Error('MFA session has expired');
-    }
-    
-    return session;
   }
-  
+
+  /**
+   * Record an MFA change in the audit log
+   * @param action Audit action
+   * @param userId User identifier
+   * @param details Additional details
+   */
+  private audit(action: AuditAction, userId: string, details: Record<string, unknown>): void {
+    createAuditLog({
+      action,
+      userId,
+      performedBy: userId,
+      category: 'security',
+      status: 'success',
+      targetId: userId,
+      targetType: 'user',
+      details
+    }).catch(error => {
+      logger.error(`Error creating ${action} audit log:`, error);
+    });
+  }
+
   /**
-   * Determine required authentication factors based on operation type and data
+   * Determine required authentication factors based on operation type and data.
+   * Factors the user has not configured are only included where the operation
+   * demands them; high-value transactions always demand a hardware key.
    * @param operationType Type of operation
    * @param operationData Operation data
+   * @param available Factors the user has configured
    * @returns Array of required factors
    */
   private determineRequiredFactors(
-    operationType: 'transaction' | 'key_export' | 'settings_change' | 'recovery',
-    operationData: any
+    operationType: MFAOperationType,
+    operationData: any,
+    available: MFAFactor[]
   ): MFAFactor[] {
-    // Default to requiring TOTP for all operations
-    const factors: MFAFactor[] = ['totp'];
-    
+    const factors = new Set<MFAFactor>();
+    const addIfAvailable = (factor: MFAFactor) => {
+      if (available.includes(factor)) {
+        factors.add(factor);
+      }
+    };
+
+    // Every operation needs the user's primary factor, if any
+    const primary = (['totp', 'hardware_key'] as MFAFactor[]).find(factor => available.includes(factor));
+    if (primary) {
+      factors.add(primary);
+    }
+
     switch (operationType) {
       case 'transaction':
         // For high-value transactions, require hardware key
-        if (operationData.value && parseFloat(operationData.value) > 1.0) {
-          factors.push('hardware_key');
+        if (operationData?.value && parseFloat(operationData.value) > this.highValueThreshold) {
+          factors.add('hardware_key');
         }
         break;
-        
+
       case 'key_export':
-        // For key export, require hardware key and biometrics
-        factors.push('hardware_key');
-        factors.push('biometrics');
-        break;
-        
       case 'recovery':
-        // For account recovery, require all available factors
-        factors.push('hardware_key');
-        factors.push('biometrics');
+        // For key export and account recovery, require all available factors
+        addIfAvailable('hardware_key');
         break;
-        
+
       case 'settings_change':
         // For security settings changes, require hardware key
-        factors.push('hardware_key');
+        addIfAvailable('hardware_key');
         break;
     }
-    
-    return factors;
+
+    return Array.from(factors);
   }
-  
+
   /**
-   * Check if a user has any MFA methods configured
-   * @param config User MFA configuration
-   * @returns Whether user has MFA configured
+   * Get the factors a user has configured
+   * @param userId User identifier
+   * @returns Configured factors
    */
-  private hasMFAConfigured(config: UserMFAConfig): boolean {
-    return config.totpEnabled || 
-           (config.hardwareKeys && config.hardwareKeys.length > 0) ||
-           (config.biometrics && config.biometrics.length > 0);
+  private async getAvailableFactors(userId: string): Promise<MFAFactor[]> {
+    const config = await this.getUserConfig(userId);
+    const credentials = await webauthnService.listCredentials(userId);
+    const factors: MFAFactor[] = [];
+
+    if (config.totpEnabled) {
+      factors.push('totp');
+    }
+    if (credentials.length > 0) {
+      factors.push('hardware_key');
+    }
+
+    return factors;
   }
 }
 
 // Types
-type MFAFactor = 'totp' | 'hardware_key' | 'biometrics';
+export type UserMFAConfig = RyzerWalletDB['mfa_configs']['value'];
+export type MFASession = RyzerWalletDB['mfa_sessions']['value'];
+export type MFAFactor = MFASession['requiredFactors'][number];
+export type MFAOperationType = MFASession['operationType'];
 
-interface UserMFAConfig {
-  userId: string;
+export interface MFAStatus {
   totpEnabled: boolean;
-  totpSecret?: string;
-  hardwareKeys: HardwareKey[];
-  biometrics: BiometricInfo[];
-  lastUpdated: number;
-}
-
-interface HardwareKey {
-  keyId: string;
-  publicKey: string;
-  registeredAt: number;
-}
-
-interface BiometricInfo {
-  biometricId: string;
-  template: string;
-  registeredAt: number;
+  totpEnrollmentPending: boolean;
+  recoveryCodesRemaining: number;
+  hardwareKeys: number;
 }
 
-interface MFASession {
-  userId: string;
-  operationType: 'transaction' | 'key_export' | 'settings_change' | 'recovery';
-  operationData: any;
-  requiredFactors: MFAFactor[];
-  completedFactors: MFAFactor[];
-  failedAttempts: number;
-  createdAt: number;
-  expiresAt: number;
+export interface TOTPEnrollment {
+  secret: string; // Base32 secret for manual entry
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL of the otpauth URI
 }
 
 // Export singleton instance
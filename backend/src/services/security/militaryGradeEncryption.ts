@@ -1,34 +1,82 @@
 import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../../utils/logger';
+import { getDatabase, RyzerWalletDB } from '../../config/database';
+import { createRootKeyring, RootKeyring, RootKeySource } from './rootKeyring';
+
+export type DataKey = RyzerWalletDB['encryption_keys']['value'];
+
+// Root keyring summary
+export interface RootKeyInfo {
+  source: RootKeySource;
+  currentKeyId: string;
+  keyIds: string[];
+  rotatable: boolean;
+}
+
+// Key a ciphertext was produced with
+export interface CiphertextKey {
+  legacy: boolean; // Produced by the single master key before the key hierarchy
+  dataKeyId?: string;
+}
+
+// Prefix of ciphertexts encrypted under a data key: v2:<dataKeyId>:<base64 iv|authTag|ciphertext>
+const CIPHERTEXT_VERSION = 'v2';
+
+// Tenant of data encrypted without one
+export const DEFAULT_TENANT = 'default';
+
+// Lock serializing data key creation and rotation
+const KEY_LOCK = 'encryption_keys';
+
+// How long the active data key of a scope is cached; bounds how long other nodes keep using a rotated key
+const ACTIVE_KEY_CACHE_MS = 60 * 1000;
 
 /**
  * Military-Grade Encryption Service
- * 
- * Implements AES-256-GCM encryption with PBKDF2 key derivation and secure random IVs.
- * This provides military-grade security for sensitive wallet data.
+ *
+ * Implements AES-256-GCM envelope encryption. Data is encrypted with a data
+ * encryption key (DEK) per tenant and purpose; DEKs are stored wrapped by a
+ * root key from the HSM, a sealed key file or the environment (see
+ * rootKeyring.ts). Every ciphertext names the DEK it was encrypted with, so
+ * both levels can be rotated while old data stays readable until it is
+ * re-encrypted.
+ *
+ * The purpose of a ciphertext is the first segment of its context, e.g.
+ * `totp` for `totp:<userId>`.
  */
 export class MilitaryGradeEncryption {
   private static instance: MilitaryGradeEncryption;
-  
+
   // AES-256-GCM parameters
   private readonly ALGORITHM = 'aes-256-gcm';
   private readonly KEY_LENGTH = 32; // 256 bits
-  private readonly IV_LENGTH = 16; // 128 bits
+  private readonly IV_LENGTH = 12; // 96 bits, the GCM standard
   private readonly AUTH_TAG_LENGTH = 16; // 128 bits
-  private readonly SALT_LENGTH = 64; // 512 bits
-  
-  // PBKDF2 parameters
-  private readonly ITERATIONS = 310000; // High iteration count for key stretching
-  private readonly DIGEST = 'sha512';
-  
-  // Master encryption key (in a real implementation, this would be stored in a hardware security module)
-  private masterKey: Buffer;
-  
+
+  // Parameters of ciphertexts from before the key hierarchy
+  private readonly LEGACY_IV_LENGTH = 16;
+  private readonly LEGACY_SALT_LENGTH = 64;
+  private readonly LEGACY_ITERATIONS = 310000;
+  private readonly LEGACY_DIGEST = 'sha512';
+
+  // Master key that encrypted legacy ciphertexts
+  private legacyKey?: Buffer;
+
+  private keyring?: Promise<RootKeyring>;
+  private dataKeys = new Map<string, Buffer>(); // Unwrapped DEKs by ID
+  private activeKeys = new Map<string, { id: string; expiresAt: number }>(); // Active DEK by scope
+
   private constructor() {
-    // Generate a secure random master key
-    this.masterKey = crypto.randomBytes(this.KEY_LENGTH);
+    const configuredKey = process.env.ENCRYPTION_MASTER_KEY;
+    if (configuredKey) {
+      this.legacyKey = Buffer.from(configuredKey, 'hex');
+      if (this.legacyKey.length !== this.KEY_LENGTH) {
+        throw new Error(`ENCRYPTION_MASTER_KEY must be ${this.KEY_LENGTH} bytes of hex`);
+      }
+    }
   }
-  
+
   /**
    * Get the singleton instance of MilitaryGradeEncryption
    */
@@ -38,112 +86,364 @@ export class MilitaryGradeEncryption {
     }
     return MilitaryGradeEncryption.instance;
   }
-  
+
+  /**
+   * Load the root keyring. Called lazily by every operation that needs it.
+   */
+  public async initialize(): Promise<RootKeyring> {
+    if (!this.keyring) {
+      this.keyring = createRootKeyring().then(keyring => {
+        logger.info(`Encryption root key source: ${keyring.source}, current key ${keyring.currentKeyId()}`);
+        return keyring;
+      });
+      this.keyring.catch(() => {
+        this.keyring = undefined;
+      });
+    }
+    return this.keyring;
+  }
+
   /**
    * Encrypt data with military-grade security
    * @param data Data to encrypt
-   * @param context Additional context for key derivation (e.g., user ID, wallet ID)
-   * @returns Encrypted data in format: salt:iv:authTag:ciphertext
+   * @param context Context the ciphertext is bound to (e.g. `totp:<userId>`); its first segment is the purpose
+   * @param tenantId Tenant whose data key to use
+   * @returns Encrypted data in format: v2:dataKeyId:base64(iv|authTag|ciphertext)
    */
-  public encrypt(data: string, context: string): string {
+  public async encrypt(data: string, context: string, tenantId: string = DEFAULT_TENANT): Promise<string> {
     try {
-      // Generate a secure random salt
-      const salt = crypto.randomBytes(this.SALT_LENGTH);
-      
-      // Derive a key using PBKDF2 with the master key and context
-      const derivedKey = this.deriveKey(salt, context);
-      
-      // Generate a secure random initialization vector
+      const { id, key } = await this.getActiveDataKey(this.getPurpose(context), tenantId);
+
       const iv = crypto.randomBytes(this.IV_LENGTH);
-      
-      // Create cipher with derived key and IV
-      const cipher = crypto.createCipheriv(this.ALGORITHM, derivedKey, iv);
-      
-      // Encrypt the data
-      let encrypted = cipher.update(data, 'utf8', 'hex');
-      encrypted += cipher.final('hex');
-      
-      // Get the authentication tag
-      const authTag = cipher.getAuthTag();
-      
-      // Combine all components: salt:iv:authTag:ciphertext
-      return Buffer.concat([
-        salt,
-        iv,
-        authTag,
-        Buffer.from(encrypted, 'hex')
-      ]).toString('base64');
+      const cipher = crypto.createCipheriv(this.ALGORITHM, key, iv);
+      cipher.setAAD(this.dataAad(id, context));
+      const encrypted = Buffer.concat([cipher.update(data, 'utf8'), cipher.final()]);
+
+      return `${CIPHERTEXT_VERSION}:${id}:${Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64')}`;
     } catch (error) {
       logger.error('Encryption failed:', error);
       throw new Error('Failed to encrypt data');
     }
   }
-  
+
   /**
    * Decrypt data that was encrypted with military-grade security
-   * @param encryptedData Encrypted data in format: salt:iv:authTag:ciphertext
-   * @param context Additional context for key derivation (e.g., user ID, wallet ID)
+   * @param encryptedData Encrypted data, current or legacy format
+   * @param context Context the data was encrypted with
    * @returns Decrypted data
    */
-  public decrypt(encryptedData: string, context: string): string {
+  public async decrypt(encryptedData: string, context: string): Promise<string> {
     try {
-      // Decode the base64 encrypted data
-      const buffer = Buffer.from(encryptedData, 'base64');
-      
-      // Extract components
-      const salt = buffer.subarray(0, this.SALT_LENGTH);
-      const iv = buffer.subarray(this.SALT_LENGTH, this.SALT_LENGTH + this.IV_LENGTH);
-      const authTag = buffer.subarray(
-        this.SALT_LENGTH + this.IV_LENGTH,
-        this.SALT_LENGTH + this.IV_LENGTH + this.AUTH_TAG_LENGTH
-      );
-      const encrypted = buffer.subarray(
-        this.SALT_LENGTH + this.IV_LENGTH + this.AUTH_TAG_LENGTH
-      ).toString('hex');
-      
-      // Derive the key using PBKDF2 with the master key and context
-      const derivedKey = this.deriveKey(salt, context);
-      
-      // Create decipher with derived key and IV
-      const decipher = crypto.createDecipheriv(this.ALGORITHM, derivedKey, iv);
-      
-      // Set the authentication tag
-      decipher.setAuthTag(authTag);
-      
-      // Decrypt the data
-      let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-      decrypted += decipher.final('utf8');
-      
-      return decrypted;
+      const { legacy, dataKeyId } = this.describeCiphertext(encryptedData);
+      if (legacy) {
+        return this.decryptLegacy(encryptedData, context);
+      }
+
+      const key = await this.getDataKey(dataKeyId!);
+      const buffer = Buffer.from(encryptedData.slice(CIPHERTEXT_VERSION.length + dataKeyId!.length + 2), 'base64');
+
+      const decipher = crypto.createDecipheriv(this.ALGORITHM, key, buffer.subarray(0, this.IV_LENGTH));
+      decipher.setAAD(this.dataAad(dataKeyId!, context));
+      decipher.setAuthTag(buffer.subarray(this.IV_LENGTH, this.IV_LENGTH + this.AUTH_TAG_LENGTH));
+
+      return Buffer.concat([
+        decipher.update(buffer.subarray(this.IV_LENGTH + this.AUTH_TAG_LENGTH)),
+        decipher.final(),
+      ]).toString('utf8');
     } catch (error) {
       logger.error('Decryption failed:', error);
       throw new Error('Failed to decrypt data: data may be tampered or corrupted');
     }
   }
-  
-  /**
-   * Derive a key using PBKDF2 with the master key and context
-   * @param salt Random salt for key derivation
-   * @param context Additional context for key derivation
-   * @returns Derived key
-   */
-  private deriveKey(salt: Buffer, context: string): Buffer {
-    // Combine master key with context
-    const keyMaterial = Buffer.concat([
-      this.masterKey,
-      Buffer.from(context, 'utf8')
-    ]);
-    
-    // Derive a key using PBKDF2
-    return crypto.pbkdf2Sync(
-      keyMaterial,
+
+  /**
+   * Identify the key a ciphertext was encrypted with
+   * @param encryptedData Encrypted data
+   */
+  public describeCiphertext(encryptedData: string): CiphertextKey {
+    const [version, dataKeyId] = encryptedData.split(':', 2);
+    if (version === CIPHERTEXT_VERSION && dataKeyId) {
+      return { legacy: false, dataKeyId };
+    }
+    return { legacy: true };
+  }
+
+  /**
+   * Whether a ciphertext is encrypted with the active data key of its scope
+   * @param encryptedData Encrypted data
+   * @param context Context the data was encrypted with
+   * @param tenantId Tenant of the data
+   */
+  public async isCurrent(encryptedData: string, context: string, tenantId: string = DEFAULT_TENANT): Promise<boolean> {
+    const { dataKeyId } = this.describeCiphertext(encryptedData);
+    if (!dataKeyId) {
+      return false;
+    }
+    const active = await this.findActiveDataKey(this.scope(this.getPurpose(context), tenantId));
+    return active?.id === dataKeyId;
+  }
+
+  /**
+   * Re-encrypt data under the active data key of its scope
+   * @param encryptedData Encrypted data
+   * @param context Context the data was encrypted with
+   * @param tenantId Tenant of the data
+   * @returns New ciphertext
+   */
+  public async reencrypt(encryptedData: string, context: string, tenantId: string = DEFAULT_TENANT): Promise<string> {
+    return this.encrypt(await this.decrypt(encryptedData, context), context, tenantId);
+  }
+
+  /**
+   * Replace the active data key of a scope with a new version. Data encrypted
+   * with the old version stays readable until it is re-encrypted.
+   * @param purpose Purpose of the key, e.g. `totp`
+   * @param tenantId Tenant of the key
+   * @returns New data key
+   */
+  public async rotateDataKey(purpose: string, tenantId: string = DEFAULT_TENANT): Promise<DataKey> {
+    const db = await getDatabase();
+    const scope = this.scope(purpose, tenantId);
+
+    const created = await db.withExclusiveLock(KEY_LOCK, async () => {
+      const existing = await db.getAllFromIndex('encryption_keys', 'by-scope', scope);
+      const now = Date.now();
+
+      for (const key of existing) {
+        if (key.status === 'active') {
+          await db.put('encryption_keys', { ...key, status: 'retired', retiredAt: now });
+        }
+      }
+
+      return this.createDataKey(purpose, tenantId, this.nextVersion(existing));
+    });
+
+    this.activeKeys.set(scope, { id: created.id, expiresAt: Date.now() + ACTIVE_KEY_CACHE_MS });
+    logger.info(`Rotated data key for ${scope} to version ${created.version}`);
+    return created;
+  }
+
+  /**
+   * Add a new root key version, if the root key source supports it. DEKs are
+   * moved to it by rewrapping them.
+   * @returns New root key ID
+   */
+  public async rotateRootKey(): Promise<string> {
+    const keyring = await this.initialize();
+    if (!keyring.rotate) {
+      throw new Error(`Root keys from the ${keyring.source} source are rotated by configuration`);
+    }
+
+    const keyId = await keyring.rotate();
+    logger.info(`Rotated encryption root key to ${keyId}`);
+    return keyId;
+  }
+
+  /**
+   * Rewrap a data key with the current root key
+   * @param id Data key ID
+   * @returns Whether the key had to be rewrapped
+   */
+  public async rewrapDataKey(id: string): Promise<boolean> {
+    const db = await getDatabase();
+    const keyring = await this.initialize();
+
+    return db.withExclusiveLock(KEY_LOCK, async () => {
+      const record = await db.get('encryption_keys', id);
+      if (!record) {
+        throw new Error(`Data key ${id} not found`);
+      }
+      if (record.rootKeyId === keyring.currentKeyId()) {
+        return false;
+      }
+
+      const key = await keyring.unwrap(record, this.keyAad(record));
+      const wrapped = await keyring.wrap(key, this.keyAad(record));
+      await db.put('encryption_keys', { ...record, ...wrapped, rewrappedAt: Date.now() });
+      return true;
+    });
+  }
+
+  /**
+   * Describe the root keyring
+   */
+  public async getRootKeyInfo(): Promise<RootKeyInfo> {
+    const keyring = await this.initialize();
+    return {
+      source: keyring.source,
+      currentKeyId: keyring.currentKeyId(),
+      keyIds: keyring.keyIds(),
+      rotatable: typeof keyring.rotate === 'function',
+    };
+  }
+
+  /**
+   * List all data keys, without key material
+   */
+  public async listDataKeys(): Promise<DataKey[]> {
+    const db = await getDatabase();
+    return db.getAll('encryption_keys');
+  }
+
+  /**
+   * Purpose of a context, the segment before the first colon
+   * @param context Encryption context
+   */
+  public getPurpose(context: string): string {
+    return context.split(':', 1)[0];
+  }
+
+  /**
+   * Get the active data key of a scope, creating the first version if needed
+   * @param purpose Purpose of the key
+   * @param tenantId Tenant of the key
+   */
+  private async getActiveDataKey(purpose: string, tenantId: string): Promise<{ id: string; key: Buffer }> {
+    const scope = this.scope(purpose, tenantId);
+    let active = await this.findActiveDataKey(scope);
+
+    if (!active) {
+      const db = await getDatabase();
+      active = await db.withExclusiveLock(KEY_LOCK, async () => {
+        const existing = await db.getAllFromIndex('encryption_keys', 'by-scope', scope);
+        return existing.find(key => key.status === 'active') || this.createDataKey(purpose, tenantId, this.nextVersion(existing));
+      });
+      this.activeKeys.set(scope, { id: active.id, expiresAt: Date.now() + ACTIVE_KEY_CACHE_MS });
+    }
+
+    return { id: active.id, key: await this.getDataKey(active.id) };
+  }
+
+  /**
+   * Find the active data key of a scope
+   * @param scope Key scope
+   */
+  private async findActiveDataKey(scope: string): Promise<{ id: string } | undefined> {
+    const cached = this.activeKeys.get(scope);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    const db = await getDatabase();
+    const active = (await db.getAllFromIndex('encryption_keys', 'by-scope', scope)).find(key => key.status === 'active');
+    if (active) {
+      this.activeKeys.set(scope, { id: active.id, expiresAt: Date.now() + ACTIVE_KEY_CACHE_MS });
+    }
+    return active;
+  }
+
+  /**
+   * Generate, wrap and store a data key. Callers hold the key lock.
+   * @param purpose Purpose of the key
+   * @param tenantId Tenant of the key
+   * @param version Version within the scope
+   */
+  private async createDataKey(purpose: string, tenantId: string, version: number): Promise<DataKey> {
+    const db = await getDatabase();
+    const keyring = await this.initialize();
+
+    const key = crypto.randomBytes(this.KEY_LENGTH);
+    const id = `dek_${uuidv4().replace(/-/g, '')}`;
+    const scope = this.scope(purpose, tenantId);
+    const wrapped = await keyring.wrap(key, this.keyAad({ id, scope }));
+
+    const record: DataKey = {
+      id,
+      scope,
+      tenantId,
+      purpose,
+      version,
+      status: 'active',
+      ...wrapped,
+      createdAt: Date.now(),
+    };
+    await db.put('encryption_keys', record);
+
+    this.dataKeys.set(id, key);
+    return record;
+  }
+
+  /**
+   * Get the key material of a data key
+   * @param id Data key ID
+   */
+  private async getDataKey(id: string): Promise<Buffer> {
+    const cached = this.dataKeys.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    const db = await getDatabase();
+    const record = await db.get('encryption_keys', id);
+    if (!record) {
+      throw new Error(`Data key ${id} not found`);
+    }
+
+    const keyring = await this.initialize();
+    const key = await keyring.unwrap(record, this.keyAad(record));
+    this.dataKeys.set(id, key);
+    return key;
+  }
+
+  /**
+   * Decrypt a ciphertext of the single-master-key format: salt|iv|authTag|ciphertext
+   * with a PBKDF2 key derived from ENCRYPTION_MASTER_KEY and the context
+   * @param encryptedData Base64 legacy ciphertext
+   * @param context Context the data was encrypted with
+   */
+  private decryptLegacy(encryptedData: string, context: string): string {
+    if (!this.legacyKey) {
+      throw new Error('ENCRYPTION_MASTER_KEY is required to decrypt data from before the key hierarchy');
+    }
+
+    const buffer = Buffer.from(encryptedData, 'base64');
+    const salt = buffer.subarray(0, this.LEGACY_SALT_LENGTH);
+    const ivEnd = this.LEGACY_SALT_LENGTH + this.LEGACY_IV_LENGTH;
+    const iv = buffer.subarray(this.LEGACY_SALT_LENGTH, ivEnd);
+    const authTag = buffer.subarray(ivEnd, ivEnd + this.AUTH_TAG_LENGTH);
+
+    const derivedKey = crypto.pbkdf2Sync(
+      Buffer.concat([this.legacyKey, Buffer.from(context, 'utf8')]),
       salt,
-      this.ITERATIONS,
+      this.LEGACY_ITERATIONS,
       this.KEY_LENGTH,
-      this.DIGEST
+      this.LEGACY_DIGEST
     );
+
+    const decipher = crypto.createDecipheriv(this.ALGORITHM, derivedKey, iv);
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(buffer.subarray(ivEnd + this.AUTH_TAG_LENGTH)), decipher.final()]).toString('utf8');
+  }
+
+  /**
+   * Next version number of a scope
+   * @param existing Data keys of the scope
+   */
+  private nextVersion(existing: DataKey[]): number {
+    return existing.reduce((max, key) => Math.max(max, key.version), 0) + 1;
+  }
+
+  /**
+   * Scope of a data key
+   */
+  private scope(purpose: string, tenantId: string): string {
+    return `${tenantId}:${purpose}`;
+  }
+
+  /**
+   * Associated data binding a wrapped DEK to its ID and scope
+   */
+  private keyAad(key: { id: string; scope: string }): string {
+    return `dek:${key.id}:${key.scope}`;
+  }
+
+  /**
+   * Associated data binding a ciphertext to its data key and context
+   */
+  private dataAad(dataKeyId: string, context: string): Buffer {
+    return Buffer.from(`${dataKeyId}:${context}`, 'utf8');
   }
-  
+
   /**
    * Generate a secure random key
    * @returns Secure random key as hex string
@@ -151,7 +451,7 @@ export class MilitaryGradeEncryption {
   public generateSecureKey(): string {
     return crypto.randomBytes(32).toString('hex');
   }
-  
+
   /**
    * Compute a secure hash of data
    * @param data Data to hash
@@ -160,7 +460,7 @@ export class MilitaryGradeEncryption {
   public secureHash(data: string): string {
     return crypto.createHash('sha3-512').update(data).digest('hex');
   }
-  
+
   /**
    * Generate a secure random nonce
    * @param length Length of nonce in bytes
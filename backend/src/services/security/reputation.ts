@@ -0,0 +1,608 @@
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { logger } from '../../utils/logger';
+import { getDatabase, RyzerWalletDB } from '../../config/database';
+import { createAuditLog, AuditAction, AuditTargetType } from '../audit';
+import { getContractInfo, hasTransactedWith, ContractInfo } from '../indexer';
+import { intrusionDetection } from './intrusionDetection';
+import { AddressReputationProvider } from './intrusionRules';
+
+export type AddressListEntry = RyzerWalletDB['address_lists']['value'];
+export type AddressList = AddressListEntry['list'];
+
+export enum ReputationSignalType {
+  DENY_LIST = 'deny_list',
+  SANCTIONED = 'sanctioned',
+  DRAINER = 'drainer',
+  NEW_CONTRACT = 'new_contract',
+  UNVERIFIED_CONTRACT = 'unverified_contract',
+  FIRST_TIME_RECIPIENT = 'first_time_recipient',
+}
+
+export type ReputationAction = 'allow' | 'warn' | 'block';
+
+// A reason an address is risky
+export interface ReputationSignal {
+  type: ReputationSignalType;
+  address: string;
+  score: number; // 0.0 to 1.0
+  reason: string;
+}
+
+// Reputation of a transaction's destinations
+export interface ReputationVerdict {
+  riskScore: number; // 0.0 to 1.0
+  action: ReputationAction;
+  signals: ReputationSignal[];
+  warnings: string[];
+  allowListed: string[]; // Destinations whose list, age, verification and first-time signals were waived
+}
+
+// Transaction to score
+export interface ReputationRequest {
+  chainId: number;
+  from?: string;
+  to: string;
+  data?: string;
+  tenantId: string;
+}
+
+// Known drainer contract, matched by runtime bytecode hash or by the function selectors it dispatches on
+export interface DrainerSignature {
+  id: string;
+  name: string;
+  bytecodeHash?: string;
+  selectors?: string[];
+  minSelectors?: number; // Selectors that must be present; defaults to all of them
+}
+
+// Sanctioned addresses loaded from one file
+export interface SanctionsListStatus {
+  file: string;
+  addresses: number;
+  loadedAt?: number;
+  error?: string;
+}
+
+// Address reputation options
+export interface AddressReputationOptions {
+  warnScore: number;
+  blockScore: number;
+  minContractAgeMs: number;
+  sanctionsFiles: string[];
+  drainerSignaturesFile?: string;
+}
+
+// Scores of the signals that do not block on their own
+const SIGNAL_SCORES = {
+  [ReputationSignalType.NEW_CONTRACT]: 0.3,
+  [ReputationSignalType.UNVERIFIED_CONTRACT]: 0.3,
+  [ReputationSignalType.FIRST_TIME_RECIPIENT]: 0.2,
+};
+
+// Payable, capitalized entry points wallet drainer kits lure victims into calling
+const BUILT_IN_DRAINERS: DrainerSignature[] = [
+  {
+    id: 'payable-claim-lure',
+    name: 'Drainer kit claim function',
+    selectors: ['Claim()', 'ClaimReward()', 'ClaimRewards()', 'SecurityUpdate()', 'NetworkMerge()'].map(signature =>
+      ethers.utils.id(signature).slice(0, 10)
+    ),
+    minSelectors: 1,
+  },
+];
+
+// Token calls that hand assets or allowances to another party, and the argument naming it
+const TOKEN_CALLS = new ethers.utils.Interface([
+  'function transfer(address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+  'function increaseAllowance(address spender, uint256 addedValue)',
+  'function transferFrom(address from, address to, uint256 amount)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+  'function setApprovalForAll(address operator, bool approved)',
+]);
+const COUNTERPARTY_ARGS: Record<string, string> = {
+  transfer: 'to',
+  approve: 'spender',
+  increaseAllowance: 'spender',
+  transferFrom: 'to',
+  safeTransferFrom: 'to',
+  setApprovalForAll: 'operator',
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// How often sanctions files are checked for changes
+const SANCTIONS_CHECK_INTERVAL_MS = 60 * 1000;
+
+const ADDRESS_PATTERN = /0x[0-9a-fA-F]{40}/g;
+
+/**
+ * Address reputation error
+ */
+export class ReputationError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'ReputationError';
+  }
+}
+
+/**
+ * Read a score threshold from the environment
+ * @param value Environment value
+ * @param fallback Default threshold
+ */
+const threshold = (value: string | undefined, fallback: number): number => {
+  const parsed = parseFloat(value || '');
+  return Number.isFinite(parsed) && parsed > 0 && parsed <= 1 ? parsed : fallback;
+};
+
+/**
+ * Read the addresses of a sanctions list: a JSON array of addresses or of
+ * objects with an address, or any text (such as CSV) containing addresses
+ * @param content File content
+ * @returns Lowercase addresses
+ */
+export const parseSanctionsList = (content: string): string[] => {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(content);
+  } catch {
+    return (content.match(ADDRESS_PATTERN) || []).map(address => address.toLowerCase());
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error('expected a JSON array of addresses');
+  }
+  return entries
+    .map(entry => (typeof entry === 'string' ? entry : (entry as any)?.address))
+    .filter((address): address is string => typeof address === 'string' && ethers.utils.isAddress(address))
+    .map(address => address.toLowerCase());
+};
+
+/**
+ * Find the drainer signature the code of a contract matches
+ * @param info Contract metadata
+ * @param signatures Signatures to match
+ */
+export const matchDrainerSignature = (
+  info: Pick<ContractInfo, 'code' | 'codeHash'>,
+  signatures: DrainerSignature[] = BUILT_IN_DRAINERS
+): DrainerSignature | undefined => {
+  const code = info.code?.toLowerCase() || '';
+  return signatures.find(signature => {
+    if (signature.bytecodeHash && signature.bytecodeHash.toLowerCase() === info.codeHash) {
+      return true;
+    }
+    if (!signature.selectors?.length) {
+      return false;
+    }
+    // Solidity dispatchers push each selector with PUSH4 (0x63)
+    const present = signature.selectors.filter(selector => code.includes(`63${selector.slice(2).toLowerCase()}`));
+    return present.length >= (signature.minSelectors ?? signature.selectors.length);
+  });
+};
+
+/**
+ * Address Reputation Service
+ *
+ * Scores the destinations of a transaction before it is relayed or executed:
+ * the called address and the recipient, spender or operator its calldata
+ * names. Addresses on the tenant's deny list, on an imported sanctions list
+ * or running known drainer bytecode block the transaction. Contracts younger
+ * than the minimum age, contracts without verified source and recipients the
+ * sender has never transacted with add to the risk score, which is compared
+ * with the warn and block thresholds. The tenant's allow list waives every
+ * signal but sanctions.
+ */
+export class AddressReputationService implements AddressReputationProvider {
+  private static instance: AddressReputationService;
+  private sanctioned = new Map<string, string>(); // Address to the file listing it
+  private sanctionsStatus: SanctionsListStatus[] = [];
+  private sanctionsMtimes = new Map<string, number>();
+  private sanctionsCheckedAt = 0;
+  private drainers: DrainerSignature[] = BUILT_IN_DRAINERS;
+
+  private constructor(private readonly options: AddressReputationOptions) {
+    this.loadDrainerSignatures();
+  }
+
+  /**
+   * Get the singleton instance of AddressReputationService
+   */
+  public static getInstance(): AddressReputationService {
+    if (!AddressReputationService.instance) {
+      const days = parseFloat(process.env.REPUTATION_MIN_CONTRACT_AGE_DAYS || '');
+      AddressReputationService.instance = new AddressReputationService({
+        warnScore: threshold(process.env.REPUTATION_WARN_SCORE, 0.3),
+        blockScore: threshold(process.env.REPUTATION_BLOCK_SCORE, 0.8),
+        minContractAgeMs: (Number.isFinite(days) && days >= 0 ? days : 7) * DAY,
+        sanctionsFiles: (process.env.SANCTIONS_LIST_FILES || '')
+          .split(',')
+          .map(file => file.trim())
+          .filter(Boolean),
+        drainerSignaturesFile: process.env.DRAINER_SIGNATURES_FILE || undefined,
+      });
+    }
+    return AddressReputationService.instance;
+  }
+
+  /**
+   * Score the destinations of a transaction
+   * @param request Transaction
+   * @returns Verdict
+   */
+  public async evaluate(request: ReputationRequest): Promise<ReputationVerdict> {
+    if (!ethers.utils.isAddress(request.to)) {
+      throw new ReputationError(`Invalid destination address: ${request.to}`);
+    }
+    if (request.from !== undefined && !ethers.utils.isAddress(request.from)) {
+      throw new ReputationError(`Invalid sender address: ${request.from}`);
+    }
+    this.refreshSanctions();
+
+    const to = request.to.toLowerCase();
+    const counterparty = this.decodeCounterparty(request.data);
+    const destinations = Array.from(new Set([to, ...(counterparty ? [counterparty] : [])]));
+    // Calling a token contract for the first time is routine; sending to a new party is not
+    const recipient = counterparty || to;
+
+    const signals: ReputationSignal[] = [];
+    const allowListed: string[] = [];
+    for (const address of destinations) {
+      const sanctionsList = this.sanctioned.get(address);
+      if (sanctionsList) {
+        signals.push({
+          type: ReputationSignalType.SANCTIONED,
+          address,
+          score: 1,
+          reason: `${address} is on the sanctions list ${path.basename(sanctionsList)}`,
+        });
+      }
+
+      const entry = await this.getListEntry(request.tenantId, address);
+      if (entry?.list === 'allow') {
+        allowListed.push(address);
+        continue;
+      }
+      if (entry?.list === 'deny') {
+        signals.push({
+          type: ReputationSignalType.DENY_LIST,
+          address,
+          score: 1,
+          reason: `${address} is on the deny list${entry.reason ? `: ${entry.reason}` : ''}`,
+        });
+      }
+
+      signals.push(...(await this.contractSignals(request.chainId, address)));
+
+      if (address === recipient && request.from && request.from.toLowerCase() !== address) {
+        signals.push(...(await this.firstTimeSignals(request.chainId, request.from, address)));
+      }
+    }
+
+    const riskScore = Math.min(1, signals.reduce((sum, signal) => sum + signal.score, 0));
+    const action: ReputationAction =
+      riskScore >= this.options.blockScore ? 'block' : riskScore >= this.options.warnScore ? 'warn' : 'allow';
+    return { riskScore, action, signals, warnings: signals.map(signal => signal.reason), allowListed };
+  }
+
+  /**
+   * Score a transaction and refuse it if the policy blocks it
+   * @param request Transaction
+   * @param performedBy Who is sending the transaction
+   * @returns Verdict of a transaction the policy lets through
+   * @throws ReputationError with status 403 if the transaction is blocked
+   */
+  public async enforce(request: ReputationRequest, performedBy: string): Promise<ReputationVerdict> {
+    const verdict = await this.evaluate(request);
+    if (verdict.action === 'block') {
+      await this.audit(AuditAction.TRANSACTION_BLOCKED_BY_REPUTATION, performedBy, request.to.toLowerCase(), {
+        tenantId: request.tenantId,
+        chainId: request.chainId,
+        from: request.from,
+        riskScore: verdict.riskScore,
+        signals: verdict.signals,
+      });
+      throw new ReputationError(`Transaction blocked by address reputation: ${verdict.warnings.join('; ')}`, 403);
+    }
+    return verdict;
+  }
+
+  /**
+   * Rate an address for intrusion detection from the lists alone
+   * @param address Lowercase address
+   * @param tenantId Tenant
+   */
+  public async getRisk(address: string, tenantId: string): Promise<{ risk: number; reason?: string } | undefined> {
+    this.refreshSanctions();
+    const sanctionsList = this.sanctioned.get(address);
+    if (sanctionsList) {
+      return { risk: 1, reason: `sanctioned (${path.basename(sanctionsList)})` };
+    }
+    const entry = await this.getListEntry(tenantId, address);
+    if (!entry) {
+      return undefined;
+    }
+    return entry.list === 'deny' ? { risk: 1, reason: entry.reason || 'deny list' } : { risk: 0 };
+  }
+
+  /**
+   * Put an address on the tenant's allow or deny list, replacing any previous entry
+   * @param tenantId Tenant
+   * @param address Address
+   * @param list List
+   * @param addedBy Who adds the address
+   * @param reason Optional reason
+   * @returns List entry
+   */
+  public async addListEntry(
+    tenantId: string,
+    address: string,
+    list: AddressList,
+    addedBy: string,
+    reason?: string
+  ): Promise<AddressListEntry> {
+    if (!ethers.utils.isAddress(address)) {
+      throw new ReputationError(`Invalid address: ${address}`);
+    }
+    if (list !== 'allow' && list !== 'deny') {
+      throw new ReputationError('list must be allow or deny');
+    }
+
+    const normalizedAddress = address.toLowerCase();
+    const entry: AddressListEntry = {
+      id: `${tenantId}:${normalizedAddress}`,
+      tenantId,
+      address: normalizedAddress,
+      list,
+      reason: reason?.trim() || undefined,
+      addedBy,
+      addedAt: Date.now(),
+    };
+
+    const db = await getDatabase();
+    await db.put('address_lists', entry);
+    await this.audit(AuditAction.ADDRESS_LIST_UPDATED, addedBy, normalizedAddress, { tenantId, list, reason: entry.reason });
+    return entry;
+  }
+
+  /**
+   * Remove an address from the tenant's lists
+   * @param tenantId Tenant
+   * @param address Address
+   * @param performedBy Who removes the address
+   * @returns Whether the address was listed
+   */
+  public async removeListEntry(tenantId: string, address: string, performedBy: string): Promise<boolean> {
+    const normalizedAddress = address.toLowerCase();
+    const entry = await this.getListEntry(tenantId, normalizedAddress);
+    if (!entry) {
+      return false;
+    }
+
+    const db = await getDatabase();
+    await db.delete('address_lists', entry.id);
+    await this.audit(AuditAction.ADDRESS_LIST_UPDATED, performedBy, normalizedAddress, {
+      tenantId,
+      list: entry.list,
+      removed: true,
+    });
+    return true;
+  }
+
+  /**
+   * List the tenant's allow and deny list entries, newest first
+   * @param tenantId Tenant
+   * @param list Optional list to return
+   */
+  public async listEntries(tenantId: string, list?: AddressList): Promise<AddressListEntry[]> {
+    const db = await getDatabase();
+    const entries = await db.getAllFromIndex('address_lists', 'by-tenant', {
+      lower: [tenantId, 0],
+      upper: [tenantId, Number.MAX_SAFE_INTEGER],
+    });
+    return entries.filter(entry => !list || entry.list === list).reverse();
+  }
+
+  /**
+   * Get the sanctions lists loaded, reloading any that changed
+   */
+  public getSanctionsStatus(): { total: number; lists: SanctionsListStatus[] } {
+    this.refreshSanctions(true);
+    return { total: this.sanctioned.size, lists: this.sanctionsStatus };
+  }
+
+  /**
+   * Find the party a token call transfers to or approves
+   * @param data Calldata
+   * @returns Lowercase address, or undefined if the call is not a known token call
+   */
+  private decodeCounterparty(data?: string): string | undefined {
+    if (!data || data.length < 10) {
+      return undefined;
+    }
+    try {
+      const call = TOKEN_CALLS.parseTransaction({ data });
+      return String(call.args[COUNTERPARTY_ARGS[call.name]]).toLowerCase();
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the drainer, age and verification signals of an address that holds code
+   * @param chainId Chain ID
+   * @param address Lowercase address
+   */
+  private async contractSignals(chainId: number, address: string): Promise<ReputationSignal[]> {
+    let info: ContractInfo;
+    try {
+      info = await getContractInfo(chainId, address);
+    } catch (error) {
+      logger.warn(`Could not look up contract ${address} on chain ${chainId}:`, error);
+      return [];
+    }
+    if (!info.isContract) {
+      return [];
+    }
+
+    const signals: ReputationSignal[] = [];
+    const drainer = matchDrainerSignature(info, this.drainers);
+    if (drainer) {
+      signals.push({
+        type: ReputationSignalType.DRAINER,
+        address,
+        score: 1,
+        reason: `${address} matches the drainer signature ${drainer.name}`,
+      });
+    }
+    if (info.createdAt !== undefined && Date.now() - info.createdAt < this.options.minContractAgeMs) {
+      signals.push({
+        type: ReputationSignalType.NEW_CONTRACT,
+        address,
+        score: SIGNAL_SCORES[ReputationSignalType.NEW_CONTRACT],
+        reason: `${address} was deployed ${new Date(info.createdAt).toISOString()}`,
+      });
+    }
+    if (info.verified === false) {
+      signals.push({
+        type: ReputationSignalType.UNVERIFIED_CONTRACT,
+        address,
+        score: SIGNAL_SCORES[ReputationSignalType.UNVERIFIED_CONTRACT],
+        reason: `${address} has no verified source code`,
+      });
+    }
+    return signals;
+  }
+
+  /**
+   * Get the signal for a recipient the sender has not transacted with
+   * @param chainId Chain ID
+   * @param from Sender
+   * @param address Lowercase recipient
+   */
+  private async firstTimeSignals(chainId: number, from: string, address: string): Promise<ReputationSignal[]> {
+    try {
+      if (await hasTransactedWith(from, address, chainId)) {
+        return [];
+      }
+    } catch (error) {
+      logger.warn(`Could not check the history of ${from} with ${address}:`, error);
+      return [];
+    }
+    return [
+      {
+        type: ReputationSignalType.FIRST_TIME_RECIPIENT,
+        address,
+        score: SIGNAL_SCORES[ReputationSignalType.FIRST_TIME_RECIPIENT],
+        reason: `First transaction from ${from.toLowerCase()} to ${address}`,
+      },
+    ];
+  }
+
+  /**
+   * Add the drainer signatures of DRAINER_SIGNATURES_FILE to the built-in ones
+   */
+  private loadDrainerSignatures(): void {
+    const file = this.options.drainerSignaturesFile;
+    if (!file) {
+      return;
+    }
+    try {
+      const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+      if (!Array.isArray(parsed)) {
+        throw new Error('expected an array of signatures');
+      }
+      const signatures = parsed.filter(
+        (signature: any): signature is DrainerSignature =>
+          typeof signature?.id === 'string' &&
+          typeof signature.name === 'string' &&
+          (typeof signature.bytecodeHash === 'string' || Array.isArray(signature.selectors))
+      );
+      this.drainers = [...BUILT_IN_DRAINERS, ...signatures];
+      logger.info(`Loaded ${signatures.length} drainer signatures from ${file}`);
+    } catch (error) {
+      logger.error(`Error loading drainer signatures from ${file}:`, error);
+    }
+  }
+
+  /**
+   * Reload the sanctions files that changed since they were loaded
+   * @param force Check the files even if they were checked recently
+   */
+  private refreshSanctions(force = false): void {
+    const now = Date.now();
+    if (!force && now - this.sanctionsCheckedAt < SANCTIONS_CHECK_INTERVAL_MS) {
+      return;
+    }
+    this.sanctionsCheckedAt = now;
+
+    let changed = false;
+    const mtimes = new Map<string, number>();
+    for (const file of this.options.sanctionsFiles) {
+      try {
+        mtimes.set(file, fs.statSync(file).mtimeMs);
+      } catch {
+        mtimes.set(file, -1);
+      }
+      changed = changed || mtimes.get(file) !== this.sanctionsMtimes.get(file);
+    }
+    if (!changed) {
+      return;
+    }
+    this.sanctionsMtimes = mtimes;
+
+    const sanctioned = new Map<string, string>();
+    this.sanctionsStatus = this.options.sanctionsFiles.map(file => {
+      try {
+        const addresses = parseSanctionsList(fs.readFileSync(file, 'utf8'));
+        addresses.forEach(address => sanctioned.set(address, file));
+        return { file, addresses: addresses.length, loadedAt: now };
+      } catch (error) {
+        logger.error(`Error loading sanctions list ${file}:`, error);
+        return { file, addresses: 0, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+    this.sanctioned = sanctioned;
+    logger.info(`Loaded ${sanctioned.size} sanctioned addresses from ${this.options.sanctionsFiles.length} lists`);
+  }
+
+  /**
+   * Get the tenant's list entry for an address
+   * @param tenantId Tenant
+   * @param address Lowercase address
+   */
+  private async getListEntry(tenantId: string, address: string): Promise<AddressListEntry | undefined> {
+    const db = await getDatabase();
+    return (await db.get('address_lists', `${tenantId}:${address}`)) || undefined;
+  }
+
+  /**
+   * Create an audit log, logging instead of failing if it cannot be written
+   */
+  private async audit(
+    action: AuditAction,
+    performedBy: string,
+    address: string,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    await createAuditLog({
+      action,
+      userId: performedBy,
+      performedBy,
+      category: 'security',
+      status: 'success',
+      targetId: address,
+      targetType: AuditTargetType.ADDRESS,
+      details,
+    }).catch(error => logger.error(`Error creating ${action} audit log:`, error));
+  }
+}
+
+// Export singleton instance
+export const addressReputation = AddressReputationService.getInstance();
+
+// Destination reputation rules consult the lists and sanctions
+intrusionDetection.setReputationProvider(addressReputation);
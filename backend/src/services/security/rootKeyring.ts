@@ -0,0 +1,341 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../../utils/logger';
+import type { HSMProvider } from '../hsm';
+
+/**
+ * Root key encryption keys (KEKs). A root keyring wraps the data encryption
+ * keys (DEKs) that are persisted next to the data; the root keys themselves
+ * never leave the keyring. Several root key versions can be known at once so
+ * that DEKs wrapped by an old version stay readable until they are rewrapped.
+ */
+
+// Where the root keys come from
+export type RootKeySource = 'env' | 'file' | 'hsm' | 'ephemeral';
+
+// A DEK wrapped by a root key
+export interface WrappedKey {
+  rootKeyId: string;
+  wrappedKey: string; // Base64
+}
+
+export interface RootKeyring {
+  readonly source: RootKeySource;
+  // Root key new DEKs are wrapped with
+  currentKeyId(): string;
+  // All root keys that can unwrap
+  keyIds(): string[];
+  wrap(key: Buffer, aad: string): Promise<WrappedKey>;
+  unwrap(wrapped: WrappedKey, aad: string): Promise<Buffer>;
+  // Add a new root key version and make it current; sources rotated by configuration do not implement it
+  rotate?(): Promise<string>;
+}
+
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * Identify a local root key without revealing it
+ * @param source Key source
+ * @param key Root key
+ */
+const localKeyId = (source: RootKeySource, key: Buffer): string =>
+  `${source}:${crypto.createHmac('sha256', key).update('ryzer-root-key-id').digest('hex').slice(0, 16)}`;
+
+/**
+ * Parse a 32-byte hex key
+ * @param hex Hex-encoded key
+ * @param name Setting the key comes from, for errors
+ */
+const parseKey = (hex: string, name: string): Buffer => {
+  const key = Buffer.from(hex.trim(), 'hex');
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`${name} must be ${KEY_LENGTH} bytes of hex`);
+  }
+  return key;
+};
+
+/**
+ * Root keys held in process memory, wrapping with AES-256-GCM
+ */
+export class LocalKeyring implements RootKeyring {
+  protected keys = new Map<string, Buffer>();
+  protected current: string;
+
+  constructor(public readonly source: RootKeySource, current: Buffer, previous: Buffer[] = []) {
+    this.current = this.addKey(current);
+    for (const key of previous) {
+      this.addKey(key);
+    }
+  }
+
+  public currentKeyId(): string {
+    return this.current;
+  }
+
+  public keyIds(): string[] {
+    return Array.from(this.keys.keys());
+  }
+
+  public async wrap(key: Buffer, aad: string): Promise<WrappedKey> {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.keys.get(this.current)!, iv);
+    cipher.setAAD(Buffer.from(aad, 'utf8'));
+    const ciphertext = Buffer.concat([cipher.update(key), cipher.final()]);
+
+    return {
+      rootKeyId: this.current,
+      wrappedKey: Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64'),
+    };
+  }
+
+  public async unwrap(wrapped: WrappedKey, aad: string): Promise<Buffer> {
+    const rootKey = this.keys.get(wrapped.rootKeyId);
+    if (!rootKey) {
+      throw new Error(`Root key ${wrapped.rootKeyId} is not available`);
+    }
+
+    const buffer = Buffer.from(wrapped.wrappedKey, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', rootKey, buffer.subarray(0, IV_LENGTH));
+    decipher.setAAD(Buffer.from(aad, 'utf8'));
+    decipher.setAuthTag(buffer.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH));
+    return Buffer.concat([decipher.update(buffer.subarray(IV_LENGTH + AUTH_TAG_LENGTH)), decipher.final()]);
+  }
+
+  /**
+   * Register a root key
+   * @param key Root key
+   * @returns Key ID
+   */
+  protected addKey(key: Buffer): string {
+    const id = localKeyId(this.source, key);
+    this.keys.set(id, key);
+    return id;
+  }
+}
+
+// Contents of a sealed key file
+interface SealedKeyFile {
+  version: 1;
+  kdf: { algorithm: 'scrypt'; salt: string; N: number; r: number; p: number };
+  iv: string;
+  authTag: string;
+  ciphertext: string; // Sealed JSON of { current, keys }
+}
+
+// scrypt cost of the sealing key
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+/**
+ * Root keys kept in a file sealed with a passphrase (scrypt + AES-256-GCM).
+ * The file is created on first use; rotation adds a version to it.
+ */
+export class SealedFileKeyring extends LocalKeyring {
+  private constructor(private readonly filePath: string, private readonly passphrase: string, keys: Buffer[]) {
+    super('file', keys[0], keys.slice(1));
+  }
+
+  /**
+   * Open a sealed key file, creating it with a fresh root key if it does not exist
+   * @param filePath Path of the key file
+   * @param passphrase Passphrase the file is sealed with
+   */
+  public static async open(filePath: string, passphrase: string): Promise<SealedFileKeyring> {
+    if (!passphrase) {
+      throw new Error('A passphrase is required to open the sealed root key file');
+    }
+
+    let contents: string | undefined;
+    try {
+      contents = await fs.promises.readFile(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    if (contents === undefined) {
+      const keyring = new SealedFileKeyring(filePath, passphrase, [crypto.randomBytes(KEY_LENGTH)]);
+      await keyring.save();
+      logger.info(`Created sealed root key file ${filePath}`);
+      return keyring;
+    }
+
+    const sealed: SealedKeyFile = JSON.parse(contents);
+    if (sealed.version !== 1 || sealed.kdf?.algorithm !== 'scrypt') {
+      throw new Error('Unsupported sealed root key file');
+    }
+
+    const { salt, N, r, p } = sealed.kdf;
+    const sealingKey = crypto.scryptSync(passphrase, Buffer.from(salt, 'hex'), KEY_LENGTH, { N, r, p, maxmem: 256 * N * r });
+    const decipher = crypto.createDecipheriv('aes-256-gcm', sealingKey, Buffer.from(sealed.iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(sealed.authTag, 'hex'));
+
+    let plaintext: { current: string; keys: string[] };
+    try {
+      plaintext = JSON.parse(
+        Buffer.concat([decipher.update(Buffer.from(sealed.ciphertext, 'base64')), decipher.final()]).toString('utf8')
+      );
+    } catch {
+      throw new Error('Cannot unseal the root key file: wrong passphrase or corrupted file');
+    }
+
+    // The current key is stored first
+    const keys = plaintext.keys.map(key => parseKey(key, 'Sealed root key'));
+    return new SealedFileKeyring(filePath, passphrase, keys);
+  }
+
+  public async rotate(): Promise<string> {
+    const previous = this.current;
+    this.current = this.addKey(crypto.randomBytes(KEY_LENGTH));
+
+    try {
+      await this.save();
+    } catch (error) {
+      this.keys.delete(this.current);
+      this.current = previous;
+      throw error;
+    }
+
+    return this.current;
+  }
+
+  /**
+   * Seal the keys and atomically replace the key file
+   */
+  private async save(): Promise<void> {
+    const ordered = [this.current, ...this.keyIds().filter(id => id !== this.current)];
+    const plaintext = JSON.stringify({
+      current: this.current,
+      keys: ordered.map(id => this.keys.get(id)!.toString('hex')),
+    });
+
+    const salt = crypto.randomBytes(16);
+    const sealingKey = crypto.scryptSync(this.passphrase, salt, KEY_LENGTH, {
+      ...SCRYPT_PARAMS,
+      maxmem: 256 * SCRYPT_PARAMS.N * SCRYPT_PARAMS.r,
+    });
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', sealingKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    const sealed: SealedKeyFile = {
+      version: 1,
+      kdf: { algorithm: 'scrypt', salt: salt.toString('hex'), ...SCRYPT_PARAMS },
+      iv: iv.toString('hex'),
+      authTag: cipher.getAuthTag().toString('hex'),
+      ciphertext: ciphertext.toString('base64'),
+    };
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const temporary = `${this.filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temporary, JSON.stringify(sealed, null, 2), { mode: 0o600 });
+    await fs.promises.rename(temporary, this.filePath);
+  }
+}
+
+/**
+ * Root keys held as AES secret keys in an HSM. New root key versions are
+ * provisioned in the HSM and listed first in the configuration.
+ */
+export class HSMKeyring implements RootKeyring {
+  public readonly source = 'hsm' as const;
+
+  constructor(private readonly provider: HSMProvider, private readonly hsmKeyIds: string[]) {
+    if (hsmKeyIds.length === 0) {
+      throw new Error('At least one HSM root key ID is required');
+    }
+    if (!provider.wrapKey || !provider.unwrapKey) {
+      throw new Error('The HSM provider does not support key wrapping');
+    }
+  }
+
+  public currentKeyId(): string {
+    return `hsm:${this.hsmKeyIds[0]}`;
+  }
+
+  public keyIds(): string[] {
+    return this.hsmKeyIds.map(id => `hsm:${id}`);
+  }
+
+  public async wrap(key: Buffer, aad: string): Promise<WrappedKey> {
+    // The HSM wraps without associated data, so it is bound by wrapping it together with the key
+    const wrapped = await this.provider.wrapKey!(this.hsmKeyIds[0], this.bind(key, aad));
+    return { rootKeyId: this.currentKeyId(), wrappedKey: wrapped.toString('base64') };
+  }
+
+  public async unwrap(wrapped: WrappedKey, aad: string): Promise<Buffer> {
+    const hsmKeyId = wrapped.rootKeyId.replace(/^hsm:/, '');
+    if (!this.hsmKeyIds.includes(hsmKeyId)) {
+      throw new Error(`Root key ${wrapped.rootKeyId} is not available`);
+    }
+
+    const bound = await this.provider.unwrapKey!(hsmKeyId, Buffer.from(wrapped.wrappedKey, 'base64'));
+    const key = bound.subarray(0, KEY_LENGTH);
+    if (!crypto.timingSafeEqual(bound.subarray(KEY_LENGTH), this.digest(aad))) {
+      throw new Error('Wrapped key does not belong to this context');
+    }
+    return key;
+  }
+
+  private bind(key: Buffer, aad: string): Buffer {
+    return Buffer.concat([key, this.digest(aad)]);
+  }
+
+  private digest(aad: string): Buffer {
+    return crypto.createHash('sha256').update(aad, 'utf8').digest();
+  }
+}
+
+/**
+ * Create the root keyring from the environment
+ * @returns Keyring selected by ENCRYPTION_ROOT_KEY_SOURCE
+ */
+export const createRootKeyring = async (): Promise<RootKeyring> => {
+  const source =
+    (process.env.ENCRYPTION_ROOT_KEY_SOURCE as RootKeySource | undefined) ||
+    (process.env.ENCRYPTION_ROOT_KEY_FILE ? 'file' : process.env.ENCRYPTION_MASTER_KEY ? 'env' : 'ephemeral');
+
+  switch (source) {
+    case 'env': {
+      if (!process.env.ENCRYPTION_MASTER_KEY) {
+        throw new Error('ENCRYPTION_MASTER_KEY is required for the env root key source');
+      }
+      const previous = (process.env.ENCRYPTION_PREVIOUS_MASTER_KEYS || '')
+        .split(',')
+        .filter(key => key.trim())
+        .map(key => parseKey(key, 'ENCRYPTION_PREVIOUS_MASTER_KEYS'));
+      return new LocalKeyring('env', parseKey(process.env.ENCRYPTION_MASTER_KEY, 'ENCRYPTION_MASTER_KEY'), previous);
+    }
+
+    case 'file':
+      return SealedFileKeyring.open(
+        process.env.ENCRYPTION_ROOT_KEY_FILE || './data/root-key.sealed',
+        process.env.ENCRYPTION_ROOT_KEY_PASSPHRASE || ''
+      );
+
+    case 'hsm': {
+      // Loaded on demand so the PKCS#11 binding is only needed when the HSM holds the root key
+      const { createHSMProvider, HSMProviderType } = await import('../hsm');
+      const provider = createHSMProvider({
+        provider: HSMProviderType.CUSTOM,
+        credentials: {
+          pin: process.env.HSM_PIN || '',
+          libraryPath: process.env.HSM_LIBRARY_PATH || '',
+          slotId: process.env.HSM_SLOT_ID ? parseInt(process.env.HSM_SLOT_ID, 10) : undefined,
+        },
+      });
+      const keyIds = (process.env.ENCRYPTION_HSM_KEY_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+      return new HSMKeyring(provider, keyIds);
+    }
+
+    case 'ephemeral':
+      logger.warn('No encryption root key is configured; using an ephemeral key, encrypted data will not survive a restart');
+      return new LocalKeyring('ephemeral', crypto.randomBytes(KEY_LENGTH));
+
+    default:
+      throw new Error(`Unknown encryption root key source: ${source}`);
+  }
+};
@@ -0,0 +1,413 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../utils/logger';
+import { getDatabase, RyzerWalletDB } from '../../config/database';
+import { createAuditLog } from '../audit';
+
+// Lock serializing refresh token rotation across processes
+const REFRESH_LOCK = 'refresh_tokens';
+
+// Minimum time between two lastSeenAt updates of a session
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+export type Session = RyzerWalletDB['auth_sessions']['value'];
+
+// Session options
+export interface SessionOptions {
+  refreshTokenTtlMs: number;
+  maxAgeMs: number; // Absolute session lifetime
+}
+
+// Request details recorded with a session
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Session and the refresh token issued for it
+export interface SessionGrant {
+  session: Session;
+  refreshToken: string;
+  refreshTokenExpiresAt: number;
+}
+
+/**
+ * Error raised when a refresh token or session cannot be used
+ */
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+/**
+ * Hash a refresh token for storage
+ * @param token Refresh token
+ * @returns Hex-encoded SHA-256 hash
+ */
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Describe the device behind a user agent, e.g. "Chrome on macOS"
+ * @param userAgent User agent header
+ * @returns Short description or undefined if unknown
+ */
+export const describeDevice = (userAgent?: string): string | undefined => {
+  if (!userAgent) {
+    return undefined;
+  }
+
+  const browser =
+    [
+      ['Edge', /Edg\//],
+      ['Opera', /OPR\//],
+      ['Chrome', /Chrome\//],
+      ['Firefox', /Firefox\//],
+      ['Safari', /Safari\//],
+    ].find(([, pattern]) => (pattern as RegExp).test(userAgent))?.[0] as string | undefined;
+
+  const os =
+    [
+      ['iOS', /iPhone|iPad/],
+      ['Android', /Android/],
+      ['Windows', /Windows/],
+      ['macOS', /Mac OS X/],
+      ['Linux', /Linux/],
+    ].find(([, pattern]) => (pattern as RegExp).test(userAgent))?.[0] as string | undefined;
+
+  if (!browser && !os) {
+    return userAgent.slice(0, 64);
+  }
+  return [browser, os].filter(Boolean).join(' on ');
+};
+
+/**
+ * Session registry.
+ *
+ * Each login creates a session. The session hands out opaque refresh tokens
+ * that rotate on every use; the tokens of a session form one family, and
+ * presenting a token that was already rotated revokes the whole session.
+ */
+export class SessionService {
+  constructor(private readonly options: SessionOptions) {}
+
+  /**
+   * Issue a refresh token for a session
+   * @param session Session
+   * @returns Refresh token, its hash and expiry
+   */
+  private async issueRefreshToken(
+    session: Session
+  ): Promise<{ refreshToken: string; tokenHash: string; expiresAt: number }> {
+    const db = await getDatabase();
+    const now = Date.now();
+    const refreshToken = crypto.randomBytes(32).toString('base64url');
+    const tokenHash = hashToken(refreshToken);
+    const expiresAt = Math.min(now + this.options.refreshTokenTtlMs, session.expiresAt);
+
+    await db.add('refresh_tokens', {
+      tokenHash,
+      sessionId: session.id,
+      userId: session.userId,
+      issuedAt: now,
+      expiresAt,
+    });
+
+    return { refreshToken, tokenHash, expiresAt };
+  }
+
+  /**
+   * Create a session for a user who has just logged in
+   * @param userId User wallet address
+   * @param isAdmin Whether the user is an administrator
+   * @param context Request details
+   * @returns Session and its first refresh token
+   */
+  public async createSession(userId: string, isAdmin: boolean, context: SessionContext = {}): Promise<SessionGrant> {
+    const db = await getDatabase();
+    const now = Date.now();
+
+    const session: Session = {
+      id: uuidv4(),
+      userId: userId.toLowerCase(),
+      isAdmin,
+      status: 'active',
+      createdAt: now,
+      lastSeenAt: now,
+      expiresAt: now + this.options.maxAgeMs,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      device: describeDevice(context.userAgent),
+    };
+    await db.add('auth_sessions', session);
+
+    const { refreshToken, expiresAt } = await this.issueRefreshToken(session);
+
+    createAuditLog({
+      action: 'user_login',
+      userId: session.userId,
+      performedBy: session.userId,
+      category: 'auth',
+      status: 'success',
+      targetId: session.userId,
+      targetType: 'user',
+      sessionId: session.id,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      details: { device: session.device },
+    }).catch(error => {
+      logger.error('Error creating login audit log:', error);
+    });
+
+    this.pruneExpired().catch(error => {
+      logger.warn('Failed to prune expired sessions:', error);
+    });
+
+    return { session, refreshToken, refreshTokenExpiresAt: expiresAt };
+  }
+
+  /**
+   * Exchange a refresh token for a new one. The presented token is marked as
+   * used; presenting it again revokes the session it belongs to.
+   * @param refreshToken Refresh token
+   * @param context Request details
+   * @returns Session and its new refresh token
+   * @throws SessionError if the token or its session cannot be used
+   */
+  public async rotateRefreshToken(refreshToken: string, context: SessionContext = {}): Promise<SessionGrant> {
+    const db = await getDatabase();
+    const tokenHash = hashToken(refreshToken);
+
+    return db.withExclusiveLock(REFRESH_LOCK, async () => {
+      const now = Date.now();
+      const record = await db.get('refresh_tokens', tokenHash);
+      if (!record) {
+        throw new SessionError('Invalid refresh token');
+      }
+
+      const session = await db.get('auth_sessions', record.sessionId);
+      if (!session || session.status !== 'active') {
+        throw new SessionError('Session has been revoked');
+      }
+
+      if (record.usedAt) {
+        logger.warn(`Refresh token reuse detected for session ${session.id} of ${session.userId}`);
+        await this.revokeLocked(session.id, 'system', 'refresh_token_reuse');
+
+        createAuditLog({
+          action: 'refresh_token_reuse',
+          userId: session.userId,
+          performedBy: session.userId,
+          category: 'security',
+          status: 'failure',
+          targetId: session.id,
+          targetType: 'session',
+          sessionId: session.id,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+          details: { usedAt: record.usedAt },
+        }).catch(error => {
+          logger.error('Error creating refresh token reuse audit log:', error);
+        });
+
+        throw new SessionError('Refresh token has already been used; session revoked');
+      }
+
+      if (record.expiresAt <= now || session.expiresAt <= now) {
+        throw new SessionError('Refresh token has expired');
+      }
+
+      // Re-read right before writing so the session is never written back over a revocation
+      const current = await db.get('auth_sessions', session.id);
+      if (!current || current.status !== 'active') {
+        throw new SessionError('Session has been revoked');
+      }
+
+      const next = await this.issueRefreshToken(current);
+      await db.put('refresh_tokens', { ...record, usedAt: now, replacedBy: next.tokenHash });
+
+      const updated: Session = {
+        ...current,
+        lastSeenAt: now,
+        ipAddress: context.ipAddress || current.ipAddress,
+        userAgent: context.userAgent || current.userAgent,
+        device: describeDevice(context.userAgent) || current.device,
+      };
+      await db.put('auth_sessions', updated);
+
+      return { session: updated, refreshToken: next.refreshToken, refreshTokenExpiresAt: next.expiresAt };
+    });
+  }
+
+  /**
+   * Check that a session is active and record activity on it
+   * @param sessionId Session ID
+   * @returns Session, or undefined if it is unknown, revoked or expired
+   */
+  public async touchSession(sessionId: string): Promise<Session | undefined> {
+    const db = await getDatabase();
+    const session = await db.get('auth_sessions', sessionId);
+    const now = Date.now();
+
+    if (!session || session.status !== 'active' || session.expiresAt <= now) {
+      return undefined;
+    }
+
+    if (now - session.lastSeenAt >= LAST_SEEN_RESOLUTION_MS) {
+      try {
+        // Only the last seen time changes, and only while the stored session is still active
+        const touched = await db.withExclusiveLock(REFRESH_LOCK, async () => {
+          const current = await db.get('auth_sessions', sessionId);
+          if (!current || current.status !== 'active') {
+            return undefined;
+          }
+          const updated = { ...current, lastSeenAt: now };
+          await db.put('auth_sessions', updated);
+          return updated;
+        });
+        return touched;
+      } catch (error) {
+        logger.warn(`Failed to update last seen time of session ${sessionId}:`, error);
+      }
+    }
+
+    return session;
+  }
+
+  /**
+   * Get a session
+   * @param sessionId Session ID
+   * @returns Session or undefined if not found
+   */
+  public async getSession(sessionId: string): Promise<Session | undefined> {
+    const db = await getDatabase();
+    return db.get('auth_sessions', sessionId);
+  }
+
+  /**
+   * List the active sessions of a user, most recently used first
+   * @param userId User wallet address
+   * @returns Active sessions
+   */
+  public async listSessions(userId: string): Promise<Session[]> {
+    const db = await getDatabase();
+    const now = Date.now();
+    const sessions = await db.getAllFromIndex('auth_sessions', 'by-user', userId.toLowerCase());
+
+    return sessions
+      .filter(session => session.status === 'active' && session.expiresAt > now)
+      .sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+  }
+
+  /**
+   * Revoke a session and its refresh tokens
+   * @param sessionId Session ID
+   * @param revokedBy Address of the user revoking the session, or 'system'
+   * @param reason Reason for the revocation
+   * @returns True if an active session was revoked
+   */
+  public async revokeSession(sessionId: string, revokedBy: string, reason: string): Promise<boolean> {
+    const db = await getDatabase();
+    return db.withExclusiveLock(REFRESH_LOCK, () => this.revokeLocked(sessionId, revokedBy, reason));
+  }
+
+  /**
+   * Revoke every active session of a user
+   * @param userId User wallet address
+   * @param revokedBy Address of the user revoking the sessions
+   * @param reason Reason for the revocation
+   * @param exceptSessionId Session to keep, e.g. the caller's own
+   * @returns Number of sessions revoked
+   */
+  public async revokeAllSessions(
+    userId: string,
+    revokedBy: string,
+    reason: string,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const db = await getDatabase();
+
+    return db.withExclusiveLock(REFRESH_LOCK, async () => {
+      let revoked = 0;
+      for (const session of await this.listSessions(userId)) {
+        if (session.id !== exceptSessionId && (await this.revokeLocked(session.id, revokedBy, reason))) {
+          revoked++;
+        }
+      }
+      return revoked;
+    });
+  }
+
+  /**
+   * Revoke a session and its refresh tokens. Callers hold the refresh lock,
+   * so a rotation in progress cannot write the session back as active.
+   * @param sessionId Session ID
+   * @param revokedBy Address of the user revoking the session, or 'system'
+   * @param reason Reason for the revocation
+   * @returns True if an active session was revoked
+   */
+  private async revokeLocked(sessionId: string, revokedBy: string, reason: string): Promise<boolean> {
+    const db = await getDatabase();
+    const session = await db.get('auth_sessions', sessionId);
+
+    if (!session || session.status !== 'active') {
+      return false;
+    }
+
+    await db.put('auth_sessions', {
+      ...session,
+      status: 'revoked',
+      revokedAt: Date.now(),
+      revokedBy,
+      revokeReason: reason,
+    });
+
+    const tokens = await db.getAllFromIndex('refresh_tokens', 'by-session', sessionId);
+    for (const token of tokens) {
+      await db.delete('refresh_tokens', token.tokenHash);
+    }
+
+    createAuditLog({
+      action: 'session_revoked',
+      userId: session.userId,
+      performedBy: revokedBy,
+      category: 'auth',
+      status: 'success',
+      targetId: sessionId,
+      targetType: 'session',
+      sessionId,
+      details: { reason },
+    }).catch(error => {
+      logger.error('Error creating session revocation audit log:', error);
+    });
+
+    return true;
+  }
+
+  /**
+   * Delete expired refresh tokens and sessions
+   */
+  private async pruneExpired(): Promise<void> {
+    const db = await getDatabase();
+    const now = Date.now();
+
+    const tokens = await db.getAllFromIndex('refresh_tokens', 'by-expiresAt', { upper: now });
+    for (const token of tokens) {
+      await db.delete('refresh_tokens', token.tokenHash);
+    }
+
+    const sessions = await db.getAllFromIndex('auth_sessions', 'by-expiresAt', { upper: now });
+    for (const session of sessions) {
+      await db.delete('auth_sessions', session.id);
+    }
+  }
+}
+
+// Create and export a singleton instance
+const sessionService = new SessionService({
+  refreshTokenTtlMs: parseInt(process.env.REFRESH_TOKEN_TTL_MS || '604800000', 10), // 7 days
+  maxAgeMs: parseInt(process.env.SESSION_MAX_AGE_MS || '2592000000', 10), // 30 days
+});
+
+export default sessionService;
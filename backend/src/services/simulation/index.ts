@@ -1,10 +1,12 @@
 import { ethers } from 'ethers';
 import { formatEther, parseEther } from 'ethers/lib/utils';
-import { createPublicClient, http } from 'viem';
+import { createPublicClient, fallback, http } from 'viem';
 import { getDatabase } from '../../config/database';
 import { logger } from '../../utils/logger';
-import { SUPPORTED_NETWORKS } from '../../config/networks';
+import chainRegistry from '../chain-registry';
 import sdkService from '../sdk-integration';
+import { addressReputation, ReputationVerdict } from '../security/reputation';
+import { DEFAULT_TENANT } from '../security/militaryGradeEncryption';
 import axios from 'axios';
 
 // Simulation request
@@ -67,6 +69,7 @@ interface RiskAssessment {
   riskLevel: 'low' | 'medium' | 'high';
   warnings: string[];
   recommendations: string[];
+  reputation?: ReputationVerdict; // Reputation of the destinations, if it could be checked
 }
 
 // Simulation cache to avoid redundant simulations
@@ -230,13 +233,11 @@ const performSimulation = async (
     const id = `sim-${chainId}-${from}-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
     
     // Get provider for this chain
-    const networkConfig = SUPPORTED_NETWORKS[chainId.toString()];
-    if (!networkConfig) {
+    if (!chainRegistry.isSupported(chainId)) {
       throw new Error(`Network with chain ID ${chainId} is not supported`);
     }
     
-    // Create provider
-    const provider = new ethers.providers.JsonRpcProvider(networkConfig.rpcUrl);
+    const provider = chainRegistry.getProvider(chainId);
     
     // First, try using local RPC simulation
     try {
@@ -284,6 +285,44 @@ const performSimulation = async (
 // Providers for different chains
 const simulationProviders: Record<number, any> = {};
 
+/**
+ * Create simulation clients for every chain in the registry
+ */
+const createSimulationProviders = (): void => {
+  for (const chainId of Object.keys(simulationProviders).map(Number)) {
+    if (!chainRegistry.isSupported(chainId)) {
+      delete simulationProviders[chainId];
+    }
+  }
+
+  for (const network of chainRegistry.getChains()) {
+    const chainId = network.chainId;
+    
+    // Create public client for this network
+    simulationProviders[chainId] = createPublicClient({
+      chain: {
+        id: chainId,
+        name: network.name,
+        network: network.name.toLowerCase(),
+        nativeCurrency: {
+          name: network.nativeCurrency.name,
+          symbol: network.nativeCurrency.symbol,
+          decimals: network.nativeCurrency.decimals,
+        },
+        rpcUrls: {
+          default: {
+            http: network.rpcUrls,
+          },
+          public: {
+            http: network.rpcUrls,
+          },
+        },
+      },
+      transport: fallback(network.rpcUrls.map(url => http(url))),
+    });
+  }
+};
+
 /**
  * Initialize the simulation service
  */
@@ -292,32 +331,8 @@ export const initializeSimulationService = async (): Promise<void> => {
     logger.info('Initializing transaction simulation service...');
     
     // Initialize providers for each supported network
-    for (const [chainIdStr, network] of Object.entries(SUPPORTED_NETWORKS)) {
-      const chainId = parseInt(chainIdStr);
-      
-      // Create public client for this network
-      simulationProviders[chainId] = createPublicClient({
-        chain: {
-          id: chainId,
-          name: network.name,
-          network: network.name.toLowerCase(),
-          nativeCurrency: {
-            name: network.nativeCurrency.name,
-            symbol: network.nativeCurrency.symbol,
-            decimals: network.nativeCurrency.decimals,
-          },
-          rpcUrls: {
-            default: {
-              http: [network.rpcUrl],
-            },
-            public: {
-              http: [network.rpcUrl],
-            },
-          },
-        },
-        transport: http(),
-      });
-    }
+    createSimulationProviders();
+    chainRegistry.on('updated', createSimulationProviders);
     
     logger.info('Transaction simulation service initialized');
   } catch (error) {
@@ -634,12 +649,13 @@ export const getSimulationResult = async (simulationId: string): Promise<Simulat
 };
 
 /**
- * Assess transaction risk
+ * Assess transaction risk from its simulation and the reputation of its destinations
  * @param chainId Chain ID
  * @param from From address
  * @param to To address
  * @param data Transaction data
  * @param value Transaction value
+ * @param tenantId Tenant whose address lists apply
  * @returns Risk assessment
  */
 export const assessTransactionRisk = async (
@@ -647,7 +663,56 @@ export const assessTransactionRisk = async (
   from: string,
   to: string,
   data: string,
-  value: string = '0'
+  value: string = '0',
+  tenantId: string = DEFAULT_TENANT
+): Promise<RiskAssessment> => {
+  const [assessment, reputation] = await Promise.all([
+    assessSimulationRisk(chainId, from, to, data, value),
+    addressReputation.evaluate({ chainId, from, to, data, tenantId }).catch(error => {
+      logger.error('Error checking destination reputation:', error);
+      return undefined;
+    }),
+  ]);
+
+  if (!reputation) {
+    return {
+      ...assessment,
+      riskLevel: assessment.riskLevel === 'low' ? 'medium' : assessment.riskLevel,
+      warnings: [...assessment.warnings, 'Unable to check the reputation of the destination'],
+    };
+  }
+
+  const result: RiskAssessment = {
+    ...assessment,
+    warnings: [...assessment.warnings, ...reputation.warnings],
+    recommendations: [...assessment.recommendations],
+    reputation,
+  };
+  if (reputation.action === 'block') {
+    result.riskLevel = 'high';
+    result.recommendations.push('Do not send this transaction; the policy blocks its destination');
+  } else if (reputation.action === 'warn') {
+    result.riskLevel = result.riskLevel === 'low' ? 'medium' : result.riskLevel;
+    result.recommendations.push('Verify the destination address before sending');
+  }
+  return result;
+};
+
+/**
+ * Assess transaction risk from its simulation
+ * @param chainId Chain ID
+ * @param from From address
+ * @param to To address
+ * @param data Transaction data
+ * @param value Transaction value
+ * @returns Risk assessment
+ */
+const assessSimulationRisk = async (
+  chainId: number,
+  from: string,
+  to: string,
+  data: string,
+  value: string
 ): Promise<RiskAssessment> => {
   try {
     // Simulate transaction first
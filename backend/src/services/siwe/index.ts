@@ -0,0 +1,271 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { logger } from '../../utils/logger';
+import { getDatabase } from '../../config/database';
+import chainRegistry, { ChainRegistry } from '../chain-registry';
+import { buildSiweMessage, parseSiweMessage, SiweError, SiweMessage } from './message';
+
+export * from './message';
+
+// ERC-1271 magic value returned by isValidSignature(bytes32,bytes)
+const ERC1271_MAGIC_VALUE = '0x1626ba7e';
+
+const ERC1271_ABI = ['function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)'];
+
+// Lock serializing nonce consumption across processes
+const NONCE_LOCK = 'siwe_nonces';
+
+// Sign-in with Ethereum options
+export interface SiweOptions {
+  domains: string[]; // Accepted domains; the first one is used when the request origin is unknown
+  uri?: string; // URI placed in messages; defaults to https://<domain>
+  statement?: string;
+  nonceTtlMs: number;
+  clockSkewMs: number; // Tolerance applied to Issued At, Expiration Time and Not Before
+}
+
+// Nonce issued to a client and the message it has to sign
+export interface SiweChallenge {
+  nonce: string;
+  message: string;
+  expiresAt: number;
+}
+
+/**
+ * Read a positive integer from the environment
+ * @param name Variable name
+ * @param fallback Value used when the variable is unset or invalid
+ */
+const envInt = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Sign-In with Ethereum (EIP-4361).
+ *
+ * Issues single-use nonces, builds the message a wallet signs and verifies
+ * signed messages. Smart-contract wallets are verified through ERC-1271.
+ */
+export class SiweService {
+  constructor(
+    private readonly options: SiweOptions,
+    private readonly chains: ChainRegistry = chainRegistry
+  ) {}
+
+  /**
+   * Resolve the domain and URI to place in a message
+   * @param origin Origin of the requesting page, if known
+   * @returns Domain, scheme and URI
+   */
+  private resolveOrigin(origin?: string): { domain: string; scheme?: string; uri: string } {
+    if (origin) {
+      try {
+        const url = new URL(origin);
+        if (this.options.domains.includes(url.host)) {
+          return { domain: url.host, scheme: url.protocol.slice(0, -1), uri: url.origin };
+        }
+      } catch {
+        // Fall through to the configured domain
+      }
+    }
+
+    const domain = this.options.domains[0];
+    return { domain, uri: this.options.uri || `https://${domain}` };
+  }
+
+  /**
+   * Issue a nonce and build the message an address has to sign
+   * @param address Address signing in
+   * @param chainId Chain the address lives on
+   * @param origin Origin of the requesting page, if known
+   * @returns Nonce, message and nonce expiry
+   * @throws SiweError if the address or chain is not valid
+   */
+  public async createChallenge(address: string, chainId: number, origin?: string): Promise<SiweChallenge> {
+    if (!ethers.utils.isAddress(address)) {
+      throw new SiweError('Invalid wallet address');
+    }
+    if (!this.chains.isSupported(chainId)) {
+      throw new SiweError(`Unsupported chain: ${chainId}`);
+    }
+
+    const db = await getDatabase();
+    const now = Date.now();
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const expiresAt = now + this.options.nonceTtlMs;
+    const checksumAddress = ethers.utils.getAddress(address);
+
+    await db.add('auth_nonces', {
+      nonce,
+      address: checksumAddress.toLowerCase(),
+      chainId,
+      issuedAt: now,
+      expiresAt,
+    });
+
+    this.pruneExpiredNonces().catch(error => {
+      logger.warn('Failed to prune expired sign-in nonces:', error);
+    });
+
+    const { domain, scheme, uri } = this.resolveOrigin(origin);
+    const message = buildSiweMessage({
+      scheme,
+      domain,
+      address: checksumAddress,
+      statement: this.options.statement,
+      uri,
+      version: '1',
+      chainId,
+      nonce,
+      issuedAt: new Date(now).toISOString(),
+      expirationTime: new Date(expiresAt).toISOString(),
+    });
+
+    return { nonce, message, expiresAt };
+  }
+
+  /**
+   * Verify a signed message and consume its nonce
+   * @param text Signed message text
+   * @param signature Signature over the message
+   * @returns Parsed message
+   * @throws SiweError if the message, nonce or signature is not valid
+   */
+  public async verify(text: string, signature: string): Promise<SiweMessage> {
+    const message = parseSiweMessage(text);
+    this.validateMessage(message);
+
+    // Consume the nonce before checking the signature so a message can only be tried once
+    await this.consumeNonce(message);
+
+    const valid = await this.verifySignature(message, text, signature);
+    if (!valid) {
+      throw new SiweError('Invalid signature');
+    }
+
+    return message;
+  }
+
+  /**
+   * Check the domain, URI, chain and validity window of a message
+   * @param message Parsed message
+   * @throws SiweError if the message is not acceptable
+   */
+  private validateMessage(message: SiweMessage): void {
+    if (!this.options.domains.includes(message.domain)) {
+      throw new SiweError(`Domain ${message.domain} is not accepted`);
+    }
+
+    let uriHost: string;
+    try {
+      uriHost = new URL(message.uri).host;
+    } catch {
+      throw new SiweError('Invalid URI');
+    }
+    if (uriHost !== message.domain) {
+      throw new SiweError('URI does not match the domain');
+    }
+
+    if (!this.chains.isSupported(message.chainId)) {
+      throw new SiweError(`Unsupported chain: ${message.chainId}`);
+    }
+
+    const now = Date.now();
+    const skew = this.options.clockSkewMs;
+
+    if (Date.parse(message.issuedAt) > now + skew) {
+      throw new SiweError('Message is issued in the future');
+    }
+    if (message.expirationTime && Date.parse(message.expirationTime) <= now - skew) {
+      throw new SiweError('Message has expired');
+    }
+    if (message.notBefore && Date.parse(message.notBefore) > now + skew) {
+      throw new SiweError('Message is not yet valid');
+    }
+  }
+
+  /**
+   * Delete the nonce of a message, failing if it was not issued to the
+   * message's address and chain, has expired or was already used
+   * @param message Parsed message
+   * @throws SiweError if the nonce cannot be used
+   */
+  private async consumeNonce(message: SiweMessage): Promise<void> {
+    const db = await getDatabase();
+
+    await db.withExclusiveLock(NONCE_LOCK, async () => {
+      const record = await db.get('auth_nonces', message.nonce);
+      if (!record) {
+        throw new SiweError('Unknown or already used nonce');
+      }
+
+      await db.delete('auth_nonces', message.nonce);
+
+      if (record.expiresAt <= Date.now()) {
+        throw new SiweError('Nonce has expired');
+      }
+      if (record.address !== message.address.toLowerCase() || record.chainId !== message.chainId) {
+        throw new SiweError('Nonce was issued for a different address or chain');
+      }
+    });
+  }
+
+  /**
+   * Verify the signature of a message. Externally owned accounts are checked
+   * by recovering the signer; contract accounts through ERC-1271.
+   * @param message Parsed message
+   * @param text Signed message text
+   * @param signature Signature over the message
+   * @returns True if the signature is valid
+   */
+  private async verifySignature(message: SiweMessage, text: string, signature: string): Promise<boolean> {
+    try {
+      if (ethers.utils.verifyMessage(text, signature) === message.address) {
+        return true;
+      }
+    } catch {
+      // Not an ECDSA signature; contract wallets may still accept it
+    }
+
+    try {
+      const provider = this.chains.getProvider(message.chainId);
+      const code = await provider.getCode(message.address);
+      if (code === '0x') {
+        return false;
+      }
+
+      const wallet = new ethers.Contract(message.address, ERC1271_ABI, provider);
+      const result: string = await wallet.isValidSignature(ethers.utils.hashMessage(text), signature);
+      return result.toLowerCase() === ERC1271_MAGIC_VALUE;
+    } catch (error) {
+      logger.warn(`ERC-1271 verification failed for ${message.address} on chain ${message.chainId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete nonces that expired without being used
+   */
+  private async pruneExpiredNonces(): Promise<void> {
+    const db = await getDatabase();
+    const expired = await db.getAllFromIndex('auth_nonces', 'by-expiresAt', { upper: Date.now() });
+    for (const record of expired) {
+      await db.delete('auth_nonces', record.nonce);
+    }
+  }
+}
+
+// Create and export a singleton instance
+const siweService = new SiweService({
+  domains: (process.env.SIWE_DOMAINS || 'localhost:3001,localhost:3002')
+    .split(',')
+    .map(domain => domain.trim())
+    .filter(Boolean),
+  uri: process.env.SIWE_URI || undefined,
+  statement: process.env.SIWE_STATEMENT || 'Sign in to Ryzer Wallet',
+  nonceTtlMs: envInt('SIWE_NONCE_TTL_MS', 5 * 60 * 1000),
+  clockSkewMs: envInt('SIWE_CLOCK_SKEW_MS', 60 * 1000),
+});
+
+export default siweService;
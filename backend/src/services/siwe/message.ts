@@ -0,0 +1,275 @@
+import { ethers } from 'ethers';
+
+// Header suffix that follows the domain on the first line
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+// Matches `[scheme://]domain` at the start of the header line
+const HEADER_PATTERN = /^(?:([a-zA-Z][a-zA-Z0-9+.-]*):\/\/)?([^\s/?#]+)$/;
+
+// RFC 3339 date-time
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i;
+
+// Nonces are at least 8 alphanumeric characters
+const NONCE_PATTERN = /^[a-zA-Z0-9]{8,}$/;
+
+// EIP-4361 message fields
+export interface SiweMessage {
+  scheme?: string;
+  domain: string; // RFC 3986 authority requesting the sign-in
+  address: string; // EIP-55 checksummed address
+  statement?: string;
+  uri: string; // RFC 3986 URI referring to the resource that is the subject of the signing
+  version: '1';
+  chainId: number;
+  nonce: string;
+  issuedAt: string; // RFC 3339 date-time
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+/**
+ * Error raised when a message is malformed or fails verification
+ */
+export class SiweError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SiweError';
+  }
+}
+
+/**
+ * Check that a value is an RFC 3339 date-time
+ * @param value Value to check
+ */
+const isDateTime = (value: string): boolean => DATE_TIME_PATTERN.test(value) && !isNaN(Date.parse(value));
+
+/**
+ * Check that a value is an absolute RFC 3986 URI
+ * @param value Value to check
+ */
+const isUri = (value: string): boolean => {
+  if (/\s/.test(value) || !/^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(value)) {
+    return false;
+  }
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check that a value is an EIP-55 checksummed address
+ * @param value Value to check
+ */
+const isChecksumAddress = (value: string): boolean => {
+  if (!/^0x[a-fA-F0-9]{40}$/.test(value)) {
+    return false;
+  }
+  try {
+    return ethers.utils.getAddress(value) === value;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Validate message fields against the EIP-4361 grammar
+ * @param message Message fields
+ * @throws SiweError if a field is invalid
+ */
+export const validateSiweFields = (message: SiweMessage): void => {
+  if (message.scheme !== undefined && !/^[a-zA-Z][a-zA-Z0-9+.-]*$/.test(message.scheme)) {
+    throw new SiweError('Invalid scheme');
+  }
+  if (!message.domain || !HEADER_PATTERN.test(message.domain) || message.domain.includes('://')) {
+    throw new SiweError('Invalid domain');
+  }
+  if (!isChecksumAddress(message.address)) {
+    throw new SiweError('Address must be EIP-55 checksummed');
+  }
+  if (message.statement !== undefined && (message.statement === '' || /\n/.test(message.statement))) {
+    throw new SiweError('Statement must be a single non-empty line');
+  }
+  if (!isUri(message.uri)) {
+    throw new SiweError('Invalid URI');
+  }
+  if (message.version !== '1') {
+    throw new SiweError('Unsupported version');
+  }
+  if (!Number.isSafeInteger(message.chainId) || message.chainId <= 0) {
+    throw new SiweError('Invalid chain ID');
+  }
+  if (!NONCE_PATTERN.test(message.nonce)) {
+    throw new SiweError('Nonce must be at least 8 alphanumeric characters');
+  }
+  if (!isDateTime(message.issuedAt)) {
+    throw new SiweError('Invalid Issued At');
+  }
+  if (message.expirationTime !== undefined && !isDateTime(message.expirationTime)) {
+    throw new SiweError('Invalid Expiration Time');
+  }
+  if (message.notBefore !== undefined && !isDateTime(message.notBefore)) {
+    throw new SiweError('Invalid Not Before');
+  }
+  if (message.requestId !== undefined && /\n/.test(message.requestId)) {
+    throw new SiweError('Invalid Request ID');
+  }
+  for (const resource of message.resources || []) {
+    if (!isUri(resource)) {
+      throw new SiweError(`Invalid resource: ${resource}`);
+    }
+  }
+};
+
+/**
+ * Build the text of an EIP-4361 message
+ * @param message Message fields
+ * @returns Message to be signed with `personal_sign`
+ * @throws SiweError if a field is invalid
+ */
+export const buildSiweMessage = (message: SiweMessage): string => {
+  validateSiweFields(message);
+
+  const origin = message.scheme ? `${message.scheme}://${message.domain}` : message.domain;
+  const lines = [`${origin}${HEADER_SUFFIX}`, message.address, ''];
+
+  if (message.statement !== undefined) {
+    lines.push(message.statement);
+  }
+  lines.push(
+    '',
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`
+  );
+
+  if (message.expirationTime !== undefined) {
+    lines.push(`Expiration Time: ${message.expirationTime}`);
+  }
+  if (message.notBefore !== undefined) {
+    lines.push(`Not Before: ${message.notBefore}`);
+  }
+  if (message.requestId !== undefined) {
+    lines.push(`Request ID: ${message.requestId}`);
+  }
+  if (message.resources?.length) {
+    lines.push('Resources:', ...message.resources.map(resource => `- ${resource}`));
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Parse an EIP-4361 message. Parsing is strict: fields must appear in the
+ * order defined by the specification and unknown lines are rejected.
+ * @param text Signed message text
+ * @returns Message fields
+ * @throws SiweError if the message is malformed
+ */
+export const parseSiweMessage = (text: string): SiweMessage => {
+  if (typeof text !== 'string' || text.includes('\r')) {
+    throw new SiweError('Message must be a string with LF line endings');
+  }
+
+  const lines = text.split('\n');
+  let position = 0;
+
+  const next = (): string | undefined => lines[position++];
+
+  // Read a required or optional `Tag: value` line
+  const field = (tag: string, optional = false): string | undefined => {
+    const line = lines[position];
+    if (line !== undefined && line.startsWith(`${tag}: `)) {
+      position++;
+      return line.slice(tag.length + 2);
+    }
+    if (!optional) {
+      throw new SiweError(`Missing ${tag}`);
+    }
+    return undefined;
+  };
+
+  const header = next();
+  if (!header || !header.endsWith(HEADER_SUFFIX)) {
+    throw new SiweError('Invalid message header');
+  }
+  const origin = header.slice(0, -HEADER_SUFFIX.length).match(HEADER_PATTERN);
+  if (!origin) {
+    throw new SiweError('Invalid domain');
+  }
+
+  const address = next() ?? '';
+  if (next() !== '') {
+    throw new SiweError('Expected an empty line after the address');
+  }
+
+  let statement: string | undefined;
+  if (lines[position] !== '') {
+    statement = next();
+  }
+  if (next() !== '') {
+    throw new SiweError('Expected an empty line before the message fields');
+  }
+
+  const uri = field('URI')!;
+  const version = field('Version')!;
+  const chainId = field('Chain ID')!;
+  const nonce = field('Nonce')!;
+  const issuedAt = field('Issued At')!;
+  const expirationTime = field('Expiration Time', true);
+  const notBefore = field('Not Before', true);
+  const requestId = field('Request ID', true);
+
+  let resources: string[] | undefined;
+  if (lines[position] === 'Resources:') {
+    position++;
+    resources = [];
+    while (lines[position]?.startsWith('- ')) {
+      resources.push(lines[position++].slice(2));
+    }
+  }
+
+  // A single trailing newline is tolerated
+  if (position === lines.length - 1 && lines[position] === '') {
+    position++;
+  }
+  if (position !== lines.length) {
+    throw new SiweError(`Unexpected content on line ${position + 1}`);
+  }
+
+  if (!/^[1-9][0-9]*$/.test(chainId)) {
+    throw new SiweError('Invalid chain ID');
+  }
+
+  const message: SiweMessage = {
+    scheme: origin[1],
+    domain: origin[2],
+    address,
+    statement,
+    uri,
+    version: version as '1',
+    chainId: Number(chainId),
+    nonce,
+    issuedAt,
+    expirationTime,
+    notBefore,
+    requestId,
+    resources,
+  };
+
+  // Drop absent optional fields so the result round-trips through buildSiweMessage
+  for (const key of Object.keys(message) as (keyof SiweMessage)[]) {
+    if (message[key] === undefined) {
+      delete message[key];
+    }
+  }
+
+  validateSiweFields(message);
+  return message;
+};
@@ -0,0 +1,9 @@
+/**
+ * Error raised when attestation evidence is rejected
+ */
+export class AttestationError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'AttestationError';
+  }
+}
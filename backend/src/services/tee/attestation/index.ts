@@ -0,0 +1,375 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../../utils/logger';
+import { getDatabase, RyzerWalletDB } from '../../../config/database';
+import { AuditAction, AuditTargetType, createAuditLog } from '../../audit';
+import { AttestationError } from './errors';
+import { loadPinnedRoots } from './pki';
+import { NitroVerifier } from './nitro';
+import { SevSnpVerifier } from './sevsnp';
+import { SgxDcapVerifier } from './sgx';
+import { AttestationEvidence, AttestationVerifier, TEEType } from './types';
+
+export * from './errors';
+export * from './types';
+export { loadPinnedRoots, parsePemCertificates, verifyCertificateChain } from './pki';
+export { NitroVerifier, SevSnpVerifier, SgxDcapVerifier };
+
+export type EnclaveAttestation = RyzerWalletDB['tee_attestations']['value'];
+
+// Lock serializing nonce consumption across processes
+const NONCE_LOCK = 'attestation_nonces';
+
+// Largest evidence accepted, well above any quote, report or document
+const MAX_EVIDENCE_BYTES = 64 * 1024;
+
+// Attestation verification options
+export interface AttestationOptions {
+  allowlist: Partial<Record<TEEType, string[]>>; // Hex measurements of enclaves allowed to hold keys
+  nonceTtlMs: number;
+  attestationTtlMs: number; // How long a verification lets an enclave hold keys
+  clockSkewMs: number; // Tolerance applied to evidence timestamps
+  allowDebug: boolean; // Accept debug enclaves, whose memory the host can read; development only
+}
+
+// Nonce an enclave has to bind into its evidence
+export interface AttestationChallenge {
+  nonce: string; // Hex, 32 bytes
+  expiresAt: number;
+}
+
+/**
+ * Normalize a hex measurement
+ * @param measurement Measurement, with or without 0x prefix
+ */
+const normalizeMeasurement = (measurement: string): string => measurement.trim().toLowerCase().replace(/^0x/, '');
+
+/**
+ * Remote attestation of trusted execution environments.
+ *
+ * Evidence is verified by the verifier registered for its TEE type, must be
+ * bound to a single-use nonce issued here and must report an allowlisted,
+ * non-debug measurement. Verified attestations are recorded and expire;
+ * enclaves may only hold keys while theirs is valid.
+ */
+export class AttestationService {
+  private verifiers = new Map<TEEType, AttestationVerifier>();
+  private allowlist: Map<TEEType, Set<string>>;
+
+  constructor(private readonly options: AttestationOptions, verifiers: AttestationVerifier[] = []) {
+    this.allowlist = new Map(
+      Object.entries(options.allowlist).map(([teeType, measurements]) => [
+        teeType as TEEType,
+        new Set((measurements || []).map(normalizeMeasurement)),
+      ])
+    );
+    verifiers.forEach(verifier => this.registerVerifier(verifier));
+  }
+
+  /**
+   * Register the verifier of a TEE type, replacing any previous one
+   * @param verifier Verifier
+   */
+  public registerVerifier(verifier: AttestationVerifier): void {
+    this.verifiers.set(verifier.teeType, verifier);
+  }
+
+  /**
+   * TEE types evidence can be verified for
+   */
+  public get supportedTypes(): TEEType[] {
+    return [...this.verifiers.keys()];
+  }
+
+  /**
+   * Issue a nonce for an enclave to bind into its evidence: the first 32 bytes
+   * of the report data for SGX and SEV-SNP, the nonce field for Nitro
+   * @returns Challenge
+   */
+  public async createChallenge(): Promise<AttestationChallenge> {
+    const db = await getDatabase();
+    const issuedAt = Date.now();
+    const challenge = {
+      nonce: crypto.randomBytes(32).toString('hex'),
+      expiresAt: issuedAt + this.options.nonceTtlMs,
+    };
+
+    await db.add('attestation_nonces', { ...challenge, issuedAt });
+
+    this.pruneExpiredNonces().catch(error => {
+      logger.warn('Failed to prune expired attestation nonces:', error);
+    });
+
+    return challenge;
+  }
+
+  /**
+   * Verify attestation evidence and record the attestation
+   * @param submission Evidence
+   * @param performedBy Who submitted the evidence
+   * @returns Recorded attestation
+   * @throws AttestationError if the evidence is rejected
+   */
+  public async verify(submission: AttestationEvidence, performedBy = 'system'): Promise<EnclaveAttestation> {
+    try {
+      const verifier = this.verifiers.get(submission?.teeType);
+      if (!verifier) {
+        throw new AttestationError(`Attestation of ${submission?.teeType} enclaves is not configured`);
+      }
+      if (typeof submission.evidence !== 'string' || !/^[A-Za-z0-9+/_-]+=*$/.test(submission.evidence)) {
+        throw new AttestationError('Evidence must be base64 encoded');
+      }
+      const evidence = Buffer.from(submission.evidence, 'base64');
+      if (evidence.length > MAX_EVIDENCE_BYTES) {
+        throw new AttestationError('Evidence is too large');
+      }
+
+      const claims = await verifier.verify(evidence, submission.certificates);
+      const nonce = await this.consumeNonce(claims.nonce);
+
+      if (
+        claims.timestamp !== undefined &&
+        (claims.timestamp < nonce.issuedAt - this.options.clockSkewMs ||
+          claims.timestamp > Date.now() + this.options.clockSkewMs)
+      ) {
+        throw new AttestationError('Evidence was not produced in response to the challenge');
+      }
+      if (claims.debug && !this.options.allowDebug) {
+        throw new AttestationError('Debug enclaves are not trusted', 403);
+      }
+      if (!this.isAllowlisted(claims.teeType, claims.measurement)) {
+        throw new AttestationError(`Measurement ${claims.measurement} is not allowlisted`, 403);
+      }
+
+      const now = Date.now();
+      const attestation: EnclaveAttestation = {
+        id: uuidv4(),
+        teeType: claims.teeType,
+        measurement: claims.measurement,
+        instanceId: claims.instanceId,
+        evidenceHash: crypto.createHash('sha256').update(evidence).digest('hex'),
+        claims: { ...claims.details, debug: claims.debug },
+        verifiedAt: now,
+        expiresAt: now + this.options.attestationTtlMs,
+      };
+
+      const db = await getDatabase();
+      await db.add('tee_attestations', attestation);
+
+      logger.info('TEE attestation verified', {
+        attestationId: attestation.id,
+        teeType: attestation.teeType,
+        measurement: attestation.measurement,
+      });
+      this.audit(AuditAction.TEE_ATTESTATION_VERIFIED, attestation.id, performedBy, {
+        teeType: attestation.teeType,
+        measurement: attestation.measurement,
+        instanceId: attestation.instanceId,
+      });
+
+      return attestation;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      logger.warn('TEE attestation rejected', { teeType: submission?.teeType, reason });
+      this.audit(
+        AuditAction.TEE_ATTESTATION_REJECTED,
+        'unknown',
+        performedBy,
+        { teeType: submission?.teeType, reason },
+        'failure'
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Get an attestation that still lets its enclave hold keys
+   * @param attestationId Attestation ID
+   * @returns Attestation, or null if it is unknown, expired, revoked or its measurement is no longer allowlisted
+   */
+  public async getTrusted(attestationId: string): Promise<EnclaveAttestation | null> {
+    const db = await getDatabase();
+    const attestation = await db.get('tee_attestations', attestationId);
+    if (
+      !attestation ||
+      attestation.revokedAt ||
+      attestation.expiresAt <= Date.now() ||
+      !this.isAllowlisted(attestation.teeType as TEEType, attestation.measurement)
+    ) {
+      return null;
+    }
+    return attestation;
+  }
+
+  /**
+   * Get an attestation that still lets its enclave hold keys
+   * @param attestationId Attestation ID
+   * @returns Attestation
+   * @throws AttestationError if the attestation is no longer trusted
+   */
+  public async assertTrusted(attestationId: string): Promise<EnclaveAttestation> {
+    const attestation = await this.getTrusted(attestationId);
+    if (!attestation) {
+      throw new AttestationError('Enclave attestation is missing, expired or revoked; attest again', 403);
+    }
+    return attestation;
+  }
+
+  /**
+   * Revoke an attestation, e.g. after an enclave vulnerability is disclosed
+   * @param attestationId Attestation ID
+   * @param performedBy Who revoked it
+   * @throws AttestationError if the attestation does not exist
+   */
+  public async revoke(attestationId: string, performedBy: string): Promise<void> {
+    const db = await getDatabase();
+    const attestation = await db.get('tee_attestations', attestationId);
+    if (!attestation) {
+      throw new AttestationError('Attestation not found', 404);
+    }
+    if (!attestation.revokedAt) {
+      await db.put('tee_attestations', { ...attestation, revokedAt: Date.now() });
+      this.audit(AuditAction.TEE_ATTESTATION_REVOKED, attestationId, performedBy, {
+        teeType: attestation.teeType,
+        measurement: attestation.measurement,
+      });
+    }
+  }
+
+  /**
+   * Check a measurement against the allowlist of its TEE type
+   * @param teeType TEE type
+   * @param measurement Hex measurement
+   */
+  public isAllowlisted(teeType: TEEType, measurement: string): boolean {
+    return this.allowlist.get(teeType)?.has(normalizeMeasurement(measurement)) ?? false;
+  }
+
+  /**
+   * Delete a nonce, failing if it was not issued here or has expired
+   * @param nonce Nonce from verified evidence
+   * @returns Nonce record
+   * @throws AttestationError if the nonce cannot be used
+   */
+  private async consumeNonce(nonce: Buffer): Promise<RyzerWalletDB['attestation_nonces']['value']> {
+    const db = await getDatabase();
+    const key = nonce.toString('hex');
+
+    return db.withExclusiveLock(NONCE_LOCK, async () => {
+      const record = await db.get('attestation_nonces', key);
+      if (!record) {
+        throw new AttestationError('Evidence is not bound to an outstanding challenge');
+      }
+
+      await db.delete('attestation_nonces', key);
+
+      if (record.expiresAt <= Date.now()) {
+        throw new AttestationError('Challenge has expired');
+      }
+      return record;
+    });
+  }
+
+  /**
+   * Delete nonces that expired without being used
+   */
+  private async pruneExpiredNonces(): Promise<void> {
+    const db = await getDatabase();
+    const expired = await db.getAllFromIndex('attestation_nonces', 'by-expiresAt', { upper: Date.now() });
+    for (const record of expired) {
+      await db.delete('attestation_nonces', record.nonce);
+    }
+  }
+
+  /**
+   * Record an attestation event in the audit log
+   * @param action Audit action
+   * @param attestationId Attestation ID
+   * @param performedBy Who caused the event
+   * @param details Additional details
+   * @param status Outcome
+   */
+  private audit(
+    action: AuditAction,
+    attestationId: string,
+    performedBy: string,
+    details: Record<string, unknown>,
+    status: 'success' | 'failure' = 'success'
+  ): void {
+    createAuditLog({
+      action,
+      userId: performedBy,
+      performedBy,
+      category: 'security',
+      status,
+      targetId: attestationId,
+      targetType: AuditTargetType.TEE_ATTESTATION,
+      details,
+    }).catch(error => {
+      logger.error(`Error creating ${action} audit log:`, error);
+    });
+  }
+}
+
+/**
+ * Read a comma-separated list from the environment
+ * @param name Variable name
+ */
+const envList = (name: string): string[] =>
+  (process.env[name] || '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(Boolean);
+
+/**
+ * Read a positive integer from the environment
+ * @param name Variable name
+ * @param fallback Value used when the variable is unset or invalid
+ */
+const envInt = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Create the verifiers whose pinned roots are configured. A TEE type without
+ * roots cannot attest.
+ */
+const verifiersFromEnv = (): AttestationVerifier[] => {
+  const factories: [string, (roots: crypto.X509Certificate[]) => AttestationVerifier][] = [
+    ['TEE_SGX_ROOT_CA', roots => new SgxDcapVerifier(roots)],
+    ['TEE_SEV_SNP_ARK', roots => new SevSnpVerifier(roots)],
+    ['TEE_NITRO_ROOT_CA', roots => new NitroVerifier(roots)],
+  ];
+
+  return factories.flatMap(([variable, create]) => {
+    const paths = envList(variable);
+    if (paths.length === 0) {
+      return [];
+    }
+    try {
+      return [create(loadPinnedRoots(paths))];
+    } catch (error) {
+      logger.error(`Failed to load pinned roots from ${variable}:`, error);
+      return [];
+    }
+  });
+};
+
+// Create and export a singleton instance
+const attestationService = new AttestationService(
+  {
+    allowlist: {
+      [TEEType.SGX_DCAP]: envList('TEE_SGX_MRENCLAVE_ALLOWLIST'),
+      [TEEType.SEV_SNP]: envList('TEE_SEV_SNP_MEASUREMENT_ALLOWLIST'),
+      [TEEType.NITRO]: envList('TEE_NITRO_PCR0_ALLOWLIST'),
+    },
+    nonceTtlMs: envInt('TEE_ATTESTATION_NONCE_TTL_MS', 5 * 60 * 1000),
+    attestationTtlMs: envInt('TEE_ATTESTATION_TTL_MS', 24 * 60 * 60 * 1000),
+    clockSkewMs: envInt('TEE_ATTESTATION_CLOCK_SKEW_MS', 60 * 1000),
+    allowDebug: process.env.TEE_ALLOW_DEBUG_ENCLAVES === 'true',
+  },
+  verifiersFromEnv()
+);
+
+export default attestationService;
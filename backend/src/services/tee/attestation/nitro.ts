@@ -0,0 +1,168 @@
+import crypto from 'crypto';
+import { CborMap, CborValue, decodeCbor, decodeCborMap } from '../../webauthn/cbor';
+import { AttestationError } from './errors';
+import { verifyCertificateChain, verifyEcdsa } from './pki';
+import { AttestationClaims, AttestationVerifier, TEEType } from './types';
+
+// COSE algorithm of attestation documents
+const COSE_ALG_ES384 = -35;
+const COSE_HEADER_ALG = 1;
+
+/**
+ * Verifier for AWS Nitro Enclaves attestation documents.
+ *
+ * The document is a COSE_Sign1 structure signed by the enclave certificate,
+ * whose chain is carried in the document's CA bundle and must lead to a
+ * pinned AWS Nitro Enclaves root. The measurement is PCR0, the hash of the
+ * enclave image; the document's nonce field must hold the challenge nonce.
+ */
+export class NitroVerifier implements AttestationVerifier {
+  public readonly teeType = TEEType.NITRO;
+
+  /**
+   * @param roots Pinned AWS Nitro Enclaves root certificates
+   */
+  constructor(private readonly roots: crypto.X509Certificate[]) {}
+
+  public async verify(document: Buffer): Promise<AttestationClaims> {
+    const [protectedHeader, , payload, signature] = parseSign1(document);
+
+    if (decode(protectedHeader, decodeCborMap).get(COSE_HEADER_ALG) !== COSE_ALG_ES384) {
+      throw new AttestationError('Attestation document must be signed with ES384');
+    }
+
+    const fields = decode(payload, decodeCborMap);
+    const moduleId = fields.get('module_id');
+    const timestamp = fields.get('timestamp');
+    const pcrs = fields.get('pcrs');
+    const certificate = fields.get('certificate');
+    const caBundle = fields.get('cabundle');
+    const nonce = fields.get('nonce');
+    const publicKey = fields.get('public_key');
+    if (
+      typeof moduleId !== 'string' ||
+      fields.get('digest') !== 'SHA384' ||
+      typeof timestamp !== 'number' ||
+      !(pcrs instanceof Map) ||
+      !Buffer.isBuffer(certificate) ||
+      !Array.isArray(caBundle) ||
+      caBundle.length === 0 ||
+      !caBundle.every(Buffer.isBuffer)
+    ) {
+      throw new AttestationError('Invalid attestation document');
+    }
+    if (!Buffer.isBuffer(nonce)) {
+      throw new AttestationError('Attestation document carries no nonce');
+    }
+
+    // The CA bundle starts at the root
+    let chain: crypto.X509Certificate[];
+    try {
+      chain = [certificate, ...(caBundle as Buffer[]).slice().reverse()].map(der => new crypto.X509Certificate(der));
+    } catch {
+      throw new AttestationError('Invalid certificate in attestation document');
+    }
+    const leaf = verifyCertificateChain(chain, this.roots);
+
+    const signedData = encodeSigStructure(protectedHeader, payload);
+    if (!verifyEcdsa('sha384', signedData, leaf.publicKey, signature)) {
+      throw new AttestationError('Invalid attestation document signature');
+    }
+
+    const pcr = (index: number): Buffer => {
+      const value = (pcrs as CborMap).get(index);
+      if (!Buffer.isBuffer(value) || value.length !== 48) {
+        throw new AttestationError(`Attestation document has no PCR${index}`);
+      }
+      return value;
+    };
+    const pcr0 = pcr(0);
+
+    return {
+      teeType: this.teeType,
+      measurement: pcr0.toString('hex'),
+      instanceId: moduleId,
+      nonce,
+      timestamp,
+      // Enclaves started in debug mode report all-zero PCRs
+      debug: pcr0.every(byte => byte === 0),
+      details: {
+        pcr1: pcr(1).toString('hex'),
+        pcr2: pcr(2).toString('hex'),
+        ...((pcrs as CborMap).has(8) ? { pcr8: pcr(8).toString('hex') } : {}),
+        ...(Buffer.isBuffer(publicKey) ? { publicKey: publicKey.toString('hex') } : {}),
+        certificateSubject: leaf.subject,
+      },
+    };
+  }
+}
+
+/**
+ * Decode CBOR data, reporting malformed data as an attestation error
+ * @param data Encoded data
+ * @param decoder Decoder
+ */
+const decode = <T>(data: Buffer, decoder: (data: Buffer) => T): T => {
+  try {
+    return decoder(data);
+  } catch {
+    throw new AttestationError('Invalid attestation document encoding');
+  }
+};
+
+/**
+ * Split a COSE_Sign1 structure (RFC 9052 §4.2), tagged or not
+ * @param document Encoded structure
+ * @returns Protected header, unprotected header, payload and signature
+ */
+const parseSign1 = (document: Buffer): [Buffer, CborValue, Buffer, Buffer] => {
+  const { value, offset } = decode(document, decodeCbor);
+  if (
+    offset !== document.length ||
+    !Array.isArray(value) ||
+    value.length !== 4 ||
+    !Buffer.isBuffer(value[0]) ||
+    !Buffer.isBuffer(value[2]) ||
+    !Buffer.isBuffer(value[3])
+  ) {
+    throw new AttestationError('Attestation document is not a COSE_Sign1 structure');
+  }
+  return value as [Buffer, CborValue, Buffer, Buffer];
+};
+
+/**
+ * Encode the Sig_structure a COSE_Sign1 signature covers (RFC 9052 §4.4)
+ * @param protectedHeader Serialized protected header
+ * @param payload Payload
+ */
+const encodeSigStructure = (protectedHeader: Buffer, payload: Buffer): Buffer => {
+  const head = (major: number, length: number): Buffer => {
+    if (length < 24) {
+      return Buffer.from([(major << 5) | length]);
+    }
+    if (length < 0x100) {
+      return Buffer.from([(major << 5) | 24, length]);
+    }
+    if (length < 0x10000) {
+      const bytes = Buffer.alloc(3);
+      bytes[0] = (major << 5) | 25;
+      bytes.writeUInt16BE(length, 1);
+      return bytes;
+    }
+    const bytes = Buffer.alloc(5);
+    bytes[0] = (major << 5) | 26;
+    bytes.writeUInt32BE(length, 1);
+    return bytes;
+  };
+  const bytes = (data: Buffer) => Buffer.concat([head(2, data.length), data]);
+  const context = Buffer.from('Signature1', 'utf8');
+
+  return Buffer.concat([
+    head(4, 4),
+    head(3, context.length),
+    context,
+    bytes(protectedHeader),
+    bytes(Buffer.alloc(0)),
+    bytes(payload),
+  ]);
+};
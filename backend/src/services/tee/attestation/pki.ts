@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { AttestationError } from './errors';
+
+/**
+ * Parse the certificates of a PEM bundle
+ * @param pem PEM data
+ * @returns Certificates in the order they appear
+ * @throws AttestationError if a certificate cannot be parsed
+ */
+export const parsePemCertificates = (pem: string): crypto.X509Certificate[] => {
+  const blocks = pem.match(/-----BEGIN CERTIFICATE-----[^-]+-----END CERTIFICATE-----/g) || [];
+  try {
+    return blocks.map(block => new crypto.X509Certificate(block));
+  } catch {
+    throw new AttestationError('Invalid certificate');
+  }
+};
+
+/**
+ * Load pinned root certificates
+ * @param paths PEM files, each holding one or more certificates
+ * @returns Root certificates
+ */
+export const loadPinnedRoots = (paths: string[]): crypto.X509Certificate[] =>
+  paths.flatMap(path => {
+    const roots = parsePemCertificates(fs.readFileSync(path, 'utf8'));
+    if (roots.length === 0) {
+      throw new Error(`No certificates in ${path}`);
+    }
+    return roots;
+  });
+
+/**
+ * Verify a certificate chain against pinned roots. Revocation is not checked.
+ * @param chain Certificates, leaf first; may end with the root
+ * @param roots Pinned root certificates
+ * @param at Time the certificates must be valid at
+ * @returns Leaf certificate
+ * @throws AttestationError if the chain is not valid or not anchored in a pinned root
+ */
+export const verifyCertificateChain = (
+  chain: crypto.X509Certificate[],
+  roots: crypto.X509Certificate[],
+  at: Date = new Date()
+): crypto.X509Certificate => {
+  if (roots.length === 0) {
+    throw new AttestationError('No pinned root certificates', 500);
+  }
+  if (chain.length === 0) {
+    throw new AttestationError('Empty certificate chain');
+  }
+
+  const pinned = (certificate: crypto.X509Certificate) =>
+    roots.find(root => root.fingerprint256 === certificate.fingerprint256);
+  const isValid = (certificate: crypto.X509Certificate) =>
+    Date.parse(certificate.validFrom) <= at.getTime() && at.getTime() <= Date.parse(certificate.validTo);
+  const isSignedBy = (certificate: crypto.X509Certificate, issuer: crypto.X509Certificate) => {
+    try {
+      return certificate.checkIssued(issuer) && certificate.verify(issuer.publicKey);
+    } catch {
+      return false;
+    }
+  };
+
+  // A trailing copy of a pinned root is checked as the anchor below
+  const certificates = chain.length > 1 && pinned(chain[chain.length - 1]) ? chain.slice(0, -1) : chain;
+
+  if (certificates[0].ca) {
+    throw new AttestationError('Leaf certificate must not be a CA');
+  }
+
+  certificates.forEach((certificate, index) => {
+    if (!isValid(certificate)) {
+      throw new AttestationError(`Certificate ${certificate.subject} is not valid at this time`);
+    }
+    if (index > 0 && !certificate.ca) {
+      throw new AttestationError(`Intermediate certificate ${certificate.subject} is not a CA`);
+    }
+    const issuer = certificates[index + 1];
+    if (issuer && !isSignedBy(certificate, issuer)) {
+      throw new AttestationError(`Certificate ${certificate.subject} is not signed by ${issuer.subject}`);
+    }
+  });
+
+  const top = certificates[certificates.length - 1];
+  const anchor = roots.find(root => isSignedBy(top, root));
+  if (!anchor) {
+    throw new AttestationError('Certificate chain does not lead to a pinned root');
+  }
+  if (!isValid(anchor)) {
+    throw new AttestationError(`Pinned root ${anchor.subject} is not valid at this time`);
+  }
+
+  return certificates[0];
+};
+
+/**
+ * Verify an ECDSA signature given as fixed-size r || s
+ * @param algorithm Digest algorithm
+ * @param data Signed data
+ * @param key Public key
+ * @param signature r || s, big-endian
+ * @returns Whether the signature is valid
+ */
+export const verifyEcdsa = (algorithm: string, data: Buffer, key: crypto.KeyObject, signature: Buffer): boolean => {
+  try {
+    return crypto.verify(algorithm, data, { key, dsaEncoding: 'ieee-p1363' }, signature);
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import { AttestationError } from './errors';
+import { parsePemCertificates, verifyCertificateChain, verifyEcdsa } from './pki';
+import { AttestationClaims, AttestationVerifier, TEEType } from './types';
+
+const REPORT_LENGTH = 0x4a0;
+const SIGNED_LENGTH = 0x2a0;
+const MIN_REPORT_VERSION = 2;
+const SIGNATURE_ALGO_ECDSA_P384_SHA384 = 1;
+
+// Offsets within an attestation report
+const GUEST_SVN_OFFSET = 0x04;
+const POLICY_OFFSET = 0x08;
+const VMPL_OFFSET = 0x30;
+const SIGNATURE_ALGO_OFFSET = 0x34;
+const REPORT_DATA_OFFSET = 0x50;
+const MEASUREMENT_OFFSET = 0x90;
+const HOST_DATA_OFFSET = 0xc0;
+const ID_KEY_DIGEST_OFFSET = 0xe0;
+const REPORTED_TCB_OFFSET = 0x180;
+const CHIP_ID_OFFSET = 0x1a0;
+
+// r and s are stored little-endian in 72-byte fields
+const SIGNATURE_COMPONENT_LENGTH = 72;
+const P384_LENGTH = 48;
+
+const POLICY_DEBUG = BigInt(1) << BigInt(19);
+
+/**
+ * Verifier for AMD SEV-SNP attestation reports.
+ *
+ * The report must be signed by the VCEK of the chip, whose chain (VCEK, ASK,
+ * optionally ARK) is supplied with the evidence and must lead to a pinned AMD
+ * root key. Reported TCB versions are returned in the claims but not compared
+ * with the VCEK certificate extensions. The first 32 bytes of the report data
+ * must hold the challenge nonce.
+ */
+export class SevSnpVerifier implements AttestationVerifier {
+  public readonly teeType = TEEType.SEV_SNP;
+
+  /**
+   * @param roots Pinned AMD root keys (ARK) of the supported processor families
+   */
+  constructor(private readonly roots: crypto.X509Certificate[]) {}
+
+  public async verify(report: Buffer, certificates?: string): Promise<AttestationClaims> {
+    if (report.length < REPORT_LENGTH) {
+      throw new AttestationError('SEV-SNP report is truncated');
+    }
+    const version = report.readUInt32LE(0);
+    if (version < MIN_REPORT_VERSION) {
+      throw new AttestationError(`Unsupported SEV-SNP report version ${version}`);
+    }
+    if (report.readUInt32LE(SIGNATURE_ALGO_OFFSET) !== SIGNATURE_ALGO_ECDSA_P384_SHA384) {
+      throw new AttestationError('Unsupported SEV-SNP signature algorithm');
+    }
+    if (!certificates) {
+      throw new AttestationError('SEV-SNP evidence requires the VCEK certificate chain');
+    }
+
+    const vcek = verifyCertificateChain(parsePemCertificates(certificates), this.roots);
+    if (vcek.publicKey.asymmetricKeyDetails?.namedCurve !== 'secp384r1') {
+      throw new AttestationError('VCEK must hold a P-384 key');
+    }
+
+    const signature = Buffer.concat([
+      littleEndianComponent(report, SIGNED_LENGTH),
+      littleEndianComponent(report, SIGNED_LENGTH + SIGNATURE_COMPONENT_LENGTH),
+    ]);
+    if (!verifyEcdsa('sha384', report.subarray(0, SIGNED_LENGTH), vcek.publicKey, signature)) {
+      throw new AttestationError('Invalid SEV-SNP report signature');
+    }
+
+    const policy = report.readBigUInt64LE(POLICY_OFFSET);
+    const reportData = report.subarray(REPORT_DATA_OFFSET, REPORT_DATA_OFFSET + 64);
+    return {
+      teeType: this.teeType,
+      measurement: report.subarray(MEASUREMENT_OFFSET, MEASUREMENT_OFFSET + 48).toString('hex'),
+      instanceId: report.subarray(CHIP_ID_OFFSET, CHIP_ID_OFFSET + 64).toString('hex'),
+      nonce: Buffer.from(reportData.subarray(0, 32)),
+      debug: (policy & POLICY_DEBUG) !== BigInt(0),
+      details: {
+        version,
+        guestSvn: report.readUInt32LE(GUEST_SVN_OFFSET),
+        policy: policy.toString(16),
+        vmpl: report.readUInt32LE(VMPL_OFFSET),
+        hostData: report.subarray(HOST_DATA_OFFSET, HOST_DATA_OFFSET + 32).toString('hex'),
+        idKeyDigest: report.subarray(ID_KEY_DIGEST_OFFSET, ID_KEY_DIGEST_OFFSET + 48).toString('hex'),
+        reportedTcb: report.readBigUInt64LE(REPORTED_TCB_OFFSET).toString(16),
+        reportData: reportData.toString('hex'),
+      },
+    };
+  }
+}
+
+/**
+ * Read a little-endian signature component as a big-endian P-384 scalar
+ * @param report Attestation report
+ * @param offset Offset of the component
+ */
+const littleEndianComponent = (report: Buffer, offset: number): Buffer => {
+  const component = report.subarray(offset, offset + SIGNATURE_COMPONENT_LENGTH);
+  if (component.subarray(P384_LENGTH).some(byte => byte !== 0)) {
+    throw new AttestationError('Invalid SEV-SNP report signature');
+  }
+  return Buffer.from(component.subarray(0, P384_LENGTH)).reverse();
+};
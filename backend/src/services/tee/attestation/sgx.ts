@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import { AttestationError } from './errors';
+import { parsePemCertificates, verifyCertificateChain, verifyEcdsa } from './pki';
+import { AttestationClaims, AttestationVerifier, TEEType } from './types';
+
+const QUOTE_VERSION = 3;
+const ATTESTATION_KEY_TYPE_ECDSA_P256 = 2;
+const CERTIFICATION_DATA_PCK_CHAIN = 5;
+
+const HEADER_LENGTH = 48;
+const REPORT_BODY_LENGTH = 384;
+
+// Offsets within an SGX report body
+const ATTRIBUTES_OFFSET = 48;
+const MRENCLAVE_OFFSET = 64;
+const MRSIGNER_OFFSET = 128;
+const ISV_PROD_ID_OFFSET = 256;
+const ISV_SVN_OFFSET = 258;
+const REPORT_DATA_OFFSET = 320;
+
+const SGX_FLAGS_DEBUG = BigInt(0x02);
+
+/**
+ * Verifier for Intel SGX DCAP quotes (version 3, ECDSA P-256 attestation key).
+ *
+ * The PCK certificate chain embedded in the quote must lead to a pinned
+ * Intel SGX root CA; the PCK key signs the Quoting Enclave report, which binds
+ * the attestation key, which signs the application enclave report. TCB levels
+ * are returned in the claims but not evaluated against Intel's TCB info.
+ * The first 32 bytes of the report data must hold the challenge nonce.
+ */
+export class SgxDcapVerifier implements AttestationVerifier {
+  public readonly teeType = TEEType.SGX_DCAP;
+
+  /**
+   * @param roots Pinned Intel SGX root CA certificates
+   */
+  constructor(private readonly roots: crypto.X509Certificate[]) {}
+
+  public async verify(quote: Buffer): Promise<AttestationClaims> {
+    const signedLength = HEADER_LENGTH + REPORT_BODY_LENGTH;
+    if (quote.length < signedLength + 4) {
+      throw new AttestationError('SGX quote is truncated');
+    }
+    if (quote.readUInt16LE(0) !== QUOTE_VERSION) {
+      throw new AttestationError(`Unsupported SGX quote version ${quote.readUInt16LE(0)}`);
+    }
+    if (quote.readUInt16LE(2) !== ATTESTATION_KEY_TYPE_ECDSA_P256) {
+      throw new AttestationError('Unsupported SGX attestation key type');
+    }
+
+    const body = quote.subarray(HEADER_LENGTH, signedLength);
+    const end = signedLength + 4 + quote.readUInt32LE(signedLength);
+    if (end > quote.length) {
+      throw new AttestationError('SGX quote is truncated');
+    }
+
+    let offset = signedLength + 4;
+    const take = (length: number): Buffer => {
+      if (offset + length > end) {
+        throw new AttestationError('SGX quote signature data is truncated');
+      }
+      const bytes = quote.subarray(offset, offset + length);
+      offset += length;
+      return bytes;
+    };
+
+    const reportSignature = take(64);
+    const attestationKey = take(64);
+    const qeReport = take(REPORT_BODY_LENGTH);
+    const qeReportSignature = take(64);
+    const qeAuthData = take(take(2).readUInt16LE(0));
+    const certificationDataType = take(2).readUInt16LE(0);
+    const certificationData = take(take(4).readUInt32LE(0));
+
+    if (certificationDataType !== CERTIFICATION_DATA_PCK_CHAIN) {
+      throw new AttestationError('SGX quote does not carry a PCK certificate chain');
+    }
+
+    // PCK certificate, issued by Intel to this platform
+    const pck = verifyCertificateChain(parsePemCertificates(certificationData.toString('utf8')), this.roots);
+
+    // The Quoting Enclave report is signed by the PCK key ...
+    if (!verifyEcdsa('sha256', qeReport, pck.publicKey, qeReportSignature)) {
+      throw new AttestationError('Invalid QE report signature');
+    }
+
+    // ... and vouches for the attestation key
+    const qeReportData = qeReport.subarray(REPORT_DATA_OFFSET);
+    const expected = crypto.createHash('sha256').update(attestationKey).update(qeAuthData).digest();
+    if (!qeReportData.subarray(0, 32).equals(expected) || qeReportData.subarray(32).some(byte => byte !== 0)) {
+      throw new AttestationError('QE report does not bind the attestation key');
+    }
+
+    // The attestation key signs the quote header and the enclave report
+    if (!verifyEcdsa('sha256', quote.subarray(0, signedLength), p256Key(attestationKey), reportSignature)) {
+      throw new AttestationError('Invalid SGX enclave report signature');
+    }
+
+    const reportData = body.subarray(REPORT_DATA_OFFSET);
+    return {
+      teeType: this.teeType,
+      measurement: body.subarray(MRENCLAVE_OFFSET, MRENCLAVE_OFFSET + 32).toString('hex'),
+      instanceId: crypto.createHash('sha256').update(attestationKey).digest('hex'),
+      nonce: Buffer.from(reportData.subarray(0, 32)),
+      debug: (body.readBigUInt64LE(ATTRIBUTES_OFFSET) & SGX_FLAGS_DEBUG) !== BigInt(0),
+      details: {
+        mrSigner: body.subarray(MRSIGNER_OFFSET, MRSIGNER_OFFSET + 32).toString('hex'),
+        isvProdId: body.readUInt16LE(ISV_PROD_ID_OFFSET),
+        isvSvn: body.readUInt16LE(ISV_SVN_OFFSET),
+        cpuSvn: body.subarray(0, 16).toString('hex'),
+        qeSvn: quote.readUInt16LE(8),
+        pceSvn: quote.readUInt16LE(10),
+        reportData: reportData.toString('hex'),
+        pckSubject: pck.subject,
+      },
+    };
+  }
+}
+
+/**
+ * Public key object for a raw P-256 point
+ * @param point x || y, 64 bytes
+ */
+const p256Key = (point: Buffer): crypto.KeyObject => {
+  try {
+    return crypto.createPublicKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: point.subarray(0, 32).toString('base64url'),
+        y: point.subarray(32, 64).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+  } catch {
+    throw new AttestationError('Invalid SGX attestation key');
+  }
+};
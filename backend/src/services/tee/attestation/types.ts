@@ -0,0 +1,41 @@
+// TEE technologies whose evidence can be verified
+export enum TEEType {
+  SGX_DCAP = 'sgx-dcap',
+  SEV_SNP = 'sev-snp',
+  NITRO = 'nitro',
+}
+
+// Attestation evidence submitted on behalf of an enclave
+export interface AttestationEvidence {
+  teeType: TEEType;
+  evidence: string; // Base64 SGX quote, SEV-SNP report or Nitro attestation document
+  certificates?: string; // PEM chain for evidence that does not embed one (SEV-SNP: VCEK, then ASK)
+}
+
+// Facts established by verifying evidence
+export interface AttestationClaims {
+  teeType: TEEType;
+  measurement: string; // Hex code identity checked against the allowlist
+  instanceId: string; // Enclave instance or platform that produced the evidence
+  nonce: Buffer; // Nonce the evidence is bound to
+  timestamp?: number; // When the evidence was produced, if it says
+  debug: boolean; // Debug enclaves expose their memory to the host
+  details: Record<string, string | number | boolean>;
+}
+
+/**
+ * Verifies the evidence format of one TEE type
+ */
+export interface AttestationVerifier {
+  readonly teeType: TEEType;
+
+  /**
+   * Check the signatures and certificate chain of evidence and extract its claims.
+   * Measurements and nonces are checked by the caller.
+   * @param evidence Raw evidence
+   * @param certificates PEM certificate chain accompanying the evidence
+   * @returns Claims made by the evidence
+   * @throws AttestationError if the evidence is not genuine
+   */
+  verify(evidence: Buffer, certificates?: string): Promise<AttestationClaims>;
+}
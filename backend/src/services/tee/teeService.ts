@@ -1,6 +1,7 @@
 import { ethers } from 'ethers';
 import crypto from 'crypto';
 import { logger } from '../../utils/logger';
+import attestationService, { AttestationChallenge, AttestationError, AttestationEvidence, EnclaveAttestation } from './attestation';
 
 /**
  * Trusted Execution Environment (TEE) Service
@@ -8,18 +9,20 @@ import { logger } from '../../utils/logger';
  * This service simulates a TEE for secure key management.
  * In a production environment, this would interface with hardware-based
  * TEE solutions like Intel SGX, ARM TrustZone, or a secure enclave.
+ *
+ * Keys are only generated and used while the enclave holds a verified remote
+ * attestation; see attest().
  */
 export class TEEService {
   private static instance: TEEService;
   private encryptionKey: Buffer;
-  private attestationKey: Buffer;
+  private attestationId?: string;
   private secureStorage: Map<string, string> = new Map();
   private isInitialized: boolean = false;
 
   private constructor() {
     // In a real implementation, these would be derived from the TEE's secure storage
     this.encryptionKey = crypto.randomBytes(32);
-    this.attestationKey = crypto.randomBytes(32);
   }
 
   /**
@@ -45,10 +48,9 @@ export class TEEService {
       logger.info('Initializing TEE environment');
       
       // In a real implementation, this would perform:
-      // 1. Hardware attestation to verify the TEE is genuine
-      // 2. Secure boot verification
-      // 3. Memory encryption setup
-      // 4. Remote attestation with a verification service
+      // 1. Secure boot verification
+      // 2. Memory encryption setup
+      // Remote attestation is verified separately through attest()
       
       this.isInitialized = true;
       logger.info('TEE environment initialized successfully');
@@ -66,6 +68,7 @@ export class TEEService {
    */
   public async generateKeyPair(userId: string): Promise<string> {
     this.ensureInitialized();
+    await this.ensureAttested();
     
     try {
       // Generate a new wallet
@@ -93,6 +96,7 @@ export class TEEService {
    */
   public async signMessage(userId: string, message: string): Promise<string> {
     this.ensureInitialized();
+    await this.ensureAttested();
     
     try {
       // Retrieve the encrypted private key
@@ -126,6 +130,7 @@ export class TEEService {
    */
   public async signTransaction(userId: string, transaction: ethers.TransactionRequest): Promise<string> {
     this.ensureInitialized();
+    await this.ensureAttested();
     
     try {
       // Retrieve the encrypted private key
@@ -152,30 +157,39 @@ export class TEEService {
   }
 
   /**
-   * Get attestation report to verify the TEE's authenticity
-   * @returns Attestation report
+   * Issue a nonce the enclave must bind into its attestation evidence
+   * @returns Challenge
    */
-  public getAttestationReport(): { report: string; signature: string } {
+  public async createAttestationChallenge(): Promise<AttestationChallenge> {
+    return attestationService.createChallenge();
+  }
+
+  /**
+   * Verify remote attestation evidence of the enclave. Once verified, the
+   * enclave may hold keys until the attestation expires or is revoked.
+   * @param evidence Evidence produced by the enclave for an issued challenge
+   * @param performedBy Who submitted the evidence
+   * @returns Verified attestation
+   * @throws AttestationError if the evidence is rejected
+   */
+  public async attest(evidence: AttestationEvidence, performedBy?: string): Promise<EnclaveAttestation> {
     this.ensureInitialized();
-    
-    // In a real implementation, this would generate a genuine attestation report
-    // that can be verified by a remote attestation service
-    const report = {
-      teeType: 'Simulated',
-      timestamp: Date.now(),
-      measurements: crypto.randomBytes(32).toString('hex'),
-      securityVersion: '1.0.0',
-    };
-    
-    const reportStr = JSON.stringify(report);
-    const signature = crypto.createHmac('sha256', this.attestationKey)
-      .update(reportStr)
-      .digest('hex');
-    
-    return {
-      report: reportStr,
-      signature,
-    };
+
+    const attestation = await attestationService.verify(evidence, performedBy);
+    this.attestationId = attestation.id;
+
+    logger.info(`TEE attested as ${attestation.teeType} enclave ${attestation.measurement}`);
+    return attestation;
+  }
+
+  /**
+   * Get the attestation the enclave currently holds keys under
+   * @returns Verified attestation
+   * @throws AttestationError if the enclave has no valid attestation
+   */
+  public async getAttestationReport(): Promise<EnclaveAttestation> {
+    this.ensureInitialized();
+    return this.ensureAttested();
   }
 
   /**
@@ -220,6 +234,17 @@ export class TEEService {
     return decrypted;
   }
 
+  /**
+   * Ensure the enclave holds a valid attestation before keys are generated or used
+   * @returns Attestation
+   */
+  private async ensureAttested(): Promise<EnclaveAttestation> {
+    if (!this.attestationId) {
+      throw new AttestationError('TEE has not been attested', 403);
+    }
+    return attestationService.assertTrusted(this.attestationId);
+  }
+
   /**
    * Ensure the TEE is initialized before use
    */
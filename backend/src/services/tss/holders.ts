@@ -0,0 +1,222 @@
+import crypto from 'crypto';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { generatePaillierKeyPair, MIN_MODULUS_BITS, paillierKeyFromPrimes, PaillierPrivateKey, PaillierPublicKey } from './paillier';
+import {
+  createRingPedersenParams,
+  decodeProof,
+  encodeProof,
+  ModulusProof,
+  proveModulus,
+  proveRingPedersen,
+  RingPedersenParams,
+  RingPedersenProof,
+  verifyModulus,
+  verifyRingPedersen,
+} from './proofs';
+import { scalarFromHex, scalarToHex } from './vss';
+
+/**
+ * Share holders. Every share index is held by exactly one node, which keeps
+ * the holder's private material sealed in its own share store and registers
+ * the public part, so other holders can deliver sub-shares to it during key
+ * generation, refreshes and redistributions, and run the signing protocol
+ * with it. The public part carries proofs that the holder's Paillier modulus
+ * and ring-Pedersen parameters are well formed (see proofs.ts).
+ */
+
+// Private material of a holder, sealed in the share store of the node holding it
+export interface HolderSecrets {
+  shareKey: string; // AES-256 key the holder's shares are sealed with
+  encryptionKey: string; // secp256k1 private key sub-shares are encrypted to
+  paillier: { p: string; q: string }; // Safe primes of the holder's Paillier key, hex
+  ringPedersen: { h1: string; h2: string; lambda: string }; // Parameters over the Paillier modulus, hex
+}
+
+// Public record of a holder
+export interface HolderSetup {
+  index: number; // Share index
+  nodeId: string; // Node holding the share
+  encryptionKey: string; // Compressed secp256k1 public key
+  paillierN: string; // Paillier modulus, hex
+  ringPedersen: { h1: string; h2: string }; // hex
+  modulusProof: Record<string, any>; // Encoded Πmod
+  ringPedersenProof: Record<string, any>; // Encoded Πprm
+  createdAt: number;
+}
+
+// A holder this node runs
+export interface LocalHolder {
+  index: number;
+  secrets: HolderSecrets;
+  setup: HolderSetup;
+  paillier: PaillierPrivateKey;
+}
+
+// Public keys of a holder used by the signing protocol
+export interface HolderParams {
+  paillier: PaillierPublicKey;
+  ringPedersen: RingPedersenParams;
+}
+
+/**
+ * Generate the private material of a new holder. Takes seconds: the Paillier
+ * key needs two safe primes.
+ */
+export const generateHolderSecrets = (): HolderSecrets => {
+  const paillier = generatePaillierKeyPair();
+  const { params, lambda } = createRingPedersenParams(paillier);
+
+  return {
+    shareKey: crypto.randomBytes(32).toString('hex'),
+    encryptionKey: Buffer.from(secp256k1.utils.randomPrivateKey()).toString('hex'),
+    paillier: { p: paillier.p.toString(16), q: paillier.q.toString(16) },
+    ringPedersen: { h1: params.h1.toString(16), h2: params.h2.toString(16), lambda: lambda.toString(16) },
+  };
+};
+
+/**
+ * Compressed public key sub-shares are encrypted to
+ * @param secrets Holder's private material
+ */
+const encryptionPublicKey = (secrets: HolderSecrets): string =>
+  Buffer.from(secp256k1.getPublicKey(secrets.encryptionKey, true)).toString('hex');
+
+/**
+ * Paillier key of a holder
+ * @param secrets Holder's private material
+ */
+export const holderPaillierKey = (secrets: HolderSecrets): PaillierPrivateKey =>
+  paillierKeyFromPrimes(BigInt('0x' + secrets.paillier.p), BigInt('0x' + secrets.paillier.q));
+
+/**
+ * Public record of a holder, with the proofs of its Paillier modulus and
+ * ring-Pedersen parameters
+ * @param index Share index
+ * @param nodeId Node holding the share
+ * @param secrets Holder's private material
+ */
+export const createHolderSetup = (index: number, nodeId: string, secrets: HolderSecrets): HolderSetup => {
+  const paillier = holderPaillierKey(secrets);
+  const params: RingPedersenParams = {
+    n: paillier.publicKey.n,
+    h1: BigInt('0x' + secrets.ringPedersen.h1),
+    h2: BigInt('0x' + secrets.ringPedersen.h2),
+  };
+
+  return {
+    index,
+    nodeId,
+    encryptionKey: encryptionPublicKey(secrets),
+    paillierN: paillier.publicKey.n.toString(16),
+    ringPedersen: { h1: secrets.ringPedersen.h1, h2: secrets.ringPedersen.h2 },
+    modulusProof: encodeProof(proveModulus(paillier)),
+    ringPedersenProof: encodeProof(proveRingPedersen(paillier, params, BigInt('0x' + secrets.ringPedersen.lambda))),
+    createdAt: Date.now(),
+  };
+};
+
+/**
+ * Whether a registered setup belongs to a holder
+ * @param setup Registered setup
+ * @param nodeId Node holding the share
+ * @param secrets Holder's private material
+ */
+export const isSetupOf = (setup: HolderSetup, nodeId: string, secrets: HolderSecrets): boolean =>
+  setup.nodeId === nodeId &&
+  setup.encryptionKey === encryptionPublicKey(secrets) &&
+  setup.paillierN === holderPaillierKey(secrets).publicKey.n.toString(16) &&
+  setup.ringPedersen?.h1 === secrets.ringPedersen.h1 &&
+  setup.ringPedersen?.h2 === secrets.ringPedersen.h2;
+
+/**
+ * Paillier key and ring-Pedersen parameters of a holder
+ * @param setup Holder's setup
+ */
+export const holderParams = (setup: HolderSetup): HolderParams => {
+  const n = BigInt('0x' + setup.paillierN);
+  return {
+    paillier: { n, n2: n * n },
+    ringPedersen: { n, h1: BigInt('0x' + setup.ringPedersen.h1), h2: BigInt('0x' + setup.ringPedersen.h2) },
+  };
+};
+
+/**
+ * Check a holder's setup: its Paillier modulus is large enough and proven a
+ * product of two primes, and its ring-Pedersen parameters are proven
+ * @param setup Holder's setup
+ * @returns Whether the setup can be used
+ */
+export const verifyHolderSetup = (setup: HolderSetup): boolean => {
+  let params: HolderParams;
+  try {
+    params = holderParams(setup);
+  } catch {
+    return false;
+  }
+
+  return (
+    params.paillier.n.toString(2).length >= MIN_MODULUS_BITS &&
+    verifyModulus(params.paillier.n, decodeProof<ModulusProof>(setup.modulusProof)) &&
+    verifyRingPedersen(params.ringPedersen, decodeProof<RingPedersenProof>(setup.ringPedersenProof))
+  );
+};
+
+/**
+ * Key of the channel between two holders: ECDH between their registered
+ * keys, bound to the session and the direction of the message
+ * @param privateKey Own private key
+ * @param publicKey Other holder's public key
+ * @param context Session and direction
+ */
+const channelKey = (privateKey: string, publicKey: string, context: string): Buffer => {
+  const shared = secp256k1.getSharedSecret(privateKey, publicKey, true);
+  return Buffer.from(crypto.hkdfSync('sha256', shared.subarray(1), Buffer.alloc(0), `tss-sub-share:${context}`, 32));
+};
+
+/**
+ * Encrypt a sub-share to another holder. Only that holder can read it, and
+ * it can tell the sender from the key the share decrypts with.
+ * @param sender Sending holder
+ * @param recipient Setup of the receiving holder
+ * @param sessionId Session the sub-share belongs to
+ * @param share Sub-share
+ * @returns Base64 of IV, auth tag and ciphertext
+ */
+export const encryptSubShare = (sender: LocalHolder, recipient: HolderSetup, sessionId: string, share: bigint): string => {
+  const context = `${sessionId}:${sender.index}:${recipient.index}`;
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(
+    'aes-256-gcm',
+    channelKey(sender.secrets.encryptionKey, recipient.encryptionKey, context),
+    iv
+  );
+  cipher.setAAD(Buffer.from(context, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(scalarToHex(share), 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+};
+
+/**
+ * Decrypt a sub-share sent by another holder
+ * @param recipient Receiving holder
+ * @param sender Setup of the sending holder
+ * @param sessionId Session the sub-share belongs to
+ * @param encrypted Output of encryptSubShare
+ * @returns Sub-share
+ */
+export const decryptSubShare = (recipient: LocalHolder, sender: HolderSetup, sessionId: string, encrypted: string): bigint => {
+  const context = `${sessionId}:${sender.index}:${recipient.index}`;
+  const buffer = Buffer.from(encrypted, 'base64');
+  const decipher = crypto.createDecipheriv(
+    'aes-256-gcm',
+    channelKey(recipient.secrets.encryptionKey, sender.encryptionKey, context),
+    buffer.subarray(0, 12)
+  );
+  decipher.setAAD(Buffer.from(context, 'utf8'));
+  decipher.setAuthTag(buffer.subarray(12, 28));
+
+  try {
+    return scalarFromHex(Buffer.concat([decipher.update(buffer.subarray(28)), decipher.final()]).toString('utf8'));
+  } catch {
+    throw new Error(`Sub-share from holder ${sender.index} cannot be decrypted`);
+  }
+};
@@ -0,0 +1,327 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../utils/logger';
+import { canonicalJson } from '../../utils/crypto';
+import { getDatabase, RyzerWalletDB } from '../../config/database';
+import { militaryGradeEncryption } from '../security/militaryGradeEncryption';
+import {
+  createHolderSetup,
+  generateHolderSecrets,
+  HolderSecrets,
+  HolderSetup,
+  holderPaillierKey,
+  isSetupOf,
+  LocalHolder,
+  verifyHolderSetup,
+} from './holders';
+import { LocalShareStore } from './shareStore';
+import { scalarFromHex, verifyShare } from './vss';
+
+// A share this node holds, with the commitments it was checked against
+export interface LocalShare {
+  share: bigint;
+  commitments: string[];
+}
+
+// Operation a session runs
+export type TSSOperation = RyzerWalletDB['tss_requests']['value']['operation'];
+
+/**
+ * What the protocol runners need from the node they run on: the holders it
+ * runs, the public setups of all holders, and access to its own shares
+ */
+export interface TSSNode {
+  readonly nodeId: string;
+  readonly indexes: number[]; // Share indexes this node holds
+
+  /**
+   * Holder of a share index, if this node holds it
+   */
+  getLocalHolder(index: number): LocalHolder | undefined;
+
+  /**
+   * Registered setup of a holder, with its proofs verified
+   * @throws Error if no node holds the index or the setup fails verification
+   */
+  getSetup(index: number): Promise<HolderSetup>;
+
+  /**
+   * Record an authorized request; sessions run for it use its ID
+   * @param walletId Wallet the request is for
+   * @param operation Operation
+   * @param payload Announcement the session will make
+   * @param ttlMs How long nodes may start the session
+   * @returns Request ID
+   */
+  createRequest(walletId: string, operation: TSSOperation, payload: Record<string, any>, ttlMs: number): Promise<string>;
+
+  /**
+   * Check that a session announcement matches an unexpired request this node
+   * has not taken part in yet, and remember it
+   * @throws Error if the session is not authorized
+   */
+  authorize(requestId: string, operation: TSSOperation, payload: Record<string, any>): Promise<void>;
+
+  /**
+   * Delete a request once its session is over
+   */
+  completeRequest(requestId: string): Promise<void>;
+
+  /**
+   * Load a share of the wallet's current epoch
+   * @returns Verified share, or undefined if the epoch is not current or this node does not hold the index
+   */
+  loadShare(walletId: string, epoch: number, index: number): Promise<LocalShare | undefined>;
+
+  /**
+   * Store a newly dealt share; it becomes usable once its epoch is committed
+   */
+  storeShare(walletId: string, epoch: number, index: number, share: bigint, sessionId: string): Promise<void>;
+
+  /**
+   * Delete the shares a session stored if their epoch was never committed
+   */
+  discardShares(walletId: string, epoch: number, sessionId: string): Promise<void>;
+
+  /**
+   * Delete shares of epochs before the wallet's current one
+   */
+  pruneShares(walletId: string): Promise<void>;
+}
+
+// Options of the local node
+export interface LocalTSSNodeOptions {
+  nodeId: string;
+  shareIndexes: number[];
+  shareDirectory: string;
+  sharePassphrase: string;
+}
+
+/**
+ * The TSS node backed by this process: holders and shares live in a
+ * node-local share store, holder setups and key records in the database
+ */
+export class LocalTSSNode implements TSSNode {
+  public readonly nodeId: string;
+  public readonly indexes: number[];
+  private holders = new Map<number, LocalHolder>();
+  private verifiedSetups = new Map<number, string>(); // Setups whose proofs were checked, as JSON
+  private served = new Map<string, number>(); // Requests this node took part in, until they expire
+
+  private constructor(options: LocalTSSNodeOptions, private readonly store: LocalShareStore) {
+    this.nodeId = options.nodeId;
+    this.indexes = options.shareIndexes;
+  }
+
+  /**
+   * Open the share store, register the node's holders and move shares this
+   * node holds out of the database, where earlier versions kept them
+   * @param options Node options
+   */
+  public static async open(options: LocalTSSNodeOptions): Promise<LocalTSSNode> {
+    if (options.shareIndexes.some(index => !Number.isSafeInteger(index) || index < 1)) {
+      throw new Error('Share indexes must be positive integers');
+    }
+
+    const store = new LocalShareStore({ directory: options.shareDirectory, passphrase: options.sharePassphrase });
+    const node = new LocalTSSNode(options, store);
+
+    for (const index of options.shareIndexes) {
+      const secrets = await store.openHolder(index, generateHolderSecrets);
+      const setup = await node.register(index, secrets);
+      node.holders.set(index, { index, secrets, setup, paillier: holderPaillierKey(secrets) });
+    }
+
+    await node.importDatabaseShares();
+    return node;
+  }
+
+  public getLocalHolder(index: number): LocalHolder | undefined {
+    return this.holders.get(index);
+  }
+
+  public async getSetup(index: number): Promise<HolderSetup> {
+    const db = await getDatabase();
+    const setup = await db.get('tss_holders', index);
+    if (!setup) {
+      throw new Error(`No node holds share index ${index}`);
+    }
+
+    const serialized = JSON.stringify(setup);
+    if (this.verifiedSetups.get(index) !== serialized) {
+      if (setup.index !== index || !verifyHolderSetup(setup)) {
+        throw new Error(`Setup of share index ${index} failed verification`);
+      }
+      this.verifiedSetups.set(index, serialized);
+    }
+    return setup;
+  }
+
+  public async createRequest(
+    walletId: string,
+    operation: TSSOperation,
+    payload: Record<string, any>,
+    ttlMs: number
+  ): Promise<string> {
+    const db = await getDatabase();
+    await this.pruneExpiredRequests();
+
+    const now = Date.now();
+    const id = uuidv4();
+    await db.put('tss_requests', { id, walletId, operation, payload, createdAt: now, expiresAt: now + ttlMs });
+    return id;
+  }
+
+  public async authorize(requestId: string, operation: TSSOperation, payload: Record<string, any>): Promise<void> {
+    const now = Date.now();
+    for (const [id, expiresAt] of this.served) {
+      if (expiresAt <= now) {
+        this.served.delete(id);
+      }
+    }
+    if (this.served.has(requestId)) {
+      throw new Error(`Request ${requestId} was already served`);
+    }
+
+    // Claimed before the lookup, so a repeated announcement cannot pass while it runs
+    this.served.set(requestId, Infinity);
+    try {
+      const db = await getDatabase();
+      const request = await db.get('tss_requests', requestId);
+      if (!request || request.expiresAt <= now) {
+        throw new Error(`No authorized request ${requestId}`);
+      }
+      if (request.operation !== operation || canonicalJson(request.payload) !== canonicalJson(payload)) {
+        throw new Error(`Session ${requestId} does not match its request`);
+      }
+      this.served.set(requestId, request.expiresAt);
+    } catch (error) {
+      this.served.delete(requestId);
+      throw error;
+    }
+  }
+
+  public async completeRequest(requestId: string): Promise<void> {
+    const db = await getDatabase();
+    await db.delete('tss_requests', requestId);
+  }
+
+  public async loadShare(walletId: string, epoch: number, index: number): Promise<LocalShare | undefined> {
+    if (!this.holders.has(index)) {
+      return undefined;
+    }
+
+    const db = await getDatabase();
+    const key = await db.get('tss_keys', walletId);
+    if (!key || key.epoch !== epoch || !key.participants.includes(index)) {
+      return undefined;
+    }
+
+    const share = await this.store.getShare(walletId, epoch, index);
+    if (share === undefined) {
+      return undefined;
+    }
+    if (!verifyShare(index, share, key.commitments)) {
+      throw new Error(`Share with index ${index} does not match the commitments`);
+    }
+    return { share, commitments: key.commitments };
+  }
+
+  public async storeShare(walletId: string, epoch: number, index: number, share: bigint, sessionId: string): Promise<void> {
+    await this.store.putShare(walletId, epoch, index, share, sessionId);
+  }
+
+  public async discardShares(walletId: string, epoch: number, sessionId: string): Promise<void> {
+    const db = await getDatabase();
+    const key = await db.get('tss_keys', walletId);
+    if (key && key.epoch >= epoch) {
+      return;
+    }
+
+    for (const stored of await this.store.listShares(walletId)) {
+      if (stored.epoch === epoch && stored.sessionId === sessionId && this.holders.has(stored.index)) {
+        await this.store.deleteShare(walletId, stored.epoch, stored.index);
+      }
+    }
+  }
+
+  public async pruneShares(walletId: string): Promise<void> {
+    const db = await getDatabase();
+    const key = await db.get('tss_keys', walletId);
+    if (!key) {
+      return;
+    }
+
+    // Later epochs may belong to a session in progress and are left alone
+    for (const stored of await this.store.listShares(walletId)) {
+      const current = stored.epoch === key.epoch && key.participants.includes(stored.index);
+      if (stored.epoch <= key.epoch && !current && this.holders.has(stored.index)) {
+        await this.store.deleteShare(walletId, stored.epoch, stored.index);
+      }
+    }
+  }
+
+  /**
+   * Register a holder of this node, refusing indexes registered to another node or key
+   * @param index Share index
+   * @param secrets Holder's private material
+   * @returns Registered setup
+   */
+  private async register(index: number, secrets: HolderSecrets): Promise<HolderSetup> {
+    const db = await getDatabase();
+
+    return db.withExclusiveLock(`tss-holder:${index}`, async () => {
+      const existing = await db.get('tss_holders', index);
+      if (existing) {
+        if (!isSetupOf(existing, this.nodeId, secrets)) {
+          throw new Error(`Share index ${index} is registered to node ${existing.nodeId} with a different key`);
+        }
+        return existing;
+      }
+
+      // Proving the Paillier modulus and ring-Pedersen parameters takes a few seconds
+      const setup = createHolderSetup(index, this.nodeId, secrets);
+      await db.put('tss_holders', setup);
+      logger.info(`Registered TSS share index ${index} for node ${this.nodeId}`);
+      return setup;
+    });
+  }
+
+  /**
+   * Delete requests whose sessions can no longer start
+   */
+  private async pruneExpiredRequests(): Promise<void> {
+    const db = await getDatabase();
+    const expired = await db.getAllFromIndex('tss_requests', 'by-expiresAt', { upper: Date.now() });
+    for (const request of expired) {
+      await db.delete('tss_requests', request.id);
+    }
+  }
+
+  /**
+   * Move current shares of this node's indexes from the database into the share store
+   */
+  private async importDatabaseShares(): Promise<void> {
+    const db = await getDatabase();
+
+    for (const record of await db.getAll('tss_key_shares')) {
+      if (!this.holders.has(record.index)) {
+        continue;
+      }
+
+      const key = await db.get('tss_keys', record.walletId);
+      if (key && key.epoch === record.epoch) {
+        const share = scalarFromHex(
+          await militaryGradeEncryption.decrypt(record.share, `tss:${record.walletId}:${record.index}`)
+        );
+        if (!verifyShare(record.index, share, key.commitments)) {
+          logger.warn(`Not importing share ${record.index} of wallet ${record.walletId}: it does not match the commitments`);
+          continue;
+        }
+        await this.store.putShare(record.walletId, record.epoch, record.index, share, 'import');
+      }
+
+      await db.delete('tss_key_shares', record.id);
+      logger.info(`Moved share ${record.index} of wallet ${record.walletId} into the local share store`);
+    }
+  }
+}
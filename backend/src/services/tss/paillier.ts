@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+
+/**
+ * Paillier cryptosystem, used by the signing protocol to multiply secrets held
+ * by different parties without revealing them (multiplicative-to-additive
+ * share conversion). Ciphertexts are additively homomorphic:
+ * Enc(a)·Enc(b) = Enc(a + b) and Enc(a)^k = Enc(k·a).
+ */
+
+export interface PaillierPublicKey {
+  n: bigint;
+  n2: bigint; // n²
+}
+
+export interface PaillierPrivateKey {
+  publicKey: PaillierPublicKey;
+  p: bigint; // Safe primes, so n is a Paillier-Blum modulus
+  q: bigint;
+  lambda: bigint; // lcm(p - 1, q - 1)
+  mu: bigint; // λ⁻¹ mod n, valid because the generator is n + 1
+}
+
+// Modulus size; 2048 bits leaves room for the masked products of the protocol
+const MODULUS_BITS = 2048;
+
+// Smallest modulus accepted from other parties; the product of two 1024-bit primes may have 2047 bits
+export const MIN_MODULUS_BITS = MODULUS_BITS - 1;
+
+/**
+ * Modular exponentiation
+ * @param base Base
+ * @param exponent Non-negative exponent
+ * @param modulus Modulus
+ */
+export const modPow = (base: bigint, exponent: bigint, modulus: bigint): bigint => {
+  let result = BigInt(1);
+  let value = ((base % modulus) + modulus) % modulus;
+  let e = exponent;
+  while (e > BigInt(0)) {
+    if (e & BigInt(1)) {
+      result = (result * value) % modulus;
+    }
+    value = (value * value) % modulus;
+    e >>= BigInt(1);
+  }
+  return result;
+};
+
+/**
+ * Modular inverse by the extended Euclidean algorithm
+ * @param value Value coprime to the modulus
+ * @param modulus Modulus
+ */
+export const modInverse = (value: bigint, modulus: bigint): bigint => {
+  let [a, b] = [((value % modulus) + modulus) % modulus, modulus];
+  let [x, y] = [BigInt(1), BigInt(0)];
+  while (b > BigInt(0)) {
+    const quotient = a / b;
+    [a, b] = [b, a - quotient * b];
+    [x, y] = [y, x - quotient * y];
+  }
+  if (a !== BigInt(1)) {
+    throw new Error('Value is not invertible');
+  }
+  return ((x % modulus) + modulus) % modulus;
+};
+
+/**
+ * Greatest common divisor
+ */
+export const gcd = (a: bigint, b: bigint): bigint => (b === BigInt(0) ? a : gcd(b, a % b));
+
+/**
+ * Draw a uniformly random integer in [0, bound)
+ * @param bound Exclusive upper bound
+ */
+export const randomBelow = (bound: bigint): bigint => {
+  const bytes = Math.ceil(bound.toString(2).length / 8) + 16; // 128 extra bits make the bias negligible
+  return BigInt('0x' + crypto.randomBytes(bytes).toString('hex')) % bound;
+};
+
+/**
+ * Draw a uniformly random unit modulo n
+ * @param n Modulus
+ * @returns Value in [1, n) coprime to n
+ */
+export const randomUnit = (n: bigint): bigint => {
+  for (;;) {
+    const value = randomBelow(n);
+    if (value !== BigInt(0) && gcd(value, n) === BigInt(1)) {
+      return value;
+    }
+  }
+};
+
+/**
+ * Build a Paillier private key from its primes
+ * @param p First prime
+ * @param q Second prime
+ * @returns Private key, which embeds the public key
+ */
+export const paillierKeyFromPrimes = (p: bigint, q: bigint): PaillierPrivateKey => {
+  const n = p * q;
+  const phi = (p - BigInt(1)) * (q - BigInt(1));
+  if (p === q || gcd(n, phi) !== BigInt(1)) {
+    throw new Error('Primes do not form a Paillier key');
+  }
+
+  const lambda = phi / gcd(p - BigInt(1), q - BigInt(1));
+  return { publicKey: { n, n2: n * n }, p, q, lambda, mu: modInverse(lambda, n) };
+};
+
+/**
+ * Generate a Paillier key pair from two safe primes. Safe primes are 3 mod 4,
+ * which the modulus proof relies on, and make n usable for ring-Pedersen
+ * commitments. Generating them takes seconds.
+ * @param bits Modulus size in bits
+ * @returns Private key, which embeds the public key
+ */
+export const generatePaillierKeyPair = (bits = MODULUS_BITS): PaillierPrivateKey => {
+  for (;;) {
+    const p = crypto.generatePrimeSync(bits / 2, { bigint: true, safe: true });
+    const q = crypto.generatePrimeSync(bits / 2, { bigint: true, safe: true });
+    if (p !== q) {
+      return paillierKeyFromPrimes(p, q);
+    }
+  }
+};
+
+/**
+ * Encrypt a plaintext
+ * @param publicKey Recipient's public key
+ * @param plaintext Value in [0, n)
+ * @param nonce Randomness r; drawn when absent. Proofs about the ciphertext need it.
+ * @returns Ciphertext
+ */
+export const paillierEncrypt = (publicKey: PaillierPublicKey, plaintext: bigint, nonce = randomUnit(publicKey.n)): bigint => {
+  const { n, n2 } = publicKey;
+  return (generatorPower(publicKey, plaintext) * modPow(nonce, n, n2)) % n2;
+};
+
+/**
+ * Power of the generator n + 1
+ * @param publicKey Public key
+ * @param exponent Exponent
+ * @returns (n + 1)^exponent mod n²
+ */
+export const generatorPower = (publicKey: PaillierPublicKey, exponent: bigint): bigint => {
+  const { n, n2 } = publicKey;
+  // (n + 1)^m = 1 + m·n mod n²
+  return (BigInt(1) + (((exponent % n) + n) % n) * n) % n2;
+};
+
+/**
+ * Decrypt a ciphertext
+ * @param privateKey Private key
+ * @param ciphertext Ciphertext
+ * @returns Plaintext in [0, n)
+ */
+export const paillierDecrypt = (privateKey: PaillierPrivateKey, ciphertext: bigint): bigint => {
+  const { n, n2 } = privateKey.publicKey;
+  if (ciphertext <= BigInt(0) || ciphertext >= n2) {
+    throw new Error('Ciphertext out of range');
+  }
+  const u = modPow(ciphertext, privateKey.lambda, n2);
+  return (((u - BigInt(1)) / n) * privateKey.mu) % n;
+};
+
+/**
+ * Homomorphically add two ciphertexts
+ */
+export const paillierAdd = (publicKey: PaillierPublicKey, a: bigint, b: bigint): bigint => (a * b) % publicKey.n2;
+
+/**
+ * Homomorphically multiply a ciphertext by a plaintext scalar
+ */
+export const paillierMultiply = (publicKey: PaillierPublicKey, ciphertext: bigint, scalar: bigint): bigint =>
+  modPow(ciphertext, scalar, publicKey.n2);
@@ -0,0 +1,656 @@
+import crypto from 'crypto';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import {
+  gcd,
+  generatorPower,
+  modInverse,
+  modPow,
+  PaillierPrivateKey,
+  PaillierPublicKey,
+  randomBelow,
+  randomUnit,
+} from './paillier';
+import { CURVE_ORDER } from './vss';
+
+/**
+ * Zero-knowledge proofs of the signing protocol, made non-interactive with
+ * Fiat-Shamir. Each party publishes, once per holder:
+ *
+ * - Πmod: its Paillier modulus N is a product of two primes that are 3 mod 4
+ *   (CGGMP21, figure 16), so N has no third factor a party could hide.
+ * - Πprm: ring-Pedersen parameters (Ñ = N, h1 = h2^λ) that other parties
+ *   commit to their secrets with in the proofs below (CGGMP21, figure 17).
+ *
+ * And per signing session, to every other party j:
+ *
+ * - Πfac: N has no factor below 2^256, verified against j's ring-Pedersen
+ *   parameters (CGGMP21, figure 28).
+ * - The range proof of GG18 (appendix A.1) that Enc(k) hides a value below q³.
+ * - The respondent proofs of GG18 (appendices A.2 and A.3) for each MtA
+ *   reply: it is Enc(k)^x·Enc(y) with x below q³ and y below q⁷, and, for
+ *   the reply on w_i, that x·G is the party's public key share W_i.
+ *
+ * Challenges are bound to a context naming the session and both parties, so
+ * a proof cannot be replayed to another party or session.
+ */
+
+type Point = InstanceType<typeof secp256k1.ProjectivePoint>;
+
+const Point = secp256k1.ProjectivePoint;
+
+// Ring-Pedersen parameters of a verifier: h1 = h2^λ mod n, λ unknown to everyone else
+export interface RingPedersenParams {
+  n: bigint;
+  h1: bigint;
+  h2: bigint;
+}
+
+// Πmod: w has Jacobi symbol -1; x_i⁴ = (-1)^a_i·w^b_i·y_i and z_i^N = y_i
+export interface ModulusProof {
+  w: bigint;
+  rounds: { x: bigint; a: boolean; b: boolean; z: bigint }[];
+}
+
+// Πprm: h2^z_i = A_i·h1^e_i for challenge bits e_i
+export interface RingPedersenProof {
+  commitments: bigint[];
+  responses: bigint[];
+}
+
+// Πfac, with the names of CGGMP21
+export interface FactorProof {
+  P: bigint;
+  Q: bigint;
+  A: bigint;
+  B: bigint;
+  T: bigint;
+  sigma: bigint;
+  z1: bigint;
+  z2: bigint;
+  w1: bigint;
+  w2: bigint;
+  v: bigint;
+}
+
+// Range proof of a Paillier encryption, with the names of GG18
+export interface RangeProof {
+  z: bigint;
+  u: bigint;
+  w: bigint;
+  s: bigint;
+  s1: bigint;
+  s2: bigint;
+}
+
+// Respondent proof of an MtA reply, with the names of GG18; u is present when x·G is checked
+export interface AffineProof {
+  z: bigint;
+  zPrime: bigint;
+  t: bigint;
+  v: bigint;
+  w: bigint;
+  s: bigint;
+  s1: bigint;
+  s2: bigint;
+  t1: bigint;
+  t2: bigint;
+  u?: string;
+}
+
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const Q3 = CURVE_ORDER ** BigInt(3);
+const Q7 = CURVE_ORDER ** BigInt(7);
+
+// Repetitions of Πmod and Πprm; each halves a cheating prover's chance
+const ROUNDS = 80;
+
+// Statistical parameters ℓ and ε of Πfac
+const FACTOR_BOUND = TWO ** BigInt(256);
+const FACTOR_SLACK = TWO ** BigInt(256 + 512);
+
+/**
+ * Fiat-Shamir challenge
+ * @param bits Size of the challenge
+ * @param parts Statement and prover messages
+ */
+const challenge = (bits: number, ...parts: (bigint | string | number)[]): bigint => {
+  const seed = parts.map(part => (typeof part === 'bigint' ? part.toString(16) : String(part))).join('|');
+  let digest = '';
+  for (let counter = 0; digest.length * 4 < bits; counter++) {
+    digest += crypto.createHash('sha512').update(`${counter}|${seed}`).digest('hex');
+  }
+  return BigInt('0x' + digest) & ((ONE << BigInt(bits)) - ONE);
+};
+
+/**
+ * Fiat-Shamir challenge in [0, q)
+ */
+const challengeScalar = (...parts: (bigint | string | number)[]): bigint => challenge(384, ...parts) % CURVE_ORDER;
+
+/**
+ * Modular exponentiation with a possibly negative exponent
+ */
+const powSigned = (base: bigint, exponent: bigint, modulus: bigint): bigint =>
+  exponent < BigInt(0) ? modPow(modInverse(base, modulus), -exponent, modulus) : modPow(base, exponent, modulus);
+
+/**
+ * Modular exponentiation by a prover who knows the factors of the modulus
+ */
+const powFactored = (base: bigint, exponent: bigint, p: bigint, q: bigint): bigint =>
+  crt(modPow(base, exponent % (p - ONE), p), modPow(base, exponent % (q - ONE), q), p, q);
+
+/**
+ * Combine residues modulo p and q
+ */
+const crt = (residueP: bigint, residueQ: bigint, p: bigint, q: bigint): bigint => {
+  const h = ((((residueQ - residueP) % q) + q) * modInverse(p, q)) % q;
+  return residueP + p * h;
+};
+
+/**
+ * Integer square root, rounded down
+ */
+const isqrt = (value: bigint): bigint => {
+  if (value < TWO) {
+    return value;
+  }
+  let x = ONE << BigInt(Math.ceil(value.toString(2).length / 2));
+  for (;;) {
+    const next = (x + value / x) / TWO;
+    if (next >= x) {
+      return x;
+    }
+    x = next;
+  }
+};
+
+/**
+ * Whether a value is a quadratic residue modulo an odd prime
+ */
+const isResidue = (value: bigint, prime: bigint): boolean => modPow(value, (prime - ONE) / TWO, prime) === ONE;
+
+/**
+ * Square root that is itself a residue, modulo a prime that is 3 mod 4
+ */
+const residueRoot = (value: bigint, prime: bigint): bigint => modPow(value, (prime + ONE) / BigInt(4), prime);
+
+/**
+ * Whether a value is in [1, n) and coprime to n
+ */
+const isUnit = (value: bigint, n: bigint): boolean => value > BigInt(0) && value < n && gcd(value, n) === ONE;
+
+/**
+ * Whether every field of a decoded proof is an integer
+ */
+const areIntegers = (...values: unknown[]): boolean => values.every(value => typeof value === 'bigint');
+
+/**
+ * s·G, allowing multiples of the group order
+ */
+const multiplyBase = (scalar: bigint): Point => {
+  const reduced = ((scalar % CURVE_ORDER) + CURVE_ORDER) % CURVE_ORDER;
+  return reduced === BigInt(0) ? Point.ZERO : Point.BASE.multiply(reduced);
+};
+
+/**
+ * Πmod challenges y_i
+ */
+const modulusChallenges = (n: bigint, w: bigint): bigint[] =>
+  Array.from({ length: ROUNDS }, (_, i) => challenge(n.toString(2).length + 128, 'tss-mod', n, w, i) % n);
+
+/**
+ * Prove a Paillier key's modulus is a product of two primes that are 3 mod 4
+ * @param key Paillier key from safe primes
+ */
+export const proveModulus = (key: PaillierPrivateKey): ModulusProof => {
+  const { p, q } = key;
+  const { n } = key.publicKey;
+
+  let w: bigint;
+  do {
+    w = randomUnit(n);
+  } while (isResidue(w % p, p) === isResidue(w % q, q));
+
+  const nInverse = modInverse(n, (p - ONE) * (q - ONE));
+  const rounds = modulusChallenges(n, w).map(y => {
+    for (const a of [false, true]) {
+      for (const b of [false, true]) {
+        const value = (((a ? n - y : y) * (b ? w : ONE)) % n + n) % n;
+        if (isResidue(value % p, p) && isResidue(value % q, q)) {
+          const x = crt(residueRoot(residueRoot(value % p, p), p), residueRoot(residueRoot(value % q, q), q), p, q);
+          return { x, a, b, z: powFactored(y, nInverse, p, q) };
+        }
+      }
+    }
+    throw new Error('Modulus proof challenge is not a unit');
+  });
+
+  return { w, rounds };
+};
+
+/**
+ * Verify Πmod
+ * @param n Paillier modulus
+ * @param proof Proof
+ */
+export const verifyModulus = (n: bigint, proof: ModulusProof): boolean => {
+  const { w, rounds } = proof ?? {};
+  if (
+    n % TWO === BigInt(0) ||
+    crypto.checkPrimeSync(n) ||
+    !areIntegers(w) ||
+    !isUnit(w, n) ||
+    !Array.isArray(rounds) ||
+    rounds.length !== ROUNDS
+  ) {
+    return false;
+  }
+
+  const challenges = modulusChallenges(n, w);
+  return rounds.every((round, i) => {
+    const { x, a, b, z } = round ?? {};
+    if (!areIntegers(x, z) || typeof a !== 'boolean' || typeof b !== 'boolean') {
+      return false;
+    }
+    const y = challenges[i];
+    const value = (((a ? n - y : y) * (b ? w : ONE)) % n + n) % n;
+    return modPow(z, n, n) === y && modPow(x, BigInt(4), n) === value;
+  });
+};
+
+/**
+ * Create ring-Pedersen parameters over a Paillier modulus
+ * @param key Paillier key
+ * @returns Parameters and the secret λ, needed only to prove them
+ */
+export const createRingPedersenParams = (key: PaillierPrivateKey): { params: RingPedersenParams; lambda: bigint } => {
+  const { n } = key.publicKey;
+  const h2 = modPow(randomUnit(n), TWO, n);
+  const lambda = randomBelow((key.p - ONE) * (key.q - ONE));
+  return { params: { n, h1: powFactored(h2, lambda, key.p, key.q), h2 }, lambda };
+};
+
+/**
+ * Prove h1 = h2^λ
+ * @param key Paillier key the parameters are over
+ * @param params Parameters
+ * @param lambda λ
+ */
+export const proveRingPedersen = (key: PaillierPrivateKey, params: RingPedersenParams, lambda: bigint): RingPedersenProof => {
+  const phi = (key.p - ONE) * (key.q - ONE);
+  const secrets = Array.from({ length: ROUNDS }, () => randomBelow(phi));
+  const commitments = secrets.map(a => powFactored(params.h2, a, key.p, key.q));
+  const e = challenge(ROUNDS, 'tss-prm', params.n, params.h1, params.h2, ...commitments);
+
+  const responses = secrets.map((a, i) => ((e >> BigInt(i)) & ONE ? (a + lambda) % phi : a));
+  return { commitments, responses };
+};
+
+/**
+ * Verify Πprm
+ * @param params Parameters
+ * @param proof Proof
+ */
+export const verifyRingPedersen = (params: RingPedersenParams, proof: RingPedersenProof): boolean => {
+  const { n, h1, h2 } = params;
+  const { commitments, responses } = proof ?? {};
+  if (
+    !isUnit(h1, n) ||
+    !isUnit(h2, n) ||
+    h1 === ONE ||
+    h2 === ONE ||
+    !Array.isArray(commitments) ||
+    !Array.isArray(responses) ||
+    commitments.length !== ROUNDS ||
+    responses.length !== ROUNDS ||
+    !areIntegers(...commitments, ...responses)
+  ) {
+    return false;
+  }
+
+  const e = challenge(ROUNDS, 'tss-prm', n, h1, h2, ...commitments);
+  return commitments.every((commitment, i) => {
+    const expected = (e >> BigInt(i)) & ONE ? (commitment * h1) % n : commitment;
+    return isUnit(commitment, n) && responses[i] >= BigInt(0) && modPow(h2, responses[i], n) === expected;
+  });
+};
+
+/**
+ * Prove a Paillier modulus has no factor below 2^256
+ * @param key Prover's Paillier key
+ * @param verifier Verifier's ring-Pedersen parameters
+ * @param context Session and parties
+ */
+export const proveNoSmallFactors = (key: PaillierPrivateKey, verifier: RingPedersenParams, context: string): FactorProof => {
+  const { p, q } = key;
+  const n0 = key.publicKey.n;
+  const { n, h1: s, h2: t } = verifier;
+  const commit = (a: bigint, b: bigint) => (modPow(s, a, n) * modPow(t, b, n)) % n;
+
+  const alpha = randomBelow(FACTOR_SLACK * isqrt(n0));
+  const beta = randomBelow(FACTOR_SLACK * isqrt(n0));
+  const mu = randomBelow(FACTOR_BOUND * n);
+  const nu = randomBelow(FACTOR_BOUND * n);
+  const sigma = randomBelow(FACTOR_BOUND * n0 * n);
+  const r = randomBelow(FACTOR_SLACK * n0 * n);
+  const x = randomBelow(FACTOR_SLACK * n);
+  const y = randomBelow(FACTOR_SLACK * n);
+
+  const P = commit(p, mu);
+  const Q = commit(q, nu);
+  const A = commit(alpha, x);
+  const B = commit(beta, y);
+  const T = (modPow(Q, alpha, n) * modPow(t, r, n)) % n;
+  const e = challengeScalar('tss-fac', context, n0, n, s, t, P, Q, A, B, T, sigma);
+
+  return {
+    P,
+    Q,
+    A,
+    B,
+    T,
+    sigma,
+    z1: alpha + e * p,
+    z2: beta + e * q,
+    w1: x + e * mu,
+    w2: y + e * nu,
+    v: r + e * (sigma - nu * p),
+  };
+};
+
+/**
+ * Verify Πfac
+ * @param n0 Prover's Paillier modulus
+ * @param verifier Own ring-Pedersen parameters
+ * @param proof Proof
+ * @param context Session and parties
+ */
+export const verifyNoSmallFactors = (
+  n0: bigint,
+  verifier: RingPedersenParams,
+  proof: FactorProof,
+  context: string
+): boolean => {
+  const { P, Q, A, B, T, sigma, z1, z2, w1, w2, v } = proof ?? ({} as FactorProof);
+  if (!areIntegers(P, Q, A, B, T, sigma, z1, z2, w1, w2, v)) {
+    return false;
+  }
+
+  const { n, h1: s, h2: t } = verifier;
+  const bound = FACTOR_SLACK * isqrt(n0);
+  if (
+    ![P, Q, A, B, T].every(value => isUnit(value, n)) ||
+    sigma < BigInt(0) ||
+    w1 < BigInt(0) ||
+    w2 < BigInt(0) ||
+    z1 < BigInt(0) ||
+    z2 < BigInt(0) ||
+    z1 > bound ||
+    z2 > bound
+  ) {
+    return false;
+  }
+
+  const e = challengeScalar('tss-fac', context, n0, n, s, t, P, Q, A, B, T, sigma);
+  const commit = (a: bigint, b: bigint) => (modPow(s, a, n) * powSigned(t, b, n)) % n;
+  const R = commit(n0, sigma);
+
+  return (
+    commit(z1, w1) === (A * modPow(P, e, n)) % n &&
+    commit(z2, w2) === (B * modPow(Q, e, n)) % n &&
+    (modPow(Q, z1, n) * powSigned(t, v, n)) % n === (T * modPow(R, e, n)) % n
+  );
+};
+
+/**
+ * Prove a ciphertext Enc(m; r) hides m below q³
+ * @param publicKey Prover's Paillier key
+ * @param plaintext m
+ * @param nonce r
+ * @param ciphertext Enc(m; r)
+ * @param verifier Verifier's ring-Pedersen parameters
+ * @param context Session and parties
+ */
+export const proveEncryptionRange = (
+  publicKey: PaillierPublicKey,
+  plaintext: bigint,
+  nonce: bigint,
+  ciphertext: bigint,
+  verifier: RingPedersenParams,
+  context: string
+): RangeProof => {
+  const { n, n2 } = publicKey;
+  const { n: nTilde, h1, h2 } = verifier;
+  const commit = (a: bigint, b: bigint) => (modPow(h1, a, nTilde) * modPow(h2, b, nTilde)) % nTilde;
+
+  const alpha = randomBelow(Q3);
+  const beta = randomUnit(n);
+  const gamma = randomBelow(Q3 * nTilde);
+  const rho = randomBelow(CURVE_ORDER * nTilde);
+
+  const z = commit(plaintext, rho);
+  const u = (generatorPower(publicKey, alpha) * modPow(beta, n, n2)) % n2;
+  const w = commit(alpha, gamma);
+  const e = challengeScalar('tss-enc', context, n, ciphertext, nTilde, h1, h2, z, u, w);
+
+  return {
+    z,
+    u,
+    w,
+    s: (modPow(nonce, e, n) * beta) % n,
+    s1: e * plaintext + alpha,
+    s2: e * rho + gamma,
+  };
+};
+
+/**
+ * Verify a range proof of a ciphertext
+ * @param publicKey Prover's Paillier key
+ * @param ciphertext Ciphertext
+ * @param verifier Own ring-Pedersen parameters
+ * @param proof Proof
+ * @param context Session and parties
+ */
+export const verifyEncryptionRange = (
+  publicKey: PaillierPublicKey,
+  ciphertext: bigint,
+  verifier: RingPedersenParams,
+  proof: RangeProof,
+  context: string
+): boolean => {
+  const { z, u, w, s, s1, s2 } = proof ?? ({} as RangeProof);
+  if (!areIntegers(z, u, w, s, s1, s2)) {
+    return false;
+  }
+
+  const { n, n2 } = publicKey;
+  const { n: nTilde, h1, h2 } = verifier;
+  if (
+    !isUnit(ciphertext, n2) ||
+    !isUnit(u, n2) ||
+    !isUnit(s, n) ||
+    !isUnit(z, nTilde) ||
+    !isUnit(w, nTilde) ||
+    s1 < BigInt(0) ||
+    s1 > Q3 ||
+    s2 < BigInt(0)
+  ) {
+    return false;
+  }
+
+  const e = challengeScalar('tss-enc', context, n, ciphertext, nTilde, h1, h2, z, u, w);
+  return (
+    (u * modPow(ciphertext, e, n2)) % n2 === (generatorPower(publicKey, s1) * modPow(s, n, n2)) % n2 &&
+    (modPow(h1, s1, nTilde) * modPow(h2, s2, nTilde)) % nTilde === (w * modPow(z, e, nTilde)) % nTilde
+  );
+};
+
+/**
+ * Prove an MtA reply c2 = c1^x·Enc(y; r) has x below q³ and y below q⁷,
+ * and optionally that x·G is a given point
+ * @param publicKey Verifier's Paillier key, which c1 and c2 are under
+ * @param c1 Verifier's ciphertext
+ * @param c2 Reply
+ * @param x Multiplicand
+ * @param y Mask
+ * @param nonce r
+ * @param verifier Verifier's ring-Pedersen parameters
+ * @param context Session, parties and the reply's purpose
+ * @param check Whether to prove x·G
+ */
+export const proveAffine = (
+  publicKey: PaillierPublicKey,
+  c1: bigint,
+  c2: bigint,
+  x: bigint,
+  y: bigint,
+  nonce: bigint,
+  verifier: RingPedersenParams,
+  context: string,
+  check: boolean
+): AffineProof => {
+  const { n, n2 } = publicKey;
+  const { n: nTilde, h1, h2 } = verifier;
+  const commit = (a: bigint, b: bigint) => (modPow(h1, a, nTilde) * modPow(h2, b, nTilde)) % nTilde;
+
+  const alpha = randomBelow(Q3);
+  const rho = randomBelow(CURVE_ORDER * nTilde);
+  const rhoPrime = randomBelow(Q3 * nTilde);
+  const sigma = randomBelow(CURVE_ORDER * nTilde);
+  const beta = randomUnit(n);
+  const gamma = randomBelow(Q7);
+  const tau = randomBelow(Q3 * nTilde);
+
+  const z = commit(x, rho);
+  const zPrime = commit(alpha, rhoPrime);
+  const t = commit(y, sigma);
+  const v = (modPow(c1, alpha, n2) * generatorPower(publicKey, gamma) * modPow(beta, n, n2)) % n2;
+  const w = commit(gamma, tau);
+  const u = check ? multiplyBase(alpha).toHex(true) : '';
+  const X = check ? multiplyBase(x).toHex(true) : '';
+  const e = challengeScalar('tss-aff', context, n, c1, c2, nTilde, h1, h2, z, zPrime, t, v, w, u, X);
+
+  return {
+    z,
+    zPrime,
+    t,
+    v,
+    w,
+    s: (modPow(nonce, e, n) * beta) % n,
+    s1: e * x + alpha,
+    s2: e * rho + rhoPrime,
+    t1: e * y + gamma,
+    t2: e * sigma + tau,
+    ...(check ? { u } : {}),
+  };
+};
+
+/**
+ * Verify the respondent proof of an MtA reply
+ * @param publicKey Own Paillier key
+ * @param c1 Own ciphertext
+ * @param c2 Reply
+ * @param verifier Own ring-Pedersen parameters
+ * @param proof Proof
+ * @param context Session, parties and the reply's purpose
+ * @param X Point x·G must equal, if checked
+ */
+export const verifyAffine = (
+  publicKey: PaillierPublicKey,
+  c1: bigint,
+  c2: bigint,
+  verifier: RingPedersenParams,
+  proof: AffineProof,
+  context: string,
+  X?: Point
+): boolean => {
+  const { z, zPrime, t, v, w, s, s1, s2, t1, t2, u } = proof ?? ({} as AffineProof);
+  if (!areIntegers(z, zPrime, t, v, w, s, s1, s2, t1, t2) || (X !== undefined) !== (typeof u === 'string')) {
+    return false;
+  }
+
+  const { n, n2 } = publicKey;
+  const { n: nTilde, h1, h2 } = verifier;
+  if (
+    !isUnit(c2, n2) ||
+    !isUnit(v, n2) ||
+    !isUnit(s, n) ||
+    ![z, zPrime, t, w].every(value => isUnit(value, nTilde)) ||
+    [s1, s2, t1, t2].some(value => value < BigInt(0)) ||
+    s1 > Q3 ||
+    t1 > Q7
+  ) {
+    return false;
+  }
+
+  let uPoint: Point | undefined;
+  try {
+    uPoint = X && Point.fromHex(u!);
+  } catch {
+    return false;
+  }
+
+  const e = challengeScalar(
+    'tss-aff',
+    context,
+    n,
+    c1,
+    c2,
+    nTilde,
+    h1,
+    h2,
+    z,
+    zPrime,
+    t,
+    v,
+    w,
+    u ?? '',
+    X ? X.toHex(true) : ''
+  );
+  const commit = (a: bigint, b: bigint) => (modPow(h1, a, nTilde) * modPow(h2, b, nTilde)) % nTilde;
+
+  return (
+    commit(s1, s2) === (modPow(z, e, nTilde) * zPrime) % nTilde &&
+    commit(t1, t2) === (modPow(t, e, nTilde) * w) % nTilde &&
+    (modPow(c1, s1, n2) * modPow(s, n, n2) * generatorPower(publicKey, t1)) % n2 === (modPow(c2, e, n2) * v) % n2 &&
+    (!X || multiplyBase(s1).equals(X.multiplyUnsafe(e).add(uPoint!)))
+  );
+};
+
+/**
+ * Encode a proof for a message, integers as hex
+ * @param proof Proof
+ */
+export const encodeProof = (proof: unknown): any => {
+  if (typeof proof === 'bigint') {
+    return (proof < BigInt(0) ? '-0x' : '0x') + (proof < BigInt(0) ? -proof : proof).toString(16);
+  }
+  if (Array.isArray(proof)) {
+    return proof.map(encodeProof);
+  }
+  if (proof && typeof proof === 'object') {
+    return Object.fromEntries(Object.entries(proof).map(([key, value]) => [key, encodeProof(value)]));
+  }
+  return proof;
+};
+
+/**
+ * Decode the output of encodeProof; the verifiers check the shape
+ * @param encoded Encoded proof
+ */
+export const decodeProof = <T>(encoded: unknown): T => {
+  const decode = (value: unknown): unknown => {
+    if (typeof value === 'string' && /^-?0x[0-9a-f]+$/.test(value)) {
+      return value.startsWith('-') ? -BigInt(value.slice(1)) : BigInt(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(decode);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, decode(entry)]));
+    }
+    return value;
+  };
+  return decode(encoded) as T;
+};
@@ -0,0 +1,158 @@
+import { decryptSubShare, encryptSubShare, HolderSetup, LocalHolder } from './holders';
+import { combineCommitments, deal, lagrangeCoefficient, mod, shareCommitment, verifyShare } from './vss';
+
+/**
+ * Distributed dealing of key shares, used to generate a key, refresh its
+ * shares and redistribute it to a new threshold and set of holders. No party
+ * ever holds more than its own share:
+ *
+ * - Every dealer deals a secret of its own with a fresh polynomial of the new
+ *   degree, publishes Feldman commitments to it and encrypts the sub-share of
+ *   each new holder to that holder (see holders.ts).
+ * - For a new key the dealers' secrets are random and the key is their sum.
+ * - For a refresh or redistribution each dealer deals its own current share;
+ *   the recipients check the dealing's constant term against the current
+ *   commitments to that share, and combine the sub-shares with the dealers'
+ *   Lagrange coefficients, so the key and its public key stay the same.
+ *
+ * Every recipient checks its sub-shares against the dealers' commitments and
+ * computes the combined commitments itself.
+ */
+
+// Parameters of a dealing session, announced by the coordinator
+export interface ResharingPlan {
+  mode: 'keygen' | 'reshare';
+  walletId: string;
+  epoch: number; // Epoch of the new shares
+  commitments: string[]; // Current commitments; empty for a new key
+  dealers: number[]; // Share indexes dealing; current holders unless generating a key
+  threshold: number; // New threshold
+  participants: number[]; // Share indexes receiving new shares
+}
+
+// Broadcast of a dealer
+export interface DealPayload {
+  commitments: string[];
+  shares: Record<number, string>; // Encrypted sub-share of each participant
+}
+
+/**
+ * Deal a secret to the participants of a plan
+ * @param sessionId Session identifier
+ * @param plan Session parameters
+ * @param dealer Dealing holder
+ * @param secret Random secret for a new key, otherwise the dealer's current share
+ * @param setups Setups of the participants
+ * @returns Broadcast of the dealer
+ */
+export const createDeal = (
+  sessionId: string,
+  plan: ResharingPlan,
+  dealer: LocalHolder,
+  secret: bigint,
+  setups: Map<number, HolderSetup>
+): DealPayload => {
+  const dealing = deal(secret, plan.threshold, plan.participants);
+
+  const shares: Record<number, string> = {};
+  for (const [index, share] of dealing.shares) {
+    shares[index] = encryptSubShare(dealer, setups.get(index)!, sessionId, share);
+  }
+  return { commitments: dealing.commitments, shares };
+};
+
+/**
+ * A new holder's side of a dealing session: checks and combines the
+ * dealers' sub-shares
+ */
+export class ResharingRecipient {
+  private deals = new Map<number, { share: bigint; commitments: string[] }>();
+
+  constructor(
+    private readonly sessionId: string,
+    private readonly plan: ResharingPlan,
+    private readonly holder: LocalHolder,
+    private readonly setups: Map<number, HolderSetup> // Setups of the dealers
+  ) {}
+
+  /**
+   * Whether a deal has arrived from every dealer
+   */
+  public get complete(): boolean {
+    return this.deals.size === this.plan.dealers.length;
+  }
+
+  /**
+   * Check and keep a dealer's sub-share
+   * @param dealer Dealer's share index
+   * @param payload Dealer's broadcast
+   * @throws Error if the deal is inconsistent
+   */
+  public receive(dealer: number, payload: DealPayload): void {
+    const { plan } = this;
+    if (!plan.dealers.includes(dealer) || this.deals.has(dealer)) {
+      return;
+    }
+
+    const { commitments } = payload;
+    if (
+      !Array.isArray(commitments) ||
+      commitments.length !== plan.threshold ||
+      commitments.some(commitment => typeof commitment !== 'string')
+    ) {
+      throw new Error(`Dealer ${dealer} sent malformed commitments`);
+    }
+
+    if (plan.mode === 'reshare') {
+      if (commitments[0] !== shareCommitment(plan.commitments, dealer)) {
+        throw new Error(`Dealer ${dealer} did not deal its current share`);
+      }
+    } else if (commitments[0] === '') {
+      throw new Error(`Dealer ${dealer} dealt a zero secret`);
+    }
+
+    const encrypted = payload.shares?.[this.holder.index];
+    if (typeof encrypted !== 'string') {
+      throw new Error(`Dealer ${dealer} sent no sub-share to holder ${this.holder.index}`);
+    }
+    const share = decryptSubShare(this.holder, this.setups.get(dealer)!, this.sessionId, encrypted);
+    if (!verifyShare(this.holder.index, share, commitments)) {
+      throw new Error(`Sub-share from dealer ${dealer} does not match its commitments`);
+    }
+
+    this.deals.set(dealer, { share, commitments });
+  }
+
+  /**
+   * Combine the sub-shares of every dealer
+   * @returns This holder's new share and the new commitments
+   */
+  public combine(): { share: bigint; commitments: string[] } {
+    if (!this.complete) {
+      throw new Error('Deals of some dealers are missing');
+    }
+
+    const { plan } = this;
+    const weights = plan.dealers.map(dealer =>
+      plan.mode === 'reshare' ? lagrangeCoefficient(dealer, plan.dealers) : BigInt(1)
+    );
+
+    const share = plan.dealers.reduce(
+      (sum, dealer, d) => mod(sum + weights[d] * this.deals.get(dealer)!.share),
+      BigInt(0)
+    );
+    const commitments = combineCommitments(
+      plan.dealers.map(dealer => this.deals.get(dealer)!.commitments),
+      weights
+    );
+
+    if (plan.mode === 'reshare' && commitments[0] !== plan.commitments[0]) {
+      throw new Error('Redistribution changed the public key');
+    }
+    if (!verifyShare(this.holder.index, share, commitments)) {
+      throw new Error('Combined share does not match the combined commitments');
+    }
+
+    return { share, commitments };
+  }
+}
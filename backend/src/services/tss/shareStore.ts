@@ -0,0 +1,271 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { HolderSecrets } from './holders';
+import { scalarFromHex, scalarToHex } from './vss';
+
+// Share store options
+export interface ShareStoreOptions {
+  directory: string; // Local to the node; never shared with other nodes
+  passphrase: string; // Seals the private material of the holders
+}
+
+// Sealed private material of a holder
+interface SealedHolder {
+  version: 1;
+  index: number;
+  kdf: { algorithm: 'scrypt'; salt: string; N: number; r: number; p: number };
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
+// Share sealed with its holder's share key
+interface SealedShare {
+  version: 1;
+  walletId: string;
+  epoch: number;
+  index: number;
+  sessionId: string; // Session that dealt the share
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
+// A share in the store
+export interface StoredShare {
+  epoch: number;
+  index: number;
+  sessionId: string;
+}
+
+// scrypt cost of sealing holder files
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+/**
+ * Node-local storage of key shares. Each share index held by the node has
+ * its own holder file, sealed with the node's passphrase, which carries the
+ * key that holder's shares are sealed with; shares of indexes the node was
+ * not given can neither be written nor read.
+ */
+export class LocalShareStore {
+  private holders = new Map<number, HolderSecrets>();
+
+  constructor(private readonly options: ShareStoreOptions) {
+    if (!options.passphrase) {
+      throw new Error('A passphrase is required for the TSS share store');
+    }
+  }
+
+  /**
+   * Open the holder of a share index, creating it on first use
+   * @param index Share index
+   * @param generate Creates the private material of a new holder
+   * @returns Holder's private material
+   */
+  public async openHolder(index: number, generate: () => HolderSecrets): Promise<HolderSecrets> {
+    const filePath = path.join(this.options.directory, 'holders', `${index}.json`);
+
+    let sealed: SealedHolder | undefined;
+    try {
+      sealed = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    let secrets: HolderSecrets;
+    if (sealed) {
+      if (sealed.version !== 1 || sealed.index !== index || sealed.kdf?.algorithm !== 'scrypt') {
+        throw new Error(`Unsupported holder file for share index ${index}`);
+      }
+      const { salt, N, r, p } = sealed.kdf;
+      secrets = JSON.parse(this.open(this.sealingKey(salt, { N, r, p }), sealed, `holder:${index}`).toString('utf8'));
+    } else {
+      secrets = generate();
+      const salt = crypto.randomBytes(16).toString('hex');
+      await this.write(filePath, {
+        version: 1,
+        index,
+        kdf: { algorithm: 'scrypt', salt, ...SCRYPT_PARAMS },
+        ...this.seal(this.sealingKey(salt), Buffer.from(JSON.stringify(secrets), 'utf8'), `holder:${index}`),
+      });
+    }
+
+    this.holders.set(index, secrets);
+    return secrets;
+  }
+
+  /**
+   * Store a share
+   * @param walletId Wallet identifier
+   * @param epoch Epoch the share belongs to
+   * @param index Share index; its holder must be open
+   * @param share Share value
+   * @param sessionId Session that dealt the share
+   */
+  public async putShare(walletId: string, epoch: number, index: number, share: bigint, sessionId: string): Promise<void> {
+    const key = this.shareKey(index);
+    const sealed: SealedShare = {
+      version: 1,
+      walletId,
+      epoch,
+      index,
+      sessionId,
+      ...this.seal(key, Buffer.from(scalarToHex(share), 'utf8'), `${walletId}:${epoch}:${index}`),
+    };
+    await this.write(this.sharePath(walletId, epoch, index), sealed);
+  }
+
+  /**
+   * Load a share
+   * @param walletId Wallet identifier
+   * @param epoch Epoch
+   * @param index Share index; its holder must be open
+   * @returns Share value, or undefined if the store has none
+   */
+  public async getShare(walletId: string, epoch: number, index: number): Promise<bigint | undefined> {
+    const key = this.shareKey(index);
+    const sealed = await this.readShare(walletId, epoch, index);
+    if (!sealed) {
+      return undefined;
+    }
+    return scalarFromHex(this.open(key, sealed, `${walletId}:${epoch}:${index}`).toString('utf8'));
+  }
+
+  /**
+   * List the shares of a wallet
+   * @param walletId Wallet identifier
+   */
+  public async listShares(walletId: string): Promise<StoredShare[]> {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(this.walletDirectory(walletId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const shares: StoredShare[] = [];
+    for (const name of names) {
+      const match = /^(\d+)-(\d+)\.json$/.exec(name);
+      const sealed = match && (await this.readShare(walletId, Number(match[1]), Number(match[2])));
+      if (sealed) {
+        shares.push({ epoch: sealed.epoch, index: sealed.index, sessionId: sealed.sessionId });
+      }
+    }
+    return shares;
+  }
+
+  /**
+   * Delete a share
+   * @param walletId Wallet identifier
+   * @param epoch Epoch
+   * @param index Share index
+   */
+  public async deleteShare(walletId: string, epoch: number, index: number): Promise<void> {
+    try {
+      await fs.promises.unlink(this.sharePath(walletId, epoch, index));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Share key of an open holder
+   * @param index Share index
+   */
+  private shareKey(index: number): Buffer {
+    const holder = this.holders.get(index);
+    if (!holder) {
+      throw new Error(`This node does not hold share index ${index}`);
+    }
+    return Buffer.from(holder.shareKey, 'hex');
+  }
+
+  /**
+   * Read a sealed share, checking it is filed under the right name
+   */
+  private async readShare(walletId: string, epoch: number, index: number): Promise<SealedShare | undefined> {
+    let sealed: SealedShare;
+    try {
+      sealed = JSON.parse(await fs.promises.readFile(this.sharePath(walletId, epoch, index), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    if (sealed.version !== 1 || sealed.walletId !== walletId || sealed.epoch !== epoch || sealed.index !== index) {
+      throw new Error(`Share file of wallet ${walletId}, epoch ${epoch}, index ${index} is corrupted`);
+    }
+    return sealed;
+  }
+
+  /**
+   * Directory of a wallet's shares; wallet IDs are hashed so that any ID makes a safe file name
+   * @param walletId Wallet identifier
+   */
+  private walletDirectory(walletId: string): string {
+    return path.join(this.options.directory, 'shares', crypto.createHash('sha256').update(walletId).digest('hex'));
+  }
+
+  private sharePath(walletId: string, epoch: number, index: number): string {
+    return path.join(this.walletDirectory(walletId), `${epoch}-${index}.json`);
+  }
+
+  /**
+   * Encrypt with AES-256-GCM, binding additional data
+   */
+  private seal(key: Buffer, plaintext: Buffer, aad: string): { iv: string; authTag: string; ciphertext: string } {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(Buffer.from(aad, 'utf8'));
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return { iv: iv.toString('hex'), authTag: cipher.getAuthTag().toString('hex'), ciphertext: ciphertext.toString('base64') };
+  }
+
+  /**
+   * Decrypt the output of seal
+   */
+  private open(key: Buffer, sealed: { iv: string; authTag: string; ciphertext: string }, aad: string): Buffer {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(sealed.iv, 'hex'));
+    decipher.setAAD(Buffer.from(aad, 'utf8'));
+    decipher.setAuthTag(Buffer.from(sealed.authTag, 'hex'));
+    try {
+      return Buffer.concat([decipher.update(Buffer.from(sealed.ciphertext, 'base64')), decipher.final()]);
+    } catch {
+      throw new Error(`Cannot unseal ${aad}: wrong key or corrupted file`);
+    }
+  }
+
+  /**
+   * Derive the key sealing holder files
+   * @param salt Hex salt
+   * @param params scrypt parameters
+   */
+  private sealingKey(salt: string, params: { N: number; r: number; p: number } = SCRYPT_PARAMS): Buffer {
+    return crypto.scryptSync(this.options.passphrase, Buffer.from(salt, 'hex'), 32, {
+      ...params,
+      maxmem: 256 * params.N * params.r,
+    });
+  }
+
+  /**
+   * Atomically replace a file readable only by the node
+   * @param filePath File path
+   * @param contents JSON contents
+   */
+  private async write(filePath: string, contents: object): Promise<void> {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+    const temporary = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temporary, JSON.stringify(contents), { mode: 0o600 });
+    await fs.promises.rename(temporary, filePath);
+  }
+}
@@ -0,0 +1,467 @@
+import crypto from 'crypto';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { TSSMessage } from './transport';
+import {
+  CURVE_ORDER,
+  expectedSharePoint,
+  invert,
+  lagrangeCoefficient,
+  mod,
+  randomScalar,
+  scalarFromHex,
+  scalarToHex,
+} from './vss';
+import { paillierAdd, paillierDecrypt, paillierEncrypt, paillierMultiply, PaillierPublicKey, randomBelow, randomUnit } from './paillier';
+import { HolderParams, holderParams, HolderSetup, LocalHolder } from './holders';
+import {
+  AffineProof,
+  decodeProof,
+  encodeProof,
+  FactorProof,
+  proveAffine,
+  proveEncryptionRange,
+  proveNoSmallFactors,
+  RangeProof,
+  verifyAffine,
+  verifyEncryptionRange,
+  verifyNoSmallFactors,
+} from './proofs';
+
+/**
+ * Threshold ECDSA signing in the style of GG18, for a signing set of exactly
+ * `threshold` share holders. Party i turns its share into an additive share
+ * w_i = λ_i·x_i of the key x, picks random k_i and γ_i, and the parties run:
+ *
+ * 1. Broadcast a hash commitment to Γ_i = γ_i·G and Enc_i(k_i) under the
+ *    party's registered Paillier key, with proofs to every other party that
+ *    the modulus has no small factors and that k_i is in range.
+ * 2. Multiplicative-to-additive conversion (MtA) with every other party j, sent
+ *    point to point: Enc_j(k_j·γ_i + β) and Enc_j(k_j·w_i + ν), keeping -β
+ *    and -ν, with proofs that the replies are well formed and that the second
+ *    one uses W_i = w_i·G, which j computes from the key's commitments.
+ *    Afterwards δ_i and σ_i are additive shares of kγ and kx.
+ * 3. Broadcast δ_i, so everyone learns δ = kγ.
+ * 4. Open the commitment to Γ_i. R = δ⁻¹·ΣΓ_i = k⁻¹·G and r = R.x.
+ * 5. Broadcast s_i = m·k_i + r·σ_i; s = Σs_i.
+ *
+ * The key is never assembled: each party only ever holds its own share and
+ * the parties' secrets only travel Paillier-encrypted or masked.
+ *
+ * The Paillier moduli and ring-Pedersen parameters the proofs rely on are
+ * proven once per holder when it registers (see holders.ts and proofs.ts).
+ * A party that deviates in rounds 1 and 2 is caught by the proofs; the
+ * signature-share check of the full protocol is left to the coordinator,
+ * which checks the assembled signature against the wallet's public key.
+ */
+
+type Point = InstanceType<typeof secp256k1.ProjectivePoint>;
+
+const Point = secp256k1.ProjectivePoint;
+
+// Statistical hiding of MtA masks beyond the 512-bit product
+const MASK_SLACK = BigInt(2) ** BigInt(80);
+
+// A signing party's view of a session
+export interface SigningPartyOptions {
+  sessionId: string;
+  index: number; // Share index of this party
+  parties: number[]; // Share indexes of all parties in the signing set
+  share: bigint; // Key share x_i
+  commitments: string[]; // Commitments of the key, which fix every party's W_j
+  digest: bigint; // Hash to sign
+  holder: LocalHolder; // This party's holder, with its Paillier key
+  setups: Map<number, HolderSetup>; // Verified setups of the other parties
+  publish: (message: TSSMessage) => void;
+}
+
+// Broadcast of round 1
+interface Round1 {
+  commitment: string;
+  encryptedK: bigint;
+}
+
+// Proofs of round 1 addressed to one party
+interface Round1Proofs {
+  factor: FactorProof;
+  range: RangeProof;
+}
+
+// MtA replies of round 2 with their proofs
+interface Round2Replies {
+  gamma: bigint;
+  w: bigint;
+  gammaProof: AffineProof;
+  wProof: AffineProof;
+}
+
+/**
+ * Hash commitment to a point
+ * @param point Compressed point
+ * @param blind Random blinding value
+ */
+export const commitPoint = (point: string, blind: string): string =>
+  crypto.createHash('sha256').update(`${point}:${blind}`).digest('hex');
+
+/**
+ * Compute R = δ⁻¹·ΣΓ_i from the opened commitments
+ * @param gammas Γ_i as compressed points
+ * @param delta δ = kγ
+ * @returns R
+ */
+export const computeR = (gammas: string[], delta: bigint): Point => {
+  const gamma = gammas.reduce((sum, hex) => sum.add(Point.fromHex(hex)), Point.ZERO);
+  const point = gamma.multiply(invert(delta));
+  if (point.equals(Point.ZERO)) {
+    throw new Error('Nonce point is zero');
+  }
+  return point;
+};
+
+/**
+ * One party of a threshold signing session
+ */
+export class SigningParty {
+  private readonly weightedShare: bigint;
+  private readonly params: HolderParams; // Own Paillier key and ring-Pedersen parameters
+  private readonly peers = new Map<number, HolderParams>();
+  private readonly k = randomScalar();
+  private readonly gamma = randomScalar();
+  private readonly gammaPoint: string;
+  private readonly blind = crypto.randomBytes(32).toString('hex');
+
+  private round1 = new Map<number, Round1>();
+  private round2 = new Map<number, { gamma: bigint; w: bigint }>();
+  private deltas = new Map<number, bigint>();
+  private gammas = new Map<number, string>();
+
+  private betaSum = BigInt(0);
+  private nuSum = BigInt(0);
+  private sigma?: bigint;
+  private stage = 0; // Last round this party has sent
+  private failed = false;
+
+  constructor(private readonly options: SigningPartyOptions) {
+    if (!options.parties.includes(options.index)) {
+      throw new Error(`Party ${options.index} is not in the signing set`);
+    }
+    this.weightedShare = mod(lagrangeCoefficient(options.index, options.parties) * options.share);
+    this.gammaPoint = Point.BASE.multiply(this.gamma).toHex(true);
+
+    this.params = holderParams(options.holder.setup);
+    for (const peer of options.parties) {
+      const setup = options.setups.get(peer);
+      if (peer !== options.index) {
+        if (!setup) {
+          throw new Error(`Setup of party ${peer} is missing`);
+        }
+        this.peers.set(peer, holderParams(setup));
+      }
+    }
+  }
+
+  /**
+   * Start the protocol by sending round 1
+   */
+  public start(): void {
+    const { publicKey } = this.options.holder.paillier;
+    const nonce = randomUnit(publicKey.n);
+    const encryptedK = paillierEncrypt(publicKey, this.k, nonce);
+
+    const proofs: Record<number, Round1Proofs> = {};
+    for (const [peer, { ringPedersen }] of this.peers) {
+      const context = this.context(this.options.index, peer);
+      proofs[peer] = {
+        factor: proveNoSmallFactors(this.options.holder.paillier, ringPedersen, context),
+        range: proveEncryptionRange(publicKey, this.k, nonce, encryptedK, ringPedersen, context),
+      };
+    }
+
+    this.round1.set(this.options.index, { commitment: commitPoint(this.gammaPoint, this.blind), encryptedK });
+    this.stage = 1;
+    this.send('round1', {
+      commitment: commitPoint(this.gammaPoint, this.blind),
+      encryptedK: encryptedK.toString(16),
+      proofs: encodeProof(proofs),
+    });
+    this.step();
+  }
+
+  /**
+   * Whether the party has sent its signature share or given up
+   */
+  public get finished(): boolean {
+    return this.failed || this.stage === 5;
+  }
+
+  /**
+   * Handle a protocol message. Messages may arrive in any order; they are
+   * kept until the round they belong to can be processed.
+   * @param message Message from another party
+   */
+  public handle(message: TSSMessage): void {
+    const { index, parties } = this.options;
+    if (this.finished || message.from === index || !parties.includes(message.from)) {
+      return;
+    }
+    if (message.to !== undefined && message.to !== index) {
+      return;
+    }
+
+    const received = { round1: this.round1, round2: this.round2, round3: this.deltas, round4: this.gammas };
+    if (message.type in received && received[message.type as keyof typeof received].has(message.from)) {
+      return; // Duplicate
+    }
+
+    try {
+      const { payload } = message;
+      switch (message.type) {
+        case 'round1':
+          this.round1.set(message.from, this.checkRound1(message.from, payload));
+          break;
+        case 'round2':
+          this.round2.set(message.from, this.checkRound2(message.from, payload));
+          break;
+        case 'round3':
+          this.deltas.set(message.from, scalarFromHex(payload.delta));
+          break;
+        case 'round4':
+          Point.fromHex(payload.gamma);
+          this.gammas.set(message.from, String(payload.gamma));
+          if (commitPoint(payload.gamma, payload.blind) !== this.round1.get(message.from)?.commitment) {
+            throw new Error(`Party ${message.from} opened a different commitment`);
+          }
+          break;
+        default:
+          return;
+      }
+    } catch (error) {
+      this.abort(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    this.step();
+  }
+
+  /**
+   * Check another party's round 1 broadcast: its Paillier modulus has no
+   * small factors and its Enc(k_j) hides a value in range
+   * @param from Sending party
+   * @param payload Broadcast
+   */
+  private checkRound1(from: number, payload: Record<string, any>): Round1 {
+    const { paillier } = this.peers.get(from)!;
+    const encryptedK = BigInt('0x' + payload.encryptedK);
+    const proofs = decodeProof<Record<number, Round1Proofs>>(payload.proofs)?.[this.options.index];
+    const context = this.context(from, this.options.index);
+
+    if (!verifyNoSmallFactors(paillier.n, this.params.ringPedersen, proofs?.factor, context)) {
+      throw new Error(`Party ${from} did not prove its Paillier modulus has no small factors`);
+    }
+    if (!verifyEncryptionRange(paillier, encryptedK, this.params.ringPedersen, proofs?.range, context)) {
+      throw new Error(`Party ${from} did not prove its encrypted nonce is in range`);
+    }
+    return { commitment: String(payload.commitment), encryptedK };
+  }
+
+  /**
+   * Check and decrypt another party's MtA replies to this party's Enc(k_i).
+   * The reply on w_j must use W_j = λ_j·x_j·G, fixed by the key's commitments.
+   * @param from Sending party
+   * @param payload Replies
+   * @returns This party's additive shares of k_i·γ_j and k_i·w_j
+   */
+  private checkRound2(from: number, payload: Record<string, any>): { gamma: bigint; w: bigint } {
+    const { index, parties, commitments, holder } = this.options;
+    const { encryptedK } = this.round1.get(index)!;
+    const replies = decodeProof<Round2Replies>(payload);
+    const context = this.context(from, index);
+    const weightedPoint = expectedSharePoint(commitments, from).multiplyUnsafe(lagrangeCoefficient(from, parties));
+
+    const { publicKey } = holder.paillier;
+    const { ringPedersen } = this.params;
+    if (
+      typeof replies?.gamma !== 'bigint' ||
+      typeof replies.w !== 'bigint' ||
+      !verifyAffine(publicKey, encryptedK, replies.gamma, ringPedersen, replies.gammaProof, `${context}:gamma`) ||
+      !verifyAffine(publicKey, encryptedK, replies.w, ringPedersen, replies.wProof, `${context}:w`, weightedPoint)
+    ) {
+      throw new Error(`Party ${from} sent an MtA reply that does not verify`);
+    }
+
+    // Own Paillier key; the MtA replies are only readable by this party
+    return {
+      gamma: mod(paillierDecrypt(holder.paillier, replies.gamma)),
+      w: mod(paillierDecrypt(holder.paillier, replies.w)),
+    };
+  }
+
+  /**
+   * Context binding a proof to the session and the parties
+   * @param prover Proving party
+   * @param verifier Verifying party
+   */
+  private context(prover: number, verifier: number): string {
+    return `${this.options.sessionId}:${prover}:${verifier}`;
+  }
+
+  /**
+   * Advance the protocol, aborting the session on failure
+   */
+  private step(): void {
+    try {
+      this.advance();
+    } catch (error) {
+      this.abort(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Send every round whose inputs are complete
+   */
+  private advance(): void {
+    const count = this.options.parties.length;
+
+    if (this.stage === 1 && this.round1.size === count) {
+      this.sendRound2();
+    }
+    if (this.stage === 2 && this.round2.size === count - 1) {
+      this.sendRound3();
+    }
+    if (this.stage === 3 && this.deltas.size === count) {
+      this.sendRound4();
+    }
+    if (this.stage === 4 && this.gammas.size === count) {
+      this.sendRound5();
+    }
+  }
+
+  /**
+   * Round 2: answer every other party's Enc(k_j) with MtA replies for γ_i and
+   * w_i, proven against that party's ring-Pedersen parameters
+   */
+  private sendRound2(): void {
+    for (const [peer, { encryptedK }] of this.round1) {
+      if (peer === this.options.index) {
+        continue;
+      }
+
+      const { paillier, ringPedersen } = this.peers.get(peer)!;
+      const context = this.context(this.options.index, peer);
+      const gammaReply = this.mta(paillier, encryptedK, this.gamma);
+      const wReply = this.mta(paillier, encryptedK, this.weightedShare);
+      this.betaSum = mod(this.betaSum + gammaReply.share);
+      this.nuSum = mod(this.nuSum + wReply.share);
+
+      const replies: Round2Replies = {
+        gamma: gammaReply.ciphertext,
+        w: wReply.ciphertext,
+        gammaProof: proveAffine(
+          paillier,
+          encryptedK,
+          gammaReply.ciphertext,
+          this.gamma,
+          gammaReply.mask,
+          gammaReply.nonce,
+          ringPedersen,
+          `${context}:gamma`,
+          false
+        ),
+        wProof: proveAffine(
+          paillier,
+          encryptedK,
+          wReply.ciphertext,
+          this.weightedShare,
+          wReply.mask,
+          wReply.nonce,
+          ringPedersen,
+          `${context}:w`,
+          true
+        ),
+      };
+      this.send('round2', encodeProof(replies), peer);
+    }
+    this.stage = 2;
+  }
+
+  /**
+   * Round 3: publish δ_i, this party's additive share of kγ
+   */
+  private sendRound3(): void {
+    let alphaSum = BigInt(0);
+    let muSum = BigInt(0);
+    for (const { gamma, w } of this.round2.values()) {
+      alphaSum = mod(alphaSum + gamma);
+      muSum = mod(muSum + w);
+    }
+
+    const delta = mod(this.k * this.gamma + alphaSum + this.betaSum);
+    this.sigma = mod(this.k * this.weightedShare + muSum + this.nuSum);
+
+    this.deltas.set(this.options.index, delta);
+    this.stage = 3;
+    this.send('round3', { delta: scalarToHex(delta) });
+  }
+
+  /**
+   * Round 4: open the commitment to Γ_i now that δ is fixed
+   */
+  private sendRound4(): void {
+    this.gammas.set(this.options.index, this.gammaPoint);
+    this.stage = 4;
+    this.send('round4', { gamma: this.gammaPoint, blind: this.blind });
+  }
+
+  /**
+   * Round 5: publish the signature share s_i = m·k_i + r·σ_i
+   */
+  private sendRound5(): void {
+    const delta = Array.from(this.deltas.values()).reduce((sum, value) => mod(sum + value), BigInt(0));
+    const r = mod(computeR(Array.from(this.gammas.values()), delta).toAffine().x);
+    if (r === BigInt(0)) {
+      throw new Error('Signature r is zero');
+    }
+
+    const s = mod(this.options.digest * this.k + r * this.sigma!);
+    this.stage = 5;
+    this.send('round5', { s: scalarToHex(s) });
+  }
+
+  /**
+   * One MtA reply: Enc(k_j)^a · Enc(β') decrypts to k_j·a + β' without
+   * wrapping, and -β' is this party's additive share of k_j·a
+   * @param publicKey Peer's Paillier key
+   * @param encryptedK Peer's Enc(k_j)
+   * @param secret This party's multiplicand
+   * @returns Reply, this party's share, and the mask and nonce the reply's proof needs
+   */
+  private mta(
+    publicKey: PaillierPublicKey,
+    encryptedK: bigint,
+    secret: bigint
+  ): { ciphertext: bigint; share: bigint; mask: bigint; nonce: bigint } {
+    const mask = randomBelow(CURVE_ORDER * CURVE_ORDER * MASK_SLACK);
+    const nonce = randomUnit(publicKey.n);
+    const ciphertext = paillierAdd(
+      publicKey,
+      paillierMultiply(publicKey, encryptedK, secret),
+      paillierEncrypt(publicKey, mask, nonce)
+    );
+    return { ciphertext, share: mod(-mask), mask, nonce };
+  }
+
+  /**
+   * Give up on the session and tell the others
+   * @param reason Reason for aborting
+   */
+  private abort(reason: string): void {
+    this.failed = true;
+    this.send('abort', { reason });
+  }
+
+  /**
+   * Publish a message of this party
+   */
+  private send(type: TSSMessage['type'], payload: Record<string, any>, to?: number): void {
+    this.options.publish({ sessionId: this.options.sessionId, type, from: this.options.index, to, payload });
+  }
+}
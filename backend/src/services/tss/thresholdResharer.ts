@@ -0,0 +1,405 @@
+import { logger } from '../../utils/logger';
+import { TSSMessage, TSSTransport } from './transport';
+import { TSSNode } from './node';
+import { HolderSetup } from './holders';
+import { createDeal, DealPayload, ResharingPlan, ResharingRecipient } from './resharing';
+import { randomScalar } from './vss';
+
+// Coordinator state of a session
+interface CoordinatedResharing {
+  plan: ResharingPlan;
+  acks: Map<number, string>; // Combined commitments reported by each participant
+  resolve: (commitments: string[]) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// Holders this node runs for a session
+interface HostedResharing {
+  plan?: ResharingPlan;
+  recipients: Map<number, ResharingRecipient>;
+  stored: boolean; // Whether a new share of this session was written
+  backlog: TSSMessage[]; // Messages received before the holders were started
+  announced: boolean;
+  started: boolean;
+  timer: NodeJS.Timeout;
+}
+
+// Upper bound on messages kept for a session that has not started locally
+const MAX_BACKLOG = 1000;
+
+/**
+ * Check the shape of a session announcement
+ * @param payload Announced plan
+ * @returns Plan
+ */
+const parsePlan = (payload: Record<string, any>): ResharingPlan => {
+  const { mode, walletId, epoch, commitments, dealers, threshold, participants } = payload;
+  const isIndexes = (value: unknown): value is number[] =>
+    Array.isArray(value) &&
+    value.length > 0 &&
+    new Set(value).size === value.length &&
+    value.every(index => Number.isSafeInteger(index) && index >= 1);
+
+  if (
+    (mode !== 'keygen' && mode !== 'reshare') ||
+    typeof walletId !== 'string' ||
+    !Number.isSafeInteger(epoch) ||
+    epoch < 0 ||
+    !Array.isArray(commitments) ||
+    commitments.some(commitment => typeof commitment !== 'string') ||
+    !isIndexes(dealers) ||
+    !isIndexes(participants) ||
+    !Number.isInteger(threshold) ||
+    threshold < 1 ||
+    threshold > participants.length
+  ) {
+    throw new Error('Malformed resharing announcement');
+  }
+
+  // The current threshold is the number of current commitments
+  if (mode === 'reshare' ? commitments.length === 0 || dealers.length < commitments.length : commitments.length !== 0) {
+    throw new Error('Malformed resharing announcement');
+  }
+
+  return { mode, walletId, epoch, commitments, dealers, threshold, participants };
+};
+
+/**
+ * Runs dealing sessions (key generation, refresh, redistribution) over a
+ * transport. Every node runs a ThresholdResharer: when a session is
+ * announced it deals for the dealers it holds and collects the sub-shares
+ * of the participants it holds, storing their new shares in its own share
+ * store. The announcing node collects the participants' acknowledgements
+ * and commits the new epoch.
+ */
+export class ThresholdResharer {
+  private sessions = new Map<string, CoordinatedResharing>();
+  private hosted = new Map<string, HostedResharing>();
+  private unsubscribe?: () => void;
+
+  constructor(
+    private readonly transport: TSSTransport,
+    private readonly node: TSSNode,
+    private readonly timeoutMs: number
+  ) {}
+
+  /**
+   * Start handling protocol messages
+   */
+  public start(): void {
+    if (!this.unsubscribe) {
+      this.unsubscribe = this.transport.subscribe(message => this.onMessage(message));
+    }
+  }
+
+  /**
+   * Stop handling messages and fail sessions in progress
+   */
+  public stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+
+    for (const sessionId of Array.from(this.sessions.keys())) {
+      this.finishSession(sessionId, new Error('Threshold resharer stopped'));
+    }
+    for (const [sessionId, hosted] of this.hosted) {
+      clearTimeout(hosted.timer);
+      this.hosted.delete(sessionId);
+    }
+  }
+
+  /**
+   * Run a dealing session and commit its result. The plan is recorded as a
+   * request first; holders only take part in sessions announced for a
+   * recorded request, and only once per request.
+   * @param plan Session parameters
+   * @param commit Makes the new epoch current once every participant stored its share
+   * @returns New commitments
+   */
+  public async reshare(plan: ResharingPlan, commit: (commitments: string[]) => Promise<void>): Promise<string[]> {
+    const sessionId = await this.node.createRequest(plan.walletId, 'reshare', { ...plan }, this.timeoutMs);
+
+    try {
+      const commitments = await new Promise<string[]>((resolve, reject) => {
+        this.sessions.set(sessionId, {
+          plan,
+          acks: new Map(),
+          resolve,
+          reject,
+          timer: setTimeout(() => this.finishSession(sessionId, new Error('Resharing timed out')), this.timeoutMs),
+        });
+
+        this.transport.publish({ sessionId, type: 'reshare', from: 0, payload: { ...plan } });
+      });
+
+      try {
+        await commit(commitments);
+      } catch (error) {
+        this.transport.publish({ sessionId, type: 'abort', from: 0, payload: { reason: 'New epoch was not committed' } });
+        throw error;
+      }
+
+      this.transport.publish({ sessionId, type: 'commit', from: 0, payload: { walletId: plan.walletId } });
+      return commitments;
+    } finally {
+      await this.node.completeRequest(sessionId);
+    }
+  }
+
+  /**
+   * Dispatch a message to the coordinator and the local holders of its session
+   * @param message Protocol message
+   */
+  private onMessage(message: TSSMessage): void {
+    if (this.sessions.has(message.sessionId)) {
+      this.observe(message);
+    }
+
+    switch (message.type) {
+      case 'reshare':
+        this.startHolders(message).catch(error => this.fail(message.sessionId, 'Holder failed to start', error));
+        return;
+      case 'deal':
+        break;
+      case 'commit':
+        if (typeof message.payload.walletId === 'string') {
+          this.node.pruneShares(message.payload.walletId).catch(error =>
+            logger.error(`Failed to prune key shares of wallet ${message.payload.walletId}:`, error)
+          );
+        }
+        return;
+      case 'abort':
+        this.abandonHosted(message.sessionId);
+        return;
+      default:
+        return;
+    }
+
+    const hosted = this.getHosted(message.sessionId);
+    if (!hosted.started) {
+      if (hosted.backlog.length < MAX_BACKLOG) {
+        hosted.backlog.push(message);
+      }
+      return;
+    }
+
+    this.deliver(message.sessionId, hosted, message);
+  }
+
+  /**
+   * Deal for the dealers and set up the recipients this node holds
+   * @param message Session announcement
+   */
+  private async startHolders(message: TSSMessage): Promise<void> {
+    const plan = parsePlan(message.payload);
+
+    const hosted = this.getHosted(message.sessionId);
+    if (hosted.announced) {
+      return;
+    }
+    hosted.announced = true;
+    hosted.plan = plan;
+
+    const dealers = plan.dealers.filter(index => this.node.getLocalHolder(index));
+    const recipients = plan.participants.filter(index => this.node.getLocalHolder(index));
+    if (dealers.length === 0 && recipients.length === 0) {
+      this.dropHosted(message.sessionId);
+      return;
+    }
+    await this.node.authorize(message.sessionId, 'reshare', { ...plan });
+
+    const setups = new Map<number, HolderSetup>();
+    for (const index of new Set([...(dealers.length ? plan.participants : []), ...(recipients.length ? plan.dealers : [])])) {
+      setups.set(index, await this.node.getSetup(index));
+    }
+
+    for (const index of recipients) {
+      hosted.recipients.set(
+        index,
+        new ResharingRecipient(message.sessionId, plan, this.node.getLocalHolder(index)!, setups)
+      );
+    }
+
+    for (const index of dealers) {
+      let secret: bigint;
+      if (plan.mode === 'keygen') {
+        secret = randomScalar();
+      } else {
+        const current = await this.node.loadShare(plan.walletId, plan.epoch - 1, index);
+        if (!current || JSON.stringify(current.commitments) !== JSON.stringify(plan.commitments)) {
+          throw new Error(`Holder ${index} has no current share to deal`);
+        }
+        secret = current.share;
+      }
+
+      this.transport.publish({
+        sessionId: message.sessionId,
+        type: 'deal',
+        from: index,
+        payload: createDeal(message.sessionId, plan, this.node.getLocalHolder(index)!, secret, setups),
+      });
+    }
+
+    hosted.started = true;
+    for (const buffered of hosted.backlog.splice(0)) {
+      this.deliver(message.sessionId, hosted, buffered);
+    }
+
+    logger.info(
+      `Started resharing holders ${Array.from(new Set([...dealers, ...recipients])).join(', ')} ` +
+      `for session ${message.sessionId}`
+    );
+  }
+
+  /**
+   * Deliver a deal to the local recipients of a session
+   */
+  private deliver(sessionId: string, hosted: HostedResharing, message: TSSMessage): void {
+    for (const [index, recipient] of hosted.recipients) {
+      if (recipient.complete) {
+        continue;
+      }
+
+      try {
+        recipient.receive(message.from, message.payload as DealPayload);
+      } catch (error) {
+        this.fail(sessionId, `Holder ${index} rejected a deal`, error);
+        return;
+      }
+
+      if (recipient.complete) {
+        this.acknowledge(sessionId, hosted, index, recipient).catch(error =>
+          this.fail(sessionId, `Holder ${index} failed to store its share`, error)
+        );
+      }
+    }
+  }
+
+  /**
+   * Store a recipient's new share and report the commitments it computed
+   */
+  private async acknowledge(
+    sessionId: string,
+    hosted: HostedResharing,
+    index: number,
+    recipient: ResharingRecipient
+  ): Promise<void> {
+    const { walletId, epoch } = hosted.plan!;
+    const { share, commitments } = recipient.combine();
+
+    hosted.stored = true;
+    await this.node.storeShare(walletId, epoch, index, share, sessionId);
+    this.transport.publish({ sessionId, type: 'ack', from: index, payload: { commitments } });
+  }
+
+  /**
+   * Collect the participants' acknowledgements
+   * @param message Protocol message of a coordinated session
+   */
+  private observe(message: TSSMessage): void {
+    const session = this.sessions.get(message.sessionId)!;
+    if (message.type === 'abort') {
+      this.finishSession(message.sessionId, new Error(`Resharing aborted: ${message.payload.reason}`));
+      return;
+    }
+    if (message.type !== 'ack' || !session.plan.participants.includes(message.from) || message.to !== undefined) {
+      return;
+    }
+
+    session.acks.set(message.from, JSON.stringify(message.payload.commitments));
+    if (session.acks.size < session.plan.participants.length) {
+      return;
+    }
+
+    const reported = new Set(session.acks.values());
+    if (reported.size !== 1) {
+      this.finishSession(message.sessionId, new Error('Participants disagree on the new commitments'));
+      return;
+    }
+    this.finishSession(message.sessionId, undefined, JSON.parse(Array.from(reported)[0]));
+  }
+
+  /**
+   * Settle a coordinated session
+   * @param sessionId Session identifier
+   * @param error Failure, if any
+   * @param commitments New commitments on success
+   */
+  private finishSession(sessionId: string, error?: Error, commitments?: string[]): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    clearTimeout(session.timer);
+    this.sessions.delete(sessionId);
+
+    if (error) {
+      logger.warn(`Resharing session ${sessionId} failed: ${error.message}`);
+      this.transport.publish({ sessionId, type: 'abort', from: 0, payload: { reason: error.message } });
+      session.reject(error);
+    } else {
+      session.resolve(commitments!);
+    }
+  }
+
+  /**
+   * Abort a session because a local holder failed
+   */
+  private fail(sessionId: string, reason: string, error: unknown): void {
+    logger.error(`${reason} in resharing session ${sessionId}:`, error);
+    this.transport.publish({ sessionId, type: 'abort', from: 0, payload: { reason } });
+  }
+
+  /**
+   * Forget an aborted session and delete the shares it stored
+   * @param sessionId Session identifier
+   */
+  private abandonHosted(sessionId: string): void {
+    const hosted = this.hosted.get(sessionId);
+    if (!hosted) {
+      return;
+    }
+
+    this.dropHosted(sessionId);
+    if (hosted.stored) {
+      const { walletId, epoch } = hosted.plan!;
+      this.node.discardShares(walletId, epoch, sessionId).catch(error =>
+        logger.error(`Failed to discard key shares of resharing session ${sessionId}:`, error)
+      );
+    }
+  }
+
+  /**
+   * Get or create the local state of a session
+   * @param sessionId Session identifier
+   */
+  private getHosted(sessionId: string): HostedResharing {
+    let hosted = this.hosted.get(sessionId);
+    if (!hosted) {
+      hosted = {
+        recipients: new Map(),
+        stored: false,
+        backlog: [],
+        announced: false,
+        started: false,
+        timer: setTimeout(() => this.hosted.delete(sessionId), this.timeoutMs),
+      };
+      this.hosted.set(sessionId, hosted);
+    }
+    return hosted;
+  }
+
+  /**
+   * Forget the local state of a session
+   * @param sessionId Session identifier
+   */
+  private dropHosted(sessionId: string): void {
+    const hosted = this.hosted.get(sessionId);
+    if (hosted) {
+      clearTimeout(hosted.timer);
+      this.hosted.delete(sessionId);
+    }
+  }
+}
@@ -0,0 +1,388 @@
+import { ethers } from 'ethers';
+import { logger } from '../../utils/logger';
+import { TSSMessage, TSSTransport } from './transport';
+import { TSSNode } from './node';
+import { commitPoint, computeR, SigningParty } from './signing';
+import { HolderSetup } from './holders';
+import { CURVE_ORDER, mod, scalarFromHex, scalarToHex } from './vss';
+
+// Signature request handled by the coordinator
+export interface SigningRequest {
+  walletId: string;
+  epoch: number;
+  address: string; // Address the signature must recover to
+  digest: string; // 32-byte hash to sign
+  parties: number[]; // Share indexes of the signing set
+}
+
+// Coordinator state of a session
+interface CoordinatedSession {
+  request: SigningRequest;
+  commitments: Map<number, string>;
+  deltas: Map<number, bigint>;
+  gammas: Map<number, string>;
+  shares: Map<number, bigint>;
+  resolve: (signature: string) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// Parties this node runs for a session
+interface HostedSession {
+  parties: Map<number, SigningParty>;
+  backlog: TSSMessage[]; // Messages received before the parties were started
+  announced: boolean;
+  started: boolean;
+  timer: NodeJS.Timeout;
+}
+
+// Upper bound on messages kept for a session that has not started locally
+const MAX_BACKLOG = 1000;
+
+// Messages of the signing rounds, delivered to the parties
+const ROUND_MESSAGES = new Set<TSSMessage['type']>(['round1', 'round2', 'round3', 'round4', 'round5']);
+
+/**
+ * Runs threshold signing sessions over a transport. Every node runs a
+ * ThresholdSigner: it starts signing parties for the shares it holds when a
+ * session is announced, and the node that announced the session assembles
+ * the signature from the parties' broadcasts.
+ */
+export class ThresholdSigner {
+  private sessions = new Map<string, CoordinatedSession>();
+  private hosted = new Map<string, HostedSession>();
+  private unsubscribe?: () => void;
+
+  constructor(
+    private readonly transport: TSSTransport,
+    private readonly node: TSSNode,
+    private readonly timeoutMs: number
+  ) {}
+
+  /**
+   * Start handling protocol messages
+   */
+  public start(): void {
+    if (!this.unsubscribe) {
+      this.unsubscribe = this.transport.subscribe(message => this.onMessage(message));
+    }
+  }
+
+  /**
+   * Stop handling messages and fail sessions in progress
+   */
+  public async stop(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+
+    for (const sessionId of Array.from(this.sessions.keys())) {
+      this.finishSession(sessionId, new Error('Threshold signer stopped'));
+    }
+    for (const [sessionId, hosted] of this.hosted) {
+      clearTimeout(hosted.timer);
+      this.hosted.delete(sessionId);
+    }
+    await this.transport.close();
+  }
+
+  /**
+   * Produce a signature over a digest with the parties of the signing set.
+   * The request is recorded first; parties only sign digests announced for
+   * a recorded request, and only once per request.
+   * @param request Signature request
+   * @returns 65-byte signature that recovers to the wallet address
+   */
+  public async sign(request: SigningRequest): Promise<string> {
+    const announcement = {
+      walletId: request.walletId,
+      epoch: request.epoch,
+      digest: request.digest,
+      parties: request.parties,
+    };
+    const sessionId = await this.node.createRequest(request.walletId, 'sign', announcement, this.timeoutMs);
+
+    return new Promise<string>((resolve, reject) => {
+      this.sessions.set(sessionId, {
+        request,
+        commitments: new Map(),
+        deltas: new Map(),
+        gammas: new Map(),
+        shares: new Map(),
+        resolve,
+        reject,
+        timer: setTimeout(
+          () => this.finishSession(sessionId, new Error('Threshold signing timed out')),
+          this.timeoutMs
+        ),
+      });
+
+      this.transport.publish({ sessionId, type: 'session', from: 0, payload: announcement });
+    });
+  }
+
+  /**
+   * Dispatch a message to the coordinator and the local parties of its session
+   * @param message Protocol message
+   */
+  private onMessage(message: TSSMessage): void {
+    if (this.sessions.has(message.sessionId)) {
+      this.observe(message);
+    }
+
+    if (message.type === 'session') {
+      this.startParties(message).catch(error => {
+        logger.error(`Failed to start signing parties for session ${message.sessionId}:`, error);
+        this.transport.publish({
+          sessionId: message.sessionId,
+          type: 'abort',
+          from: 0,
+          payload: { reason: 'Signing party failed to start' },
+        });
+      });
+      return;
+    }
+
+    if (message.type === 'abort') {
+      this.dropHosted(message.sessionId);
+      return;
+    }
+    if (!ROUND_MESSAGES.has(message.type)) {
+      return;
+    }
+
+    const hosted = this.getHosted(message.sessionId);
+    if (!hosted.started) {
+      if (hosted.backlog.length < MAX_BACKLOG) {
+        hosted.backlog.push(message);
+      }
+      return;
+    }
+
+    this.deliver(message.sessionId, hosted, message);
+  }
+
+  /**
+   * Start a party for every share of the signing set this node holds
+   * @param message Session announcement
+   */
+  private async startParties(message: TSSMessage): Promise<void> {
+    const { walletId, epoch, digest, parties } = message.payload;
+    if (
+      typeof walletId !== 'string' ||
+      !Number.isInteger(epoch) ||
+      !ethers.utils.isHexString(digest, 32) ||
+      !Array.isArray(parties) ||
+      parties.length < 2 ||
+      new Set(parties).size !== parties.length ||
+      parties.some(index => !Number.isSafeInteger(index) || index < 1)
+    ) {
+      throw new Error('Malformed session announcement');
+    }
+
+    const hosted = this.getHosted(message.sessionId);
+    if (hosted.announced) {
+      return;
+    }
+    hosted.announced = true;
+
+    if (!parties.some((index: number) => this.node.getLocalHolder(index))) {
+      this.dropHosted(message.sessionId);
+      return;
+    }
+    await this.node.authorize(message.sessionId, 'sign', { walletId, epoch, digest, parties });
+
+    const publish = (outgoing: TSSMessage) => this.transport.publish(outgoing);
+    let setups: Map<number, HolderSetup> | undefined;
+    for (const index of parties as number[]) {
+      const local = await this.node.loadShare(walletId, epoch, index);
+      if (!local) {
+        continue;
+      }
+
+      // Verified once per process; the proofs of the signing rounds rely on them
+      if (!setups) {
+        setups = new Map();
+        for (const party of parties as number[]) {
+          setups.set(party, await this.node.getSetup(party));
+        }
+      }
+
+      hosted.parties.set(
+        index,
+        new SigningParty({
+          sessionId: message.sessionId,
+          index,
+          parties,
+          share: local.share,
+          commitments: local.commitments,
+          digest: mod(BigInt(digest)),
+          holder: this.node.getLocalHolder(index)!,
+          setups,
+          publish,
+        })
+      );
+    }
+
+    if (hosted.parties.size === 0) {
+      this.dropHosted(message.sessionId);
+      return;
+    }
+
+    hosted.started = true;
+    for (const party of hosted.parties.values()) {
+      party.start();
+    }
+    for (const buffered of hosted.backlog.splice(0)) {
+      this.deliver(message.sessionId, hosted, buffered);
+    }
+
+    logger.info(`Started signing parties ${Array.from(hosted.parties.keys()).join(', ')} for session ${message.sessionId}`);
+  }
+
+  /**
+   * Deliver a message to the local parties of a session
+   */
+  private deliver(sessionId: string, hosted: HostedSession, message: TSSMessage): void {
+    for (const party of hosted.parties.values()) {
+      party.handle(message);
+    }
+    if (Array.from(hosted.parties.values()).every(party => party.finished)) {
+      this.dropHosted(sessionId);
+    }
+  }
+
+  /**
+   * Collect the broadcasts the coordinator needs to assemble the signature
+   * @param message Protocol message of a coordinated session
+   */
+  private observe(message: TSSMessage): void {
+    const session = this.sessions.get(message.sessionId)!;
+    const { parties } = session.request;
+    if (message.type === 'abort') {
+      this.finishSession(message.sessionId, new Error(`Signing aborted: ${message.payload.reason}`));
+      return;
+    }
+    if (!parties.includes(message.from) || message.to !== undefined) {
+      return;
+    }
+
+    try {
+      const { payload } = message;
+      switch (message.type) {
+        case 'round1':
+          session.commitments.set(message.from, String(payload.commitment));
+          break;
+        case 'round3':
+          session.deltas.set(message.from, scalarFromHex(payload.delta));
+          break;
+        case 'round4':
+          if (commitPoint(payload.gamma, payload.blind) !== session.commitments.get(message.from)) {
+            throw new Error(`Party ${message.from} opened a different commitment`);
+          }
+          session.gammas.set(message.from, String(payload.gamma));
+          break;
+        case 'round5':
+          session.shares.set(message.from, scalarFromHex(payload.s));
+          break;
+        default:
+          return;
+      }
+
+      if (session.shares.size === parties.length && session.gammas.size === parties.length) {
+        this.finishSession(message.sessionId, undefined, this.assemble(session));
+      }
+    } catch (error) {
+      this.finishSession(message.sessionId, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Assemble and check the signature of a session
+   * @param session Session with every party's broadcasts
+   * @returns Signature in low-s form
+   */
+  private assemble(session: CoordinatedSession): string {
+    const sum = (values: Iterable<bigint>) => Array.from(values).reduce((total, value) => mod(total + value), BigInt(0));
+
+    const R = computeR(Array.from(session.gammas.values()), sum(session.deltas.values())).toAffine();
+    const r = mod(R.x);
+    let s = sum(session.shares.values());
+    let recoveryParam = Number(R.y & BigInt(1));
+
+    // Ethereum only accepts the lower of s and n - s; negating s mirrors R
+    if (s > CURVE_ORDER / BigInt(2)) {
+      s = CURVE_ORDER - s;
+      recoveryParam ^= 1;
+    }
+
+    // r wraps around the group order with negligible probability; such a signature fails the check below
+    const signature = ethers.utils.joinSignature({
+      r: '0x' + scalarToHex(r),
+      s: '0x' + scalarToHex(s),
+      recoveryParam,
+    });
+
+    if (ethers.utils.recoverAddress(session.request.digest, signature) !== session.request.address) {
+      throw new Error('Assembled signature does not match the wallet key');
+    }
+    return signature;
+  }
+
+  /**
+   * Settle a coordinated session
+   * @param sessionId Session identifier
+   * @param error Failure, if any
+   * @param signature Signature on success
+   */
+  private finishSession(sessionId: string, error?: Error, signature?: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    clearTimeout(session.timer);
+    this.sessions.delete(sessionId);
+    this.node.completeRequest(sessionId).catch(cause =>
+      logger.error(`Failed to delete request of signing session ${sessionId}:`, cause)
+    );
+
+    if (error) {
+      logger.warn(`Threshold signing session ${sessionId} failed: ${error.message}`);
+      this.transport.publish({ sessionId, type: 'abort', from: 0, payload: { reason: error.message } });
+      session.reject(error);
+    } else {
+      session.resolve(signature!);
+    }
+  }
+
+  /**
+   * Get or create the local state of a session
+   * @param sessionId Session identifier
+   */
+  private getHosted(sessionId: string): HostedSession {
+    let hosted = this.hosted.get(sessionId);
+    if (!hosted) {
+      hosted = {
+        parties: new Map(),
+        backlog: [],
+        announced: false,
+        started: false,
+        timer: setTimeout(() => this.hosted.delete(sessionId), this.timeoutMs),
+      };
+      this.hosted.set(sessionId, hosted);
+    }
+    return hosted;
+  }
+
+  /**
+   * Forget the local state of a session
+   * @param sessionId Session identifier
+   */
+  private dropHosted(sessionId: string): void {
+    const hosted = this.hosted.get(sessionId);
+    if (hosted) {
+      clearTimeout(hosted.timer);
+      this.hosted.delete(sessionId);
+    }
+  }
+}
@@ -0,0 +1,260 @@
+import crypto from 'crypto';
+import https from 'https';
+import { TLSSocket } from 'tls';
+import WebSocket, { WebSocketServer } from 'ws';
+import { logger } from '../../utils/logger';
+
+// Protocol message
+export interface TSSMessage {
+  sessionId: string;
+  type:
+    | 'session' // Signing
+    | 'round1'
+    | 'round2'
+    | 'round3'
+    | 'round4'
+    | 'round5'
+    | 'reshare' // Key generation, refresh and redistribution
+    | 'deal'
+    | 'ack'
+    | 'commit'
+    | 'abort';
+  from: number; // Share index of the sending party; 0 for the coordinator
+  to?: number; // Recipient of a point-to-point message; broadcast when absent
+  payload: Record<string, any>;
+}
+
+export type TSSMessageHandler = (message: TSSMessage) => void;
+
+/**
+ * Node-level message bus between protocol parties. Every published message is
+ * delivered to every node, including the publishing one; nodes route it to
+ * the parties they host.
+ */
+export interface TSSTransport {
+  publish(message: TSSMessage): void;
+  subscribe(handler: TSSMessageHandler): () => void;
+  close(): Promise<void>;
+}
+
+/**
+ * Transport for parties running in one process, e.g. development or tests
+ */
+export class InProcessTransport implements TSSTransport {
+  private handlers = new Set<TSSMessageHandler>();
+
+  public publish(message: TSSMessage): void {
+    // Deliver asynchronously and as a copy, like a network would
+    const frame = JSON.stringify(message);
+    for (const handler of this.handlers) {
+      setImmediate(() => handler(JSON.parse(frame)));
+    }
+  }
+
+  public subscribe(handler: TSSMessageHandler): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  public async close(): Promise<void> {
+    this.handlers.clear();
+  }
+}
+
+// WebSocket transport options
+export interface WebSocketTransportOptions {
+  nodeId: string; // Must be the common name of the node's certificate
+  port?: number; // Port to accept peer connections on; outbound only when absent
+  peers: string[]; // wss:// URLs of every other node
+  tls: {
+    cert: string; // PEM certificate of this node, used as server and client certificate
+    key: string; // PEM private key of the certificate
+    ca: string; // PEM CA that issues the certificates of all nodes
+  };
+  maxClockSkewMs?: number;
+}
+
+// Frame exchanged between nodes
+interface TSSFrame {
+  id: string; // Unique per frame; a repeated ID is a replay
+  nodeId: string;
+  sentAt: number;
+  message: TSSMessage;
+}
+
+// Reconnect delays for peer connections
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// Default bound on the clock difference between nodes
+const DEFAULT_CLOCK_SKEW_MS = 10000;
+
+/**
+ * Transport between backend nodes over WebSockets with mutual TLS. Nodes
+ * form a full mesh: each node dials every peer and only sends on the
+ * connections it dialled. Both sides present certificates issued by the
+ * nodes' CA; a frame is only accepted from the node named by the client
+ * certificate of the connection it arrived on, within the allowed clock
+ * skew, and only once.
+ */
+export class WebSocketTransport implements TSSTransport {
+  private local = new InProcessTransport();
+  private server?: https.Server;
+  private sockets?: WebSocketServer;
+  private connections = new Map<string, WebSocket>();
+  private reconnectTimers = new Map<string, NodeJS.Timeout>();
+  private seen = new Map<string, number>(); // Frame IDs received, until they would be dropped as stale anyway
+  private closed = false;
+
+  constructor(private readonly options: WebSocketTransportOptions) {
+    const { cert, key, ca } = options.tls ?? {};
+    if (!cert || !key || !ca) {
+      throw new Error('A certificate, its key and the CA are required for the WebSocket transport');
+    }
+    const insecure = options.peers.find(peer => !peer.startsWith('wss://'));
+    if (insecure) {
+      throw new Error(`TSS peer ${insecure} must be a wss:// URL`);
+    }
+
+    if (options.port) {
+      this.server = https.createServer({ cert, key, ca, requestCert: true, rejectUnauthorized: true });
+      this.sockets = new WebSocketServer({ server: this.server });
+      this.sockets.on('connection', (socket, request) => {
+        const peerId = (request.socket as TLSSocket).getPeerCertificate().subject?.CN;
+        if (typeof peerId !== 'string' || !peerId) {
+          socket.close();
+          return;
+        }
+        socket.on('message', data => this.receive(data.toString(), peerId));
+      });
+      this.server.listen(options.port);
+      logger.info(`TSS transport of node ${options.nodeId} listening on port ${options.port}`);
+    }
+
+    for (const peer of options.peers) {
+      this.connect(peer, RECONNECT_MIN_MS);
+    }
+  }
+
+  public publish(message: TSSMessage): void {
+    this.local.publish(message);
+
+    const frame: TSSFrame = { id: crypto.randomUUID(), nodeId: this.options.nodeId, sentAt: Date.now(), message };
+    const data = JSON.stringify(frame);
+
+    for (const [peer, socket] of this.connections) {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(data);
+      } else {
+        logger.warn(`TSS peer ${peer} is not connected; message ${message.type} of session ${message.sessionId} not sent`);
+      }
+    }
+  }
+
+  public subscribe(handler: TSSMessageHandler): () => void {
+    return this.local.subscribe(handler);
+  }
+
+  public async close(): Promise<void> {
+    this.closed = true;
+    for (const timer of this.reconnectTimers.values()) {
+      clearTimeout(timer);
+    }
+    for (const socket of this.connections.values()) {
+      socket.close();
+    }
+    this.connections.clear();
+    await this.local.close();
+
+    const { sockets, server } = this;
+    if (sockets && server) {
+      for (const client of sockets.clients) {
+        client.terminate();
+      }
+      await new Promise<void>(resolve => sockets.close(() => resolve()));
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Dial a peer and keep the connection open
+   * @param peer Peer URL
+   * @param delay Delay before the next attempt if this one fails
+   */
+  private connect(peer: string, delay: number): void {
+    if (this.closed) {
+      return;
+    }
+
+    const { cert, key, ca } = this.options.tls;
+    const socket = new WebSocket(peer, { cert, key, ca, rejectUnauthorized: true });
+    this.connections.set(peer, socket);
+
+    socket.on('open', () => {
+      logger.info(`TSS node ${this.options.nodeId} connected to ${peer}`);
+      delay = RECONNECT_MIN_MS;
+    });
+    socket.on('error', error => {
+      logger.warn(`TSS connection to ${peer} failed: ${error.message}`);
+    });
+    socket.on('close', () => {
+      if (this.closed) {
+        return;
+      }
+      this.reconnectTimers.set(
+        peer,
+        setTimeout(() => this.connect(peer, Math.min(delay * 2, RECONNECT_MAX_MS)), delay)
+      );
+    });
+  }
+
+  /**
+   * Check and deliver a frame received from a peer
+   * @param data Raw frame
+   * @param peerId Node named by the connection's client certificate
+   */
+  private receive(data: string, peerId: string): void {
+    let frame: TSSFrame;
+    try {
+      frame = JSON.parse(data);
+    } catch {
+      logger.warn(`Dropping malformed TSS frame from ${peerId}`);
+      return;
+    }
+
+    if (!frame || typeof frame.id !== 'string' || typeof frame.sentAt !== 'number' || !frame.message) {
+      logger.warn(`Dropping malformed TSS frame from ${peerId}`);
+      return;
+    }
+    if (frame.nodeId !== peerId) {
+      logger.warn(`Dropping TSS frame claiming to be from ${frame.nodeId} on the connection of ${peerId}`);
+      return;
+    }
+
+    const now = Date.now();
+    const skew = this.options.maxClockSkewMs ?? DEFAULT_CLOCK_SKEW_MS;
+    if (Math.abs(now - frame.sentAt) > skew) {
+      logger.warn(`Dropping stale TSS frame from ${peerId}`);
+      return;
+    }
+
+    // IDs are kept in arrival order, so expired ones are at the front
+    for (const [id, expiresAt] of this.seen) {
+      if (expiresAt > now) {
+        break;
+      }
+      this.seen.delete(id);
+    }
+    const replayKey = `${peerId}:${frame.id}`;
+    if (this.seen.has(replayKey)) {
+      logger.warn(`Dropping replayed TSS frame ${frame.id} from ${peerId}`);
+      return;
+    }
+    // A replay arriving 2·skew after the original is dropped as stale
+    this.seen.set(replayKey, now + 2 * skew);
+
+    this.local.publish(frame.message);
+  }
+}
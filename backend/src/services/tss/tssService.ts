@@ -1,20 +1,83 @@
+import fs from 'fs';
 import { ethers } from 'ethers';
-import crypto from 'crypto';
 import { logger } from '../../utils/logger';
+import { getDatabase, RyzerWalletDB } from '../../config/database';
+import { InProcessTransport, TSSTransport, WebSocketTransport, WebSocketTransportOptions } from './transport';
+import { ThresholdSigner } from './thresholdSigner';
+import { ThresholdResharer } from './thresholdResharer';
+import { ResharingPlan } from './resharing';
+import { LocalTSSNode } from './node';
+import { scalarFromHex, verifyShare } from './vss';
+
+type TSSKey = RyzerWalletDB['tss_keys']['value'];
+
+// TSS service options
+export interface TSSOptions {
+  nodeId: string;
+  shareIndexes: number[]; // Share indexes this node holds
+  shareDirectory: string; // Node-local directory of the share store
+  sharePassphrase: string; // Seals the holders in the share store
+  transport: 'in-process' | 'websocket' | TSSTransport; // Or a transport instance, e.g. one shared with other nodes of a test
+  port?: number; // Port accepting connections from other nodes
+  peers: string[]; // wss:// URLs of every other node
+  tls: WebSocketTransportOptions['tls']; // Node certificate and the nodes' CA, for mutual TLS between nodes
+  timeoutMs: number; // Timeout of signing and resharing sessions
+}
+
+/**
+ * Read a PEM file named by an environment variable
+ * @param path File path; empty when not configured
+ */
+const readPem = (path?: string): string => (path ? fs.readFileSync(path, 'utf8') : '');
+
+/**
+ * TSS options from the TSS_* environment variables
+ */
+export const tssOptionsFromEnv = (): TSSOptions => ({
+  nodeId: process.env.TSS_NODE_ID || 'node-1',
+  shareIndexes: (process.env.TSS_SHARE_INDEXES || '')
+    .split(',')
+    .map(index => index.trim())
+    .filter(Boolean)
+    .map(index => parseInt(index, 10)),
+  shareDirectory: process.env.TSS_SHARE_DIR || './data/tss-shares',
+  sharePassphrase: process.env.TSS_SHARE_PASSPHRASE || '',
+  transport: process.env.TSS_TRANSPORT === 'websocket' ? 'websocket' : 'in-process',
+  port: process.env.TSS_PORT ? parseInt(process.env.TSS_PORT, 10) : undefined,
+  peers: (process.env.TSS_PEERS || '').split(',').map(peer => peer.trim()).filter(Boolean),
+  tls: {
+    cert: readPem(process.env.TSS_TLS_CERT),
+    key: readPem(process.env.TSS_TLS_KEY),
+    ca: readPem(process.env.TSS_TLS_CA),
+  },
+  timeoutMs: parseInt(process.env.TSS_SIGNING_TIMEOUT_MS || '30000', 10),
+});
 
 /**
  * Threshold Signature Scheme (TSS) Service
  * 
- * This service implements a simulated TSS for distributed key management and signing.
- * In a production environment, this would use a proper TSS library with secure
- * multi-party computation protocols.
+ * Wallet keys are Shamir-shared over the secp256k1 group order with Feldman
+ * commitments, so every share can be verified. Each node holds the share
+ * indexes it is configured with (TSS_SHARE_INDEXES) in its own share store,
+ * sealed under each holder's own key; no node can load a share it was not
+ * given. Keys are generated, refreshed and redistributed by dealing sessions
+ * between the holders (see resharing.ts), and signatures are produced by a
+ * multi-party threshold ECDSA protocol (see signing.ts), so neither the key
+ * nor more than one share is ever assembled in one place. Every new epoch is
+ * committed atomically and the public key never changes.
+ *
+ * Parties exchange messages over an in-process transport, where one process
+ * runs every holder (development and tests), or over WebSockets with mutual
+ * TLS between backend nodes when TSS_TRANSPORT=websocket. Every session is
+ * bound to a request recorded in the database, which each node checks
+ * before taking part.
  */
 export class TSSService {
   private static instance: TSSService;
-  private keyShares: Map<string, Map<number, Buffer>> = new Map();
-  private thresholds: Map<string, number> = new Map();
-  private publicKeys: Map<string, string> = new Map();
   private isInitialized: boolean = false;
+  private node?: LocalTSSNode;
+  private signer?: ThresholdSigner;
+  private resharer?: ThresholdResharer;
 
   private constructor() {}
 
@@ -30,20 +93,24 @@ export class TSSService {
 
   /**
    * Initialize the TSS service
+   * @param options Service options
    */
-  public async initialize(): Promise<boolean> {
+  public async initialize(options: TSSOptions = tssOptionsFromEnv()): Promise<boolean> {
     try {
       if (this.isInitialized) {
         return true;
       }
 
-      logger.info('Initializing TSS service');
-      
-      // In a real implementation, this would:
-      // 1. Set up secure channels between participants
-      // 2. Initialize cryptographic parameters
-      // 3. Establish network connections for MPC protocols
-      
+      logger.info(`Initializing TSS service on node ${options.nodeId} holding shares ${options.shareIndexes.join(', ') || 'none'}`);
+
+      this.node = await LocalTSSNode.open(options);
+      const transport = this.createTransport(options);
+
+      this.signer = new ThresholdSigner(transport, this.node, options.timeoutMs);
+      this.resharer = new ThresholdResharer(transport, this.node, options.timeoutMs);
+      this.signer.start();
+      this.resharer.start();
+
       this.isInitialized = true;
       logger.info('TSS service initialized successfully');
       return true;
@@ -58,7 +125,7 @@ export class TSSService {
    * @param walletId Wallet identifier
    * @param threshold Minimum number of shares needed to reconstruct the key
    * @param totalShares Total number of shares to generate
-   * @returns The public key associated with the distributed private key
+   * @returns The address of the distributed key
    */
   public async generateDistributedKey(
     walletId: string,
@@ -66,34 +133,54 @@ export class TSSService {
     totalShares: number
   ): Promise<string> {
     this.ensureInitialized();
-    
-    if (threshold > totalShares) {
-      throw new Error('Threshold cannot be greater than total shares');
-    }
-    
-    if (threshold < 2) {
-      throw new Error('Threshold must be at least 2');
-    }
+    this.validateThreshold(threshold, totalShares);
     
     try {
-      // Generate a random wallet
-      const wallet = ethers.Wallet.createRandom();
-      const privateKey = wallet.privateKey.slice(2); // Remove '0x' prefix
-      
-      // Store the public key
-      this.publicKeys.set(walletId, wallet.address);
-      
-      // Store the threshold
-      this.thresholds.set(walletId, threshold);
-      
-      // Create shares using Shamir's Secret Sharing (simulated)
-      const shares = this.createShares(Buffer.from(privateKey, 'hex'), threshold, totalShares);
-      
-      // Store the shares
-      this.keyShares.set(walletId, shares);
-      
-      logger.info(`Generated distributed key for wallet ${walletId} with threshold ${threshold}/${totalShares}`);
-      return wallet.address;
+      const db = await getDatabase();
+
+      return await db.withExclusiveLock(this.lockName(walletId), async () => {
+        if (await db.get('tss_keys', walletId)) {
+          throw new Error('Wallet already has a distributed key');
+        }
+
+        const participants = Array.from({ length: totalShares }, (_, i) => i + 1);
+        const local = participants.filter(index => this.node!.getLocalHolder(index));
+        if (local.length >= threshold) {
+          logger.warn(`Node ${this.node!.nodeId} alone holds ${local.length} shares of wallet ${walletId}, enough to sign`);
+        }
+
+        const plan: ResharingPlan = {
+          mode: 'keygen',
+          walletId,
+          epoch: 0,
+          commitments: [],
+          dealers: participants,
+          threshold,
+          participants,
+        };
+
+        let address = '';
+        await this.resharer!.reshare(plan, async commitments => {
+          const publicKey = '0x' + commitments[0];
+          const now = Date.now();
+
+          address = ethers.utils.computeAddress(publicKey);
+          await db.put('tss_keys', {
+            walletId,
+            address,
+            publicKey,
+            threshold,
+            participants,
+            commitments,
+            epoch: 0,
+            createdAt: now,
+            updatedAt: now,
+          });
+        });
+
+        logger.info(`Generated distributed key for wallet ${walletId} with threshold ${threshold}/${totalShares}`);
+        return address;
+      });
     } catch (error) {
       logger.error(`Failed to generate distributed key for wallet ${walletId}:`, error);
       throw new Error('Failed to generate distributed key');
@@ -115,42 +202,8 @@ export class TSSService {
     this.ensureInitialized();
     
     try {
-      // Get wallet shares
-      const shares = this.keyShares.get(walletId);
-      if (!shares) {
-        throw new Error('Wallet not found');
-      }
-      
-      // Get threshold
-      const threshold = this.thresholds.get(walletId);
-      if (!threshold) {
-        throw new Error('Threshold not found for wallet');
-      }
-      
-      // Ensure we have enough shares
-      if (shareIndexes.length < threshold) {
-        throw new Error(`Not enough shares provided. Need at least ${threshold}`);
-      }
-      
-      // Collect the specified shares
-      const selectedShares = new Map<number, Buffer>();
-      for (const index of shareIndexes) {
-        const share = shares.get(index);
-        if (!share) {
-          throw new Error(`Share with index ${index} not found`);
-        }
-        selectedShares.set(index, share);
-      }
-      
-      // Reconstruct the private key from shares
-      const privateKey = this.reconstructSecret(selectedShares, threshold);
-      
-      // Create a wallet with the reconstructed private key
-      const wallet = new ethers.Wallet('0x' + privateKey.toString('hex'));
-      
-      // Sign the message
-      const signature = await wallet.signMessage(message);
-      
+      const signature = await this.thresholdSign(walletId, ethers.utils.hashMessage(message), shareIndexes);
+
       logger.info(`Signed message for wallet ${walletId} using ${shareIndexes.length} shares`);
       return signature;
     } catch (error) {
@@ -168,48 +221,23 @@ export class TSSService {
    */
   public async signTransaction(
     walletId: string,
-    transaction: ethers.TransactionRequest,
+    transaction: ethers.providers.TransactionRequest,
     shareIndexes: number[]
   ): Promise<string> {
     this.ensureInitialized();
     
     try {
-      // Get wallet shares
-      const shares = this.keyShares.get(walletId);
-      if (!shares) {
-        throw new Error('Wallet not found');
+      const key = await this.getKey(walletId);
+      if (transaction.from && ethers.utils.getAddress(transaction.from) !== key.address) {
+        throw new Error('Transaction from address does not match the wallet');
       }
-      
-      // Get threshold
-      const threshold = this.thresholds.get(walletId);
-      if (!threshold) {
-        throw new Error('Threshold not found for wallet');
-      }
-      
-      // Ensure we have enough shares
-      if (shareIndexes.length < threshold) {
-        throw new Error(`Not enough shares provided. Need at least ${threshold}`);
-      }
-      
-      // Collect the specified shares
-      const selectedShares = new Map<number, Buffer>();
-      for (const index of shareIndexes) {
-        const share = shares.get(index);
-        if (!share) {
-          throw new Error(`Share with index ${index} not found`);
-        }
-        selectedShares.set(index, share);
-      }
-      
-      // Reconstruct the private key from shares
-      const privateKey = this.reconstructSecret(selectedShares, threshold);
-      
-      // Create a wallet with the reconstructed private key
-      const wallet = new ethers.Wallet('0x' + privateKey.toString('hex'));
-      
-      // Sign the transaction
-      const signedTx = await wallet.signTransaction(transaction);
-      
+
+      const { from, ...unsigned } = await ethers.utils.resolveProperties(transaction);
+      const tx = unsigned as ethers.UnsignedTransaction;
+      const digest = ethers.utils.keccak256(ethers.utils.serializeTransaction(tx));
+      const signature = await this.thresholdSign(walletId, digest, shareIndexes);
+      const signedTx = ethers.utils.serializeTransaction(tx, signature);
+
       logger.info(`Signed transaction for wallet ${walletId} using ${shareIndexes.length} shares`);
       return signedTx;
     } catch (error) {
@@ -223,115 +251,249 @@ export class TSSService {
    * @param walletId Wallet identifier
    * @returns Public key (address)
    */
-  public getPublicKey(walletId: string): string {
-    const publicKey = this.publicKeys.get(walletId);
-    if (!publicKey) {
-      throw new Error('Wallet not found');
+  public async getPublicKey(walletId: string): Promise<string> {
+    const key = await this.getKey(walletId);
+    return key.address;
+  }
+
+  /**
+   * Get the public data share holders need to verify their shares
+   * @param walletId Wallet identifier
+   * @returns Threshold, share indexes, commitments and epoch
+   */
+  public async getVerificationData(
+    walletId: string
+  ): Promise<Pick<TSSKey, 'publicKey' | 'threshold' | 'participants' | 'commitments' | 'epoch'>> {
+    const { publicKey, threshold, participants, commitments, epoch } = await this.getKey(walletId);
+    return { publicKey, threshold, participants, commitments, epoch };
+  }
+
+  /**
+   * Verify a share against the wallet's Feldman commitments
+   * @param walletId Wallet identifier
+   * @param index Share index
+   * @param share Hex-encoded share held by the participant; defaults to the share this node holds
+   * @returns Whether the share is consistent with the commitments
+   */
+  public async verifyShare(walletId: string, index: number, share?: string): Promise<boolean> {
+    const key = await this.getKey(walletId);
+    if (!key.participants.includes(index)) {
+      return false;
+    }
+
+    let value: bigint;
+    try {
+      if (share !== undefined) {
+        value = scalarFromHex(share);
+      } else {
+        this.ensureInitialized();
+        const local = await this.node!.loadShare(walletId, key.epoch, index);
+        if (!local) {
+          return false;
+        }
+        value = local.share;
+      }
+    } catch {
+      return false;
     }
-    return publicKey;
+
+    return verifyShare(index, value, key.commitments);
   }
 
   /**
-   * Create shares using Shamir's Secret Sharing (simulated)
-   * @param secret Secret to share
-   * @param threshold Minimum number of shares needed to reconstruct
-   * @param totalShares Total number of shares to generate
-   * @returns Map of share index to share value
+   * Proactively refresh all shares of a wallet: every holder re-deals its
+   * share to all holders. The key and its address stay the same, but shares
+   * from earlier epochs can no longer be combined with the new ones.
+   * @param walletId Wallet identifier
+   * @returns New epoch
    */
-  private createShares(secret: Buffer, threshold: number, totalShares: number): Map<number, Buffer> {
-    const shares = new Map<number, Buffer>();
-    
-    // In a real implementation, this would use a proper Shamir's Secret Sharing library
-    // This is a simplified simulation for demonstration purposes
-    
-    // Generate random coefficients for the polynomial
-    const coefficients: Buffer[] = [secret]; // a0 = secret
-    for (let i = 1; i < threshold; i++) {
-      coefficients.push(crypto.randomBytes(secret.length));
+  public async refreshShares(walletId: string): Promise<number> {
+    this.ensureInitialized();
+
+    try {
+      const db = await getDatabase();
+
+      return await db.withExclusiveLock(this.lockName(walletId), async () => {
+        const key = await this.getKey(walletId);
+        const epoch = await this.redistribute(key, key.participants, key.threshold, key.participants);
+
+        logger.info(`Refreshed key shares of wallet ${walletId}, epoch ${epoch}`);
+        return epoch;
+      });
+    } catch (error) {
+      logger.error(`Failed to refresh key shares of wallet ${walletId}:`, error);
+      throw new Error('Failed to refresh key shares');
     }
-    
-    // Generate shares
-    for (let x = 1; x <= totalShares; x++) {
-      // Evaluate polynomial at point x
-      const share = Buffer.alloc(secret.length);
-      
-      // Start with the constant term (the secret)
-      secret.copy(share);
-      
-      // Add the other terms
-      for (let i = 1; i < threshold; i++) {
-        const term = Buffer.alloc(secret.length);
-        coefficients[i].copy(term);
-        
-        // Multiply by x^i (simplified)
-        let xPower = 1;
-        for (let j = 0; j < i; j++) {
-          xPower *= x;
+  }
+
+  /**
+   * Change the threshold and number of shares of a wallet (t-of-n to t'-of-n')
+   * without reconstructing the key: the given holders re-deal their shares
+   * to the new holders. The address stays the same.
+   * @param walletId Wallet identifier
+   * @param newThreshold New threshold
+   * @param newTotalShares New total number of shares
+   * @param shareIndexes Current shares taking part; at least the current threshold
+   * @returns New epoch
+   */
+  public async reshare(
+    walletId: string,
+    newThreshold: number,
+    newTotalShares: number,
+    shareIndexes: number[]
+  ): Promise<number> {
+    this.ensureInitialized();
+    this.validateThreshold(newThreshold, newTotalShares);
+
+    try {
+      const db = await getDatabase();
+
+      return await db.withExclusiveLock(this.lockName(walletId), async () => {
+        const key = await this.getKey(walletId);
+        const dealers = Array.from(new Set(shareIndexes)).slice(0, key.threshold);
+        if (dealers.length < key.threshold) {
+          throw new Error(`Not enough shares provided. Need at least ${key.threshold}`);
         }
-        
-        // Add to the share (simplified)
-        for (let j = 0; j < share.length; j++) {
-          share[j] = (share[j] + (term[j] * xPower) % 256) % 256;
+        if (dealers.some(index => !key.participants.includes(index))) {
+          throw new Error('Share index is not a participant of the wallet');
         }
-      }
-      
-      shares.set(x, share);
+
+        const participants = Array.from({ length: newTotalShares }, (_, i) => i + 1);
+        const epoch = await this.redistribute(key, dealers, newThreshold, participants);
+
+        logger.info(
+          `Reshared key of wallet ${walletId} from ${key.threshold}/${key.participants.length} ` +
+          `to ${newThreshold}/${newTotalShares}, epoch ${epoch}`
+        );
+        return epoch;
+      });
+    } catch (error) {
+      logger.error(`Failed to reshare key of wallet ${walletId}:`, error);
+      throw new Error('Failed to reshare key');
     }
-    
-    return shares;
   }
 
   /**
-   * Reconstruct the secret from shares using Lagrange interpolation (simulated)
-   * @param shares Map of share index to share value
-   * @param threshold Minimum number of shares needed
-   * @returns Reconstructed secret
+   * Run the threshold signing protocol over a digest
+   * @param walletId Wallet identifier
+   * @param digest 32-byte hash to sign
+   * @param shareIndexes Indexes of the shares to sign with; the first threshold of them take part
+   * @returns Signature that recovers to the wallet address
    */
-  private reconstructSecret(shares: Map<number, Buffer>, threshold: number): Buffer {
-    // Ensure we have enough shares
-    if (shares.size < threshold) {
-      throw new Error(`Not enough shares provided. Need at least ${threshold}`);
+  private async thresholdSign(walletId: string, digest: string, shareIndexes: number[]): Promise<string> {
+    const key = await this.getKey(walletId);
+
+    const parties = Array.from(new Set(shareIndexes)).slice(0, key.threshold);
+    if (parties.length < key.threshold) {
+      throw new Error(`Not enough shares provided. Need at least ${key.threshold}`);
     }
-    
-    // Get the first share to determine the secret length
-    const firstShare = shares.values().next().value;
-    const secretLength = firstShare.length;
-    
-    // Initialize result buffer
-    const result = Buffer.alloc(secretLength);
-    
-    // In a real implementation, this would use proper Lagrange interpolation
-    // This is a simplified simulation for demonstration purposes
-    
-    // Get the first 'threshold' shares
-    const shareEntries = Array.from(shares.entries()).slice(0, threshold);
-    
-    // Perform Lagrange interpolation at x=0 to recover the secret
-    for (let i = 0; i < threshold; i++) {
-      const [xi, yi] = shareEntries[i];
-      
-      // Calculate Lagrange basis polynomial
-      let numerator = 1;
-      let denominator = 1;
-      
-      for (let j = 0; j < threshold; j++) {
-        if (i === j) continue;
-        
-        const xj = shareEntries[j][0];
-        numerator *= (0 - xj);
-        denominator *= (xi - xj);
-      }
-      
-      // Calculate the coefficient
-      const coefficient = numerator / denominator;
-      
-      // Add contribution to the result
-      for (let j = 0; j < secretLength; j++) {
-        result[j] = (result[j] + Math.round(yi[j] * coefficient) % 256) % 256;
+    if (parties.some(index => !key.participants.includes(index))) {
+      throw new Error('Share index is not a participant of the wallet');
+    }
+
+    return this.signer!.sign({ walletId, epoch: key.epoch, address: key.address, digest, parties });
+  }
+
+  /**
+   * Run a dealing session from the current holders to new ones and commit
+   * the new epoch. Holders of the old epoch prune their shares once the new
+   * one is committed.
+   * @param key Current key
+   * @param dealers Current holders re-dealing their shares; at least the current threshold
+   * @param threshold New threshold
+   * @param participants New share indexes
+   * @returns New epoch
+   */
+  private async redistribute(key: TSSKey, dealers: number[], threshold: number, participants: number[]): Promise<number> {
+    const db = await getDatabase();
+    const epoch = key.epoch + 1;
+    const plan: ResharingPlan = {
+      mode: 'reshare',
+      walletId: key.walletId,
+      epoch,
+      commitments: key.commitments,
+      dealers,
+      threshold,
+      participants,
+    };
+
+    await this.resharer!.reshare(plan, async commitments => {
+      if (commitments[0] !== key.commitments[0]) {
+        throw new Error('New shares do not belong to the wallet key');
       }
+
+      await db.put('tss_keys', {
+        ...key,
+        threshold,
+        participants,
+        commitments,
+        epoch,
+        updatedAt: Date.now(),
+      });
+    });
+
+    return epoch;
+  }
+
+  /**
+   * Create the transport between protocol parties
+   * @param options Service options
+   */
+  private createTransport(options: TSSOptions): TSSTransport {
+    if (typeof options.transport === 'object') {
+      return options.transport;
+    }
+    if (options.transport !== 'websocket') {
+      return new InProcessTransport();
+    }
+
+    return new WebSocketTransport({
+      nodeId: options.nodeId,
+      port: options.port,
+      peers: options.peers,
+      tls: options.tls,
+    });
+  }
+
+  /**
+   * Get the key record of a wallet
+   * @param walletId Wallet identifier
+   * @returns Key record
+   */
+  private async getKey(walletId: string): Promise<TSSKey> {
+    const db = await getDatabase();
+    const key = await db.get('tss_keys', walletId);
+    if (!key) {
+      throw new Error('Wallet not found');
+    }
+    return key;
+  }
+
+  /**
+   * Check threshold parameters
+   * @param threshold Minimum number of shares needed to reconstruct the key
+   * @param totalShares Total number of shares
+   */
+  private validateThreshold(threshold: number, totalShares: number): void {
+    if (!Number.isInteger(threshold) || !Number.isInteger(totalShares)) {
+      throw new Error('Threshold and total shares must be integers');
+    }
+
+    if (threshold > totalShares) {
+      throw new Error('Threshold cannot be greater than total shares');
     }
     
-    return result;
+    if (threshold < 2) {
+      throw new Error('Threshold must be at least 2');
+    }
+  }
+
+  /**
+   * Name of the lock serializing key changes of a wallet
+   * @param walletId Wallet identifier
+   */
+  private lockName(walletId: string): string {
+    return `tss:${walletId}`;
   }
 
   /**
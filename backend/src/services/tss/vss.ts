@@ -0,0 +1,316 @@
+import crypto from 'crypto';
+import { secp256k1 } from '@noble/curves/secp256k1';
+
+/**
+ * Feldman verifiable secret sharing over the secp256k1 group order.
+ *
+ * A secret s is shared with a random polynomial f of degree t - 1 where
+ * f(0) = s; share i is f(i). The dealer publishes commitments C_j = a_j·G to
+ * the coefficients, so holder i can check f(i)·G = Σ C_j·i^j without learning
+ * anything about the other shares. C_0 = s·G is the public key.
+ */
+
+type Point = InstanceType<typeof secp256k1.ProjectivePoint>;
+
+const Point = secp256k1.ProjectivePoint;
+
+// Order of the secp256k1 group; all share arithmetic is modulo this prime
+export const CURVE_ORDER = secp256k1.CURVE.n;
+
+// Shares and commitments produced by a dealing
+export interface Dealing {
+  shares: Map<number, bigint>;
+  commitments: string[]; // Compressed points, C_0 first
+}
+
+/**
+ * Reduce a value modulo the group order
+ * @param value Value to reduce
+ */
+export const mod = (value: bigint): bigint => {
+  const result = value % CURVE_ORDER;
+  return result >= BigInt(0) ? result : result + CURVE_ORDER;
+};
+
+/**
+ * Invert a value modulo the group order
+ * @param value Non-zero value
+ * @returns Multiplicative inverse
+ */
+export const invert = (value: bigint): bigint => {
+  let [a, b] = [mod(value), CURVE_ORDER];
+  let [x, y] = [BigInt(1), BigInt(0)];
+  if (a === BigInt(0)) {
+    throw new Error('Cannot invert zero');
+  }
+  while (a > BigInt(1)) {
+    const quotient = b / a;
+    [a, b] = [b % a, a];
+    [x, y] = [y - quotient * x, x];
+  }
+  return mod(x);
+};
+
+/**
+ * Draw a uniformly random non-zero scalar
+ * @returns Scalar in [1, n - 1]
+ */
+export const randomScalar = (): bigint => {
+  for (;;) {
+    const value = BigInt('0x' + crypto.randomBytes(32).toString('hex'));
+    if (value > BigInt(0) && value < CURVE_ORDER) {
+      return value;
+    }
+  }
+};
+
+/**
+ * Encode a scalar as 32 bytes of hex
+ * @param value Scalar
+ */
+export const scalarToHex = (value: bigint): string => value.toString(16).padStart(64, '0');
+
+/**
+ * Decode a scalar from hex, rejecting values outside the field
+ * @param hex Hex-encoded scalar, with or without 0x prefix
+ */
+export const scalarFromHex = (hex: string): bigint => {
+  const value = BigInt('0x' + hex.replace(/^0x/, ''));
+  if (value >= CURVE_ORDER) {
+    throw new Error('Scalar is not reduced modulo the group order');
+  }
+  return value;
+};
+
+/**
+ * Check that share indexes are distinct positive integers below the group order
+ * @param indexes Share indexes
+ */
+const checkIndexes = (indexes: number[]): void => {
+  if (new Set(indexes).size !== indexes.length || indexes.some(index => !Number.isSafeInteger(index) || index < 1)) {
+    throw new Error('Share indexes must be distinct positive integers');
+  }
+};
+
+/**
+ * Evaluate a polynomial at x using Horner's rule
+ * @param coefficients Coefficients, constant term first
+ * @param x Point to evaluate at
+ */
+const evaluate = (coefficients: bigint[], x: bigint): bigint =>
+  coefficients.reduceRight((accumulator, coefficient) => mod(accumulator * x + coefficient), BigInt(0));
+
+/**
+ * Deal shares of a secret with a random polynomial of degree threshold - 1
+ * @param secret Secret to share; zero yields a zero-sharing used for refreshes
+ * @param threshold Number of shares needed to reconstruct
+ * @param indexes Indexes of the shares to produce
+ * @returns Shares and coefficient commitments
+ */
+export const deal = (secret: bigint, threshold: number, indexes: number[]): Dealing => {
+  checkIndexes(indexes);
+  if (threshold < 1 || threshold > indexes.length) {
+    throw new Error('Threshold must be between 1 and the number of shares');
+  }
+
+  const coefficients = [mod(secret)];
+  for (let i = 1; i < threshold; i++) {
+    coefficients.push(randomScalar());
+  }
+
+  const shares = new Map<number, bigint>();
+  for (const index of indexes) {
+    shares.set(index, evaluate(coefficients, BigInt(index)));
+  }
+
+  // The zero point of a zero-sharing has no compressed encoding; it is written as an empty string
+  const commitments = coefficients.map(coefficient =>
+    coefficient === BigInt(0) ? '' : Point.BASE.multiply(coefficient).toHex(true)
+  );
+
+  return { shares, commitments };
+};
+
+/**
+ * Decode a commitment
+ * @param commitment Compressed point, or empty for the zero point
+ */
+const decodeCommitment = (commitment: string): Point =>
+  commitment === '' ? Point.ZERO : Point.fromHex(commitment);
+
+/**
+ * Encode a commitment
+ * @param point Point
+ */
+const encodeCommitment = (point: Point): string => (point.equals(Point.ZERO) ? '' : point.toHex(true));
+
+/**
+ * Compute the commitment to share i, Σ C_j·i^j
+ * @param commitments Coefficient commitments
+ * @param index Share index
+ * @returns Expected share·G
+ */
+export const expectedSharePoint = (commitments: string[], index: number): Point => {
+  let result = Point.ZERO;
+  let power = BigInt(1);
+  for (const commitment of commitments) {
+    result = result.add(decodeCommitment(commitment).multiplyUnsafe(power));
+    power = mod(power * BigInt(index));
+  }
+  return result;
+};
+
+/**
+ * Verify a share against the dealer's commitments
+ * @param index Share index
+ * @param share Share value
+ * @param commitments Coefficient commitments
+ * @returns Whether share·G matches the commitments
+ */
+export const verifyShare = (index: number, share: bigint, commitments: string[]): boolean => {
+  const actual = share === BigInt(0) ? Point.ZERO : Point.BASE.multiply(share);
+  return actual.equals(expectedSharePoint(commitments, index));
+};
+
+/**
+ * Commitment to share i as stored in a dealing, Σ C_j·i^j
+ * @param commitments Coefficient commitments
+ * @param index Share index
+ * @returns Compressed point, or empty for the zero point
+ */
+export const shareCommitment = (commitments: string[], index: number): string =>
+  encodeCommitment(expectedSharePoint(commitments, index));
+
+/**
+ * Commitments of a weighted sum of dealings, Σ w_d·C_d
+ * @param dealings Commitments of each dealing, all of the same degree
+ * @param weights Weight of each dealing
+ * @returns Combined commitments
+ */
+export const combineCommitments = (dealings: string[][], weights: bigint[]): string[] => {
+  let combined: Point[] = dealings[0].map(() => Point.ZERO);
+  dealings.forEach((commitments, d) => {
+    if (commitments.length !== combined.length) {
+      throw new Error('Dealings have different thresholds');
+    }
+    combined = combined.map((point, j) => point.add(decodeCommitment(commitments[j]).multiplyUnsafe(weights[d])));
+  });
+  return combined.map(encodeCommitment);
+};
+
+/**
+ * Lagrange coefficient of a share for interpolation at zero
+ * @param index Index of the share
+ * @param indexes Indexes of all shares taking part
+ */
+export const lagrangeCoefficient = (index: number, indexes: number[]): bigint => {
+  let numerator = BigInt(1);
+  let denominator = BigInt(1);
+  for (const other of indexes) {
+    if (other === index) {
+      continue;
+    }
+    numerator = mod(numerator * BigInt(other));
+    denominator = mod(denominator * BigInt(other - index));
+  }
+  return mod(numerator * invert(denominator));
+};
+
+/**
+ * Reconstruct the secret from shares by Lagrange interpolation at zero
+ * @param shares Shares by index; exactly the threshold number should be given
+ * @returns Secret
+ */
+export const combineShares = (shares: Map<number, bigint>): bigint => {
+  const indexes = Array.from(shares.keys());
+  checkIndexes(indexes);
+
+  let secret = BigInt(0);
+  for (const [index, share] of shares) {
+    secret = mod(secret + share * lagrangeCoefficient(index, indexes));
+  }
+  return secret;
+};
+
+/**
+ * Proactively refresh shares: add a random sharing of zero so that every
+ * share changes while the secret and public key stay the same. Old shares
+ * cannot be combined with new ones.
+ * @param shares Current shares by index
+ * @param commitments Current commitments
+ * @param threshold Current threshold
+ * @returns Refreshed shares and commitments
+ */
+export const refreshShares = (shares: Map<number, bigint>, commitments: string[], threshold: number): Dealing => {
+  const zeroSharing = deal(BigInt(0), threshold, Array.from(shares.keys()));
+
+  const refreshed = new Map<number, bigint>();
+  for (const [index, share] of shares) {
+    refreshed.set(index, mod(share + zeroSharing.shares.get(index)!));
+  }
+
+  const refreshedCommitments = commitments.map((commitment, j) =>
+    encodeCommitment(decodeCommitment(commitment).add(decodeCommitment(zeroSharing.commitments[j])))
+  );
+
+  return { shares: refreshed, commitments: refreshedCommitments };
+};
+
+/**
+ * Redistribute a sharing to a new threshold and set of holders without
+ * reconstructing the secret. Each old holder re-deals its share with a
+ * polynomial of the new degree; new holders combine the verified sub-shares
+ * with the old holders' Lagrange coefficients.
+ * @param shares Shares of at least `threshold` old holders
+ * @param commitments Current commitments
+ * @param threshold Current threshold
+ * @param newThreshold New threshold
+ * @param newIndexes Indexes of the new holders
+ * @returns New shares and commitments; C_0 is unchanged
+ */
+export const redistributeShares = (
+  shares: Map<number, bigint>,
+  commitments: string[],
+  threshold: number,
+  newThreshold: number,
+  newIndexes: number[]
+): Dealing => {
+  if (shares.size < threshold) {
+    throw new Error(`Need at least ${threshold} shares to redistribute`);
+  }
+
+  // Exactly threshold old holders take part
+  const dealers = Array.from(shares.keys()).slice(0, threshold);
+
+  const newShares = new Map<number, bigint>(newIndexes.map(index => [index, BigInt(0)]));
+  let newCommitments: Point[] = Array.from({ length: newThreshold }, () => Point.ZERO);
+
+  for (const dealer of dealers) {
+    const share = shares.get(dealer)!;
+    if (!verifyShare(dealer, share, commitments)) {
+      throw new Error(`Share ${dealer} does not match the commitments`);
+    }
+
+    const subDealing = deal(share, newThreshold, newIndexes);
+    const lambda = lagrangeCoefficient(dealer, dealers);
+
+    for (const index of newIndexes) {
+      const subShare = subDealing.shares.get(index)!;
+      if (!verifyShare(index, subShare, subDealing.commitments)) {
+        throw new Error(`Sub-share from ${dealer} to ${index} does not match its commitments`);
+      }
+      newShares.set(index, mod(newShares.get(index)! + lambda * subShare));
+    }
+
+    newCommitments = newCommitments.map((point, k) =>
+      point.add(decodeCommitment(subDealing.commitments[k]).multiplyUnsafe(lambda))
+    );
+  }
+
+  const encoded = newCommitments.map(encodeCommitment);
+  if (encoded[0] !== commitments[0]) {
+    throw new Error('Redistribution changed the public key');
+  }
+
+  return { shares: newShares, commitments: encoded };
+};
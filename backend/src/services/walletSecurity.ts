@@ -3,15 +3,14 @@ import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
 import { teeService } from './tee/teeService';
 import { tssService } from './tss/tssService';
-import { intrusionDetection } from './security/intrusionDetection';
+import { intrusionDetection, SecurityEventType } from './security/intrusionDetection';
 import { militaryGradeEncryption } from './security/militaryGradeEncryption';
 import { mfaService } from './security/mfaService';
 import { 
   SecurityLevel, 
   MilitaryGradeWalletConfig, 
   AccessPolicy, 
-  SecurityAudit,
-  SecurityEventType 
+  SecurityAudit
 } from '../types/security';
 
 /**
@@ -29,7 +28,7 @@ export class WalletSecurityService {
   // Maps to track wallet types and relationships
   private walletTypes: Map<string, 'tee' | 'tss' | 'military'> = new Map();
   private userWallets: Map<string, string[]> = new Map(); // userId -> walletIds[]
-  private tssWalletInfo: Map<string, { threshold: number, totalShares: number }> = new Map();
+  private tssWalletInfo: Map<string, { threshold: number, totalShares: number, walletId: string }> = new Map();
   
   // Military-grade security properties
   private securityLevels: Map<string, SecurityLevel> = new Map(); // walletId -> security level
@@ -73,9 +72,6 @@ export class WalletSecurityService {
         throw new Error('Failed to initialize TSS service');
       }
       
-      // Initialize intrusion detection
-      intrusionDetection.resetAnomalyScore('system');
-      
       this.isInitialized = true;
       logger.info('Military-grade wallet security service initialized successfully');
       return true;
@@ -129,11 +125,14 @@ export class WalletSecurityService {
     
     try {
       // Check for intrusion or suspicious activity
-      const securityCheck = intrusionDetection.isOperationAllowed(
+      const securityCheck = await intrusionDetection.recordEvent({
         userId,
-        'key_export',
-        { operation: 'create_military_wallet', deviceId }
-      );
+        eventType: SecurityEventType.WALLET_CREATION,
+        ipAddress,
+        deviceId,
+        location: geoLocation,
+        operation: 'create_military_wallet',
+      });
       
       if (!securityCheck.allowed) {
         throw new Error(`Security check failed: ${securityCheck.reason}`);
@@ -156,7 +155,7 @@ export class WalletSecurityService {
         userId
       };
       
-      const encryptedBackup = militaryGradeEncryption.encrypt(
+      const encryptedBackup = await militaryGradeEncryption.encrypt(
         JSON.stringify(backupData),
         `military:${userId}:${teeWalletAddress}`
       );
@@ -165,7 +164,7 @@ export class WalletSecurityService {
       this.encryptedBackups.set(teeWalletAddress, encryptedBackup);
       
       // 5. Set up MFA for the wallet
-      const mfaSession = mfaService.startMFASession(
+      const mfaSession = await mfaService.startMFASession(
         userId,
         'key_export',
         { walletAddress: teeWalletAddress },
@@ -222,12 +221,15 @@ export class WalletSecurityService {
       this.emergencyLockdownEnabled.set(teeWalletAddress, false);
       
       // 10. Record successful creation in intrusion detection system
-      intrusionDetection.recordEvent(
+      await intrusionDetection.recordEvent({
         userId,
-        SecurityEventType.SUCCESSFUL_AUTH,
-        { walletAddress: teeWalletAddress, operation: 'create_military_wallet' },
-        ipAddress
-      );
+        eventType: SecurityEventType.SUCCESSFUL_AUTH,
+        ipAddress,
+        deviceId,
+        location: geoLocation,
+        operation: 'create_military_wallet',
+        data: { walletAddress: teeWalletAddress },
+      });
       
       logger.info(`Created military-grade wallet ${teeWalletAddress} for user ${userId}`);
       return { address: teeWalletAddress, securityConfig };
@@ -236,11 +238,15 @@ export class WalletSecurityService {
       logger.error(`Failed to create military-grade wallet for user ${userId}:`, error);
       
       // Record failure in intrusion detection system
-      intrusionDetection.recordEvent(
+      await intrusionDetection.recordEvent({
         userId,
-        SecurityEventType.FAILED_AUTH,
-        { operation: 'create_military_wallet', error: errorMessage }
-      );
+        eventType: SecurityEventType.FAILED_AUTH,
+        ipAddress,
+        deviceId,
+        location: geoLocation,
+        operation: 'create_military_wallet',
+        data: { error: errorMessage },
+      });
       
       throw new Error('Failed to create military-grade wallet: ' + errorMessage);
     }
@@ -274,7 +280,7 @@ export class WalletSecurityService {
       this.addWalletToUser(userId, walletAddress);
       
       // Store TSS wallet info
-      this.tssWalletInfo.set(walletAddress, { threshold, totalShares });
+      this.tssWalletInfo.set(walletAddress, { threshold, totalShares, walletId });
       
       logger.info(`Created TSS wallet ${walletAddress} for user ${userId} with threshold ${threshold}/${totalShares}`);
       return walletAddress;
@@ -319,10 +325,7 @@ export class WalletSecurityService {
           throw new Error('Share indexes required for TSS wallet');
         }
         
-        // Get the wallet ID from the address (in a real implementation, this would be stored)
-        const walletId = `tss-${userId}-${walletAddress}`;
-        
-        return await tssService.signMessage(walletId, message, shareIndexes);
+        return await tssService.signMessage(this.getTSSWalletId(walletAddress), message, shareIndexes);
       } else {
         throw new Error('Unknown wallet type');
       }
@@ -367,10 +370,7 @@ export class WalletSecurityService {
           throw new Error('Share indexes required for TSS wallet');
         }
         
-        // Get the wallet ID from the address (in a real implementation, this would be stored)
-        const walletId = `tss-${userId}-${walletAddress}`;
-        
-        return await tssService.signTransaction(walletId, transaction, shareIndexes);
+        return await tssService.signTransaction(this.getTSSWalletId(walletAddress), transaction, shareIndexes);
       } else {
         throw new Error('Unknown wallet type');
       }
@@ -455,6 +455,19 @@ export class WalletSecurityService {
     }
   }
 
+  /**
+   * Get the TSS key identifier of a wallet
+   * @param walletAddress Wallet address
+   * @returns Wallet ID the distributed key was generated under
+   */
+  private getTSSWalletId(walletAddress: string): string {
+    const tssInfo = this.tssWalletInfo.get(walletAddress);
+    if (!tssInfo) {
+      throw new Error('TSS wallet info not found');
+    }
+    return tssInfo.walletId;
+  }
+
   /**
    * Ensure the wallet security service is initialized before use
    */
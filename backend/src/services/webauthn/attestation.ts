@@ -0,0 +1,234 @@
+import crypto from 'crypto';
+import { CborMap, CborValue, decodeCbor, decodeCborMap } from './cbor';
+import { coseToPublicKey, CoseAlgorithm, CosePublicKey, verifySignature } from './cose';
+import { WebAuthnError } from './errors';
+
+// Authenticator data flags
+export const FLAG_USER_PRESENT = 0x01;
+export const FLAG_USER_VERIFIED = 0x04;
+export const FLAG_BACKUP_ELIGIBLE = 0x08;
+export const FLAG_BACKED_UP = 0x10;
+export const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+export const FLAG_EXTENSION_DATA = 0x80;
+
+// Attestation statement formats accepted at registration
+export type AttestationFormat = 'none' | 'packed' | 'fido-u2f';
+
+// How the attestation was made; no format here is verified against a trust anchor
+export type AttestationType = 'none' | 'self' | 'basic';
+
+// Parsed authenticator data
+export interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  attestedCredential?: {
+    aaguid: Buffer;
+    credentialId: Buffer;
+    publicKey: CosePublicKey;
+  };
+}
+
+/**
+ * Parse authenticator data (WebAuthn §6.1)
+ * @param data Raw authenticator data
+ * @returns Parsed authenticator data
+ * @throws WebAuthnError if the data is malformed
+ */
+export const parseAuthenticatorData = (data: Buffer): AuthenticatorData => {
+  if (data.length < 37) {
+    throw new WebAuthnError('Authenticator data is too short');
+  }
+
+  const rpIdHash = data.subarray(0, 32);
+  const flags = data[32];
+  const signCount = data.readUInt32BE(33);
+  let position = 37;
+
+  let attestedCredential: AuthenticatorData['attestedCredential'];
+  if (flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    if (data.length < position + 18) {
+      throw new WebAuthnError('Attested credential data is too short');
+    }
+    const aaguid = data.subarray(position, position + 16);
+    const idLength = data.readUInt16BE(position + 16);
+    position += 18;
+
+    const credentialId = data.subarray(position, position + idLength);
+    if (credentialId.length !== idLength) {
+      throw new WebAuthnError('Attested credential data is too short');
+    }
+    position += idLength;
+
+    const decoded = decodeCbor(data, position);
+    if (!(decoded.value instanceof Map)) {
+      throw new WebAuthnError('Credential public key must be a COSE key');
+    }
+    position = decoded.offset;
+
+    attestedCredential = { aaguid, credentialId, publicKey: coseToPublicKey(decoded.value) };
+  }
+
+  if (flags & FLAG_EXTENSION_DATA) {
+    position = decodeCbor(data, position).offset;
+  }
+
+  if (position !== data.length) {
+    throw new WebAuthnError('Unexpected data after authenticator data');
+  }
+
+  return { rpIdHash, flags, signCount, attestedCredential };
+};
+
+/**
+ * Parse the first certificate of an attestation certificate chain
+ * @param x5c Certificate chain from the attestation statement
+ * @returns Attestation certificate
+ */
+const attestationCertificate = (x5c: CborValue): crypto.X509Certificate => {
+  if (!Array.isArray(x5c) || x5c.length === 0 || !x5c.every(cert => Buffer.isBuffer(cert))) {
+    throw new WebAuthnError('Invalid attestation certificate chain');
+  }
+  try {
+    return new crypto.X509Certificate(x5c[0] as Buffer);
+  } catch {
+    throw new WebAuthnError('Invalid attestation certificate');
+  }
+};
+
+/**
+ * Verify a packed attestation statement (WebAuthn §8.2)
+ */
+const verifyPacked = (
+  attStmt: CborMap,
+  authData: Buffer,
+  clientDataHash: Buffer,
+  credentialKey: CosePublicKey
+): AttestationType => {
+  const alg = attStmt.get('alg');
+  const sig = attStmt.get('sig');
+  if (typeof alg !== 'number' || !Buffer.isBuffer(sig)) {
+    throw new WebAuthnError('Invalid packed attestation statement');
+  }
+
+  const signedData = Buffer.concat([authData, clientDataHash]);
+
+  if (attStmt.has('x5c')) {
+    const certificate = attestationCertificate(attStmt.get('x5c'));
+    if (certificate.ca) {
+      throw new WebAuthnError('Attestation certificate must not be a CA');
+    }
+    if (!/OU=Authenticator Attestation/.test(certificate.subject)) {
+      throw new WebAuthnError('Attestation certificate subject is not an authenticator attestation');
+    }
+    const now = Date.now();
+    if (Date.parse(certificate.validFrom) > now || Date.parse(certificate.validTo) < now) {
+      throw new WebAuthnError('Attestation certificate is not valid at this time');
+    }
+    if (!verifySignature(alg as CoseAlgorithm, certificate.publicKey, signedData, sig)) {
+      throw new WebAuthnError('Invalid attestation signature');
+    }
+    return 'basic';
+  }
+
+  // Self attestation: signed with the credential key itself
+  if (alg !== credentialKey.alg) {
+    throw new WebAuthnError('Self attestation algorithm does not match the credential key');
+  }
+  if (!verifySignature(credentialKey.alg, credentialKey.key, signedData, sig)) {
+    throw new WebAuthnError('Invalid attestation signature');
+  }
+  return 'self';
+};
+
+/**
+ * Verify a FIDO U2F attestation statement (WebAuthn §8.6)
+ */
+const verifyFidoU2F = (
+  attStmt: CborMap,
+  parsed: AuthenticatorData,
+  clientDataHash: Buffer
+): AttestationType => {
+  const sig = attStmt.get('sig');
+  const x5c = attStmt.get('x5c');
+  if (!Buffer.isBuffer(sig) || !Array.isArray(x5c) || x5c.length !== 1) {
+    throw new WebAuthnError('Invalid fido-u2f attestation statement');
+  }
+
+  const certificate = attestationCertificate(x5c);
+  const certificateKey = certificate.publicKey.asymmetricKeyDetails;
+  if (certificate.publicKey.asymmetricKeyType !== 'ec' || certificateKey?.namedCurve !== 'prime256v1') {
+    throw new WebAuthnError('fido-u2f attestation certificate must hold a P-256 key');
+  }
+
+  const credential = parsed.attestedCredential!;
+  const ec2 = credential.publicKey.ec2;
+  if (!ec2 || ec2.crv !== 'P-256' || credential.publicKey.alg !== CoseAlgorithm.ES256) {
+    throw new WebAuthnError('fido-u2f credentials must be ES256 P-256 keys');
+  }
+
+  const verificationData = Buffer.concat([
+    Buffer.from([0x00]),
+    parsed.rpIdHash,
+    clientDataHash,
+    credential.credentialId,
+    Buffer.from([0x04]),
+    ec2.x,
+    ec2.y,
+  ]);
+
+  if (!verifySignature(CoseAlgorithm.ES256, certificate.publicKey, verificationData, sig)) {
+    throw new WebAuthnError('Invalid attestation signature');
+  }
+  return 'basic';
+};
+
+// Result of parsing and verifying an attestation object
+export interface VerifiedAttestation {
+  fmt: AttestationFormat;
+  attestationType: AttestationType;
+  authData: AuthenticatorData;
+}
+
+/**
+ * Decode an attestation object and verify its attestation statement
+ * @param attestationObject Raw attestation object
+ * @param clientDataHash SHA-256 of the client data JSON
+ * @returns Attestation format, type and parsed authenticator data
+ * @throws WebAuthnError if the object is malformed or the statement is invalid
+ */
+export const verifyAttestation = (attestationObject: Buffer, clientDataHash: Buffer): VerifiedAttestation => {
+  const object = decodeCborMap(attestationObject);
+  const fmt = object.get('fmt');
+  const attStmt = object.get('attStmt');
+  const rawAuthData = object.get('authData');
+
+  if (typeof fmt !== 'string' || !(attStmt instanceof Map) || !Buffer.isBuffer(rawAuthData)) {
+    throw new WebAuthnError('Invalid attestation object');
+  }
+
+  const authData = parseAuthenticatorData(rawAuthData);
+  if (!authData.attestedCredential) {
+    throw new WebAuthnError('Attestation does not contain a credential');
+  }
+
+  let attestationType: AttestationType;
+  switch (fmt) {
+    case 'none':
+      if (attStmt.size !== 0) {
+        throw new WebAuthnError('none attestation must have an empty statement');
+      }
+      attestationType = 'none';
+      break;
+    case 'packed':
+      attestationType = verifyPacked(attStmt, rawAuthData, clientDataHash, authData.attestedCredential.publicKey);
+      break;
+    case 'fido-u2f':
+      attestationType = verifyFidoU2F(attStmt, authData, clientDataHash);
+      break;
+    default:
+      throw new WebAuthnError(`Unsupported attestation format: ${fmt}`);
+  }
+
+  return { fmt, attestationType, authData };
+};
@@ -0,0 +1,144 @@
+import { WebAuthnError } from './errors';
+
+// Nesting limit; authenticator data never comes close
+const MAX_DEPTH = 16;
+
+export type CborValue = number | bigint | string | boolean | null | undefined | Buffer | CborValue[] | CborMap;
+export type CborMap = Map<CborValue, CborValue>;
+
+/**
+ * Decode a single CBOR (RFC 8949) item. Only definite-length encodings are
+ * accepted, which is all CTAP2 authenticators produce.
+ * @param data Encoded data
+ * @param offset Position of the item
+ * @returns Decoded value and the position following it
+ * @throws WebAuthnError if the data is malformed
+ */
+export const decodeCbor = (data: Buffer, offset = 0): { value: CborValue; offset: number } => {
+  const read = (position: number, depth: number): { value: CborValue; offset: number } => {
+    if (depth > MAX_DEPTH) {
+      throw new WebAuthnError('CBOR nesting too deep');
+    }
+    if (position >= data.length) {
+      throw new WebAuthnError('Unexpected end of CBOR data');
+    }
+
+    const initial = data[position++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    // Read the argument that follows the initial byte
+    let argument: number | bigint;
+    if (info < 24) {
+      argument = info;
+    } else if (info === 24) {
+      argument = data.readUInt8(position);
+      position += 1;
+    } else if (info === 25) {
+      argument = data.readUInt16BE(position);
+      position += 2;
+    } else if (info === 26) {
+      argument = data.readUInt32BE(position);
+      position += 4;
+    } else if (info === 27) {
+      const value = data.readBigUInt64BE(position);
+      argument = value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+      position += 8;
+    } else {
+      throw new WebAuthnError('Indefinite-length CBOR items are not supported');
+    }
+
+    const length = (): number => {
+      if (typeof argument !== 'number') {
+        throw new WebAuthnError('CBOR item too large');
+      }
+      return argument;
+    };
+
+    switch (major) {
+      case 0:
+        return { value: argument, offset: position };
+
+      case 1:
+        return {
+          value: typeof argument === 'number' ? -1 - argument : BigInt(-1) - argument,
+          offset: position,
+        };
+
+      case 2:
+      case 3: {
+        const end = position + length();
+        if (end > data.length) {
+          throw new WebAuthnError('Unexpected end of CBOR data');
+        }
+        const bytes = data.subarray(position, end);
+        return { value: major === 2 ? Buffer.from(bytes) : bytes.toString('utf8'), offset: end };
+      }
+
+      case 4: {
+        const items: CborValue[] = [];
+        for (let i = 0; i < length(); i++) {
+          const item = read(position, depth + 1);
+          items.push(item.value);
+          position = item.offset;
+        }
+        return { value: items, offset: position };
+      }
+
+      case 5: {
+        const map: CborMap = new Map();
+        for (let i = 0; i < length(); i++) {
+          const key = read(position, depth + 1);
+          const value = read(key.offset, depth + 1);
+          if (map.has(key.value)) {
+            throw new WebAuthnError('Duplicate CBOR map key');
+          }
+          map.set(key.value, value.value);
+          position = value.offset;
+        }
+        return { value: map, offset: position };
+      }
+
+      case 6:
+        // Tags carry no meaning for WebAuthn structures; return the tagged item
+        return read(position, depth + 1);
+
+      default:
+        switch (info) {
+          case 20:
+            return { value: false, offset: position };
+          case 21:
+            return { value: true, offset: position };
+          case 22:
+            return { value: null, offset: position };
+          case 23:
+            return { value: undefined, offset: position };
+          case 26:
+            return { value: data.readFloatBE(position - 4), offset: position };
+          case 27:
+            return { value: data.readDoubleBE(position - 8), offset: position };
+          default:
+            throw new WebAuthnError('Unsupported CBOR simple value');
+        }
+    }
+  };
+
+  return read(offset, 0);
+};
+
+/**
+ * Decode data that must consist of exactly one CBOR map
+ * @param data Encoded data
+ * @returns Decoded map
+ * @throws WebAuthnError if the data is not a single map
+ */
+export const decodeCborMap = (data: Buffer): CborMap => {
+  const { value, offset } = decodeCbor(data);
+  if (!(value instanceof Map)) {
+    throw new WebAuthnError('Expected a CBOR map');
+  }
+  if (offset !== data.length) {
+    throw new WebAuthnError('Unexpected data after CBOR map');
+  }
+  return value;
+};
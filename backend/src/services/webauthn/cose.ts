@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import { CborMap } from './cbor';
+import { WebAuthnError } from './errors';
+
+// COSE algorithm identifiers (IANA COSE Algorithms registry)
+export enum CoseAlgorithm {
+  ES256 = -7,
+  EdDSA = -8,
+  ES384 = -35,
+  ES512 = -36,
+  PS256 = -37,
+  RS256 = -257,
+}
+
+// Algorithms offered to authenticators, in order of preference
+export const SUPPORTED_ALGORITHMS = [CoseAlgorithm.ES256, CoseAlgorithm.EdDSA, CoseAlgorithm.RS256, CoseAlgorithm.PS256];
+
+// COSE key parameters
+const KTY = 1;
+const ALG = 3;
+const EC2_CRV = -1;
+const EC2_X = -2;
+const EC2_Y = -3;
+const RSA_N = -1;
+const RSA_E = -2;
+const OKP_CRV = -1;
+const OKP_X = -2;
+
+// COSE key types
+const KTY_OKP = 1;
+const KTY_EC2 = 2;
+const KTY_RSA = 3;
+
+// COSE elliptic curves mapped to JWK curve names
+const EC2_CURVES: Record<number, string> = { 1: 'P-256', 2: 'P-384', 3: 'P-521' };
+const OKP_CURVES: Record<number, string> = { 6: 'Ed25519' };
+
+// Public key decoded from a COSE_Key structure
+export interface CosePublicKey {
+  alg: CoseAlgorithm;
+  key: crypto.KeyObject;
+  ec2?: { crv: string; x: Buffer; y: Buffer }; // Raw coordinates, needed for FIDO U2F attestation
+}
+
+/**
+ * Read a byte string parameter from a COSE key
+ * @param cose COSE key
+ * @param label Parameter label
+ */
+const bytesParam = (cose: CborMap, label: number): Buffer => {
+  const value = cose.get(label);
+  if (!Buffer.isBuffer(value)) {
+    throw new WebAuthnError(`COSE key parameter ${label} is missing`);
+  }
+  return value;
+};
+
+/**
+ * Convert a COSE_Key (RFC 9053) to a public key object
+ * @param cose Decoded COSE key
+ * @returns Algorithm and public key
+ * @throws WebAuthnError if the key type or algorithm is not supported
+ */
+export const coseToPublicKey = (cose: CborMap): CosePublicKey => {
+  const kty = cose.get(KTY);
+  const alg = cose.get(ALG);
+
+  if (typeof alg !== 'number' || !Object.values(CoseAlgorithm).includes(alg)) {
+    throw new WebAuthnError(`Unsupported COSE algorithm: ${String(alg)}`);
+  }
+
+  try {
+    if (kty === KTY_EC2) {
+      const crv = EC2_CURVES[cose.get(EC2_CRV) as number];
+      if (!crv) {
+        throw new WebAuthnError('Unsupported EC2 curve');
+      }
+      const x = bytesParam(cose, EC2_X);
+      const y = bytesParam(cose, EC2_Y);
+      const key = crypto.createPublicKey({
+        key: { kty: 'EC', crv, x: x.toString('base64url'), y: y.toString('base64url') },
+        format: 'jwk',
+      });
+      return { alg, key, ec2: { crv, x, y } };
+    }
+
+    if (kty === KTY_RSA) {
+      const key = crypto.createPublicKey({
+        key: {
+          kty: 'RSA',
+          n: bytesParam(cose, RSA_N).toString('base64url'),
+          e: bytesParam(cose, RSA_E).toString('base64url'),
+        },
+        format: 'jwk',
+      });
+      return { alg, key };
+    }
+
+    if (kty === KTY_OKP) {
+      const crv = OKP_CURVES[cose.get(OKP_CRV) as number];
+      if (!crv) {
+        throw new WebAuthnError('Unsupported OKP curve');
+      }
+      const key = crypto.createPublicKey({
+        key: { kty: 'OKP', crv, x: bytesParam(cose, OKP_X).toString('base64url') },
+        format: 'jwk',
+      });
+      return { alg, key };
+    }
+  } catch (error) {
+    if (error instanceof WebAuthnError) {
+      throw error;
+    }
+    throw new WebAuthnError('Invalid COSE public key');
+  }
+
+  throw new WebAuthnError(`Unsupported COSE key type: ${String(kty)}`);
+};
+
+/**
+ * Verify a WebAuthn signature. ECDSA signatures are DER-encoded as produced by authenticators.
+ * @param alg COSE algorithm
+ * @param key Public key
+ * @param data Signed data
+ * @param signature Signature
+ * @returns Whether the signature is valid
+ */
+export const verifySignature = (alg: CoseAlgorithm, key: crypto.KeyObject, data: Buffer, signature: Buffer): boolean => {
+  try {
+    switch (alg) {
+      case CoseAlgorithm.ES256:
+      case CoseAlgorithm.RS256:
+        return crypto.verify('sha256', data, key, signature);
+      case CoseAlgorithm.ES384:
+        return crypto.verify('sha384', data, key, signature);
+      case CoseAlgorithm.ES512:
+        return crypto.verify('sha512', data, key, signature);
+      case CoseAlgorithm.PS256:
+        return crypto.verify(
+          'sha256',
+          data,
+          { key, padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 },
+          signature
+        );
+      case CoseAlgorithm.EdDSA:
+        return crypto.verify(null, data, key, signature);
+      default:
+        return false;
+    }
+  } catch {
+    return false;
+  }
+};
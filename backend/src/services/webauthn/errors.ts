@@ -0,0 +1,9 @@
+/**
+ * Error raised when a WebAuthn ceremony fails
+ */
+export class WebAuthnError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'WebAuthnError';
+  }
+}
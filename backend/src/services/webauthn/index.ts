@@ -0,0 +1,516 @@
+import crypto from 'crypto';
+import { logger } from '../../utils/logger';
+import { getDatabase, RyzerWalletDB } from '../../config/database';
+import { AuditAction, createAuditLog } from '../audit';
+import {
+  AuthenticatorData,
+  FLAG_BACKED_UP,
+  FLAG_BACKUP_ELIGIBLE,
+  FLAG_USER_PRESENT,
+  FLAG_USER_VERIFIED,
+  parseAuthenticatorData,
+  verifyAttestation,
+} from './attestation';
+import { CoseAlgorithm, SUPPORTED_ALGORITHMS, verifySignature } from './cose';
+import { WebAuthnError } from './errors';
+
+export * from './errors';
+
+// Lock serializing challenge consumption and signature counter updates across processes
+const WEBAUTHN_LOCK = 'webauthn';
+
+// Most credentials a user may register
+const MAX_CREDENTIALS_PER_USER = 10;
+
+export type WebAuthnCredential = RyzerWalletDB['webauthn_credentials']['value'];
+type WebAuthnChallenge = RyzerWalletDB['webauthn_challenges']['value'];
+
+// WebAuthn relying party options
+export interface WebAuthnOptions {
+  rpId: string; // Registrable domain the credentials are scoped to
+  rpName: string;
+  origins: string[]; // Origins the ceremonies may run on
+  challengeTtlMs: number;
+  userVerification: 'required' | 'preferred' | 'discouraged';
+}
+
+// Registration response as serialized by PublicKeyCredential.toJSON()
+export interface RegistrationResponseJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+// Authentication response as serialized by PublicKeyCredential.toJSON()
+export interface AuthenticationResponseJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string;
+  };
+}
+
+// Client data collected by the browser (WebAuthn §5.8.1)
+interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+  crossOrigin?: boolean;
+}
+
+/**
+ * Decode a base64url field of a ceremony response
+ * @param value Field value
+ * @param name Field name, used in errors
+ */
+const fromBase64Url = (value: unknown, name: string): Buffer => {
+  if (typeof value !== 'string' || !/^[A-Za-z0-9_-]*$/.test(value)) {
+    throw new WebAuthnError(`${name} must be base64url encoded`);
+  }
+  return Buffer.from(value, 'base64url');
+};
+
+/**
+ * WebAuthn relying party.
+ *
+ * Runs registration and authentication ceremonies for passkeys and security
+ * keys. Challenges are single-use and stored server-side; signature counters
+ * are tracked so that a cloned authenticator suspends its credential.
+ */
+export class WebAuthnService {
+  constructor(private readonly options: WebAuthnOptions) {}
+
+  /**
+   * Build the options for navigator.credentials.create()
+   * @param userId User identifier
+   * @param userName Name shown by the authenticator
+   * @returns Public key credential creation options, JSON-encoded
+   */
+  public async createRegistrationOptions(userId: string, userName = userId) {
+    const credentials = await this.listCredentials(userId, true);
+    if (credentials.length >= MAX_CREDENTIALS_PER_USER) {
+      throw new WebAuthnError(`At most ${MAX_CREDENTIALS_PER_USER} passkeys can be registered`, 409);
+    }
+
+    const challenge = await this.issueChallenge(userId, 'registration');
+
+    return {
+      challenge,
+      rp: { id: this.options.rpId, name: this.options.rpName },
+      user: { id: this.userHandle(userId), name: userName, displayName: userName },
+      pubKeyCredParams: SUPPORTED_ALGORITHMS.map(alg => ({ type: 'public-key', alg })),
+      timeout: this.options.challengeTtlMs,
+      attestation: 'direct',
+      excludeCredentials: credentials.map(credential => ({
+        type: 'public-key',
+        id: credential.id,
+        transports: credential.transports,
+      })),
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: this.options.userVerification,
+      },
+    };
+  }
+
+  /**
+   * Verify a registration response and store the new credential
+   * @param userId User identifier
+   * @param response Response of navigator.credentials.create()
+   * @param name Name for the credential, e.g. "YubiKey"
+   * @returns Stored credential
+   * @throws WebAuthnError if the response is not valid
+   */
+  public async verifyRegistration(
+    userId: string,
+    response: RegistrationResponseJSON,
+    name?: string
+  ): Promise<WebAuthnCredential> {
+    if (!response || response.type !== 'public-key' || !response.response) {
+      throw new WebAuthnError('Invalid registration response');
+    }
+
+    const clientDataJSON = fromBase64Url(response.response.clientDataJSON, 'clientDataJSON');
+    const attestationObject = fromBase64Url(response.response.attestationObject, 'attestationObject');
+    const clientData = this.parseClientData(clientDataJSON, 'webauthn.create');
+
+    await this.consumeChallenge(clientData.challenge, userId, 'registration');
+
+    const clientDataHash = crypto.createHash('sha256').update(clientDataJSON).digest();
+    const { fmt, attestationType, authData } = verifyAttestation(attestationObject, clientDataHash);
+    this.checkAuthenticatorData(authData);
+
+    const attested = authData.attestedCredential!;
+    const id = attested.credentialId.toString('base64url');
+    if (response.id !== id) {
+      throw new WebAuthnError('Credential ID does not match the attested credential');
+    }
+
+    const db = await getDatabase();
+    const credential = await db.withExclusiveLock(WEBAUTHN_LOCK, async () => {
+      if (await db.get('webauthn_credentials', id)) {
+        throw new WebAuthnError('Credential is already registered', 409);
+      }
+
+      const aaguid = attested.aaguid.toString('hex');
+      const record: WebAuthnCredential = {
+        id,
+        userId,
+        name: typeof name === 'string' && name.trim() ? name.trim().slice(0, 64) : 'Passkey',
+        publicKey: attested.publicKey.key.export({ type: 'spki', format: 'der' }).toString('base64url'),
+        alg: attested.publicKey.alg,
+        signCount: authData.signCount,
+        transports: Array.isArray(response.response.transports)
+          ? response.response.transports.filter(transport => typeof transport === 'string')
+          : undefined,
+        aaguid: `${aaguid.slice(0, 8)}-${aaguid.slice(8, 12)}-${aaguid.slice(12, 16)}-${aaguid.slice(16, 20)}-${aaguid.slice(20)}`,
+        fmt,
+        attestationType,
+        backupEligible: !!(authData.flags & FLAG_BACKUP_ELIGIBLE),
+        backedUp: !!(authData.flags & FLAG_BACKED_UP),
+        status: 'active',
+        createdAt: Date.now(),
+      };
+      await db.add('webauthn_credentials', record);
+      return record;
+    });
+
+    this.audit(AuditAction.MFA_ENABLED, userId, { factor: 'hardware_key', credentialId: id, fmt, attestationType });
+    logger.info(`WebAuthn credential registered for user ${userId} (${fmt}/${attestationType})`);
+    return credential;
+  }
+
+  /**
+   * Build the options for navigator.credentials.get()
+   * @param userId User identifier
+   * @param mfaSessionId MFA session the assertion is for, if any
+   * @returns Public key credential request options, JSON-encoded
+   * @throws WebAuthnError if the user has no active credentials
+   */
+  public async createAuthenticationOptions(userId: string, mfaSessionId?: string) {
+    const credentials = await this.listCredentials(userId);
+    if (credentials.length === 0) {
+      throw new WebAuthnError('No passkeys registered', 412);
+    }
+
+    const challenge = await this.issueChallenge(userId, 'authentication', mfaSessionId);
+
+    return {
+      challenge,
+      rpId: this.options.rpId,
+      timeout: this.options.challengeTtlMs,
+      userVerification: this.options.userVerification,
+      allowCredentials: credentials.map(credential => ({
+        type: 'public-key',
+        id: credential.id,
+        transports: credential.transports,
+      })),
+    };
+  }
+
+  /**
+   * Verify an authentication response (assertion)
+   * @param userId User identifier
+   * @param response Response of navigator.credentials.get()
+   * @param mfaSessionId MFA session the challenge must have been issued for, if any
+   * @returns Credential that produced the assertion
+   * @throws WebAuthnError if the assertion is not valid or the credential looks cloned
+   */
+  public async verifyAuthentication(
+    userId: string,
+    response: AuthenticationResponseJSON,
+    mfaSessionId?: string
+  ): Promise<WebAuthnCredential> {
+    if (!response || response.type !== 'public-key' || !response.response || typeof response.id !== 'string') {
+      throw new WebAuthnError('Invalid authentication response');
+    }
+
+    const clientDataJSON = fromBase64Url(response.response.clientDataJSON, 'clientDataJSON');
+    const rawAuthData = fromBase64Url(response.response.authenticatorData, 'authenticatorData');
+    const signature = fromBase64Url(response.response.signature, 'signature');
+    const clientData = this.parseClientData(clientDataJSON, 'webauthn.get');
+
+    await this.consumeChallenge(clientData.challenge, userId, 'authentication', mfaSessionId);
+
+    const authData = parseAuthenticatorData(rawAuthData);
+    this.checkAuthenticatorData(authData);
+
+    const db = await getDatabase();
+
+    return db.withExclusiveLock(WEBAUTHN_LOCK, async () => {
+      const credential = await db.get('webauthn_credentials', response.id);
+      if (!credential || credential.userId !== userId) {
+        throw new WebAuthnError('Unknown credential', 404);
+      }
+      if (credential.status !== 'active') {
+        throw new WebAuthnError('Credential is suspended', 403);
+      }
+
+      if (response.response.userHandle && response.response.userHandle !== this.userHandle(userId)) {
+        throw new WebAuthnError('User handle does not match');
+      }
+
+      const clientDataHash = crypto.createHash('sha256').update(clientDataJSON).digest();
+      const publicKey = crypto.createPublicKey({
+        key: Buffer.from(credential.publicKey, 'base64url'),
+        format: 'der',
+        type: 'spki',
+      });
+      if (!verifySignature(credential.alg as CoseAlgorithm, publicKey, Buffer.concat([rawAuthData, clientDataHash]), signature)) {
+        throw new WebAuthnError('Invalid assertion signature');
+      }
+
+      // A counter that does not increase means another authenticator holds the same key
+      if ((authData.signCount !== 0 || credential.signCount !== 0) && authData.signCount <= credential.signCount) {
+        await db.put('webauthn_credentials', { ...credential, status: 'suspended', suspendedAt: Date.now() });
+
+        logger.warn(`Signature counter regression for credential ${credential.id} of user ${userId}`);
+        this.audit(AuditAction.MFA_CREDENTIAL_CLONED, userId, {
+          credentialId: credential.id,
+          storedSignCount: credential.signCount,
+          receivedSignCount: authData.signCount,
+        }, 'failure');
+
+        throw new WebAuthnError('Possible cloned authenticator; credential suspended', 403);
+      }
+
+      const updated: WebAuthnCredential = {
+        ...credential,
+        signCount: authData.signCount,
+        backedUp: !!(authData.flags & FLAG_BACKED_UP),
+        lastUsedAt: Date.now(),
+      };
+      await db.put('webauthn_credentials', updated);
+
+      return updated;
+    });
+  }
+
+  /**
+   * List the credentials of a user
+   * @param userId User identifier
+   * @param includeSuspended Whether to include suspended credentials
+   * @returns Credentials, oldest first
+   */
+  public async listCredentials(userId: string, includeSuspended = false): Promise<WebAuthnCredential[]> {
+    const db = await getDatabase();
+    const credentials = await db.getAllFromIndex('webauthn_credentials', 'by-user', userId);
+
+    return credentials
+      .filter(credential => includeSuspended || credential.status === 'active')
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Remove a credential
+   * @param userId User identifier
+   * @param credentialId Credential ID
+   * @returns True if the credential existed
+   */
+  public async removeCredential(userId: string, credentialId: string): Promise<boolean> {
+    const db = await getDatabase();
+    const credential = await db.get('webauthn_credentials', credentialId);
+
+    if (!credential || credential.userId !== userId) {
+      return false;
+    }
+
+    await db.delete('webauthn_credentials', credentialId);
+
+    this.audit(AuditAction.MFA_DISABLED, userId, { factor: 'hardware_key', credentialId });
+    return true;
+  }
+
+  /**
+   * Strip fields that are not shown to users from a credential
+   * @param credential Credential
+   * @returns Credential summary
+   */
+  public toPublicCredential(credential: WebAuthnCredential) {
+    const { publicKey, userId, ...rest } = credential;
+    return rest;
+  }
+
+  /**
+   * Derive the opaque user handle given to authenticators. It must not
+   * contain personally identifying information, so the user ID is hashed.
+   * @param userId User identifier
+   * @returns Base64url user handle
+   */
+  private userHandle(userId: string): string {
+    return crypto.createHash('sha256').update(`${this.options.rpId}:${userId}`).digest('base64url');
+  }
+
+  /**
+   * Create and store a single-use challenge
+   * @param userId User identifier
+   * @param type Ceremony the challenge is for
+   * @param mfaSessionId MFA session an authentication challenge is for
+   * @returns Base64url challenge
+   */
+  private async issueChallenge(
+    userId: string,
+    type: WebAuthnChallenge['type'],
+    mfaSessionId?: string
+  ): Promise<string> {
+    const db = await getDatabase();
+    const challenge = crypto.randomBytes(32).toString('base64url');
+
+    await db.add('webauthn_challenges', {
+      challenge,
+      userId,
+      type,
+      mfaSessionId,
+      expiresAt: Date.now() + this.options.challengeTtlMs,
+    });
+
+    this.pruneExpiredChallenges().catch(error => {
+      logger.warn('Failed to prune expired WebAuthn challenges:', error);
+    });
+
+    return challenge;
+  }
+
+  /**
+   * Delete a challenge, failing if it was not issued for this ceremony
+   * @param challenge Base64url challenge from the client data
+   * @param userId User identifier
+   * @param type Ceremony being completed
+   * @param mfaSessionId MFA session the challenge must belong to
+   * @throws WebAuthnError if the challenge cannot be used
+   */
+  private async consumeChallenge(
+    challenge: string,
+    userId: string,
+    type: WebAuthnChallenge['type'],
+    mfaSessionId?: string
+  ): Promise<void> {
+    const db = await getDatabase();
+
+    await db.withExclusiveLock(WEBAUTHN_LOCK, async () => {
+      const record = await db.get('webauthn_challenges', challenge);
+      if (!record) {
+        throw new WebAuthnError('Unknown or already used challenge');
+      }
+
+      await db.delete('webauthn_challenges', challenge);
+
+      if (record.expiresAt <= Date.now()) {
+        throw new WebAuthnError('Challenge has expired');
+      }
+      if (record.userId !== userId || record.type !== type || record.mfaSessionId !== mfaSessionId) {
+        throw new WebAuthnError('Challenge was issued for a different ceremony');
+      }
+    });
+  }
+
+  /**
+   * Parse client data and check its type and origin
+   * @param clientDataJSON Raw client data JSON
+   * @param type Expected ceremony type
+   * @returns Client data
+   * @throws WebAuthnError if the client data is not acceptable
+   */
+  private parseClientData(clientDataJSON: Buffer, type: 'webauthn.create' | 'webauthn.get'): ClientData {
+    let clientData: ClientData;
+    try {
+      clientData = JSON.parse(clientDataJSON.toString('utf8'));
+    } catch {
+      throw new WebAuthnError('Invalid client data');
+    }
+
+    if (clientData.type !== type) {
+      throw new WebAuthnError(`Client data type must be ${type}`);
+    }
+    if (typeof clientData.challenge !== 'string') {
+      throw new WebAuthnError('Client data has no challenge');
+    }
+    if (!this.options.origins.includes(clientData.origin)) {
+      throw new WebAuthnError(`Origin ${clientData.origin} is not accepted`);
+    }
+    if (clientData.crossOrigin) {
+      throw new WebAuthnError('Cross-origin ceremonies are not accepted');
+    }
+
+    return clientData;
+  }
+
+  /**
+   * Check the RP ID hash and user presence/verification flags
+   * @param authData Parsed authenticator data
+   * @throws WebAuthnError if the data does not satisfy this relying party
+   */
+  private checkAuthenticatorData(authData: AuthenticatorData): void {
+    const expected = crypto.createHash('sha256').update(this.options.rpId).digest();
+    if (!crypto.timingSafeEqual(authData.rpIdHash, expected)) {
+      throw new WebAuthnError('RP ID hash does not match');
+    }
+    if (!(authData.flags & FLAG_USER_PRESENT)) {
+      throw new WebAuthnError('User was not present');
+    }
+    if (this.options.userVerification === 'required' && !(authData.flags & FLAG_USER_VERIFIED)) {
+      throw new WebAuthnError('User was not verified');
+    }
+  }
+
+  /**
+   * Delete challenges that expired without being used
+   */
+  private async pruneExpiredChallenges(): Promise<void> {
+    const db = await getDatabase();
+    const expired = await db.getAllFromIndex('webauthn_challenges', 'by-expiresAt', { upper: Date.now() });
+    for (const record of expired) {
+      await db.delete('webauthn_challenges', record.challenge);
+    }
+  }
+
+  /**
+   * Record a credential change in the audit log
+   * @param action Audit action
+   * @param userId User identifier
+   * @param details Additional details
+   * @param status Outcome
+   */
+  private audit(
+    action: AuditAction,
+    userId: string,
+    details: Record<string, unknown>,
+    status: 'success' | 'failure' = 'success'
+  ): void {
+    createAuditLog({
+      action,
+      userId,
+      performedBy: userId,
+      category: 'security',
+      status,
+      targetId: userId,
+      targetType: 'user',
+      details,
+    }).catch(error => {
+      logger.error(`Error creating ${action} audit log:`, error);
+    });
+  }
+}
+
+// Create and export a singleton instance
+const webauthnService = new WebAuthnService({
+  rpId: process.env.WEBAUTHN_RP_ID || 'localhost',
+  rpName: process.env.WEBAUTHN_RP_NAME || 'Ryzer Wallet',
+  origins: (process.env.WEBAUTHN_ORIGINS || 'http://localhost:3001,http://localhost:3002')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean),
+  challengeTtlMs: parseInt(process.env.WEBAUTHN_CHALLENGE_TTL_MS || '300000', 10), // 5 minutes
+  userVerification: (process.env.WEBAUTHN_USER_VERIFICATION as WebAuthnOptions['userVerification']) || 'preferred',
+});
+
+export default webauthnService;
@@ -0,0 +1,463 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { logger } from '../../utils/logger';
+import { getDatabase } from '../../config/database';
+import { authenticate } from '../../middlewares/auth';
+import { errorHandler } from '../../middlewares/errorHandler';
+import { sensitiveOperationLimiter } from '../../middlewares/rateLimit';
+import { apiKeysRouter } from '../../api/apiKeys';
+import { Permission } from '../../services/rbac';
+import apiKeyService, { ApiKey, ApiKeyError } from '../../services/api-keys';
+
+/**
+ * API key tests. The authentication tests check keys against the service;
+ * the management tests call the API key routes with API keys over HTTP, on
+ * a server listening on a free local port, and check that callers stay
+ * within their tenant and scopes, and that keys issued by a key stay within
+ * its expiry and allowlist. Keys are created in throwaway tenants of
+ * the database configured for the backend and deleted after the run.
+ *
+ * Run with `npm run test:api-keys`.
+ */
+
+// Test result
+interface TestResult {
+  name: string;
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+  duration: number; // milliseconds
+  details?: Record<string, any>;
+}
+
+// Test suite result
+interface TestSuiteResult {
+  name: string;
+  tests: TestResult[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number; // milliseconds
+  timestamp: number;
+}
+
+// Keys and server of a run
+interface ApiKeyFixture {
+  tenant: string;
+  otherTenant: string;
+  keyIds: string[];
+  baseUrl: string;
+}
+
+// Response of a test request
+interface TestResponse {
+  status: number;
+  body: any;
+}
+
+const CREATOR = 'api-key-tests';
+
+/**
+ * Run every API key test suite
+ * @returns Results by suite
+ */
+export const runApiKeyTests = async (): Promise<Record<string, TestSuiteResult>> => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/api-keys', authenticate, apiKeysRouter);
+  app.use(errorHandler);
+
+  const server = http.createServer(app);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  const run = Date.now().toString(36);
+  const fixture: ApiKeyFixture = {
+    tenant: `api-key-test-${run}`,
+    otherTenant: `api-key-test-other-${run}`,
+    keyIds: [],
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+  };
+
+  try {
+    return {
+      authentication: await runSuite('Authentication', [
+        () => testAuthentication(fixture),
+        () => testRotation(fixture),
+        () => testIpAllowlist(fixture),
+        () => testRateLimit(fixture),
+      ]),
+      management: await runSuite('Scopes and Tenants', [
+        () => testScopeRequired(fixture),
+        () => testScopeEscalation(fixture),
+        () => testTenantIsolation(fixture),
+        () => testParentLimits(fixture),
+      ]),
+    };
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+    await removeKeys(fixture);
+  }
+};
+
+const testAuthentication = (fixture: ApiKeyFixture): Promise<TestResult> =>
+  runTest('Key Authentication', async () => {
+    const { apiKey, key } = await createKey(fixture, fixture.tenant, [Permission.VIEW_WALLET]);
+
+    const authenticated = await apiKeyService.authenticate(key);
+    assert(authenticated.id === apiKey.id && authenticated.tenantId === fixture.tenant, 'Key should authenticate');
+    assert(!('keyHash' in apiKeyService.toPublicKey(apiKey)), 'Public key should not carry the hash');
+    assert(!JSON.stringify(apiKey).includes(key.split('_')[2]), 'The secret should not be stored');
+
+    // Same ID, another secret
+    const forged = `${key.slice(0, key.lastIndexOf('_') + 1)}${'A'.repeat(43)}`;
+    const error = await rejection(apiKeyService.authenticate(forged));
+    assert(error === 'Invalid API key', `Forged secret should be refused, got: ${error}`);
+
+    await apiKeyService.revokeKey(apiKey.id, CREATOR);
+    const revoked = await rejection(apiKeyService.authenticate(key));
+    assert(revoked === 'API key has been revoked', `Revoked key should be refused, got: ${revoked}`);
+  });
+
+const testRotation = (fixture: ApiKeyFixture): Promise<TestResult> =>
+  runTest('Key Rotation', async () => {
+    const first = await createKey(fixture, fixture.tenant, [Permission.VIEW_WALLET]);
+
+    // Without a grace period the old key stops working at once
+    const second = await apiKeyService.rotateKey(first.apiKey.id, CREATOR);
+    fixture.keyIds.push(second.apiKey.id);
+    assert(second.apiKey.rotatedFrom === first.apiKey.id, 'New key should name the key it replaced');
+    assert(second.apiKey.scopes.join() === Permission.VIEW_WALLET, 'New key should keep the scopes');
+    const error = await rejection(apiKeyService.authenticate(first.key));
+    assert(error === 'API key has been revoked', `Rotated key should be refused, got: ${error}`);
+
+    // With one, both work until it ends
+    const third = await apiKeyService.rotateKey(second.apiKey.id, CREATOR, 60 * 1000);
+    fixture.keyIds.push(third.apiKey.id);
+    await apiKeyService.authenticate(second.key);
+    await apiKeyService.authenticate(third.key);
+    const again = await rejection(apiKeyService.rotateKey(second.apiKey.id, CREATOR));
+    assert(again === 'API key not found or not active', `A rotated key should not rotate again, got: ${again}`);
+  });
+
+const testIpAllowlist = (fixture: ApiKeyFixture): Promise<TestResult> =>
+  runTest('IP Allowlist', async () => {
+    const { key } = await createKey(fixture, fixture.tenant, [Permission.VIEW_WALLET], {
+      allowedIps: ['10.0.0.0/8', '2001:db8::1'],
+    });
+
+    for (const ip of ['10.1.2.3', '::ffff:10.1.2.3', '2001:db8::1']) {
+      await apiKeyService.authenticate(key, ip);
+    }
+    for (const ip of ['192.168.1.1', '11.0.0.1', '2001:db8::2', undefined]) {
+      const error = await rejection(apiKeyService.authenticate(key, ip));
+      assert(error === 'API key is not allowed from this IP address', `${ip} should be refused, got: ${error}`);
+    }
+
+    const invalid = await rejection(
+      createKey(fixture, fixture.tenant, [Permission.VIEW_WALLET], { allowedIps: ['10.0.0.0/33'] })
+    );
+    assert(invalid.startsWith('Invalid IP allowlist entry'), `Invalid range should be refused, got: ${invalid}`);
+  });
+
+const testRateLimit = (fixture: ApiKeyFixture): Promise<TestResult> =>
+  runTest('Rate Limit', async () => {
+    const { apiKey } = await createKey(fixture, fixture.tenant, [Permission.VIEW_WALLET], {
+      rateLimit: { windowMs: 60 * 1000, max: 3 },
+    });
+
+    // Concurrent requests are all counted
+    const states = await Promise.all([1, 2, 3, 4, 5].map(() => apiKeyService.consumeRateLimit(apiKey)));
+    const limited = states.filter(state => state.limited).length;
+    assert(limited === 2, `Expected 2 requests over the limit, got ${limited}`);
+    assert(Math.min(...states.map(state => state.remaining)) === 0, 'Nothing should remain of the window');
+    return { limited };
+  });
+
+const testScopeRequired = (fixture: ApiKeyFixture): Promise<TestResult> =>
+  runTest('Management Scope Required', async () => {
+    const { key } = await createKey(fixture, fixture.tenant, [Permission.VIEW_WALLET]);
+
+    const response = await request(fixture, 'GET', '/api/api-keys', key);
+    assert(response.status === 403, `Key without the management scope should be refused, got ${response.status}`);
+
+    const anonymous = await request(fixture, 'GET', '/api/api-keys');
+    assert(anonymous.status === 401, `Request without credentials should be refused, got ${anonymous.status}`);
+  });
+
+const testScopeEscalation = (fixture: ApiKeyFixture): Promise<TestResult> =>
+  runTest('Scope Escalation', async () => {
+    const { key } = await createKey(fixture, fixture.tenant, [Permission.MANAGE_API_KEYS, Permission.VIEW_WALLET]);
+
+    const allowed = await request(fixture, 'POST', '/api/api-keys', key, {
+      name: 'narrower',
+      scopes: [Permission.VIEW_WALLET],
+    });
+    assert(allowed.status === 201, `Key with a held scope should be created, got ${allowed.status}`);
+    fixture.keyIds.push(allowed.body.apiKey.id);
+    assert(allowed.body.apiKey.tenantId === fixture.tenant, 'New key should belong to the caller tenant');
+
+    const wider = await request(fixture, 'POST', '/api/api-keys', key, {
+      name: 'wider',
+      scopes: [Permission.VIEW_WALLET, Permission.EXECUTE_TRANSACTION],
+    });
+    assert(wider.status === 403, `Key with a scope the caller lacks should be refused, got ${wider.status}`);
+
+    // Rotating reissues the scopes of the key, so the caller must hold them too
+    const privileged = await createKey(fixture, fixture.tenant, [Permission.CONFIGURE_SYSTEM]);
+    const rotation = await request(fixture, 'POST', `/api/api-keys/${privileged.apiKey.id}/rotate`, key);
+    assert(rotation.status === 403, `Rotating a key with wider scopes should be refused, got ${rotation.status}`);
+
+    const created = (await apiKeyService.listKeys(fixture.tenant)).filter(apiKey => apiKey.name === 'wider');
+    assert(created.length === 0, 'No key with wider scopes should exist');
+  });
+
+const testTenantIsolation = (fixture: ApiKeyFixture): Promise<TestResult> =>
+  runTest('Tenant Isolation', async () => {
+    const { key } = await createKey(fixture, fixture.tenant, [Permission.MANAGE_API_KEYS, Permission.VIEW_WALLET]);
+    const foreign = await createKey(fixture, fixture.otherTenant, [Permission.VIEW_WALLET]);
+
+    const listed = await request(fixture, 'GET', '/api/api-keys', key);
+    assert(listed.status === 200, `Listing should succeed, got ${listed.status}`);
+    assert(
+      listed.body.keys.every((apiKey: ApiKey) => apiKey.tenantId === fixture.tenant && !('keyHash' in apiKey)),
+      'Listing should only return keys of the caller tenant, without hashes'
+    );
+
+    const otherList = await request(fixture, 'GET', `/api/api-keys?tenantId=${fixture.otherTenant}`, key);
+    assert(otherList.status === 403, `Listing another tenant should be refused, got ${otherList.status}`);
+
+    const created = await request(fixture, 'POST', '/api/api-keys', key, {
+      name: 'foreign',
+      tenantId: fixture.otherTenant,
+      scopes: [Permission.VIEW_WALLET],
+    });
+    assert(created.status === 403, `Creating a key for another tenant should be refused, got ${created.status}`);
+
+    // Keys of other tenants look like missing keys
+    const path = `/api/api-keys/${foreign.apiKey.id}`;
+    for (const [method, url] of [
+      ['GET', path],
+      ['DELETE', path],
+      ['POST', `${path}/rotate`],
+    ]) {
+      const response = await request(fixture, method, url, key);
+      assert(response.status === 404, `${method} ${url} of another tenant should be refused, got ${response.status}`);
+    }
+
+    const untouched = await apiKeyService.getKey(foreign.apiKey.id);
+    assert(untouched?.status === 'active' && !untouched.rotatedTo, 'Key of the other tenant should be untouched');
+  });
+
+const testParentLimits = (fixture: ApiKeyFixture): Promise<TestResult> =>
+  runTest('Parent Key Limits', async () => {
+    // The earlier tests used up the window of sensitive operations of this address
+    sensitiveOperationLimiter.resetKey('127.0.0.1');
+
+    const expiresAt = Date.now() + 60 * 60 * 1000;
+    const { key } = await createKey(fixture, fixture.tenant, [Permission.MANAGE_API_KEYS, Permission.VIEW_WALLET], {
+      allowedIps: ['127.0.0.0/8', '10.0.0.1'],
+      expiresAt,
+    });
+    const child = { name: 'child', scopes: [Permission.VIEW_WALLET], allowedIps: ['127.0.0.1'], expiresAt };
+
+    const refused: [string, object][] = [
+      ['A later expiry', { ...child, expiresAt: expiresAt + 1 }],
+      ['No expiry', { ...child, expiresAt: undefined }],
+      ['No allowlist', { ...child, allowedIps: undefined }],
+      ['A wider range', { ...child, allowedIps: ['127.1.0.0/16', '10.0.0.0/24'] }],
+    ];
+    for (const [label, body] of refused) {
+      const response = await request(fixture, 'POST', '/api/api-keys', key, body);
+      assert(response.status === 403, `${label} than the calling key should be refused, got ${response.status}`);
+    }
+
+    const allowed = await request(fixture, 'POST', '/api/api-keys', key, {
+      ...child,
+      allowedIps: ['127.1.0.0/16', '10.0.0.1'],
+      expiresAt: expiresAt - 1,
+    });
+    assert(allowed.status === 201, `Key within the calling key should be created, got ${allowed.status}`);
+    fixture.keyIds.push(allowed.body.apiKey.id);
+
+    const created = (await apiKeyService.listKeys(fixture.tenant)).filter(apiKey => apiKey.name === 'child');
+    assert(created.length === 1, `Only the key within the calling key should exist, found ${created.length}`);
+  });
+
+/**
+ * Create a key and remember it for clean-up
+ * @param fixture Run fixture
+ * @param tenantId Tenant of the key
+ * @param scopes Scopes of the key
+ * @param params Other key parameters
+ */
+const createKey = async (
+  fixture: ApiKeyFixture,
+  tenantId: string,
+  scopes: Permission[],
+  params: { allowedIps?: string[]; expiresAt?: number; rateLimit?: { windowMs: number; max: number } } = {}
+): Promise<{ apiKey: ApiKey; key: string }> => {
+  const created = await apiKeyService.createKey({ tenantId, name: 'api key test', scopes, ...params }, CREATOR);
+  fixture.keyIds.push(created.apiKey.id);
+  return created;
+};
+
+/**
+ * Call the test server
+ * @param fixture Run fixture
+ * @param method HTTP method
+ * @param path Request path
+ * @param key API key to authenticate with
+ * @param body JSON body
+ */
+const request = (
+  fixture: ApiKeyFixture,
+  method: string,
+  path: string,
+  key?: string,
+  body?: object
+): Promise<TestResponse> =>
+  new Promise((resolve, reject) => {
+    const payload = body ? JSON.stringify(body) : undefined;
+    const req = http.request(
+      `${fixture.baseUrl}${path}`,
+      {
+        method,
+        headers: {
+          ...(key && { 'x-api-key': key }),
+          ...(payload && { 'content-type': 'application/json', 'content-length': Buffer.byteLength(payload) }),
+        },
+      },
+      res => {
+        let data = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => (data += chunk));
+        res.on('end', () => resolve({ status: res.statusCode || 0, body: data ? JSON.parse(data) : undefined }));
+      }
+    );
+    req.on('error', reject);
+    req.end(payload);
+  });
+
+/**
+ * Delete the keys and rate limit windows of the run
+ * @param fixture Run fixture
+ */
+const removeKeys = async (fixture: ApiKeyFixture): Promise<void> => {
+  const db = await getDatabase();
+  for (const tenantId of [fixture.tenant, fixture.otherTenant]) {
+    for (const apiKey of await apiKeyService.listKeys(tenantId)) {
+      fixture.keyIds.push(apiKey.id);
+    }
+  }
+  for (const id of new Set(fixture.keyIds)) {
+    await db.delete('api_keys', id);
+    await db.delete('api_key_rate_limits', id);
+  }
+};
+
+/**
+ * Message of the ApiKeyError a call fails with
+ * @param call Pending call
+ * @throws Error if it succeeds or fails with another error
+ */
+const rejection = async (call: Promise<unknown>): Promise<string> => {
+  try {
+    await call;
+  } catch (error) {
+    if (!(error instanceof ApiKeyError)) {
+      throw error;
+    }
+    return error.message;
+  }
+  throw new Error('Call should have failed');
+};
+
+/**
+ * Run a suite of tests in order
+ * @param name Suite name
+ * @param tests Tests
+ */
+const runSuite = async (name: string, tests: (() => Promise<TestResult>)[]): Promise<TestSuiteResult> => {
+  const startTime = Date.now();
+  const results: TestResult[] = [];
+
+  for (const test of tests) {
+    results.push(await test());
+  }
+
+  const passed = results.filter(t => t.success).length;
+  const skipped = results.filter(t => t.skipped).length;
+  const failed = results.length - passed - skipped;
+  logger.info(`${name}: ${passed} passed, ${failed} failed, ${skipped} skipped`);
+
+  return {
+    name,
+    tests: results,
+    passed,
+    failed,
+    skipped,
+    duration: Date.now() - startTime,
+    timestamp: Date.now(),
+  };
+};
+
+/**
+ * Summary of a suite that could not run
+ * @param name Suite name
+ * @param reason Why it was skipped
+ */
+const skippedSuite = (name: string, reason: string): TestSuiteResult => ({
+  name,
+  tests: [{ name: 'All', success: false, skipped: true, error: reason, duration: 0 }],
+  passed: 0,
+  failed: 0,
+  skipped: 1,
+  duration: 0,
+  timestamp: Date.now(),
+});
+
+/**
+ * Run a test body and time it
+ * @param name Test name
+ * @param body Test body, returning details
+ */
+const runTest = async (name: string, body: () => Promise<Record<string, any> | void>): Promise<TestResult> => {
+  const startTime = Date.now();
+  try {
+    const details = await body();
+    return { name, success: true, duration: Date.now() - startTime, details: details || undefined };
+  } catch (error) {
+    logger.error(`Test ${name} failed:`, error);
+    return { name, success: false, error: String(error), duration: Date.now() - startTime };
+  }
+};
+
+/**
+ * Fail unless a condition holds
+ * @param condition Condition
+ * @param message Failure message
+ */
+const assert = (condition: unknown, message: string): void => {
+  if (!condition) {
+    throw new Error(message);
+  }
+};
+
+if (require.main === module) {
+  runApiKeyTests()
+    .then(results => {
+      const suites = Object.values(results);
+      for (const suite of suites) {
+        for (const test of suite.tests) {
+          const status = test.skipped ? 'SKIP' : test.success ? 'PASS' : 'FAIL';
+          console.log(`[${status}] ${suite.name} - ${test.name}${test.error ? `: ${test.error}` : ''}`);
+        }
+      }
+      process.exit(suites.some(suite => suite.failed > 0) ? 1 : 0);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,931 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { logger } from '../../utils/logger';
+import { getDatabase } from '../../config/database';
+import { ChainRegistry } from '../../services/chain-registry';
+import { DEFAULT_GAS_SPEEDS, GasOracle } from '../../services/gas-oracle';
+import { getTransactionStatus } from '../../services/batching';
+import { composeBatch } from '../../services/batching/composer';
+import { BatchCall } from '../../services/batching/multicall';
+import {
+  BatchExecutor,
+  BatchingError,
+  BatchQueue,
+  BatchQueueOptions,
+  BatchRecord,
+  BatchTransactionRequest,
+  QueuedTransaction,
+} from '../../services/batching/queue';
+
+/**
+ * Batching queue tests. Composition and queueing are tested against a
+ * registry alone. The chain tests batch into an Anvil node at
+ * BATCHING_TEST_RPC_URL (default http://127.0.0.1:8545), where a Multicall3
+ * is deployed and each batch is sent through the batch call of a BatchWallet
+ * owned by an unlocked node account, and are skipped when no node answers.
+ *
+ * Run with `npm run test:batching`.
+ */
+
+// Test result
+interface TestResult {
+  name: string;
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+  duration: number; // milliseconds
+  details?: Record<string, any>;
+}
+
+// Test suite result
+interface TestSuiteResult {
+  name: string;
+  tests: TestResult[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number; // milliseconds
+  timestamp: number;
+}
+
+// Registry holding the test chain, and the node if one answers
+interface ChainFixture {
+  provider?: ethers.providers.JsonRpcProvider;
+  chainId: number;
+  registry: ChainRegistry;
+  registryFile: string;
+  oracle: GasOracle;
+  wallet: string; // BatchWallet transactions are queued for
+  reverter?: string; // Contract that reverts every call
+  target?: string; // BatchTarget contract
+}
+
+// Executor sending batches through a BatchWallet, recording what it sent
+interface TestExecutor extends BatchExecutor {
+  executed: string[]; // Batch IDs
+}
+
+const RPC_URL = process.env.BATCHING_TEST_RPC_URL || 'http://127.0.0.1:8545';
+const CONNECT_TIMEOUT_MS = 3000;
+
+// Chain ID used when no node answers
+const OFFLINE_CHAIN_ID = 31337;
+
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+
+// Wallet transactions are queued for when no node answers
+const OFFLINE_WALLET = '0x2222222222222222222222222222222222222222';
+
+// Init code of a contract whose code is PUSH1 0 PUSH1 0 REVERT
+const REVERTER_INIT_CODE = '0x6460006000fd6000526005601bf3';
+
+// Init code of Multicall3's aggregate3Value, compiled with solc 0.8.24
+const MULTICALL_INIT_CODE =
+  '0x608060405234801561000f575f80fd5b506104bc8061001d5f395ff3fe60806040526004361061001d575f3560e01c8063174dea7114610021575b5f80fd5b61003461002f36600461025b565b61004a565b60405161004191906102ca565b60405180910390f35b60605f828067ffffffffffffffff81111561006757610067610376565b6040519080825280602002602001820160405280156100ac57816020015b604080518082019091525f8152606060208201528152602001906001900390816100855790505b5092505f5b81811015610203575f8482815181106100cc576100cc61038a565b60200260200101519050368787848181106100e9576100e961038a565b90506020028101906100fb919061039e565b9050604081013561010c81876103bc565b955061011b60208301836103e1565b6001600160a01b031681610132606085018561040e565b604051610140929190610458565b5f6040518083038185875af1925050503d805f811461017a576040519150601f19603f3d011682016040523d82523d5f602084013e61017f565b606091505b50602080860191909152901515845261019e9060408401908401610467565b806101a7575082515b6101f85760405162461bcd60e51b815260206004820152601760248201527f4d756c746963616c6c333a2063616c6c206661696c656400000000000000000060448201526064015b60405180910390fd5b5050506001016100b1565b508134146102535760405162461bcd60e51b815260206004820152601a60248201527f4d756c746963616c6c333a2076616c7565206d69736d6174636800000000000060448201526064016101ef565b505092915050565b5f806020838503121561026c575f80fd5b823567ffffffffffffffff80821115610283575f80fd5b818501915085601f830112610296575f80fd5b8135818111156102a4575f80fd5b8660208260051b85010111156102b8575f80fd5b60209290920196919550909350505050565b5f60208083018184528085518083526040925060408601915060408160051b8701018488015f5b8381101561036857888303603f19018552815180511515845287015187840187905280518785018190525f5b81811015610339578281018a015186820160600152890161031d565b505f85820160609081019190915296890196601f909101601f19169094019093019250908601906001016102f1565b509098975050505050505050565b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f52603260045260245ffd5b5f8235607e198336030181126103b2575f80fd5b9190910192915050565b808201808211156103db57634e487b7160e01b5f52601160045260245ffd5b92915050565b5f602082840312156103f1575f80fd5b81356001600160a01b0381168114610407575f80fd5b9392505050565b5f808335601e19843603018112610423575f80fd5b83018035915067ffffffffffffffff82111561043d575f80fd5b602001915036819003821315610451575f80fd5b9250929050565b818382375f9101908152919050565b5f60208284031215610477575f80fd5b81358015158114610407575f80fdfea264697066735822122061e3d6c7d561492029e25a87b3e10ee9f74d2820d9cdb68d3c46c4af787a4e6664736f6c63430008180033';
+
+// Init code of BatchTarget, compiled with solc 0.8.24: deposit() credits
+// msg.value to msg.sender, and withdraw(amount) debits it, reverting with
+// "Insufficient balance" when it would go negative
+const BATCH_TARGET_INIT_CODE =
+  '0x608060405234801561000f575f80fd5b506101fb8061001d5f395ff3fe608060405260043610610033575f3560e01c80632e1a7d4d1461003757806370a0823114610058578063d0e30db014610095575b5f80fd5b348015610042575f80fd5b50610056610051366004610141565b61009d565b005b348015610063575f80fd5b50610083610072366004610158565b5f6020819052908152604090205481565b60405190815260200160405180910390f35b61005661011c565b335f908152602081905260409020548111156100f65760405162461bcd60e51b8152602060048201526014602482015273496e73756666696369656e742062616c616e636560601b604482015260640160405180910390fd5b335f9081526020819052604081208054839290610114908490610199565b909155505050565b335f908152602081905260408120805434929061013a9084906101b2565b9091555050565b5f60208284031215610151575f80fd5b5035919050565b5f60208284031215610168575f80fd5b81356001600160a01b038116811461017e575f80fd5b9392505050565b634e487b7160e01b5f52601160045260245ffd5b818103818111156101ac576101ac610185565b92915050565b808201808211156101ac576101ac61018556fea2646970667358221220fe0c255525a716c6eebcf2f50aabadd71d1047961986634c106effff4c3a3eab64736f6c63430008180033';
+
+// Init code of BatchWallet, compiled with solc 0.8.24: executeBatch(calls),
+// callable by its deployer, makes each call from the wallet and reverts with
+// the first failing call not allowed to fail
+const BATCH_WALLET_INIT_CODE =
+  '0x60a0604052336080526080516105426100255f395f8181607c015260c301526105425ff3fe60806040526004361061002b575f3560e01c8063329aa2b9146100365780638da5cb5b1461006b575f80fd5b3661003257005b5f80fd5b348015610041575f80fd5b50610055610050366004610306565b6100b6565b6040516100629190610375565b60405180910390f35b348015610076575f80fd5b5061009e7f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b039091168152602001610062565b6060336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146101205760405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b604482015260640160405180910390fd5b8167ffffffffffffffff81111561013957610139610421565b60405190808252806020026020018201604052801561017e57816020015b604080518082019091525f8152606060208201528152602001906001900390816101575790505b5090505f5b828110156102ff575f8085858481811061019f5761019f610435565b90506020028101906101b19190610449565b6101bf906020810190610467565b6001600160a01b03168686858181106101da576101da610435565b90506020028101906101ec9190610449565b6020013587878681811061020257610202610435565b90506020028101906102149190610449565b610222906040810190610494565b6040516102309291906104de565b5f6040518083038185875af1925050503d805f811461026a576040519150601f19603f3d011682016040523d82523d5f602084013e61026f565b606091505b5091509150811580156102b4575085858481811061028f5761028f610435565b90506020028101906102a19190610449565b6102b29060808101906060016104ed565b155b156102c157805160208201fd5b60405180604001604052808315158152602001828152508484815181106102ea576102ea610435565b60209081029190910101525050600101610183565b5092915050565b5f8060208385031215610317575f80fd5b823567ffffffffffffffff8082111561032e575f80fd5b818501915085601f830112610341575f80fd5b81358181111561034f575f80fd5b8660208260051b8501011115610363575f80fd5b60209290920196919550909350505050565b5f60208083018184528085518083526040925060408601915060408160051b8701018488015f5b8381101561041357888303603f19018552815180511515845287015187840187905280518785018190525f5b818110156103e4578281018a01518682016060015289016103c8565b505f85820160609081019190915296890196601f909101601f191690940190930192509086019060010161039c565b509098975050505050505050565b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f52603260045260245ffd5b5f8235607e1983360301811261045d575f80fd5b9190910192915050565b5f60208284031215610477575f80fd5b81356001600160a01b038116811461048d575f80fd5b9392505050565b5f808335601e198436030181126104a9575f80fd5b83018035915067ffffffffffffffff8211156104c3575f80fd5b6020019150368190038213156104d7575f80fd5b9250929050565b818382375f9101908152919050565b5f602082840312156104fd575f80fd5b8135801515811461048d575f80fdfea2646970667358221220bf06aeb01df7a2d6038a7a58db8d7e79d715843876063f2670fe5822903fee1a64736f6c63430008180033';
+
+// Init code of TestToken, compiled with solc 0.8.24: an ERC-20 balance and
+// allowance ledger whose mint(to, amount) anyone may call, and whose
+// transferFrom reverts with "Insufficient allowance" past the allowance
+const TEST_TOKEN_INIT_CODE =
+  '0x608060405234801561000f575f80fd5b506104018061001d5f395ff3fe608060405234801561000f575f80fd5b5060043610610055575f3560e01c8063095ea7b31461005957806323b872dd1461008157806340c10f191461009457806370a08231146100a9578063dd62ed3e146100d6575b5f80fd5b61006c6100673660046102df565b610100565b60405190151581526020015b60405180910390f35b61006c61008f366004610307565b61012d565b6100a76100a23660046102df565b610294565b005b6100c86100b7366004610340565b5f6020819052908152604090205481565b604051908152602001610078565b6100c86100e4366004610360565b600160209081525f928352604080842090915290825290205481565b335f9081526001602081815260408084206001600160a01b03871685529091529091208290555b92915050565b6001600160a01b0383165f90815260016020908152604080832033845290915281205482111561019d5760405162461bcd60e51b8152602060048201526016602482015275496e73756666696369656e7420616c6c6f77616e636560501b60448201526064015b60405180910390fd5b6001600160a01b0384165f908152602081905260409020548211156101fb5760405162461bcd60e51b8152602060048201526014602482015273496e73756666696369656e742062616c616e636560601b6044820152606401610194565b6001600160a01b0384165f9081526001602090815260408083203384529091528120805484929061022d9084906103a5565b90915550506001600160a01b0384165f90815260208190526040812080548492906102599084906103a5565b90915550506001600160a01b0383165f90815260208190526040812080548492906102859084906103b8565b90915550600195945050505050565b6001600160a01b0382165f90815260208190526040812080548392906102bb9084906103b8565b90915550505050565b80356001600160a01b03811681146102da575f80fd5b919050565b5f80604083850312156102f0575f80fd5b6102f9836102c4565b946020939093013593505050565b5f805f60608486031215610319575f80fd5b610322846102c4565b9250610330602085016102c4565b9150604084013590509250925092565b5f60208284031215610350575f80fd5b610359826102c4565b9392505050565b5f8060408385031215610371575f80fd5b61037a836102c4565b9150610388602084016102c4565b90509250929050565b634e487b7160e01b5f52601160045260245ffd5b8181038181111561012757610127610391565b808201808211156101275761012761039156fea26469706673582212207c4d206c07097c463267b21a6dd0903abd79ecf070d9c64f4fd06407f7a27f8a64736f6c63430008180033';
+
+const batchWalletInterface = new ethers.utils.Interface([
+  'function executeBatch(tuple(address to, uint256 value, bytes data, bool allowFailure)[] calls) returns (tuple(bool success, bytes returnData)[] results)',
+]);
+
+const testTokenInterface = new ethers.utils.Interface([
+  'function mint(address to, uint256 amount)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function transferFrom(address from, address to, uint256 amount) returns (bool)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+]);
+
+const batchTargetInterface = new ethers.utils.Interface([
+  'function deposit() payable',
+  'function withdraw(uint256 amount)',
+  'function balanceOf(address account) view returns (uint256)',
+]);
+
+const TEST_OPTIONS: BatchQueueOptions = {
+  workerId: 'worker-a',
+  leaseMs: 60 * 1000,
+  maxAttempts: 2,
+  retryDelayMs: 1,
+  pollIntervalMs: 60 * 60 * 1000, // Processing is run by the tests rather than on an interval
+  receiptTimeoutMs: 10 * 1000,
+};
+
+/**
+ * Run every batching test suite
+ * @returns Results by suite
+ */
+export const runBatchingTests = async (): Promise<Record<string, TestSuiteResult>> => {
+  const fixture = await createFixture();
+  try {
+    const results: Record<string, TestSuiteResult> = {
+      composition: await runSuite('Composition', [testComposeOrder, testComposeDependencies]),
+      queue: await runSuite('Queue', [
+        () => testIdempotencyKey(fixture),
+        () => testValidation(fixture),
+        () => testDependencyValidation(fixture),
+        () => testCancel(fixture),
+      ]),
+    };
+
+    if (!fixture.provider) {
+      results.chain = skippedSuite('Local Chain', `No node answers at ${RPC_URL}`);
+      return results;
+    }
+
+    results.chain = await runSuite('Local Chain', [
+      () => testExecuteBatch(fixture),
+      () => testRevertIsolation(fixture),
+      () => testWalletSender(fixture),
+      () => testLeaseContention(fixture),
+      () => testGasPriceGating(fixture),
+      () => testRevertedBatch(fixture),
+      () => testDeadLetter(fixture),
+      () => testReconcileMinedBatch(fixture),
+      () => testReconcileUnbroadcastBatch(fixture),
+      () => testReconcilePendingBatch(fixture),
+    ]);
+    return results;
+  } finally {
+    await fixture.provider?.send('evm_setAutomine', [true]);
+    fs.rmSync(fixture.registryFile, { force: true });
+  }
+};
+
+/**
+ * Test dependencies are placed before their dependents, and otherwise
+ * priority then age decides
+ */
+const testComposeOrder = (): Promise<TestResult> =>
+  runTest('Topological Order', async () => {
+    const approve = queuedTransaction('approve', { priority: 'low', timestamp: 1 });
+    const swap = queuedTransaction('swap', { priority: 'high', timestamp: 2, dependsOn: ['approve'] });
+    const transfer = queuedTransaction('transfer', { priority: 'medium', timestamp: 3 });
+    const claim = queuedTransaction('claim', { priority: 'high', timestamp: 4, dependsOn: ['transfer'] });
+    const candidates = [swap, claim, approve, transfer];
+
+    const full = composeBatch(candidates, new Map(), 10);
+    const order = full.transactions.map(tx => tx.id).join(',');
+    assert(order === 'transfer,claim,approve,swap', `Unexpected order ${order}`);
+
+    const cut = composeBatch(candidates, new Map(), 3);
+    assert(cut.transactions.map(tx => tx.id).join(',') === 'transfer,claim,approve', 'A cut batch should keep dependencies');
+  });
+
+/**
+ * Test transactions wait for dependencies outside the batch and are
+ * unsatisfiable once one can never complete
+ */
+const testComposeDependencies = (): Promise<TestResult> =>
+  runTest('Dependency States', async () => {
+    const dependencies = new Map(
+      [
+        queuedTransaction('done', { status: 'completed' }),
+        queuedTransaction('pending', { status: 'batched' }),
+        queuedTransaction('dead', { status: 'dead_letter' }),
+      ].map(tx => [tx.id, tx])
+    );
+    const candidates = [
+      queuedTransaction('after-done', { dependsOn: ['done'] }),
+      queuedTransaction('after-pending', { dependsOn: ['pending'] }),
+      queuedTransaction('after-waiting', { dependsOn: ['after-pending'] }),
+      queuedTransaction('after-dead', { dependsOn: ['dead'] }),
+      queuedTransaction('after-unsatisfiable', { dependsOn: ['after-dead'] }),
+      queuedTransaction('after-missing', { dependsOn: ['missing'] }),
+    ];
+
+    const { transactions, unsatisfiable } = composeBatch(candidates, dependencies, 10);
+    assert(transactions.map(tx => tx.id).join(',') === 'after-done', 'Only transactions after completed ones should be batched');
+    assert(
+      [...unsatisfiable.keys()].sort().join(',') === 'after-dead,after-missing,after-unsatisfiable',
+      `Unexpected unsatisfiable transactions ${[...unsatisfiable.keys()]}`
+    );
+    assert(unsatisfiable.get('after-dead') === 'Dependency dead dead-letter', 'Reason should name the dependency');
+  });
+
+/**
+ * Test queueing again with a key returns the first transaction, and a key
+ * reused for another transaction is rejected
+ */
+const testIdempotencyKey = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Idempotency Key', async () => {
+    await clearQueue(fixture);
+    const queue = createQueue(fixture, createExecutor(fixture));
+    const request = transactionRequest(fixture, { idempotencyKey: 'order-42' });
+
+    const first = await queue.enqueue(request);
+    const [again, concurrent] = await Promise.all([
+      queue.enqueue({ ...request, walletAddress: request.walletAddress.toLowerCase() }),
+      queue.enqueue(request),
+    ]);
+    assert(again.id === first.id && concurrent.id === first.id, 'Queueing again should return the first transaction');
+    assert(again.timestamp === first.timestamp, 'The stored transaction should be returned');
+
+    const queued = await queuedTransactions(fixture);
+    assert(queued.length === 1, `One transaction should be stored, got ${queued.length}`);
+
+    await expectError(queue.enqueue({ ...request, value: '2' }), 409);
+    return { id: first.id };
+  });
+
+/**
+ * Test invalid transactions are rejected
+ */
+const testValidation = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Validation', async () => {
+    const queue = createQueue(fixture, createExecutor(fixture));
+    const request = transactionRequest(fixture);
+    await expectError(queue.enqueue({ ...request, chainId: fixture.chainId + 1 }), 400);
+    await expectError(queue.enqueue({ ...request, to: '0x1234' }), 400);
+    await expectError(queue.enqueue({ ...request, data: '0x123' }), 400);
+    await expectError(queue.enqueue({ ...request, value: '-1' }), 400);
+    await expectError(queue.enqueue({ ...request, idempotencyKey: '' }), 400);
+  });
+
+/**
+ * Test dependencies must exist on the chain and may still complete
+ */
+const testDependencyValidation = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Dependency Validation', async () => {
+    await clearQueue(fixture);
+    const queue = createQueue(fixture, createExecutor(fixture));
+    const dependency = await queue.enqueue(transactionRequest(fixture));
+    const dependent = await queue.enqueue(transactionRequest(fixture, { dependsOn: [dependency.id] }));
+    assert(dependent.dependsOn?.[0] === dependency.id, 'Dependencies should be stored');
+
+    await expectError(queue.enqueue(transactionRequest(fixture, { dependsOn: ['tx-missing'] })), 400);
+    await expectError(queue.enqueue(transactionRequest(fixture, { dependsOn: [dependency.id, dependency.id] })), 400);
+    await queue.cancel(dependency.id);
+    await expectError(queue.enqueue(transactionRequest(fixture, { dependsOn: [dependency.id] })), 400);
+  });
+
+/**
+ * Test queued transactions can be cancelled once and are not batched
+ */
+const testCancel = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Cancel', async () => {
+    await clearQueue(fixture);
+    const queue = createQueue(fixture, createExecutor(fixture));
+    const transaction = await queue.enqueue(transactionRequest(fixture));
+
+    assert(await queue.cancel(transaction.id), 'A queued transaction should be cancelled');
+    assert(!(await queue.cancel(transaction.id)), 'A cancelled transaction should not be cancelled again');
+    assert((await queue.getTransaction(transaction.id))?.status === 'cancelled', 'Transaction should be cancelled');
+    assert((await queuedTransactions(fixture)).length === 0, 'A cancelled transaction should leave the queue');
+  });
+
+/**
+ * Test a wallet's queued transactions are sent in one batch and completed
+ * from its receipt
+ */
+const testExecuteBatch = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Execute Batch', async () => {
+    await clearQueue(fixture);
+    const executor = createExecutor(fixture);
+    const queue = createQueue(fixture, executor);
+    const wallet = fixture.wallet;
+
+    const low = await queue.enqueue(transactionRequest(fixture, { walletAddress: wallet, priority: 'low' }));
+    const high = await queue.enqueue(transactionRequest(fixture, { walletAddress: wallet, priority: 'high' }));
+    await queue.processChain(fixture.chainId);
+    assert(executor.executed.length === 0, 'Fewer than minTransactions should stay queued');
+
+    await queue.enqueue(transactionRequest(fixture, { walletAddress: wallet.toLowerCase() }));
+    await queue.processChain(fixture.chainId);
+    assert(executor.executed.length === 1, `One batch should be sent, got ${executor.executed.length}`);
+
+    const batch = await queue.getBatch(executor.executed[0]);
+    assert(batch?.status === 'completed' && batch.txHash && batch.gasUsed, 'Batch should be completed from its receipt');
+    assert(batch?.transactions[0] === high.id && batch.transactions[2] === low.id, 'Batch should be ordered by priority');
+    assert(batch?.totalValue === '3', 'Batch should total its values');
+
+    const transaction = await queue.getTransaction(low.id);
+    assert(transaction?.status === 'completed' && transaction.batchId === batch?.id, 'Transactions should be completed');
+    assert(transaction?.attempts === 1, 'Transactions should have one attempt');
+    return { batchId: batch?.id, txHash: batch?.txHash };
+  });
+
+/**
+ * Test transactions reverting in simulation are taken out of the batch with
+ * their dependents, and each call's result is reported on its transaction
+ */
+const testRevertIsolation = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Revert Isolation', async () => {
+    await clearQueue(fixture);
+    const executor = createExecutor(fixture);
+    const queue = createQueue(fixture, executor);
+    queue.updateConfig(fixture.chainId, { minTransactions: 1 });
+    const target = fixture.target as string;
+    const call = (data: string, changes: Partial<BatchTransactionRequest> = {}) =>
+      queue.enqueue(transactionRequest(fixture, { to: target, data, value: '0', ...changes }));
+
+    const withdraw = await call(withdrawData(3), { priority: 'high' });
+    const deposit = await call(batchTargetInterface.encodeFunctionData('deposit'), { value: '5', priority: 'low' });
+    // Queued before its dependency, so only the composer puts it after the deposit
+    const db = await getDatabase();
+    await db.put('pendingTransactions', { ...withdraw, dependsOn: [deposit.id] });
+    const overdraw = await call(withdrawData(100), { allowFailure: true });
+    const afterOverdraw = await call(withdrawData(1), { dependsOn: [overdraw.id] });
+    const broken = await queue.enqueue(transactionRequest(fixture, { to: fixture.reverter, value: '0' }));
+
+    await queue.processChain(fixture.chainId);
+    const batch = await queue.getBatch(executor.executed[0]);
+    assert(batch?.status === 'completed', `Batch should complete, got ${batch?.status}: ${batch?.error}`);
+    assert(batch?.transactions.join(',') === `${deposit.id},${withdraw.id}`, 'Batch should hold the deposit, then the withdrawal');
+
+    const deposited = await getTransactionStatus(deposit.id);
+    assert(deposited.success === true && Number(deposited.gasUsed) > 0, 'Deposit should succeed with its gas traced');
+    assert((await queue.getTransaction(withdraw.id))?.status === 'completed', 'Withdrawal should complete');
+
+    const overdrawn = await getTransactionStatus(overdraw.id);
+    assert(overdrawn.transaction?.status === 'failed', 'A reverting transaction allowed to fail should fail');
+    assert(overdrawn.success === false && overdrawn.revertReason === 'Insufficient balance', 'Revert reason should be reported');
+    const waiting = await queue.getTransaction(afterOverdraw.id);
+    assert(waiting?.status === 'queued' && waiting.attempts === 0, 'A dependent should be queued again without an attempt');
+    const retried = await queue.getTransaction(broken.id);
+    assert(retried?.status === 'queued' && retried.lastError === 'Simulation reverted: no reason given', 'Reverting transaction should be retried');
+
+    await sleep(5);
+    await queue.processChain(fixture.chainId);
+    const deadLetter = await queue.getTransaction(afterOverdraw.id);
+    assert(deadLetter?.status === 'dead_letter', 'A dependent of a failed transaction should be dead-lettered');
+    assert(deadLetter?.lastError === `Dependency ${overdraw.id} failed`, `Unexpected reason ${deadLetter?.lastError}`);
+
+    const balance = await new ethers.Contract(target, batchTargetInterface, fixture.provider).balanceOf(fixture.wallet);
+    assert(balance.eq(2), `Deposit and withdrawal should both run from the wallet, left ${balance}`);
+    return { batchId: batch?.id, gasUsed: deposited.gasUsed };
+  });
+
+/**
+ * Test each call of a batch is made by its wallet: an ERC-20 approval and a
+ * transferFrom spending it succeed in one batch
+ */
+const testWalletSender = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Wallet Sender', async () => {
+    await clearQueue(fixture);
+    const executor = createExecutor(fixture);
+    const queue = createQueue(fixture, executor);
+    queue.updateConfig(fixture.chainId, { minTransactions: 1 });
+    const provider = fixture.provider as ethers.providers.JsonRpcProvider;
+    const token = new ethers.Contract(await deployContract(provider, TEST_TOKEN_INIT_CODE), testTokenInterface, provider);
+    await (await token.connect(provider.getSigner(0)).mint(fixture.wallet, 100)).wait();
+
+    const approve = await queue.enqueue(
+      transactionRequest(fixture, {
+        to: token.address,
+        data: testTokenInterface.encodeFunctionData('approve', [fixture.wallet, 60]),
+        value: '0',
+      })
+    );
+    const transfer = await queue.enqueue(
+      transactionRequest(fixture, {
+        to: token.address,
+        data: testTokenInterface.encodeFunctionData('transferFrom', [fixture.wallet, RECIPIENT, 60]),
+        value: '0',
+        dependsOn: [approve.id],
+      })
+    );
+    await queue.processChain(fixture.chainId);
+
+    const batch = await queue.getBatch(executor.executed[0]);
+    assert(batch?.status === 'completed', `Batch should complete, got ${batch?.status}: ${batch?.error}`);
+    assert(batch?.transactions.join(',') === `${approve.id},${transfer.id}`, 'Batch should hold the approval, then the transfer');
+    const transferred = await getTransactionStatus(transfer.id);
+    assert(transferred.transaction?.status === 'completed' && transferred.success === true, 'Transfer should succeed');
+    assert((await token.balanceOf(RECIPIENT)).eq(60), 'Recipient should receive the tokens');
+    assert((await token.allowance(fixture.wallet, fixture.wallet)).isZero(), 'Transfer should spend the wallet\'s allowance');
+    return { batchId: batch?.id, txHash: batch?.txHash };
+  });
+
+/**
+ * Test two workers processing one queue send each batch once
+ */
+const testLeaseContention = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Lease Contention', async () => {
+    await clearQueue(fixture);
+    const executor = createExecutor(fixture);
+    const first = createQueue(fixture, executor);
+    const second = createQueue(fixture, executor, { workerId: 'worker-b' });
+    for (let i = 0; i < 3; i++) {
+      await first.enqueue(transactionRequest(fixture));
+    }
+
+    await Promise.all([first.processChain(fixture.chainId), second.processChain(fixture.chainId)]);
+    assert(executor.executed.length === 1, `The batch should be sent once, got ${executor.executed.length}`);
+
+    // A worker finding the lease held leaves the batch alone
+    const batch = (await first.getBatch(executor.executed[0])) as BatchRecord;
+    const db = await getDatabase();
+    await db.put('batches', { ...batch, status: 'executing', leaseExpiresAt: Date.now() + 60 * 1000 });
+    await second.recover();
+    assert((await second.getBatch(batch.id))?.status === 'executing', 'A leased batch should not be reconciled');
+    await db.put('batches', batch);
+  });
+
+/**
+ * Test transactions capping the gas price wait, and expired ones are dead-lettered
+ */
+const testGasPriceGating = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Gas Price Gating', async () => {
+    await clearQueue(fixture);
+    const executor = createExecutor(fixture);
+    const queue = createQueue(fixture, executor);
+    queue.updateConfig(fixture.chainId, { minTransactions: 1 });
+
+    const capped = await queue.enqueue(transactionRequest(fixture, { maxGasPrice: '1' }));
+    const expired = await queue.enqueue(transactionRequest(fixture, { deadline: Date.now() - 1 }));
+    await queue.processChain(fixture.chainId);
+
+    assert(executor.executed.length === 0, 'No batch should be sent');
+    assert((await queue.getTransaction(capped.id))?.status === 'queued', 'A capped transaction should wait');
+    const deadLetter = await queue.getTransaction(expired.id);
+    assert(deadLetter?.status === 'dead_letter', 'An expired transaction should be dead-lettered');
+    assert(deadLetter?.lastError?.includes('Deadline'), 'Dead letter should record the deadline');
+  });
+
+/**
+ * Test a batch reverting on chain fails and its transactions are queued for retry
+ */
+const testRevertedBatch = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Reverted Batch', async () => {
+    await clearQueue(fixture);
+    // Passes simulation, but is sent as a withdrawal the wallet has no balance for
+    const executor = createExecutor(fixture, {
+      calls: [{ to: fixture.target as string, value: '0', data: withdrawData(100), allowFailure: false }],
+    });
+    const queue = createQueue(fixture, executor, { retryDelayMs: 60 * 1000 });
+    queue.updateConfig(fixture.chainId, { minTransactions: 1 });
+    const transaction = await queue.enqueue(
+      transactionRequest(fixture, { to: fixture.target, data: withdrawData(0), value: '0' })
+    );
+
+    await queue.processChain(fixture.chainId);
+    const batch = await queue.getBatch(executor.executed[0]);
+    assert(batch?.status === 'failed', 'Batch should fail on revert');
+    assert(
+      batch?.error === `Batch transaction reverted: ${transaction.id} reverted with Insufficient balance`,
+      `Batch should name the reverted call from its trace, got ${batch?.error}`
+    );
+    assert(batch?.gasUsed, 'Failed batch should record its gas');
+
+    const retried = await queue.getTransaction(transaction.id);
+    assert(retried?.status === 'queued' && retried.lastError === batch?.error, 'Transaction should be queued again');
+    assert(retried && retried.availableAt > Date.now(), 'Retry should wait for its delay');
+
+    await queue.processChain(fixture.chainId);
+    assert(executor.executed.length === 1, 'A transaction should not be retried before its delay');
+  });
+
+/**
+ * Test a transaction failing maxAttempts batches is dead-lettered and can be retried
+ */
+const testDeadLetter = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Dead Letter', async () => {
+    await clearQueue(fixture);
+    const executor = createExecutor(fixture, { fail: true });
+    const queue = createQueue(fixture, executor);
+    queue.updateConfig(fixture.chainId, { minTransactions: 1 });
+    const transaction = await queue.enqueue(transactionRequest(fixture));
+
+    await queue.processChain(fixture.chainId);
+    assert((await queue.getTransaction(transaction.id))?.status === 'queued', 'First failure should be retried');
+    await sleep(5);
+    await queue.processChain(fixture.chainId);
+    assert(executor.executed.length === 2, `Transaction should be attempted twice, got ${executor.executed.length}`);
+
+    const deadLetters = await queue.getDeadLetters(fixture.chainId);
+    assert(deadLetters.length === 1 && deadLetters[0].id === transaction.id, 'Transaction should be dead-lettered');
+    assert(deadLetters[0].lastError?.startsWith('Execution failed'), 'Dead letter should record the failure');
+    await queue.processChain(fixture.chainId);
+    assert(executor.executed.length === 2, 'Dead letters should not be batched');
+
+    assert(await queue.retryDeadLetter(transaction.id), 'Dead letter should be queued again');
+    const retried = await queue.getTransaction(transaction.id);
+    assert(retried?.status === 'queued' && retried.attempts === 0, 'Retry should reset attempts');
+    assert(await queue.cancel(transaction.id), 'Retried transaction should be cancellable');
+  });
+
+/**
+ * Test a worker restarting reconciles its executing batch from the receipt
+ * of the recorded hash
+ */
+const testReconcileMinedBatch = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Reconcile Mined Batch', async () => {
+    await clearQueue(fixture);
+    const executor = createExecutor(fixture);
+    const queue = createQueue(fixture, executor);
+    const batch = await strandBatch(fixture, queue, { leaseExpiresAt: Date.now() + 60 * 1000 });
+    const hash = await executor.execute(batch, [{ to: RECIPIENT, value: '0', data: '0x', allowFailure: false }]);
+    const db = await getDatabase();
+    await db.put('batches', { ...batch, txHash: hash });
+
+    await createQueue(fixture, executor, { workerId: 'worker-b' }).recover();
+    assert((await queue.getBatch(batch.id))?.status === 'executing', 'Another worker should wait for the lease');
+
+    await queue.recover(true);
+    const reconciled = await queue.getBatch(batch.id);
+    assert(reconciled?.status === 'completed' && reconciled.gasUsed, 'Batch should be completed from its receipt');
+    const transaction = await queue.getTransaction(batch.transactions[0]);
+    assert(transaction?.status === 'completed', 'Transactions should be completed');
+  });
+
+/**
+ * Test a batch whose worker stopped before recording a hash is failed and
+ * retried once its lease lapses
+ */
+const testReconcileUnbroadcastBatch = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Reconcile Unbroadcast Batch', async () => {
+    await clearQueue(fixture);
+    const queue = createQueue(fixture, createExecutor(fixture), { workerId: 'worker-b', retryDelayMs: 60 * 1000 });
+    const batch = await strandBatch(fixture, queue, { leaseExpiresAt: Date.now() - 1 });
+
+    await queue.recover();
+    const reconciled = await queue.getBatch(batch.id);
+    assert(reconciled?.status === 'failed', 'Batch should fail');
+    assert(reconciled?.error === 'Worker stopped while broadcasting the batch', `Unexpected error ${reconciled?.error}`);
+    const transaction = await queue.getTransaction(batch.transactions[0]);
+    assert(transaction?.status === 'queued' && transaction.attempts === 1, 'Transactions should be queued again');
+  });
+
+/**
+ * Test a batch not mined in time is left executing, and settled by
+ * reconciliation once mined
+ */
+const testReconcilePendingBatch = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Reconcile Pending Batch', async () => {
+    await clearQueue(fixture);
+    const provider = fixture.provider as ethers.providers.JsonRpcProvider;
+    const executor = createExecutor(fixture);
+    const queue = createQueue(fixture, executor, { receiptTimeoutMs: 500 });
+    queue.updateConfig(fixture.chainId, { minTransactions: 1 });
+    await queue.enqueue(transactionRequest(fixture));
+
+    await provider.send('evm_setAutomine', [false]);
+    try {
+      await queue.processChain(fixture.chainId);
+      const pending = await queue.getBatch(executor.executed[0]);
+      assert(pending?.status === 'executing' && pending.txHash, 'Unmined batch should stay executing with its hash');
+      await provider.send('evm_mine', []);
+    } finally {
+      await provider.send('evm_setAutomine', [true]);
+    }
+
+    await queue.recover(true);
+    const batch = await queue.getBatch(executor.executed[0]);
+    assert(batch?.status === 'completed', `Mined batch should be completed, got ${batch?.status}`);
+  });
+
+/**
+ * Claim one transaction into a batch as a worker that stopped while broadcasting
+ * @param fixture Fixture
+ * @param queue Queue of the worker
+ * @param changes Fields to set on the batch
+ */
+const strandBatch = async (
+  fixture: ChainFixture,
+  queue: BatchQueue,
+  changes: Partial<BatchRecord>
+): Promise<BatchRecord> => {
+  const transaction = await queue.enqueue(transactionRequest(fixture));
+  const now = Date.now();
+  const batch: BatchRecord = {
+    id: `batch-test-${now}`,
+    chainId: fixture.chainId,
+    walletAddress: transaction.walletAddress,
+    transactions: [transaction.id],
+    status: 'executing',
+    createdAt: now,
+    updatedAt: now,
+    leaseOwner: 'worker-a',
+    leaseExpiresAt: now,
+    ...changes,
+  };
+  const db = await getDatabase();
+  await db.put('batches', batch);
+  await db.put('pendingTransactions', { ...transaction, status: 'batched', attempts: 1, batchId: batch.id });
+  return batch;
+};
+
+/**
+ * Build a queued transaction for composition
+ * @param id Transaction ID
+ * @param changes Fields to replace
+ */
+const queuedTransaction = (id: string, changes: Partial<QueuedTransaction> = {}): QueuedTransaction => ({
+  id,
+  chainId: OFFLINE_CHAIN_ID,
+  walletAddress: OFFLINE_WALLET,
+  to: RECIPIENT,
+  data: '0x',
+  value: '0',
+  priority: 'medium',
+  timestamp: 0,
+  status: 'queued',
+  attempts: 0,
+  availableAt: 0,
+  updatedAt: 0,
+  ...changes,
+});
+
+/**
+ * Calldata of a BatchTarget withdrawal
+ * @param amount Wei
+ */
+const withdrawData = (amount: number): string => batchTargetInterface.encodeFunctionData('withdraw', [amount]);
+
+/**
+ * Build a transaction to queue
+ * @param fixture Fixture
+ * @param changes Fields to replace
+ */
+const transactionRequest = (
+  fixture: ChainFixture,
+  changes: Partial<BatchTransactionRequest> = {}
+): BatchTransactionRequest => ({
+  chainId: fixture.chainId,
+  walletAddress: fixture.wallet,
+  to: RECIPIENT,
+  data: '0x',
+  value: '1',
+  priority: 'medium',
+  ...changes,
+});
+
+/**
+ * Create a queue over the test registry
+ * @param fixture Fixture
+ * @param executor Executor
+ * @param options Options to replace
+ */
+const createQueue = (
+  fixture: ChainFixture,
+  executor: BatchExecutor,
+  options: Partial<BatchQueueOptions> = {}
+): BatchQueue =>
+  new BatchQueue(
+    { ...TEST_OPTIONS, ...options },
+    executor,
+    fixture.registry,
+    fixture.oracle
+  );
+
+/**
+ * Create an executor sending each batch's calls through its BatchWallet, as
+ * the node account owning it
+ * @param fixture Fixture
+ * @param options Calls to send instead of the batch's, or fail before sending
+ */
+const createExecutor = (fixture: ChainFixture, options: { calls?: BatchCall[]; fail?: boolean } = {}): TestExecutor => {
+  const executed: string[] = [];
+  return {
+    executed,
+    async execute(batch, calls) {
+      executed.push(batch.id);
+      if (options.fail) {
+        throw new Error('Relayer unavailable');
+      }
+      const provider = fixture.provider as ethers.providers.JsonRpcProvider;
+      const tx = await provider.getSigner(0).sendTransaction({
+        to: batch.walletAddress,
+        data: batchWalletInterface.encodeFunctionData('executeBatch', [options.calls || calls]),
+        gasLimit: 1000000,
+      });
+      return tx.hash;
+    },
+  };
+};
+
+/**
+ * Remove the queued transactions and batches of the test chain
+ * @param fixture Fixture
+ */
+const clearQueue = async ({ chainId }: ChainFixture): Promise<void> => {
+  const db = await getDatabase();
+  for (const transaction of await db.getAll('pendingTransactions')) {
+    if (transaction.chainId === chainId) {
+      await db.delete('pendingTransactions', transaction.id);
+    }
+  }
+  for (const batch of await db.getAll('batches')) {
+    if (batch.chainId === chainId) {
+      await db.delete('batches', batch.id);
+    }
+  }
+};
+
+/**
+ * Queued transactions of the test chain
+ * @param fixture Fixture
+ */
+const queuedTransactions = async ({ chainId }: ChainFixture) => {
+  const db = await getDatabase();
+  return db.getAllFromIndex('pendingTransactions', 'by-queue', {
+    lower: [chainId, 'queued', 0],
+    upper: [chainId, 'queued', Number.MAX_SAFE_INTEGER],
+  });
+};
+
+/**
+ * Write a registry holding the test chain, connecting to the node if one answers
+ * @returns Fixture
+ */
+const createFixture = async (): Promise<ChainFixture> => {
+  let provider: ethers.providers.JsonRpcProvider | undefined = new ethers.providers.StaticJsonRpcProvider(RPC_URL);
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      provider.getBlockNumber(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error('timeout')), CONNECT_TIMEOUT_MS);
+      }),
+    ]);
+  } catch {
+    logger.warn(`No node at ${RPC_URL}, skipping local chain tests`);
+    provider = undefined;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const chainId = provider ? (await provider.getNetwork()).chainId : OFFLINE_CHAIN_ID;
+  const contracts = provider
+    ? {
+        wallet: await deployContract(provider, BATCH_WALLET_INIT_CODE, ethers.utils.parseEther('1')),
+        reverter: await deployContract(provider, REVERTER_INIT_CODE),
+        target: await deployContract(provider, BATCH_TARGET_INIT_CODE),
+        multicall: await deployContract(provider, MULTICALL_INIT_CODE),
+      }
+    : undefined;
+
+  const registryFile = path.join(os.tmpdir(), `batching-test-chains-${Date.now()}.json`);
+  fs.writeFileSync(
+    registryFile,
+    JSON.stringify([
+      {
+        chainId,
+        name: 'Batching test',
+        nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+        rpcUrls: [RPC_URL],
+        blockTime: 1,
+        confirmations: 0,
+        multicall: contracts?.multicall,
+      },
+    ])
+  );
+
+  const registry = new ChainRegistry({ filePath: registryFile });
+  const oracle = new GasOracle({ blockCount: 4, speeds: DEFAULT_GAS_SPEEDS, minPriorityFeePerGas: '0' }, registry);
+  return {
+    provider,
+    chainId,
+    registry,
+    registryFile,
+    oracle,
+    wallet: contracts?.wallet || OFFLINE_WALLET,
+    reverter: contracts?.reverter,
+    target: contracts?.target,
+  };
+};
+
+/**
+ * Deploy a contract from the node's first account
+ * @param provider Node
+ * @param initCode Init code
+ * @param value Wei sent to the constructor
+ * @returns Contract address
+ */
+const deployContract = async (
+  provider: ethers.providers.JsonRpcProvider,
+  initCode: string,
+  value: ethers.BigNumberish = 0
+): Promise<string> => {
+  const deployment = await provider.getSigner(0).sendTransaction({ data: initCode, value });
+  return (await deployment.wait()).contractAddress;
+};
+
+/**
+ * Expect a batching error with a status code
+ * @param promise Operation expected to fail
+ * @param statusCode Expected status code
+ */
+const expectError = async (promise: Promise<unknown>, statusCode: number): Promise<void> => {
+  try {
+    await promise;
+  } catch (error) {
+    assert(
+      error instanceof BatchingError && error.statusCode === statusCode,
+      `Expected a batching error with status ${statusCode}, got ${error}`
+    );
+    return;
+  }
+  throw new Error(`Expected a batching error with status ${statusCode}`);
+};
+
+/**
+ * Run a suite of tests in order
+ * @param name Suite name
+ * @param tests Tests
+ */
+const runSuite = async (name: string, tests: (() => Promise<TestResult>)[]): Promise<TestSuiteResult> => {
+  const startTime = Date.now();
+  const results: TestResult[] = [];
+
+  for (const test of tests) {
+    results.push(await test());
+  }
+
+  const passed = results.filter(t => t.success).length;
+  const skipped = results.filter(t => t.skipped).length;
+  const failed = results.length - passed - skipped;
+  logger.info(`${name}: ${passed} passed, ${failed} failed, ${skipped} skipped`);
+
+  return {
+    name,
+    tests: results,
+    passed,
+    failed,
+    skipped,
+    duration: Date.now() - startTime,
+    timestamp: Date.now(),
+  };
+};
+
+/**
+ * Summary of a suite that could not run
+ * @param name Suite name
+ * @param reason Why it was skipped
+ */
+const skippedSuite = (name: string, reason: string): TestSuiteResult => ({
+  name,
+  tests: [{ name: 'All', success: false, skipped: true, error: reason, duration: 0 }],
+  passed: 0,
+  failed: 0,
+  skipped: 1,
+  duration: 0,
+  timestamp: Date.now(),
+});
+
+/**
+ * Run a test body and time it
+ * @param name Test name
+ * @param body Test body, returning details
+ */
+const runTest = async (name: string, body: () => Promise<Record<string, any> | void>): Promise<TestResult> => {
+  const startTime = Date.now();
+  try {
+    const details = await body();
+    return { name, success: true, duration: Date.now() - startTime, details: details || undefined };
+  } catch (error) {
+    logger.error(`Test ${name} failed:`, error);
+    return { name, success: false, error: String(error), duration: Date.now() - startTime };
+  }
+};
+
+/**
+ * Fail unless a condition holds
+ * @param condition Condition
+ * @param message Failure message
+ */
+const assert = (condition: unknown, message: string): void => {
+  if (!condition) {
+    throw new Error(message);
+  }
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+if (require.main === module) {
+  runBatchingTests()
+    .then(results => {
+      const suites = Object.values(results);
+      for (const suite of suites) {
+        for (const test of suite.tests) {
+          const status = test.skipped ? 'SKIP' : test.success ? 'PASS' : 'FAIL';
+          console.log(`[${status}] ${suite.name} - ${test.name}${test.error ? `: ${test.error}` : ''}`);
+        }
+      }
+      process.exit(suites.some(suite => suite.failed > 0) ? 1 : 0);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
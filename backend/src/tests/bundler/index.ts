@@ -0,0 +1,648 @@
+import { ethers } from 'ethers';
+import { logger } from '../../utils/logger';
+import EntryPointArtifact from '@account-abstraction/contracts/artifacts/EntryPoint.json';
+import SimpleAccountFactoryArtifact from '@account-abstraction/contracts/artifacts/SimpleAccountFactory.json';
+import SimpleAccountArtifact from '@account-abstraction/contracts/artifacts/SimpleAccount.json';
+import {
+  BundlerError,
+  BundlerErrorCode,
+  calculatePreVerificationGas,
+  checkValidationTrace,
+  getUserOperationHash,
+  hashUserOperation,
+  LocalBundler,
+  packUserOperation,
+  parseUserOperation,
+  parseUserOperationFor,
+  parseUserOperationV07,
+  ReputationManager,
+  ReputationStatus,
+  toStruct,
+  toUserOperationV06,
+  toUserOperationV07,
+  unpackUserOperation,
+  UserOperation,
+  UserOperationMempool,
+} from '../../services/bundler';
+import { StructLog, TraceContext } from '../../services/bundler/validation';
+
+/**
+ * Local bundler tests. User operation parsing, v0.7 packing, reputation, the
+ * mempool and the validation rules run offline, the rules on synthetic
+ * traces. The chain tests
+ * deploy the v0.6 EntryPoint and SimpleAccountFactory to an Anvil or Hardhat
+ * node at BUNDLER_TEST_RPC_URL (default http://127.0.0.1:8545), bundle with
+ * the node's first unlocked account and are skipped when no node answers.
+ *
+ * Run with `npm run test:bundler`.
+ */
+
+// Test result
+interface TestResult {
+  name: string;
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+  duration: number; // milliseconds
+  details?: Record<string, any>;
+}
+
+// Test suite result
+interface TestSuiteResult {
+  name: string;
+  tests: TestResult[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number; // milliseconds
+  timestamp: number;
+}
+
+// Contracts deployed for the chain tests
+interface ChainFixture {
+  provider: ethers.providers.JsonRpcProvider;
+  signer: ethers.providers.JsonRpcSigner;
+  entryPoint: ethers.Contract;
+  factory: ethers.Contract;
+  bundler: LocalBundler;
+}
+
+const RPC_URL = process.env.BUNDLER_TEST_RPC_URL || 'http://127.0.0.1:8545';
+const CONNECT_TIMEOUT_MS = 3000;
+
+const ENTRY_POINT = '0x5ff137d4b0fdcd49dca30c7cf57e578a026d2789';
+const SENDER = '0x1111111111111111111111111111111111111111';
+const PAYMASTER = '0x2222222222222222222222222222222222222222';
+const TOKEN = '0x3333333333333333333333333333333333333333';
+const FACTORY = '0x4444444444444444444444444444444444444444';
+
+// Hash of sampleUserOperationV07() returned by getUserOpHash of the v0.7 EntryPoint deployed first on an Anvil node
+const V07_ENTRY_POINT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const V07_USER_OP_HASH = '0xd988786a23f6f974b24044ef7263322e568734e39076b9b03d4f4717ae4931ae';
+
+// Account that reads TIMESTAMP and approves every user operation: TIMESTAMP POP, return 32 zero bytes
+const TIMESTAMP_ACCOUNT_RUNTIME = '4250600060005260206000f3';
+const TIMESTAMP_ACCOUNT_INITCODE = `0x600c600c600039600c6000f3${TIMESTAMP_ACCOUNT_RUNTIME}`;
+
+/**
+ * Run every bundler test suite
+ * @returns Results by suite
+ */
+export const runBundlerTests = async (): Promise<Record<string, TestSuiteResult>> => {
+  const results: Record<string, TestSuiteResult> = {
+    userOperations: await runSuite('User Operations', [testParseUserOperation, testPreVerificationGas, testPackedUserOperation]),
+    mempool: await runSuite('Reputation and Mempool', [testReputation, testMempoolLimits]),
+    rules: await runSuite('Validation Rules', [testOpcodeRules, testStorageRules]),
+  };
+
+  const fixture = await deployFixture();
+  if (fixture) {
+    results.chain = await runSuite('Local Chain', [
+      () => testUserOperationFlow(fixture),
+      () => testForbiddenOpcodeRejected(fixture),
+    ]);
+    fixture.bundler.stop();
+  } else {
+    results.chain = skippedSuite('Local Chain', `No node answers at ${RPC_URL}`);
+  }
+
+  return results;
+};
+
+/**
+ * Test user operations are validated and normalized
+ */
+const testParseUserOperation = (): Promise<TestResult> =>
+  runTest('Parse User Operation', async () => {
+    const userOp = parseUserOperation(sampleUserOperation({ nonce: '0x00' }));
+    assert(userOp.sender === ethers.utils.getAddress(SENDER), 'Sender is not checksummed');
+    assert(userOp.nonce === '0x00', `Unexpected nonce ${userOp.nonce}`);
+
+    const partial = parseUserOperation({ sender: SENDER, nonce: '0x1', callData: '0x' }, true);
+    assert(partial.signature === '0x' && partial.callGasLimit === '0x00', 'Missing fields are not defaulted');
+
+    for (const invalid of [
+      { ...sampleUserOperation(), callGasLimit: undefined },
+      { ...sampleUserOperation(), nonce: 12 },
+      { ...sampleUserOperation(), initCode: '0x1234' },
+      { ...sampleUserOperation(), sender: '0x1234' },
+    ]) {
+      expectBundlerError(() => parseUserOperation(invalid), BundlerErrorCode.INVALID_FIELDS);
+    }
+  });
+
+/**
+ * Test preVerificationGas covers the calldata cost and estimation bounds the final value
+ */
+const testPreVerificationGas = (): Promise<TestResult> =>
+  runTest('Pre-Verification Gas', async () => {
+    const userOp = parseUserOperation(sampleUserOperation());
+    const gas = calculatePreVerificationGas(userOp);
+    assert(gas > 21000 + 18300, `preVerificationGas ${gas} does not include the fixed overheads`);
+
+    const longer = calculatePreVerificationGas({ ...userOp, callData: `0x${'ab'.repeat(100)}` });
+    assert(longer - gas >= 96 * 16, 'Non-zero calldata bytes are not charged');
+
+    const estimate = calculatePreVerificationGas({ ...userOp, callGasLimit: '0x0', maxFeePerGas: '0x0' });
+    assert(estimate >= gas, 'Estimate with empty gas fields is below the final value');
+    return { gas, estimate };
+  });
+
+/**
+ * Test v0.7 user operations pack, hash like the EntryPoint and convert to and from v0.6
+ */
+const testPackedUserOperation = (): Promise<TestResult> =>
+  runTest('Packed User Operation', async () => {
+    const userOp = parseUserOperationV07(sampleUserOperationV07());
+    const packed = packUserOperation(userOp);
+    assert(
+      packed.accountGasLimits === '0x000000000000000000000000000186a000000000000000000000000000030d40',
+      `Unexpected accountGasLimits ${packed.accountGasLimits}`
+    );
+    assert(packed.paymasterAndData.length === 2 + (20 + 16 + 16 + 2) * 2, 'Paymaster gas limits are not packed');
+    assert(hashUserOperation(packed, V07_ENTRY_POINT, 31337) === V07_USER_OP_HASH, 'Packed hash differs from the EntryPoint');
+    assert(hashUserOperation(userOp, V07_ENTRY_POINT, 31337) === V07_USER_OP_HASH, 'Unpacked hash differs from the EntryPoint');
+
+    const unpacked = unpackUserOperation(packed);
+    for (const [field, value] of Object.entries(userOp)) {
+      assert(unpacked[field as keyof typeof unpacked] === value, `Field ${field} changes when unpacked`);
+    }
+
+    const v06 = toUserOperationV06(userOp);
+    assert(v06.initCode === `${FACTORY}deadbeef`, 'initCode does not join factory and factoryData');
+    assert(v06.verificationGasLimit === userOp.verificationGasLimit, 'Paymaster gas limits raise verificationGasLimit');
+    const v07 = toUserOperationV07(v06);
+    assert(v07.paymasterPostOpGasLimit === v06.verificationGasLimit, 'Paymaster gas limits do not default to verificationGasLimit');
+
+    assert(parseUserOperationFor(packed, '0.7').sender === userOp.sender, 'Packed layout is refused for v0.7');
+    expectBundlerError(() => parseUserOperationFor(packed, '0.6'), BundlerErrorCode.INVALID_FIELDS);
+    expectBundlerError(() => parseUserOperationFor(sampleUserOperation(), '0.7'), BundlerErrorCode.INVALID_FIELDS);
+    expectBundlerError(
+      () => parseUserOperationV07({ ...sampleUserOperationV07(), paymasterPostOpGasLimit: undefined }),
+      BundlerErrorCode.INVALID_FIELDS
+    );
+    expectBundlerError(
+      () => parseUserOperationV07({ ...sampleUserOperationV07(), callGasLimit: `0x1${'0'.repeat(32)}` }),
+      BundlerErrorCode.INVALID_FIELDS
+    );
+  });
+
+/**
+ * Test entities are throttled and banned as their inclusion rate drops, and recover by decay
+ */
+const testReputation = (): Promise<TestResult> =>
+  runTest('Entity Reputation', async () => {
+    const reputation = new ReputationManager();
+    const seen = (count: number) => {
+      for (let i = 0; i < count; i++) reputation.updateSeen([PAYMASTER]);
+    };
+
+    seen(100);
+    assert(reputation.getStatus(PAYMASTER) === ReputationStatus.OK, 'Entity is penalized within the slack');
+    seen(100);
+    assert(reputation.getStatus(PAYMASTER) === ReputationStatus.THROTTLED, 'Entity is not throttled');
+    reputation.updateIncluded(Array(10).fill(PAYMASTER));
+    assert(reputation.getStatus(PAYMASTER) === ReputationStatus.OK, 'Inclusions do not restore the entity');
+
+    reputation.crashedHandleOps(PAYMASTER);
+    assert(reputation.getStatus(PAYMASTER) === ReputationStatus.BANNED, 'Entity that crashed handleOps is not banned');
+    for (let hour = 0; hour < 200; hour++) {
+      reputation.decay();
+    }
+    assert(reputation.getStatus(PAYMASTER) === ReputationStatus.OK, 'Reputation does not decay');
+
+    assert(reputation.isStaked(ethers.utils.parseEther('1'), 86400), 'Minimum stake is not staked');
+    assert(!reputation.isStaked(ethers.utils.parseEther('1'), 60), 'Short unstake delay counts as staked');
+  });
+
+/**
+ * Test replacement fees, per-sender limits and banned entities in the mempool
+ */
+const testMempoolLimits = (): Promise<TestResult> =>
+  runTest('Mempool Limits', async () => {
+    const reputation = new ReputationManager();
+    const mempool = new UserOperationMempool(reputation);
+    const entry = (overrides: Partial<UserOperation>) => {
+      const userOp = parseUserOperation(sampleUserOperation(overrides));
+      const userOpHash = getUserOperationHash(toStruct(userOp), ENTRY_POINT, 1).toLowerCase();
+      return { userOp, userOpHash, senderStaked: false, addedAt: Date.now() };
+    };
+
+    for (let nonce = 0; nonce < 4; nonce++) {
+      mempool.add(entry({ nonce: `0x${nonce}` }), new Set());
+    }
+    expectBundlerError(() => mempool.add(entry({ nonce: '0x4' }), new Set()), BundlerErrorCode.REPUTATION);
+
+    expectBundlerError(
+      () => mempool.add(entry({ nonce: '0x0', maxFeePerGas: '0x3b9aca01' }), new Set()),
+      BundlerErrorCode.INVALID_FIELDS
+    );
+    const replacement = entry({ nonce: '0x0', maxFeePerGas: '0x77359400', maxPriorityFeePerGas: '0x77359400' });
+    mempool.add(replacement, new Set());
+    assert(mempool.size === 4, `Replacement changed the mempool size to ${mempool.size}`);
+    assert(mempool.getBatch(1)[0].userOpHash === replacement.userOpHash, 'Highest priority fee is not bundled first');
+
+    reputation.crashedHandleOps(PAYMASTER);
+    expectBundlerError(
+      () => mempool.add(entry({ sender: PAYMASTER.replace('22', '44'), paymasterAndData: PAYMASTER }), new Set()),
+      BundlerErrorCode.REPUTATION
+    );
+  });
+
+/**
+ * Test the opcode rules on synthetic validation traces
+ */
+const testOpcodeRules = (): Promise<TestResult> =>
+  runTest('Opcode Rules', async () => {
+    const context = traceContext();
+
+    const timestamp = checkValidationTrace([...callAccount(), step('TIMESTAMP', 2), step('STOP', 2)], context);
+    assert(timestamp.length === 1 && timestamp[0].rule === 'OP-011' && timestamp[0].entity === 'account', 'TIMESTAMP is allowed');
+
+    const gasCall = checkValidationTrace([...callAccount(), step('GAS', 2), step('STATICCALL', 2, callStack('0x1'))], context);
+    assert(gasCall.length === 0, `GAS before a call is rejected: ${JSON.stringify(gasCall)}`);
+    const gas = checkValidationTrace([...callAccount(), step('GAS', 2), step('POP', 2)], context);
+    assert(gas.length === 1 && gas[0].rule === 'OP-012', 'GAS not followed by a call is allowed');
+
+    // The EntryPoint's own NUMBER markers and code it runs for the account are not checked
+    const entryPointCode = checkValidationTrace(
+      [...callAccount(), step('CALL', 2, callStack(ENTRY_POINT, '0x5')), step('TIMESTAMP', 3), step('STOP', 3)],
+      context
+    );
+    assert(entryPointCode.length === 0, `EntryPoint code is checked: ${JSON.stringify(entryPointCode)}`);
+
+    const value = checkValidationTrace([...callAccount(), step('CALL', 2, callStack(TOKEN, '0x5')), step('STOP', 3)], context);
+    assert(value.some(violation => violation.rule === 'OP-061'), 'Value transfer to another contract is allowed');
+
+    const factoryTrace = [step('CALL', 1, callStack(TOKEN)), step('CREATE2', 2), step('STOP', 3), step('CREATE2', 2)];
+    const create2 = checkValidationTrace(factoryTrace, { ...context, factory: TOKEN });
+    assert(create2.length === 1 && create2[0].rule === 'OP-031', 'A second CREATE2 by the factory is allowed');
+  });
+
+/**
+ * Test the storage rules on synthetic validation traces
+ */
+const testStorageRules = (): Promise<TestResult> =>
+  runTest('Storage Rules', async () => {
+    const context = traceContext();
+    const senderWord = ethers.utils.hexZeroPad(SENDER, 32).slice(2);
+    const mappingSlot = ethers.BigNumber.from(ethers.utils.keccak256(`0x${senderWord}${'00'.repeat(32)}`));
+    const callToken = [...callAccount(), step('CALL', 2, callStack(TOKEN))];
+
+    const own = checkValidationTrace([...callAccount(), step('SLOAD', 2, ['0x0']), step('SSTORE', 2, ['0x1', '0x0'])], context);
+    assert(own.length === 0, 'Account cannot use its own storage');
+
+    const associated = checkValidationTrace(
+      [
+        ...callToken,
+        step('KECCAK256', 3, ['0x40', '0x0'], [senderWord, '00'.repeat(32)]),
+        step('SLOAD', 3, [mappingSlot.add(1).toHexString()]),
+      ],
+      context
+    );
+    assert(associated.length === 0, `Storage associated with the sender is rejected: ${JSON.stringify(associated)}`);
+
+    const other = checkValidationTrace([...callToken, step('SLOAD', 3, ['0x5'])], context);
+    assert(other.length === 1 && other[0].rule === 'STO-021', 'Unassociated storage of another contract is allowed');
+    const staked = checkValidationTrace([...callToken, step('SLOAD', 3, ['0x5'])], {
+      ...context,
+      staked: { ...context.staked, account: true },
+    });
+    assert(staked.length === 0, 'Staked account cannot read other storage');
+
+    const paymasterTrace = [
+      ...callAccount(),
+      step('STOP', 2),
+      step('NUMBER', 1),
+      step('CALL', 1, callStack(PAYMASTER)),
+      step('SLOAD', 2, ['0x0']),
+    ];
+    const unstakedPaymaster = checkValidationTrace(paymasterTrace, context);
+    assert(
+      unstakedPaymaster.length === 1 && unstakedPaymaster[0].rule === 'STO-031' && unstakedPaymaster[0].entity === 'paymaster',
+      'Unstaked paymaster can use its own storage'
+    );
+    const stakedPaymaster = checkValidationTrace(paymasterTrace, { ...context, staked: { ...context.staked, paymaster: true } });
+    assert(stakedPaymaster.length === 0, 'Staked paymaster cannot use its own storage');
+  });
+
+/**
+ * Test a user operation deploying a SimpleAccount is estimated, accepted,
+ * bundled, and found by hash and receipt
+ */
+const testUserOperationFlow = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('User Operation Flow', async () => {
+    const { provider, signer, entryPoint, factory, bundler } = fixture;
+    const owner = ethers.Wallet.createRandom();
+    const recipient = ethers.Wallet.createRandom().address;
+    const salt = Math.floor(Math.random() * 1e9);
+
+    const sender: string = await factory.callStatic.getAddress(owner.address, salt);
+    await (await signer.sendTransaction({ to: sender, value: ethers.utils.parseEther('1') })).wait();
+
+    const account = new ethers.utils.Interface(SimpleAccountArtifact.abi);
+    const partial = {
+      sender,
+      nonce: '0x0',
+      initCode: ethers.utils.hexConcat([
+        factory.address,
+        factory.interface.encodeFunctionData('createAccount', [owner.address, salt]),
+      ]),
+      callData: account.encodeFunctionData('execute', [recipient, 1000, '0x']),
+      paymasterAndData: '0x',
+      // Recovers to another address, so validation fails softly as estimation requires
+      signature: await ethers.Wallet.createRandom().signMessage('placeholder'),
+    };
+
+    const estimate = await bundler.estimateUserOperationGas(partial, entryPoint.address);
+    const feeData = await provider.getFeeData();
+    const userOp: UserOperation = {
+      ...parseUserOperation(partial, true),
+      ...estimate,
+      maxFeePerGas: feeData.maxFeePerGas!.toHexString(),
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas!.toHexString(),
+    };
+    const chainId = (await provider.getNetwork()).chainId;
+    const userOpHash = getUserOperationHash(toStruct(userOp), entryPoint.address, chainId);
+    assert(userOpHash === (await entryPoint.getUserOpHash(toStruct(userOp))), 'User operation hash differs from the EntryPoint');
+    userOp.signature = await owner.signMessage(ethers.utils.arrayify(userOpHash));
+
+    const accepted = await bundler.sendUserOperation(userOp, entryPoint.address);
+    assert(accepted === userOpHash.toLowerCase(), 'sendUserOperation returned another hash');
+    const pending = await bundler.getUserOperationByHash(userOpHash);
+    assert(pending && pending.transactionHash === null, 'Pending user operation is not found in the mempool');
+
+    const transactionHash = await bundler.bundleNow();
+    assert(transactionHash, 'Nothing was bundled');
+    assert(bundler.mempool.size === 0, 'Bundled user operation is still in the mempool');
+
+    const receipt = await bundler.getUserOperationReceipt(userOpHash);
+    assert(receipt && receipt.success, `User operation failed: ${receipt?.reason}`);
+    assert(receipt!.receipt.transactionHash === transactionHash, 'Receipt names another transaction');
+    const included = await bundler.getUserOperationByHash(userOpHash);
+    assert(included && included.transactionHash === transactionHash, 'Included user operation is not found');
+    assert(included!.userOperation.signature === userOp.signature, 'Included user operation differs');
+
+    const balance = await provider.getBalance(recipient);
+    assert(balance.eq(1000), `Recipient received ${balance.toString()} wei`);
+    return { sender, transactionHash, actualGasUsed: receipt!.actualGasUsed, estimate };
+  });
+
+/**
+ * Test an account that reads TIMESTAMP during validation is rejected
+ */
+const testForbiddenOpcodeRejected = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Forbidden Opcode Rejected', async () => {
+    const { provider, signer, entryPoint, bundler } = fixture;
+    const deployment = await (await signer.sendTransaction({ data: TIMESTAMP_ACCOUNT_INITCODE })).wait();
+    const sender = deployment.contractAddress;
+    await (await entryPoint.depositTo(sender, { value: ethers.utils.parseEther('1') })).wait();
+
+    const feeData = await provider.getFeeData();
+    const userOp = parseUserOperation({
+      sender,
+      nonce: '0x0',
+      initCode: '0x',
+      callData: '0x',
+      callGasLimit: '0x186a0',
+      verificationGasLimit: '0x186a0',
+      preVerificationGas: '0x0',
+      maxFeePerGas: feeData.maxFeePerGas!.toHexString(),
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas!.toHexString(),
+      paymasterAndData: '0x',
+      signature: '0x',
+    });
+    userOp.preVerificationGas = ethers.BigNumber.from(calculatePreVerificationGas(userOp)).toHexString();
+
+    try {
+      await bundler.sendUserOperation(userOp, entryPoint.address);
+    } catch (error) {
+      assert(error instanceof BundlerError, `Unexpected error ${error}`);
+      const bundlerError = error as BundlerError;
+      assert(bundlerError.rpcCode === BundlerErrorCode.OPCODE_VALIDATION, `Rejected with code ${bundlerError.rpcCode}`);
+      assert(bundlerError.message.includes('TIMESTAMP'), `Rejected for ${bundlerError.message}`);
+      return { message: bundlerError.message };
+    }
+    throw new Error('User operation reading TIMESTAMP was accepted');
+  });
+
+/**
+ * Deploy the EntryPoint and SimpleAccountFactory to the test node
+ * @returns Fixture, or undefined if no node answers
+ */
+const deployFixture = async (): Promise<ChainFixture | undefined> => {
+  const provider = new ethers.providers.StaticJsonRpcProvider(RPC_URL);
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      provider.getBlockNumber(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error('timeout')), CONNECT_TIMEOUT_MS);
+      }),
+    ]);
+  } catch {
+    logger.warn(`No node at ${RPC_URL}, skipping local chain tests`);
+    return undefined;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const signer = provider.getSigner(0);
+  const entryPoint = await new ethers.ContractFactory(EntryPointArtifact.abi, EntryPointArtifact.bytecode, signer).deploy();
+  await entryPoint.deployed();
+  const factory = await new ethers.ContractFactory(
+    SimpleAccountFactoryArtifact.abi,
+    SimpleAccountFactoryArtifact.bytecode,
+    signer
+  ).deploy(entryPoint.address);
+  await factory.deployed();
+
+  const bundler = new LocalBundler({
+    chainId: (await provider.getNetwork()).chainId,
+    entryPoint: entryPoint.address,
+    provider,
+    signer,
+  });
+  return { provider, signer, entryPoint, factory, bundler };
+};
+
+/**
+ * Build a complete user operation
+ * @param overrides Fields to replace
+ */
+const sampleUserOperation = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+  sender: SENDER,
+  nonce: '0x0',
+  initCode: '0x',
+  callData: '0xb61d27f6',
+  callGasLimit: '0x186a0',
+  verificationGasLimit: '0x186a0',
+  preVerificationGas: '0xc350',
+  maxFeePerGas: '0x3b9aca00',
+  maxPriorityFeePerGas: '0x3b9aca00',
+  paymasterAndData: '0x',
+  signature: `0x${'11'.repeat(65)}`,
+  ...overrides,
+});
+
+/**
+ * v0.7 user operation in its JSON-RPC form, with a factory and a paymaster
+ */
+const sampleUserOperationV07 = (): Record<string, unknown> => ({
+  sender: SENDER,
+  nonce: '0x5',
+  factory: FACTORY,
+  factoryData: '0xdeadbeef',
+  callData: '0xb61d27f6',
+  callGasLimit: '0x30d40',
+  verificationGasLimit: '0x186a0',
+  preVerificationGas: '0xc350',
+  maxFeePerGas: '0x3b9aca00',
+  maxPriorityFeePerGas: '0x59682f00',
+  paymaster: PAYMASTER,
+  paymasterVerificationGasLimit: '0xea60',
+  paymasterPostOpGasLimit: '0x7530',
+  paymasterData: '0xcafe',
+  signature: `0x${'11'.repeat(65)}`,
+});
+
+/**
+ * Validation context of the synthetic traces: unstaked account, no factory
+ */
+const traceContext = (): TraceContext => ({
+  entryPoint: ENTRY_POINT,
+  sender: SENDER,
+  paymaster: PAYMASTER,
+  staked: { factory: false, account: false, paymaster: false },
+});
+
+/**
+ * Build a struct log step
+ * @param op Opcode
+ * @param depth Call depth, 1 being the EntryPoint
+ * @param stack Stack items, top last
+ * @param memory Memory words
+ */
+const step = (op: string, depth: number, stack: string[] = [], memory?: string[]): StructLog => ({
+  pc: 0,
+  op,
+  depth,
+  stack,
+  memory,
+});
+
+/**
+ * Stack of a CALL: gas, address and value on top
+ * @param address Callee
+ * @param value Value
+ */
+const callStack = (address: string, value = '0x0'): string[] => ['0x0', '0x0', '0x0', '0x0', value, address, '0xffff'];
+
+/**
+ * Steps of the EntryPoint finishing factory validation and calling the account
+ */
+const callAccount = (): StructLog[] => [step('NUMBER', 1), step('CALL', 1, callStack(SENDER))];
+
+/**
+ * Fail unless a function throws a bundler error with a code
+ * @param body Function
+ * @param code Expected code
+ */
+const expectBundlerError = (body: () => unknown, code: BundlerErrorCode): void => {
+  try {
+    body();
+  } catch (error) {
+    assert(error instanceof BundlerError && error.rpcCode === code, `Expected code ${code}, got ${error}`);
+    return;
+  }
+  throw new Error(`Expected a bundler error with code ${code}`);
+};
+
+/**
+ * Run a suite of tests in order
+ * @param name Suite name
+ * @param tests Tests
+ */
+const runSuite = async (name: string, tests: (() => Promise<TestResult>)[]): Promise<TestSuiteResult> => {
+  const startTime = Date.now();
+  const results: TestResult[] = [];
+
+  for (const test of tests) {
+    results.push(await test());
+  }
+
+  const passed = results.filter(t => t.success).length;
+  const skipped = results.filter(t => t.skipped).length;
+  const failed = results.length - passed - skipped;
+  logger.info(`${name}: ${passed} passed, ${failed} failed, ${skipped} skipped`);
+
+  return {
+    name,
+    tests: results,
+    passed,
+    failed,
+    skipped,
+    duration: Date.now() - startTime,
+    timestamp: Date.now(),
+  };
+};
+
+/**
+ * Summary of a suite that could not run
+ * @param name Suite name
+ * @param reason Why it was skipped
+ */
+const skippedSuite = (name: string, reason: string): TestSuiteResult => ({
+  name,
+  tests: [{ name: 'All', success: false, skipped: true, error: reason, duration: 0 }],
+  passed: 0,
+  failed: 0,
+  skipped: 1,
+  duration: 0,
+  timestamp: Date.now(),
+});
+
+/**
+ * Run a test body and time it
+ * @param name Test name
+ * @param body Test body, returning details
+ */
+const runTest = async (name: string, body: () => Promise<Record<string, any> | void>): Promise<TestResult> => {
+  const startTime = Date.now();
+  try {
+    const details = await body();
+    return { name, success: true, duration: Date.now() - startTime, details: details || undefined };
+  } catch (error) {
+    logger.error(`Test ${name} failed:`, error);
+    return { name, success: false, error: String(error), duration: Date.now() - startTime };
+  }
+};
+
+/**
+ * Fail unless a condition holds
+ * @param condition Condition
+ * @param message Failure message
+ */
+const assert = (condition: unknown, message: string): void => {
+  if (!condition) {
+    throw new Error(message);
+  }
+};
+
+if (require.main === module) {
+  runBundlerTests()
+    .then(results => {
+      const suites = Object.values(results);
+      for (const suite of suites) {
+        for (const test of suite.tests) {
+          const status = test.skipped ? 'SKIP' : test.success ? 'PASS' : 'FAIL';
+          console.log(`[${status}] ${suite.name} - ${test.name}${test.error ? `: ${test.error}` : ''}`);
+        }
+      }
+      process.exit(suites.some(suite => suite.failed > 0) ? 1 : 0);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,184 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { logger } from '../../utils/logger';
+import { toPublicChain } from '../../api/chains';
+import { ChainRegistry } from '../../services/chain-registry';
+
+/**
+ * Chain API tests. A registry is loaded from a throwaway file whose chain
+ * carries provider and explorer keys, and the chain returned by the API is
+ * checked to hold none of them.
+ *
+ * Run with `npm run test:chains`.
+ */
+
+// Test result
+interface TestResult {
+  name: string;
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+  duration: number; // milliseconds
+  details?: Record<string, any>;
+}
+
+// Test suite result
+interface TestSuiteResult {
+  name: string;
+  tests: TestResult[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number; // milliseconds
+  timestamp: number;
+}
+
+// Secrets the test chain is configured with
+const SECRETS = {
+  rpc: 'rpc-secret-key',
+  bundler: 'bundler-secret-key',
+  paymaster: 'paymaster-secret-key',
+  alchemy: 'alchemy-secret-key',
+  explorer: 'explorer-secret-key',
+};
+
+/**
+ * Run every chain API test suite
+ * @returns Results by suite
+ */
+export const runChainsTests = async (): Promise<Record<string, TestSuiteResult>> => ({
+  publicChains: await runSuite('Public Chains', [testSecretsStripped]),
+});
+
+/**
+ * Test a public chain keeps the explorer's page URLs but no endpoint or key
+ */
+const testSecretsStripped = (): Promise<TestResult> =>
+  runTest('Secrets Stripped', async () => {
+    const registryFile = path.join(os.tmpdir(), `chains-test-${Date.now()}.json`);
+    fs.writeFileSync(
+      registryFile,
+      JSON.stringify([
+        {
+          chainId: 990002,
+          name: 'Chains test',
+          nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+          rpcUrls: [`https://rpc.example.com/${SECRETS.rpc}`, 'https://rpc2.example.com'],
+          blockTime: 12,
+          confirmations: 1,
+          bundlerUrl: `https://bundler.example.com/rpc?apikey=${SECRETS.bundler}`,
+          paymasterUrl: `https://paymaster.example.com/rpc?apikey=${SECRETS.paymaster}`,
+          alchemy: { network: 'eth-mainnet', apiKey: SECRETS.alchemy },
+          explorer: {
+            url: 'https://explorer.example.com',
+            txUrl: 'https://explorer.example.com/tx/{hash}',
+            addressUrl: 'https://explorer.example.com/address/{address}',
+            apiUrl: 'https://explorer.example.com/api',
+            apiKey: SECRETS.explorer,
+          },
+        },
+      ])
+    );
+
+    try {
+      const chain = new ChainRegistry({ filePath: registryFile }).getChain(990002);
+      assert(chain?.explorer?.apiKey === SECRETS.explorer, 'Registry should load the explorer API key');
+
+      const publicChain = toPublicChain(chain!);
+      const body = JSON.stringify(publicChain);
+      for (const [name, secret] of Object.entries(SECRETS)) {
+        assert(!body.includes(secret), `Public chain should not hold the ${name} key`);
+      }
+      assert(
+        publicChain.explorer.apiKey === undefined && publicChain.explorer.apiUrl === undefined,
+        'Explorer API should be stripped'
+      );
+      assert(
+        publicChain.explorer.txUrl === 'https://explorer.example.com/tx/{hash}' &&
+          publicChain.explorer.addressUrl === 'https://explorer.example.com/address/{address}',
+        'Explorer page URLs should be kept'
+      );
+      assert(
+        publicChain.rpcEndpoints === 2 && publicChain.bundler && publicChain.paymaster,
+        'Endpoints should be summarized'
+      );
+      return { fields: Object.keys(publicChain) };
+    } finally {
+      fs.rmSync(registryFile, { force: true });
+    }
+  });
+
+/**
+ * Run a suite of tests in order
+ * @param name Suite name
+ * @param tests Tests
+ */
+const runSuite = async (name: string, tests: (() => Promise<TestResult>)[]): Promise<TestSuiteResult> => {
+  const startTime = Date.now();
+  const results: TestResult[] = [];
+
+  for (const test of tests) {
+    results.push(await test());
+  }
+
+  const passed = results.filter(t => t.success).length;
+  const skipped = results.filter(t => t.skipped).length;
+  const failed = results.length - passed - skipped;
+  logger.info(`${name}: ${passed} passed, ${failed} failed, ${skipped} skipped`);
+
+  return {
+    name,
+    tests: results,
+    passed,
+    failed,
+    skipped,
+    duration: Date.now() - startTime,
+    timestamp: Date.now(),
+  };
+};
+
+/**
+ * Run a test body and time it
+ * @param name Test name
+ * @param body Test body, returning details
+ */
+const runTest = async (name: string, body: () => Promise<Record<string, any> | void>): Promise<TestResult> => {
+  const startTime = Date.now();
+  try {
+    const details = await body();
+    return { name, success: true, duration: Date.now() - startTime, details: details || undefined };
+  } catch (error) {
+    logger.error(`Test ${name} failed:`, error);
+    return { name, success: false, error: String(error), duration: Date.now() - startTime };
+  }
+};
+
+/**
+ * Fail unless a condition holds
+ * @param condition Condition
+ * @param message Failure message
+ */
+const assert = (condition: unknown, message: string): void => {
+  if (!condition) {
+    throw new Error(message);
+  }
+};
+
+if (require.main === module) {
+  runChainsTests()
+    .then(results => {
+      const suites = Object.values(results);
+      for (const suite of suites) {
+        for (const test of suite.tests) {
+          const status = test.skipped ? 'SKIP' : test.success ? 'PASS' : 'FAIL';
+          console.log(`[${status}] ${suite.name} - ${test.name}${test.error ? `: ${test.error}` : ''}`);
+        }
+      }
+      process.exit(suites.some(suite => suite.failed > 0) ? 1 : 0);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,398 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../utils/logger';
+import { getDatabase } from '../../config/database';
+import { militaryGradeEncryption } from '../../services/security/militaryGradeEncryption';
+import { SealedFileKeyring } from '../../services/security/rootKeyring';
+import keyRotationService, { KeyRotationError } from '../../services/security/keyRotation';
+
+/**
+ * Envelope encryption tests: round trips under per-tenant data keys, context
+ * binding, the sealed root key file, and rotation of data and root keys.
+ * The root keys live in a sealed key file in a temporary directory, whatever
+ * root key source the backend is configured with. Data keys are created for
+ * a throwaway tenant in the database configured for the backend and deleted
+ * after the run; rotation jobs are not started, as they would process every
+ * tenant's data.
+ *
+ * Run with `npm run test:encryption`.
+ */
+
+// Test result
+interface TestResult {
+  name: string;
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+  duration: number; // milliseconds
+  details?: Record<string, any>;
+}
+
+// Test suite result
+interface TestSuiteResult {
+  name: string;
+  tests: TestResult[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number; // milliseconds
+  timestamp: number;
+}
+
+// Test environment
+interface TestContext {
+  tenantId: string;
+  keyFile: string;
+  passphrase: string;
+}
+
+/**
+ * Run every encryption test suite
+ * @returns Results by suite
+ */
+export const runEncryptionTests = async (): Promise<Record<string, TestSuiteResult>> => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'encryption-test-'));
+  const context: TestContext = {
+    tenantId: `encryption-test-${uuidv4()}`,
+    keyFile: path.join(directory, 'root-key.sealed'),
+    passphrase: crypto.randomBytes(16).toString('hex'),
+  };
+
+  // Read when the root keyring is first loaded
+  process.env.ENCRYPTION_ROOT_KEY_SOURCE = 'file';
+  process.env.ENCRYPTION_ROOT_KEY_FILE = context.keyFile;
+  process.env.ENCRYPTION_ROOT_KEY_PASSPHRASE = context.passphrase;
+
+  try {
+    return {
+      envelope: await runSuite('Envelope Encryption', [
+        () => testRoundTrip(context),
+        () => testBinding(context),
+        () => testSealedKeyFile(context),
+      ]),
+      rotation: await runSuite('Key Rotation', [
+        () => testDataKeyRotation(context),
+        () => testRootKeyRotation(context),
+        () => testStatus(context),
+      ]),
+    };
+  } finally {
+    await removeDataKeys(context.tenantId);
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+};
+
+const testRoundTrip = ({ tenantId }: TestContext): Promise<TestResult> =>
+  runTest('Round Trip', async () => {
+    const plaintext = 'JBSWY3DPEHPK3PXP – ✓';
+    const encrypted = await militaryGradeEncryption.encrypt(plaintext, 'secret:user-1', tenantId);
+    assert(encrypted.startsWith('v2:dek_'), `Unexpected ciphertext format ${encrypted.slice(0, 12)}`);
+    assert(!encrypted.includes(plaintext), 'The ciphertext should not contain the plaintext');
+    assert((await militaryGradeEncryption.decrypt(encrypted, 'secret:user-1')) === plaintext, 'Data should round-trip');
+
+    const again = await militaryGradeEncryption.encrypt(plaintext, 'secret:user-1', tenantId);
+    assert(again !== encrypted, 'Encryptions of the same data should differ');
+
+    const { legacy, dataKeyId } = militaryGradeEncryption.describeCiphertext(encrypted);
+    assert(!legacy && dataKeyId === militaryGradeEncryption.describeCiphertext(again).dataKeyId, 'One key per scope');
+
+    const key = await getDataKey(dataKeyId!);
+    const root = await militaryGradeEncryption.getRootKeyInfo();
+    assert(key.scope === `${tenantId}:secret` && key.purpose === 'secret', `Unexpected scope ${key.scope}`);
+    assert(key.status === 'active' && key.version === 1, 'The first key of a scope should be active version 1');
+    assert(root.source === 'file' && key.rootKeyId === root.currentKeyId, 'The key should be wrapped by the root key');
+    assert(!('key' in key) && typeof key.wrappedKey === 'string', 'Only the wrapped key should be stored');
+    assert(await militaryGradeEncryption.isCurrent(encrypted, 'secret:user-1', tenantId), 'The key should be current');
+
+    return { dataKeyId };
+  });
+
+const testBinding = ({ tenantId }: TestContext): Promise<TestResult> =>
+  runTest('Context and Tenant Binding', async () => {
+    const encrypted = await militaryGradeEncryption.encrypt('bound', 'secret:user-1', tenantId);
+
+    await rejects(() => militaryGradeEncryption.decrypt(encrypted, 'secret:user-2'), 'Decrypting in another context');
+    await rejects(() => militaryGradeEncryption.decrypt(encrypted, 'other:user-1'), 'Decrypting for another purpose');
+
+    const [version, dataKeyId, body] = encrypted.split(':');
+    const tampered = Buffer.from(body, 'base64');
+    tampered[tampered.length - 1] ^= 1;
+    await rejects(
+      () => militaryGradeEncryption.decrypt(`${version}:${dataKeyId}:${tampered.toString('base64')}`, 'secret:user-1'),
+      'Decrypting a modified ciphertext'
+    );
+
+    // Naming another data key fails authentication even if the key exists
+    const other = await militaryGradeEncryption.encrypt('other', 'secret:user-1', `${tenantId}-other`);
+    const otherKeyId = militaryGradeEncryption.describeCiphertext(other).dataKeyId!;
+    assert(otherKeyId !== dataKeyId, 'Tenants should have separate data keys');
+    await rejects(
+      () => militaryGradeEncryption.decrypt(`${version}:${otherKeyId}:${body}`, 'secret:user-1'),
+      'Decrypting under another tenant key'
+    );
+    await rejects(
+      () => militaryGradeEncryption.decrypt(`${version}:dek_missing:${body}`, 'secret:user-1'),
+      'Decrypting under an unknown key'
+    );
+  });
+
+const testSealedKeyFile = ({ keyFile, passphrase }: TestContext): Promise<TestResult> =>
+  runTest('Sealed Root Key File', async () => {
+    const root = await militaryGradeEncryption.getRootKeyInfo();
+    assert(root.rotatable, 'File root keys should be rotatable');
+
+    const sealed = fs.readFileSync(keyFile, 'utf8');
+    assert(JSON.parse(sealed).kdf.algorithm === 'scrypt', 'The key file should be sealed with scrypt');
+    assert((fs.statSync(keyFile).mode & 0o077) === 0, 'The key file should only be readable by its owner');
+
+    // A restart reads the same root keys back
+    const reopened = await SealedFileKeyring.open(keyFile, passphrase);
+    assert(reopened.currentKeyId() === root.currentKeyId, 'Reopening should keep the current root key');
+
+    const dataKey = crypto.randomBytes(32);
+    const wrapped = await reopened.wrap(dataKey, 'dek:test');
+    const again = await SealedFileKeyring.open(keyFile, passphrase);
+    assert((await again.unwrap(wrapped, 'dek:test')).equals(dataKey), 'Wrapped keys should survive a restart');
+    await rejects(() => again.unwrap(wrapped, 'dek:other'), 'Unwrapping with other associated data');
+
+    await rejects(() => SealedFileKeyring.open(keyFile, 'wrong passphrase'), 'Opening with a wrong passphrase');
+    await rejects(() => SealedFileKeyring.open(keyFile, ''), 'Opening without a passphrase');
+  });
+
+const testDataKeyRotation = ({ tenantId }: TestContext): Promise<TestResult> =>
+  runTest('Data Key Rotation', async () => {
+    const old = await militaryGradeEncryption.encrypt('rotate me', 'rotation:user-1', tenantId);
+    const oldKeyId = militaryGradeEncryption.describeCiphertext(old).dataKeyId!;
+
+    const rotated = await militaryGradeEncryption.rotateDataKey('rotation', tenantId);
+    assert(rotated.id !== oldKeyId && rotated.version === 2, 'Rotation should create version 2');
+    assert((await getDataKey(oldKeyId)).status === 'retired', 'The old key should be retired');
+
+    assert(!(await militaryGradeEncryption.isCurrent(old, 'rotation:user-1', tenantId)), 'Old data should be stale');
+    assert((await militaryGradeEncryption.decrypt(old, 'rotation:user-1')) === 'rotate me', 'Old data should decrypt');
+
+    const reencrypted = await militaryGradeEncryption.reencrypt(old, 'rotation:user-1', tenantId);
+    const reencryptedKeyId = militaryGradeEncryption.describeCiphertext(reencrypted).dataKeyId;
+    assert(reencryptedKeyId === rotated.id, 'Data should be re-encrypted under the new key');
+    assert(await militaryGradeEncryption.isCurrent(reencrypted, 'rotation:user-1', tenantId), 'New data is current');
+    assert(
+      (await militaryGradeEncryption.decrypt(reencrypted, 'rotation:user-1')) === 'rotate me',
+      'Re-encrypted data should decrypt'
+    );
+
+    const fresh = await militaryGradeEncryption.encrypt('new', 'rotation:user-2', tenantId);
+    const freshKeyId = militaryGradeEncryption.describeCiphertext(fresh).dataKeyId;
+    assert(freshKeyId === rotated.id, 'New data should use the new key');
+
+    await rejectsWith(
+      () => keyRotationService.rotateDataKey('bad purpose!', tenantId, 'encryption-test'),
+      KeyRotationError,
+      'Rotating a key with an invalid purpose'
+    );
+  });
+
+const testRootKeyRotation = ({ tenantId, keyFile, passphrase }: TestContext): Promise<TestResult> =>
+  runTest('Root Key Rotation', async () => {
+    const encrypted = await militaryGradeEncryption.encrypt('root rotation', 'rootrotation:user-1', tenantId);
+    const dataKeyId = militaryGradeEncryption.describeCiphertext(encrypted).dataKeyId!;
+    const before = await militaryGradeEncryption.getRootKeyInfo();
+
+    const rootKeyId = await militaryGradeEncryption.rotateRootKey();
+    const after = await militaryGradeEncryption.getRootKeyInfo();
+    assert(rootKeyId !== before.currentKeyId && after.currentKeyId === rootKeyId, 'Rotation should add a current key');
+    assert(after.keyIds.includes(before.currentKeyId), 'The old root key should stay available');
+
+    const reopened = await SealedFileKeyring.open(keyFile, passphrase);
+    assert(reopened.currentKeyId() === rootKeyId, 'The new root key should be saved to the key file');
+    assert(reopened.keyIds().length === after.keyIds.length, 'The key file should keep the old root key');
+
+    const stale = await getDataKey(dataKeyId);
+    assert(stale.rootKeyId === before.currentKeyId, 'Data keys stay on the old root key until rewrapped');
+
+    assert(await militaryGradeEncryption.rewrapDataKey(dataKeyId), 'The data key should be rewrapped');
+    assert(!(await militaryGradeEncryption.rewrapDataKey(dataKeyId)), 'A rewrapped key should not be rewrapped again');
+
+    const rewrapped = await getDataKey(dataKeyId);
+    assert(rewrapped.rootKeyId === rootKeyId, 'The data key should be wrapped by the new root key');
+    assert(rewrapped.wrappedKey !== stale.wrappedKey, 'The wrapped key should change');
+    assert(rewrapped.rewrappedAt !== undefined && rewrapped.id === stale.id, 'Rewrapping should keep the key ID');
+    assert(
+      (await militaryGradeEncryption.decrypt(encrypted, 'rootrotation:user-1')) === 'root rotation',
+      'Data should decrypt after rewrapping'
+    );
+  });
+
+const testStatus = ({ tenantId }: TestContext): Promise<TestResult> =>
+  runTest('Status Report', async () => {
+    const status = await keyRotationService.getStatus();
+    assert(status.rootKey.source === 'file', 'The status should describe the root keyring');
+
+    const keys = status.dataKeys.filter(key => key.tenantId === tenantId);
+    assert(keys.length > 0, 'The status should list the test data keys');
+    assert(keys.every(key => !('wrappedKey' in key)), 'The status should not include wrapped keys');
+
+    const rotation = keys.filter(key => key.purpose === 'rotation').sort((a, b) => a.version - b.version);
+    assert(rotation.map(key => key.status).join() === 'retired,active', 'The status should show retired keys');
+    assert(
+      keys.some(key => key.purpose === 'rootrotation' && key.onCurrentRootKey),
+      'The rewrapped key should be on the current root key'
+    );
+    assert(
+      keys.some(key => key.purpose === 'secret' && !key.onCurrentRootKey),
+      'Keys not yet rewrapped should be reported'
+    );
+
+    await rejectsWith(() => keyRotationService.getJob(uuidv4()), KeyRotationError, 'Getting an unknown job');
+  });
+
+/**
+ * Get a data key record
+ * @param id Data key ID
+ */
+const getDataKey = async (id: string) => {
+  const db = await getDatabase();
+  const key = await db.get('encryption_keys', id);
+  assert(key, `Data key ${id} not found`);
+  return key!;
+};
+
+/**
+ * Delete the data keys of the test tenants
+ * @param tenantId Test tenant
+ */
+const removeDataKeys = async (tenantId: string): Promise<void> => {
+  const db = await getDatabase();
+  for (const key of await db.getAll('encryption_keys')) {
+    if (key.tenantId.startsWith(tenantId)) {
+      await db.delete('encryption_keys', key.id);
+    }
+  }
+};
+
+/**
+ * Fail unless a call is rejected
+ * @param call Call expected to fail
+ * @param description What the call does
+ */
+const rejects = async (call: () => Promise<unknown>, description: string): Promise<void> => {
+  try {
+    await call();
+  } catch {
+    return;
+  }
+  throw new Error(`${description} should fail`);
+};
+
+/**
+ * Fail unless a call is rejected with an error of a class
+ * @param call Call expected to fail
+ * @param errorClass Expected error class
+ * @param description What the call does
+ */
+const rejectsWith = async (
+  call: () => Promise<unknown>,
+  errorClass: new (...args: any[]) => Error,
+  description: string
+): Promise<void> => {
+  try {
+    await call();
+  } catch (error) {
+    if (error instanceof errorClass) {
+      return;
+    }
+    throw error;
+  }
+  throw new Error(`${description} should fail`);
+};
+
+/**
+ * Run a suite of tests in order
+ * @param name Suite name
+ * @param tests Tests
+ */
+const runSuite = async (name: string, tests: (() => Promise<TestResult>)[]): Promise<TestSuiteResult> => {
+  const startTime = Date.now();
+  const results: TestResult[] = [];
+
+  for (const test of tests) {
+    results.push(await test());
+  }
+
+  const passed = results.filter(t => t.success).length;
+  const skipped = results.filter(t => t.skipped).length;
+  const failed = results.length - passed - skipped;
+  logger.info(`${name}: ${passed} passed, ${failed} failed, ${skipped} skipped`);
+
+  return {
+    name,
+    tests: results,
+    passed,
+    failed,
+    skipped,
+    duration: Date.now() - startTime,
+    timestamp: Date.now(),
+  };
+};
+
+/**
+ * Summary of a suite that could not run
+ * @param name Suite name
+ * @param reason Why it was skipped
+ */
+const skippedSuite = (name: string, reason: string): TestSuiteResult => ({
+  name,
+  tests: [{ name: 'All', success: false, skipped: true, error: reason, duration: 0 }],
+  passed: 0,
+  failed: 0,
+  skipped: 1,
+  duration: 0,
+  timestamp: Date.now(),
+});
+
+/**
+ * Run a test body and time it
+ * @param name Test name
+ * @param body Test body, returning details
+ */
+const runTest = async (name: string, body: () => Promise<Record<string, any> | void>): Promise<TestResult> => {
+  const startTime = Date.now();
+  try {
+    const details = await body();
+    return { name, success: true, duration: Date.now() - startTime, details: details || undefined };
+  } catch (error) {
+    logger.error(`Test ${name} failed:`, error);
+    return { name, success: false, error: String(error), duration: Date.now() - startTime };
+  }
+};
+
+/**
+ * Fail unless a condition holds
+ * @param condition Condition
+ * @param message Failure message
+ */
+const assert = (condition: unknown, message: string): void => {
+  if (!condition) {
+    throw new Error(message);
+  }
+};
+
+if (require.main === module) {
+  runEncryptionTests()
+    .then(results => {
+      const suites = Object.values(results);
+      for (const suite of suites) {
+        for (const test of suite.tests) {
+          const status = test.skipped ? 'SKIP' : test.success ? 'PASS' : 'FAIL';
+          console.log(`[${status}] ${suite.name} - ${test.name}${test.error ? `: ${test.error}` : ''}`);
+        }
+      }
+      process.exit(suites.some(suite => suite.failed > 0) ? 1 : 0);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,478 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { logger } from '../../utils/logger';
+import { ChainRegistry } from '../../services/chain-registry';
+import {
+  DEFAULT_GAS_SPEEDS,
+  FeeHistory,
+  GasOracle,
+  GasOracleError,
+  recommendFees,
+  recommendLegacyFees,
+} from '../../services/gas-oracle';
+
+/**
+ * Gas oracle tests. Recommendations are computed offline from synthetic fee
+ * histories. The chain tests sample an Anvil node at
+ * GAS_ORACLE_TEST_RPC_URL (default http://127.0.0.1:8545), setting base fees
+ * with anvil_setNextBlockBaseFeePerGas, and are skipped when no node answers.
+ *
+ * Run with `npm run test:gas-oracle`.
+ */
+
+// Test result
+interface TestResult {
+  name: string;
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+  duration: number; // milliseconds
+  details?: Record<string, any>;
+}
+
+// Test suite result
+interface TestSuiteResult {
+  name: string;
+  tests: TestResult[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number; // milliseconds
+  timestamp: number;
+}
+
+// Test node and a registry holding it
+interface ChainFixture {
+  provider: ethers.providers.JsonRpcProvider;
+  chainId: number;
+  registry: ChainRegistry;
+  registryFile: string;
+}
+
+const RPC_URL = process.env.GAS_ORACLE_TEST_RPC_URL || 'http://127.0.0.1:8545';
+const CONNECT_TIMEOUT_MS = 3000;
+
+const BLOCK_TIME = 2;
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+const gwei = (value: number | string) => ethers.utils.parseUnits(String(value), 'gwei');
+
+/**
+ * Run every gas oracle test suite
+ * @returns Results by suite
+ */
+export const runGasOracleTests = async (): Promise<Record<string, TestSuiteResult>> => {
+  const results: Record<string, TestSuiteResult> = {
+    recommendations: await runSuite('Recommendations', [
+      testRecommendFees,
+      testPriorityFeeFloor,
+      testLegacyFees,
+      testMalformedHistory,
+    ]),
+  };
+
+  const fixture = await createFixture();
+  if (!fixture) {
+    results.chain = skippedSuite('Local Chain', `No node answers at ${RPC_URL}`);
+    return results;
+  }
+
+  try {
+    results.chain = await runSuite('Local Chain', [
+      () => testSpeeds(fixture),
+      () => testTrend(fixture),
+      () => testCache(fixture),
+      () => testLegacyChain(fixture),
+      () => testUnsupportedChain(fixture),
+    ]);
+  } finally {
+    await fixture.provider.send('evm_setAutomine', [true]);
+    fs.rmSync(fixture.registryFile, { force: true });
+  }
+  return results;
+};
+
+/**
+ * Test speeds pay the median reward at their percentile over busy blocks,
+ * with base fee headroom for their target blocks
+ */
+const testRecommendFees = (): Promise<TestResult> =>
+  runTest('Recommend Fees', async () => {
+    const history: FeeHistory = {
+      oldestBlock: '0x64',
+      baseFeePerGas: [gwei(100), gwei(105), gwei(110), gwei(120)].map(fee => fee.toHexString()),
+      gasUsedRatio: [0.5, 0, 0.6],
+      reward: [
+        [gwei(1), gwei(2), gwei(3), gwei(5)].map(reward => reward.toHexString()),
+        ['0x0', '0x0', '0x0', '0x0'],
+        [gwei(1), gwei(2), gwei(4), gwei(6)].map(reward => reward.toHexString()),
+      ],
+    };
+    const recommendation = recommendFees(1, history, BLOCK_TIME, {
+      speeds: DEFAULT_GAS_SPEEDS,
+      minPriorityFeePerGas: '0',
+    });
+
+    assert(recommendation.eip1559 && recommendation.blockNumber === 102, 'Newest sampled block should be 102');
+    assert(recommendation.baseFeePerGas === gwei(120).toString(), 'Base fee should be the next block\'s');
+    const expected = { slow: gwei(1), standard: gwei(2), fast: gwei('3.5'), instant: gwei('5.5') };
+    for (const [speed, priorityFee] of Object.entries(expected)) {
+      const estimate = recommendation.speeds[speed as keyof typeof expected];
+      const { blocks } = DEFAULT_GAS_SPEEDS[speed as keyof typeof expected];
+      const baseFeeCap = gwei(120).mul(ethers.BigNumber.from(1125).pow(blocks)).div(ethers.BigNumber.from(1000).pow(blocks));
+      assert(estimate.maxPriorityFeePerGas === priorityFee.toString(), `${speed} priority fee should be ${priorityFee}`);
+      assert(estimate.maxFeePerGas === baseFeeCap.add(priorityFee).toString(), `${speed} max fee should cover ${blocks} blocks`);
+      assert(estimate.expectedInclusionSeconds === blocks * BLOCK_TIME, `${speed} should be included in ${blocks} blocks`);
+    }
+
+    const trend = recommendation.trend;
+    if (!trend) {
+      throw new Error('EIP-1559 recommendations should have a trend');
+    }
+    assert(trend.direction === 'rising' && trend.baseFeeChangePercent === 20, 'Base fee should be rising by 20%');
+    assert(trend.blocks.length === 3 && trend.blocks[2].number === 102, 'Trend should list the sampled blocks');
+    assert(trend.blocks[0].priorityFeePerGas === gwei(2).toString(), 'Trend should report the standard reward');
+    return { speeds: recommendation.speeds };
+  });
+
+/**
+ * Test empty blocks pay the floor and faster speeds never pay less than slower ones
+ */
+const testPriorityFeeFloor = (): Promise<TestResult> =>
+  runTest('Priority Fee Floor', async () => {
+    const empty = recommendFees(
+      1,
+      { oldestBlock: '0x1', baseFeePerGas: ['0x64', '0x58'], gasUsedRatio: [0], reward: [['0x0', '0x0', '0x0', '0x0']] },
+      BLOCK_TIME,
+      { speeds: DEFAULT_GAS_SPEEDS, minPriorityFeePerGas: '7' }
+    );
+    assert(
+      Object.values(empty.speeds).every(estimate => estimate.maxPriorityFeePerGas === '7'),
+      'Empty blocks should pay the floor'
+    );
+    assert(empty.trend?.direction === 'falling', 'A base fee down 12% should be falling');
+
+    const inverted = recommendFees(
+      1,
+      { oldestBlock: '0x1', baseFeePerGas: ['0x64', '0x64'], gasUsedRatio: [0.5], reward: [['0x9', '0x5', '0x3', '0xa']] },
+      BLOCK_TIME,
+      { speeds: DEFAULT_GAS_SPEEDS, minPriorityFeePerGas: '0' }
+    );
+    const fees = ['slow', 'standard', 'fast', 'instant'].map(
+      speed => inverted.speeds[speed as keyof typeof inverted.speeds].maxPriorityFeePerGas
+    );
+    assert(fees.join(',') === '9,9,9,10', `Priority fees should not decrease with speed, got ${fees}`);
+    assert(inverted.trend?.direction === 'stable', 'An unchanged base fee should be stable');
+  });
+
+/**
+ * Test chains without a base fee price speeds off the gas price
+ */
+const testLegacyFees = (): Promise<TestResult> =>
+  runTest('Legacy Fees', async () => {
+    const recommendation = recommendLegacyFees(56, gwei(3), 500, 3, DEFAULT_GAS_SPEEDS);
+    assert(!recommendation.eip1559 && !recommendation.trend, 'Legacy chains should have no trend');
+    assert(recommendation.speeds.standard.maxFeePerGas === gwei(3).toString(), 'Standard should pay the gas price');
+    assert(recommendation.speeds.fast.maxFeePerGas === gwei('3.3').toString(), 'Fast should pay 10% more');
+    assert(recommendation.speeds.instant.maxPriorityFeePerGas === gwei('3.75').toString(), 'Instant should pay 25% more');
+    assert(recommendation.speeds.slow.expectedInclusionSeconds === 18, 'Slow should be included in 6 blocks');
+  });
+
+/**
+ * Test a fee history without one base fee per block and the next is rejected
+ */
+const testMalformedHistory = (): Promise<TestResult> =>
+  runTest('Malformed History', async () => {
+    try {
+      recommendFees(1, { oldestBlock: '0x1', baseFeePerGas: ['0x1'], gasUsedRatio: [0.5] }, BLOCK_TIME, {
+        speeds: DEFAULT_GAS_SPEEDS,
+        minPriorityFeePerGas: '0',
+      });
+    } catch (error) {
+      assert(error instanceof GasOracleError && error.statusCode === 502, `Expected a gas oracle error, got ${error}`);
+      return;
+    }
+    throw new Error('Malformed fee history should be rejected');
+  });
+
+/**
+ * Test the priority fees of a block with one transaction per tip
+ */
+const testSpeeds = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Speeds From Fee History', async () => {
+    const { provider } = fixture;
+    const baseFee = gwei(1);
+    await provider.send('anvil_setNextBlockBaseFeePerGas', [baseFee.toHexString()]);
+    await provider.send('evm_setAutomine', [false]);
+    try {
+      const accounts: string[] = await provider.listAccounts();
+      await Promise.all(
+        [1, 2, 3, 4].map(tip =>
+          provider.getSigner(accounts[tip]).sendTransaction({
+            to: RECIPIENT,
+            value: 1,
+            gasLimit: 21000,
+            maxPriorityFeePerGas: gwei(tip),
+            maxFeePerGas: gwei(10),
+          })
+        )
+      );
+      await provider.send('evm_mine', []);
+    } finally {
+      await provider.send('evm_setAutomine', [true]);
+    }
+
+    const oracle = createOracle(fixture, { blockCount: 1 });
+    const recommendation = await oracle.getRecommendation(fixture.chainId);
+    const tips = ['slow', 'standard', 'fast', 'instant'].map(speed =>
+      ethers.utils.formatUnits(recommendation.speeds[speed as keyof typeof recommendation.speeds].maxPriorityFeePerGas, 'gwei')
+    );
+    assert(tips.join(',') === '1.0,2.0,3.0,4.0', `Priority fees should follow the block's tips, got ${tips}`);
+    assert(recommendation.blockNumber === (await provider.getBlockNumber()), 'Newest sampled block should be the latest');
+
+    const nextBaseFee = ethers.BigNumber.from(recommendation.baseFeePerGas);
+    assert(nextBaseFee.lt(baseFee), 'A block under its gas target should lower the base fee');
+    const instant = recommendation.speeds.instant;
+    assert(
+      instant.maxFeePerGas === nextBaseFee.mul(1125).div(1000).add(gwei(4)).toString(),
+      'Instant max fee should cover one block of base fee growth'
+    );
+    assert(instant.expectedInclusionSeconds === BLOCK_TIME, 'Instant should be included in one block');
+    return { tips, baseFeePerGas: recommendation.baseFeePerGas };
+  });
+
+/**
+ * Test the trend follows base fees set on the node
+ */
+const testTrend = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Base Fee Trend', async () => {
+    const oracle = createOracle(fixture, { blockCount: 4, cacheTtlMs: 0 });
+
+    await mineWithBaseFees(fixture, [1, 2, 3, 4]);
+    const rising = (await oracle.getRecommendation(fixture.chainId)).trend;
+    assert(rising?.direction === 'rising', `Trend should be rising, got ${rising?.direction}`);
+    assert(
+      rising?.blocks.map(block => ethers.utils.formatUnits(block.baseFeePerGas, 'gwei')).join(',') === '1.0,2.0,3.0,4.0',
+      'Trend should list the sampled base fees'
+    );
+
+    await mineWithBaseFees(fixture, [8, 6, 4, 2]);
+    const falling = (await oracle.getRecommendation(fixture.chainId)).trend;
+    assert(falling?.direction === 'falling', `Trend should be falling, got ${falling?.direction}`);
+    assert(falling && falling.baseFeeChangePercent < -70, 'Base fee should have fallen by more than 70%');
+    return { rising: rising?.baseFeeChangePercent, falling: falling?.baseFeeChangePercent };
+  });
+
+/**
+ * Test samples are cached and shared until cleared
+ */
+const testCache = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Cache', async () => {
+    const { provider, chainId } = fixture;
+    const oracle = createOracle(fixture, { cacheTtlMs: 60 * 60 * 1000 });
+
+    const [first, concurrent] = await Promise.all([oracle.getRecommendation(chainId), oracle.getRecommendation(chainId)]);
+    assert(first === concurrent, 'Concurrent requests should share one sample');
+    await provider.send('evm_mine', []);
+    const cached = await oracle.getRecommendation(chainId);
+    assert(cached === first, 'A sample should be served until it expires');
+
+    oracle.clearCache(chainId);
+    const fresh = await oracle.getRecommendation(chainId);
+    assert(fresh.blockNumber === first.blockNumber + 1, 'A cleared cache should sample the new block');
+  });
+
+/**
+ * Test a chain with no base fee is priced off eth_gasPrice
+ */
+const testLegacyChain = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Legacy Chain', async () => {
+    const { provider, chainId } = fixture;
+    const oracle = createOracle(fixture, { blockCount: 2, cacheTtlMs: 0 });
+    try {
+      await mineWithBaseFees(fixture, [0, 0]);
+      const recommendation = await oracle.getRecommendation(chainId);
+      const gasPrice = await provider.getGasPrice();
+      assert(!recommendation.eip1559, 'A chain without base fees should be priced as legacy');
+      assert(
+        recommendation.speeds.fast.maxFeePerGas === gasPrice.mul(110).div(100).toString(),
+        'Fast should pay 10% over the gas price'
+      );
+    } finally {
+      await mineWithBaseFees(fixture, [1]);
+    }
+  });
+
+/**
+ * Test chains missing from the registry are rejected
+ */
+const testUnsupportedChain = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Unsupported Chain', async () => {
+    try {
+      await createOracle(fixture).getRecommendation(fixture.chainId + 1);
+    } catch (error) {
+      assert(error instanceof GasOracleError && error.statusCode === 400, `Expected a gas oracle error, got ${error}`);
+      return;
+    }
+    throw new Error('Unsupported chain should be rejected');
+  });
+
+/**
+ * Connect to the test node and write a registry holding it
+ * @returns Fixture, or undefined if no node answers
+ */
+const createFixture = async (): Promise<ChainFixture | undefined> => {
+  const provider = new ethers.providers.StaticJsonRpcProvider(RPC_URL);
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      provider.getBlockNumber(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error('timeout')), CONNECT_TIMEOUT_MS);
+      }),
+    ]);
+  } catch {
+    logger.warn(`No node at ${RPC_URL}, skipping local chain tests`);
+    return undefined;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const chainId = (await provider.getNetwork()).chainId;
+  const registryFile = path.join(os.tmpdir(), `gas-oracle-test-chains-${Date.now()}.json`);
+  fs.writeFileSync(
+    registryFile,
+    JSON.stringify([
+      {
+        chainId,
+        name: 'Gas oracle test',
+        nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+        rpcUrls: [RPC_URL],
+        blockTime: BLOCK_TIME,
+        confirmations: 0,
+      },
+    ])
+  );
+  return { provider, chainId, registry: new ChainRegistry({ filePath: registryFile }), registryFile };
+};
+
+/**
+ * Create an oracle over the test registry
+ * @param fixture Fixture
+ * @param options Options to replace
+ */
+const createOracle = (
+  fixture: ChainFixture,
+  options: { blockCount?: number; cacheTtlMs?: number } = {}
+): GasOracle =>
+  new GasOracle(
+    {
+      blockCount: options.blockCount || 4,
+      speeds: DEFAULT_GAS_SPEEDS,
+      cacheTtlMs: options.cacheTtlMs,
+      minPriorityFeePerGas: '0',
+    },
+    fixture.registry
+  );
+
+/**
+ * Mine empty blocks with set base fees
+ * @param fixture Fixture
+ * @param baseFees Base fee of each block, in gwei
+ */
+const mineWithBaseFees = async ({ provider }: ChainFixture, baseFees: number[]): Promise<void> => {
+  for (const baseFee of baseFees) {
+    await provider.send('anvil_setNextBlockBaseFeePerGas', [gwei(baseFee).toHexString()]);
+    await provider.send('evm_mine', []);
+  }
+};
+
+/**
+ * Run a suite of tests in order
+ * @param name Suite name
+ * @param tests Tests
+ */
+const runSuite = async (name: string, tests: (() => Promise<TestResult>)[]): Promise<TestSuiteResult> => {
+  const startTime = Date.now();
+  const results: TestResult[] = [];
+
+  for (const test of tests) {
+    results.push(await test());
+  }
+
+  const passed = results.filter(t => t.success).length;
+  const skipped = results.filter(t => t.skipped).length;
+  const failed = results.length - passed - skipped;
+  logger.info(`${name}: ${passed} passed, ${failed} failed, ${skipped} skipped`);
+
+  return {
+    name,
+    tests: results,
+    passed,
+    failed,
+    skipped,
+    duration: Date.now() - startTime,
+    timestamp: Date.now(),
+  };
+};
+
+/**
+ * Summary of a suite that could not run
+ * @param name Suite name
+ * @param reason Why it was skipped
+ */
+const skippedSuite = (name: string, reason: string): TestSuiteResult => ({
+  name,
+  tests: [{ name: 'All', success: false, skipped: true, error: reason, duration: 0 }],
+  passed: 0,
+  failed: 0,
+  skipped: 1,
+  duration: 0,
+  timestamp: Date.now(),
+});
+
+/**
+ * Run a test body and time it
+ * @param name Test name
+ * @param body Test body, returning details
+ */
+const runTest = async (name: string, body: () => Promise<Record<string, any> | void>): Promise<TestResult> => {
+  const startTime = Date.now();
+  try {
+    const details = await body();
+    return { name, success: true, duration: Date.now() - startTime, details: details || undefined };
+  } catch (error) {
+    logger.error(`Test ${name} failed:`, error);
+    return { name, success: false, error: String(error), duration: Date.now() - startTime };
+  }
+};
+
+/**
+ * Fail unless a condition holds
+ * @param condition Condition
+ * @param message Failure message
+ */
+const assert = (condition: unknown, message: string): void => {
+  if (!condition) {
+    throw new Error(message);
+  }
+};
+
+if (require.main === module) {
+  runGasOracleTests()
+    .then(results => {
+      const suites = Object.values(results);
+      for (const suite of suites) {
+        for (const test of suite.tests) {
+          const status = test.skipped ? 'SKIP' : test.success ? 'PASS' : 'FAIL';
+          console.log(`[${status}] ${suite.name} - ${test.name}${test.error ? `: ${test.error}` : ''}`);
+        }
+      }
+      process.exit(suites.some(suite => suite.failed > 0) ? 1 : 0);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,575 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { ethers } from 'ethers';
+import { logger } from '../../utils/logger';
+import type { Hex } from 'viem';
+import { getUserOperationHash as viemUserOperationHash } from 'viem/account-abstraction';
+import { createHSMProvider, HSMConfig, HSMKeyType, HSMProvider, HSMProviderType, toEthereumSignature } from '../../services/hsm';
+import { getPackedUserOperationHash, getUserOperationHash, HSMSigner } from '../../services/hsm/signer';
+
+/**
+ * PKCS#11 integration tests against SoftHSMv2, and the same suite against the
+ * file keystore, including the ethers Signer adapter. A throwaway SoftHSM
+ * token is initialized in a temporary directory; the SoftHSM tests are
+ * skipped when SoftHSM is not installed.
+ * Key metadata goes to the database configured for the backend.
+ *
+ * Run with `npm run test:hsm`. SOFTHSM2_LIBRARY and SOFTHSM2_UTIL override
+ * the library and softhsm2-util locations.
+ */
+
+// Test result
+interface TestResult {
+  name: string;
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+  duration: number; // milliseconds
+  details?: Record<string, any>;
+}
+
+// Test suite result
+interface TestSuiteResult {
+  name: string;
+  tests: TestResult[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number; // milliseconds
+  timestamp: number;
+}
+
+// Where distributions install SoftHSMv2
+const SOFTHSM_LIBRARY_PATHS = [
+  '/usr/lib/softhsm/libsofthsm2.so',
+  '/usr/lib/x86_64-linux-gnu/softhsm/libsofthsm2.so',
+  '/usr/lib/aarch64-linux-gnu/softhsm/libsofthsm2.so',
+  '/usr/lib64/pkcs11/libsofthsm2.so',
+  '/usr/local/lib/softhsm/libsofthsm2.so',
+];
+
+// Token of the test run
+const TOKEN_LABEL = 'ryzer-hsm-test';
+const USER_PIN = '1234';
+const SO_PIN = '5678';
+
+// Tenant the test keys are created under
+const TEST_TENANT = `hsm-test-${Date.now()}`;
+
+// Signatures checked per provider
+const SIGNATURE_ROUNDS = 16;
+
+const CURVE_ORDER = ethers.BigNumber.from('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+
+/**
+ * Run every HSM test suite
+ * @returns Results by provider
+ */
+export const runHSMTests = async (): Promise<Record<string, TestSuiteResult>> => {
+  const results: Record<string, TestSuiteResult> = {};
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ryzer-hsm-'));
+
+  try {
+    results.normalization = await runSuite('Signature Normalization', [testSignatureNormalization]);
+
+    const softHSM = initializeSoftHSM(workDir);
+    if (softHSM) {
+      results.softhsm = await runProviderSuite('SoftHSMv2 (PKCS#11)', softHSM);
+    } else {
+      results.softhsm = skippedSuite('SoftHSMv2 (PKCS#11)', 'SoftHSMv2 is not installed');
+    }
+
+    results.file = await runProviderSuite('File Keystore', {
+      provider: HSMProviderType.FILE,
+      credentials: { pin: 'hsm-test-passphrase', keystorePath: path.join(workDir, 'keystore') },
+    });
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+
+  return results;
+};
+
+/**
+ * Initialize a SoftHSM token in a temporary directory
+ * @param workDir Temporary directory
+ * @returns Provider configuration, or undefined if SoftHSM is not installed
+ */
+const initializeSoftHSM = (workDir: string): HSMConfig | undefined => {
+  const libraryPath = process.env.SOFTHSM2_LIBRARY || SOFTHSM_LIBRARY_PATHS.find(candidate => fs.existsSync(candidate));
+  if (!libraryPath) {
+    logger.warn('SoftHSMv2 library not found, skipping PKCS#11 tests');
+    return undefined;
+  }
+
+  const tokenDir = path.join(workDir, 'tokens');
+  const configPath = path.join(workDir, 'softhsm2.conf');
+  fs.mkdirSync(tokenDir);
+  fs.writeFileSync(configPath, `directories.tokendir = ${tokenDir}\nobjectstore.backend = file\nlog.level = ERROR\n`);
+
+  // Read by the library when it is initialized
+  process.env.SOFTHSM2_CONF = configPath;
+
+  try {
+    execFileSync(
+      process.env.SOFTHSM2_UTIL || 'softhsm2-util',
+      ['--init-token', '--free', '--label', TOKEN_LABEL, '--pin', USER_PIN, '--so-pin', SO_PIN],
+      { env: process.env, stdio: 'pipe' }
+    );
+  } catch (error) {
+    logger.warn('Could not initialize a SoftHSM token, skipping PKCS#11 tests', { error: String(error) });
+    return undefined;
+  }
+
+  return {
+    provider: HSMProviderType.CUSTOM,
+    credentials: { pin: USER_PIN, libraryPath, tokenLabel: TOKEN_LABEL },
+  };
+};
+
+/**
+ * Run the provider tests against one configuration
+ * @param name Suite name
+ * @param config Provider configuration
+ */
+const runProviderSuite = async (name: string, config: HSMConfig): Promise<TestSuiteResult> => {
+  let provider: HSMProvider;
+  try {
+    provider = createHSMProvider(config);
+    await provider.validateConfig();
+  } catch (error) {
+    logger.error(`Could not set up ${name}:`, error);
+    return {
+      name,
+      tests: [{ name: 'Provider Setup', success: false, error: String(error), duration: 0 }],
+      passed: 0,
+      failed: 1,
+      skipped: 0,
+      duration: 0,
+      timestamp: Date.now(),
+    };
+  }
+
+  const context: ProviderTestContext = { provider, keyIds: [] };
+  try {
+    return await runSuite(name, [
+      () => testKeyGeneration(context),
+      () => testSigning(context),
+      () => testSigner(context),
+      () => testRotation(context),
+      () => testDeletion(context),
+    ]);
+  } finally {
+    for (const keyId of context.keyIds) {
+      await provider.deleteKey(keyId, TEST_TENANT).catch(() => undefined);
+    }
+    await provider.close?.();
+  }
+};
+
+// State shared by the tests of one provider
+interface ProviderTestContext {
+  provider: HSMProvider;
+  keyIds: string[]; // Keys still to be deleted, first one is the test key
+}
+
+/**
+ * Run tests in order and summarize them
+ * @param name Suite name
+ * @param tests Tests
+ */
+const runSuite = async (name: string, tests: (() => Promise<TestResult>)[]): Promise<TestSuiteResult> => {
+  const startTime = Date.now();
+  const results: TestResult[] = [];
+
+  for (const test of tests) {
+    results.push(await test());
+  }
+
+  const passed = results.filter(t => t.success).length;
+  const skipped = results.filter(t => t.skipped).length;
+  const failed = results.length - passed - skipped;
+  logger.info(`${name}: ${passed} passed, ${failed} failed, ${skipped} skipped`);
+
+  return {
+    name,
+    tests: results,
+    passed,
+    failed,
+    skipped,
+    duration: Date.now() - startTime,
+    timestamp: Date.now(),
+  };
+};
+
+/**
+ * Summary of a suite that could not run
+ * @param name Suite name
+ * @param reason Why it was skipped
+ */
+const skippedSuite = (name: string, reason: string): TestSuiteResult => ({
+  name,
+  tests: [{ name: 'All', success: false, skipped: true, error: reason, duration: 0 }],
+  passed: 0,
+  failed: 0,
+  skipped: 1,
+  duration: 0,
+  timestamp: Date.now(),
+});
+
+/**
+ * Run a test body and time it
+ * @param name Test name
+ * @param body Test body, returning details
+ */
+const runTest = async (name: string, body: () => Promise<Record<string, any> | void>): Promise<TestResult> => {
+  const startTime = Date.now();
+  try {
+    const details = await body();
+    return { name, success: true, duration: Date.now() - startTime, details: details || undefined };
+  } catch (error) {
+    logger.error(`Test ${name} failed:`, error);
+    return { name, success: false, error: String(error), duration: Date.now() - startTime };
+  }
+};
+
+/**
+ * Fail unless a condition holds
+ * @param condition Condition
+ * @param message Failure message
+ */
+const assert = (condition: unknown, message: string): void => {
+  if (!condition) {
+    throw new Error(message);
+  }
+};
+
+/**
+ * DER-encode an ECDSA signature
+ * @param r r value
+ * @param s s value
+ */
+const encodeDERSignature = (r: ethers.BigNumber, s: ethers.BigNumber): Buffer => {
+  const integer = (value: ethers.BigNumber): Buffer => {
+    let bytes = Buffer.from(ethers.utils.arrayify(value));
+    if (bytes[0] & 0x80) {
+      bytes = Buffer.concat([Buffer.from([0]), bytes]);
+    }
+    return Buffer.concat([Buffer.from([0x02, bytes.length]), bytes]);
+  };
+
+  const body = Buffer.concat([integer(r), integer(s)]);
+  return Buffer.concat([Buffer.from([0x30, body.length]), body]);
+};
+
+/**
+ * Test that raw and DER signatures with high s normalize to the canonical signature
+ */
+const testSignatureNormalization = (): Promise<TestResult> =>
+  runTest('DER to (r, s, v) Normalization', async () => {
+    const signingKey = new ethers.utils.SigningKey(crypto.randomBytes(32));
+    const address = ethers.utils.computeAddress(signingKey.publicKey);
+
+    for (let i = 0; i < SIGNATURE_ROUNDS; i++) {
+      const digest = ethers.utils.hexlify(crypto.randomBytes(32));
+      const expected = ethers.utils.joinSignature(signingKey.signDigest(digest));
+      const { r, s } = ethers.utils.splitSignature(expected);
+      const flipped = CURVE_ORDER.sub(s);
+
+      for (const sValue of [ethers.BigNumber.from(s), flipped]) {
+        const raw = Buffer.from(ethers.utils.concat([r, ethers.utils.hexZeroPad(sValue.toHexString(), 32)]));
+        assert(toEthereumSignature(digest, raw, address) === expected, 'Raw signature did not normalize');
+        assert(toEthereumSignature(digest, encodeDERSignature(ethers.BigNumber.from(r), sValue), address) === expected, 'DER signature did not normalize');
+      }
+    }
+
+    let rejected = false;
+    try {
+      toEthereumSignature(ethers.utils.hexlify(crypto.randomBytes(32)), encodeDERSignature(CURVE_ORDER, CURVE_ORDER), address);
+    } catch {
+      rejected = true;
+    }
+    assert(rejected, 'Out of range signature was accepted');
+
+    return { rounds: SIGNATURE_ROUNDS };
+  });
+
+/**
+ * Test secp256k1 key generation and metadata persistence
+ * @param context Provider test context
+ */
+const testKeyGeneration = (context: ProviderTestContext): Promise<TestResult> =>
+  runTest('secp256k1 Key Generation', async () => {
+    const keyInfo = await context.provider.generateKey(HSMKeyType.ECDSA_SECP256K1, 'hsm-test-key', 'HSM test key', TEST_TENANT);
+    context.keyIds.push(keyInfo.id);
+
+    assert(ethers.utils.hexDataLength(keyInfo.publicKey) === 65 && keyInfo.publicKey.startsWith('0x04'), 'Public key is not an uncompressed point');
+    assert(keyInfo.walletAddress === ethers.utils.computeAddress(keyInfo.publicKey), 'Address does not match the public key');
+    assert(keyInfo.status === 'active', 'New key is not active');
+
+    const stored = await context.provider.getKey(keyInfo.id, TEST_TENANT);
+    assert(stored.publicKey === keyInfo.publicKey && stored.createdAt === keyInfo.createdAt, 'Stored metadata differs');
+
+    const listed = await context.provider.listKeys(TEST_TENANT);
+    assert(listed.some(key => key.id === keyInfo.id), 'Key is not listed for its tenant');
+
+    let otherTenant = false;
+    try {
+      await context.provider.getKey(keyInfo.id, `${TEST_TENANT}-other`);
+      otherTenant = true;
+    } catch {
+      // Expected
+    }
+    assert(!otherTenant, 'Key is visible to another tenant');
+
+    return { keyId: keyInfo.id, walletAddress: keyInfo.walletAddress };
+  });
+
+/**
+ * Test digest and message signatures recover to the key address with low s
+ * @param context Provider test context
+ */
+const testSigning = (context: ProviderTestContext): Promise<TestResult> =>
+  runTest('Signing', async () => {
+    const keyInfo = await context.provider.getKey(context.keyIds[0], TEST_TENANT);
+    const halfOrder = CURVE_ORDER.shr(1);
+    const recoveryIds = new Set<number>();
+
+    for (let i = 0; i < SIGNATURE_ROUNDS; i++) {
+      const digest = ethers.utils.hexlify(crypto.randomBytes(32));
+      const signature = await context.provider.signDigest(keyInfo.id, digest, TEST_TENANT);
+      const { s, v } = ethers.utils.splitSignature(signature);
+
+      assert(ethers.utils.hexDataLength(signature) === 65, 'Signature is not 65 bytes');
+      assert(ethers.BigNumber.from(s).lte(halfOrder), 'Signature has high s');
+      assert(ethers.utils.recoverAddress(digest, signature) === keyInfo.walletAddress, 'Signature does not recover to the key');
+      recoveryIds.add(v);
+    }
+
+    const message = `ryzer hsm test ${Date.now()}`;
+    const messageSignature = await context.provider.sign(keyInfo.id, message, TEST_TENANT);
+    assert(
+      ethers.utils.recoverAddress(ethers.utils.keccak256(ethers.utils.toUtf8Bytes(message)), messageSignature) === keyInfo.walletAddress,
+      'Message signature does not recover to the key'
+    );
+
+    const used = await context.provider.getKey(keyInfo.id, TEST_TENANT);
+    assert(used.lastUsedAt, 'Last use was not recorded');
+
+    return { rounds: SIGNATURE_ROUNDS, recoveryIds: Array.from(recoveryIds) };
+  });
+
+/**
+ * Test the ethers Signer adapter: messages, transactions, typed data and user operations
+ * @param context Provider test context
+ */
+const testSigner = (context: ProviderTestContext): Promise<TestResult> =>
+  runTest('ethers Signer', async () => {
+    const signer = new HSMSigner(context.provider, context.keyIds[0], undefined, TEST_TENANT);
+    const address = await signer.getAddress();
+    assert(address === (await context.provider.getKey(context.keyIds[0], TEST_TENANT)).walletAddress, 'Wrong address');
+
+    const message = 'Sign in to Ryzer';
+    assert(ethers.utils.verifyMessage(message, await signer.signMessage(message)) === address, 'Message signature');
+
+    const to = ethers.Wallet.createRandom().address as Hex;
+    const eip1559 = await signer.signTransaction({
+      type: 2,
+      chainId: 137,
+      nonce: 3,
+      to,
+      value: ethers.utils.parseEther('1'),
+      gasLimit: 21000,
+      maxFeePerGas: ethers.utils.parseUnits('50', 'gwei'),
+      maxPriorityFeePerGas: ethers.utils.parseUnits('2', 'gwei'),
+    });
+    const parsed = ethers.utils.parseTransaction(eip1559);
+    assert(parsed.type === 2 && parsed.from === address && parsed.to === to, 'EIP-1559 transaction does not recover');
+
+    const legacy = await signer.signTransaction({ from: address, chainId: 1, to, gasLimit: 21000, gasPrice: 10 });
+    const parsedLegacy = ethers.utils.parseTransaction(legacy);
+    assert(parsedLegacy.type === null && parsedLegacy.from === address, 'Legacy transaction does not recover');
+
+    let foreignSender = false;
+    try {
+      await signer.signTransaction({ from: to, chainId: 1, to, gasLimit: 21000 });
+      foreignSender = true;
+    } catch {
+      // Expected
+    }
+    assert(!foreignSender, 'A transaction from another address was signed');
+
+    const domain = { name: 'Ryzer', version: '1', chainId: 137, verifyingContract: to };
+    const types = { Transfer: [{ name: 'to', type: 'address' }, { name: 'amount', type: 'uint256' }] };
+    const value = { to, amount: 1000 };
+    const typedSignature = await signer._signTypedData(domain, types, value);
+    assert(ethers.utils.verifyTypedData(domain, types, value, typedSignature) === address, 'Typed data signature');
+
+    // User operation hashes are checked against viem's implementation of the EntryPoint hash
+    const entryPoint: Hex = '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789';
+    const factory = ethers.Wallet.createRandom().address as Hex;
+    const userOp = {
+      sender: to,
+      nonce: 5,
+      initCode: ethers.utils.hexConcat([factory, '0xabcdef']) as Hex,
+      callData: '0x1234',
+      callGasLimit: 100000,
+      verificationGasLimit: 200000,
+      preVerificationGas: 50000,
+      maxFeePerGas: 3000000000,
+      maxPriorityFeePerGas: 1000000000,
+      paymasterAndData: '0x',
+    };
+    const userOpHash = getUserOperationHash(userOp, entryPoint, 137);
+    const expectedHash = viemUserOperationHash({
+      chainId: 137,
+      entryPointAddress: entryPoint,
+      entryPointVersion: '0.6',
+      userOperation: {
+        ...userOp,
+        callData: '0x1234',
+        paymasterAndData: '0x',
+        signature: '0x',
+        nonce: BigInt(userOp.nonce),
+        callGasLimit: BigInt(userOp.callGasLimit),
+        verificationGasLimit: BigInt(userOp.verificationGasLimit),
+        preVerificationGas: BigInt(userOp.preVerificationGas),
+        maxFeePerGas: BigInt(userOp.maxFeePerGas),
+        maxPriorityFeePerGas: BigInt(userOp.maxPriorityFeePerGas),
+      },
+    });
+    assert(userOpHash === expectedHash, 'v0.6 user operation hash differs from the EntryPoint hash');
+    const userOpSignature = await signer.signUserOperation(userOp, entryPoint, 137);
+    assert(
+      ethers.utils.verifyMessage(ethers.utils.arrayify(userOpHash), userOpSignature) === address,
+      'v0.6 user operation signature does not recover'
+    );
+
+    const packed = {
+      sender: to,
+      nonce: 5,
+      initCode: userOp.initCode,
+      callData: '0x1234',
+      accountGasLimits: ethers.utils.hexConcat([
+        ethers.utils.hexZeroPad(ethers.utils.hexlify(userOp.verificationGasLimit), 16),
+        ethers.utils.hexZeroPad(ethers.utils.hexlify(userOp.callGasLimit), 16),
+      ]),
+      preVerificationGas: 50000,
+      gasFees: ethers.utils.hexConcat([
+        ethers.utils.hexZeroPad(ethers.utils.hexlify(userOp.maxPriorityFeePerGas), 16),
+        ethers.utils.hexZeroPad(ethers.utils.hexlify(userOp.maxFeePerGas), 16),
+      ]),
+      paymasterAndData: '0x',
+    };
+    const entryPointV7: Hex = '0x0000000071727De22E5E9d8BAf0edAc6f37da032';
+    const packedHash = getPackedUserOperationHash(packed, entryPointV7, 137);
+    const expectedPackedHash = viemUserOperationHash({
+      chainId: 137,
+      entryPointAddress: entryPointV7,
+      entryPointVersion: '0.7',
+      userOperation: {
+        sender: to,
+        nonce: BigInt(5),
+        factory,
+        factoryData: '0xabcdef',
+        callData: '0x1234',
+        callGasLimit: BigInt(userOp.callGasLimit),
+        verificationGasLimit: BigInt(userOp.verificationGasLimit),
+        preVerificationGas: BigInt(userOp.preVerificationGas),
+        maxFeePerGas: BigInt(userOp.maxFeePerGas),
+        maxPriorityFeePerGas: BigInt(userOp.maxPriorityFeePerGas),
+        signature: '0x',
+      },
+    });
+    assert(packedHash === expectedPackedHash, 'v0.7 user operation hash differs from the EntryPoint hash');
+    const packedSignature = await signer.signPackedUserOperation(packed, entryPointV7, 137);
+    assert(
+      ethers.utils.verifyMessage(ethers.utils.arrayify(packedHash), packedSignature) === address,
+      'v0.7 user operation signature does not recover'
+    );
+
+    const account = await signer.toViemAccount();
+    assert(account.address === address, 'viem account has another address');
+    assert(ethers.utils.verifyMessage(message, await account.signMessage({ message })) === address, 'viem message');
+
+    return { address, userOpHash, packedHash };
+  });
+
+/**
+ * Test rotation links the keys and retains the old one
+ * @param context Provider test context
+ */
+const testRotation = (context: ProviderTestContext): Promise<TestResult> =>
+  runTest('Key Rotation', async () => {
+    const oldKeyId = context.keyIds[0];
+    const newKey = await context.provider.rotateKey(oldKeyId, TEST_TENANT);
+    context.keyIds.push(newKey.id);
+
+    const oldKey = await context.provider.getKey(oldKeyId, TEST_TENANT);
+    assert(oldKey.status === 'rotated' && oldKey.rotatedTo === newKey.id, 'Old key is not marked rotated');
+    assert(newKey.status === 'active' && newKey.rotatedFrom === oldKeyId, 'New key is not linked to the old key');
+    assert(newKey.walletAddress !== oldKey.walletAddress, 'Rotation did not create a new key');
+
+    // The old key is retained and still signs
+    const digest = ethers.utils.hexlify(crypto.randomBytes(32));
+    const signature = await context.provider.signDigest(oldKeyId, digest, TEST_TENANT);
+    assert(ethers.utils.recoverAddress(digest, signature) === oldKey.walletAddress, 'Retained key does not sign');
+
+    let rotatedTwice = false;
+    try {
+      await context.provider.rotateKey(oldKeyId, TEST_TENANT);
+      rotatedTwice = true;
+    } catch {
+      // Expected
+    }
+    assert(!rotatedTwice, 'A rotated key was rotated again');
+
+    return { oldKeyId, newKeyId: newKey.id };
+  });
+
+/**
+ * Test deletion removes key material and metadata
+ * @param context Provider test context
+ */
+const testDeletion = (context: ProviderTestContext): Promise<TestResult> =>
+  runTest('Key Deletion', async () => {
+    const deleted: string[] = [];
+
+    while (context.keyIds.length) {
+      const keyId = context.keyIds.pop()!;
+      assert(await context.provider.deleteKey(keyId, TEST_TENANT), `Key ${keyId} was not deleted`);
+      deleted.push(keyId);
+
+      let found = false;
+      try {
+        await context.provider.getKey(keyId, TEST_TENANT);
+        found = true;
+      } catch {
+        // Expected
+      }
+      assert(!found, `Key ${keyId} is still present`);
+    }
+
+    return { deleted };
+  });
+
+if (require.main === module) {
+  runHSMTests()
+    .then(results => {
+      const suites = Object.values(results);
+      for (const suite of suites) {
+        for (const test of suite.tests) {
+          const status = test.skipped ? 'SKIP' : test.success ? 'PASS' : 'FAIL';
+          console.log(`[${status}] ${suite.name} - ${test.name}${test.error ? `: ${test.error}` : ''}`);
+        }
+      }
+      process.exit(suites.some(suite => suite.failed > 0) ? 1 : 0);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
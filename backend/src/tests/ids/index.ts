@@ -0,0 +1,528 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../utils/logger';
+import { getDatabase } from '../../config/database';
+import {
+  evaluateRules,
+  intrusionDetection,
+  IntrusionDetectionError,
+  parseRuleSet,
+  RuleAction,
+  RuleEvent,
+  SecurityEventType,
+} from '../../services/security/intrusionDetection';
+import { IncidentError, IncidentSeverity, IncidentStatus, securityIncidents } from '../../services/security/incidents';
+
+/**
+ * Intrusion detection tests. Rules are evaluated against synthetic event
+ * histories; the recording, lockout, incident and dry-run tests use a throwaway tenant
+ * in the database configured for the backend and remove its records.
+ *
+ * Run with `npm run test:ids`.
+ */
+
+// Test result
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number; // milliseconds
+  details?: Record<string, any>;
+}
+
+// Test suite result
+interface TestSuiteResult {
+  name: string;
+  tests: TestResult[];
+  passed: number;
+  failed: number;
+  duration: number; // milliseconds
+  timestamp: number;
+}
+
+const MINUTE = 60 * 1000;
+const NOW = Date.UTC(2026, 0, 15, 12);
+
+const DESTINATION = '0x00000000000000000000000000000000000000aa';
+
+/**
+ * Run every intrusion detection test suite
+ * @returns Results by suite
+ */
+export const runIntrusionDetectionTests = async (): Promise<Record<string, TestSuiteResult>> => ({
+  ruleSets: await runSuite('Rule Sets', [testExampleRuleSet, testInvalidRuleSets]),
+  rules: await runSuite('Rules', [
+    testVelocity,
+    testNewDevice,
+    testNewGeo,
+    testAmountDeviation,
+    testDestinationReputation,
+    testImpossibleTravel,
+    testThresholds,
+  ]),
+  service: await runSuite('Detection Service', [testLockout, testIncidents, testDryRun]),
+});
+
+/**
+ * Build a synthetic event
+ * @param minutesAgo Minutes before NOW
+ * @param fields Event fields
+ */
+const event = (minutesAgo: number, fields: Partial<RuleEvent> = {}): RuleEvent => ({
+  id: uuidv4(),
+  userId: 'user',
+  eventType: SecurityEventType.TRANSACTION_ATTEMPT,
+  timestamp: NOW - minutesAgo * MINUTE,
+  ...fields,
+});
+
+/**
+ * Evaluate an event against a single rule
+ * @param rule Rule definition as written in a rule set
+ * @param current Event being decided
+ * @param history Earlier events, oldest first
+ */
+const evaluateRule = (rule: Record<string, any>, current: RuleEvent, history: RuleEvent[]) =>
+  evaluateRules(
+    parseRuleSet(JSON.stringify({ rules: [{ id: 'rule', weight: 0.5, action: 'step_up_mfa', ...rule }] }), 'json'),
+    current,
+    history,
+    { tenantId: 'test' }
+  );
+
+/**
+ * Expect a rule to match an event or not
+ * @param rule Rule definition
+ * @param current Event being decided
+ * @param history Earlier events
+ * @param matches Whether the rule must match
+ * @returns The reason the rule matched
+ */
+const expectMatch = async (
+  rule: Record<string, any>,
+  current: RuleEvent,
+  history: RuleEvent[],
+  matches: boolean
+): Promise<string | undefined> => {
+  const decision = await evaluateRule(rule, current, history);
+  assert(
+    decision.detections.length === (matches ? 1 : 0),
+    `${rule.type} rule ${matches ? 'did not match' : 'matched'}: ${JSON.stringify(decision.detections)}`
+  );
+  return decision.detections[0]?.reason;
+};
+
+/**
+ * Test the example rule set parses
+ */
+const testExampleRuleSet = (): Promise<TestResult> =>
+  runTest('Example Rule Set', async () => {
+    const source = fs.readFileSync(path.join(__dirname, '..', '..', '..', 'ids-rules.example.yaml'), 'utf8');
+    const ruleSet = parseRuleSet(source, 'yaml');
+
+    assert(ruleSet.rules.length === 8, `Expected 8 rules, got ${ruleSet.rules.length}`);
+    assert(ruleSet.lockDuration === 30 * MINUTE, 'lockDuration was not parsed');
+    return { rules: ruleSet.rules.map(rule => rule.id) };
+  });
+
+/**
+ * Test malformed rule sets are rejected with a message naming the problem
+ */
+const testInvalidRuleSets = (): Promise<TestResult> =>
+  runTest('Invalid Rule Sets', async () => {
+    const cases: [string, string][] = [
+      ['rules: [', 'not valid YAML'],
+      ['rules: [{ id: a, type: teleport, weight: 0.1, action: allow }]', 'type must be one of'],
+      ['rules: [{ id: a, type: velocity, window: 1m, limit: 1, weight: 2, action: allow }]', 'weight must be'],
+      ['rules: [{ id: a, type: velocity, window: soon, limit: 1, weight: 0.1, action: allow }]', 'must be a duration'],
+      ['rules: [{ id: a, type: velocity, window: 1m, weight: 0.1, action: allow }]', 'need a limit or maxAmount'],
+      ['rules: [{ id: a, type: new-geo, weight: 0.1, action: quarantine }]', 'action must be one of'],
+      ['rules: [{ id: a, type: new-geo, events: [teleport], weight: 0.1, action: allow }]', 'must list event types'],
+      ['rules: [{ id: a, type: destination-reputation, weight: 0.1, action: allow }]', 'need a denylist'],
+      ['rules: [{ id: a, type: new-geo, weight: 0.1, action: allow }, { id: a, type: new-device, weight: 0.1, action: allow }]', 'Duplicate rule ID'],
+      ['thresholds: { allow: 0.1 }\nrules: []', 'unknown action'],
+    ];
+
+    for (const [source, message] of cases) {
+      try {
+        parseRuleSet(source, 'yaml');
+      } catch (error) {
+        assert(error instanceof IntrusionDetectionError, `Unexpected error: ${error}`);
+        assert((error as Error).message.includes(message), `Expected "${message}", got "${(error as Error).message}"`);
+        continue;
+      }
+      throw new Error(`Rule set was accepted: ${source}`);
+    }
+    return { cases: cases.length };
+  });
+
+/**
+ * Test velocity rules count events and sum amounts within their window only
+ */
+const testVelocity = (): Promise<TestResult> =>
+  runTest('Velocity', async () => {
+    const failed = (minutesAgo: number) => event(minutesAgo, { eventType: SecurityEventType.FAILED_AUTH });
+    const rule = { type: 'velocity', events: ['failed_auth'], window: '30m', limit: 3 };
+
+    await expectMatch(rule, failed(0), [failed(20), failed(10)], false);
+    const reason = await expectMatch(rule, failed(0), [failed(25), failed(20), failed(10)], true);
+    await expectMatch(rule, failed(0), [failed(45), failed(20), failed(10)], false);
+
+    const outflow = { type: 'velocity', window: '24h', maxAmount: 10 };
+    await expectMatch(outflow, event(0, { amount: 4 }), [event(60, { amount: 5 })], false);
+    await expectMatch(outflow, event(0, { amount: 4 }), [event(60, { amount: 5 }), event(30, { amount: 2 })], true);
+    return { reason };
+  });
+
+/**
+ * Test new-device rules flag unseen devices once the user has a device history
+ */
+const testNewDevice = (): Promise<TestResult> =>
+  runTest('New Device', async () => {
+    const rule = { type: 'new-device', lookback: '30d' };
+    const history = [event(600, { deviceId: 'laptop' })];
+
+    await expectMatch(rule, event(0, { deviceId: 'laptop' }), history, false);
+    await expectMatch(rule, event(0, { deviceId: 'phone' }), [], false);
+    const reason = await expectMatch(rule, event(0, { deviceId: 'phone' }), history, true);
+    return { reason };
+  });
+
+/**
+ * Test new-geo rules compare countries, or distances with a radius
+ */
+const testNewGeo = (): Promise<TestResult> =>
+  runTest('New Geo', async () => {
+    const berlin = { country: 'DE', latitude: 52.52, longitude: 13.405 };
+    const potsdam = { country: 'DE', latitude: 52.39, longitude: 13.065 };
+    const paris = { country: 'FR', latitude: 48.857, longitude: 2.352 };
+    const history = [event(600, { location: berlin })];
+
+    await expectMatch({ type: 'new-geo' }, event(0, { location: potsdam }), history, false);
+    const reason = await expectMatch({ type: 'new-geo' }, event(0, { location: paris }), history, true);
+    await expectMatch({ type: 'new-geo', radiusKm: 50 }, event(0, { location: potsdam }), history, false);
+    await expectMatch({ type: 'new-geo', radiusKm: 10 }, event(0, { location: potsdam }), history, true);
+    return { reason };
+  });
+
+/**
+ * Test amount-deviation rules against the mean and standard deviation of earlier amounts
+ */
+const testAmountDeviation = (): Promise<TestResult> =>
+  runTest('Amount Deviation', async () => {
+    const history = [1, 2, 1, 2].map((amount, i) => event(600 - i, { amount }));
+
+    await expectMatch({ type: 'amount-deviation', factor: 3 }, event(0, { amount: 4 }), history, false);
+    const reason = await expectMatch({ type: 'amount-deviation', factor: 3 }, event(0, { amount: 5 }), history, true);
+    await expectMatch({ type: 'amount-deviation', factor: 3 }, event(0, { amount: 50 }), history.slice(0, 2), false);
+    await expectMatch({ type: 'amount-deviation', stdDevs: 3 }, event(0, { amount: 2.9 }), history, false);
+    await expectMatch({ type: 'amount-deviation', stdDevs: 3 }, event(0, { amount: 3.1 }), history, true);
+    return { reason };
+  });
+
+/**
+ * Test destination-reputation rules with deny lists, allow lists, a provider and first-time recipients
+ */
+const testDestinationReputation = (): Promise<TestResult> =>
+  runTest('Destination Reputation', async () => {
+    const payment = event(0, { destination: DESTINATION });
+
+    const reason = await expectMatch(
+      { type: 'destination-reputation', denylist: [DESTINATION.toUpperCase().replace('0X', '0x')] },
+      payment,
+      [],
+      true
+    );
+    await expectMatch(
+      { type: 'destination-reputation', denylist: [DESTINATION], allowlist: [DESTINATION] },
+      payment,
+      [],
+      false
+    );
+    await expectMatch({ type: 'destination-reputation', firstTime: true }, payment, [], true);
+    await expectMatch({ type: 'destination-reputation', firstTime: true }, payment, [event(60, { destination: DESTINATION })], false);
+
+    const ruleSet = parseRuleSet(
+      JSON.stringify({
+        rules: [{ id: 'risky', type: 'destination-reputation', minRisk: 0.8, weight: 1, action: 'block' }],
+      }),
+      'json'
+    );
+    const reputation = { getRisk: async (address: string) => (address === DESTINATION ? { risk: 0.9, reason: 'drainer' } : undefined) };
+    const decision = await evaluateRules(ruleSet, payment, [], { tenantId: 'test', reputation });
+    assert(decision.action === RuleAction.BLOCK, 'Risky destination was not blocked');
+    return { reason };
+  });
+
+/**
+ * Test impossible-travel rules against the speed between consecutive locations
+ */
+const testImpossibleTravel = (): Promise<TestResult> =>
+  runTest('Impossible Travel', async () => {
+    const rule = { type: 'impossible-travel', maxSpeedKmh: 1000 };
+    const london = { latitude: 51.507, longitude: -0.128 };
+    const newYork = { latitude: 40.713, longitude: -74.006 };
+    const reading = { latitude: 51.454, longitude: -0.973 };
+
+    const reason = await expectMatch(rule, event(0, { location: newYork }), [event(60, { location: london })], true);
+    await expectMatch(rule, event(0, { location: newYork }), [event(8 * 60, { location: london })], false);
+    await expectMatch(rule, event(0, { location: reading }), [event(1, { location: london })], false);
+    return { reason };
+  });
+
+/**
+ * Test weights add up and thresholds escalate the action of matched rules
+ */
+const testThresholds = (): Promise<TestResult> =>
+  runTest('Weights and Thresholds', async () => {
+    const ruleSet = parseRuleSet(
+      JSON.stringify({
+        thresholds: { step_up_mfa: 0.3, lock: 0.9 },
+        rules: [
+          { id: 'device', type: 'new-device', weight: 0.4, action: 'allow' },
+          { id: 'recipient', type: 'destination-reputation', firstTime: true, weight: 0.6, action: 'allow' },
+        ],
+      }),
+      'json'
+    );
+    const history = [event(600, { deviceId: 'laptop', destination: DESTINATION })];
+
+    const stepUp = await evaluateRules(ruleSet, event(0, { deviceId: 'phone', destination: DESTINATION }), history, { tenantId: 'test' });
+    assert(stepUp.riskScore === 0.4 && stepUp.action === RuleAction.STEP_UP_MFA, `Unexpected decision ${JSON.stringify(stepUp)}`);
+
+    const lock = await evaluateRules(ruleSet, event(0, { deviceId: 'phone', destination: '0x' + 'b'.repeat(40) }), history, { tenantId: 'test' });
+    assert(lock.riskScore === 1 && lock.action === RuleAction.LOCK, `Unexpected decision ${JSON.stringify(lock)}`);
+    return { stepUp: stepUp.riskScore, lock: lock.riskScore };
+  });
+
+/**
+ * Test a lock rule locks the account until it is unlocked
+ */
+const testLockout = (): Promise<TestResult> =>
+  withTenant('Lockout', async tenantId => {
+    await intrusionDetection.updateRuleSet(
+      tenantId,
+      'rules: [{ id: burst, type: velocity, events: [failed_auth], window: 10m, limit: 2, weight: 1, action: lock }]',
+      'yaml',
+      'ids-test'
+    );
+    const record = (eventType: SecurityEventType) => intrusionDetection.recordEvent({ tenantId, userId: 'alice', eventType });
+
+    for (let i = 0; i < 2; i++) {
+      const result = await record(SecurityEventType.FAILED_AUTH);
+      assert(result.allowed, `Failed attempt ${i + 1} was not allowed: ${result.reason}`);
+    }
+    const locked = await record(SecurityEventType.FAILED_AUTH);
+    assert(locked.action === RuleAction.LOCK && !locked.allowed, 'Third failed attempt did not lock the account');
+
+    const whileLocked = await record(SecurityEventType.SUCCESSFUL_AUTH);
+    assert(!whileLocked.allowed, 'Locked account was allowed');
+    assert(await intrusionDetection.getLockout('alice', tenantId), 'Lockout was not stored');
+
+    try {
+      await intrusionDetection.unlockUserAccount('alice', 'ids-test', ' ', tenantId);
+      throw new Error('Account was unlocked without a justification');
+    } catch (error) {
+      assert(error instanceof IntrusionDetectionError, `Unexpected error: ${error}`);
+    }
+    assert(
+      await intrusionDetection.unlockUserAccount('alice', 'ids-test', 'Verified with the user', tenantId),
+      'Account was not unlocked'
+    );
+    assert(!(await intrusionDetection.getLockout('alice', tenantId)), 'Lockout was not removed');
+
+    const events = await intrusionDetection.getUserEvents('alice', tenantId);
+    assert(events.length === 4, `Expected 4 recorded events, got ${events.length}`);
+    return { reason: locked.reason };
+  });
+
+/**
+ * Test a lockout opens an incident that groups later attempts and records the unlock
+ */
+const testIncidents = (): Promise<TestResult> =>
+  withTenant('Incidents', async tenantId => {
+    await intrusionDetection.updateRuleSet(
+      tenantId,
+      'rules: [{ id: burst, type: velocity, events: [failed_auth], window: 10m, limit: 1, weight: 1, action: lock }]',
+      'yaml',
+      'ids-test'
+    );
+    const record = (eventType: SecurityEventType) => intrusionDetection.recordEvent({ tenantId, userId: 'alice', eventType });
+
+    await record(SecurityEventType.FAILED_AUTH);
+    const locked = await record(SecurityEventType.FAILED_AUTH);
+    const attempt = await record(SecurityEventType.SUCCESSFUL_AUTH);
+
+    const [incident, ...others] = await securityIncidents.listIncidents(tenantId);
+    assert(incident && others.length === 0, 'Expected one incident');
+    assert(incident.severity === IncidentSeverity.HIGH, `Expected high severity, got ${incident.severity}`);
+    assert(
+      incident.eventIds.length === 2 && incident.eventIds[0] === locked.eventId && incident.eventIds[1] === attempt.eventId,
+      'Incident does not group the lockout and the attempt while locked'
+    );
+    assert(incident.ruleIds.join() === 'burst', `Unexpected rules: ${incident.ruleIds}`);
+
+    await securityIncidents.transitionIncident(incident.id, tenantId, IncidentStatus.INVESTIGATING, 'analyst');
+    try {
+      await securityIncidents.transitionIncident(incident.id, tenantId, IncidentStatus.INVESTIGATING, 'analyst');
+      throw new Error('Incident moved from investigating to investigating');
+    } catch (error) {
+      assert(error instanceof IncidentError && error.statusCode === 409, `Unexpected error: ${error}`);
+    }
+    await securityIncidents.updateIncident(incident.id, tenantId, { assignee: 'analyst' }, 'analyst');
+    await intrusionDetection.unlockUserAccount('alice', 'analyst', 'Password reset confirmed', tenantId);
+    await securityIncidents.transitionIncident(incident.id, tenantId, IncidentStatus.FALSE_POSITIVE, 'analyst', 'Typo');
+
+    const reviewed = await securityIncidents.getIncident(incident.id, tenantId);
+    assert(reviewed.assignee === 'analyst', 'Incident was not assigned');
+    assert(reviewed.status === IncidentStatus.FALSE_POSITIVE && reviewed.closedAt, 'Incident was not closed');
+    assert(reviewed.notes.some(note => note.body === 'Account unlocked: Password reset confirmed'), 'Unlock was not noted');
+
+    const { events, auditLogs } = await securityIncidents.getLinkedRecords(reviewed);
+    const actions = auditLogs.map(log => log.action);
+    assert(events.length === 2, `Expected 2 linked events, got ${events.length}`);
+    for (const action of ['account_locked', 'incident_opened', 'incident_status_changed', 'account_unlocked']) {
+      assert(actions.includes(action), `Audit log ${action} is not linked`);
+    }
+    return { transitions: reviewed.transitions.map(transition => transition.to), auditLogs: actions };
+  });
+
+/**
+ * Test a dry run reports changed decisions without storing anything or locking accounts
+ */
+const testDryRun = (): Promise<TestResult> =>
+  withTenant('Dry Run', async tenantId => {
+    // Events are replayed in timestamp order, so give each its own millisecond
+    const record = async (userId: string, eventType: SecurityEventType) => {
+      await intrusionDetection.recordEvent({ tenantId, userId, eventType });
+      await new Promise(resolve => setTimeout(resolve, 2));
+    };
+    for (const userId of ['alice', 'bob']) {
+      for (let i = 0; i < 3; i++) {
+        await record(userId, SecurityEventType.FAILED_AUTH);
+      }
+    }
+    await record('alice', SecurityEventType.SUCCESSFUL_AUTH);
+
+    const db = await getDatabase();
+    const before = await db.getAllFromIndex('security_events', 'by-tenant', { lower: [tenantId, 0], upper: [tenantId, Number.MAX_SAFE_INTEGER] });
+
+    const report = await intrusionDetection.dryRun(
+      tenantId,
+      JSON.stringify({ rules: [{ id: 'burst', type: 'velocity', events: ['failed_auth'], window: '10m', limit: 1, weight: 1, action: 'lock' }] }),
+      'json'
+    );
+
+    assert(report.evaluated === 7, `Expected 7 evaluated events, got ${report.evaluated}`);
+    // The second failure locks each user; alice's later events are decided as locked
+    assert(report.actions.lock === 5, `Expected 5 locked decisions, got ${report.actions.lock}`);
+    assert(report.ruleMatches.burst === 2, `Expected 2 rule matches, got ${report.ruleMatches.burst}`);
+    assert(report.changed === report.changes.length && report.changed === 5, `Expected 5 changes, got ${report.changed}`);
+
+    const single = await intrusionDetection.dryRun(tenantId, 'rules: []', 'yaml', { userId: 'bob' });
+    assert(single.evaluated === 3, `Expected 3 events of bob, got ${single.evaluated}`);
+
+    const after = await db.getAllFromIndex('security_events', 'by-tenant', { lower: [tenantId, 0], upper: [tenantId, Number.MAX_SAFE_INTEGER] });
+    assert(after.length === before.length, 'Dry run stored events');
+    assert(!(await intrusionDetection.getLockout('alice', tenantId)), 'Dry run locked an account');
+    return { actions: report.actions, recordedActions: report.recordedActions };
+  });
+
+/**
+ * Run a test in a throwaway tenant and remove its records afterwards
+ * @param name Test name
+ * @param body Test body, given the tenant
+ */
+const withTenant = (name: string, body: (tenantId: string) => Promise<Record<string, any> | void>): Promise<TestResult> =>
+  runTest(name, async () => {
+    const tenantId = `ids-test-${uuidv4()}`;
+    try {
+      return await body(tenantId);
+    } finally {
+      const db = await getDatabase();
+      const events = await db.getAllFromIndex('security_events', 'by-tenant', {
+        lower: [tenantId, 0],
+        upper: [tenantId, Number.MAX_SAFE_INTEGER],
+      });
+      for (const recorded of events) {
+        await db.delete('security_events', recorded.id);
+        await db.delete('security_lockouts', `${tenantId}:${recorded.userId}`);
+      }
+      for (const incident of await securityIncidents.listIncidents(tenantId, { limit: Number.MAX_SAFE_INTEGER })) {
+        await db.delete('security_incidents', incident.id);
+      }
+      await db.delete('security_rule_sets', tenantId);
+    }
+  });
+
+/**
+ * Run tests in order and summarize them
+ * @param name Suite name
+ * @param tests Tests
+ */
+const runSuite = async (name: string, tests: (() => Promise<TestResult>)[]): Promise<TestSuiteResult> => {
+  const startTime = Date.now();
+  const results: TestResult[] = [];
+
+  for (const test of tests) {
+    results.push(await test());
+  }
+
+  const passed = results.filter(t => t.success).length;
+  const failed = results.length - passed;
+  logger.info(`${name}: ${passed} passed, ${failed} failed`);
+
+  return {
+    name,
+    tests: results,
+    passed,
+    failed,
+    duration: Date.now() - startTime,
+    timestamp: Date.now(),
+  };
+};
+
+/**
+ * Run a test body and time it
+ * @param name Test name
+ * @param body Test body, returning details
+ */
+const runTest = async (name: string, body: () => Promise<Record<string, any> | void>): Promise<TestResult> => {
+  const startTime = Date.now();
+  try {
+    const details = await body();
+    return { name, success: true, duration: Date.now() - startTime, details: details || undefined };
+  } catch (error) {
+    logger.error(`Test ${name} failed:`, error);
+    return { name, success: false, error: String(error), duration: Date.now() - startTime };
+  }
+};
+
+/**
+ * Fail unless a condition holds
+ * @param condition Condition
+ * @param message Failure message
+ */
+const assert = (condition: unknown, message: string): void => {
+  if (!condition) {
+    throw new Error(message);
+  }
+};
+
+if (require.main === module) {
+  runIntrusionDetectionTests()
+    .then(results => {
+      const suites = Object.values(results);
+      for (const suite of suites) {
+        for (const test of suite.tests) {
+          console.log(`[${test.success ? 'PASS' : 'FAIL'}] ${suite.name} - ${test.name}${test.error ? `: ${test.error}` : ''}`);
+        }
+      }
+      process.exit(suites.some(suite => suite.failed > 0) ? 1 : 0);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,387 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { logger } from '../../utils/logger';
+import { getDatabase } from '../../config/database';
+import { militaryGradeEncryption } from '../../services/security/militaryGradeEncryption';
+import { MFAError, mfaService } from '../../services/security/mfaService';
+
+/**
+ * TOTP and MFA session tests. The TOTP tests check codes against the SHA-1
+ * test vectors of RFC 6238 (appendix B) by setting Date.now to each vector's
+ * time; codes are six digits, the last six of the RFC's eight. MFA state of
+ * new users is kept in the database configured for the backend and deleted
+ * after the run.
+ *
+ * Run with `npm run test:mfa`.
+ */
+
+// Test result
+interface TestResult {
+  name: string;
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+  duration: number; // milliseconds
+  details?: Record<string, any>;
+}
+
+// Test suite result
+interface TestSuiteResult {
+  name: string;
+  tests: TestResult[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number; // milliseconds
+  timestamp: number;
+}
+
+// RFC 6238 SHA-1 seed, "12345678901234567890" in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+// RFC 6238 appendix B: Unix time in seconds and the SHA-1 code
+const RFC_VECTORS: [number, string][] = [
+  [59, '94287082'],
+  [1111111109, '07081804'],
+  [1111111111, '14050471'],
+  [1234567890, '89005924'],
+  [2000000000, '69279037'],
+  [20000000000, '65353130'],
+];
+
+const TOTP_PERIOD_MS = 30 * 1000;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Run every MFA test suite
+ * @returns Results by suite
+ */
+export const runMFATests = async (): Promise<Record<string, TestSuiteResult>> => {
+  const userIds: string[] = [];
+
+  try {
+    return {
+      totp: await runSuite('TOTP', [
+        () => testRfcVectors(userIds),
+        () => testWindowAndReplay(userIds),
+        () => testEnrollment(userIds),
+      ]),
+      sessions: await runSuite('MFA Sessions', [
+        () => testRecoveryCodes(userIds),
+        () => testAttemptLimit(userIds),
+        () => testSessionConsumption(userIds),
+      ]),
+    };
+  } finally {
+    await removeUsers(userIds);
+  }
+};
+
+const testRfcVectors = (userIds: string[]): Promise<TestResult> =>
+  runTest('RFC 6238 Vectors', async () => {
+    // Regenerating recovery codes checks a code without touching MFA sessions of other users
+    const userId = await enrolledUser(userIds, RFC_SECRET);
+
+    for (const [seconds, rfcCode] of RFC_VECTORS) {
+      const code = rfcCode.slice(-6);
+      await withClock(seconds * 1000, async () => {
+        const wrong = String((Number(code) + 1) % 1000000).padStart(6, '0');
+        const refused = await rejection(mfaService.regenerateRecoveryCodes(userId, wrong));
+        assert(refused === 'Invalid TOTP code', `Wrong code at T=${seconds} should be refused, got: ${refused}`);
+
+        const recoveryCodes = await mfaService.regenerateRecoveryCodes(userId, code);
+        assert(recoveryCodes.length === 10, `Code ${code} at T=${seconds} should be accepted`);
+      });
+
+      const config = await (await getDatabase()).get('mfa_configs', userId);
+      const step = Math.floor(seconds / 30);
+      assert(config?.totpLastUsedStep === step, `Expected step ${step}, got ${config?.totpLastUsedStep}`);
+    }
+    return { vectors: RFC_VECTORS.length };
+  });
+
+const testWindowAndReplay = (userIds: string[]): Promise<TestResult> =>
+  runTest('Window and Replay', async () => {
+    const userId = await enrolledUser(userIds, RFC_SECRET);
+    const now = 1111111111 * 1000;
+
+    await withClock(now, async () => {
+      // Two steps ahead is outside the window of one step
+      const aheadCode = totpCode(RFC_SECRET, now + 2 * TOTP_PERIOD_MS);
+      const ahead = await rejection(mfaService.regenerateRecoveryCodes(userId, aheadCode));
+      assert(ahead === 'Invalid TOTP code', `Code two steps ahead should be refused, got: ${ahead}`);
+
+      await mfaService.regenerateRecoveryCodes(userId, totpCode(RFC_SECRET, now - TOTP_PERIOD_MS));
+      await mfaService.regenerateRecoveryCodes(userId, totpCode(RFC_SECRET, now));
+
+      // Neither the same code nor an earlier step is accepted again
+      for (const time of [now, now - TOTP_PERIOD_MS]) {
+        const replay = await rejection(mfaService.regenerateRecoveryCodes(userId, totpCode(RFC_SECRET, time)));
+        assert(replay === 'Invalid TOTP code', `Used step should be refused, got: ${replay}`);
+      }
+    });
+  });
+
+const testEnrollment = (userIds: string[]): Promise<TestResult> =>
+  runTest('Enrollment', async () => {
+    const userId = newUser(userIds);
+    const enrollment = await mfaService.enableTOTP(userId);
+    assert(enrollment.otpauthUrl.startsWith('otpauth://totp/'), 'Enrollment should return an otpauth URI');
+    assert(enrollment.otpauthUrl.includes(`secret=${enrollment.secret}`), 'URI should carry the secret');
+    assert(!(await mfaService.getStatus(userId)).totpEnabled, 'TOTP should wait for confirmation');
+
+    const wrong = await rejection(mfaService.confirmTOTP(userId, '000000'));
+    assert(wrong === 'Invalid TOTP code', `Wrong confirmation should be refused, got: ${wrong}`);
+
+    const recoveryCodes = await mfaService.confirmTOTP(userId, totpCode(enrollment.secret, Date.now()));
+    const status = await mfaService.getStatus(userId);
+    assert(status.totpEnabled && status.recoveryCodesRemaining === recoveryCodes.length, 'TOTP should be enabled');
+
+    const config = await (await getDatabase()).get('mfa_configs', userId);
+    assert(!JSON.stringify(config).includes(enrollment.secret), 'The secret should be stored encrypted');
+    assert(!JSON.stringify(config).includes(recoveryCodes[0]), 'Recovery codes should be stored hashed');
+
+    const again = await rejection(mfaService.enableTOTP(userId));
+    assert(again === 'TOTP is already enabled', `Second enrollment should be refused, got: ${again}`);
+  });
+
+const testRecoveryCodes = (userIds: string[]): Promise<TestResult> =>
+  runTest('Recovery Codes', async () => {
+    const userId = await enrolledUser(userIds, RFC_SECRET);
+    const [recoveryCode] = await withClock(59 * 1000, () => mfaService.regenerateRecoveryCodes(userId, '287082'));
+
+    // Codes are accepted in any case and without the separator, once
+    const first = await mfaService.startMFASession(userId, 'transaction', {});
+    const typed = recoveryCode.toLowerCase().replace('-', '');
+    assert(await mfaService.verifyRecoveryCode(first, typed), 'Code should be accepted');
+    await mfaService.completeSession(first);
+
+    const second = await mfaService.startMFASession(userId, 'transaction', {});
+    assert(!(await mfaService.verifyRecoveryCode(second, recoveryCode)), 'Used code should be refused');
+    assert((await mfaService.getStatus(userId)).recoveryCodesRemaining === 9, 'One code should be used up');
+    await removeSession(second);
+  });
+
+const testAttemptLimit = (userIds: string[]): Promise<TestResult> =>
+  runTest('Attempt Limit', async () => {
+    const userId = await enrolledUser(userIds, RFC_SECRET);
+    const sessionToken = await mfaService.startMFASession(userId, 'transaction', {});
+
+    // Concurrent guesses all count
+    const results = await Promise.allSettled(
+      ['000001', '000002', '000003'].map(code => mfaService.verifyTOTP(sessionToken, code))
+    );
+    const locked = results.filter(
+      result => result.status === 'rejected' && (result.reason as MFAError).statusCode === 429
+    );
+    assert(locked.length === 1, `The third failure should end the session, ${locked.length} did`);
+
+    const gone = await rejection(mfaService.verifyTOTP(sessionToken, totpCode(RFC_SECRET, Date.now())));
+    assert(gone === 'MFA session not found', `Ended session should be gone, got: ${gone}`);
+  });
+
+const testSessionConsumption = (userIds: string[]): Promise<TestResult> =>
+  runTest('Session Consumption', async () => {
+    const userId = await enrolledUser(userIds, RFC_SECRET);
+    const sessionToken = await mfaService.startMFASession(userId, 'transaction', {});
+
+    const early = await rejection(mfaService.completeSession(sessionToken));
+    assert(early === 'MFA session is not complete', `Incomplete session should be refused, got: ${early}`);
+
+    const code = totpCode(RFC_SECRET, Date.now());
+    assert(await mfaService.verifyTOTP(sessionToken, code), 'Current code should be accepted');
+    assert(await mfaService.isSessionComplete(sessionToken), 'Session should be complete');
+
+    // A session authorizes one operation, even when used concurrently
+    const results = await Promise.allSettled([1, 2, 3].map(() => mfaService.completeSession(sessionToken)));
+    const consumed = results.filter(result => result.status === 'fulfilled').length;
+    assert(consumed === 1, `Exactly one use should succeed, ${consumed} did`);
+  });
+
+/**
+ * Pick a new user and remember it for clean-up
+ * @param userIds Users created by the run
+ */
+const newUser = (userIds: string[]): string => {
+  const userId = ethers.Wallet.createRandom().address.toLowerCase();
+  userIds.push(userId);
+  return userId;
+};
+
+/**
+ * Create a user with TOTP enabled on a known secret
+ * @param userIds Users created by the run
+ * @param secret Base32 secret
+ */
+const enrolledUser = async (userIds: string[], secret: string): Promise<string> => {
+  const userId = newUser(userIds);
+  const db = await getDatabase();
+  await db.put('mfa_configs', {
+    userId,
+    totpEnabled: true,
+    totpSecret: await militaryGradeEncryption.encrypt(secret, `totp:${userId}`),
+    recoveryCodes: [],
+    lastUpdated: Date.now(),
+  });
+  return userId;
+};
+
+/**
+ * Run a body with Date.now fixed
+ * @param time Time in milliseconds
+ * @param body Body to run
+ */
+const withClock = async <T>(time: number, body: () => Promise<T>): Promise<T> => {
+  const now = Date.now;
+  Date.now = () => time;
+  try {
+    return await body();
+  } finally {
+    Date.now = now;
+  }
+};
+
+/**
+ * Compute the six-digit TOTP code of a secret, independently of the service
+ * @param secret Base32 secret
+ * @param time Time in milliseconds
+ */
+const totpCode = (secret: string, time: number): string => {
+  let bits = '';
+  for (const char of secret) {
+    bits += BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, '0');
+  }
+  const key = Buffer.from(bits.match(/.{8}/g)!.map(byte => parseInt(byte, 2)));
+
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(time / TOTP_PERIOD_MS)));
+  const hash = crypto.createHmac('sha1', key).update(counter).digest();
+  const code = (hash.readUInt32BE(hash[hash.length - 1] & 0xf) & 0x7fffffff) % 1000000;
+  return code.toString().padStart(6, '0');
+};
+
+/**
+ * Delete an MFA session left unfinished
+ * @param sessionToken Session token
+ */
+const removeSession = async (sessionToken: string): Promise<void> => {
+  const db = await getDatabase();
+  await db.delete('mfa_sessions', crypto.createHash('sha256').update(sessionToken).digest('hex'));
+};
+
+/**
+ * Delete the MFA state of the test users
+ * @param userIds Users created by the run
+ */
+const removeUsers = async (userIds: string[]): Promise<void> => {
+  const db = await getDatabase();
+  for (const userId of userIds) {
+    await db.delete('mfa_configs', userId);
+  }
+};
+
+/**
+ * Message of the MFAError a call fails with
+ * @param call Pending call
+ * @throws Error if it succeeds or fails with another error
+ */
+const rejection = async (call: Promise<unknown>): Promise<string> => {
+  try {
+    await call;
+  } catch (error) {
+    if (!(error instanceof MFAError)) {
+      throw error;
+    }
+    return error.message;
+  }
+  throw new Error('Call should have failed');
+};
+
+/**
+ * Run a suite of tests in order
+ * @param name Suite name
+ * @param tests Tests
+ */
+const runSuite = async (name: string, tests: (() => Promise<TestResult>)[]): Promise<TestSuiteResult> => {
+  const startTime = Date.now();
+  const results: TestResult[] = [];
+
+  for (const test of tests) {
+    results.push(await test());
+  }
+
+  const passed = results.filter(t => t.success).length;
+  const skipped = results.filter(t => t.skipped).length;
+  const failed = results.length - passed - skipped;
+  logger.info(`${name}: ${passed} passed, ${failed} failed, ${skipped} skipped`);
+
+  return {
+    name,
+    tests: results,
+    passed,
+    failed,
+    skipped,
+    duration: Date.now() - startTime,
+    timestamp: Date.now(),
+  };
+};
+
+/**
+ * Summary of a suite that could not run
+ * @param name Suite name
+ * @param reason Why it was skipped
+ */
+const skippedSuite = (name: string, reason: string): TestSuiteResult => ({
+  name,
+  tests: [{ name: 'All', success: false, skipped: true, error: reason, duration: 0 }],
+  passed: 0,
+  failed: 0,
+  skipped: 1,
+  duration: 0,
+  timestamp: Date.now(),
+});
+
+/**
+ * Run a test body and time it
+ * @param name Test name
+ * @param body Test body, returning details
+ */
+const runTest = async (name: string, body: () => Promise<Record<string, any> | void>): Promise<TestResult> => {
+  const startTime = Date.now();
+  try {
+    const details = await body();
+    return { name, success: true, duration: Date.now() - startTime, details: details || undefined };
+  } catch (error) {
+    logger.error(`Test ${name} failed:`, error);
+    return { name, success: false, error: String(error), duration: Date.now() - startTime };
+  }
+};
+
+/**
+ * Fail unless a condition holds
+ * @param condition Condition
+ * @param message Failure message
+ */
+const assert = (condition: unknown, message: string): void => {
+  if (!condition) {
+    throw new Error(message);
+  }
+};
+
+if (require.main === module) {
+  runMFATests()
+    .then(results => {
+      const suites = Object.values(results);
+      for (const suite of suites) {
+        for (const test of suite.tests) {
+          const status = test.skipped ? 'SKIP' : test.success ? 'PASS' : 'FAIL';
+          console.log(`[${status}] ${suite.name} - ${test.name}${test.error ? `: ${test.error}` : ''}`);
+        }
+      }
+      process.exit(suites.some(suite => suite.failed > 0) ? 1 : 0);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
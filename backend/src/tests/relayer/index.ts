@@ -0,0 +1,754 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import ForwarderArtifact from '@openzeppelin/contracts/build/contracts/ERC2771Forwarder.json';
+import { logger } from '../../utils/logger';
+import { getDatabase } from '../../config/database';
+import { ChainRegistry } from '../../services/chain-registry';
+import { RelayerTransaction, TransactionTracker } from '../../services/relayer/transactionTracker';
+import { RelayerKeyPool, RelayerKeyPoolOptions } from '../../services/relayer/keyPool';
+import {
+  FORWARD_REQUEST_TYPES,
+  ForwardRequest,
+  MetaTransactionError,
+  parseForwardRequest,
+  parseForwardSignature,
+  TrustedForwarder,
+} from '../../services/relayer/forwarder';
+
+/**
+ * Relayer nonce and transaction lifecycle tests. They need an Anvil or
+ * Hardhat node at RELAYER_TEST_RPC_URL (default http://127.0.0.1:8545), whose
+ * automining they switch off to leave transactions stuck, and the database
+ * configured for the backend. Each run relays from new accounts funded by
+ * the node's first unlocked account and removes their records; the key pool
+ * tests set balances with hardhat_setBalance and read the node from a
+ * throwaway chain registry. The forwarder tests relay through an
+ * OpenZeppelin ERC2771Forwarder deployed with that account, to a target that
+ * trusts every forwarder. The tests are skipped when no node answers.
+ *
+ * Run with `npm run test:relayer`.
+ */
+
+// Test result
+interface TestResult {
+  name: string;
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+  duration: number; // milliseconds
+  details?: Record<string, any>;
+}
+
+// Test suite result
+interface TestSuiteResult {
+  name: string;
+  tests: TestResult[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number; // milliseconds
+  timestamp: number;
+}
+
+// Relayer accounts and tracker for the chain tests
+interface ChainFixture {
+  provider: ethers.providers.JsonRpcProvider;
+  chainId: number;
+  relayer: ethers.Wallet; // Also the treasury of the key pool tests
+  tracker: TransactionTracker;
+  poolKeys: ethers.Wallet[];
+  registry: ChainRegistry;
+  registryFile: string;
+  forwarder: string;
+  target: string; // Answers every call with true, so it trusts the forwarder
+  contractWallet: string; // Accepts every signature through ERC-1271
+  user: ethers.Wallet; // Signs forward requests
+}
+
+const RPC_URL = process.env.RELAYER_TEST_RPC_URL || 'http://127.0.0.1:8545';
+const CONNECT_TIMEOUT_MS = 3000;
+
+// Replacements are due as soon as the tests check
+const SPEED_UP_AFTER_MS = 200;
+const CANCEL_AFTER_MS = 1000;
+const FEE_BUMP_PERCENT = 15;
+
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+
+// Key pool thresholds of the test chain
+const MIN_BALANCE = ethers.utils.parseEther('0.5');
+const TOP_UP_AMOUNT = ethers.utils.parseEther('1');
+
+// EIP-712 domain name of the test forwarder
+const FORWARDER_NAME = 'ERC2771Forwarder';
+
+// Contract returning 32 bytes holding 1 to every call
+const TRUSTING_TARGET_INITCODE = '0x600a600c600039600a6000f3600160005260206000f3';
+
+// Contract returning the ERC-1271 magic value to every call
+const ERC1271_WALLET_INITCODE = '0x6010600c60003960106000f3631626ba7e60e01b60005260206000f3';
+
+/**
+ * Run every relayer test suite
+ * @returns Results by suite
+ */
+export const runRelayerTests = async (): Promise<Record<string, TestSuiteResult>> => {
+  const fixture = await createFixture();
+  if (!fixture) {
+    const reason = `No node answers at ${RPC_URL}`;
+    return {
+      nonces: skippedSuite('Nonce Manager', reason),
+      lifecycle: skippedSuite('Transaction Lifecycle', reason),
+      pool: skippedSuite('Key Pool', reason),
+      forwarder: skippedSuite('Trusted Forwarder', reason),
+    };
+  }
+
+  try {
+    return {
+      nonces: await runSuite('Nonce Manager', [() => testConcurrentNonces(fixture), () => testNonceGap(fixture)]),
+      lifecycle: await runSuite('Transaction Lifecycle', [() => testSpeedUp(fixture), () => testCancel(fixture)]),
+      pool: await runSuite('Key Pool', [
+        () => testBalanceAwareSelection(fixture),
+        () => testLeastPending(fixture),
+        () => testTopUp(fixture),
+        () => testUnhealthyKey(fixture),
+      ]),
+      forwarder: await runSuite('Trusted Forwarder', [
+        () => testRequestValidation(),
+        () => testRelay(fixture),
+        () => testRejectedRequests(fixture),
+        () => testContractSignatures(fixture),
+      ]),
+    };
+  } finally {
+    fixture.tracker.stop();
+    await fixture.provider.send('evm_setAutomine', [true]);
+    await removeRecords(fixture);
+    fs.rmSync(fixture.registryFile, { force: true });
+  }
+};
+
+const testConcurrentNonces = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Concurrent Nonces', async () => {
+    const { provider, chainId, relayer, tracker } = fixture;
+    const start = await provider.getTransactionCount(relayer.address, 'latest');
+
+    const sent = await Promise.all(
+      [1, 2, 3, 4].map(value => tracker.submit(relayer, { chainId, to: RECIPIENT, value, label: 'test' }))
+    );
+    const nonces = sent.map(transaction => transaction.nonce).sort((a, b) => a - b);
+    assert(
+      nonces.every((nonce, index) => nonce === start + index),
+      `Expected nonces ${start} to ${start + 3}, got ${nonces.join(', ')}`
+    );
+
+    await provider.send('evm_mine', []);
+    const final = await Promise.all(sent.map(transaction => checkUntilFinal(tracker, transaction.id)));
+    assert(final.every(transaction => transaction.status === 'confirmed'), 'Every transaction should be confirmed');
+
+    const found = await tracker.get(final[0].hash);
+    assert(found?.id === final[0].id, 'Transaction should be found by its hash');
+    return { nonces };
+  });
+
+const testNonceGap = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Nonce Gap', async () => {
+    const { provider, chainId, relayer, tracker } = fixture;
+    const confirmed = await provider.getTransactionCount(relayer.address, 'latest');
+
+    // A nonce handed out for a transaction that never reached the node
+    const db = await getDatabase();
+    const id = `${chainId}:${relayer.address.toLowerCase()}`;
+    await db.put('relayer_nonces', {
+      id,
+      chainId,
+      address: relayer.address.toLowerCase(),
+      nextNonce: confirmed + 2,
+      updatedAt: Date.now(),
+    });
+
+    const state = await tracker.nonces.getState(chainId, provider, relayer.address);
+    assert(state.gaps.join() === `${confirmed},${confirmed + 1}`, `Expected gaps at ${confirmed}, got ${state.gaps.join(', ')}`);
+
+    const first = await tracker.submit(relayer, { chainId, to: RECIPIENT, value: 1 });
+    const second = await tracker.submit(relayer, { chainId, to: RECIPIENT, value: 2 });
+    const third = await tracker.submit(relayer, { chainId, to: RECIPIENT, value: 3 });
+    assert(first.nonce === confirmed && second.nonce === confirmed + 1, 'Gaps should be filled first');
+    assert(third.nonce === confirmed + 2, 'Sequence should continue after the gaps');
+
+    await provider.send('evm_mine', []);
+    for (const transaction of [first, second, third]) {
+      assert((await checkUntilFinal(tracker, transaction.id)).status === 'confirmed', 'Every transaction should be confirmed');
+    }
+    return { gaps: state.gaps };
+  });
+
+const testSpeedUp = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Speed Up', async () => {
+    const { provider, chainId, relayer, tracker } = fixture;
+    const sent = await tracker.submit(relayer, { chainId, to: RECIPIENT, value: 5 });
+
+    await sleep(SPEED_UP_AFTER_MS);
+    await tracker.checkTransactions();
+    const pending = await tracker.get(sent.id);
+    if (pending?.status !== 'pending') {
+      throw new Error(`Expected pending, got ${pending?.status}`);
+    }
+    assert(pending.submissions.length === 2 && pending.submissions[1].kind === 'speed_up', 'Expected a speed-up');
+
+    const [original, speedUp] = pending.submissions;
+    const bumped = ethers.BigNumber.from(original.maxFeePerGas).mul(100 + FEE_BUMP_PERCENT).div(100);
+    assert(ethers.BigNumber.from(speedUp.maxFeePerGas).gte(bumped), 'Speed-up should bump the fee');
+
+    await provider.send('evm_mine', []);
+    const final = await checkUntilFinal(tracker, sent.id);
+    assert(final.status === 'confirmed', `Expected confirmed, got ${final.status}`);
+    assert(final.hash === speedUp.hash, 'The speed-up should be the mined submission');
+    return { submissions: final.submissions.length };
+  });
+
+const testCancel = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Cancel', async () => {
+    const { provider, chainId, relayer, tracker } = fixture;
+    const sent = await tracker.submit(relayer, { chainId, to: RECIPIENT, value: 6 });
+
+    await sleep(CANCEL_AFTER_MS);
+    await tracker.checkTransactions();
+    const cancelling = await tracker.get(sent.id);
+    assert(cancelling?.status === 'cancelling', `Expected cancelling, got ${cancelling?.status}`);
+
+    await provider.send('evm_mine', []);
+    const final = await checkUntilFinal(tracker, sent.id);
+    assert(final.status === 'cancelled', `Expected cancelled, got ${final.status}`);
+
+    const receipt = await provider.getTransactionReceipt(final.hash);
+    assert(receipt.to.toLowerCase() === relayer.address.toLowerCase(), 'The cancellation should be a self-transfer');
+
+    const status = await tracker.getStatus(chainId);
+    const account = status.accounts.find(current => current.address === relayer.address.toLowerCase());
+    assert(account && account.inFlight.length === 0 && account.gaps.length === 0, 'Nothing should be left in flight');
+    return { submissions: final.submissions.map(submission => submission.kind) };
+  });
+
+const testBalanceAwareSelection = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Balance-Aware Selection', async () => {
+    const { provider, chainId, poolKeys } = fixture;
+    const [funded, low, empty] = poolKeys;
+    await setBalance(provider, funded.address, TOP_UP_AMOUNT);
+    await setBalance(provider, low.address, MIN_BALANCE.div(2));
+    await setBalance(provider, empty.address, ethers.constants.Zero);
+
+    const pool = createPool(fixture, { strategy: 'round_robin' });
+    await pool.checkChain(chainId);
+    const before = await selectAddresses(pool, chainId, 3);
+    assert(before.every(address => address === funded.address), `Only the funded account should be selected: ${before}`);
+
+    await setBalance(provider, low.address, TOP_UP_AMOUNT);
+    await pool.checkChain(chainId);
+    const after = await selectAddresses(pool, chainId, 4);
+    const alternates = after.every((address, index) => index === 0 || address !== after[index - 1]);
+    assert(alternates && new Set(after).size === 2 && !after.includes(empty.address), `Funded accounts should alternate: ${after}`);
+
+    const status = await pool.getStatus(chainId);
+    assert(status.size === 3 && status.available === 2, `Expected 2 of 3 accounts available, got ${status.available}`);
+    return { before, after };
+  });
+
+const testLeastPending = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Least Pending', async () => {
+    const { provider, chainId, poolKeys, tracker } = fixture;
+    const [first, second] = poolKeys;
+    await setBalance(provider, first.address, TOP_UP_AMOUNT);
+    await setBalance(provider, second.address, TOP_UP_AMOUNT);
+
+    const pool = createPool(fixture, { strategy: 'least_pending' });
+    await pool.checkChain(chainId);
+    const busy = await pool.withSigner(chainId, async signer => {
+      await tracker.submit(signer, { chainId, to: RECIPIENT, value: 1 });
+      await tracker.submit(signer, { chainId, to: RECIPIENT, value: 2 });
+      return (await signer.getAddress()).toLowerCase();
+    });
+
+    const [next] = await selectAddresses(pool, chainId, 1);
+    assert(next.toLowerCase() !== busy, 'The account with pending transactions should not be selected');
+
+    const status = await pool.getStatus(chainId);
+    const pending = status.accounts.find(account => account.address === busy);
+    assert(pending?.inFlight === 2 && pending.sent === 1, 'Pool metrics should count the pending transactions');
+
+    await provider.send('evm_mine', []);
+    await tracker.checkTransactions();
+    return { busy, next };
+  });
+
+const testTopUp = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Top-Up', async () => {
+    const { provider, chainId, poolKeys, tracker } = fixture;
+    const low = poolKeys[2];
+    await setBalance(provider, low.address, ethers.constants.Zero);
+
+    const pool = createPool(fixture, { strategy: 'round_robin', treasuryKeyId: fixture.relayer.privateKey });
+    await pool.checkChain(chainId);
+    let account = (await pool.getStatus(chainId)).accounts.find(current => current.address === low.address.toLowerCase());
+    assert(account?.topUpPending, 'A top-up should be pending for the empty account');
+
+    // A replica, like a pool rebuilt after a registry reload, finds the top-up in flight
+    const replica = createPool(fixture, { strategy: 'round_robin', treasuryKeyId: fixture.relayer.privateKey });
+    await Promise.all([replica.checkChain(chainId), pool.checkChain(chainId)]);
+    const topUps = await tracker.getInFlightTo(chainId, low.address, 'top_up');
+    assert(topUps.length === 1, `One top-up should be in flight, got ${topUps.length}`);
+    const replicated = (await replica.getStatus(chainId)).accounts.find(current => current.address === low.address.toLowerCase());
+    assert(replicated?.topUpPending, 'The replica should report the pending top-up');
+
+    await provider.send('evm_mine', []);
+    await tracker.checkTransactions();
+    await pool.checkChain(chainId);
+    account = (await pool.getStatus(chainId)).accounts.find(current => current.address === low.address.toLowerCase());
+    if (!account) {
+      throw new Error('The empty account is missing from the pool');
+    }
+    assert(account.topUps === 1 && !account.topUpPending, 'The top-up should be counted');
+    assert(ethers.BigNumber.from(account.balance).eq(TOP_UP_AMOUNT), `Expected the top-up amount, got ${account.balance}`);
+    return { balance: account.balance };
+  });
+
+const testUnhealthyKey = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Unhealthy Key', async () => {
+    const { provider, chainId, poolKeys } = fixture;
+    const [key] = poolKeys;
+    await setBalance(provider, key.address, TOP_UP_AMOUNT);
+
+    const pool = createPool(fixture, { keyIds: [key.privateKey], strategy: 'round_robin', maxFailures: 2 });
+    await pool.checkChain(chainId);
+    for (let attempt = 0; attempt < 2; attempt++) {
+      await pool.withSigner(chainId, async () => Promise.reject(new Error('send failed'))).catch(() => undefined);
+    }
+
+    const removed = await pool.getStatus(chainId);
+    assert(!removed.accounts[0].healthy && removed.available === 0, 'The failing key should leave the pool');
+    const error = await pool.withSigner(chainId, async () => 'sent').catch((reason: Error) => reason);
+    assert(error instanceof Error, 'Nothing should be sent without a healthy account');
+
+    // The key answers and is funded, so the next check brings it back
+    await pool.checkChain(chainId);
+    assert((await pool.withSigner(chainId, async () => 'sent')) === 'sent', 'The key should be back in the pool');
+    return { lastError: removed.accounts[0].lastError };
+  });
+
+const testRequestValidation = (): Promise<TestResult> =>
+  runTest('Request Validation', async () => {
+    const valid = { from: RECIPIENT, to: RECIPIENT, value: '0', gas: 50000, nonce: '3', deadline: 1900000000, data: '0xABCD' };
+    const parsed = parseForwardRequest(valid);
+    assert(parsed.nonce === 3 && parsed.gas === '50000' && parsed.data === '0xabcd', 'A valid request should be normalized');
+
+    const { data, ...withoutData } = valid;
+    const invalid: unknown[] = [
+      { ...valid, relayer: RECIPIENT },
+      withoutData,
+      { ...valid, from: '0x1234' },
+      { ...valid, value: '-1' },
+      { ...valid, gas: 1.5 },
+      { ...valid, nonce: '01' },
+      { ...valid, deadline: 2 ** 48 },
+      { ...valid, data: `${data}0` },
+      [valid],
+    ];
+    for (const request of invalid) {
+      const error = await rejection(() => parseForwardRequest(request));
+      assert(error?.statusCode === 400, `Request should be rejected: ${JSON.stringify(request)}`);
+    }
+    for (const signature of ['0x', '0x123', 'signature', 65]) {
+      assert(await rejection(() => parseForwardSignature(signature)), `Signature should be rejected: ${signature}`);
+    }
+    return { rejected: invalid.length };
+  });
+
+const testRelay = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Relay', async () => {
+    const { provider, chainId, tracker, user } = fixture;
+    const forwarder = await createForwarder(fixture);
+
+    const first = await signRequest(fixture, forwarder, user, { nonce: 0 });
+    const relayed = await forwarder.relay(chainId, first.request, first.signature);
+    const pendingReplay = await rejection(() => forwarder.relay(chainId, first.request, first.signature));
+    assert(pendingReplay?.statusCode === 409, 'A pending request should not be relayed again');
+    assert((await forwarder.getNonce(chainId, user.address)) === 1, 'The next nonce should follow the pending request');
+
+    // Queued behind the pending request
+    const second = await signRequest(fixture, forwarder, user, { nonce: 1 });
+    const queued = await forwarder.relay(chainId, second.request, second.signature);
+
+    await provider.send('evm_mine', []);
+    const final = await Promise.all(
+      [relayed, queued].map(({ metaTransaction }) => checkUntilFinal(tracker, metaTransaction.relayerTransactionId))
+    );
+    assert(
+      final.every(transaction => transaction.status === 'confirmed'),
+      `Both requests should be executed: ${final.map(transaction => transaction.status)}`
+    );
+    const contract = new ethers.Contract(fixture.forwarder, ['function nonces(address) view returns (uint256)'], provider);
+    assert((await contract.nonces(user.address)).eq(2), 'The forwarder should have used both nonces');
+
+    const minedReplay = await rejection(() => forwarder.relay(chainId, first.request, first.signature));
+    assert(minedReplay?.statusCode === 409, 'An executed request should not be relayed again');
+    return { hashes: final.map(transaction => transaction.hash) };
+  });
+
+const testRejectedRequests = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('Rejected Requests', async () => {
+    const { chainId, user } = fixture;
+    const forwarder = await createForwarder(fixture);
+    const nonce = await forwarder.getNonce(chainId, user.address);
+    const now = Math.floor(Date.now() / 1000);
+
+    const cases: [string, Promise<{ request: ForwardRequest; signature: string }>, number][] = [
+      ['expiring', signRequest(fixture, forwarder, user, { nonce, deadline: now + 10 }), 400],
+      ['ahead', signRequest(fixture, forwarder, user, { nonce: nonce + 5 }), 400],
+      ['with value', signRequest(fixture, forwarder, user, { nonce, value: '1' }), 400],
+      ['over the gas limit', signRequest(fixture, forwarder, user, { nonce, gas: '2000000' }), 400],
+    ];
+    const forged = await signRequest(fixture, forwarder, ethers.Wallet.createRandom(), { nonce });
+    cases.push(['signed by another key', Promise.resolve({ ...forged, request: { ...forged.request, from: user.address } }), 401]);
+
+    const statuses: Record<string, number | undefined> = {};
+    for (const [name, signed, status] of cases) {
+      const { request, signature } = await signed;
+      const error = await rejection(() => forwarder.relay(chainId, request, signature));
+      statuses[name] = error?.statusCode;
+      assert(error?.statusCode === status, `A request ${name} should be rejected with ${status}, got ${error?.statusCode}`);
+    }
+    assert((await forwarder.getNonce(chainId, user.address)) === nonce, 'Rejected requests should not use a nonce');
+    return statuses;
+  });
+
+const testContractSignatures = (fixture: ChainFixture): Promise<TestResult> =>
+  runTest('ERC-1271 Signatures', async () => {
+    const { chainId, contractWallet, target } = fixture;
+    const forwarder = await createForwarder(fixture);
+    const request = parseForwardRequest({
+      from: contractWallet,
+      to: target,
+      value: '0',
+      gas: '50000',
+      nonce: 0,
+      deadline: Math.floor(Date.now() / 1000) + 3600,
+      data: '0x',
+    });
+
+    assert(await forwarder.verifySignature(chainId, request, '0x1234'), 'The contract wallet should accept the signature');
+    assert(
+      !(await forwarder.verifySignature(chainId, { ...request, from: target }, '0x1234')),
+      'A contract without ERC-1271 should not verify'
+    );
+    return { contractWallet };
+  });
+
+/**
+ * Forwarder relaying from the first test key
+ * @param fixture Fixture
+ */
+const createForwarder = async (fixture: ChainFixture): Promise<TrustedForwarder> => {
+  const [key] = fixture.poolKeys;
+  await setBalance(fixture.provider, key.address, TOP_UP_AMOUNT);
+  const pool = createPool(fixture, { keyIds: [key.privateKey], strategy: 'round_robin' });
+  await pool.checkChain(fixture.chainId);
+  return new TrustedForwarder({ maxGas: 1000000, minDeadlineSeconds: 60 }, fixture.tracker, pool, fixture.registry);
+};
+
+/**
+ * Sign a forward request calling the trusting target
+ * @param fixture Fixture
+ * @param forwarder Forwarder
+ * @param signer Signer
+ * @param fields Request fields to set
+ */
+const signRequest = async (
+  fixture: ChainFixture,
+  forwarder: TrustedForwarder,
+  signer: ethers.Wallet,
+  fields: Partial<ForwardRequest>
+): Promise<{ request: ForwardRequest; signature: string }> => {
+  const request: ForwardRequest = {
+    from: signer.address,
+    to: fixture.target,
+    value: '0',
+    gas: '50000',
+    nonce: 0,
+    deadline: Math.floor(Date.now() / 1000) + 3600,
+    data: '0x12345678',
+    ...fields,
+  };
+  const signature = await signer._signTypedData(forwarder.getDomain(fixture.chainId), FORWARD_REQUEST_TYPES, request);
+  return { request, signature };
+};
+
+/**
+ * Get the error a forward request is rejected with
+ * @param fn Function handling the request
+ * @returns The rejection, or undefined if the request was accepted
+ */
+const rejection = async (fn: () => unknown): Promise<MetaTransactionError | undefined> => {
+  try {
+    await fn();
+    return undefined;
+  } catch (error) {
+    if (error instanceof MetaTransactionError) {
+      return error;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Key pool of the test accounts on the test chain
+ * @param fixture Fixture
+ * @param options Options overriding the defaults
+ */
+const createPool = (fixture: ChainFixture, options: Partial<RelayerKeyPoolOptions>): RelayerKeyPool =>
+  new RelayerKeyPool(
+    {
+      keyIds: fixture.poolKeys.map(key => key.privateKey),
+      strategy: 'least_pending',
+      checkIntervalMs: 60 * 60 * 1000,
+      maxFailures: 3,
+      createSigner: (privateKey, provider) => new ethers.Wallet(privateKey, provider),
+      ...options,
+    },
+    fixture.tracker,
+    fixture.registry
+  );
+
+/**
+ * Select accounts of a pool
+ * @param pool Pool
+ * @param chainId Chain ID
+ * @param count Number of selections
+ * @returns Selected addresses in order
+ */
+const selectAddresses = async (pool: RelayerKeyPool, chainId: number, count: number): Promise<string[]> => {
+  const addresses: string[] = [];
+  for (let index = 0; index < count; index++) {
+    addresses.push(await pool.withSigner(chainId, signer => signer.getAddress()));
+  }
+  return addresses;
+};
+
+const setBalance = (provider: ethers.providers.JsonRpcProvider, address: string, balance: ethers.BigNumber) =>
+  provider.send('hardhat_setBalance', [address, ethers.utils.hexValue(balance)]);
+
+/**
+ * Fund a new relayer account on the test node and stop automining
+ * @returns Fixture, or undefined if no node answers
+ */
+const createFixture = async (): Promise<ChainFixture | undefined> => {
+  const provider = new ethers.providers.StaticJsonRpcProvider(RPC_URL);
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      provider.getBlockNumber(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error('timeout')), CONNECT_TIMEOUT_MS);
+      }),
+    ]);
+  } catch {
+    logger.warn(`No node at ${RPC_URL}, skipping relayer tests`);
+    return undefined;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const deployer = provider.getSigner(0);
+  const relayer = ethers.Wallet.createRandom().connect(provider);
+  const funding = await deployer.sendTransaction({ to: relayer.address, value: ethers.utils.parseEther('10') });
+  await funding.wait();
+
+  const forwarder = await new ethers.ContractFactory(ForwarderArtifact.abi, ForwarderArtifact.bytecode, deployer).deploy(
+    FORWARDER_NAME
+  );
+  await forwarder.deployed();
+  const deployed: string[] = [];
+  for (const initCode of [TRUSTING_TARGET_INITCODE, ERC1271_WALLET_INITCODE]) {
+    const deployment = await (await deployer.sendTransaction({ data: initCode })).wait();
+    deployed.push(deployment.contractAddress);
+  }
+  const [target, contractWallet] = deployed;
+  await provider.send('evm_setAutomine', [false]);
+
+  const chainId = (await provider.getNetwork()).chainId;
+  const registryFile = path.join(os.tmpdir(), `relayer-test-chains-${Date.now()}.json`);
+  fs.writeFileSync(
+    registryFile,
+    JSON.stringify([
+      {
+        chainId,
+        name: 'Relayer test',
+        nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+        rpcUrls: [RPC_URL],
+        blockTime: 1,
+        confirmations: 0,
+        relayerPool: { minBalance: MIN_BALANCE.toString(), topUpAmount: TOP_UP_AMOUNT.toString() },
+        trustedForwarder: { address: forwarder.address, name: FORWARDER_NAME },
+      },
+    ])
+  );
+
+  // Checks are run by the tests rather than on an interval
+  const tracker = new TransactionTracker({
+    pollIntervalMs: 60 * 60 * 1000,
+    speedUpAfterMs: SPEED_UP_AFTER_MS,
+    cancelAfterMs: CANCEL_AFTER_MS,
+    feeBumpPercent: FEE_BUMP_PERCENT,
+  });
+  return {
+    provider,
+    chainId,
+    relayer,
+    tracker,
+    poolKeys: [0, 1, 2].map(() => ethers.Wallet.createRandom()),
+    registry: new ChainRegistry({ filePath: registryFile }),
+    registryFile,
+    forwarder: forwarder.address,
+    target,
+    contractWallet,
+    user: ethers.Wallet.createRandom(),
+  };
+};
+
+/**
+ * Remove the nonces, transactions and forward requests of the test accounts
+ * @param fixture Fixture
+ */
+const removeRecords = async ({ chainId, relayer, poolKeys, forwarder, user }: ChainFixture): Promise<void> => {
+  const db = await getDatabase();
+  const signer = user.address.toLowerCase();
+  const requests = await db.getAllFromIndex('meta_transactions', 'by-signer', {
+    lower: [chainId, forwarder.toLowerCase(), signer, 0],
+    upper: [chainId, forwarder.toLowerCase(), signer, Number.MAX_SAFE_INTEGER],
+  });
+  for (const request of requests) {
+    await db.delete('meta_transactions', request.id);
+  }
+
+  for (const wallet of [relayer, ...poolKeys]) {
+    const address = wallet.address.toLowerCase();
+    const transactions = await db.getAllFromIndex('relayer_transactions', 'by-account', {
+      lower: [chainId, address, 0],
+      upper: [chainId, address, Number.MAX_SAFE_INTEGER],
+    });
+    for (const transaction of transactions) {
+      await db.delete('relayer_transactions', transaction.id);
+    }
+    await db.delete('relayer_nonces', `${chainId}:${address}`);
+  }
+};
+
+/**
+ * Check a transaction until it is final
+ * @param tracker Tracker
+ * @param id Transaction ID
+ */
+const checkUntilFinal = async (tracker: TransactionTracker, id: string): Promise<RelayerTransaction> => {
+  for (let attempt = 0; attempt < 10; attempt++) {
+    await tracker.checkTransactions();
+    const transaction = await tracker.get(id);
+    if (transaction && !['pending', 'cancelling'].includes(transaction.status)) {
+      return transaction;
+    }
+    await sleep(100);
+  }
+  throw new Error(`Transaction ${id} is not final`);
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run a suite of tests in order
+ * @param name Suite name
+ * @param tests Tests
+ */
+const runSuite = async (name: string, tests: (() => Promise<TestResult>)[]): Promise<TestSuiteResult> => {
+  const startTime = Date.now();
+  const results: TestResult[] = [];
+
+  for (const test of tests) {
+    results.push(await test());
+  }
+
+  const passed = results.filter(t => t.success).length;
+  const skipped = results.filter(t => t.skipped).length;
+  const failed = results.length - passed - skipped;
+  logger.info(`${name}: ${passed} passed, ${failed} failed, ${skipped} skipped`);
+
+  return {
+    name,
+    tests: results,
+    passed,
+    failed,
+    skipped,
+    duration: Date.now() - startTime,
+    timestamp: Date.now(),
+  };
+};
+
+/**
+ * Summary of a suite that could not run
+ * @param name Suite name
+ * @param reason Why it was skipped
+ */
+const skippedSuite = (name: string, reason: string): TestSuiteResult => ({
+  name,
+  tests: [{ name: 'All', success: false, skipped: true, error: reason, duration: 0 }],
+  passed: 0,
+  failed: 0,
+  skipped: 1,
+  duration: 0,
+  timestamp: Date.now(),
+});
+
+/**
+ * Run a test body and time it
+ * @param name Test name
+ * @param body Test body, returning details
+ */
+const runTest = async (name: string, body: () => Promise<Record<string, any> | void>): Promise<TestResult> => {
+  const startTime = Date.now();
+  try {
+    const details = await body();
+    return { name, success: true, duration: Date.now() - startTime, details: details || undefined };
+  } catch (error) {
+    logger.error(`Test ${name} failed:`, error);
+    return { name, success: false, error: String(error), duration: Date.now() - startTime };
+  }
+};
+
+/**
+ * Fail unless a condition holds
+ * @param condition Condition
+ * @param message Failure message
+ */
+const assert = (condition: unknown, message: string): void => {
+  if (!condition) {
+    throw new Error(message);
+  }
+};
+
+if (require.main === module) {
+  runRelayerTests()
+    .then(results => {
+      const suites = Object.values(results);
+      for (const suite of suites) {
+        for (const test of suite.tests) {
+          const status = test.skipped ? 'SKIP' : test.success ? 'PASS' : 'FAIL';
+          console.log(`[${status}] ${suite.name} - ${test.name}${test.error ? `: ${test.error}` : ''}`);
+        }
+      }
+      process.exit(suites.some(suite => suite.failed > 0) ? 1 : 0);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
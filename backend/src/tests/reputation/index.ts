@@ -0,0 +1,409 @@
+import { ethers } from 'ethers';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../utils/logger';
+import { getDatabase } from '../../config/database';
+import {
+  addressReputation,
+  matchDrainerSignature,
+  parseSanctionsList,
+  ReputationError,
+  ReputationSignalType,
+  ReputationVerdict,
+} from '../../services/security/reputation';
+
+/**
+ * Address reputation tests. Sanctions lists and drainer signatures are
+ * parsed and matched directly; the service tests use a throwaway tenant in
+ * the database configured for the backend, seed the indexer's contract
+ * metadata and transactions for an unused chain ID so no RPC or explorer is
+ * queried, and remove their records. They assume the default warn (0.3) and
+ * block (0.8) thresholds.
+ *
+ * Run with `npm run test:reputation`.
+ */
+
+// Test result
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration: number; // milliseconds
+  details?: Record<string, any>;
+}
+
+// Test suite result
+interface TestSuiteResult {
+  name: string;
+  tests: TestResult[];
+  passed: number;
+  failed: number;
+  duration: number; // milliseconds
+  timestamp: number;
+}
+
+// Chain ID no configured chain uses
+const CHAIN_ID = 990001;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Runtime code dispatching on Claim(), as drainer kits deploy it
+const CLAIM_SELECTOR = ethers.utils.id('Claim()').slice(2, 10);
+const DRAINER_CODE = `0x608060405260043610601c5760003560e01c80${'63' + CLAIM_SELECTOR}14602157`;
+const TOKEN_CODE = '0x608060405234801561001057600080fd5b50600436106100365760003560e01c8063a9059cbb1461003b575b600080fd';
+
+/**
+ * Run every address reputation test suite
+ * @returns Results by suite
+ */
+export const runReputationTests = async (): Promise<Record<string, TestSuiteResult>> => ({
+  parsing: await runSuite('Lists and Signatures', [testSanctionsLists, testDrainerSignatures]),
+  service: await runSuite('Reputation Service', [
+    testAddressLists,
+    testContractSignals,
+    testTokenCounterparty,
+    testFirstTimeRecipient,
+    testEnforce,
+  ]),
+});
+
+/**
+ * Generate a random lowercase address
+ */
+const randomAddress = (): string => ethers.utils.hexlify(ethers.utils.randomBytes(20));
+
+/**
+ * Test sanctions lists are read from JSON and from text
+ */
+const testSanctionsLists = (): Promise<TestResult> =>
+  runTest('Sanctions Lists', async () => {
+    const address = '0x8589427373D6D84E98730D7795D8f6f8731FDA16';
+    const other = '0x722122dF12D4e14e13Ac3b6895a86e84145b6967';
+
+    const strings = parseSanctionsList(JSON.stringify([address, 'not an address']));
+    assert(strings.length === 1 && strings[0] === address.toLowerCase(), `Unexpected JSON addresses: ${strings}`);
+
+    const objects = parseSanctionsList(JSON.stringify([{ address, program: 'SDN' }, { address: other }, { name: 'x' }]));
+    assert(objects.length === 2, `Expected 2 addresses from JSON objects, got ${objects.length}`);
+
+    const csv = parseSanctionsList(`name,address\nTornado,${address}\nTornado 2,${other}\n`);
+    assert(csv.length === 2 && csv[1] === other.toLowerCase(), `Unexpected CSV addresses: ${csv}`);
+
+    try {
+      parseSanctionsList(JSON.stringify({ address }));
+      throw new Error('A JSON object was accepted as a list');
+    } catch (error) {
+      assert(String(error).includes('JSON array'), `Unexpected error: ${error}`);
+    }
+  });
+
+/**
+ * Test drainer signatures match by selector and by bytecode hash
+ */
+const testDrainerSignatures = (): Promise<TestResult> =>
+  runTest('Drainer Signatures', async () => {
+    const drainer = matchDrainerSignature({ code: DRAINER_CODE });
+    assert(drainer, 'Built-in signature did not match a Claim() dispatcher');
+    assert(!matchDrainerSignature({ code: TOKEN_CODE }), 'Built-in signature matched a token');
+
+    const codeHash = ethers.utils.keccak256(TOKEN_CODE);
+    const signatures = [
+      { id: 'hash', name: 'Known drainer', bytecodeHash: codeHash },
+      { id: 'pair', name: 'Selector pair', selectors: ['0xa9059cbb', '0x095ea7b3'] },
+    ];
+    assert(matchDrainerSignature({ code: TOKEN_CODE, codeHash }, signatures)?.id === 'hash', 'Bytecode hash did not match');
+    assert(
+      !matchDrainerSignature({ code: TOKEN_CODE }, [signatures[1]]),
+      'Signature matched with only one of its two required selectors'
+    );
+    return { drainer: drainer!.id };
+  });
+
+/**
+ * Test deny-listed destinations block and allow-listed ones waive other signals
+ */
+const testAddressLists = (): Promise<TestResult> =>
+  withTenant('Allow and Deny Lists', async (tenantId, seed) => {
+    const denied = randomAddress();
+    const allowed = randomAddress();
+    await seed.contract(denied, { code: TOKEN_CODE, verified: true, createdAt: Date.now() - 365 * DAY });
+    await seed.contract(allowed, { code: TOKEN_CODE, verified: false, createdAt: Date.now() });
+
+    await addressReputation.addListEntry(tenantId, denied, 'deny', 'reputation-test', 'Phishing report');
+    await addressReputation.addListEntry(tenantId, allowed, 'allow', 'reputation-test');
+
+    const blocked = await addressReputation.evaluate({ chainId: CHAIN_ID, to: denied, tenantId });
+    expectSignals(blocked, [ReputationSignalType.DENY_LIST]);
+    assert(blocked.action === 'block' && blocked.riskScore === 1, `Deny-listed destination was not blocked: ${blocked.action}`);
+    assert(blocked.warnings[0].includes('Phishing report'), `Warning lacks the reason: ${blocked.warnings[0]}`);
+
+    const waived = await addressReputation.evaluate({ chainId: CHAIN_ID, to: allowed, tenantId });
+    expectSignals(waived, []);
+    assert(waived.action === 'allow' && waived.allowListed.includes(allowed), 'Allow list did not waive the signals');
+
+    assert((await addressReputation.getRisk(denied, tenantId))?.risk === 1, 'Deny-listed address was not rated risky');
+    assert((await addressReputation.getRisk(allowed, tenantId))?.risk === 0, 'Allow-listed address was not rated safe');
+    assert((await addressReputation.getRisk(randomAddress(), tenantId)) === undefined, 'Unknown address was rated');
+
+    const entries = await addressReputation.listEntries(tenantId, 'deny');
+    assert(entries.length === 1 && entries[0].address === denied, `Unexpected deny list: ${JSON.stringify(entries)}`);
+    assert(await addressReputation.removeListEntry(tenantId, denied, 'reputation-test'), 'Entry was not removed');
+    assert(!(await addressReputation.removeListEntry(tenantId, denied, 'reputation-test')), 'Entry was removed twice');
+
+    try {
+      await addressReputation.addListEntry(tenantId, 'not an address', 'deny', 'reputation-test');
+      throw new Error('An invalid address was listed');
+    } catch (error) {
+      assert(error instanceof ReputationError, `Unexpected error: ${error}`);
+    }
+  });
+
+/**
+ * Test contract age, verification and drainer code contribute to the score
+ */
+const testContractSignals = (): Promise<TestResult> =>
+  withTenant('Contract Signals', async (tenantId, seed) => {
+    const established = randomAddress();
+    const fresh = randomAddress();
+    const drainer = randomAddress();
+    await seed.contract(established, { code: TOKEN_CODE, verified: true, createdAt: Date.now() - 365 * DAY });
+    await seed.contract(fresh, { code: TOKEN_CODE, verified: false, createdAt: Date.now() - DAY });
+    await seed.contract(drainer, { code: DRAINER_CODE, verified: true, createdAt: Date.now() - 365 * DAY });
+
+    const safe = await addressReputation.evaluate({ chainId: CHAIN_ID, to: established, tenantId });
+    expectSignals(safe, []);
+    assert(safe.action === 'allow', `Established contract was not allowed: ${safe.action}`);
+
+    const risky = await addressReputation.evaluate({ chainId: CHAIN_ID, to: fresh, tenantId });
+    expectSignals(risky, [ReputationSignalType.NEW_CONTRACT, ReputationSignalType.UNVERIFIED_CONTRACT]);
+    assert(risky.action === 'warn', `New unverified contract was not warned about: ${risky.action}`);
+
+    const drained = await addressReputation.evaluate({ chainId: CHAIN_ID, to: drainer, tenantId });
+    expectSignals(drained, [ReputationSignalType.DRAINER]);
+    assert(drained.action === 'block', `Drainer was not blocked: ${drained.action}`);
+    return { riskyScore: risky.riskScore };
+  });
+
+/**
+ * Test the spender of an approval is scored along with the token
+ */
+const testTokenCounterparty = (): Promise<TestResult> =>
+  withTenant('Token Counterparty', async (tenantId, seed) => {
+    const token = randomAddress();
+    const spender = randomAddress();
+    await seed.contract(token, { code: TOKEN_CODE, verified: true, createdAt: Date.now() - 365 * DAY });
+    await seed.contract(spender, { code: DRAINER_CODE, verified: false, createdAt: Date.now() });
+
+    const data = new ethers.utils.Interface(['function approve(address spender, uint256 amount)']).encodeFunctionData(
+      'approve',
+      [spender, ethers.constants.MaxUint256]
+    );
+    const verdict = await addressReputation.evaluate({ chainId: CHAIN_ID, to: token, data, tenantId });
+    assert(verdict.action === 'block', `Approval to a drainer was not blocked: ${verdict.action}`);
+    assert(
+      verdict.signals.every(signal => signal.address === spender),
+      `Signals were raised for the token: ${JSON.stringify(verdict.signals)}`
+    );
+    expectSignals(verdict, [
+      ReputationSignalType.DRAINER,
+      ReputationSignalType.NEW_CONTRACT,
+      ReputationSignalType.UNVERIFIED_CONTRACT,
+    ]);
+  });
+
+/**
+ * Test recipients the sender has not sent to before are flagged
+ */
+const testFirstTimeRecipient = (): Promise<TestResult> =>
+  withTenant('First-Time Recipient', async (tenantId, seed) => {
+    const from = randomAddress();
+    const known = randomAddress();
+    const unknown = randomAddress();
+    await seed.account(known);
+    await seed.account(unknown);
+    await seed.transaction(ethers.utils.getAddress(from), ethers.utils.getAddress(known));
+
+    const first = await addressReputation.evaluate({ chainId: CHAIN_ID, from, to: unknown, tenantId });
+    expectSignals(first, [ReputationSignalType.FIRST_TIME_RECIPIENT]);
+    assert(first.action === 'allow', `A first-time recipient alone changed the action: ${first.action}`);
+
+    const repeat = await addressReputation.evaluate({ chainId: CHAIN_ID, from, to: known, tenantId });
+    expectSignals(repeat, []);
+  });
+
+/**
+ * Test enforcement refuses blocked transactions with a 403
+ */
+const testEnforce = (): Promise<TestResult> =>
+  withTenant('Enforce', async (tenantId, seed) => {
+    const from = randomAddress();
+    const denied = randomAddress();
+    const recipient = randomAddress();
+    await seed.account(denied);
+    await seed.account(recipient);
+    await addressReputation.addListEntry(tenantId, denied, 'deny', 'reputation-test');
+
+    try {
+      await addressReputation.enforce({ chainId: CHAIN_ID, from, to: denied, tenantId }, 'reputation-test');
+      throw new Error('A deny-listed destination was not refused');
+    } catch (error) {
+      assert(error instanceof ReputationError && error.statusCode === 403, `Unexpected error: ${error}`);
+    }
+
+    const verdict = await addressReputation.enforce({ chainId: CHAIN_ID, from, to: recipient, tenantId }, 'reputation-test');
+    assert(verdict.action !== 'block', 'An unlisted recipient was refused');
+  });
+
+/**
+ * Expect a verdict to have exactly the given signal types
+ * @param verdict Verdict
+ * @param types Signal types
+ */
+const expectSignals = (verdict: ReputationVerdict, types: ReputationSignalType[]): void => {
+  const actual = verdict.signals.map(signal => signal.type).sort();
+  assert(
+    JSON.stringify(actual) === JSON.stringify([...types].sort()),
+    `Expected signals ${types.join(', ') || 'none'}, got ${actual.join(', ') || 'none'}`
+  );
+};
+
+// Records a service test seeds in the indexer's stores
+interface Seeder {
+  contract(address: string, fields: { code: string; verified: boolean; createdAt: number }): Promise<void>;
+  account(address: string): Promise<void>;
+  transaction(from: string, to: string): Promise<void>;
+}
+
+/**
+ * Run a test in a throwaway tenant and remove its list entries and seeded records afterwards
+ * @param name Test name
+ * @param body Test body, given the tenant and a seeder
+ */
+const withTenant = (
+  name: string,
+  body: (tenantId: string, seed: Seeder) => Promise<Record<string, any> | void>
+): Promise<TestResult> =>
+  runTest(name, async () => {
+    const tenantId = `reputation-test-${uuidv4()}`;
+    const db = await getDatabase();
+    const contracts: string[] = [];
+    const transactions: string[] = [];
+
+    const seed: Seeder = {
+      contract: async (address, fields) => {
+        const id = `${CHAIN_ID}:${address}`;
+        contracts.push(id);
+        await db.put('contract_info', {
+          id,
+          chainId: CHAIN_ID,
+          address,
+          isContract: true,
+          codeHash: ethers.utils.keccak256(fields.code),
+          fetchedAt: Date.now(),
+          ...fields,
+        });
+      },
+      account: async address => {
+        const id = `${CHAIN_ID}:${address}`;
+        contracts.push(id);
+        await db.put('contract_info', { id, chainId: CHAIN_ID, address, isContract: false, fetchedAt: Date.now() });
+      },
+      transaction: async (from, to) => {
+        const hash = ethers.utils.hexlify(ethers.utils.randomBytes(32));
+        transactions.push(hash);
+        await db.put('transactions', {
+          hash,
+          from,
+          to,
+          value: '0',
+          timestamp: Date.now(),
+          status: 'confirmed',
+          chainId: CHAIN_ID,
+        });
+      },
+    };
+
+    try {
+      return await body(tenantId, seed);
+    } finally {
+      for (const entry of await addressReputation.listEntries(tenantId)) {
+        await db.delete('address_lists', entry.id);
+      }
+      for (const id of contracts) {
+        await db.delete('contract_info', id);
+      }
+      for (const hash of transactions) {
+        await db.delete('transactions', hash);
+      }
+    }
+  });
+
+/**
+ * Run tests in order and summarize them
+ * @param name Suite name
+ * @param tests Tests
+ */
+const runSuite = async (name: string, tests: (() => Promise<TestResult>)[]): Promise<TestSuiteResult> => {
+  const startTime = Date.now();
+  const results: TestResult[] = [];
+
+  for (const test of tests) {
+    results.push(await test());
+  }
+
+  const passed = results.filter(t => t.success).length;
+  const failed = results.length - passed;
+  logger.info(`${name}: ${passed} passed, ${failed} failed`);
+
+  return {
+    name,
+    tests: results,
+    passed,
+    failed,
+    duration: Date.now() - startTime,
+    timestamp: Date.now(),
+  };
+};
+
+/**
+ * Run a test body and time it
+ * @param name Test name
+ * @param body Test body, returning details
+ */
+const runTest = async (name: string, body: () => Promise<Record<string, any> | void>): Promise<TestResult> => {
+  const startTime = Date.now();
+  try {
+    const details = await body();
+    return { name, success: true, duration: Date.now() - startTime, details: details || undefined };
+  } catch (error) {
+    logger.error(`Test ${name} failed:`, error);
+    return { name, success: false, error: String(error), duration: Date.now() - startTime };
+  }
+};
+
+/**
+ * Fail unless a condition holds
+ * @param condition Condition
+ * @param message Failure message
+ */
+const assert = (condition: unknown, message: string): void => {
+  if (!condition) {
+    throw new Error(message);
+  }
+};
+
+if (require.main === module) {
+  runReputationTests()
+    .then(results => {
+      const suites = Object.values(results);
+      for (const suite of suites) {
+        for (const test of suite.tests) {
+          console.log(`[${test.success ? 'PASS' : 'FAIL'}] ${suite.name} - ${test.name}${test.error ? `: ${test.error}` : ''}`);
+        }
+      }
+      process.exit(suites.some(suite => suite.failed > 0) ? 1 : 0);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,333 @@
+import { ethers } from 'ethers';
+import { logger } from '../../utils/logger';
+import { getDatabase } from '../../config/database';
+import { SessionError, SessionService } from '../../services/sessions';
+
+/**
+ * Session and refresh token tests: rotation, reuse detection, expiry and
+ * revocation. Sessions are created for new addresses in the database
+ * configured for the backend, and revoked and deleted after the run.
+ *
+ * Run with `npm run test:sessions`.
+ */
+
+// Test result
+interface TestResult {
+  name: string;
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+  duration: number; // milliseconds
+  details?: Record<string, any>;
+}
+
+// Test suite result
+interface TestSuiteResult {
+  name: string;
+  tests: TestResult[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number; // milliseconds
+  timestamp: number;
+}
+
+const SESSION_OPTIONS = {
+  refreshTokenTtlMs: 60 * 1000,
+  maxAgeMs: 60 * 60 * 1000,
+};
+
+const CONTEXT = {
+  ipAddress: '203.0.113.7',
+  userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) Firefox/128.0',
+};
+
+/**
+ * Run every session test suite
+ * @returns Results by suite
+ */
+export const runSessionTests = async (): Promise<Record<string, TestSuiteResult>> => {
+  const service = new SessionService(SESSION_OPTIONS);
+  const userIds: string[] = [];
+
+  try {
+    return {
+      rotation: await runSuite('Refresh Token Rotation', [
+        () => testRotation(service, userIds),
+        () => testReuse(service, userIds),
+        () => testConcurrentRotation(service, userIds),
+        () => testExpiry(userIds),
+      ]),
+      revocation: await runSuite('Session Revocation', [
+        () => testRevocation(service, userIds),
+        () => testRevokeAll(service, userIds),
+        () => testRevocationRaces(service, userIds),
+      ]),
+    };
+  } finally {
+    await removeSessions(userIds);
+  }
+};
+
+const testRotation = (service: SessionService, userIds: string[]): Promise<TestResult> =>
+  runTest('Rotation', async () => {
+    const grant = await service.createSession(newUser(userIds), false, CONTEXT);
+    assert(grant.session.device === 'Firefox on macOS', `Unexpected device ${grant.session.device}`);
+
+    let refreshToken = grant.refreshToken;
+    for (let i = 0; i < 3; i++) {
+      const next = await service.rotateRefreshToken(refreshToken);
+      assert(next.session.id === grant.session.id, 'Rotation should keep the session');
+      assert(next.refreshToken !== refreshToken, 'Rotation should issue a new token');
+      refreshToken = next.refreshToken;
+    }
+
+    const error = await rejection(service.rotateRefreshToken('not-a-token'));
+    assert(error === 'Invalid refresh token', `Unknown token should be refused, got: ${error}`);
+    return { sessionId: grant.session.id };
+  });
+
+const testReuse = (service: SessionService, userIds: string[]): Promise<TestResult> =>
+  runTest('Reuse Detection', async () => {
+    const grant = await service.createSession(newUser(userIds), false, CONTEXT);
+    const next = await service.rotateRefreshToken(grant.refreshToken);
+
+    // A stolen copy of the first token is presented after the owner rotated it
+    const error = await rejection(service.rotateRefreshToken(grant.refreshToken));
+    assert(error.includes('already been used'), `Reused token should be refused, got: ${error}`);
+
+    const session = await service.getSession(grant.session.id);
+    assert(session?.status === 'revoked', 'Reuse should revoke the session');
+    assert(session?.revokeReason === 'refresh_token_reuse', `Unexpected reason ${session?.revokeReason}`);
+
+    // The whole family is gone, including the token the owner holds
+    const latest = await rejection(service.rotateRefreshToken(next.refreshToken));
+    assert(latest === 'Invalid refresh token', `Latest token should be gone, got: ${latest}`);
+    assert(!(await service.touchSession(grant.session.id)), 'Revoked session should not be usable');
+  });
+
+const testConcurrentRotation = (service: SessionService, userIds: string[]): Promise<TestResult> =>
+  runTest('Concurrent Rotation', async () => {
+    const grant = await service.createSession(newUser(userIds), false, CONTEXT);
+
+    // Two clients racing with the same token: the second one is a reuse
+    const results = await Promise.allSettled([
+      service.rotateRefreshToken(grant.refreshToken),
+      service.rotateRefreshToken(grant.refreshToken),
+    ]);
+    const rotated = results.filter(result => result.status === 'fulfilled').length;
+    assert(rotated === 1, `Exactly one rotation should succeed, ${rotated} did`);
+
+    const session = await service.getSession(grant.session.id);
+    assert(session?.status === 'revoked', 'The losing rotation should revoke the session');
+    return { rotated };
+  });
+
+const testExpiry = (userIds: string[]): Promise<TestResult> =>
+  runTest('Session Lifetime', async () => {
+    // Refresh tokens cannot outlive the session
+    const service = new SessionService({ ...SESSION_OPTIONS, maxAgeMs: 50 });
+    const grant = await service.createSession(newUser(userIds), false, CONTEXT);
+    assert(grant.refreshTokenExpiresAt === grant.session.expiresAt, 'Token should expire with the session');
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    const error = await rejection(service.rotateRefreshToken(grant.refreshToken));
+    assert(error === 'Refresh token has expired', `Expired token should be refused, got: ${error}`);
+    assert(!(await service.touchSession(grant.session.id)), 'Expired session should not be usable');
+  });
+
+const testRevocation = (service: SessionService, userIds: string[]): Promise<TestResult> =>
+  runTest('Revocation', async () => {
+    const userId = newUser(userIds);
+    const grant = await service.createSession(userId, false, CONTEXT);
+    assert(await service.touchSession(grant.session.id), 'New session should be usable');
+
+    assert(await service.revokeSession(grant.session.id, userId, 'logout'), 'Active session should be revoked');
+    assert(!(await service.revokeSession(grant.session.id, userId, 'logout')), 'Revoked session is revoked only once');
+
+    const error = await rejection(service.rotateRefreshToken(grant.refreshToken));
+    assert(error === 'Invalid refresh token', `Token of a revoked session should be gone, got: ${error}`);
+    assert(!(await service.touchSession(grant.session.id)), 'Revoked session should not be usable');
+  });
+
+const testRevokeAll = (service: SessionService, userIds: string[]): Promise<TestResult> =>
+  runTest('Revoke Other Sessions', async () => {
+    const userId = newUser(userIds);
+    const grants = [];
+    for (let i = 0; i < 3; i++) {
+      grants.push(await service.createSession(userId, false, CONTEXT));
+    }
+    const current = grants[0].session.id;
+
+    const revoked = await service.revokeAllSessions(userId, userId, 'logout_others', current);
+    assert(revoked === 2, `Expected 2 sessions revoked, got ${revoked}`);
+
+    const remaining = await service.listSessions(userId);
+    assert(remaining.length === 1 && remaining[0].id === current, 'Only the current session should remain');
+    return { revoked };
+  });
+
+const testRevocationRaces = (service: SessionService, userIds: string[]): Promise<TestResult> =>
+  runTest('Revocation During Rotation', async () => {
+    const db = await getDatabase();
+
+    for (let i = 0; i < 5; i++) {
+      const userId = newUser(userIds);
+      const grant = await service.createSession(userId, false, CONTEXT);
+
+      // Signing out everywhere while a client rotates must leave nothing usable
+      const [rotation] = await Promise.allSettled([
+        service.rotateRefreshToken(grant.refreshToken),
+        service.revokeAllSessions(userId, userId, 'logout_all'),
+      ]);
+      const session = await service.getSession(grant.session.id);
+      assert(session?.status === 'revoked', `Run ${i}: the session should stay revoked`);
+      if (rotation.status === 'fulfilled') {
+        const error = await rejection(service.rotateRefreshToken(rotation.value.refreshToken));
+        assert(error === 'Invalid refresh token', `Run ${i}: the rotated token should be gone, got: ${error}`);
+      }
+
+      // A last seen update racing a revocation must not write the session back
+      const other = await service.createSession(userId, false, CONTEXT);
+      await db.put('auth_sessions', { ...other.session, lastSeenAt: 0 });
+      await Promise.all([
+        service.touchSession(other.session.id),
+        service.revokeSession(other.session.id, userId, 'logout'),
+      ]);
+      const touched = await service.getSession(other.session.id);
+      assert(touched?.status === 'revoked', `Run ${i}: touching should not undo the revocation`);
+      assert(!(await service.touchSession(other.session.id)), `Run ${i}: the revoked session should not be usable`);
+    }
+  });
+
+/**
+ * Pick a new user address and remember it for clean-up
+ * @param userIds Users created by the run
+ */
+const newUser = (userIds: string[]): string => {
+  const userId = ethers.Wallet.createRandom().address.toLowerCase();
+  userIds.push(userId);
+  return userId;
+};
+
+/**
+ * Delete the sessions and refresh tokens of the test users
+ * @param userIds Users created by the run
+ */
+const removeSessions = async (userIds: string[]): Promise<void> => {
+  const db = await getDatabase();
+  for (const userId of userIds) {
+    for (const session of await db.getAllFromIndex('auth_sessions', 'by-user', userId)) {
+      for (const token of await db.getAllFromIndex('refresh_tokens', 'by-session', session.id)) {
+        await db.delete('refresh_tokens', token.tokenHash);
+      }
+      await db.delete('auth_sessions', session.id);
+    }
+  }
+};
+
+/**
+ * Message of the SessionError a call fails with
+ * @param call Pending call
+ * @throws Error if it succeeds or fails with another error
+ */
+const rejection = async (call: Promise<unknown>): Promise<string> => {
+  try {
+    await call;
+  } catch (error) {
+    if (!(error instanceof SessionError)) {
+      throw error;
+    }
+    return error.message;
+  }
+  throw new Error('Call should have failed');
+};
+
+/**
+ * Run a suite of tests in order
+ * @param name Suite name
+ * @param tests Tests
+ */
+const runSuite = async (name: string, tests: (() => Promise<TestResult>)[]): Promise<TestSuiteResult> => {
+  const startTime = Date.now();
+  const results: TestResult[] = [];
+
+  for (const test of tests) {
+    results.push(await test());
+  }
+
+  const passed = results.filter(t => t.success).length;
+  const skipped = results.filter(t => t.skipped).length;
+  const failed = results.length - passed - skipped;
+  logger.info(`${name}: ${passed} passed, ${failed} failed, ${skipped} skipped`);
+
+  return {
+    name,
+    tests: results,
+    passed,
+    failed,
+    skipped,
+    duration: Date.now() - startTime,
+    timestamp: Date.now(),
+  };
+};
+
+/**
+ * Summary of a suite that could not run
+ * @param name Suite name
+ * @param reason Why it was skipped
+ */
+const skippedSuite = (name: string, reason: string): TestSuiteResult => ({
+  name,
+  tests: [{ name: 'All', success: false, skipped: true, error: reason, duration: 0 }],
+  passed: 0,
+  failed: 0,
+  skipped: 1,
+  duration: 0,
+  timestamp: Date.now(),
+});
+
+/**
+ * Run a test body and time it
+ * @param name Test name
+ * @param body Test body, returning details
+ */
+const runTest = async (name: string, body: () => Promise<Record<string, any> | void>): Promise<TestResult> => {
+  const startTime = Date.now();
+  try {
+    const details = await body();
+    return { name, success: true, duration: Date.now() - startTime, details: details || undefined };
+  } catch (error) {
+    logger.error(`Test ${name} failed:`, error);
+    return { name, success: false, error: String(error), duration: Date.now() - startTime };
+  }
+};
+
+/**
+ * Fail unless a condition holds
+ * @param condition Condition
+ * @param message Failure message
+ */
+const assert = (condition: unknown, message: string): void => {
+  if (!condition) {
+    throw new Error(message);
+  }
+};
+
+if (require.main === module) {
+  runSessionTests()
+    .then(results => {
+      const suites = Object.values(results);
+      for (const suite of suites) {
+        for (const test of suite.tests) {
+          const status = test.skipped ? 'SKIP' : test.success ? 'PASS' : 'FAIL';
+          console.log(`[${status}] ${suite.name} - ${test.name}${test.error ? `: ${test.error}` : ''}`);
+        }
+      }
+      process.exit(suites.some(suite => suite.failed > 0) ? 1 : 0);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,358 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { logger } from '../../utils/logger';
+import { ChainRegistry } from '../../services/chain-registry';
+import { buildSiweMessage, parseSiweMessage, SiweError, SiweService } from '../../services/siwe';
+
+/**
+ * Sign-In with Ethereum tests. The nonce tests sign with new keys and need
+ * the database configured for the backend. The contract wallet tests need an
+ * Anvil or Hardhat node at SIWE_TEST_RPC_URL (default http://127.0.0.1:8545),
+ * where they deploy a wallet that accepts every signature through ERC-1271
+ * with the node's first unlocked account; they are skipped when no node
+ * answers. Both read their chain from a throwaway chain registry.
+ *
+ * Run with `npm run test:siwe`.
+ */
+
+// Test result
+interface TestResult {
+  name: string;
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+  duration: number; // milliseconds
+  details?: Record<string, any>;
+}
+
+// Test suite result
+interface TestSuiteResult {
+  name: string;
+  tests: TestResult[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number; // milliseconds
+  timestamp: number;
+}
+
+// Service under test and the chain it signs in on
+interface SiweFixture {
+  service: SiweService;
+  registry: ChainRegistry;
+  chainId: number;
+}
+
+const RPC_URL = process.env.SIWE_TEST_RPC_URL || 'http://127.0.0.1:8545';
+const CONNECT_TIMEOUT_MS = 3000;
+
+// Chain of the nonce tests, which never reach a node
+const OFFLINE_CHAIN_ID = 31337;
+
+const DOMAIN = 'wallet.test';
+
+const SERVICE_OPTIONS = {
+  domains: [DOMAIN],
+  statement: 'Sign in to the test wallet',
+  nonceTtlMs: 60 * 1000,
+  clockSkewMs: 60 * 1000,
+};
+
+// Contract returning the ERC-1271 magic value to every call
+const ERC1271_WALLET_INITCODE = '0x6010600c60003960106000f3631626ba7e60e01b60005260206000f3';
+
+/**
+ * Run every SIWE test suite
+ * @returns Results by suite
+ */
+export const runSiweTests = async (): Promise<Record<string, TestSuiteResult>> => {
+  const registryFiles: string[] = [];
+  try {
+    const offline = createFixture(OFFLINE_CHAIN_ID, registryFiles);
+    const nonces = await runSuite('Nonces', [
+      () => testSignIn(offline),
+      () => testReplay(offline),
+      () => testForeignNonce(offline),
+      () => testDomain(offline),
+      () => testExpiredNonce(offline),
+    ]);
+
+    const provider = await connect();
+    if (!provider) {
+      return { nonces, contracts: skippedSuite('Contract Wallets', `No node answers at ${RPC_URL}`) };
+    }
+
+    const online = createFixture((await provider.getNetwork()).chainId, registryFiles);
+    const contracts = await runSuite('Contract Wallets', [
+      () => testContractWallet(online, provider),
+      () => testInvalidSignature(online),
+    ]);
+    return { nonces, contracts };
+  } finally {
+    for (const file of registryFiles) {
+      fs.rmSync(file, { force: true });
+    }
+  }
+};
+
+const testSignIn = (fixture: SiweFixture): Promise<TestResult> =>
+  runTest('Sign In', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const challenge = await fixture.service.createChallenge(wallet.address, fixture.chainId, `https://${DOMAIN}`);
+
+    const message = await fixture.service.verify(challenge.message, await wallet.signMessage(challenge.message));
+    assert(message.address === wallet.address, `Expected ${wallet.address}, got ${message.address}`);
+    assert(message.nonce === challenge.nonce, 'Message should carry the issued nonce');
+    assert(
+      message.domain === DOMAIN && message.uri === `https://${DOMAIN}`,
+      'Message should name the requesting origin'
+    );
+    return { nonce: challenge.nonce };
+  });
+
+const testReplay = (fixture: SiweFixture): Promise<TestResult> =>
+  runTest('Replayed Message', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const challenge = await fixture.service.createChallenge(wallet.address, fixture.chainId);
+    const signature = await wallet.signMessage(challenge.message);
+
+    await fixture.service.verify(challenge.message, signature);
+    const error = await rejection(fixture.service.verify(challenge.message, signature));
+    assert(error.includes('Unknown or already used nonce'), `Replay should be refused, got: ${error}`);
+
+    // Concurrent attempts with a fresh nonce: exactly one consumes it
+    const next = await fixture.service.createChallenge(wallet.address, fixture.chainId);
+    const nextSignature = await wallet.signMessage(next.message);
+    const results = await Promise.allSettled([1, 2, 3].map(() => fixture.service.verify(next.message, nextSignature)));
+    const accepted = results.filter(result => result.status === 'fulfilled').length;
+    assert(accepted === 1, `Exactly one concurrent attempt should succeed, ${accepted} did`);
+    return { accepted };
+  });
+
+const testForeignNonce = (fixture: SiweFixture): Promise<TestResult> =>
+  runTest('Nonce of Another Address', async () => {
+    const victim = ethers.Wallet.createRandom();
+    const attacker = ethers.Wallet.createRandom();
+    const challenge = await fixture.service.createChallenge(victim.address, fixture.chainId);
+
+    // The attacker signs the victim's challenge rewritten with its own address
+    const forged = buildSiweMessage({ ...parseSiweMessage(challenge.message), address: attacker.address });
+    const error = await rejection(fixture.service.verify(forged, await attacker.signMessage(forged)));
+    assert(error.includes('different address'), `Foreign nonce should be refused, got: ${error}`);
+
+    // The attempt burned the nonce, so the victim needs a new challenge
+    const genuine = await victim.signMessage(challenge.message);
+    const burned = await rejection(fixture.service.verify(challenge.message, genuine));
+    assert(burned.includes('Unknown or already used nonce'), `Burned nonce should be refused, got: ${burned}`);
+  });
+
+const testDomain = (fixture: SiweFixture): Promise<TestResult> =>
+  runTest('Unaccepted Domain', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const challenge = await fixture.service.createChallenge(wallet.address, fixture.chainId);
+
+    const phishing = buildSiweMessage({
+      ...parseSiweMessage(challenge.message),
+      domain: 'wallet.phish',
+      uri: 'https://wallet.phish',
+    });
+    const error = await rejection(fixture.service.verify(phishing, await wallet.signMessage(phishing)));
+    assert(error.includes('is not accepted'), `Foreign domain should be refused, got: ${error}`);
+
+    // Messages are checked before their nonce is consumed
+    const message = await fixture.service.verify(challenge.message, await wallet.signMessage(challenge.message));
+    assert(message.nonce === challenge.nonce, 'The genuine message should still be accepted');
+  });
+
+const testExpiredNonce = (fixture: SiweFixture): Promise<TestResult> =>
+  runTest('Expired Nonce', async () => {
+    // The clock skew tolerance keeps the message valid after its nonce expires. The nonce
+    // outlives the pruning that follows its issue, which would make it unknown instead.
+    const service = new SiweService({ ...SERVICE_OPTIONS, nonceTtlMs: 50 }, fixture.registry);
+    const wallet = ethers.Wallet.createRandom();
+    const challenge = await service.createChallenge(wallet.address, fixture.chainId);
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    const error = await rejection(service.verify(challenge.message, await wallet.signMessage(challenge.message)));
+    assert(error.includes('Nonce has expired'), `Expired nonce should be refused, got: ${error}`);
+  });
+
+const testContractWallet = (fixture: SiweFixture, provider: ethers.providers.JsonRpcProvider): Promise<TestResult> =>
+  runTest('ERC-1271 Wallet', async () => {
+    const deployment = await (await provider.getSigner(0).sendTransaction({ data: ERC1271_WALLET_INITCODE })).wait();
+    const wallet = deployment.contractAddress;
+
+    // Any bytes pass, as long as the contract accepts them
+    const challenge = await fixture.service.createChallenge(wallet, fixture.chainId);
+    const message = await fixture.service.verify(challenge.message, '0x1234');
+    assert(message.address === ethers.utils.getAddress(wallet), `Expected ${wallet}, got ${message.address}`);
+    return { wallet };
+  });
+
+const testInvalidSignature = (fixture: SiweFixture): Promise<TestResult> =>
+  runTest('Invalid Signature', async () => {
+    // An account without code signed by another key
+    const wallet = ethers.Wallet.createRandom();
+    const challenge = await fixture.service.createChallenge(wallet.address, fixture.chainId);
+    const signature = await ethers.Wallet.createRandom().signMessage(challenge.message);
+
+    const error = await rejection(fixture.service.verify(challenge.message, signature));
+    assert(error.includes('Invalid signature'), `Foreign signature should be refused, got: ${error}`);
+  });
+
+/**
+ * Create a service reading a throwaway registry that lists the test chain
+ * @param chainId Chain ID
+ * @param files Registry files to remove after the run
+ */
+const createFixture = (chainId: number, files: string[]): SiweFixture => {
+  const registryFile = path.join(os.tmpdir(), `siwe-test-chains-${chainId}-${Date.now()}.json`);
+  fs.writeFileSync(
+    registryFile,
+    JSON.stringify([
+      {
+        chainId,
+        name: 'SIWE test',
+        nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+        rpcUrls: [RPC_URL],
+        blockTime: 1,
+        confirmations: 0,
+      },
+    ])
+  );
+  files.push(registryFile);
+
+  const registry = new ChainRegistry({ filePath: registryFile });
+  return { service: new SiweService(SERVICE_OPTIONS, registry), registry, chainId };
+};
+
+/**
+ * Connect to the test node
+ * @returns Provider, or undefined if no node answers
+ */
+const connect = async (): Promise<ethers.providers.JsonRpcProvider | undefined> => {
+  const provider = new ethers.providers.StaticJsonRpcProvider(RPC_URL);
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      provider.getBlockNumber(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error('timeout')), CONNECT_TIMEOUT_MS);
+      }),
+    ]);
+    return provider;
+  } catch {
+    logger.warn(`No node at ${RPC_URL}, skipping contract wallet tests`);
+    return undefined;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Message of the SiweError a verification fails with
+ * @param verification Pending verification
+ * @throws Error if it succeeds or fails with another error
+ */
+const rejection = async (verification: Promise<unknown>): Promise<string> => {
+  try {
+    await verification;
+  } catch (error) {
+    if (!(error instanceof SiweError)) {
+      throw error;
+    }
+    return error.message;
+  }
+  throw new Error('Verification should have failed');
+};
+
+/**
+ * Run a suite of tests in order
+ * @param name Suite name
+ * @param tests Tests
+ */
+const runSuite = async (name: string, tests: (() => Promise<TestResult>)[]): Promise<TestSuiteResult> => {
+  const startTime = Date.now();
+  const results: TestResult[] = [];
+
+  for (const test of tests) {
+    results.push(await test());
+  }
+
+  const passed = results.filter(t => t.success).length;
+  const skipped = results.filter(t => t.skipped).length;
+  const failed = results.length - passed - skipped;
+  logger.info(`${name}: ${passed} passed, ${failed} failed, ${skipped} skipped`);
+
+  return {
+    name,
+    tests: results,
+    passed,
+    failed,
+    skipped,
+    duration: Date.now() - startTime,
+    timestamp: Date.now(),
+  };
+};
+
+/**
+ * Summary of a suite that could not run
+ * @param name Suite name
+ * @param reason Why it was skipped
+ */
+const skippedSuite = (name: string, reason: string): TestSuiteResult => ({
+  name,
+  tests: [{ name: 'All', success: false, skipped: true, error: reason, duration: 0 }],
+  passed: 0,
+  failed: 0,
+  skipped: 1,
+  duration: 0,
+  timestamp: Date.now(),
+});
+
+/**
+ * Run a test body and time it
+ * @param name Test name
+ * @param body Test body, returning details
+ */
+const runTest = async (name: string, body: () => Promise<Record<string, any> | void>): Promise<TestResult> => {
+  const startTime = Date.now();
+  try {
+    const details = await body();
+    return { name, success: true, duration: Date.now() - startTime, details: details || undefined };
+  } catch (error) {
+    logger.error(`Test ${name} failed:`, error);
+    return { name, success: false, error: String(error), duration: Date.now() - startTime };
+  }
+};
+
+/**
+ * Fail unless a condition holds
+ * @param condition Condition
+ * @param message Failure message
+ */
+const assert = (condition: unknown, message: string): void => {
+  if (!condition) {
+    throw new Error(message);
+  }
+};
+
+if (require.main === module) {
+  runSiweTests()
+    .then(results => {
+      const suites = Object.values(results);
+      for (const suite of suites) {
+        for (const test of suite.tests) {
+          const status = test.skipped ? 'SKIP' : test.success ? 'PASS' : 'FAIL';
+          console.log(`[${status}] ${suite.name} - ${test.name}${test.error ? `: ${test.error}` : ''}`);
+        }
+      }
+      process.exit(suites.some(suite => suite.failed > 0) ? 1 : 0);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
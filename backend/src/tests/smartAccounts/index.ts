@@ -1,5 +1,5 @@
 import { logger } from '../../utils/logger';
-import { SUPPORTED_NETWORKS } from '../../config/networks';
+import chainRegistry from '../../services/chain-registry';
 import { createPublicClient, http, createWalletClient, parseEther } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { smartAccountClients, pimlicoClients, providers } from '../../services/relayer';
@@ -48,8 +48,7 @@ export const initializeTestWallets = async (): Promise<void> => {
   try {
     logger.info('Initializing test wallets...');
     
-    for (const [chainIdStr, network] of Object.entries(SUPPORTED_NETWORKS)) {
-      const chainId = parseInt(chainIdStr);
+    for (const chainId of chainRegistry.getChainIds()) {
       testWallets[chainId] = [];
       
       // Create test wallets for this chain
@@ -80,7 +79,7 @@ export const initializeTestWallets = async (): Promise<void> => {
  */
 const updateWalletBalances = async (chainId: number): Promise<void> => {
   try {
-    const network = SUPPORTED_NETWORKS[chainId.toString()];
+    const network = chainRegistry.getChain(chainId);
     
     if (!network) {
       throw new Error(`Network not found for chain ID ${chainId}`);
@@ -99,10 +98,10 @@ const updateWalletBalances = async (chainId: number): Promise<void> => {
         },
         rpcUrls: {
           default: {
-            http: [network.rpcUrl],
+            http: network.rpcUrls,
           },
           public: {
-            http: [network.rpcUrl],
+            http: network.rpcUrls,
           },
         },
       },
@@ -150,7 +149,7 @@ export const runAllTests = async (): Promise<Record<number, TestSuiteResult>> =>
  */
 export const runTestsForNetwork = async (chainId: number): Promise<TestSuiteResult> => {
   try {
-    const network = SUPPORTED_NETWORKS[chainId.toString()];
+    const network = chainRegistry.getChain(chainId);
     
     if (!network) {
       throw new Error(`Network not found for chain ID ${chainId}`);
@@ -0,0 +1,617 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { ethers } from 'ethers';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../utils/logger';
+import { getDatabase } from '../../config/database';
+import { authenticate, generateToken } from '../../middlewares/auth';
+import { errorHandler } from '../../middlewares/errorHandler';
+import { MFA_SESSION_HEADER } from '../../middlewares/mfa';
+import { walletRouter } from '../../api/wallet';
+import { UserRole } from '../../services/rbac';
+import sessionService from '../../services/sessions';
+import { walletSecurityService } from '../../services/walletSecurity';
+import { mfaService } from '../../services/security/mfaService';
+import { militaryGradeEncryption } from '../../services/security/militaryGradeEncryption';
+import { TSSService } from '../../services/tss/tssService';
+import { LocalTSSNode } from '../../services/tss/node';
+import { ThresholdSigner } from '../../services/tss/thresholdSigner';
+import { ThresholdResharer } from '../../services/tss/thresholdResharer';
+import { InProcessTransport, TSSMessage } from '../../services/tss/transport';
+import { CURVE_ORDER } from '../../services/tss/vss';
+
+/**
+ * Threshold ECDSA tests: distributed key generation, signing that recovers
+ * to the wallet address, share refresh and redistribution. Two nodes share
+ * an in-process transport: the TSS service holds share index 1 and drives
+ * the sessions, a peer node holds indexes 2 to 4. Each holder generates its
+ * Paillier key and proofs on first use, which takes several seconds.
+ *
+ * The wallet route test signs with a TSS wallet through the wallet sign
+ * route, on a server listening on a free local port, as a user with TOTP
+ * enabled.
+ *
+ * Holders are registered, and keys created, in the database configured for
+ * the backend; the suites are skipped if share indexes 1 to 4 are already
+ * registered to other nodes. Test holders, keys, users and share stores are
+ * deleted after the run.
+ *
+ * Run with `npm run test:tss`.
+ */
+
+// Test result
+interface TestResult {
+  name: string;
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+  duration: number; // milliseconds
+  details?: Record<string, any>;
+}
+
+// Test suite result
+interface TestSuiteResult {
+  name: string;
+  tests: TestResult[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number; // milliseconds
+  timestamp: number;
+}
+
+const SERVICE_NODE = { nodeId: 'tss-test-service', shareIndexes: [1] };
+const PEER_NODE = { nodeId: 'tss-test-peer', shareIndexes: [2, 3, 4] };
+const TIMEOUT_MS = 60 * 1000;
+
+// TOTP secret of the route test user, in base32
+const TOTP_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const TOTP_PERIOD_MS = 30 * 1000;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Nodes taking part in the tests
+interface TestNodes {
+  service: TSSService;
+  peer: LocalTSSNode;
+  transport: InProcessTransport;
+  walletId: string;
+  address: string; // Set by key generation
+}
+
+// Response of a test request
+interface TestResponse {
+  status: number;
+  body: any;
+}
+
+/**
+ * Run every TSS test suite
+ * @returns Results by suite
+ */
+export const runTssTests = async (): Promise<Record<string, TestSuiteResult>> => {
+  const conflicts = await conflictingHolders();
+  if (conflicts.length > 0) {
+    const reason = `Share indexes ${conflicts.join(', ')} are registered to other nodes`;
+    return {
+      signing: skippedSuite('Key Generation and Signing', reason),
+      resharing: skippedSuite('Refresh and Resharing', reason),
+      wallet: skippedSuite('Wallet Route', reason),
+    };
+  }
+
+  const shareDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'tss-test-'));
+  const sharePassphrase = crypto.randomBytes(16).toString('hex');
+  const transport = new InProcessTransport();
+  const userIds: string[] = [];
+  let signer: ThresholdSigner | undefined;
+
+  try {
+    const peer = await LocalTSSNode.open({ ...PEER_NODE, shareDirectory, sharePassphrase });
+    signer = new ThresholdSigner(transport, peer, TIMEOUT_MS);
+    const resharer = new ThresholdResharer(transport, peer, TIMEOUT_MS);
+    signer.start();
+    resharer.start();
+
+    const service = TSSService.getInstance();
+    const initialized = await service.initialize({
+      ...SERVICE_NODE,
+      shareDirectory,
+      sharePassphrase,
+      transport,
+      peers: [],
+      tls: { cert: '', key: '', ca: '' },
+      timeoutMs: TIMEOUT_MS,
+    });
+    assert(initialized, 'TSS service failed to initialize');
+
+    const nodes: TestNodes = { service, peer, transport, walletId: `tss-test-${uuidv4()}`, address: '' };
+    return {
+      signing: await runSuite('Key Generation and Signing', [
+        () => testKeyGeneration(nodes),
+        () => testSigning(nodes),
+        () => testTransactionSigning(nodes),
+        () => testSigningSets(nodes),
+        () => testUnauthorizedSessions(nodes),
+      ]),
+      resharing: await runSuite('Refresh and Resharing', [
+        () => testRefresh(nodes),
+        () => testRedistribution(nodes),
+      ]),
+      wallet: await runSuite('Wallet Route', [() => testWalletRoute(userIds)]),
+    };
+  } finally {
+    await signer?.stop();
+    await transport.close();
+    await removeTestRecords(userIds);
+    fs.rmSync(shareDirectory, { recursive: true, force: true });
+  }
+};
+
+const testKeyGeneration = (nodes: TestNodes): Promise<TestResult> =>
+  runTest('Key Generation', async () => {
+    const { service, walletId } = nodes;
+    nodes.address = await service.generateDistributedKey(walletId, 2, 3);
+    assert(ethers.utils.isAddress(nodes.address), 'Key generation should return an address');
+    assert((await service.getPublicKey(walletId)) === nodes.address, 'The key record should hold the address');
+
+    const data = await service.getVerificationData(walletId);
+    assert(data.epoch === 0 && data.threshold === 2, 'A new key should be 2-of-3 at epoch 0');
+    assert(data.participants.join() === '1,2,3', 'Shares 1 to 3 should be dealt');
+    assert(data.publicKey === '0x' + data.commitments[0], 'The public key should be the constant commitment');
+    assert(ethers.utils.computeAddress(data.publicKey) === nodes.address, 'The address should match the public key');
+
+    assert(await service.verifyShare(walletId, 1), 'The service node should hold a valid share 1');
+    assert(!(await service.verifyShare(walletId, 2)), 'The service node should not hold share 2');
+    assert(
+      !(await service.verifyShare(walletId, 2, crypto.randomBytes(31).toString('hex'))),
+      'A random share should not verify'
+    );
+
+    const share = await nodes.peer.loadShare(walletId, 0, 2);
+    assert(share && (await service.verifyShare(walletId, 2, share.share.toString(16))), 'Peer share 2 should verify');
+    await rejects(() => service.generateDistributedKey(walletId, 2, 3), 'A second key for the wallet');
+    await rejects(() => service.generateDistributedKey(`tss-test-${uuidv4()}`, 1, 3), 'A threshold of 1');
+
+    return { address: nodes.address };
+  });
+
+const testSigning = (nodes: TestNodes): Promise<TestResult> =>
+  runTest('Threshold Signing', async () => {
+    const { service, walletId, address } = nodes;
+
+    for (const parties of [[1, 2], [3, 1], [2, 3]]) {
+      const message = `Threshold signature by ${parties.join(' and ')}`;
+      const signature = await service.signMessage(walletId, message, parties);
+      assert(ethers.utils.arrayify(signature).length === 65, 'Signatures should be 65 bytes');
+      assert(
+        ethers.utils.verifyMessage(message, signature) === address,
+        `Signature of shares ${parties.join(', ')} should recover the wallet address`
+      );
+
+      // Ethereum only accepts the lower of s and n - s
+      const { s } = ethers.utils.splitSignature(signature);
+      assert(BigInt(s) <= CURVE_ORDER / BigInt(2), 'Signatures should be low-s');
+    }
+  });
+
+const testTransactionSigning = (nodes: TestNodes): Promise<TestResult> =>
+  runTest('Transaction Signing', async () => {
+    const { service, walletId, address } = nodes;
+    const to = ethers.Wallet.createRandom().address;
+
+    const eip1559 = await service.signTransaction(
+      walletId,
+      {
+        type: 2,
+        chainId: 137,
+        nonce: 7,
+        to,
+        value: ethers.utils.parseEther('0.25'),
+        gasLimit: 21000,
+        maxFeePerGas: ethers.utils.parseUnits('60', 'gwei'),
+        maxPriorityFeePerGas: ethers.utils.parseUnits('30', 'gwei'),
+      },
+      [2, 1]
+    );
+    const parsed = ethers.utils.parseTransaction(eip1559);
+    assert(parsed.from === address && parsed.to === to && parsed.nonce === 7, 'EIP-1559 transaction should recover');
+
+    const legacy = await service.signTransaction(
+      walletId,
+      { from: address, chainId: 1, nonce: 0, to, gasLimit: 21000, gasPrice: ethers.utils.parseUnits('20', 'gwei') },
+      [1, 3]
+    );
+    assert(ethers.utils.parseTransaction(legacy).from === address, 'Legacy transaction should recover');
+
+    await rejects(
+      () => service.signTransaction(walletId, { from: to, chainId: 1, to, gasLimit: 21000 }, [1, 2]),
+      'A transaction from another address'
+    );
+  });
+
+const testSigningSets = (nodes: TestNodes): Promise<TestResult> =>
+  runTest('Signing Sets', async () => {
+    const { service, walletId } = nodes;
+    await rejects(() => service.signMessage(walletId, 'One share', [2]), 'Signing with one share');
+    await rejects(() => service.signMessage(walletId, 'Unknown share', [1, 4]), 'Signing with a share that was not dealt');
+    await rejects(() => service.signMessage(`tss-test-${uuidv4()}`, 'No key', [1, 2]), 'Signing for an unknown wallet');
+  });
+
+const testUnauthorizedSessions = (nodes: TestNodes): Promise<TestResult> =>
+  runTest('Unauthorized Sessions', async () => {
+    const { service, transport, walletId } = nodes;
+    const announcements: TSSMessage[] = [];
+    const stopRecording = transport.subscribe(message => {
+      if (message.type === 'session') {
+        announcements.push(message);
+      }
+    });
+    try {
+      await service.signMessage(walletId, 'Recorded session', [1, 2]);
+    } finally {
+      stopRecording();
+    }
+    assert(announcements.length === 1, 'Signing should announce one session');
+
+    // Parties refuse sessions with no recorded request, and replays of completed ones
+    const forged = {
+      ...announcements[0],
+      sessionId: uuidv4(),
+      payload: { ...announcements[0].payload, digest: ethers.utils.hashMessage('Forged') },
+    };
+    for (const [name, announcement] of [['forged', forged], ['replayed', announcements[0]]] as const) {
+      const replies = await sessionReplies(transport, announcement);
+      assert(!replies.some(message => message.type === 'round1'), `No party should sign a ${name} session`);
+      assert(replies.some(message => message.type === 'abort'), `The peer node should abort a ${name} session`);
+    }
+  });
+
+const testRefresh = (nodes: TestNodes): Promise<TestResult> =>
+  runTest('Refresh', async () => {
+    const { service, peer, walletId, address } = nodes;
+    const before = await service.getVerificationData(walletId);
+    const oldShare = (await peer.loadShare(walletId, 0, 2))!.share;
+
+    const epoch = await service.refreshShares(walletId);
+    const after = await service.getVerificationData(walletId);
+    assert(epoch === 1 && after.epoch === 1, 'Refreshing should start epoch 1');
+    assert(after.commitments[0] === before.commitments[0], 'Refreshing should keep the public key');
+    assert(after.commitments[1] !== before.commitments[1], 'Refreshing should change the other commitments');
+    assert((await service.getPublicKey(walletId)) === address, 'Refreshing should keep the address');
+
+    const newShare = await peer.loadShare(walletId, 1, 2);
+    assert(newShare && newShare.share !== oldShare, 'Share 2 should change');
+    assert(!(await peer.loadShare(walletId, 0, 2)), 'Shares of the old epoch should no longer load');
+    assert(!(await service.verifyShare(walletId, 2, oldShare.toString(16))), 'The old share should not verify');
+
+    const signature = await service.signMessage(walletId, 'After refresh', [3, 1]);
+    assert(ethers.utils.verifyMessage('After refresh', signature) === address, 'Refreshed shares should sign');
+  });
+
+const testRedistribution = (nodes: TestNodes): Promise<TestResult> =>
+  runTest('Redistribution', async () => {
+    const { service, walletId, address } = nodes;
+    const before = await service.getVerificationData(walletId);
+
+    await rejects(() => service.reshare(walletId, 3, 4, [2]), 'Resharing with fewer shares than the threshold');
+
+    const epoch = await service.reshare(walletId, 3, 4, [2, 3]);
+    const after = await service.getVerificationData(walletId);
+    assert(epoch === 2 && after.threshold === 3, 'Resharing should start a 3-of-4 epoch 2');
+    assert(after.participants.join() === '1,2,3,4', 'Shares 1 to 4 should be dealt');
+    assert(after.commitments.length === 3, 'The commitments should have the new degree');
+    assert(after.commitments[0] === before.commitments[0], 'Resharing should keep the public key');
+
+    for (const index of [1, 2, 3, 4]) {
+      assert(await verifyAnyShare(nodes, index), `New share ${index} should verify`);
+    }
+
+    const signature = await service.signMessage(walletId, 'After resharing', [4, 1, 3]);
+    assert(ethers.utils.verifyMessage('After resharing', signature) === address, 'The new shares should sign');
+    await rejects(() => service.signMessage(walletId, 'Old threshold', [1, 2]), 'Signing with the old threshold');
+  });
+
+const testWalletRoute = (userIds: string[]): Promise<TestResult> =>
+  runTest('Signing After MFA', async () => {
+    const userId = ethers.Wallet.createRandom().address.toLowerCase();
+    userIds.push(userId);
+
+    const db = await getDatabase();
+    await db.put('user_roles', { id: userId, userId, role: UserRole.USER, assignedAt: Date.now() });
+    await db.put('mfa_configs', {
+      userId,
+      totpEnabled: true,
+      totpSecret: await militaryGradeEncryption.encrypt(TOTP_SECRET, `totp:${userId}`),
+      recoveryCodes: [],
+      lastUpdated: Date.now(),
+    });
+
+    assert(await walletSecurityService.initialize(), 'Wallet security service failed to initialize');
+    const address = await walletSecurityService.createTSSWallet(userId, 2, 3);
+    await db.put('wallets', {
+      address,
+      type: 'smart',
+      chainId: 1,
+      owner: userId,
+      threshold: 2,
+      deployedAt: Date.now(),
+      status: 'active',
+    });
+
+    const { session } = await sessionService.createSession(userId, false);
+    const token = generateToken({ walletAddress: userId, roles: [UserRole.USER], sessionId: session.id });
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/wallet', authenticate, walletRouter);
+    app.use(errorHandler);
+
+    const server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/wallet/${address}/sign`;
+
+    try {
+      const message = 'Signed through the wallet route';
+      const body = { type: 'message', data: { message }, shareIndexes: [1, 2] };
+
+      const challenge = await request(url, token, body);
+      assert(challenge.status === 403 && challenge.body.mfaRequired, `MFA should be asked, got ${challenge.status}`);
+      const { sessionToken } = challenge.body;
+      assert(await mfaService.verifyTOTP(sessionToken, totpCode(TOTP_SECRET, Date.now())), 'Code should be accepted');
+
+      const signed = await request(url, token, body, sessionToken);
+      assert(signed.status === 200, `Signing after MFA should succeed, got ${signed.status}: ${signed.body?.message}`);
+      assert(ethers.utils.verifyMessage(message, signed.body.signature) === address, 'The wallet should have signed');
+
+      // The MFA session authorized one signature
+      const replay = await request(url, token, body, sessionToken);
+      assert(replay.status === 404 && !replay.body.signature, `Reused session should be refused, got ${replay.status}`);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+/**
+ * Publish a session announcement and collect the messages sent for it
+ * @param transport Transport of the nodes
+ * @param announcement Announcement
+ * @returns Messages of the session other than the announcement
+ */
+const sessionReplies = async (transport: InProcessTransport, announcement: TSSMessage): Promise<TSSMessage[]> => {
+  const received: TSSMessage[] = [];
+  const unsubscribe = transport.subscribe(message => {
+    if (message.sessionId === announcement.sessionId && message.type !== 'session') {
+      received.push(message);
+    }
+  });
+  transport.publish(announcement);
+  await new Promise(resolve => setTimeout(resolve, 500));
+  unsubscribe();
+  return received;
+};
+
+/**
+ * Verify a share of the current epoch on whichever node holds it
+ * @param nodes Test nodes
+ * @param index Share index
+ */
+const verifyAnyShare = async (nodes: TestNodes, index: number): Promise<boolean> => {
+  const { epoch } = await nodes.service.getVerificationData(nodes.walletId);
+  const local = await nodes.peer.loadShare(nodes.walletId, epoch, index);
+  return local
+    ? nodes.service.verifyShare(nodes.walletId, index, local.share.toString(16))
+    : nodes.service.verifyShare(nodes.walletId, index);
+};
+
+/**
+ * Share indexes of the test nodes registered to other nodes
+ */
+const conflictingHolders = async (): Promise<number[]> => {
+  const db = await getDatabase();
+  const conflicts: number[] = [];
+  for (const index of [...SERVICE_NODE.shareIndexes, ...PEER_NODE.shareIndexes]) {
+    const holder = await db.get('tss_holders', index);
+    if (holder && holder.nodeId !== SERVICE_NODE.nodeId && holder.nodeId !== PEER_NODE.nodeId) {
+      conflicts.push(index);
+    }
+  }
+  return conflicts;
+};
+
+/**
+ * Call the wallet sign route
+ * @param url Route URL
+ * @param token Access token
+ * @param body JSON body
+ * @param sessionToken MFA session token
+ */
+const request = (url: string, token: string, body: object, sessionToken?: string): Promise<TestResponse> =>
+  new Promise((resolve, reject) => {
+    const payload = JSON.stringify(body);
+    const req = http.request(
+      url,
+      {
+        method: 'POST',
+        headers: {
+          authorization: `Bearer ${token}`,
+          'content-type': 'application/json',
+          'content-length': Buffer.byteLength(payload),
+          ...(sessionToken && { [MFA_SESSION_HEADER]: sessionToken }),
+        },
+      },
+      res => {
+        let data = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => (data += chunk));
+        res.on('end', () => resolve({ status: res.statusCode || 0, body: data ? JSON.parse(data) : undefined }));
+      }
+    );
+    req.on('error', reject);
+    req.end(payload);
+  });
+
+/**
+ * Compute the six-digit TOTP code of a secret, independently of the MFA service
+ * @param secret Base32 secret
+ * @param time Time in milliseconds
+ */
+const totpCode = (secret: string, time: number): string => {
+  let bits = '';
+  for (const char of secret) {
+    bits += BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, '0');
+  }
+  const key = Buffer.from(bits.match(/.{8}/g)!.map(byte => parseInt(byte, 2)));
+
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(time / TOTP_PERIOD_MS)));
+  const hash = crypto.createHmac('sha1', key).update(counter).digest();
+  const code = (hash.readUInt32BE(hash[hash.length - 1] & 0xf) & 0x7fffffff) % 1000000;
+  return code.toString().padStart(6, '0');
+};
+
+/**
+ * Delete the holders, keys and requests of the test nodes, and the wallets,
+ * keys, sessions and MFA and role records of the route test users
+ * @param userIds Users created by the run
+ */
+const removeTestRecords = async (userIds: string[]): Promise<void> => {
+  const db = await getDatabase();
+  const isTestWallet = (walletId: string) =>
+    walletId.startsWith('tss-test-') || userIds.some(userId => walletId.startsWith(`tss-${userId}-`));
+  for (const holder of await db.getAll('tss_holders')) {
+    if (holder.nodeId === SERVICE_NODE.nodeId || holder.nodeId === PEER_NODE.nodeId) {
+      await db.delete('tss_holders', holder.index);
+    }
+  }
+  for (const key of await db.getAll('tss_keys')) {
+    if (isTestWallet(key.walletId)) {
+      await db.delete('tss_keys', key.walletId);
+    }
+  }
+  for (const request of await db.getAll('tss_requests')) {
+    if (isTestWallet(request.walletId)) {
+      await db.delete('tss_requests', request.id);
+    }
+  }
+  for (const userId of userIds) {
+    for (const wallet of await db.getAllFromIndex('wallets', 'by-owner', userId)) {
+      await db.delete('wallets', wallet.address);
+    }
+    for (const session of await db.getAllFromIndex('auth_sessions', 'by-user', userId)) {
+      for (const token of await db.getAllFromIndex('refresh_tokens', 'by-session', session.id)) {
+        await db.delete('refresh_tokens', token.tokenHash);
+      }
+      await db.delete('auth_sessions', session.id);
+    }
+    await db.delete('mfa_configs', userId);
+    await db.delete('user_roles', userId);
+  }
+};
+
+/**
+ * Fail unless a call is rejected
+ * @param call Call expected to fail
+ * @param description What the call does
+ */
+const rejects = async (call: () => Promise<unknown>, description: string): Promise<void> => {
+  try {
+    await call();
+  } catch {
+    return;
+  }
+  throw new Error(`${description} should fail`);
+};
+
+/**
+ * Run a suite of tests in order
+ * @param name Suite name
+ * @param tests Tests
+ */
+const runSuite = async (name: string, tests: (() => Promise<TestResult>)[]): Promise<TestSuiteResult> => {
+  const startTime = Date.now();
+  const results: TestResult[] = [];
+
+  for (const test of tests) {
+    results.push(await test());
+  }
+
+  const passed = results.filter(t => t.success).length;
+  const skipped = results.filter(t => t.skipped).length;
+  const failed = results.length - passed - skipped;
+  logger.info(`${name}: ${passed} passed, ${failed} failed, ${skipped} skipped`);
+
+  return {
+    name,
+    tests: results,
+    passed,
+    failed,
+    skipped,
+    duration: Date.now() - startTime,
+    timestamp: Date.now(),
+  };
+};
+
+/**
+ * Summary of a suite that could not run
+ * @param name Suite name
+ * @param reason Why it was skipped
+ */
+const skippedSuite = (name: string, reason: string): TestSuiteResult => ({
+  name,
+  tests: [{ name: 'All', success: false, skipped: true, error: reason, duration: 0 }],
+  passed: 0,
+  failed: 0,
+  skipped: 1,
+  duration: 0,
+  timestamp: Date.now(),
+});
+
+/**
+ * Run a test body and time it
+ * @param name Test name
+ * @param body Test body, returning details
+ */
+const runTest = async (name: string, body: () => Promise<Record<string, any> | void>): Promise<TestResult> => {
+  const startTime = Date.now();
+  try {
+    const details = await body();
+    return { name, success: true, duration: Date.now() - startTime, details: details || undefined };
+  } catch (error) {
+    logger.error(`Test ${name} failed:`, error);
+    return { name, success: false, error: String(error), duration: Date.now() - startTime };
+  }
+};
+
+/**
+ * Fail unless a condition holds
+ * @param condition Condition
+ * @param message Failure message
+ */
+const assert = (condition: unknown, message: string): void => {
+  if (!condition) {
+    throw new Error(message);
+  }
+};
+
+if (require.main === module) {
+  runTssTests()
+    .then(results => {
+      const suites = Object.values(results);
+      for (const suite of suites) {
+        for (const test of suite.tests) {
+          const status = test.skipped ? 'SKIP' : test.success ? 'PASS' : 'FAIL';
+          console.log(`[${status}] ${suite.name} - ${test.name}${test.error ? `: ${test.error}` : ''}`);
+        }
+      }
+      process.exit(suites.some(suite => suite.failed > 0) ? 1 : 0);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,281 @@
+import { logger } from '../../utils/logger';
+import {
+  combineShares,
+  CURVE_ORDER,
+  deal,
+  Dealing,
+  mod,
+  redistributeShares,
+  refreshShares,
+  scalarFromHex,
+  scalarToHex,
+  shareCommitment,
+  verifyShare,
+} from '../../services/tss/vss';
+
+/**
+ * Feldman VSS tests: share verification, threshold reconstruction, proactive
+ * refresh and redistribution to a new threshold and set of holders. The
+ * tests only use the sharing arithmetic and need no database or nodes.
+ *
+ * Run with `npm run test:vss`.
+ */
+
+// Test result
+interface TestResult {
+  name: string;
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+  duration: number; // milliseconds
+  details?: Record<string, any>;
+}
+
+// Test suite result
+interface TestSuiteResult {
+  name: string;
+  tests: TestResult[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number; // milliseconds
+  timestamp: number;
+}
+
+const SECRET = BigInt('0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318');
+
+/**
+ * Run every VSS test suite
+ * @returns Results by suite
+ */
+export const runVssTests = async (): Promise<Record<string, TestSuiteResult>> => ({
+  sharing: await runSuite('Sharing', [testVerification, testTampering, testReconstruction, testScalars]),
+  resharing: await runSuite('Refresh and Resharing', [testRefresh, testRedistribution, testRedistributionChecks]),
+});
+
+const testVerification = (): Promise<TestResult> =>
+  runTest('Share Verification', async () => {
+    const dealing = deal(SECRET, 3, [1, 2, 3, 4, 5]);
+    assert(dealing.commitments.length === 3, 'A threshold of 3 should commit to 3 coefficients');
+    assert(dealing.shares.size === 5, 'Every index should get a share');
+
+    for (const [index, share] of dealing.shares) {
+      assert(verifyShare(index, share, dealing.commitments), `Share ${index} should verify`);
+    }
+    assert(
+      dealing.commitments[0] === shareCommitment(dealing.commitments, 0),
+      'The commitment at zero should be the public key'
+    );
+  });
+
+const testTampering = (): Promise<TestResult> =>
+  runTest('Tampered Shares and Commitments', async () => {
+    const dealing = deal(SECRET, 3, [1, 2, 3, 4, 5]);
+    const share = dealing.shares.get(2)!;
+
+    assert(!verifyShare(2, mod(share + BigInt(1)), dealing.commitments), 'A modified share should not verify');
+    assert(!verifyShare(3, share, dealing.commitments), 'A share should not verify at another index');
+
+    const other = deal(SECRET, 3, [1, 2, 3, 4, 5]);
+    const mixed = [dealing.commitments[0], other.commitments[1], dealing.commitments[2]];
+    assert(!verifyShare(2, share, mixed), 'A share should not verify against modified commitments');
+    assert(!verifyShare(2, share, other.commitments), 'A share should not verify against another dealing');
+  });
+
+const testReconstruction = (): Promise<TestResult> =>
+  runTest('Threshold Reconstruction', async () => {
+    const dealing = deal(SECRET, 3, [1, 2, 3, 4, 5]);
+
+    for (const subset of [[1, 2, 3], [2, 4, 5], [5, 1, 3]]) {
+      assert(combineShares(pick(dealing, subset)) === SECRET, `Shares ${subset.join(', ')} should give the secret`);
+    }
+    assert(combineShares(pick(dealing, [1, 4])) !== SECRET, 'Fewer shares than the threshold should not');
+
+    assert(rejection(() => deal(SECRET, 6, [1, 2, 3, 4, 5])).includes('Threshold'), 'Threshold above n should fail');
+    assert(rejection(() => deal(SECRET, 2, [1, 1, 2])).includes('distinct'), 'Repeated indexes should fail');
+    assert(rejection(() => deal(SECRET, 2, [0, 1, 2])).includes('positive'), 'Index zero would reveal the secret');
+  });
+
+const testScalars = (): Promise<TestResult> =>
+  runTest('Scalar Encoding', async () => {
+    const hex = scalarToHex(SECRET);
+    assert(hex.length === 64, 'Scalars should be encoded as 32 bytes');
+    assert(scalarFromHex(hex) === SECRET && scalarFromHex('0x' + hex) === SECRET, 'Scalars should round-trip');
+    assert(
+      rejection(() => scalarFromHex(scalarToHex(CURVE_ORDER))).includes('not reduced'),
+      'Unreduced scalars should be rejected'
+    );
+  });
+
+const testRefresh = (): Promise<TestResult> =>
+  runTest('Refresh', async () => {
+    const dealing = deal(SECRET, 3, [1, 2, 3, 4, 5]);
+    const refreshed = refreshShares(dealing.shares, dealing.commitments, 3);
+
+    assert(refreshed.commitments[0] === dealing.commitments[0], 'Refreshing should keep the public key');
+    for (const [index, share] of refreshed.shares) {
+      assert(share !== dealing.shares.get(index), `Share ${index} should change`);
+      assert(verifyShare(index, share, refreshed.commitments), `Refreshed share ${index} should verify`);
+      assert(!verifyShare(index, share, dealing.commitments), `Refreshed share ${index} should not verify as old`);
+    }
+
+    assert(combineShares(pick(refreshed, [2, 3, 5])) === SECRET, 'Refreshed shares should give the secret');
+    const mixed = new Map([
+      [1, dealing.shares.get(1)!],
+      [2, dealing.shares.get(2)!],
+      [3, refreshed.shares.get(3)!],
+    ]);
+    assert(combineShares(mixed) !== SECRET, 'Old and refreshed shares should not combine');
+  });
+
+const testRedistribution = (): Promise<TestResult> =>
+  runTest('Redistribution', async () => {
+    const dealing = deal(SECRET, 2, [1, 2, 3]);
+    const newIndexes = [2, 4, 6, 7, 9];
+    const redistributed = redistributeShares(pick(dealing, [3, 1]), dealing.commitments, 2, 3, newIndexes);
+
+    assert(redistributed.commitments.length === 3, 'The new sharing should have the new threshold');
+    assert(redistributed.commitments[0] === dealing.commitments[0], 'Redistribution should keep the public key');
+    for (const index of newIndexes) {
+      assert(
+        verifyShare(index, redistributed.shares.get(index)!, redistributed.commitments),
+        `New share ${index} should verify`
+      );
+    }
+
+    assert(combineShares(pick(redistributed, [4, 7, 9])) === SECRET, 'New shares should give the secret');
+    assert(combineShares(pick(redistributed, [2, 6])) !== SECRET, 'Two new shares should no longer suffice');
+    const mixed = new Map([
+      [1, dealing.shares.get(1)!],
+      [4, redistributed.shares.get(4)!],
+      [6, redistributed.shares.get(6)!],
+    ]);
+    assert(combineShares(mixed) !== SECRET, 'Old and new shares should not combine');
+
+    // Shrinking the threshold works the same way
+    const shrunk = redistributeShares(pick(redistributed, [2, 6, 9]), redistributed.commitments, 3, 1, [1]);
+    assert(shrunk.shares.get(1) === SECRET, 'A 1-of-1 sharing should hold the secret itself');
+  });
+
+const testRedistributionChecks = (): Promise<TestResult> =>
+  runTest('Redistribution Checks', async () => {
+    const dealing = deal(SECRET, 3, [1, 2, 3, 4]);
+
+    const tooFew = rejection(() => redistributeShares(pick(dealing, [1, 2]), dealing.commitments, 3, 2, [1, 2]));
+    assert(tooFew.includes('at least'), 'Fewer shares than the threshold should fail');
+
+    const forged = pick(dealing, [1, 2, 3]);
+    forged.set(2, mod(forged.get(2)! + BigInt(1)));
+    const mismatch = rejection(() => redistributeShares(forged, dealing.commitments, 3, 2, [1, 2]));
+    assert(mismatch.includes('Share 2'), 'A share that does not match the commitments should fail');
+  });
+
+/**
+ * Shares of some indexes of a dealing
+ * @param dealing Dealing
+ * @param indexes Indexes to take
+ */
+const pick = (dealing: Dealing, indexes: number[]): Map<number, bigint> =>
+  new Map(indexes.map(index => [index, dealing.shares.get(index)!]));
+
+/**
+ * Message of the error a call throws
+ * @param call Call expected to throw
+ */
+const rejection = (call: () => unknown): string => {
+  try {
+    call();
+  } catch (error) {
+    return (error as Error).message;
+  }
+  throw new Error('Call should have failed');
+};
+
+/**
+ * Run a suite of tests in order
+ * @param name Suite name
+ * @param tests Tests
+ */
+const runSuite = async (name: string, tests: (() => Promise<TestResult>)[]): Promise<TestSuiteResult> => {
+  const startTime = Date.now();
+  const results: TestResult[] = [];
+
+  for (const test of tests) {
+    results.push(await test());
+  }
+
+  const passed = results.filter(t => t.success).length;
+  const skipped = results.filter(t => t.skipped).length;
+  const failed = results.length - passed - skipped;
+  logger.info(`${name}: ${passed} passed, ${failed} failed, ${skipped} skipped`);
+
+  return {
+    name,
+    tests: results,
+    passed,
+    failed,
+    skipped,
+    duration: Date.now() - startTime,
+    timestamp: Date.now(),
+  };
+};
+
+/**
+ * Summary of a suite that could not run
+ * @param name Suite name
+ * @param reason Why it was skipped
+ */
+const skippedSuite = (name: string, reason: string): TestSuiteResult => ({
+  name,
+  tests: [{ name: 'All', success: false, skipped: true, error: reason, duration: 0 }],
+  passed: 0,
+  failed: 0,
+  skipped: 1,
+  duration: 0,
+  timestamp: Date.now(),
+});
+
+/**
+ * Run a test body and time it
+ * @param name Test name
+ * @param body Test body, returning details
+ */
+const runTest = async (name: string, body: () => Promise<Record<string, any> | void>): Promise<TestResult> => {
+  const startTime = Date.now();
+  try {
+    const details = await body();
+    return { name, success: true, duration: Date.now() - startTime, details: details || undefined };
+  } catch (error) {
+    logger.error(`Test ${name} failed:`, error);
+    return { name, success: false, error: String(error), duration: Date.now() - startTime };
+  }
+};
+
+/**
+ * Fail unless a condition holds
+ * @param condition Condition
+ * @param message Failure message
+ */
+const assert = (condition: unknown, message: string): void => {
+  if (!condition) {
+    throw new Error(message);
+  }
+};
+
+if (require.main === module) {
+  runVssTests()
+    .then(results => {
+      const suites = Object.values(results);
+      for (const suite of suites) {
+        for (const test of suite.tests) {
+          const status = test.skipped ? 'SKIP' : test.success ? 'PASS' : 'FAIL';
+          console.log(`[${status}] ${suite.name} - ${test.name}${test.error ? `: ${test.error}` : ''}`);
+        }
+      }
+      process.exit(suites.some(suite => suite.failed > 0) ? 1 : 0);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
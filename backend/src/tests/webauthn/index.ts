@@ -0,0 +1,576 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { logger } from '../../utils/logger';
+import { getDatabase } from '../../config/database';
+import {
+  AuthenticationResponseJSON,
+  RegistrationResponseJSON,
+  WebAuthnError,
+  WebAuthnService,
+} from '../../services/webauthn';
+import {
+  FLAG_ATTESTED_CREDENTIAL_DATA,
+  FLAG_USER_PRESENT,
+  FLAG_USER_VERIFIED,
+} from '../../services/webauthn/attestation';
+import { CoseAlgorithm } from '../../services/webauthn/cose';
+
+/**
+ * WebAuthn relying party tests against a software authenticator, which
+ * creates ES256 and Ed25519 credentials, answers ceremonies the way a browser
+ * and security key would, and can be made to misbehave: wrong origin or RP
+ * ID, missing user verification, forged signatures and replayed counters.
+ * Credentials of new users are kept in the database configured for the
+ * backend and deleted after the run.
+ *
+ * Run with `npm run test:webauthn`.
+ */
+
+// Test result
+interface TestResult {
+  name: string;
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+  duration: number; // milliseconds
+  details?: Record<string, any>;
+}
+
+// Test suite result
+interface TestSuiteResult {
+  name: string;
+  tests: TestResult[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number; // milliseconds
+  timestamp: number;
+}
+
+// Relying party of the tests
+const RP_ID = 'wallet.test';
+const ORIGIN = `https://${RP_ID}`;
+
+const SERVICE_OPTIONS = {
+  rpId: RP_ID,
+  rpName: 'Wallet Test',
+  origins: [ORIGIN],
+  challengeTtlMs: 60 * 1000,
+  userVerification: 'required' as const,
+};
+
+// Ways the authenticator or client can deviate from an honest ceremony
+interface CeremonyOverrides {
+  origin?: string;
+  rpId?: string;
+  flags?: number;
+  signCount?: number;
+  forgeSignature?: boolean;
+}
+
+/**
+ * Software authenticator holding one credential, with a browser's client
+ * data handling
+ */
+class SoftwareAuthenticator {
+  public readonly credentialId = crypto.randomBytes(32);
+  public signCount = 0;
+  private readonly privateKey: crypto.KeyObject;
+  private readonly publicKey: crypto.KeyObject;
+
+  constructor(public readonly alg: CoseAlgorithm.ES256 | CoseAlgorithm.EdDSA) {
+    const pair = SoftwareAuthenticator.generateKey(alg);
+    this.privateKey = pair.privateKey;
+    this.publicKey = pair.publicKey;
+  }
+
+  private static generateKey(alg: CoseAlgorithm): crypto.KeyPairKeyObjectResult {
+    return alg === CoseAlgorithm.ES256
+      ? crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+      : crypto.generateKeyPairSync('ed25519');
+  }
+
+  public get id(): string {
+    return this.credentialId.toString('base64url');
+  }
+
+  /**
+   * Answer navigator.credentials.create()
+   * @param challenge Challenge of the registration options
+   * @param fmt Attestation format; packed statements are self attestations
+   * @param overrides Deviations from an honest ceremony
+   */
+  public create(
+    challenge: string,
+    fmt: 'none' | 'packed' = 'none',
+    overrides: CeremonyOverrides = {}
+  ): RegistrationResponseJSON {
+    const clientDataJSON = this.clientData('webauthn.create', challenge, overrides);
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(this.credentialId.length);
+
+    const authData = Buffer.concat([
+      this.authenticatorData(overrides, FLAG_ATTESTED_CREDENTIAL_DATA),
+      Buffer.alloc(16), // AAGUID
+      idLength,
+      this.credentialId,
+      encodeCbor(this.coseKey()),
+    ]);
+
+    const attStmt = new Map<CborInput, CborInput>();
+    if (fmt === 'packed') {
+      attStmt.set('alg', this.alg);
+      attStmt.set('sig', this.sign(Buffer.concat([authData, sha256(clientDataJSON)]), overrides));
+    }
+    const attestationObject = encodeCbor(
+      new Map<CborInput, CborInput>([
+        ['fmt', fmt],
+        ['attStmt', attStmt],
+        ['authData', authData],
+      ])
+    );
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        attestationObject: attestationObject.toString('base64url'),
+        transports: ['usb'],
+      },
+    };
+  }
+
+  /**
+   * Answer navigator.credentials.get()
+   * @param challenge Challenge of the authentication options
+   * @param overrides Deviations from an honest ceremony
+   */
+  public get(challenge: string, overrides: CeremonyOverrides = {}): AuthenticationResponseJSON {
+    const clientDataJSON = this.clientData('webauthn.get', challenge, overrides);
+    const authData = this.authenticatorData(overrides);
+    const signature = this.sign(Buffer.concat([authData, sha256(clientDataJSON)]), overrides);
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        authenticatorData: authData.toString('base64url'),
+        signature: signature.toString('base64url'),
+      },
+    };
+  }
+
+  private clientData(type: string, challenge: string, overrides: CeremonyOverrides): Buffer {
+    return Buffer.from(JSON.stringify({ type, challenge, origin: overrides.origin || ORIGIN, crossOrigin: false }));
+  }
+
+  /**
+   * Authenticator data without attested credential data; bumps the counter
+   * unless a counter is given
+   */
+  private authenticatorData(overrides: CeremonyOverrides, extraFlags = 0): Buffer {
+    const signCount = overrides.signCount ?? ++this.signCount;
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(signCount);
+
+    const flags = (overrides.flags ?? FLAG_USER_PRESENT | FLAG_USER_VERIFIED) | extraFlags;
+    return Buffer.concat([sha256(Buffer.from(overrides.rpId || RP_ID)), Buffer.from([flags]), counter]);
+  }
+
+  /**
+   * Sign with the credential key, or with a new key of the same type when forging
+   */
+  private sign(data: Buffer, overrides: CeremonyOverrides): Buffer {
+    const key = overrides.forgeSignature ? SoftwareAuthenticator.generateKey(this.alg).privateKey : this.privateKey;
+    return this.alg === CoseAlgorithm.ES256 ? crypto.sign('sha256', data, key) : crypto.sign(null, data, key);
+  }
+
+  private coseKey(): Map<CborInput, CborInput> {
+    const jwk = this.publicKey.export({ format: 'jwk' });
+    const x = Buffer.from(jwk.x!, 'base64url');
+    return this.alg === CoseAlgorithm.ES256
+      ? new Map<CborInput, CborInput>([
+          [1, 2], // kty: EC2
+          [3, CoseAlgorithm.ES256],
+          [-1, 1], // crv: P-256
+          [-2, x],
+          [-3, Buffer.from(jwk.y!, 'base64url')],
+        ])
+      : new Map<CborInput, CborInput>([
+          [1, 1], // kty: OKP
+          [3, CoseAlgorithm.EdDSA],
+          [-1, 6], // crv: Ed25519
+          [-2, x],
+        ]);
+  }
+}
+
+// Values the test CBOR encoder writes
+type CborInput = number | string | Buffer | Map<CborInput, CborInput>;
+
+/**
+ * Encode a value as CBOR (RFC 8949); the backend only decodes
+ * @param value Integer, text, byte string or map
+ */
+const encodeCbor = (value: CborInput): Buffer => {
+  const head = (major: number, length: number): Buffer => {
+    if (length < 24) {
+      return Buffer.from([(major << 5) | length]);
+    }
+    const size = length < 0x100 ? 1 : length < 0x10000 ? 2 : 4;
+    const header = Buffer.alloc(1 + size);
+    header[0] = (major << 5) | (size === 1 ? 24 : size === 2 ? 25 : 26);
+    header.writeUIntBE(length, 1, size);
+    return header;
+  };
+
+  if (typeof value === 'number') {
+    return value >= 0 ? head(0, value) : head(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const text = Buffer.from(value, 'utf8');
+    return Buffer.concat([head(3, text.length), text]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([head(2, value.length), value]);
+  }
+  const entries = [...value].map(([key, item]) => Buffer.concat([encodeCbor(key), encodeCbor(item)]));
+  return Buffer.concat([head(5, value.size), ...entries]);
+};
+
+const sha256 = (data: Buffer): Buffer => crypto.createHash('sha256').update(data).digest();
+
+/**
+ * Run every WebAuthn test suite
+ * @returns Results by suite
+ */
+export const runWebAuthnTests = async (): Promise<Record<string, TestSuiteResult>> => {
+  const service = new WebAuthnService(SERVICE_OPTIONS);
+  const userIds: string[] = [];
+
+  try {
+    return {
+      registration: await runSuite('Registration', [
+        () => testNoneAttestation(service, userIds),
+        () => testPackedSelfAttestation(service, userIds),
+        () => testRejectedRegistrations(service, userIds),
+      ]),
+      authentication: await runSuite('Authentication', [
+        () => testAssertion(service, userIds),
+        () => testRejectedAssertions(service, userIds),
+        () => testCloneDetection(service, userIds),
+        () => testSessionBinding(service, userIds),
+      ]),
+    };
+  } finally {
+    await removeUsers(userIds);
+  }
+};
+
+const testNoneAttestation = (service: WebAuthnService, userIds: string[]): Promise<TestResult> =>
+  runTest('ES256 with None Attestation', async () => {
+    const userId = newUser(userIds);
+    const authenticator = new SoftwareAuthenticator(CoseAlgorithm.ES256);
+
+    const options = await service.createRegistrationOptions(userId);
+    assert(options.rp.id === RP_ID, `Unexpected RP ID ${options.rp.id}`);
+    assert(options.authenticatorSelection.userVerification === 'required', 'User verification should be required');
+
+    const credential = await service.verifyRegistration(userId, authenticator.create(options.challenge), 'Test key');
+    assert(credential.id === authenticator.id && credential.alg === CoseAlgorithm.ES256, 'Credential should be stored');
+    assert(credential.fmt === 'none' && credential.attestationType === 'none', 'Attestation should be none');
+    assert(credential.signCount === 1 && credential.name === 'Test key', 'Counter and name should be recorded');
+
+    const next = await service.createRegistrationOptions(userId);
+    const excluded = next.excludeCredentials.map(credential => credential.id);
+    assert(excluded.includes(authenticator.id), 'Registered key should be excluded');
+
+    // The same authenticator cannot register twice
+    const duplicate = await rejection(service.verifyRegistration(userId, authenticator.create(next.challenge)));
+    assert(duplicate === 'Credential is already registered', `Duplicate should be refused, got: ${duplicate}`);
+  });
+
+const testPackedSelfAttestation = (service: WebAuthnService, userIds: string[]): Promise<TestResult> =>
+  runTest('Ed25519 with Packed Self Attestation', async () => {
+    const userId = newUser(userIds);
+    const authenticator = new SoftwareAuthenticator(CoseAlgorithm.EdDSA);
+
+    const forged = authenticator.create((await service.createRegistrationOptions(userId)).challenge, 'packed', {
+      forgeSignature: true,
+    });
+    const error = await rejection(service.verifyRegistration(userId, forged));
+    assert(error === 'Invalid attestation signature', `Forged attestation should be refused, got: ${error}`);
+
+    const options = await service.createRegistrationOptions(userId);
+    const credential = await service.verifyRegistration(userId, authenticator.create(options.challenge, 'packed'));
+    assert(credential.fmt === 'packed' && credential.attestationType === 'self', 'Attestation should be self');
+    assert(credential.alg === CoseAlgorithm.EdDSA, 'Credential should be Ed25519');
+  });
+
+const testRejectedRegistrations = (service: WebAuthnService, userIds: string[]): Promise<TestResult> =>
+  runTest('Rejected Registrations', async () => {
+    const userId = newUser(userIds);
+    const authenticator = new SoftwareAuthenticator(CoseAlgorithm.ES256);
+    const register = async (overrides: CeremonyOverrides, forUser = userId): Promise<string> => {
+      const { challenge } = await service.createRegistrationOptions(forUser);
+      return rejection(service.verifyRegistration(userId, authenticator.create(challenge, 'none', overrides)));
+    };
+
+    const cases: [string, Promise<string>][] = [
+      [`Origin https://wallet.phish is not accepted`, register({ origin: 'https://wallet.phish' })],
+      ['RP ID hash does not match', register({ rpId: 'wallet.phish' })],
+      ['User was not verified', register({ flags: FLAG_USER_PRESENT })],
+      ['User was not present', register({ flags: FLAG_USER_VERIFIED })],
+      ['Challenge was issued for a different ceremony', register({}, newUser(userIds))],
+    ];
+    for (const [expected, result] of cases) {
+      const error = await result;
+      assert(error === expected, `Expected "${expected}", got: ${error}`);
+    }
+
+    // Each challenge is used once, whatever the outcome
+    const { challenge } = await service.createRegistrationOptions(userId);
+    await service.verifyRegistration(userId, authenticator.create(challenge));
+    const replay = await rejection(service.verifyRegistration(userId, authenticator.create(challenge)));
+    assert(replay === 'Unknown or already used challenge', `Reused challenge should be refused, got: ${replay}`);
+    assert((await service.listCredentials(userId)).length === 1, 'Only the honest registration should be stored');
+  });
+
+const testAssertion = (service: WebAuthnService, userIds: string[]): Promise<TestResult> =>
+  runTest('Assertion', async () => {
+    const { userId, authenticator } = await registeredUser(service, userIds, CoseAlgorithm.ES256);
+
+    for (let i = 0; i < 3; i++) {
+      const options = await service.createAuthenticationOptions(userId);
+      assert(options.allowCredentials.some(allowed => allowed.id === authenticator.id), 'Key should be allowed');
+      const credential = await service.verifyAuthentication(userId, authenticator.get(options.challenge));
+      assert(credential.signCount === authenticator.signCount, 'Counter should follow the authenticator');
+    }
+
+    // Authenticators without a counter always report zero
+    const counterless = newUser(userIds);
+    const eddsa = new SoftwareAuthenticator(CoseAlgorithm.EdDSA);
+    const registration = await service.createRegistrationOptions(counterless);
+    await service.verifyRegistration(counterless, eddsa.create(registration.challenge, 'none', { signCount: 0 }));
+    for (let i = 0; i < 2; i++) {
+      const { challenge } = await service.createAuthenticationOptions(counterless);
+      await service.verifyAuthentication(counterless, eddsa.get(challenge, { signCount: 0 }));
+    }
+    return { signCount: authenticator.signCount };
+  });
+
+const testRejectedAssertions = (service: WebAuthnService, userIds: string[]): Promise<TestResult> =>
+  runTest('Rejected Assertions', async () => {
+    const { userId, authenticator } = await registeredUser(service, userIds, CoseAlgorithm.ES256);
+    const authenticate = async (overrides: CeremonyOverrides): Promise<string> => {
+      const { challenge } = await service.createAuthenticationOptions(userId);
+      return rejection(service.verifyAuthentication(userId, authenticator.get(challenge, overrides)));
+    };
+
+    const forged = await authenticate({ forgeSignature: true });
+    assert(forged === 'Invalid assertion signature', `Forged signature should be refused, got: ${forged}`);
+    const origin = await authenticate({ origin: 'https://wallet.phish' });
+    assert(origin.endsWith('is not accepted'), `Foreign origin should be refused, got: ${origin}`);
+
+    // A captured assertion cannot be replayed
+    const { challenge } = await service.createAuthenticationOptions(userId);
+    const assertion = authenticator.get(challenge);
+    await service.verifyAuthentication(userId, assertion);
+    const replay = await rejection(service.verifyAuthentication(userId, assertion));
+    assert(replay === 'Unknown or already used challenge', `Replay should be refused, got: ${replay}`);
+
+    // Nor can another user's key answer a challenge
+    const other = await registeredUser(service, userIds, CoseAlgorithm.ES256);
+    const options = await service.createAuthenticationOptions(userId);
+    const foreign = await rejection(service.verifyAuthentication(userId, other.authenticator.get(options.challenge)));
+    assert(foreign === 'Unknown credential', `Foreign credential should be refused, got: ${foreign}`);
+  });
+
+const testCloneDetection = (service: WebAuthnService, userIds: string[]): Promise<TestResult> =>
+  runTest('Clone Detection', async () => {
+    const { userId, authenticator } = await registeredUser(service, userIds, CoseAlgorithm.ES256);
+    const first = await service.createAuthenticationOptions(userId);
+    await service.verifyAuthentication(userId, authenticator.get(first.challenge));
+
+    // A clone still at the counter of the original
+    const { challenge } = await service.createAuthenticationOptions(userId);
+    const clone = authenticator.get(challenge, { signCount: authenticator.signCount });
+    const cloned = await rejection(service.verifyAuthentication(userId, clone));
+    assert(cloned.startsWith('Possible cloned authenticator'), `Clone should be detected, got: ${cloned}`);
+
+    const [credential] = await service.listCredentials(userId, true);
+    assert(credential.status === 'suspended', 'Credential should be suspended');
+    const suspended = await rejection(service.createAuthenticationOptions(userId));
+    assert(suspended === 'No passkeys registered', `Suspended credential should not be offered, got: ${suspended}`);
+  });
+
+const testSessionBinding = (service: WebAuthnService, userIds: string[]): Promise<TestResult> =>
+  runTest('MFA Session Binding', async () => {
+    const { userId, authenticator } = await registeredUser(service, userIds, CoseAlgorithm.ES256);
+
+    // A challenge issued for one MFA session answers neither another session nor a plain sign-in
+    for (const sessionId of ['other-session', undefined]) {
+      const { challenge } = await service.createAuthenticationOptions(userId, 'mfa-session');
+      const error = await rejection(service.verifyAuthentication(userId, authenticator.get(challenge), sessionId));
+      assert(error === 'Challenge was issued for a different ceremony', `Unbound use should be refused, got: ${error}`);
+    }
+
+    const { challenge } = await service.createAuthenticationOptions(userId, 'mfa-session');
+    await service.verifyAuthentication(userId, authenticator.get(challenge), 'mfa-session');
+  });
+
+/**
+ * Pick a new user and remember it for clean-up
+ * @param userIds Users created by the run
+ */
+const newUser = (userIds: string[]): string => {
+  const userId = ethers.Wallet.createRandom().address.toLowerCase();
+  userIds.push(userId);
+  return userId;
+};
+
+/**
+ * Create a user with a registered authenticator
+ * @param service Relying party
+ * @param userIds Users created by the run
+ * @param alg Credential algorithm
+ */
+const registeredUser = async (
+  service: WebAuthnService,
+  userIds: string[],
+  alg: CoseAlgorithm.ES256 | CoseAlgorithm.EdDSA
+): Promise<{ userId: string; authenticator: SoftwareAuthenticator }> => {
+  const userId = newUser(userIds);
+  const authenticator = new SoftwareAuthenticator(alg);
+  const { challenge } = await service.createRegistrationOptions(userId);
+  await service.verifyRegistration(userId, authenticator.create(challenge));
+  return { userId, authenticator };
+};
+
+/**
+ * Delete the credentials and challenges of the test users
+ * @param userIds Users created by the run
+ */
+const removeUsers = async (userIds: string[]): Promise<void> => {
+  const db = await getDatabase();
+  for (const userId of userIds) {
+    for (const credential of await db.getAllFromIndex('webauthn_credentials', 'by-user', userId)) {
+      await db.delete('webauthn_credentials', credential.id);
+    }
+  }
+  for (const challenge of await db.getAll('webauthn_challenges')) {
+    if (userIds.includes(challenge.userId)) {
+      await db.delete('webauthn_challenges', challenge.challenge);
+    }
+  }
+};
+
+/**
+ * Message of the WebAuthnError a call fails with
+ * @param call Pending call
+ * @throws Error if it succeeds or fails with another error
+ */
+const rejection = async (call: Promise<unknown>): Promise<string> => {
+  try {
+    await call;
+  } catch (error) {
+    if (!(error instanceof WebAuthnError)) {
+      throw error;
+    }
+    return error.message;
+  }
+  throw new Error('Call should have failed');
+};
+
+/**
+ * Run a suite of tests in order
+ * @param name Suite name
+ * @param tests Tests
+ */
+const runSuite = async (name: string, tests: (() => Promise<TestResult>)[]): Promise<TestSuiteResult> => {
+  const startTime = Date.now();
+  const results: TestResult[] = [];
+
+  for (const test of tests) {
+    results.push(await test());
+  }
+
+  const passed = results.filter(t => t.success).length;
+  const skipped = results.filter(t => t.skipped).length;
+  const failed = results.length - passed - skipped;
+  logger.info(`${name}: ${passed} passed, ${failed} failed, ${skipped} skipped`);
+
+  return {
+    name,
+    tests: results,
+    passed,
+    failed,
+    skipped,
+    duration: Date.now() - startTime,
+    timestamp: Date.now(),
+  };
+};
+
+/**
+ * Summary of a suite that could not run
+ * @param name Suite name
+ * @param reason Why it was skipped
+ */
+const skippedSuite = (name: string, reason: string): TestSuiteResult => ({
+  name,
+  tests: [{ name: 'All', success: false, skipped: true, error: reason, duration: 0 }],
+  passed: 0,
+  failed: 0,
+  skipped: 1,
+  duration: 0,
+  timestamp: Date.now(),
+});
+
+/**
+ * Run a test body and time it
+ * @param name Test name
+ * @param body Test body, returning details
+ */
+const runTest = async (name: string, body: () => Promise<Record<string, any> | void>): Promise<TestResult> => {
+  const startTime = Date.now();
+  try {
+    const details = await body();
+    return { name, success: true, duration: Date.now() - startTime, details: details || undefined };
+  } catch (error) {
+    logger.error(`Test ${name} failed:`, error);
+    return { name, success: false, error: String(error), duration: Date.now() - startTime };
+  }
+};
+
+/**
+ * Fail unless a condition holds
+ * @param condition Condition
+ * @param message Failure message
+ */
+const assert = (condition: unknown, message: string): void => {
+  if (!condition) {
+    throw new Error(message);
+  }
+};
+
+if (require.main === module) {
+  runWebAuthnTests()
+    .then(results => {
+      const suites = Object.values(results);
+      for (const suite of suites) {
+        for (const test of suite.tests) {
+          const status = test.skipped ? 'SKIP' : test.success ? 'PASS' : 'FAIL';
+          console.log(`[${status}] ${suite.name} - ${test.name}${test.error ? `: ${test.error}` : ''}`);
+        }
+      }
+      process.exit(suites.some(suite => suite.failed > 0) ? 1 : 0);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -23,6 +23,7 @@ declare module 'idb' {
       name: K,
       options?: { keyPath?: string; autoIncrement?: boolean }
     ): IDBPObjectStore<T, K>;
+    deleteObjectStore<K extends keyof T>(name: K): void;
     get<K extends keyof T>(
       storeName: K,
       key: T[K]['key']
@@ -115,9 +116,14 @@ declare module 'idb' {
 
   export function openDB<T extends DBSchema>(
     name: string,
-    version: number,
+    version?: number,
     options?: {
-      upgrade?: (db: IDBPDatabase<T>, oldVersion: number, newVersion: number) => void;
+      upgrade?: (
+        db: IDBPDatabase<T>,
+        oldVersion: number,
+        newVersion: number,
+        transaction: IDBPTransaction<T, keyof T>
+      ) => void;
       blocked?: () => void;
       blocking?: () => void;
       terminated?: () => void;
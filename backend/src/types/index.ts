@@ -121,8 +121,6 @@ export interface User {
   username?: string;
   createdAt: number;
   lastLogin?: number;
-  nonce: string;
-  nonceTimestamp?: number;
 }
 
 // Define transaction type
@@ -9,6 +9,7 @@ declare module 'permissionless' {
     userOperation?: any;
   }) => {
     sendTransaction: (params: { to: string; value: bigint; data: string }) => Promise<string>;
+    sendUserOperation: (params: { calls: { to: string; value: bigint; data: string }[] }) => Promise<string>;
   };
   
   export const createPimlicoClient: (config: {
@@ -30,7 +31,10 @@ declare module 'permissionless/accounts' {
     client?: any;
     owners?: any[];
     owner?: any;
-    entryPoint: string;
+    entryPoint: {
+      address: string;
+      version: '0.6' | '0.7';
+    };
     chain?: any;
     bundlerTransport?: any;
     version?: string;
@@ -10,6 +10,7 @@ declare module 'ryzer-sdk' {
     factoryAddress: string;
     entryPointAddress: string;
     paymasterAddress: string;
+    signer?: ethers.Signer;
     privateKey?: string;
   }
 
@@ -90,6 +91,7 @@ declare module 'ryzer-sdk' {
       to: string;
       value: string;
       data: string;
+      allowFailure?: boolean;
     }>): Promise<ethers.ContractTransaction>;
     simulateTransaction(from: string, to: string, data: string, value: string): Promise<SimulationResult>;
   }
@@ -165,8 +167,8 @@ declare module 'ryzer-sdk' {
     readonly utils: any;
 
     constructor(config: RyzerSDKConfig);
-    get privateKey(): string;
-    connect(privateKey: string): RyzerSDK;
+    get signer(): ethers.Signer;
+    connect(signer: ethers.Signer | string): RyzerSDK;
     getWalletAddress(userAddress: string): Promise<string>;
     createWallet(params: CreateWalletParams): Promise<string>;
     signUserOp(userOp: UserOperation): Promise<string>;
@@ -42,15 +42,3 @@ export interface SecurityAudit {
   riskScore: number; // 0-1
   details: Record<string, any>;
 }
-
-export enum SecurityEventType {
-  SUCCESSFUL_AUTH = 'successful_auth',
-  FAILED_AUTH = 'failed_auth',
-  SUSPICIOUS_ACTIVITY = 'suspicious_activity',
-  LOCKDOWN_INITIATED = 'lockdown_initiated',
-  LOCKDOWN_RELEASED = 'lockdown_released',
-  KEY_GENERATION = 'key_generation',
-  KEY_EXPORT = 'key_export',
-  TRANSACTION_SIGNED = 'transaction_signed',
-  MESSAGE_SIGNED = 'message_signed'
-}
@@ -29,8 +29,8 @@ declare global {
 declare module 'ryzer-sdk' {
   export class RyzerSDK {
     provider: ethers.providers.Provider;
-    privateKey?: string;
-    connect(privateKey: string): RyzerSDK;
+    signer: ethers.Signer;
+    connect(signer: ethers.Signer | string): RyzerSDK;
     createWallet(params: any): Promise<string>;
     
     // Modules
@@ -0,0 +1,358 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ShieldAlert, Lock, RefreshCw } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  securityAPI,
+  IncidentDetails,
+  IncidentSeverity,
+  IncidentStatus,
+  SecurityIncident,
+} from '@/services/api';
+import { useWalletStore } from '@/store/useWalletStore';
+
+const STATUS_FILTERS: { label: string; value?: IncidentStatus }[] = [
+  { label: 'Open', value: 'open' },
+  { label: 'Investigating', value: 'investigating' },
+  { label: 'Resolved', value: 'resolved' },
+  { label: 'False positive', value: 'false_positive' },
+  { label: 'All' },
+];
+
+// Status changes the backend allows from each status
+const TRANSITIONS: Record<IncidentStatus, { label: string; value: IncidentStatus }[]> = {
+  open: [
+    { label: 'Investigate', value: 'investigating' },
+    { label: 'Resolve', value: 'resolved' },
+    { label: 'False positive', value: 'false_positive' },
+  ],
+  investigating: [
+    { label: 'Back to open', value: 'open' },
+    { label: 'Resolve', value: 'resolved' },
+    { label: 'False positive', value: 'false_positive' },
+  ],
+  resolved: [{ label: 'Reopen', value: 'open' }],
+  false_positive: [{ label: 'Reopen', value: 'open' }],
+};
+
+const SEVERITIES: IncidentSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+const SEVERITY_STYLES: Record<IncidentSeverity, string> = {
+  low: 'bg-gray-200 text-gray-800',
+  medium: 'bg-yellow-200 text-yellow-800',
+  high: 'bg-orange-200 text-orange-800',
+  critical: 'bg-red-200 text-red-800',
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+export default function SecurityIncidents() {
+  const { address } = useWalletStore();
+  const [status, setStatus] = useState<IncidentStatus | undefined>('open');
+  const [incidents, setIncidents] = useState<SecurityIncident[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [details, setDetails] = useState<IncidentDetails | null>(null);
+  const [comment, setComment] = useState('');
+  const [note, setNote] = useState('');
+  const [justification, setJustification] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadIncidents = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setIncidents(await securityAPI.getIncidents({ status }));
+      setError(null);
+    } catch (error) {
+      console.error('Failed to load incidents:', error);
+      setError('Failed to load incidents');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status]);
+
+  const loadDetails = useCallback(async (incidentId: string) => {
+    try {
+      setDetails(await securityAPI.getIncident(incidentId));
+    } catch (error) {
+      console.error('Failed to load incident:', error);
+      setError('Failed to load incident');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadIncidents();
+  }, [loadIncidents]);
+
+  useEffect(() => {
+    setDetails(null);
+    setComment('');
+    setNote('');
+    setJustification('');
+    if (selectedId) {
+      loadDetails(selectedId);
+    }
+  }, [selectedId, loadDetails]);
+
+  // Run an action on the selected incident, then refresh the queue and the incident
+  const act = async (action: () => Promise<unknown>, failure: string) => {
+    if (!selectedId) return;
+    try {
+      await action();
+      setError(null);
+      await Promise.all([loadIncidents(), loadDetails(selectedId)]);
+    } catch (error: any) {
+      console.error(`${failure}:`, error);
+      setError(error?.response?.data?.message || failure);
+    }
+  };
+
+  const incident = details?.incident;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Security Incidents</h1>
+        <Button variant="outline" size="sm" onClick={loadIncidents}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="flex space-x-2">
+        {STATUS_FILTERS.map((filter) => (
+          <Button
+            key={filter.label}
+            variant={status === filter.value ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setStatus(filter.value)}
+          >
+            {filter.label}
+          </Button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="p-6 lg:col-span-1">
+          <h2 className="text-xl font-semibold mb-4">Queue</h2>
+          {isLoading && <p className="text-muted-foreground">Loading incidents...</p>}
+          {!isLoading && incidents.length === 0 && <p className="text-muted-foreground">No incidents</p>}
+          <ul className="divide-y">
+            {incidents.map((item, index) => (
+              <motion.li
+                key={item.id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.03 }}
+              >
+                <button
+                  className={`w-full text-left py-3 px-2 rounded-md ${item.id === selectedId ? 'bg-primary/10' : 'hover:bg-muted'}`}
+                  onClick={() => setSelectedId(item.id)}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className={`text-xs px-1 rounded ${SEVERITY_STYLES[item.severity]}`}>{item.severity}</span>
+                    <span className="text-xs text-muted-foreground">{formatTime(item.lastEventAt)}</span>
+                  </div>
+                  <p className="font-medium truncate mt-1">{item.title}</p>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {item.userId} · {item.eventIds.length} events · {item.assignee || 'Unassigned'}
+                  </p>
+                </button>
+              </motion.li>
+            ))}
+          </ul>
+        </Card>
+
+        <Card className="p-6 lg:col-span-2">
+          {!incident && (
+            <div className="flex items-center space-x-3 text-muted-foreground">
+              <ShieldAlert className="h-6 w-6" />
+              <p>{selectedId ? 'Loading incident...' : 'Select an incident to review'}</p>
+            </div>
+          )}
+
+          {incident && details && (
+            <div className="space-y-6">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <span className={`text-xs px-1 rounded ${SEVERITY_STYLES[incident.severity]}`}>{incident.severity}</span>
+                  <span className="text-xs bg-muted px-1 rounded">{incident.status.replace('_', ' ')}</span>
+                  <span className="text-xs text-muted-foreground">{incident.source.replace('_', ' ')}</span>
+                </div>
+                <h2 className="text-xl font-semibold mt-2">{incident.title}</h2>
+                <p className="text-sm text-muted-foreground">
+                  User {incident.userId} · Opened {formatTime(incident.openedAt)}
+                  {incident.ruleIds.length > 0 && ` · Rules: ${incident.ruleIds.join(', ')}`}
+                </p>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm">Assignee: {incident.assignee || 'Unassigned'}</span>
+                {address && incident.assignee !== address.toLowerCase() && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      act(() => securityAPI.updateIncident(incident.id, { assignee: address.toLowerCase() }), 'Failed to assign incident')
+                    }
+                  >
+                    Assign to me
+                  </Button>
+                )}
+                {incident.assignee && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => act(() => securityAPI.updateIncident(incident.id, { assignee: null }), 'Failed to unassign incident')}
+                  >
+                    Unassign
+                  </Button>
+                )}
+                <select
+                  value={incident.severity}
+                  onChange={(e) =>
+                    act(
+                      () => securityAPI.updateIncident(incident.id, { severity: e.target.value as IncidentSeverity }),
+                      'Failed to change severity'
+                    )
+                  }
+                  className="p-2 border rounded-md text-sm"
+                >
+                  {SEVERITIES.map((severity) => (
+                    <option key={severity} value={severity}>
+                      {severity}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <input
+                  type="text"
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  className="w-full p-2 border rounded-md"
+                  placeholder="Comment on the status change (optional)"
+                />
+                <div className="flex flex-wrap gap-2">
+                  {TRANSITIONS[incident.status].map((transition) => (
+                    <Button
+                      key={transition.value}
+                      variant="secondary"
+                      size="sm"
+                      onClick={() =>
+                        act(async () => {
+                          await securityAPI.setStatus(incident.id, transition.value, comment.trim() || undefined);
+                          setComment('');
+                        }, 'Failed to change status')
+                      }
+                    >
+                      {transition.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              {details.lockout && (
+                <div className="border border-destructive/50 rounded-md p-4 space-y-2">
+                  <p className="flex items-center font-medium">
+                    <Lock className="h-4 w-4 mr-2" />
+                    Account locked until {formatTime(details.lockout.lockedUntil)}
+                  </p>
+                  <p className="text-sm text-muted-foreground">{details.lockout.reason}</p>
+                  <textarea
+                    value={justification}
+                    onChange={(e) => setJustification(e.target.value)}
+                    className="w-full p-2 border rounded-md"
+                    placeholder="Why may this account be unlocked? (required)"
+                    rows={2}
+                  />
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    disabled={!justification.trim()}
+                    onClick={() => act(() => securityAPI.unlockAccount(incident.id, justification.trim()), 'Failed to unlock account')}
+                  >
+                    Unlock account
+                  </Button>
+                </div>
+              )}
+
+              <div>
+                <h3 className="font-semibold mb-2">Events</h3>
+                <ul className="divide-y text-sm">
+                  {details.events.map((event) => (
+                    <li key={event.id} className="py-2">
+                      <span className="font-medium">{event.eventType}</span> · {event.action} · risk{' '}
+                      {event.riskScore.toFixed(2)} · {formatTime(event.timestamp)}
+                      {event.ipAddress && ` · ${event.ipAddress}`}
+                      {event.detections.map((detection) => (
+                        <p key={detection.ruleId} className="text-muted-foreground">
+                          {detection.ruleId}: {detection.reason}
+                        </p>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div>
+                <h3 className="font-semibold mb-2">Notes</h3>
+                <ul className="space-y-2 text-sm">
+                  {incident.notes.map((item) => (
+                    <li key={item.id}>
+                      <p>{item.body}</p>
+                      <p className="text-muted-foreground">
+                        {item.author} · {formatTime(item.createdAt)}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex space-x-2 mt-2">
+                  <input
+                    type="text"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    className="flex-1 p-2 border rounded-md"
+                    placeholder="Add a note"
+                  />
+                  <Button
+                    size="sm"
+                    disabled={!note.trim()}
+                    onClick={() =>
+                      act(async () => {
+                        await securityAPI.addNote(incident.id, note.trim());
+                        setNote('');
+                      }, 'Failed to add note')
+                    }
+                  >
+                    Add
+                  </Button>
+                </div>
+              </div>
+
+              <div>
+                <h3 className="font-semibold mb-2">Audit trail</h3>
+                <ul className="divide-y text-sm">
+                  {details.auditLogs.map((log) => (
+                    <li key={log.id} className="py-2 flex justify-between">
+                      <span>
+                        {log.action} · {log.performedBy}
+                      </span>
+                      <span className="text-muted-foreground">{formatTime(log.timestamp)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -4,20 +4,24 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
 
 export default function AuthPage() {
   const router = useRouter();
+  const { signIn } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
-  const [authMode, setAuthMode] = useState<'login' | 'register'>('login');
+  const [error, setError] = useState<string | null>(null);
 
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
+    setError(null);
     try {
-      // TODO: Implement actual authentication logic
+      await signIn();
       router.push('/user/dashboard');
     } catch (error) {
       console.error('Authentication failed:', error);
+      setError(error instanceof Error ? error.message : 'Authentication failed');
     } finally {
       setIsLoading(false);
     }
@@ -26,50 +30,21 @@ export default function AuthPage() {
   return (
     <div className="container mx-auto px-4 h-screen flex items-center justify-center">
       <Card className="w-full max-w-md p-6 space-y-6">
-        <h1 className="text-2xl font-bold text-center">
-          {authMode === 'login' ? 'Welcome Back' : 'Create Account'}
-        </h1>
+        <h1 className="text-2xl font-bold text-center">Welcome</h1>
+        <p className="text-sm text-center text-gray-500">
+          Sign in with your Ethereum wallet. An account is created on your first sign-in.
+        </p>
         <form onSubmit={handleAuth} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium mb-2" htmlFor="email">
-              Email
-            </label>
-            <input
-              id="email"
-              type="email"
-              className="w-full p-2 border rounded-md"
-              required
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium mb-2" htmlFor="password">
-              Password
-            </label>
-            <input
-              id="password"
-              type="password"
-              className="w-full p-2 border rounded-md"
-              required
-            />
-          </div>
           <Button
             type="submit"
             className="w-full"
             disabled={isLoading}
           >
-            {isLoading ? 'Processing...' : authMode === 'login' ? 'Login' : 'Register'}
+            {isLoading ? 'Waiting for signature...' : 'Sign in with Ethereum'}
           </Button>
         </form>
-        <div className="text-center">
-          <button
-            type="button"
-            className="text-sm text-blue-600 hover:underline"
-            onClick={() => setAuthMode(authMode === 'login' ? 'register' : 'login')}
-          >
-            {authMode === 'login' ? 'Need an account? Register' : 'Already have an account? Login'}
-          </button>
-        </div>
+        {error && <p className="text-sm text-center text-red-600">{error}</p>}
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
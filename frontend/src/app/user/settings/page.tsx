@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { useWallet } from '@/hooks/useWallet';
 import { NetworkSelector } from '@/components/wallet/NetworkSelector';
 import { ThemeToggle } from '@/components/ui/theme-toggle';
+import { ActiveSessions } from '@/components/auth/ActiveSessions';
 
 export default function SettingsPage() {
   const { isConnected } = useWallet();
@@ -37,6 +38,17 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
 
+          {isConnected && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Active Sessions</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ActiveSessions />
+              </CardContent>
+            </Card>
+          )}
+
           {isConnected && (
             <Card>
               <CardHeader>
@@ -0,0 +1,95 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { authAPI, AuthSession } from '@/services/api';
+import { useWalletStore } from '@/store/useWalletStore';
+
+export function ActiveSessions() {
+  const router = useRouter();
+  const { disconnect } = useWalletStore();
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setSessions(await authAPI.getSessions());
+      setError(null);
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+      setError('Failed to load sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: AuthSession) => {
+    try {
+      await authAPI.revokeSession(session.id);
+      if (session.current) {
+        disconnect();
+        router.push('/auth');
+        return;
+      }
+      await loadSessions();
+    } catch (error) {
+      console.error('Failed to revoke session:', error);
+      setError('Failed to revoke session');
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    try {
+      await authAPI.signOutEverywhere();
+    } catch (error) {
+      console.error('Failed to sign out everywhere:', error);
+    } finally {
+      disconnect();
+      router.push('/auth');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {isLoading && <p className="text-sm text-gray-500">Loading sessions...</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {!isLoading && (
+        <ul className="divide-y">
+          {sessions.map((session) => (
+            <li key={session.id} className="flex items-center justify-between py-3">
+              <div>
+                <p className="font-medium">
+                  {session.device || 'Unknown device'}
+                  {session.current && (
+                    <span className="ml-2 text-xs bg-green-200 text-green-800 px-1 rounded">
+                      This device
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {session.ipAddress || 'Unknown IP'} · Last active{' '}
+                  {new Date(session.lastSeenAt).toLocaleString()}
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => handleRevoke(session)}>
+                Sign out
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Button variant="destructive" className="w-full" onClick={handleSignOutEverywhere}>
+        Sign out everywhere
+      </Button>
+    </div>
+  );
+}
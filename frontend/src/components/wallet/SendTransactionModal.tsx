@@ -1,10 +1,24 @@
 'use client';
 
 import { useState } from 'react';
+import { ethers } from 'ethers';
 import { useWallet } from '@/hooks/useWallet';
+import { useGasPrices } from '@/hooks/useGasPrices';
+import { GasSpeed } from '@/services/api';
 import { Button } from '@/components/ui/button';
 import { Card, CardHeader, CardTitle, CardContent, CardFooter } from '@/components/ui/card';
 
+const SPEEDS: { speed: GasSpeed; label: string }[] = [
+  { speed: 'slow', label: 'Slow' },
+  { speed: 'standard', label: 'Standard' },
+  { speed: 'fast', label: 'Fast' },
+  { speed: 'instant', label: 'Instant' },
+];
+
+const formatGwei = (wei: string) => Number(ethers.formatUnits(wei, 'gwei')).toFixed(2);
+
+const formatWait = (seconds: number) => (seconds < 60 ? `~${seconds}s` : `~${Math.round(seconds / 60)}m`);
+
 interface SendTransactionModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -14,7 +28,9 @@ export function SendTransactionModal({ isOpen, onClose }: SendTransactionModalPr
   const { sendTransaction } = useWallet();
   const [recipient, setRecipient] = useState('');
   const [amount, setAmount] = useState('');
+  const [speed, setSpeed] = useState<GasSpeed>('standard');
   const [isLoading, setIsLoading] = useState(false);
+  const { gasPrices, error: gasError } = useGasPrices(isOpen);
 
   if (!isOpen) return null;
 
@@ -23,7 +39,7 @@ export function SendTransactionModal({ isOpen, onClose }: SendTransactionModalPr
     setIsLoading(true);
 
     try {
-      const txId = await sendTransaction(recipient, amount);
+      const txId = await sendTransaction(recipient, amount, undefined, gasPrices?.speeds[speed]);
       if (txId) {
         onClose();
         setRecipient('');
@@ -66,6 +82,42 @@ export function SendTransactionModal({ isOpen, onClose }: SendTransactionModalPr
                 required
               />
             </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">Network Fee</label>
+                {gasPrices?.trend && (
+                  <span className="text-xs text-muted-foreground">
+                    Base fee {gasPrices.trend.direction} ({gasPrices.trend.baseFeeChangePercent > 0 ? '+' : ''}
+                    {gasPrices.trend.baseFeeChangePercent}%)
+                  </span>
+                )}
+              </div>
+              {gasPrices ? (
+                <div className="grid grid-cols-4 gap-2">
+                  {SPEEDS.map(({ speed: option, label }) => {
+                    const estimate = gasPrices.speeds[option];
+                    return (
+                      <button
+                        key={option}
+                        type="button"
+                        onClick={() => setSpeed(option)}
+                        className={`p-2 border rounded-md text-center text-xs ${
+                          speed === option ? 'border-primary bg-primary/10' : ''
+                        }`}
+                      >
+                        <div className="font-medium">{label}</div>
+                        <div>{formatGwei(estimate.maxFeePerGas)} gwei</div>
+                        <div className="text-muted-foreground">{formatWait(estimate.expectedInclusionSeconds)}</div>
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  {gasError ? 'Gas prices unavailable; the network default will be used' : 'Loading gas prices...'}
+                </p>
+              )}
+            </div>
           </CardContent>
           <CardFooter className="flex justify-end space-x-2">
             <Button
@@ -2,6 +2,7 @@
 
 import { useCallback } from 'react';
 import { useWalletStore } from '@/store/useWalletStore';
+import { authAPI } from '@/services/api';
 
 export function useAuth() {
   const { setAddress, setConnected, disconnect } = useWalletStore();
@@ -27,12 +28,33 @@ export function useAuth() {
     }
   }, [setAddress, setConnected]);
 
+  const signIn = useCallback(async () => {
+    const address = await connectWallet();
+    if (!address) {
+      throw new Error('No wallet account available');
+    }
+
+    const chainId = parseInt(await window.ethereum.request({ method: 'eth_chainId' }), 16);
+
+    // personal_sign works for EOAs and for smart-contract wallets that implement ERC-1271
+    return authAPI.login(address, chainId, (message) =>
+      window.ethereum.request({
+        method: 'personal_sign',
+        params: [message, address],
+      })
+    );
+  }, [connectWallet]);
+
   const disconnectWallet = useCallback(() => {
+    authAPI.logout().catch((error) => {
+      console.error('Failed to log out:', error);
+    });
     disconnect();
   }, [disconnect]);
 
   return {
     connectWallet,
+    signIn,
     disconnectWallet,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import { relayerAPI, GasPrices } from '@/services/api';
+
+// How often gas prices are refreshed while the hook is mounted
+const REFRESH_INTERVAL_MS = 15000;
+
+export function useGasPrices(enabled = true) {
+  const [gasPrices, setGasPrices] = useState<GasPrices | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchGasPrices = useCallback(async () => {
+    if (!window.ethereum) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const chainId = await window.ethereum.request({ method: 'eth_chainId' });
+      const prices = await relayerAPI.getGasPrices(parseInt(chainId, 16));
+      setGasPrices(prices);
+      return prices;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch gas prices';
+      setError(errorMessage);
+      console.error('Error fetching gas prices:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Refresh while enabled, and when the wallet switches chains
+  useEffect(() => {
+    if (!enabled) return;
+
+    fetchGasPrices();
+    const timer = setInterval(fetchGasPrices, REFRESH_INTERVAL_MS);
+    window.ethereum?.on?.('chainChanged', fetchGasPrices);
+
+    return () => {
+      clearInterval(timer);
+      window.ethereum?.removeListener?.('chainChanged', fetchGasPrices);
+    };
+  }, [enabled, fetchGasPrices]);
+
+  return {
+    gasPrices,
+    fetchGasPrices,
+    isLoading,
+    error,
+  };
+}
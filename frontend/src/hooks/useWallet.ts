@@ -1,6 +1,6 @@
 import { useCallback, useEffect, useState } from 'react';
 import { useWalletStore } from '@/store/useWalletStore';
-import { walletAPI, transactionAPI } from '@/services/api';
+import { walletAPI, transactionAPI, GasFeeEstimate } from '@/services/api';
 import { ethers } from 'ethers';
 
 export function useWallet() {
@@ -125,7 +125,8 @@ export function useWallet() {
   const sendTransaction = useCallback(async (
     to: string,
     amount: string,
-    data?: string
+    data?: string,
+    fees?: Pick<GasFeeEstimate, 'maxFeePerGas' | 'maxPriorityFeePerGas'>
   ) => {
     if (!address || !isConnected) {
       throw new Error('Wallet not connected');
@@ -147,11 +148,14 @@ export function useWallet() {
       // Convert ETH to wei
       const valueWei = ethers.parseEther(amount).toString();
       
-      // Send transaction through the API
-      const response = await transactionAPI.sendTransaction(address, {
+      // Send transaction through the relayer on the wallet's current chain
+      const chainId = parseInt(await window.ethereum.request({ method: 'eth_chainId' }), 16);
+      const response = await transactionAPI.sendTransaction(address, chainId, {
         to,
         value: valueWei,
-        data
+        data,
+        maxFeePerGas: fees?.maxFeePerGas,
+        maxPriorityFeePerGas: fees?.maxPriorityFeePerGas
       });
       
       // Update the transaction with the real tx hash
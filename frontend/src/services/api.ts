@@ -23,20 +23,108 @@ api.interceptors.request.use(
   (error) => Promise.reject(error)
 );
 
-// Auth API
+// Store the tokens returned by login and refresh
+const storeTokens = (data: { token: string; refreshToken: string }) => {
+  localStorage.setItem('auth_token', data.token);
+  localStorage.setItem('refresh_token', data.refreshToken);
+};
+
+const clearTokens = () => {
+  localStorage.removeItem('auth_token');
+  localStorage.removeItem('refresh_token');
+};
+
+// Requests whose 401 responses are not caused by an expired access token
+const UNREFRESHABLE_URLS = ['/auth/login', '/auth/refresh'];
+
+// Refresh tokens are single use, so concurrent 401s share one refresh request
+let refreshPromise: Promise<void> | null = null;
+
+const refreshTokens = () => {
+  if (!refreshPromise) {
+    const refreshToken = localStorage.getItem('refresh_token');
+    refreshPromise = (
+      refreshToken
+        ? axios.post(`${API_URL}/auth/refresh`, { refreshToken }).then((response) => storeTokens(response.data))
+        : Promise.reject(new Error('Not signed in'))
+    )
+      .catch((error) => {
+        clearTokens();
+        throw error;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+// Add response interceptor to refresh expired access tokens once
+api.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const config = error.config;
+    if (error.response?.status === 401 && config && !config._retried && !UNREFRESHABLE_URLS.includes(config.url)) {
+      config._retried = true;
+      await refreshTokens();
+      return api(config);
+    }
+    return Promise.reject(error);
+  }
+);
+
+export interface AuthSession {
+  id: string;
+  device?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+  current: boolean;
+}
+
+// Auth API (Sign-In with Ethereum, EIP-4361)
 export const authAPI = {
-  login: async (email: string, password: string) => {
-    const response = await api.post('/auth/login', { email, password });
-    return response.data;
+  getNonce: async (address: string, chainId: number) => {
+    const response = await api.get(`/auth/nonce/${address}`, { params: { chainId } });
+    return response.data as { nonce: string; message: string; expiresAt: number };
   },
-  register: async (email: string, password: string, name: string) => {
-    const response = await api.post('/auth/register', { email, password, name });
+  login: async (
+    address: string,
+    chainId: number,
+    signMessage: (message: string) => Promise<string>
+  ) => {
+    const { message } = await authAPI.getNonce(address, chainId);
+    const signature = await signMessage(message);
+    const response = await api.post('/auth/login', { message, signature });
+    storeTokens(response.data);
     return response.data;
   },
   logout: async () => {
-    const response = await api.post('/auth/logout');
+    try {
+      const response = await api.post('/auth/logout');
+      return response.data;
+    } finally {
+      clearTokens();
+    }
+  },
+  getSessions: async () => {
+    const response = await api.get('/auth/sessions');
+    return response.data.sessions as AuthSession[];
+  },
+  revokeSession: async (sessionId: string) => {
+    const response = await api.delete(`/auth/sessions/${sessionId}`);
     return response.data;
   },
+  signOutEverywhere: async () => {
+    try {
+      const response = await api.post('/auth/sessions/revoke-all');
+      return response.data;
+    } finally {
+      clearTokens();
+    }
+  },
 };
 
 // Wallet API
@@ -77,15 +165,18 @@ export const walletAPI = {
 
 // Transaction API
 export const transactionAPI = {
-  sendTransaction: async (walletAddress: string, data: {
+  sendTransaction: async (walletAddress: string, chainId: number, data: {
     to: string;
     value: string;
     data?: string;
-    gasLimit?: string;
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
   }) => {
-    const response = await api.post(`/relayer/send`, {
-      walletAddress,
-      ...data
+    const response = await api.post(`/relayer/send-gasless-tx`, {
+      chainId,
+      userAddress: walletAddress,
+      ...data,
+      data: data.data || '0x'
     });
     return response.data;
   },
@@ -95,6 +186,108 @@ export const transactionAPI = {
   },
 };
 
+export type GasSpeed = 'slow' | 'standard' | 'fast' | 'instant';
+
+export interface GasFeeEstimate {
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  expectedInclusionSeconds: number;
+}
+
+export interface GasPrices {
+  chainId: number;
+  gasPrice: string;
+  blockNumber: number;
+  eip1559: boolean;
+  baseFeePerGas: string;
+  speeds: Record<GasSpeed, GasFeeEstimate>;
+  trend?: {
+    direction: 'rising' | 'falling' | 'stable';
+    baseFeeChangePercent: number;
+    averageGasUsedRatio: number;
+    blocks: { number: number; baseFeePerGas: string; gasUsedRatio: number; priorityFeePerGas: string }[];
+  };
+  sampledAt: number;
+}
+
+// Relayer API
+export const relayerAPI = {
+  getGasPrices: async (chainId: number) => {
+    const response = await api.get(`/relayer/gas-price/${chainId}`);
+    return response.data as GasPrices;
+  },
+};
+
+export type IncidentStatus = 'open' | 'investigating' | 'resolved' | 'false_positive';
+export type IncidentSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface SecurityIncident {
+  id: string;
+  tenantId: string;
+  userId: string;
+  source: 'intrusion_detection' | 'emergency_lockdown';
+  title: string;
+  severity: IncidentSeverity;
+  status: IncidentStatus;
+  assignee?: string;
+  eventIds: string[];
+  ruleIds: string[];
+  auditLogIds: string[];
+  notes: { id: string; author: string; body: string; createdAt: number }[];
+  transitions: { from: IncidentStatus; to: IncidentStatus; performedBy: string; timestamp: number; comment?: string }[];
+  openedAt: number;
+  lastEventAt: number;
+  updatedAt: number;
+  closedAt?: number;
+}
+
+export interface SecurityEvent {
+  id: string;
+  userId: string;
+  eventType: string;
+  timestamp: number;
+  ipAddress?: string;
+  deviceId?: string;
+  riskScore: number;
+  action: 'allow' | 'step_up_mfa' | 'block' | 'lock';
+  detections: { ruleId: string; reason: string }[];
+}
+
+export interface IncidentDetails {
+  incident: SecurityIncident;
+  events: SecurityEvent[];
+  auditLogs: { id: string; action: string; performedBy: string; timestamp: number; details?: Record<string, unknown> }[];
+  lockout: { reason: string; lockedAt: number; lockedUntil: number } | null;
+}
+
+// Security API (incident review)
+export const securityAPI = {
+  getIncidents: async (filters: { status?: IncidentStatus; severity?: IncidentSeverity; assignee?: string } = {}) => {
+    const response = await api.get('/security/incidents', { params: filters });
+    return response.data.incidents as SecurityIncident[];
+  },
+  getIncident: async (incidentId: string) => {
+    const response = await api.get(`/security/incidents/${incidentId}`);
+    return response.data as IncidentDetails;
+  },
+  updateIncident: async (incidentId: string, update: { assignee?: string | null; severity?: IncidentSeverity }) => {
+    const response = await api.patch(`/security/incidents/${incidentId}`, update);
+    return response.data.incident as SecurityIncident;
+  },
+  setStatus: async (incidentId: string, status: IncidentStatus, comment?: string) => {
+    const response = await api.post(`/security/incidents/${incidentId}/status`, { status, comment });
+    return response.data.incident as SecurityIncident;
+  },
+  addNote: async (incidentId: string, body: string) => {
+    const response = await api.post(`/security/incidents/${incidentId}/notes`, { body });
+    return response.data.incident as SecurityIncident;
+  },
+  unlockAccount: async (incidentId: string, justification: string) => {
+    const response = await api.post(`/security/incidents/${incidentId}/unlock`, { justification });
+    return response.data.incident as SecurityIncident;
+  },
+};
+
 // Notification API
 export const notificationAPI = {
   getNotifications: async () => {